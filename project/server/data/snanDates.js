@@ -0,0 +1,10 @@
+/**
+ * Bathing (snan) days of the Nashik-Trimbakeshwar Simhastha, as local (IST) dates.
+ * Crowds at the ghats are several times the usual on these days, so heat planning
+ * scales up around them. Update as the akhada council confirms the calendar.
+ */
+export const SNAN_DATES = [
+    { date: '2027-08-02', name: 'First Amrit Snan' },
+    { date: '2027-08-31', name: 'Second Amrit Snan' },
+    { date: '2027-09-11', name: 'Third Amrit Snan' },
+];
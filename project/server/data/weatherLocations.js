@@ -0,0 +1,11 @@
+/**
+ * Places weather is tracked for. The first entry is the mela as a whole and is
+ * what risk scoring uses; the others are the sectors field teams report from.
+ * `sector` is the key used by the API and by manual readings.
+ */
+export const WEATHER_LOCATIONS = [
+    { sector: 'nashik', name: 'Nashik', lat: 19.9975, lon: 73.7898 },
+    { sector: 'ramkund', name: 'Ramkund (Panchavati)', lat: 20.0076, lon: 73.7929 },
+    { sector: 'tapovan', name: 'Tapovan', lat: 20.0133, lon: 73.8165 },
+    { sector: 'trimbakeshwar', name: 'Trimbakeshwar', lat: 19.9323, lon: 73.5310 },
+];
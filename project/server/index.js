@@ -10,6 +10,27 @@ import { analyticsRouter } from './routes/analytics.js';
 import { lostFoundRouter } from './routes/lostFound.js';
 import faceRoutes from './routes/face.js';
 import { highRiskRouter } from './routes/highRisk.js';
+import { authRouter, ensureBootstrapAdmin } from './routes/auth.js';
+import { requireAuth } from './middleware/auth.js';
+import { auditRouter } from './routes/audit.js';
+import { medicalCentersRouter } from './routes/medicalCenters.js';
+import { followUpsRouter } from './routes/followUps.js';
+import { terminologyRouter } from './routes/terminology.js';
+import { clinicalRouter } from './routes/clinical.js';
+import { surveillanceRouter } from './routes/surveillance.js';
+import { riskModelsRouter } from './routes/riskModels.js';
+import { eventsRouter } from './routes/events.js';
+import { groupsRouter } from './routes/groups.js';
+import { mergesRouter } from './routes/merges.js';
+import { importsRouter } from './routes/imports.js';
+import { exportsRouter } from './routes/exports.js';
+import { mediaFilesRouter, mediaRouter } from './routes/media.js';
+import { signMediaUrls } from './middleware/mediaUrls.js';
+import { idempotency } from './middleware/idempotency.js';
+import { loadFaceIndexes, saveFaceIndexes } from './utils/faceIndex.js';
+import { startOutbreakDetection } from './utils/surveillance.js';
+import { startRiskAssessments } from './utils/riskAssessments.js';
+import { resumeImportJobs } from './utils/imports.js';
 
 
 dotenv.config();
@@ -23,14 +44,28 @@ if (!MONGODB_URI) {
   process.exit(1);
 }
 
+if (!process.env.JWT_SECRET) {
+  console.error('Missing JWT_SECRET. Set it in a .env file.');
+  process.exit(1);
+}
+
 app.use(cors());
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+// Photos go to /api/media as raw bodies; JSON only carries the odd data URL from offline clients
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok' });
 });
 
+app.use('/api/auth', authRouter);
+app.use('/api/media/files', mediaFilesRouter);
+
+// Everything below requires a logged-in staff member
+app.use('/api', requireAuth);
+app.use('/api', signMediaUrls);
+app.use('/api', idempotency);
+
 app.use('/api/devotees', devoteeRoutes);
 app.use('/api/incidents', incidentRoutes);
 app.use('/api/chatbot', chatbotRoutes);
@@ -39,6 +74,19 @@ app.use('/api/analytics', analyticsRouter);
 app.use('/api/lost-found', lostFoundRouter);
 app.use('/api/face', faceRoutes);
 app.use('/api/high-risk', highRiskRouter);
+app.use('/api/audit', auditRouter);
+app.use('/api/medical-centers', medicalCentersRouter);
+app.use('/api/follow-ups', followUpsRouter);
+app.use('/api/terminology', terminologyRouter);
+app.use('/api/clinical', clinicalRouter);
+app.use('/api/surveillance', surveillanceRouter);
+app.use('/api/risk-models', riskModelsRouter);
+app.use('/api/events', eventsRouter);
+app.use('/api/groups', groupsRouter);
+app.use('/api/merges', mergesRouter);
+app.use('/api/imports', importsRouter);
+app.use('/api/exports', exportsRouter);
+app.use('/api/media', mediaRouter);
 
 
 // SERVE STATIC FILES (This fixes "Cannot GET /")
@@ -87,6 +135,12 @@ async function start() {
     });
     console.log('Connected to MongoDB');
 
+    await ensureBootstrapAdmin();
+    await loadFaceIndexes();
+    startOutbreakDetection();
+    startRiskAssessments();
+    resumeImportJobs().catch((error) => console.error('Failed to resume import jobs', error));
+
     app.listen(PORT, () => {
       console.log(`API server listening on http://localhost:${PORT}`);
     });
@@ -101,5 +155,17 @@ async function start() {
   }
 }
 
+// Flush face index snapshots so the next start only replays recent changes
+['SIGINT', 'SIGTERM'].forEach((signal) => {
+  process.on(signal, async () => {
+    try {
+      await saveFaceIndexes();
+    } catch (error) {
+      console.error('Failed to save face indexes on shutdown', error);
+    }
+    process.exit(0);
+  });
+});
+
 start();
 
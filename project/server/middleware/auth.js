@@ -0,0 +1,65 @@
+import jwt from 'jsonwebtoken';
+import { StaffUser } from '../models/StaffUser.js';
+import { hasPermission } from '../utils/permissions.js';
+
+const TOKEN_TTL = process.env.AUTH_TOKEN_TTL || '12h'; // one duty shift
+
+function getSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('Missing JWT_SECRET. Set it in a .env file.');
+  }
+  return secret;
+}
+
+export function signToken(user) {
+  return jwt.sign(
+    { sub: user._id.toString(), role: user.role, username: user.username },
+    getSecret(),
+    { expiresIn: TOKEN_TTL }
+  );
+}
+
+// Verifies the bearer token and attaches the staff user to req.user
+export async function requireAuth(req, res, next) {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const payload = jwt.verify(token, getSecret());
+    const user = await StaffUser.findById(payload.sub).lean();
+
+    if (!user || !user.active) {
+      return res.status(401).json({ message: 'Account is disabled or no longer exists' });
+    }
+
+    req.user = {
+      id: user._id.toString(),
+      username: user.username,
+      full_name: user.full_name,
+      role: user.role,
+      medical_center: user.medical_center,
+      medical_center_id: user.medical_center_id?.toString() ?? null,
+    };
+    return next();
+  } catch (error) {
+    return res.status(401).json({ message: 'Invalid or expired session', details: error.message });
+  }
+}
+
+// Passes when the role holds any one of the given permissions
+export function requirePermission(...permissions) {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    if (!permissions.some((permission) => hasPermission(req.user.role, permission))) {
+      return res.status(403).json({ message: `Your role (${req.user.role}) is not allowed to perform this action` });
+    }
+    return next();
+  };
+}
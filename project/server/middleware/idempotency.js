@@ -0,0 +1,61 @@
+import { IdempotencyKey } from '../models/IdempotencyKey.js';
+
+const MAX_KEY_LENGTH = 200;
+// A key still marked in progress after this long belongs to a request that died without answering
+const STALE_AFTER = 5 * 60 * 1000;
+const IN_PROGRESS = { message: 'This request is still being processed', code: 'idempotency_in_progress' };
+
+/**
+ * Offline clients send every queued POST with an Idempotency-Key header. If
+ * the network dropped after the server committed, the replay gets the stored
+ * response back instead of creating a second registration or incident.
+ * Only successful responses are kept: a rejected request can be fixed and
+ * sent again under the same key.
+ */
+export async function idempotency(req, res, next) {
+  const key = req.get('Idempotency-Key');
+  if (!key || req.method !== 'POST' || !req.user) return next();
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: 'Idempotency-Key is too long' });
+  }
+
+  const scope = { user_id: req.user.id, key };
+  try {
+    let previous = await IdempotencyKey.findOne(scope).lean();
+    if (previous?.status_code === null && Date.now() - new Date(previous.created_at).getTime() > STALE_AFTER) {
+      await IdempotencyKey.deleteOne({ _id: previous._id, status_code: null });
+      previous = null;
+    }
+    if (previous) {
+      if (previous.path !== req.originalUrl) {
+        return res.status(422).json({ message: 'This Idempotency-Key was already used for a different request' });
+      }
+      if (previous.status_code === null) {
+        return res.status(409).json(IN_PROGRESS);
+      }
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(previous.status_code).json(previous.response);
+    }
+
+    await IdempotencyKey.create({ ...scope, method: req.method, path: req.originalUrl });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json(IN_PROGRESS);
+    }
+    console.error('Failed to check idempotency key', error);
+    return res.status(500).json({ message: 'Failed to check idempotency key', details: error.message });
+  }
+
+  const json = res.json.bind(res);
+  // The outcome is saved before the client sees it, so a replay can never race ahead of it
+  res.json = (body) => {
+    const stored = res.statusCode >= 200 && res.statusCode < 300
+      ? IdempotencyKey.updateOne(scope, { $set: { status_code: res.statusCode, response: JSON.parse(JSON.stringify(body ?? null)) } })
+      : IdempotencyKey.deleteOne(scope);
+    stored
+      .catch((error) => console.error('Failed to store idempotent response', error))
+      .finally(() => json(body));
+    return res;
+  };
+  return next();
+}
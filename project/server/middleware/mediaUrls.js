@@ -0,0 +1,26 @@
+import { isMediaRef, mediaBaseUrl, mediaIdOf, signedMediaUrl } from '../utils/media.js';
+
+/**
+ * Swap photo_url "media:<id>" refs in JSON responses for signed URLs: photo_url
+ * becomes the profile-sized image and photo_thumb_url the list thumbnail.
+ * Legacy data URLs pass through untouched until the migration has run.
+ */
+export function signMediaUrls(req, res, next) {
+  const baseUrl = mediaBaseUrl(req);
+
+  function replacer(_key, value) {
+    if (!value || typeof value !== 'object' || !isMediaRef(value.photo_url)) return value;
+    const id = mediaIdOf(value.photo_url);
+    return {
+      ...value,
+      photo_url: signedMediaUrl(baseUrl, id, 'display'),
+      photo_thumb_url: signedMediaUrl(baseUrl, id, 'thumb'),
+    };
+  }
+
+  res.json = (body) => {
+    if (!res.get('Content-Type')) res.set('Content-Type', 'application/json; charset=utf-8');
+    return res.send(JSON.stringify(body, replacer));
+  };
+  next();
+}
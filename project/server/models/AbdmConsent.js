@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { ABHA_NUMBER_PATTERN } from '../utils/abdm.js';
+
+// Who agreed at the desk: the pilgrim, or the relative answering for them
+export const ABDM_CONSENT_GIVERS = ['pilgrim', 'guardian'];
+// Demographics are always asked for; clinical sections only by staff who may read medical records
+export const ABDM_CONSENT_SCOPES = ['demographics', 'clinical'];
+// ABDM purpose of use: Care Management
+export const ABDM_CONSENT_PURPOSE = 'CAREMGT';
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+    role: String,
+  },
+  { _id: false }
+);
+
+// A pilgrim's consent to pull the health records linked to their ABHA number, recorded before every fetch
+const abdmConsentSchema = new mongoose.Schema(
+  {
+    abha_number: { type: String, required: true, match: ABHA_NUMBER_PATTERN, index: true },
+    given_by: { type: String, enum: ABDM_CONSENT_GIVERS, required: true },
+    purpose: { type: String, default: ABDM_CONSENT_PURPOSE },
+    scope: { type: [{ type: String, enum: ABDM_CONSENT_SCOPES }], required: true },
+    // 'requested' until the gateway answers
+    status: { type: String, enum: ['requested', 'fetched', 'failed'], default: 'requested' },
+    requested_by: staffRefSchema,
+    ip: { type: String, default: '' },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: false } }
+);
+
+abdmConsentSchema.index({ created_at: -1 });
+
+export const AbdmConsent = mongoose.model('AbdmConsent', abdmConsentSchema);
@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+
+export const AUDIT_ACTIONS = ['devotee.view', 'devotee.update', 'incident.create', 'incident.observation',
+  'incident.update', 'incident.referral', 'incident.follow_up', 'incident.prescription_override',
+  'incident.prescription_flagged', 'incident.prescription_review',
+  'devotee.merge', 'devotee.unmerge', 'devotee.export'];
+
+const fieldChangeSchema = new mongoose.Schema(
+  {
+    field: { type: String, required: true },
+    before: { type: mongoose.Schema.Types.Mixed },
+    after: { type: mongoose.Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const auditEventSchema = new mongoose.Schema(
+  {
+    actor: {
+      id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser', required: true },
+      username: { type: String, required: true },
+      role: { type: String, required: true },
+    },
+    action: { type: String, required: true, enum: AUDIT_ACTIONS, index: true },
+    devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee', required: true, index: true },
+    // The incident, record, etc. the action touched, when it is not the devotee itself
+    target_id: { type: mongoose.Schema.Types.ObjectId },
+    changes: { type: [fieldChangeSchema], default: [] },
+    ip: { type: String, default: '' },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: false } }
+);
+
+auditEventSchema.index({ devotee_id: 1, created_at: -1 });
+
+// Audit events are append-only: refuse every update or delete path
+const rejectMutation = function () {
+  throw new Error('Audit events are immutable');
+};
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+  'deleteOne', 'deleteMany', 'findOneAndDelete'].forEach((op) => {
+  auditEventSchema.pre(op, rejectMutation);
+});
+
+auditEventSchema.pre('save', function () {
+  if (!this.isNew) {
+    throw new Error('Audit events are immutable');
+  }
+});
+
+export const AuditEvent = mongoose.model('AuditEvent', auditEventSchema);
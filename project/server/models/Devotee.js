@@ -1,4 +1,6 @@
 import mongoose from 'mongoose';
+import { ABHA_NUMBER_PATTERN } from '../utils/abdm.js';
+import { phoneKey } from '../utils/phone.js';
 
 const devoteeSchema = new mongoose.Schema(
   {
@@ -7,17 +9,36 @@ const devoteeSchema = new mongoose.Schema(
     age: { type: Number, required: true, min: 1, max: 150 },
     gender: { type: String, required: true, enum: ['Male', 'Female', 'Other'] },
     phone: { type: String, required: true, index: true },
+    // Digits of phone as duplicate checks compare them (utils/phone.js); kept in step by the hooks below
+    phone_key: { type: String, index: true },
 
     emergency_contact_name: { type: String, required: true },
     emergency_contact_phone: { type: String, required: true },
+    // Ayushman Bharat Health Account number, 91-1234-5678-9012; not unique, a duplicate registration may carry it too
+    abha_number: { type: String, match: ABHA_NUMBER_PATTERN, default: undefined, index: { sparse: true } },
     photo_url: { type: String },
     // 128-d face descriptor for face-based search (from face-api.js)
     face_descriptor: { type: [Number], default: undefined },
+    // Family or travel group registered together, if any
+    group_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Group', default: null, index: true },
+    // Registration numbers of duplicate records merged into this one; old health cards still resolve
+    aliases: { type: [String], default: [], index: true },
   },
   { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
 );
 
 devoteeSchema.index({ full_name: 'text' });
 
+devoteeSchema.pre('validate', function () {
+  if (this.isModified('phone') || this.phone_key === undefined) this.phone_key = phoneKey(this.phone);
+});
+
+// Profile edits change the phone through update queries, which skip document hooks
+devoteeSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], function () {
+  const update = this.getUpdate() || {};
+  const phone = update.$set?.phone ?? update.phone;
+  if (phone !== undefined) this.set('phone_key', phoneKey(phone));
+});
+
 export const Devotee = mongoose.model('Devotee', devoteeSchema);
 
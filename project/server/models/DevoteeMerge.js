@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+
+export const MERGE_STATUSES = ['merged', 'reverted'];
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+  },
+  { _id: false }
+);
+
+/**
+ * One duplicate registration folded into another. Holds what is needed to undo it:
+ * the retired devotee and record as they were, which rows were re-pointed, and
+ * exactly what was copied onto the surviving devotee and record.
+ */
+const devoteeMergeSchema = new mongoose.Schema(
+  {
+    survivor_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee', required: true, index: true },
+    retired_id: { type: mongoose.Schema.Types.ObjectId, required: true, index: true },
+    retired_registration_number: { type: String, required: true, index: true },
+    reason: { type: String, default: '' },
+    status: { type: String, enum: MERGE_STATUSES, default: 'merged', index: true },
+
+    // The retired devotee and its medical record exactly as stored before the merge
+    retired_devotee: { type: mongoose.Schema.Types.Mixed, required: true },
+    retired_record: { type: mongoose.Schema.Types.Mixed, default: null },
+    // True when the survivor had no record and simply took over the retired one
+    record_repointed: { type: Boolean, default: false },
+    // Survivor devotee fields that were blank and filled from the retired one: { field: null }
+    devotee_filled: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // Survivor record fields filled, and coded entries added, from the retired record
+    record_filled: { type: mongoose.Schema.Types.Mixed, default: {} },
+    record_added: { type: mongoose.Schema.Types.Mixed, default: {} },
+    notes_appended: { type: String, default: '' },
+
+    incident_ids: { type: [mongoose.Schema.Types.ObjectId], default: [] },
+    lost_person_ids: { type: [mongoose.Schema.Types.ObjectId], default: [] },
+    // The retired devotee's group; transferred when the survivor took its place in it
+    group: {
+      id: { type: mongoose.Schema.Types.ObjectId, ref: 'Group' },
+      relationship: String,
+      was_leader: Boolean,
+      transferred: Boolean,
+    },
+
+    merged_by: staffRefSchema,
+    merged_at: { type: Date, default: Date.now },
+    reverted_by: staffRefSchema,
+    reverted_at: Date,
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
+);
+
+export const DevoteeMerge = mongoose.model('DevoteeMerge', devoteeMergeSchema);
@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+
+export const EXPORT_DATASETS = ['devotees', 'medical_records', 'incidents', 'fhir'];
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'fhir+json'];
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+    role: String,
+  },
+  { _id: false }
+);
+
+// Every download of data out of the system: who ran it, what was asked for and how much left
+const exportLogSchema = new mongoose.Schema(
+  {
+    dataset: { type: String, enum: EXPORT_DATASETS, required: true, index: true },
+    format: { type: String, enum: EXPORT_FORMATS, required: true },
+    // The filters as applied, e.g. { from, to, center_id, risk_level }
+    filters: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // Set for a single devotee's FHIR bundle
+    devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee', default: null, index: true },
+    row_count: { type: Number, default: 0 },
+    // False when the download broke off part way
+    completed: { type: Boolean, default: false },
+    exported_by: staffRefSchema,
+    ip: { type: String, default: '' },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: false } }
+);
+
+exportLogSchema.index({ created_at: -1 });
+
+export const ExportLog = mongoose.model('ExportLog', exportLogSchema);
@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+
+// A family travelling together, a group from one village, or a tour operator's batch
+export const GROUP_TYPES = ['family', 'village', 'tour'];
+// How a member is related to the group leader
+export const RELATIONSHIPS = ['self', 'spouse', 'parent', 'child', 'sibling', 'grandparent', 'grandchild',
+  'relative', 'neighbour', 'friend', 'other'];
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+  },
+  { _id: false }
+);
+
+const memberSchema = new mongoose.Schema(
+  {
+    devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee', required: true },
+    relationship: { type: String, enum: RELATIONSHIPS, default: 'other' },
+  },
+  { _id: false }
+);
+
+const groupSchema = new mongoose.Schema(
+  {
+    group_number: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    type: { type: String, enum: GROUP_TYPES, required: true },
+    leader_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee' },
+    members: { type: [memberSchema], default: [] },
+
+    // Shared by every member at registration
+    contact_phone: { type: String, required: true },
+    emergency_contact_name: { type: String, required: true },
+    emergency_contact_phone: { type: String, required: true },
+    address: {
+      line: String,
+      village: String,
+      district: String,
+      state: String,
+      pincode: String,
+    },
+    // Only for tour batches
+    tour_operator: {
+      name: String,
+      phone: String,
+    },
+    notes: { type: String, default: '' },
+    created_by: staffRefSchema,
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
+);
+
+groupSchema.index({ 'members.devotee_id': 1 });
+
+export const Group = mongoose.model('Group', groupSchema);
@@ -0,0 +1,24 @@
+import mongoose from 'mongoose';
+
+// How long a replayed offline mutation can still be matched to its first attempt
+const RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// The outcome of a POST sent with an Idempotency-Key header, so a replay returns it instead of acting twice
+const idempotencyKeySchema = new mongoose.Schema(
+  {
+    key: { type: String, required: true },
+    user_id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser', required: true },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    // Null while the first request is still running
+    status_code: { type: Number, default: null },
+    response: { type: mongoose.Schema.Types.Mixed, default: null },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: false } }
+);
+
+// Keys are scoped to the staff member who sent them
+idempotencyKeySchema.index({ user_id: 1, key: 1 }, { unique: true });
+idempotencyKeySchema.index({ created_at: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
+
+export const IdempotencyKey = mongoose.model('IdempotencyKey', idempotencyKeySchema);
@@ -0,0 +1,62 @@
+import mongoose from 'mongoose';
+
+// uploading -> uploaded -> validating -> validated -> importing -> completed
+export const IMPORT_STATUSES = ['uploading', 'uploaded', 'validating', 'validated', 'importing', 'completed', 'failed', 'cancelled'];
+export const IMPORT_FORMATS = ['csv', 'xlsx'];
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+  },
+  { _id: false }
+);
+
+/**
+ * A spreadsheet of pre-registered pilgrims, e.g. from a tour operator or state transport.
+ * Rows are stored as ImportRow documents and worked through in batches; `cursor` is the
+ * next row to process in the current phase, so a job interrupted by a restart carries on
+ * where it stopped.
+ */
+const importJobSchema = new mongoose.Schema(
+  {
+    filename: { type: String, required: true },
+    format: { type: String, enum: IMPORT_FORMATS, required: true },
+    // The uploaded sheet in the media store until its rows have been read; key is null after that
+    file: {
+      backend: { type: String, default: null },
+      key: { type: String, default: null },
+      size: { type: Number, default: 0 },
+    },
+    headers: { type: [String], default: [] },
+    // First few data rows, to show next to the column mapping
+    sample: { type: [[String]], default: [] },
+    // Import field -> column index
+    mapping: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // Import field -> value used when the mapped cell is blank or no column is mapped
+    defaults: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // Also import rows flagged as likely duplicates
+    import_duplicates: { type: Boolean, default: false },
+
+    status: { type: String, enum: IMPORT_STATUSES, default: 'uploading', index: true },
+    phase: { type: String, enum: ['upload', 'validate', 'import'], default: 'upload' },
+    cursor: { type: Number, default: 0 },
+    total_rows: { type: Number, default: 0 },
+    counts: {
+      validated: { type: Number, default: 0 },
+      valid: { type: Number, default: 0 },
+      invalid: { type: Number, default: 0 },
+      duplicate: { type: Number, default: 0 },
+      imported: { type: Number, default: 0 },
+    },
+    error: { type: String, default: '' },
+
+    created_by: staffRefSchema,
+    started_at: Date,
+    finished_at: Date,
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
+);
+
+export const ImportJob = mongoose.model('ImportJob', importJobSchema);
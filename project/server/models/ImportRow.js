@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+
+export const IMPORT_ROW_STATUSES = ['pending', 'valid', 'invalid', 'duplicate', 'imported'];
+
+const duplicateMatchSchema = new mongoose.Schema(
+  {
+    devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee' },
+    registration_number: String,
+    full_name: String,
+    confidence: { type: String, enum: ['likely', 'possible'] },
+    reasons: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+// One data row of an import job, kept as the raw cell text so the mapping can change
+const importRowSchema = new mongoose.Schema(
+  {
+    job_id: { type: mongoose.Schema.Types.ObjectId, ref: 'ImportJob', required: true },
+    // Position among the job's data rows; batches walk it in order
+    seq: { type: Number, required: true },
+    // Row number in the spreadsheet, for the report
+    row_number: { type: Number, required: true },
+    values: { type: [String], default: [] },
+
+    status: { type: String, enum: IMPORT_ROW_STATUSES, default: 'pending' },
+    // Why the row cannot be imported
+    issues: { type: [String], default: [] },
+    // Phone + name; rows repeating an earlier row's key are duplicates within the file
+    dedupe_key: { type: String, default: null },
+    duplicate_of_row: { type: Number, default: null },
+    duplicates: { type: [duplicateMatchSchema], default: [] },
+
+    devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee', default: null },
+    registration_number: { type: String, default: null },
+  }
+);
+
+importRowSchema.index({ job_id: 1, seq: 1 }, { unique: true });
+importRowSchema.index({ job_id: 1, status: 1, seq: 1 });
+importRowSchema.index({ job_id: 1, dedupe_key: 1 });
+
+export const ImportRow = mongoose.model('ImportRow', importRowSchema);
@@ -1,5 +1,22 @@
 import mongoose from 'mongoose';
 
+export const VERIFICATION_METHODS = ['face_match', 'photo_id', 'family_photo', 'personal_details', 'other'];
+export const CASE_EVENTS = ['reported', 'devotee_confirmed', 'devotee_dismissed', 'linked', 'unlinked', 'reunited'];
+
+// Desk staff member who performed a case step
+const staffRefSchema = new mongoose.Schema({
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String
+}, { _id: false });
+
+const caseEventSchema = new mongoose.Schema({
+    event: { type: String, enum: CASE_EVENTS, required: true },
+    at: { type: Date, default: Date.now },
+    by: staffRefSchema,
+    note: String
+}, { _id: false });
+
 const lostPersonSchema = new mongoose.Schema({
     name: {
         type: String,
@@ -44,14 +61,53 @@ const lostPersonSchema = new mongoose.Schema({
     current_location: {
         type: String
     },
-    created_at: {
-        type: Date,
-        default: Date.now
+    // The registered devotee this report is about, when known, so the desk can reach their group
+    devotee_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Devotee',
+        default: null,
+        index: true
+    },
+    // Registration whose photo is closest to this face. Only a suggestion: the desk
+    // confirms it is the same person before it becomes devotee_id and their group is shown
+    devotee_suggestion: {
+        devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee' },
+        similarity: Number,
+        suggested_at: Date
+    },
+    // The counterpart report once a missing/found match is confirmed
+    linked_report: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'LostPerson',
+        default: null,
+        index: true
+    },
+    match_confirmation: {
+        confirmed_by: staffRefSchema,
+        confirmed_at: Date,
+        verification_method: { type: String, enum: VERIFICATION_METHODS },
+        similarity: Number,
+        notes: String
+    },
+    // Filled in when the person is handed back to family, same on both linked reports
+    handover: {
+        guardian_name: String,
+        guardian_phone: String,
+        relationship: String,
+        id_proof_type: String,
+        id_proof_number: String,
+        desk: String,
+        handed_over_at: Date,
+        handed_over_by: staffRefSchema,
+        notes: String
     },
-    updated_at: {
-        type: Date,
-        default: Date.now
+    case_events: {
+        type: [caseEventSchema],
+        default: []
     }
+}, {
+    // updated_at is maintained on every write: the face index replays reports changed since its snapshot
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
 });
 
 export const LostPerson = mongoose.model('LostPerson', lostPersonSchema);
@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+
+export const MEDIA_SOURCES = ['upload', 'inline', 'migration'];
+export const MEDIA_VARIANTS = ['original', 'display', 'thumb'];
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+    role: String,
+  },
+  { _id: false }
+);
+
+const variantSchema = new mongoose.Schema(
+  {
+    name: { type: String, enum: MEDIA_VARIANTS, required: true },
+    // Object key in the storage backend
+    key: { type: String, required: true },
+    content_type: { type: String, required: true },
+    width: Number,
+    height: Number,
+    size: Number,
+  },
+  { _id: false }
+);
+
+// A stored image. Devotees and lost person reports point at it with photo_url "media:<id>"
+const mediaSchema = new mongoose.Schema(
+  {
+    // Which storage backend holds the files, so switching MEDIA_STORAGE doesn't orphan old photos
+    backend: { type: String, required: true },
+    variants: { type: [variantSchema], default: [] },
+    // Of the uploaded bytes; the same photo sent twice is stored once, even when both uploads race
+    sha256: { type: String, required: true, unique: true },
+    // How it arrived: the upload endpoint, a data URL in a JSON body, or the base64 migration
+    source: { type: String, enum: MEDIA_SOURCES, default: 'upload' },
+    uploaded_by: { type: staffRefSchema, default: null },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: false } }
+);
+
+export const Media = mongoose.model('Media', mediaSchema);
@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+
+export const CENTER_TYPES = ['hospital', 'camp', 'first_aid_post', 'ambulance_point'];
+
+const medicalCenterSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true, unique: true, trim: true },
+    type: { type: String, required: true, enum: CENTER_TYPES },
+    // GeoJSON point, coordinates are [longitude, latitude]
+    location: {
+      type: { type: String, enum: ['Point'], default: 'Point' },
+      coordinates: {
+        type: [Number],
+        required: true,
+        validate: {
+          validator: ([lng, lat] = []) => Math.abs(lng) <= 180 && Math.abs(lat) <= 90,
+          message: 'coordinates must be [longitude, latitude]',
+        },
+      },
+    },
+    sector: { type: String, default: '', index: true }, // ghat or mela sector
+    capacity: {
+      beds: { type: Number, default: 0, min: 0 },
+      ambulances: { type: Number, default: 0, min: 0 },
+    },
+    contact: {
+      person: { type: String, default: '' },
+      phone: { type: String, default: '' },
+    },
+    operating_hours: {
+      always_open: { type: Boolean, default: true },
+      opens: { type: String, default: '' }, // "HH:mm"
+      closes: { type: String, default: '' },
+    },
+    active: { type: Boolean, default: true },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
+);
+
+medicalCenterSchema.index({ location: '2dsphere' });
+
+export const MedicalCenter = mongoose.model('MedicalCenter', medicalCenterSchema);
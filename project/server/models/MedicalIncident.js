@@ -1,4 +1,166 @@
 import mongoose from 'mongoose';
+import { codedEntrySchema } from './MedicalRecord.js';
+import { AVPU_LEVELS, NEWS2_RISKS, TRIAGE_CATEGORIES, VITAL_LIMITS } from '../utils/triage.js';
+import { SYNDROMES } from '../utils/syndromes.js';
+
+export const INCIDENT_STATUSES = ['open', 'under_treatment', 'referred', 'discharged', 'deceased', 'left_against_advice'];
+export const CLOSED_STATUSES = ['discharged', 'deceased', 'left_against_advice'];
+export const TRANSPORT_MODES = ['ambulance', 'private_vehicle', 'on_foot', 'other'];
+export const REFERRAL_STATUSES = ['pending', 'accepted', 'rejected'];
+export const FOLLOW_UP_STATUSES = ['scheduled', 'completed', 'cancelled'];
+export const WARNING_SEVERITIES = ['blocking', 'warning'];
+
+const vital = (field) => ({ type: Number, min: VITAL_LIMITS[field][0], max: VITAL_LIMITS[field][1] });
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+  },
+  { _id: false }
+);
+
+// One set of vitals taken at a point in time; an incident collects several as the patient is reassessed
+const observationSchema = new mongoose.Schema({
+  recorded_at: { type: Date, default: Date.now },
+  recorded_by: staffRefSchema,
+  pulse: vital('pulse'),
+  bp_systolic: vital('bp_systolic'),
+  bp_diastolic: vital('bp_diastolic'),
+  spo2: vital('spo2'),
+  on_oxygen: Boolean,
+  temperature_c: vital('temperature_c'),
+  respiratory_rate: vital('respiratory_rate'),
+  gcs: vital('gcs'),
+  avpu: { type: String, enum: AVPU_LEVELS },
+  blood_glucose_mg_dl: vital('blood_glucose_mg_dl'),
+  capillary_refill_s: vital('capillary_refill_s'),
+  ambulatory: Boolean,
+  obeys_commands: Boolean,
+  triage_category: { type: String, enum: TRIAGE_CATEGORIES },
+  news2_score: Number,
+  news2_risk: { type: String, enum: NEWS2_RISKS },
+  glucose_flag: String,
+  notes: { type: String, default: '' },
+});
+
+const statusEventSchema = new mongoose.Schema(
+  {
+    status: { type: String, enum: INCIDENT_STATUSES, required: true },
+    at: { type: Date, default: Date.now },
+    by: staffRefSchema,
+    note: { type: String, default: '' },
+  },
+  { _id: false }
+);
+
+// Hand-off of the patient to another facility; the receiving center accepts or turns it down
+const referralSchema = new mongoose.Schema(
+  {
+    from_center_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalCenter' },
+    from_center: { type: String, required: true },
+    to_center_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalCenter', required: true },
+    to_center: { type: String, required: true },
+    transport_mode: { type: String, enum: TRANSPORT_MODES, required: true },
+    handover_notes: { type: String, default: '' },
+    referred_at: { type: Date, default: Date.now },
+    referred_by: staffRefSchema,
+    status: { type: String, enum: REFERRAL_STATUSES, default: 'pending' },
+    responded_at: Date,
+    responded_by: staffRefSchema,
+    response_notes: { type: String, default: '' },
+  }
+);
+
+// A scheduled return visit. It is completed by linking the Follow-up incident recorded when the patient comes back.
+const followUpSchema = new mongoose.Schema(
+  {
+    due_at: { type: Date, required: true },
+    center_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalCenter' },
+    center: { type: String, default: '' },
+    status: { type: String, enum: FOLLOW_UP_STATUSES, default: 'scheduled' },
+    scheduled_by: staffRefSchema,
+    completed_at: Date,
+    completed_by: staffRefSchema,
+    completion_incident_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalIncident' },
+    cancel_reason: { type: String, default: '' },
+  },
+  { _id: false }
+);
+
+const drugRefSchema = new mongoose.Schema(
+  {
+    code: String,
+    display: String,
+    source: { type: String, enum: ['prescribed', 'current'] },
+  },
+  { _id: false }
+);
+
+const interactionWarningSchema = new mongoose.Schema(
+  {
+    key: { type: String, required: true },
+    type: { type: String, enum: ['allergy', 'interaction', 'duplicate'], required: true },
+    severity: { type: String, enum: WARNING_SEVERITIES, required: true },
+    reason: { type: String, required: true },
+    drugs: { type: [drugRefSchema], default: [] },
+    allergen: { code: String, display: String },
+  },
+  { _id: false }
+);
+
+const prescriptionOverrideSchema = new mongoose.Schema(
+  {
+    reason: { type: String, required: true },
+    keys: { type: [String], default: [] },
+    by: staffRefSchema,
+    at: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+export const PRESCRIPTION_REVIEW_STATUSES = ['pending', 'reviewed'];
+
+// Raised when an incident recorded offline replays with blocking warnings nobody acknowledged at the bedside
+const prescriptionReviewSchema = new mongoose.Schema(
+  {
+    status: { type: String, enum: PRESCRIPTION_REVIEW_STATUSES, default: 'pending' },
+    keys: { type: [String], default: [] },
+    flagged_at: { type: Date, default: Date.now },
+    reviewed_by: staffRefSchema,
+    reviewed_at: Date,
+    note: { type: String, default: '' },
+  },
+  { _id: false }
+);
+
+// Result of checking the prescription against the devotee's allergies and current medicines when it was saved
+const prescriptionCheckSchema = new mongoose.Schema(
+  {
+    checked_at: { type: Date, default: Date.now },
+    medications: { type: [codedEntrySchema], default: [] },
+    warnings: { type: [interactionWarningSchema], default: [] },
+    // Present when blocking warnings were acknowledged and the prescription saved anyway
+    override: { type: prescriptionOverrideSchema, default: undefined },
+    review: { type: prescriptionReviewSchema, default: undefined },
+  },
+  { _id: false }
+);
+
+const triageSchema = new mongoose.Schema(
+  {
+    // Null while START is missing an input, listed in start_missing
+    category: { type: String, enum: TRIAGE_CATEGORIES, default: null },
+    start_missing: { type: [String], default: undefined },
+    news2_score: Number,
+    news2_risk: { type: String, enum: NEWS2_RISKS },
+    news2_complete: Boolean,
+    glucose_flag: String,
+    computed_at: Date,
+  },
+  { _id: false }
+);
 
 const medicalIncidentSchema = new mongoose.Schema(
   {
@@ -7,17 +169,41 @@ const medicalIncidentSchema = new mongoose.Schema(
     incident_type: { type: String, required: true, enum: ['Emergency', 'Consultation', 'Follow-up'] },
     symptoms: { type: String, required: true },
     diagnosis: { type: String, default: '' },
+    // Derived from symptoms, diagnosis and temperature for outbreak surveillance
+    syndromes: { type: [{ type: String, enum: SYNDROMES }], default: [] },
     treatment_given: { type: String, default: '' },
     medications_prescribed: { type: String, default: '' },
+    prescription_check: { type: prescriptionCheckSchema, default: undefined },
     attending_doctor: { type: String, required: true },
+    // Name is kept alongside the registry id so old and offline-created incidents still display
     medical_center: { type: String, required: true },
+    medical_center_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalCenter', index: true },
     follow_up_required: { type: Boolean, default: false },
     follow_up_notes: { type: String, default: '' },
+    follow_up: { type: followUpSchema, default: undefined },
+    // Set on a Follow-up incident: the incident whose follow-up it fulfils
+    follow_up_of: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalIncident' },
+    observations: { type: [observationSchema], default: [] },
+    // Triage from the most recent observation, denormalised for sorting and dashboards
+    triage: { type: triageSchema, default: undefined },
+    status: { type: String, enum: INCIDENT_STATUSES, default: 'open', index: true },
+    status_history: { type: [statusEventSchema], default: [] },
+    // Oldest first; at most one is pending at a time
+    referrals: { type: [referralSchema], default: [] },
+    closed_at: Date,
+    // Bumped on every edit; clients send the version they loaded so concurrent edits are refused
+    version: { type: Number, default: 1 },
   },
-  { timestamps: { createdAt: 'created_at', updatedAt: false } }
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
 );
 
 medicalIncidentSchema.index({ incident_date: -1 });
+medicalIncidentSchema.index({ 'triage.category': 1, incident_date: -1 });
+medicalIncidentSchema.index({ syndromes: 1, incident_date: -1 });
+medicalIncidentSchema.index({ 'follow_up.status': 1, 'follow_up.due_at': 1 });
+medicalIncidentSchema.index({ 'prescription_check.review.status': 1, incident_date: -1 }, { sparse: true });
+medicalIncidentSchema.index({ 'referrals.to_center_id': 1, 'referrals.status': 1 });
+medicalIncidentSchema.index({ 'referrals.from_center_id': 1, 'referrals.status': 1 });
 
 export const MedicalIncident = mongoose.model('MedicalIncident', medicalIncidentSchema);
 
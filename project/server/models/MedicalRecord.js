@@ -1,5 +1,16 @@
 import mongoose from 'mongoose';
 
+// One item of a coded list; `code` is null when free text matched nothing in the vocabulary
+export const codedEntrySchema = new mongoose.Schema(
+  {
+    code: { type: String, default: null },
+    system: { type: String, default: null },
+    display: { type: String, required: true },
+    text: { type: String, default: '' },
+  },
+  { _id: false }
+);
+
 const medicalRecordSchema = new mongoose.Schema(
   {
     devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee', required: true, unique: true, index: true },
@@ -9,15 +20,17 @@ const medicalRecordSchema = new mongoose.Schema(
     },
     height_cm: { type: Number, min: 0 },
     weight_kg: { type: Number, min: 0 },
-    allergies: { type: String, default: '' },
-    chronic_conditions: { type: String, default: '' },
-    current_medications: { type: String, default: '' },
-    past_surgeries: { type: String, default: '' },
+    allergies: { type: [codedEntrySchema], default: [] },
+    chronic_conditions: { type: [codedEntrySchema], default: [] },
+    current_medications: { type: [codedEntrySchema], default: [] },
+    past_surgeries: { type: [codedEntrySchema], default: [] },
 
     special_notes: { type: String, default: '' },
   },
   { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
 );
 
+medicalRecordSchema.index({ 'chronic_conditions.code': 1 });
+
 export const MedicalRecord = mongoose.model('MedicalRecord', medicalRecordSchema);
 
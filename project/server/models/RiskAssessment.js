@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+
+export const RISK_LEVELS = ['Critical', 'High', 'Moderate', 'Low'];
+
+// One line of "why": which band, condition or cap contributed how many points
+const explanationSchema = new mongoose.Schema(
+  {
+    component: String,
+    label: String,
+    points: Number,
+  },
+  { _id: false }
+);
+
+/**
+ * Latest risk score of a devotee, kept up to date as their profile, record or
+ * incidents change and as the weather moves. The devotee and record fields the
+ * high-risk monitor lists and filters on are copied here so it reads one collection.
+ */
+const riskAssessmentSchema = new mongoose.Schema(
+  {
+    devotee_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Devotee', required: true, unique: true },
+    devotee: {
+      registration_number: String,
+      full_name: String,
+      age: Number,
+      gender: String,
+      phone: String,
+    },
+    medical: {
+      blood_group: String,
+      chronic_conditions: { type: String, default: '' },
+      allergies: { type: String, default: '' },
+      condition_codes: { type: [String], default: [] },
+    },
+    total_score: { type: Number, required: true },
+    risk_level: { type: String, enum: RISK_LEVELS, required: true },
+    breakdown: {
+      age: Number,
+      medical: Number,
+      environmental: Number,
+      crowd: Number,
+      incidents: Number,
+    },
+    recommendations: { type: [String], default: [] },
+    explanation: { type: [explanationSchema], default: [] },
+    // RiskModel version that produced the score
+    model_version: Number,
+    // What the shared components were computed from
+    inputs: {
+      temp: Number,
+      feelsLike: Number,
+      humidity: Number,
+      aqi: Number,
+      uv: Number,
+      // Weather provider the reading came from
+      provider: String,
+      // Part of the reading came from the development fixture
+      simulated: Boolean,
+      total_devotees: Number,
+    },
+    computed_at: { type: Date, default: Date.now },
+  },
+  { timestamps: { createdAt: false, updatedAt: 'updated_at' } }
+);
+
+riskAssessmentSchema.index({ total_score: -1 });
+riskAssessmentSchema.index({ risk_level: 1, total_score: -1 });
+riskAssessmentSchema.index({ 'medical.condition_codes': 1 });
+riskAssessmentSchema.index({ computed_at: 1 });
+riskAssessmentSchema.index({ model_version: 1 });
+riskAssessmentSchema.index({ 'breakdown.incidents': 1 });
+
+export const RiskAssessment = mongoose.model('RiskAssessment', riskAssessmentSchema);
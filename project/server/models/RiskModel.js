@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import { RISK_COMPONENTS } from '../utils/riskScoring.js';
+
+export const RISK_MODEL_STATUSES = ['draft', 'active', 'retired'];
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+  },
+  { _id: false }
+);
+
+// min <= value < max; either end may be left open
+const bandSchema = new mongoose.Schema(
+  {
+    min: Number,
+    max: Number,
+    points: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const conditionWeightSchema = new mongoose.Schema(
+  {
+    code: { type: String, required: true },
+    label: { type: String, default: '' },
+    points: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const incidentWeightSchema = new mongoose.Schema(
+  {
+    incident_type: { type: String, required: true },
+    points: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const recommendationRuleSchema = new mongoose.Schema(
+  {
+    component: { type: String, enum: RISK_COMPONENTS, required: true },
+    min: { type: Number, required: true },
+    messages: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const riskConfigSchema = new mongoose.Schema(
+  {
+    age: {
+      bands: { type: [bandSchema], default: [] },
+    },
+    medical: {
+      weights: { type: [conditionWeightSchema], default: [] },
+      default_points: Number,
+      multi_condition_multiplier: Number,
+      cap: Number,
+    },
+    environmental: {
+      temperature: { type: [bandSchema], default: [] },
+      humidity: { type: [bandSchema], default: [] },
+      aqi: { type: [bandSchema], default: [] },
+      cap: Number,
+    },
+    crowd: {
+      bands: { type: [bandSchema], default: [] },
+      cap: Number,
+    },
+    // Absent on models saved before incident history was scored; those score it with the defaults (see incidentSettings)
+    incidents: {
+      weights: { type: [incidentWeightSchema], default: undefined },
+      window_hours: Number,
+      half_life_hours: Number,
+      pending_follow_up_points: Number,
+      cap: Number,
+    },
+    thresholds: {
+      moderate: Number,
+      high: Number,
+      critical: Number,
+    },
+    recommendations: { type: [recommendationRuleSchema], default: [] },
+    default_recommendations: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+/**
+ * A version of the risk scoring weights, bands, thresholds and recommendation rules.
+ * Drafts can be edited; once activated a version is frozen, so every stored
+ * assessment can be traced to the exact model that produced it. Exactly one
+ * version is active at a time.
+ */
+const riskModelSchema = new mongoose.Schema(
+  {
+    version: { type: Number, required: true, unique: true },
+    name: { type: String, required: true, trim: true },
+    notes: { type: String, default: '' },
+    status: { type: String, enum: RISK_MODEL_STATUSES, default: 'draft' },
+    config: { type: riskConfigSchema, required: true },
+    based_on: Number,
+    created_by: staffRefSchema,
+    activated_by: staffRefSchema,
+    activated_at: Date,
+    retired_at: Date,
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
+);
+
+// At most one active model; activation retires the previous one in the same transaction
+riskModelSchema.index({ status: 1 }, { name: 'one_active_model', unique: true, partialFilterExpression: { status: 'active' } });
+
+export const RiskModel = mongoose.model('RiskModel', riskModelSchema);
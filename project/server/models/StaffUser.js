@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+
+export const STAFF_ROLES = ['doctor', 'nurse', 'registration_volunteer', 'lost_found_desk', 'admin'];
+
+const staffUserSchema = new mongoose.Schema(
+  {
+    username: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    full_name: { type: String, required: true },
+    role: { type: String, required: true, enum: STAFF_ROLES },
+    // bcrypt hash, never returned to clients
+    password_hash: { type: String, required: true, select: false },
+    // Where they are posted; medical_center keeps the name for display
+    medical_center_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalCenter', default: null },
+    medical_center: { type: String, default: '' },
+    active: { type: Boolean, default: true },
+    last_login_at: { type: Date },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
+);
+
+export const StaffUser = mongoose.model('StaffUser', staffUserSchema);
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import { SYNDROMES } from '../utils/syndromes.js';
+
+export const SURVEILLANCE_SCOPES = ['center', 'sector'];
+export const ALERT_STATUSES = ['open', 'acknowledged', 'dismissed'];
+export const EARS_METHODS = ['C1', 'C2', 'C3'];
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+  },
+  { _id: false }
+);
+
+/**
+ * More cases of a syndrome at a facility or sector than its recent baseline explains.
+ * While the excess continues the same alert is extended rather than a new one raised.
+ */
+const surveillanceAlertSchema = new mongoose.Schema(
+  {
+    syndrome: { type: String, enum: SYNDROMES, required: true },
+    scope: { type: String, enum: SURVEILLANCE_SCOPES, required: true },
+    // Center key (see SyndromeCount) or sector name
+    scope_key: { type: String, required: true },
+    label: { type: String, default: '' },
+    bin_hours: { type: Number, required: true },
+    first_window_start: { type: Date, required: true },
+    window_start: { type: Date, required: true },
+    window_end: { type: Date, required: true },
+    observed: { type: Number, required: true },
+    expected: { type: Number, required: true },
+    peak_observed: { type: Number, required: true },
+    c1: Number,
+    c2: Number,
+    c3: Number,
+    methods: { type: [{ type: String, enum: EARS_METHODS }], default: [] },
+    status: { type: String, enum: ALERT_STATUSES, default: 'open', index: true },
+    reviewed_by: staffRefSchema,
+    reviewed_at: Date,
+    note: { type: String, default: '' },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } }
+);
+
+surveillanceAlertSchema.index({ syndrome: 1, scope: 1, scope_key: 1, bin_hours: 1, window_end: -1 });
+
+export const SurveillanceAlert = mongoose.model('SurveillanceAlert', surveillanceAlertSchema);
@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+import { SYNDROMES } from '../utils/syndromes.js';
+
+// Incidents of one syndrome first seen at one facility within one clock hour
+const syndromeCountSchema = new mongoose.Schema(
+  {
+    hour: { type: Date, required: true },
+    syndrome: { type: String, enum: SYNDROMES, required: true },
+    // Registry id, or `name:<facility>` for incidents recorded before the registry existed
+    center_key: { type: String, required: true },
+    center_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalCenter' },
+    center: { type: String, default: '' },
+    sector: { type: String, default: '' },
+    count: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: { createdAt: false, updatedAt: 'updated_at' } }
+);
+
+syndromeCountSchema.index({ hour: 1, center_key: 1, syndrome: 1 }, { unique: true });
+
+export const SyndromeCount = mongoose.model('SyndromeCount', syndromeCountSchema);
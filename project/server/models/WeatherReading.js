@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+
+const staffRefSchema = new mongoose.Schema(
+  {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffUser' },
+    username: String,
+    full_name: String,
+  },
+  { _id: false }
+);
+
+/**
+ * A reading taken by a field team with a thermometer (and AQI/UV meter where they
+ * have one). The manual weather provider serves the latest fresh reading per sector.
+ */
+const weatherReadingSchema = new mongoose.Schema(
+  {
+    sector: { type: String, required: true },
+    temp: { type: Number, required: true },
+    humidity: { type: Number, required: true },
+    feelsLike: Number,
+    aqi: Number,
+    uv: Number,
+    notes: { type: String, default: '' },
+    recorded_by: staffRefSchema,
+    recorded_at: { type: Date, default: Date.now },
+  },
+  { timestamps: { createdAt: 'created_at', updatedAt: false } }
+);
+
+weatherReadingSchema.index({ sector: 1, recorded_at: -1 });
+
+export const WeatherReading = mongoose.model('WeatherReading', weatherReadingSchema);
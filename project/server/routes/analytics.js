@@ -1,9 +1,16 @@
 import express from 'express';
 import { Devotee } from '../models/Devotee.js';
 import { MedicalRecord } from '../models/MedicalRecord.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { toCodedEntries } from '../utils/terminology.js';
 
 const router = express.Router();
 
+router.use(requirePermission(PERMISSIONS.ANALYTICS_READ));
+
 // GET /api/analytics/stats
 router.get('/stats', async (req, res) => {
     try {
@@ -52,83 +59,53 @@ router.get('/stats', async (req, res) => {
         const recentRegistrations = await Devotee.countDocuments({ created_at: { $gte: oneDayAgo } });
 
         // Health Conditions Analysis
-        // Since chronic_conditions is a string (comma separated), we need to do some text analysis
-        // Ideally this should be an array in schema, but working with what we have
-        const medicalRecords = await MedicalRecord.find({}, 'chronic_conditions');
-
-        // Normalization map for multilingual condition names
-        const conditionNormalizer = {
-            // Hypertension variations
-            'hypertension': 'Hypertension',
-            'उच्च रक्तदाब': 'Hypertension',
-            'उच्च रक्तदाब (bp)': 'Hypertension',
-            'bp': 'Hypertension',
-            'high blood pressure': 'Hypertension',
-            
-            // Diabetes variations
-            'diabetes': 'Diabetes',
-            'मधुमेह': 'Diabetes',
-            'मधुमेह (diabetes)': 'Diabetes',
-            'sugar': 'Diabetes',
-            
-            // Heart Disease variations
-            'heart disease': 'Heart Disease',
-            'हृदय रोग': 'Heart Disease',
-            'हृदय रोग (heart disease)': 'Heart Disease',
-            'cardiac': 'Heart Disease',
-            
-            // Asthma variations
-            'asthma': 'Asthma',
-            'दमा': 'Asthma',
-            'दमा (asthma)': 'Asthma',
-            
-            // Kidney Disease variations
-            'kidney disease': 'Kidney Disease',
-            'kidney problem': 'Kidney Disease',
-            'गुर्दे की बीमारी': 'Kidney Disease',
-            
-            // Arthritis variations
-            'arthritis': 'Arthritis',
-            'गठिया': 'Arthritis',
-            
-            // Thyroid variations
-            'thyroid': 'Thyroid',
-            'थायराइड': 'Thyroid',
-            
-            // None variations
-            'none': 'None',
-            'काही नाही': 'None',
-            'कोई नहीं': 'None',
-            'no': 'None',
-        };
-
-        const normalizeCondition = (condition) => {
-            const lowerCondition = condition.toLowerCase().trim();
-            return conditionNormalizer[lowerCondition] || condition;
-        };
-
-        const conditionStats = {};
-        let highRiskMedicalCount = 0;
-
-        medicalRecords.forEach(record => {
-            if (record.chronic_conditions && record.chronic_conditions !== 'None') {
-                highRiskMedicalCount++;
-                const conditions = record.chronic_conditions.split(',').map(c => c.trim());
-                conditions.forEach(condition => {
-                    if (condition && condition !== 'None') {
-                        const normalizedCondition = normalizeCondition(condition);
-                        if (normalizedCondition !== 'None') {
-                            conditionStats[normalizedCondition] = (conditionStats[normalizedCondition] || 0) + 1;
-                        }
+        // Conditions are coded, so spellings in any language count towards the same condition.
+        // Records not yet run through code-medical-records.js still hold a comma-separated string;
+        // it is split here and coded below, as formatRecord and risk scoring do.
+        const highRiskMedicalCount = await MedicalRecord.countDocuments({
+            $or: [
+                { 'chronic_conditions.0': { $exists: true } },
+                { chronic_conditions: { $type: 'string', $regex: /[^\s,]/ } }
+            ]
+        });
+
+        const conditionGroups = await MedicalRecord.aggregate([
+            {
+                $project: {
+                    conditions: {
+                        $cond: [
+                            { $eq: [{ $type: '$chronic_conditions' }, 'string'] },
+                            { $map: { input: { $split: ['$chronic_conditions', ','] }, as: 'item', in: { text: { $trim: { input: '$$item' } } } } },
+                            { $ifNull: ['$chronic_conditions', []] }
+                        ]
                     }
-                });
+                }
+            },
+            { $unwind: '$conditions' },
+            {
+                $group: {
+                    // Uncoded free text is grouped by what was written
+                    _id: { $ifNull: ['$conditions.code', { $toLower: '$conditions.text' }] },
+                    code: { $first: '$conditions.code' },
+                    name: { $first: '$conditions.display' },
+                    text: { $first: '$conditions.text' },
+                    count: { $sum: 1 }
+                }
             }
-        });
+        ]);
 
-        const topConditions = Object.entries(conditionStats)
-            .map(([name, count]) => ({ name, count }))
-            .sort((a, b) => b.count - a.count)
-            .slice(0, 5); // Top 5 conditions
+        // Uncoded groups are matched against the vocabulary, so old strings join their coded condition
+        const byCondition = new Map();
+        conditionGroups.forEach((group) => {
+            const entry = group.code ? { code: group.code, display: group.name } : toCodedEntries('condition', group.text)[0];
+            if (!entry) return;
+            const key = entry.code || entry.display.toLowerCase();
+            const merged = byCondition.get(key) || { code: entry.code, name: entry.display, count: 0 };
+            merged.count += group.count;
+            byCondition.set(key, merged);
+        });
+        // Top 5 conditions
+        const topConditions = [...byCondition.values()].sort((a, b) => b.count - a.count).slice(0, 5);
 
         res.json({
             totalDevotees,
@@ -155,4 +132,51 @@ router.get('/stats', async (req, res) => {
     }
 });
 
+// GET /api/analytics/incidents-by-center?hours=24
+// Incident counts per facility, with coordinates for the map's heat layer
+router.get('/incidents-by-center', async (req, res) => {
+    try {
+        const hours = Math.min(Math.max(parseInt(req.query.hours, 10) || 24, 1), 24 * 60);
+        const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+        const groups = await MedicalIncident.aggregate([
+            { $match: { incident_date: { $gte: since } } },
+            {
+                $group: {
+                    // Incidents recorded before the registry existed only carry a name
+                    _id: { $ifNull: ['$medical_center_id', '$medical_center'] },
+                    name: { $first: '$medical_center' },
+                    total: { $sum: 1 },
+                    emergencies: { $sum: { $cond: [{ $eq: ['$incident_type', 'Emergency'] }, 1, 0] } }
+                }
+            },
+            { $sort: { total: -1 } }
+        ]);
+
+        const centerIds = groups.map((g) => g._id).filter((id) => typeof id !== 'string');
+        const centers = await MedicalCenter.find({ _id: { $in: centerIds } }).lean();
+        const centerMap = new Map(centers.map((c) => [c._id.toString(), c]));
+
+        res.json({
+            hours,
+            centers: groups.map((group) => {
+                const center = centerMap.get(group._id.toString());
+                return {
+                    center_id: center ? center._id.toString() : null,
+                    name: center?.name || group.name,
+                    type: center?.type || null,
+                    sector: center?.sector || '',
+                    latitude: center?.location?.coordinates?.[1] ?? null,
+                    longitude: center?.location?.coordinates?.[0] ?? null,
+                    total: group.total,
+                    emergencies: group.emergencies
+                };
+            })
+        });
+    } catch (error) {
+        console.error('Analytics Error:', error);
+        res.status(500).json({ message: 'Failed to fetch incidents by center' });
+    }
+});
+
 export const analyticsRouter = router;
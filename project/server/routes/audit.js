@@ -0,0 +1,74 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { AuditEvent, AUDIT_ACTIONS } from '../models/AuditEvent.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { mergedDevoteeIds } from '../utils/merges.js';
+
+const router = express.Router();
+
+router.use(requirePermission(PERMISSIONS.AUDIT_READ));
+
+const formatEvent = (event) => ({
+  id: event._id.toString(),
+  actor: {
+    id: event.actor.id.toString(),
+    username: event.actor.username,
+    role: event.actor.role,
+  },
+  action: event.action,
+  devotee_id: event.devotee_id.toString(),
+  target_id: event.target_id ? event.target_id.toString() : null,
+  changes: event.changes || [],
+  ip: event.ip,
+  created_at: event.created_at,
+});
+
+// GET /api/audit
+// Query: devoteeId?, action? (comma separated), actor? (username), from?, to?, changesOnly?, limit?, before? (cursor)
+router.get('/', async (req, res) => {
+  try {
+    const { devoteeId, action, actor, from, to, changesOnly, limit = 100, before } = req.query;
+    const filter = {};
+
+    if (devoteeId) {
+      if (!mongoose.isValidObjectId(devoteeId)) {
+        return res.status(400).json({ message: 'Invalid devoteeId' });
+      }
+      // A merged profile's history includes what was recorded against its duplicates
+      filter.devotee_id = { $in: await mergedDevoteeIds(devoteeId) };
+    }
+
+    if (action) {
+      const actions = String(action).split(',').filter((a) => AUDIT_ACTIONS.includes(a));
+      filter.action = { $in: actions };
+    }
+
+    if (actor) {
+      filter['actor.username'] = String(actor).toLowerCase();
+    }
+
+    if (from || to || before) {
+      filter.created_at = {};
+      if (from) filter.created_at.$gte = new Date(from);
+      if (to) filter.created_at.$lte = new Date(to);
+      if (before) filter.created_at.$lt = new Date(before);
+    }
+
+    if (changesOnly === 'true') {
+      filter['changes.0'] = { $exists: true };
+    }
+
+    const events = await AuditEvent.find(filter)
+      .sort({ created_at: -1 })
+      .limit(Math.min(parseInt(limit, 10) || 100, 500))
+      .lean();
+
+    return res.json(events.map(formatEvent));
+  } catch (error) {
+    console.error('Failed to fetch audit events', error);
+    return res.status(500).json({ message: 'Failed to fetch audit events', details: error.message });
+  }
+});
+
+export const auditRouter = router;
@@ -0,0 +1,192 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import mongoose from 'mongoose';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { StaffUser, STAFF_ROLES } from '../models/StaffUser.js';
+import { requireAuth, requirePermission, signToken } from '../middleware/auth.js';
+import { getPermissionsForRole, PERMISSIONS } from '../utils/permissions.js';
+
+const router = express.Router();
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * The posting to save from medical_center_id (a registry center) or, from older
+ * clients, a medical_center name that is matched against the registry.
+ * @returns { posting } or { error }
+ */
+async function postingFrom({ medical_center_id: centerId, medical_center: name }) {
+  if (centerId) {
+    const center = mongoose.isValidObjectId(centerId) ? await MedicalCenter.findById(centerId, 'name').lean() : null;
+    if (!center) return { error: 'Unknown medical center' };
+    return { posting: { medical_center_id: center._id, medical_center: center.name } };
+  }
+  const center = name ? await MedicalCenter.findOne({ name }, 'name').lean() : null;
+  return { posting: { medical_center_id: center?._id ?? null, medical_center: name || '' } };
+}
+
+const formatStaff = (user) => ({
+  id: user._id.toString(),
+  username: user.username,
+  full_name: user.full_name,
+  role: user.role,
+  medical_center: user.medical_center || '',
+  medical_center_id: user.medical_center_id?.toString() ?? null,
+  active: user.active,
+  permissions: getPermissionsForRole(user.role),
+  last_login_at: user.last_login_at || null,
+  created_at: user.created_at,
+});
+
+// POST /api/auth/login
+// Body: { username, password }
+router.post('/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    if (!username || !password) {
+      return res.status(400).json({ message: 'username and password are required' });
+    }
+
+    const user = await StaffUser.findOne({ username: String(username).toLowerCase().trim() }).select('+password_hash');
+
+    // Same message for unknown user and wrong password
+    if (!user || !user.active || !(await bcrypt.compare(password, user.password_hash))) {
+      return res.status(401).json({ message: 'Invalid username or password' });
+    }
+
+    user.last_login_at = new Date();
+    await user.save();
+
+    return res.json({ token: signToken(user), user: formatStaff(user.toObject()) });
+  } catch (error) {
+    console.error('Login failed', error);
+    return res.status(500).json({ message: 'Login failed', details: error.message });
+  }
+});
+
+// GET /api/auth/me
+router.get('/me', requireAuth, async (req, res) => {
+  try {
+    const user = await StaffUser.findById(req.user.id).lean();
+    return res.json(formatStaff(user));
+  } catch (error) {
+    console.error('Failed to fetch current user', error);
+    return res.status(500).json({ message: 'Failed to fetch current user', details: error.message });
+  }
+});
+
+// GET /api/auth/staff - admin only
+router.get('/staff', requireAuth, requirePermission(PERMISSIONS.STAFF_MANAGE), async (_req, res) => {
+  try {
+    const users = await StaffUser.find().sort({ created_at: -1 }).lean();
+    return res.json(users.map(formatStaff));
+  } catch (error) {
+    console.error('Failed to list staff', error);
+    return res.status(500).json({ message: 'Failed to list staff', details: error.message });
+  }
+});
+
+// POST /api/auth/staff - admin only
+// Body: { username, password, full_name, role, medical_center_id? }
+router.post('/staff', requireAuth, requirePermission(PERMISSIONS.STAFF_MANAGE), async (req, res) => {
+  try {
+    const { username, password, full_name, role } = req.body;
+
+    if (!STAFF_ROLES.includes(role)) {
+      return res.status(400).json({ message: `role must be one of: ${STAFF_ROLES.join(', ')}` });
+    }
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ message: `password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+    const { posting, error } = await postingFrom(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const user = await StaffUser.create({
+      username,
+      full_name,
+      role,
+      ...posting,
+      password_hash: await bcrypt.hash(password, 10),
+    });
+
+    return res.status(201).json(formatStaff(user.toObject()));
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ message: 'Username already exists' });
+    }
+    console.error('Failed to create staff user', error);
+    return res.status(500).json({ message: 'Failed to create staff user', details: error.message });
+  }
+});
+
+// PATCH /api/auth/staff/:id - admin only
+// Body: any of { full_name, role, medical_center_id, active, password }
+router.patch('/staff/:id', requireAuth, requirePermission(PERMISSIONS.STAFF_MANAGE), async (req, res) => {
+  try {
+    const update = {};
+    ['full_name', 'active'].forEach((field) => {
+      if (req.body[field] !== undefined) update[field] = req.body[field];
+    });
+    if (req.body.medical_center_id !== undefined || req.body.medical_center !== undefined) {
+      const { posting, error } = await postingFrom(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      Object.assign(update, posting);
+    }
+
+    if (req.body.role !== undefined) {
+      if (!STAFF_ROLES.includes(req.body.role)) {
+        return res.status(400).json({ message: `role must be one of: ${STAFF_ROLES.join(', ')}` });
+      }
+      update.role = req.body.role;
+    }
+
+    if (req.body.password !== undefined) {
+      if (req.body.password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+      update.password_hash = await bcrypt.hash(req.body.password, 10);
+    }
+
+    const user = await StaffUser.findByIdAndUpdate(req.params.id, { $set: update }, { new: true }).lean();
+    if (!user) {
+      return res.status(404).json({ message: 'Staff user not found' });
+    }
+
+    return res.json(formatStaff(user));
+  } catch (error) {
+    console.error('Failed to update staff user', error);
+    return res.status(500).json({ message: 'Failed to update staff user', details: error.message });
+  }
+});
+
+/**
+ * Creates the first control-room admin from ADMIN_USERNAME / ADMIN_PASSWORD
+ * when the staff collection is empty, so a fresh install can be logged into.
+ */
+export async function ensureBootstrapAdmin() {
+  const count = await StaffUser.estimatedDocumentCount();
+  if (count > 0) return;
+
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    console.warn('No staff accounts exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin.');
+    return;
+  }
+
+  await StaffUser.create({
+    username,
+    full_name: 'Control Room Admin',
+    role: 'admin',
+    password_hash: await bcrypt.hash(password, 10),
+  });
+  console.log(`Created bootstrap admin account "${username}"`);
+}
+
+export const authRouter = router;
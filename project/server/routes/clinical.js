@@ -0,0 +1,29 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { checkForDevotee } from '../utils/interactions.js';
+
+const router = express.Router();
+
+router.use(requirePermission(PERMISSIONS.INCIDENTS_CREATE, PERMISSIONS.INCIDENTS_UPDATE));
+
+/**
+ * POST /api/clinical/check { devotee_id, medications }
+ * Check what is about to be prescribed against the devotee's allergies and current medicines.
+ * `medications` is the prescription as typed (comma separated) or a list of entries.
+ */
+router.post('/check', async (req, res) => {
+  try {
+    const { devotee_id: devoteeId, medications } = req.body;
+    if (!mongoose.isValidObjectId(devoteeId)) {
+      return res.status(400).json({ message: 'devotee_id is required' });
+    }
+    return res.json(await checkForDevotee(devoteeId, medications || ''));
+  } catch (error) {
+    console.error('Failed to check prescription', error);
+    return res.status(500).json({ message: 'Failed to check prescription', details: error.message });
+  }
+});
+
+export const clinicalRouter = router;
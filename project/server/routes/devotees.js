@@ -2,14 +2,40 @@ import express from 'express';
 import mongoose from 'mongoose';
 import { Devotee } from '../models/Devotee.js';
 import { MedicalRecord } from '../models/MedicalRecord.js';
+import { AbdmConsent, ABDM_CONSENT_GIVERS } from '../models/AbdmConsent.js';
 import { generateRegistrationNumber } from '../utils/generateRegistrationNumber.js';
+import { requirePermission } from '../middleware/auth.js';
+import { hasPermission, PERMISSIONS } from '../utils/permissions.js';
+import { diffFields, getClientIp, recordAudit } from '../utils/audit.js';
+import { indexFace, searchFaces } from '../utils/faceIndex.js';
+import { signHealthCard, verifyHealthCard } from '../utils/healthCard.js';
+import { codeRecordFields, describeEntries } from '../utils/terminology.js';
+import { refreshRiskAssessment } from '../utils/riskAssessments.js';
+import { findPossibleDuplicates } from '../utils/duplicates.js';
+import { resolveDevoteeId } from '../utils/merges.js';
+import { fetchAbdmBundle, normalizeAbhaNumber } from '../utils/abdm.js';
+import { bundleToRegistration } from '../utils/fhirImport.js';
+import { photoRefFrom } from '../utils/media.js';
+import { uploaderRef } from '../utils/staff.js';
 
 const router = express.Router();
 
-const formatRecord = (record) => {
+const DEVOTEE_AUDIT_FIELDS = [
+  'full_name', 'age', 'gender', 'phone', 'emergency_contact_name', 'emergency_contact_phone',
+  'abha_number', 'photo_url', 'face_descriptor',
+];
+
+const RECORD_AUDIT_FIELDS = [
+  'blood_group', 'height_cm', 'weight_kg', 'allergies', 'chronic_conditions',
+  'current_medications', 'past_surgeries', 'special_notes',
+];
+
+export const formatRecord = (record) => {
   if (!record) return null;
   return {
     ...record,
+    // Records not yet run through the coding migration still hold comma strings
+    ...codeRecordFields(record),
     id: record._id.toString(),
     devotee_id: record.devotee_id.toString(),
     _id: undefined,
@@ -17,7 +43,7 @@ const formatRecord = (record) => {
   };
 };
 
-const formatDevotee = (devotee, record) => ({
+export const formatDevotee = (devotee, record) => ({
   ...devotee,
   id: devotee._id.toString(),
   _id: undefined,
@@ -25,13 +51,31 @@ const formatDevotee = (devotee, record) => ({
   medical_records: formatRecord(record),
 });
 
-router.post('/', async (req, res) => {
+// Search results only carry medical records for roles allowed to read them
+const canReadMedical = (req) => hasPermission(req.user.role, PERMISSIONS.DEVOTEES_READ);
+
+router.post('/', requirePermission(PERMISSIONS.DEVOTEES_CREATE), async (req, res) => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
   try {
     console.log('Registering Devotee Payload:', JSON.stringify(req.body, null, 2));
 
+    const abhaNumber = normalizeAbhaNumber(req.body.abha_number);
+    if (req.body.abha_number && !abhaNumber) {
+      await session.abortTransaction();
+      session.endSession();
+      return res.status(400).json({ message: 'ABHA number must be 14 digits' });
+    }
+
+    // A photo sent inline rather than through /api/media is stored here
+    const photo = await photoRefFrom(req.body.photo_url, { uploadedBy: uploaderRef(req) });
+    if (photo.error) {
+      await session.abortTransaction();
+      session.endSession();
+      return res.status(photo.status).json({ message: photo.error });
+    }
+
     const registration_number = generateRegistrationNumber();
 
     const devoteeDoc = await Devotee.create(
@@ -45,7 +89,8 @@ router.post('/', async (req, res) => {
 
           emergency_contact_name: req.body.emergency_contact_name,
           emergency_contact_phone: req.body.emergency_contact_phone,
-          photo_url: req.body.photo_url || null,
+          abha_number: abhaNumber || undefined,
+          photo_url: photo.ref,
           face_descriptor: Array.isArray(req.body.face_descriptor) ? req.body.face_descriptor : undefined,
         },
       ],
@@ -61,10 +106,7 @@ router.post('/', async (req, res) => {
           blood_group: req.body.blood_group || null,
           height_cm: req.body.height_cm || null,
           weight_kg: req.body.weight_kg || null,
-          allergies: req.body.allergies || '',
-          chronic_conditions: req.body.chronic_conditions || '',
-          current_medications: req.body.current_medications || '',
-          past_surgeries: req.body.past_surgeries || '',
+          ...codeRecordFields(req.body),
 
           special_notes: req.body.special_notes || '',
         },
@@ -75,6 +117,9 @@ router.post('/', async (req, res) => {
     await session.commitTransaction();
     session.endSession();
 
+    indexFace('devotees', devotee);
+    await refreshRiskAssessment(devotee._id);
+
     return res.status(201).json(formatDevotee(devotee.toObject(), medicalRecordDoc[0].toObject()));
   } catch (error) {
     await session.abortTransaction();
@@ -84,7 +129,7 @@ router.post('/', async (req, res) => {
   }
 });
 
-router.get('/', async (req, res) => {
+router.get('/', requirePermission(PERMISSIONS.DEVOTEES_SEARCH), async (req, res) => {
   try {
     const { q = '', type = 'name' } = req.query;
     const filter = {};
@@ -94,7 +139,9 @@ router.get('/', async (req, res) => {
       if (type === 'phone') {
         filter.phone = regex;
       } else if (type === 'registration') {
-        filter.registration_number = regex;
+        // Registration numbers of merged duplicates still find the record they were merged into;
+        // pilgrims who lost their card can be found by ABHA number
+        filter.$or = [{ registration_number: regex }, { aliases: regex }, { abha_number: regex }];
       } else {
         filter.full_name = regex;
       }
@@ -103,7 +150,7 @@ router.get('/', async (req, res) => {
     const devotees = await Devotee.find(filter).sort({ created_at: -1 }).limit(20).lean();
     const devoteeIds = devotees.map((d) => d._id);
 
-    const records = await MedicalRecord.find({ devotee_id: { $in: devoteeIds } }).lean();
+    const records = canReadMedical(req) ? await MedicalRecord.find({ devotee_id: { $in: devoteeIds } }).lean() : [];
     const recordMap = new Map(records.map((record) => [record.devotee_id.toString(), record]));
 
     const formatted = devotees.map((devotee) => formatDevotee(devotee, recordMap.get(devotee._id.toString())));
@@ -115,49 +162,29 @@ router.get('/', async (req, res) => {
 });
 
 // POST /api/devotees/search-by-face
-// Body: { face_descriptor: number[], maxDistance?: number }
-router.post('/search-by-face', async (req, res) => {
+// Body: { face_descriptor: number[], maxDistance?: number, topK?: number }
+router.post('/search-by-face', requirePermission(PERMISSIONS.DEVOTEES_SEARCH), async (req, res) => {
   try {
-    const { face_descriptor: queryDescriptor, maxDistance = 0.6 } = req.body;
+    const { face_descriptor: queryDescriptor, maxDistance, topK } = req.body;
 
     if (!Array.isArray(queryDescriptor) || queryDescriptor.length === 0) {
       return res.status(400).json({ message: 'face_descriptor array is required' });
     }
 
-    const devotees = await Devotee.find({ face_descriptor: { $exists: true, $ne: null } })
-      .sort({ created_at: -1 })
-      .lean();
+    const hits = searchFaces('devotees', queryDescriptor, { topK, threshold: maxDistance });
 
-    if (!devotees.length) {
+    if (!hits.length) {
       return res.json([]);
     }
 
-    const euclideanDistance = (a, b) => {
-      if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return Number.MAX_VALUE;
-      let sum = 0;
-      for (let i = 0; i < a.length; i += 1) {
-        const diff = (a[i] || 0) - (b[i] || 0);
-        sum += diff * diff;
-      }
-      return Math.sqrt(sum);
-    };
-
-    // Compute distance for each devotee
-    const scored = devotees
-      .map((d) => ({
-        devotee: d,
-        distance: euclideanDistance(queryDescriptor, d.face_descriptor || []),
-      }))
-      .filter((item) => item.distance <= maxDistance)
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, 10);
-
-    if (!scored.length) {
-      return res.json([]);
-    }
+    const found = await Devotee.find({ _id: { $in: hits.map((h) => h.id) } }).lean();
+    const devoteeMap = new Map(found.map((d) => [d._id.toString(), d]));
+    const scored = hits
+      .filter((hit) => devoteeMap.has(hit.id))
+      .map((hit) => ({ devotee: devoteeMap.get(hit.id), distance: hit.distance }));
 
     const devoteeIds = scored.map((s) => s.devotee._id);
-    const records = await MedicalRecord.find({ devotee_id: { $in: devoteeIds } }).lean();
+    const records = canReadMedical(req) ? await MedicalRecord.find({ devotee_id: { $in: devoteeIds } }).lean() : [];
     const recordMap = new Map(records.map((record) => [record.devotee_id.toString(), record]));
 
     const formatted = scored.map(({ devotee, distance }) =>
@@ -177,10 +204,115 @@ router.post('/search-by-face', async (req, res) => {
   }
 });
 
+// POST /api/devotees/check-duplicates
+// Body: { full_name, age, gender, phone, face_descriptor? } - run before registering someone new
+router.post('/check-duplicates', requirePermission(PERMISSIONS.DEVOTEES_CREATE), async (req, res) => {
+  try {
+    if (!req.body.full_name && !req.body.phone && !Array.isArray(req.body.face_descriptor)) {
+      return res.status(400).json({ message: 'A name, phone or face descriptor is required' });
+    }
+
+    return res.json(await findPossibleDuplicates(req.body));
+  } catch (error) {
+    console.error('Failed to check for duplicates', error);
+    return res.status(500).json({ message: 'Failed to check for duplicates', details: error.message });
+  }
+});
+
+// POST /api/devotees/prefill/fhir - Registration details from a FHIR Bundle, for the desk to review
+// Body: the Bundle itself. Nothing is saved. Health details are left out for staff who can't read medical records.
+router.post('/prefill/fhir', requirePermission(PERMISSIONS.DEVOTEES_CREATE), async (req, res) => {
+  try {
+    const clinical = canReadMedical(req);
+    const result = bundleToRegistration(req.body, { clinical });
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+    return res.json({ ...result, clinical_included: clinical });
+  } catch (error) {
+    console.error('Failed to read FHIR bundle', error);
+    return res.status(500).json({ message: 'Failed to read FHIR bundle', details: error.message });
+  }
+});
+
+// POST /api/devotees/prefill/abdm - The same, from the records linked to an ABHA number
+// Body: { abha_number, consent: 'pilgrim' | 'guardian' } - who agreed at the desk to the records being fetched
+router.post('/prefill/abdm', requirePermission(PERMISSIONS.DEVOTEES_CREATE), async (req, res) => {
+  try {
+    const abhaNumber = normalizeAbhaNumber(req.body.abha_number);
+    if (!abhaNumber) {
+      return res.status(400).json({ message: 'ABHA number must be 14 digits' });
+    }
+    if (!ABDM_CONSENT_GIVERS.includes(req.body.consent)) {
+      return res.status(400).json({ message: 'Record who agreed to the health records being fetched', code: 'consent_required' });
+    }
+
+    // Only what the caller may see is asked for, and the consent says so
+    const clinical = canReadMedical(req);
+    const consent = await AbdmConsent.create({
+      abha_number: abhaNumber,
+      given_by: req.body.consent,
+      scope: clinical ? ['demographics', 'clinical'] : ['demographics'],
+      requested_by: uploaderRef(req),
+      ip: getClientIp(req),
+    });
+
+    // A gateway that throws still settles the consent, as failed
+    let fetched = { error: 'The ABDM gateway failed' };
+    try {
+      fetched = await fetchAbdmBundle(abhaNumber, { consentId: consent._id });
+    } finally {
+      await AbdmConsent.updateOne({ _id: consent._id }, { status: fetched.error ? 'failed' : 'fetched' });
+    }
+    if (fetched.error) {
+      return res.status(fetched.status).json({ message: fetched.error });
+    }
+    const result = bundleToRegistration(fetched.bundle, { clinical });
+    if (result.error) {
+      return res.status(502).json({ message: `The ABDM gateway sent an unusable bundle: ${result.error}` });
+    }
+    // The number asked for, even when the bundle's Patient does not repeat it
+    result.payload.abha_number = abhaNumber;
+    return res.json({ ...result, clinical_included: clinical, consent_id: consent._id.toString() });
+  } catch (error) {
+    console.error('Failed to fetch ABDM records', error);
+    return res.status(500).json({ message: 'Failed to fetch ABDM records', details: error.message });
+  }
+});
+
+// POST /api/devotees/verify-card
+// Body: { payload: string } - the text scanned from a health card QR code
+router.post('/verify-card', requirePermission(PERMISSIONS.DEVOTEES_SEARCH), async (req, res) => {
+  try {
+    const card = verifyHealthCard(req.body.payload);
+
+    if (!card || !mongoose.isValidObjectId(card.devoteeId)) {
+      return res.status(400).json({ message: 'This health card could not be verified. It may be forged or damaged.' });
+    }
+
+    // A card issued for a duplicate that has since been merged opens the merged record
+    const devotee = await Devotee.findById(await resolveDevoteeId(card.devoteeId)).lean();
+    if (!devotee) {
+      return res.status(404).json({ message: 'Devotee not found' });
+    }
+
+    const record = canReadMedical(req) ? await MedicalRecord.findOne({ devotee_id: devotee._id }).lean() : null;
+    return res.json(formatDevotee(devotee, record));
+  } catch (error) {
+    console.error('Failed to verify health card', error);
+    return res.status(500).json({ message: 'Failed to verify health card', details: error.message });
+  }
+});
+
 // GET /api/devotees/:id - Get single devotee by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission(PERMISSIONS.DEVOTEES_READ), async (req, res) => {
   try {
-    const { id } = req.params;
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid devotee id' });
+    }
+
+    // Profiles cached or bookmarked under a merged duplicate's id open the merged record
+    const id = await resolveDevoteeId(req.params.id);
 
     // Find devotee by ID
     const devotee = await Devotee.findById(id).lean();
@@ -192,6 +324,8 @@ router.get('/:id', async (req, res) => {
     // Find associated medical record
     const medicalRecord = await MedicalRecord.findOne({ devotee_id: id }).lean();
 
+    await recordAudit(req, { action: 'devotee.view', devoteeId: devotee._id });
+
     return res.json(formatDevotee(devotee, medicalRecord));
   } catch (error) {
     console.error('Failed to fetch devotee', error);
@@ -199,10 +333,66 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET /api/devotees/:id/duplicates - Other registrations that may be the same person
+router.get('/:id/duplicates', requirePermission(PERMISSIONS.DEVOTEES_MERGE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid devotee id' });
+    }
+
+    const devotee = await Devotee.findById(req.params.id).lean();
+    if (!devotee) {
+      return res.status(404).json({ message: 'Devotee not found' });
+    }
+
+    return res.json(await findPossibleDuplicates(devotee, { excludeId: devotee._id, limit: 10 }));
+  } catch (error) {
+    console.error('Failed to find duplicates', error);
+    return res.status(500).json({ message: 'Failed to find duplicates', details: error.message });
+  }
+});
+
+// GET /api/devotees/:id/health-card - Details and signed QR payload for the printable card
+// Issued at the registration desk as well as by clinical staff reprinting a lost card
+router.get('/:id/health-card', requirePermission(PERMISSIONS.DEVOTEES_CREATE, PERMISSIONS.DEVOTEES_READ), async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ message: 'Invalid devotee id' });
+    }
+
+    const devotee = await Devotee.findById(id).lean();
+    if (!devotee) {
+      return res.status(404).json({ message: 'Devotee not found' });
+    }
+
+    const record = await MedicalRecord.findOne({ devotee_id: id }).lean();
+    const issuedAt = new Date();
+
+    return res.json({
+      id: devotee._id.toString(),
+      registration_number: devotee.registration_number,
+      full_name: devotee.full_name,
+      age: devotee.age,
+      gender: devotee.gender,
+      photo_url: devotee.photo_url || null,
+      emergency_contact_name: devotee.emergency_contact_name,
+      emergency_contact_phone: devotee.emergency_contact_phone,
+      blood_group: record?.blood_group || null,
+      allergies: describeEntries(record?.allergies),
+      issued_at: issuedAt.toISOString(),
+      qr_payload: signHealthCard(devotee._id.toString(), issuedAt),
+    });
+  } catch (error) {
+    console.error('Failed to issue health card', error);
+    return res.status(500).json({ message: 'Failed to issue health card', details: error.message });
+  }
+});
+
 
 
 // PUT /api/devotees/:id - Update Devotee & Medical Record
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission(PERMISSIONS.DEVOTEES_UPDATE), async (req, res) => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
@@ -210,6 +400,29 @@ router.put('/:id', async (req, res) => {
     const { id } = req.params;
     console.log(`Updating Devotee ${id} Payload:`, JSON.stringify(req.body, null, 2));
 
+    if (!mongoose.isValidObjectId(id)) {
+      await session.abortTransaction();
+      session.endSession();
+      return res.status(400).json({ message: 'Invalid devotee id' });
+    }
+
+    const abhaNumber = normalizeAbhaNumber(req.body.abha_number);
+    if (req.body.abha_number && !abhaNumber) {
+      await session.abortTransaction();
+      session.endSession();
+      return res.status(400).json({ message: 'ABHA number must be 14 digits' });
+    }
+
+    const photo = await photoRefFrom(req.body.photo_url, { uploadedBy: uploaderRef(req) });
+    if (photo.error) {
+      await session.abortTransaction();
+      session.endSession();
+      return res.status(photo.status).json({ message: photo.error });
+    }
+
+    const previousDevotee = await Devotee.findById(id).session(session).lean();
+    const previousRecord = await MedicalRecord.findOne({ devotee_id: id }).session(session).lean();
+
     // 1. Update Devotee Basic Info
     const devoteeUpdate = {
       full_name: req.body.full_name,
@@ -221,12 +434,17 @@ router.put('/:id', async (req, res) => {
     };
 
     // Only update photo/face if provided
-    if (req.body.photo_url) devoteeUpdate.photo_url = req.body.photo_url;
+    if (photo.ref) devoteeUpdate.photo_url = photo.ref;
     if (req.body.face_descriptor) devoteeUpdate.face_descriptor = req.body.face_descriptor;
 
+    // Clients from before ABHA numbers don't send the field; an empty one clears it
+    const devoteeUnset = {};
+    if (abhaNumber) devoteeUpdate.abha_number = abhaNumber;
+    else if ('abha_number' in req.body) devoteeUnset.abha_number = '';
+
     const devotee = await Devotee.findByIdAndUpdate(
       id,
-      { $set: devoteeUpdate },
+      { $set: devoteeUpdate, $unset: devoteeUnset },
       { new: true, session }
     );
 
@@ -239,10 +457,7 @@ router.put('/:id', async (req, res) => {
       blood_group: req.body.blood_group || null,
       height_cm: req.body.height_cm || null,
       weight_kg: req.body.weight_kg || null,
-      allergies: req.body.allergies || '',
-      chronic_conditions: req.body.chronic_conditions || '',
-      current_medications: req.body.current_medications || '',
-      past_surgeries: req.body.past_surgeries || '',
+      ...codeRecordFields(req.body),
       special_notes: req.body.special_notes || '',
     };
 
@@ -252,9 +467,24 @@ router.put('/:id', async (req, res) => {
       { new: true, upsert: true, session } // upsert in case it was missing
     );
 
+    // 3. Field-level audit of what actually changed
+    const changes = [
+      ...diffFields(previousDevotee, devotee.toObject(), DEVOTEE_AUDIT_FIELDS),
+      ...diffFields(previousRecord, medicalRecord.toObject(), RECORD_AUDIT_FIELDS),
+    ];
+
+    await recordAudit(
+      req,
+      { action: 'devotee.update', devoteeId: devotee._id, targetId: medicalRecord._id, changes },
+      session
+    );
+
     await session.commitTransaction();
     session.endSession();
 
+    if (req.body.face_descriptor) indexFace('devotees', devotee);
+    await refreshRiskAssessment(devotee._id);
+
     return res.json(formatDevotee(devotee.toObject(), medicalRecord.toObject()));
   } catch (error) {
     await session.abortTransaction();
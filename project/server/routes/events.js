@@ -0,0 +1,55 @@
+import express from 'express';
+import { EVENT_TOPICS, canReceive, eventsSince, subscribe } from '../utils/events.js';
+
+const router = express.Router();
+
+const HEARTBEAT_MS = 25 * 1000;
+const RETRY_MS = 5000;
+
+const format = (event) =>
+  `id: ${event.id}\nevent: ${event.topic}\ndata: ${JSON.stringify({ id: event.id, topic: event.topic, critical: event.critical, at: event.at, data: event.data })}\n\n`;
+
+/**
+ * GET /api/events/stream?topics=risk.critical,incident.created
+ * Server-Sent Events. Without `topics`, every topic the caller's role may receive.
+ * A reconnecting client sends Last-Event-ID (or ?last_event_id=) and first gets the
+ * events it missed, or a `reset` event when they are gone and it should reload.
+ */
+router.get('/stream', (req, res) => {
+  const requested = req.query.topics ? String(req.query.topics).split(',') : Object.keys(EVENT_TOPICS);
+  const unknown = requested.filter((topic) => !(topic in EVENT_TOPICS));
+  if (unknown.length) {
+    return res.status(400).json({ message: `Unknown topics: ${unknown.join(', ')}` });
+  }
+  const topics = new Set(requested.filter((topic) => canReceive(req.user.role, topic)));
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n: topics ${[...topics].join(',')}\n\n`);
+
+  const lastEventId = req.get('Last-Event-ID') || req.query.last_event_id;
+  if (lastEventId) {
+    const missed = eventsSince(lastEventId, topics);
+    if (missed) {
+      missed.forEach((event) => res.write(format(event)));
+    } else {
+      res.write(`event: reset\ndata: {}\n\n`);
+    }
+  }
+
+  const unsubscribe = subscribe(topics, (event) => res.write(format(event)));
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export const eventsRouter = router;
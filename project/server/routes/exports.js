@@ -0,0 +1,166 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Devotee } from '../models/Devotee.js';
+import { ExportLog, EXPORT_DATASETS as LOGGED_DATASETS } from '../models/ExportLog.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { getClientIp, recordAudit } from '../utils/audit.js';
+import { resolveDevoteeId } from '../utils/merges.js';
+import { EXPORT_DATASETS, parseExportFilters } from '../utils/exports.js';
+import { buildDevoteeBundle } from '../utils/fhir.js';
+import { photoDataUrl } from '../utils/media.js';
+import { createSheetWriter } from '../utils/spreadsheets.js';
+import { formatDevotee } from './devotees.js';
+import { formatIncident } from './incidents.js';
+
+const router = express.Router();
+
+const SHEET_FORMATS = ['csv', 'xlsx'];
+const MAX_LOGS = 200;
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const exportedBy = (req) => ({
+  id: req.user.id,
+  username: req.user.username,
+  full_name: req.user.full_name,
+  role: req.user.role,
+});
+
+const formatLog = (log) => ({
+  id: log._id.toString(),
+  dataset: log.dataset,
+  format: log.format,
+  filters: log.filters || {},
+  devotee_id: log.devotee_id?.toString() || null,
+  row_count: log.row_count,
+  completed: log.completed,
+  exported_by: log.exported_by,
+  created_at: log.created_at,
+});
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// GET /api/exports/logs - who exported what, newest first
+// Query: dataset?, limit?
+router.get('/logs', requirePermission(PERMISSIONS.AUDIT_READ), async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.dataset) {
+      if (!LOGGED_DATASETS.includes(req.query.dataset)) {
+        return res.status(400).json({ message: `dataset must be one of ${LOGGED_DATASETS.join(', ')}` });
+      }
+      filter.dataset = req.query.dataset;
+    }
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, MAX_LOGS);
+
+    const logs = await ExportLog.find(filter).sort({ created_at: -1 }).limit(limit).lean();
+    return res.json(logs.map(formatLog));
+  } catch (error) {
+    console.error('Failed to list exports', error);
+    return res.status(500).json({ message: 'Failed to list exports', details: error.message });
+  }
+});
+
+// GET /api/exports/fhir/:devoteeId - FHIR R4 Bundle of one devotee's record and incidents
+router.get('/fhir/:devoteeId', requirePermission(PERMISSIONS.DATA_EXPORT), async (req, res) => {
+  try {
+    const id = await resolveDevoteeId(req.params.devoteeId);
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ message: 'Invalid devotee id' });
+    }
+
+    const devotee = await Devotee.findById(id).lean();
+    if (!devotee) {
+      return res.status(404).json({ message: 'Devotee not found' });
+    }
+    const [medicalRecord, incidents] = await Promise.all([
+      MedicalRecord.findOne({ devotee_id: devotee._id }).lean(),
+      MedicalIncident.find({ devotee_id: devotee._id }).sort({ incident_date: 1 }).lean(),
+    ]);
+
+    // The bundle leaves the system, so it carries the photo itself rather than a link that expires
+    devotee.photo_url = await photoDataUrl(devotee.photo_url);
+    const bundle = buildDevoteeBundle(formatDevotee(devotee, medicalRecord), incidents.map(formatIncident));
+
+    await ExportLog.create({
+      dataset: 'fhir',
+      format: 'fhir+json',
+      filters: { registration_number: devotee.registration_number },
+      devotee_id: devotee._id,
+      row_count: bundle.entry.length,
+      completed: true,
+      exported_by: exportedBy(req),
+      ip: getClientIp(req),
+    });
+    await recordAudit(req, { action: 'devotee.export', devoteeId: devotee._id });
+
+    res.setHeader('Content-Type', 'application/fhir+json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${devotee.registration_number}-fhir.json"`);
+    return res.send(JSON.stringify(bundle, null, 2));
+  } catch (error) {
+    console.error('Failed to export FHIR bundle', error);
+    return res.status(500).json({ message: 'Failed to export FHIR bundle', details: error.message });
+  }
+});
+
+// GET /api/exports/:dataset - devotees, medical_records or incidents as a spreadsheet
+// Query: format (csv | xlsx), from?, to?, center_id?, risk_level? (comma separated)
+router.get('/:dataset', requirePermission(PERMISSIONS.DATA_EXPORT), async (req, res) => {
+  let log = null;
+  let rowCount = 0;
+  try {
+    const dataset = Object.hasOwn(EXPORT_DATASETS, req.params.dataset) ? EXPORT_DATASETS[req.params.dataset] : null;
+    if (!dataset) {
+      return res.status(404).json({ message: `Unknown export ${req.params.dataset}` });
+    }
+    const format = String(req.query.format || 'csv');
+    if (!SHEET_FORMATS.includes(format)) {
+      return res.status(400).json({ message: `format must be one of ${SHEET_FORMATS.join(', ')}` });
+    }
+    const { filters, error } = parseExportFilters(req.query);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    // Logged before the first row goes out, so an export that breaks off still shows up
+    log = await ExportLog.create({
+      dataset: req.params.dataset,
+      format,
+      filters,
+      exported_by: exportedBy(req),
+      ip: getClientIp(req),
+    });
+
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${req.params.dataset}-${today()}.${format}"`);
+    const writer = createSheetWriter(res, format, { columns: dataset.columns, sheetName: dataset.sheetName });
+
+    for await (const cells of dataset.rows(filters)) {
+      if (res.destroyed) break;
+      await writer.addRow(cells);
+      rowCount += 1;
+    }
+    const completed = !res.destroyed;
+    if (completed) await writer.end();
+
+    await ExportLog.updateOne({ _id: log._id }, { $set: { row_count: rowCount, completed } });
+  } catch (error) {
+    console.error('Failed to export data', error);
+    if (log) {
+      await ExportLog.updateOne({ _id: log._id }, { $set: { row_count: rowCount } }).catch(() => {});
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(500).json({ message: 'Failed to export data', details: error.message });
+  }
+});
+
+export const exportsRouter = router;
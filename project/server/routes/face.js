@@ -1,11 +1,13 @@
 import express from 'express';
 import dotenv from 'dotenv';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
 
 dotenv.config();
 
 const router = express.Router();
 
-router.post('/analyze', async (req, res) => {
+router.post('/analyze', requirePermission(PERMISSIONS.FACE_ANALYZE), async (req, res) => {
     try {
         const { image } = req.body; // Expecting base64 string
         const apiKey = (process.env.GEMINI_API_KEY || '').trim();
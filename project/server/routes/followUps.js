@@ -0,0 +1,200 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { Devotee } from '../models/Devotee.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { recordAudit } from '../utils/audit.js';
+import { buildFollowUp, completeFollowUp, formatFollowUp } from '../utils/followUps.js';
+import { refreshRiskAssessment } from '../utils/riskAssessments.js';
+
+const router = express.Router();
+
+const WORKLISTS = ['today', 'overdue', 'upcoming'];
+const UPCOMING_DAYS = 7;
+
+/**
+ * Start and end of the caller's current day.
+ * `tzOffset` is the browser's Date#getTimezoneOffset() (minutes, IST = -330);
+ * without it the server's own day is used.
+ */
+function dayBounds(tzOffset, now = new Date()) {
+  const offset = Number(tzOffset);
+  if (tzOffset === undefined || !Number.isFinite(offset)) {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+  const local = new Date(now.getTime() - offset * 60 * 1000);
+  local.setUTCHours(0, 0, 0, 0);
+  const start = new Date(local.getTime() + offset * 60 * 1000);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+// Worklist row: just what the desk needs to call the patient and see why they were asked back
+const formatItem = (incident, devotee) => ({
+  incident_id: incident._id.toString(),
+  incident_date: incident.incident_date,
+  incident_type: incident.incident_type,
+  symptoms: incident.symptoms,
+  diagnosis: incident.diagnosis,
+  medical_center: incident.medical_center,
+  follow_up_notes: incident.follow_up_notes,
+  follow_up: formatFollowUp(incident.follow_up),
+  devotee: devotee
+    ? {
+      id: devotee._id.toString(),
+      full_name: devotee.full_name,
+      age: devotee.age,
+      gender: devotee.gender,
+      phone: devotee.phone,
+      registration_number: devotee.registration_number,
+      emergency_contact_name: devotee.emergency_contact_name,
+      emergency_contact_phone: devotee.emergency_contact_phone,
+    }
+    : null,
+});
+
+/**
+ * GET /api/follow-ups?due=today|overdue|upcoming&center_id=&tz_offset=
+ * Scheduled follow-ups, soonest first. Every item carries an `overdue` flag.
+ */
+router.get('/', requirePermission(PERMISSIONS.INCIDENTS_READ), async (req, res) => {
+  try {
+    const due = req.query.due || 'today';
+    if (!WORKLISTS.includes(due)) {
+      return res.status(400).json({ message: `due must be one of: ${WORKLISTS.join(', ')}` });
+    }
+
+    const now = new Date();
+    const { start, end } = dayBounds(req.query.tz_offset, now);
+    const ranges = {
+      today: { $gte: start, $lt: end },
+      overdue: { $lt: now },
+      upcoming: { $gte: now, $lt: new Date(now.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000) },
+    };
+
+    const base = { 'follow_up.status': 'scheduled' };
+    if (req.query.center_id) {
+      if (!mongoose.isValidObjectId(req.query.center_id)) {
+        return res.status(400).json({ message: 'Invalid center_id' });
+      }
+      base['follow_up.center_id'] = new mongoose.Types.ObjectId(String(req.query.center_id));
+    }
+
+    const [incidents, todayCount, overdueCount] = await Promise.all([
+      MedicalIncident.find({ ...base, 'follow_up.due_at': ranges[due] })
+        .select('devotee_id incident_date incident_type symptoms diagnosis medical_center follow_up_notes follow_up')
+        .sort({ 'follow_up.due_at': due === 'overdue' ? -1 : 1 })
+        .limit(500)
+        .lean(),
+      MedicalIncident.countDocuments({ ...base, 'follow_up.due_at': ranges.today }),
+      MedicalIncident.countDocuments({ ...base, 'follow_up.due_at': ranges.overdue }),
+    ]);
+
+    const devotees = await Devotee.find({ _id: { $in: incidents.map((i) => i.devotee_id) } })
+      .select('full_name age gender phone registration_number emergency_contact_name emergency_contact_phone')
+      .lean();
+    const devoteeById = new Map(devotees.map((d) => [d._id.toString(), d]));
+
+    return res.json({
+      due,
+      range: due === 'today' ? { from: start, to: end } : null,
+      counts: { today: todayCount, overdue: overdueCount },
+      items: incidents.map((incident) => formatItem(incident, devoteeById.get(incident.devotee_id.toString()))),
+    });
+  } catch (error) {
+    console.error('Failed to fetch follow-ups', error);
+    return res.status(500).json({ message: 'Failed to fetch follow-ups', details: error.message });
+  }
+});
+
+/**
+ * PATCH /api/follow-ups/:incidentId
+ * Schedule or reschedule ({ due_at, center_id }) or cancel ({ status: 'cancelled', cancel_reason }).
+ */
+router.patch('/:incidentId', requirePermission(PERMISSIONS.INCIDENTS_UPDATE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.incidentId)) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    const before = await MedicalIncident.findById(req.params.incidentId).lean();
+    if (!before) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    if (before.follow_up?.status === 'completed') {
+      return res.status(409).json({ message: 'Follow-up is already completed' });
+    }
+
+    let set;
+    if (req.body.status === 'cancelled') {
+      if (before.follow_up?.status !== 'scheduled') {
+        return res.status(400).json({ message: 'No scheduled follow-up to cancel' });
+      }
+      set = { 'follow_up.status': 'cancelled', 'follow_up.cancel_reason': req.body.cancel_reason || '' };
+    } else {
+      const keepCenter = before.follow_up
+        ? { id: before.follow_up.center_id, name: before.follow_up.center }
+        : { id: before.medical_center_id, name: before.medical_center };
+      const { followUp, error } = await buildFollowUp(req, req.body, keepCenter);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      set = { follow_up: followUp, follow_up_required: true };
+    }
+
+    const incident = await MedicalIncident.findByIdAndUpdate(before._id, { $set: set }, { new: true }).lean();
+
+    await recordAudit(req, {
+      action: 'incident.follow_up',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: [
+        { field: 'follow_up.status', before: before.follow_up?.status ?? null, after: incident.follow_up.status },
+        { field: 'follow_up.due_at', before: before.follow_up?.due_at?.toISOString() ?? null, after: incident.follow_up.due_at.toISOString() },
+      ].filter((c) => c.before !== c.after),
+    });
+    await refreshRiskAssessment(incident.devotee_id);
+
+    return res.json({ incident_id: incident._id.toString(), follow_up: formatFollowUp(incident.follow_up) });
+  } catch (error) {
+    console.error('Failed to update follow-up', error);
+    return res.status(500).json({ message: 'Failed to update follow-up', details: error.message });
+  }
+});
+
+/**
+ * POST /api/follow-ups/:incidentId/complete { completion_incident_id }
+ * Close the follow-up by linking a Follow-up incident that was already recorded.
+ */
+router.post('/:incidentId/complete', requirePermission(PERMISSIONS.INCIDENTS_UPDATE), async (req, res) => {
+  try {
+    const completionId = req.body.completion_incident_id;
+    const completion = mongoose.isValidObjectId(completionId)
+      ? await MedicalIncident.findById(completionId).lean()
+      : null;
+    if (!completion) {
+      return res.status(400).json({ message: 'Unknown completion_incident_id' });
+    }
+
+    const { incident, status, error } = await completeFollowUp(req, req.params.incidentId, completion);
+    if (error) {
+      return res.status(status).json({ message: error });
+    }
+
+    await recordAudit(req, {
+      action: 'incident.follow_up',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: [{ field: 'follow_up.status', before: 'scheduled', after: 'completed' }],
+    });
+    await refreshRiskAssessment(incident.devotee_id);
+
+    return res.json({ incident_id: incident._id.toString(), follow_up: formatFollowUp(incident.follow_up) });
+  } catch (error) {
+    console.error('Failed to complete follow-up', error);
+    return res.status(500).json({ message: 'Failed to complete follow-up', details: error.message });
+  }
+});
+
+export const followUpsRouter = router;
@@ -0,0 +1,252 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Group, GROUP_TYPES, RELATIONSHIPS } from '../models/Group.js';
+import { Devotee } from '../models/Devotee.js';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { generateRegistrationNumber } from '../utils/generateRegistrationNumber.js';
+import { generateGroupNumber } from '../utils/generateGroupNumber.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { indexFace } from '../utils/faceIndex.js';
+import { codeRecordFields } from '../utils/terminology.js';
+import { refreshRiskAssessment } from '../utils/riskAssessments.js';
+import { summarizeGroup } from '../utils/groups.js';
+import { photoRefFrom } from '../utils/media.js';
+import { staffRef } from '../utils/staff.js';
+
+const router = express.Router();
+
+// Large enough for a bus-load from one village or a tour operator's batch
+const MAX_MEMBERS = 60;
+
+function validateGroup(body) {
+  if (!body.name) return 'Group name is required';
+  if (!GROUP_TYPES.includes(body.type)) return `type must be one of: ${GROUP_TYPES.join(', ')}`;
+  if (!body.contact_phone) return 'A contact phone for the group is required';
+  if (!body.emergency_contact_name || !body.emergency_contact_phone) return 'An emergency contact for the group is required';
+  if (!Array.isArray(body.members) || body.members.length === 0) return 'At least one member is required';
+  if (body.members.length > MAX_MEMBERS) return `A group can have at most ${MAX_MEMBERS} members`;
+
+  const invalid = body.members.findIndex((m) => !m.full_name || !m.age || !m.gender);
+  if (invalid !== -1) return `Member ${invalid + 1} needs a name, age and gender`;
+  if (body.members.some((m) => m.relationship && !RELATIONSHIPS.includes(m.relationship))) {
+    return `relationship must be one of: ${RELATIONSHIPS.join(', ')}`;
+  }
+  if (body.members.filter((m) => m.is_leader).length > 1) return 'Only one member can lead the group';
+  return null;
+}
+
+// POST /api/groups - Register a family or travel group and all its members in one go
+// Contact and address details are entered once and shared by every member
+router.post('/', requirePermission(PERMISSIONS.DEVOTEES_CREATE), async (req, res) => {
+  const problem = validateGroup(req.body);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+
+  // Members' photos are stored before the transaction; a failed registration leaves them unreferenced
+  const photoRefs = [];
+  try {
+    for (const member of req.body.members) {
+      const photo = await photoRefFrom(member.photo_url, { uploadedBy: staffRef(req) });
+      if (photo.error) {
+        return res.status(photo.status).json({ message: `${member.full_name}: ${photo.error}` });
+      }
+      photoRefs.push(photo.ref);
+    }
+  } catch (error) {
+    console.error('Failed to store group photos', error);
+    return res.status(500).json({ message: 'Failed to register group', details: error.message });
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { members, contact_phone, emergency_contact_name, emergency_contact_phone } = req.body;
+    const group = new Group({
+      group_number: generateGroupNumber(),
+      name: req.body.name,
+      type: req.body.type,
+      contact_phone,
+      emergency_contact_name,
+      emergency_contact_phone,
+      address: req.body.address,
+      tour_operator: req.body.type === 'tour' ? req.body.tour_operator : undefined,
+      notes: req.body.notes || '',
+      created_by: staffRef(req),
+    });
+
+    const devotees = [];
+    for (const [index, member] of members.entries()) {
+      const [devotee] = await Devotee.create(
+        [
+          {
+            registration_number: generateRegistrationNumber(),
+            full_name: member.full_name,
+            age: member.age,
+            gender: member.gender,
+            phone: member.phone || contact_phone,
+            emergency_contact_name,
+            emergency_contact_phone,
+            photo_url: photoRefs[index],
+            face_descriptor: Array.isArray(member.face_descriptor) ? member.face_descriptor : undefined,
+            group_id: group._id,
+          },
+        ],
+        { session }
+      );
+
+      await MedicalRecord.create(
+        [
+          {
+            devotee_id: devotee._id,
+            blood_group: member.blood_group || null,
+            ...codeRecordFields(member),
+            special_notes: member.special_notes || '',
+          },
+        ],
+        { session }
+      );
+
+      devotees.push(devotee);
+      group.members.push({ devotee_id: devotee._id, relationship: member.relationship || (member.is_leader ? 'self' : 'other') });
+    }
+
+    // Without an explicit leader the first member registered leads the group
+    const leaderIndex = Math.max(members.findIndex((m) => m.is_leader), 0);
+    group.leader_id = devotees[leaderIndex]._id;
+    await group.save({ session });
+
+    await session.commitTransaction();
+    session.endSession();
+
+    for (const devotee of devotees) {
+      indexFace('devotees', devotee);
+      await refreshRiskAssessment(devotee._id);
+    }
+
+    return res.status(201).json(await summarizeGroup(group.toObject()));
+  } catch (error) {
+    await session.abortTransaction();
+    session.endSession();
+    console.error('Failed to register group', error);
+    return res.status(500).json({ message: 'Failed to register group', details: error.message });
+  }
+});
+
+// GET /api/groups/:id - Group with its members (no medical data)
+router.get('/:id', requirePermission(PERMISSIONS.DEVOTEES_SEARCH, PERMISSIONS.LOST_FOUND_READ), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid group id' });
+    }
+
+    const group = await Group.findById(req.params.id).lean();
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    return res.json(await summarizeGroup(group));
+  } catch (error) {
+    console.error('Failed to fetch group', error);
+    return res.status(500).json({ message: 'Failed to fetch group', details: error.message });
+  }
+});
+
+// POST /api/groups/:id/members - Add an already registered devotee to the group
+// Body: { devotee_id, relationship }
+router.post('/:id/members', requirePermission(PERMISSIONS.DEVOTEES_UPDATE), async (req, res) => {
+  const { devotee_id, relationship = 'other' } = req.body;
+
+  if (!mongoose.isValidObjectId(req.params.id) || !mongoose.isValidObjectId(devotee_id)) {
+    return res.status(400).json({ message: 'Group and devotee ids are required' });
+  }
+  if (!RELATIONSHIPS.includes(relationship)) {
+    return res.status(400).json({ message: `relationship must be one of: ${RELATIONSHIPS.join(', ')}` });
+  }
+
+  try {
+    const [group, devotee] = await Promise.all([Group.findById(req.params.id), Devotee.findById(devotee_id)]);
+    if (!group || !devotee) {
+      return res.status(404).json({ message: 'Group or devotee not found' });
+    }
+    if (devotee.group_id) {
+      const sameGroup = devotee.group_id.equals(group._id);
+      return res.status(409).json({ message: sameGroup ? 'Devotee is already in this group' : 'Devotee already belongs to another group' });
+    }
+    if (group.members.length >= MAX_MEMBERS) {
+      return res.status(409).json({ message: `A group can have at most ${MAX_MEMBERS} members` });
+    }
+
+    group.members.push({ devotee_id: devotee._id, relationship });
+    devotee.group_id = group._id;
+    await Promise.all([group.save(), devotee.save()]);
+
+    return res.json(await summarizeGroup(group.toObject()));
+  } catch (error) {
+    console.error('Failed to add group member', error);
+    return res.status(500).json({ message: 'Failed to add group member', details: error.message });
+  }
+});
+
+// DELETE /api/groups/:id/members/:devoteeId - Take a devotee out of the group
+// The leader has to hand over to someone else first
+router.delete('/:id/members/:devoteeId', requirePermission(PERMISSIONS.DEVOTEES_UPDATE), async (req, res) => {
+  const { id, devoteeId } = req.params;
+
+  if (!mongoose.isValidObjectId(id) || !mongoose.isValidObjectId(devoteeId)) {
+    return res.status(400).json({ message: 'Invalid group or devotee id' });
+  }
+
+  try {
+    const group = await Group.findById(id);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+    if (!group.members.some((m) => m.devotee_id.equals(devoteeId))) {
+      return res.status(404).json({ message: 'Devotee is not a member of this group' });
+    }
+    if (group.leader_id?.equals(devoteeId)) {
+      return res.status(409).json({ message: 'Choose a new leader before removing the current one' });
+    }
+
+    group.members = group.members.filter((m) => !m.devotee_id.equals(devoteeId));
+    await Promise.all([group.save(), Devotee.updateOne({ _id: devoteeId }, { $set: { group_id: null } })]);
+
+    return res.json(await summarizeGroup(group.toObject()));
+  } catch (error) {
+    console.error('Failed to remove group member', error);
+    return res.status(500).json({ message: 'Failed to remove group member', details: error.message });
+  }
+});
+
+// PUT /api/groups/:id/leader - Make another member the group leader
+// Body: { devotee_id }
+router.put('/:id/leader', requirePermission(PERMISSIONS.DEVOTEES_UPDATE), async (req, res) => {
+  const { devotee_id } = req.body;
+
+  if (!mongoose.isValidObjectId(req.params.id) || !mongoose.isValidObjectId(devotee_id)) {
+    return res.status(400).json({ message: 'Group and devotee ids are required' });
+  }
+
+  try {
+    const group = await Group.findById(req.params.id);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+    if (!group.members.some((m) => m.devotee_id.equals(devotee_id))) {
+      return res.status(409).json({ message: 'Only a member of the group can lead it' });
+    }
+
+    group.leader_id = devotee_id;
+    await group.save();
+
+    return res.json(await summarizeGroup(group.toObject()));
+  } catch (error) {
+    console.error('Failed to change group leader', error);
+    return res.status(500).json({ message: 'Failed to change group leader', details: error.message });
+  }
+});
+
+export const groupsRouter = router;
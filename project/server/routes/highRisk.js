@@ -1,192 +1,153 @@
 import express from 'express';
 import { Devotee } from '../models/Devotee.js';
-import { MedicalRecord } from '../models/MedicalRecord.js';
-import { calculateRiskScore } from '../utils/riskScoring.js';
-import fetch from 'node-fetch';
+import { RISK_LEVELS, RiskAssessment } from '../models/RiskAssessment.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { getRiskContext } from '../utils/riskAssessments.js';
+import { getActiveRiskModel } from '../utils/riskModels.js';
 
 const router = express.Router();
 
+router.use(requirePermission(PERMISSIONS.HIGH_RISK_READ));
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+const RISK_COLORS = { Critical: 'red', High: 'orange', Moderate: 'yellow', Low: 'green' };
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 /**
- * Get current weather data for risk calculation
+ * Store filter from query params: level (comma list), min_score, gender, condition (ICD-10 code)
+ * and q (name or registration number).
+ * @returns { filter } or { error }
  */
-async function getCurrentWeather() {
-    try {
-        const API_KEY = process.env.OPENWEATHER_API_KEY || 'demo';
-        const city = 'Prayagraj'; // Kumbh Mela location
-
-        const response = await fetch(
-            `https://api.openweathermap.org/data/2.5/weather?q=${city}&appid=${API_KEY}&units=metric`
-        );
+function buildFilter(query) {
+    const filter = {};
 
-        if (!response.ok) {
-            console.warn('Weather API failed, using default values');
-            return { temp: 30, humidity: 60, aqi: 100 }; // Safe defaults
+    if (query.level) {
+        const levels = String(query.level).split(',');
+        if (levels.some((level) => !RISK_LEVELS.includes(level))) {
+            return { error: `level must be one of: ${RISK_LEVELS.join(', ')}` };
         }
+        filter.risk_level = { $in: levels };
+    }
+    if (query.min_score !== undefined) {
+        const minScore = Number(query.min_score);
+        if (!Number.isFinite(minScore)) return { error: 'min_score must be a number' };
+        filter.total_score = { $gte: minScore };
+    }
+    if (query.gender) filter['devotee.gender'] = String(query.gender);
+    if (query.condition) filter['medical.condition_codes'] = String(query.condition);
+    if (query.q) {
+        const pattern = new RegExp(escapeRegex(String(query.q).trim()), 'i');
+        filter.$or = [{ 'devotee.full_name': pattern }, { 'devotee.registration_number': pattern }];
+    }
 
-        const data = await response.json();
-        return {
-            temp: data.main.temp,
-            humidity: data.main.humidity,
-            aqi: 100 // Default AQI, can be enhanced with air quality API
-        };
-    } catch (error) {
-        console.error('Weather fetch error:', error);
-        return { temp: 30, humidity: 60, aqi: 100 }; // Safe defaults
+    return { filter };
+}
+
+const formatAssessment = (assessment, photoUrl) => ({
+    devotee_id: assessment.devotee_id.toString(),
+    devotee: { ...assessment.devotee, photo_url: photoUrl || null },
+    medical: assessment.medical,
+    risk_score: assessment.total_score,
+    risk_level: assessment.risk_level,
+    risk_color: RISK_COLORS[assessment.risk_level],
+    breakdown: assessment.breakdown,
+    recommendations: assessment.recommendations,
+    explanation: assessment.explanation || [],
+    model_version: assessment.model_version ?? null,
+    computed_at: assessment.computed_at,
+});
+
+// Weather, head count and model version the scores were computed against
+async function contextSummary() {
+    const [ctx, model] = await Promise.all([getRiskContext(), getActiveRiskModel()]);
+    return { ...ctx.weather, total_devotees: ctx.total_devotees, refreshed_at: ctx.refreshed_at, model_version: model.version };
+}
+
+async function listAssessments(req, res, baseFilter = {}) {
+    const { filter, error } = buildFilter(req.query);
+    if (error) {
+        return res.status(400).json({ message: error });
     }
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const query = { ...filter, ...baseFilter };
+
+    const [total, assessments, context] = await Promise.all([
+        RiskAssessment.countDocuments(query),
+        RiskAssessment.find(query)
+            .sort({ total_score: -1, _id: 1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        contextSummary(),
+    ]);
+
+    // Photos are large, so they are fetched for the page being shown rather than copied into the store
+    const photos = await Devotee.find({ _id: { $in: assessments.map((a) => a.devotee_id) } }).select('photo_url').lean();
+    const photoById = new Map(photos.map((d) => [d._id.toString(), d.photo_url]));
+
+    return res.json({
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+        context,
+        patients: assessments.map((a) => formatAssessment(a, photoById.get(a.devotee_id.toString()))),
+    });
 }
 
 /**
- * GET /api/high-risk/list
- * Get all patients with risk scores, sorted by risk level
+ * GET /api/high-risk/list?page=&limit=&level=&min_score=&gender=&condition=&q=
+ * Scored devotees, highest risk first
  */
 router.get('/list', async (req, res) => {
     try {
-        const { limit = 100, minScore = 0 } = req.query;
-
-        // Get all devotees with their medical records
-        const devotees = await Devotee.find().lean();
-        const totalDevotees = devotees.length;
-
-        // Get weather data
-        const weatherData = await getCurrentWeather();
-
-        // Calculate risk scores for all devotees
-        const riskAssessments = [];
-
-        for (const devotee of devotees) {
-            // Get medical record
-            const medicalRecord = await MedicalRecord.findOne({ devotee_id: devotee.devotee_id }).lean();
-
-            // Calculate risk score
-            const riskData = calculateRiskScore(devotee, medicalRecord, weatherData, totalDevotees);
-
-            // Only include if meets minimum score
-            if (riskData.totalScore >= minScore) {
-                riskAssessments.push({
-                    devotee: {
-                        _id: devotee._id.toString(), // MongoDB ID for fetching full profile
-                        devotee_id: devotee.devotee_id,
-                        name: devotee.name,
-                        age: devotee.age,
-                        gender: devotee.gender,
-                        phone: devotee.phone,
-                        photo: devotee.photo
-                    },
-                    medicalRecord: {
-                        chronic_conditions: medicalRecord?.chronic_conditions || 'None',
-                        blood_group: medicalRecord?.blood_group,
-                        allergies: medicalRecord?.allergies
-                    },
-                    riskScore: riskData.totalScore,
-                    riskLevel: riskData.riskLevel,
-                    riskColor: riskData.riskColor,
-                    breakdown: riskData.breakdown,
-                    recommendations: riskData.recommendations
-                });
-            }
-        }
-
-        // Sort by risk score (highest first)
-        riskAssessments.sort((a, b) => b.riskScore - a.riskScore);
-
-        // Limit results
-        const limitedResults = riskAssessments.slice(0, parseInt(limit));
-
-        res.json({
-            total: riskAssessments.length,
-            weatherData,
-            patients: limitedResults
-        });
-
+        return await listAssessments(req, res);
     } catch (error) {
         console.error('High-risk list error:', error);
-        res.status(500).json({ message: 'Failed to fetch high-risk patients' });
+        return res.status(500).json({ message: 'Failed to fetch high-risk patients', details: error.message });
     }
 });
 
 /**
- * GET /api/high-risk/critical
- * Get only critical patients (risk score >= 75)
+ * GET /api/high-risk/critical?page=&limit=&gender=&condition=&q=
+ * Only critical patients: risk score at or above the active model's critical threshold
  */
 router.get('/critical', async (req, res) => {
     try {
-        const devotees = await Devotee.find().lean();
-        const totalDevotees = devotees.length;
-        const weatherData = await getCurrentWeather();
-
-        const criticalPatients = [];
-
-        for (const devotee of devotees) {
-            const medicalRecord = await MedicalRecord.findOne({ devotee_id: devotee.devotee_id }).lean();
-            const riskData = calculateRiskScore(devotee, medicalRecord, weatherData, totalDevotees);
-
-            if (riskData.totalScore >= 75) {
-                criticalPatients.push({
-                    devotee: {
-                        _id: devotee._id.toString(), // MongoDB ID for fetching full profile
-                        devotee_id: devotee.devotee_id,
-                        name: devotee.name,
-                        age: devotee.age,
-                        gender: devotee.gender,
-                        phone: devotee.phone,
-                        photo: devotee.photo
-                    },
-                    medicalRecord: {
-                        chronic_conditions: medicalRecord?.chronic_conditions || 'None',
-                        blood_group: medicalRecord?.blood_group
-                    },
-                    riskScore: riskData.totalScore,
-                    riskLevel: riskData.riskLevel,
-                    recommendations: riskData.recommendations
-                });
-            }
-        }
-
-        criticalPatients.sort((a, b) => b.riskScore - a.riskScore);
-
-        res.json({
-            count: criticalPatients.length,
-            patients: criticalPatients
-        });
-
+        return await listAssessments(req, res, { risk_level: 'Critical' });
     } catch (error) {
         console.error('Critical patients error:', error);
-        res.status(500).json({ message: 'Failed to fetch critical patients' });
+        return res.status(500).json({ message: 'Failed to fetch critical patients', details: error.message });
     }
 });
 
 /**
  * GET /api/high-risk/stats
- * Get statistics on risk distribution
+ * Devotees per risk level
  */
 router.get('/stats', async (req, res) => {
     try {
-        const devotees = await Devotee.find().lean();
-        const totalDevotees = devotees.length;
-        const weatherData = await getCurrentWeather();
-
-        const stats = {
-            critical: 0,
-            high: 0,
-            moderate: 0,
-            low: 0
-        };
-
-        for (const devotee of devotees) {
-            const medicalRecord = await MedicalRecord.findOne({ devotee_id: devotee.devotee_id }).lean();
-            const riskData = calculateRiskScore(devotee, medicalRecord, weatherData, totalDevotees);
-
-            if (riskData.totalScore >= 75) stats.critical++;
-            else if (riskData.totalScore >= 50) stats.high++;
-            else if (riskData.totalScore >= 25) stats.moderate++;
-            else stats.low++;
-        }
-
-        res.json(stats);
-
+        const [groups, context] = await Promise.all([
+            RiskAssessment.aggregate([{ $group: { _id: '$risk_level', count: { $sum: 1 } } }]),
+            contextSummary(),
+        ]);
+        const counts = new Map(groups.map((g) => [g._id, g.count]));
+
+        return res.json({
+            critical: counts.get('Critical') || 0,
+            high: counts.get('High') || 0,
+            moderate: counts.get('Moderate') || 0,
+            low: counts.get('Low') || 0,
+            context,
+        });
     } catch (error) {
         console.error('Risk stats error:', error);
-        res.status(500).json({ message: 'Failed to fetch risk statistics' });
+        return res.status(500).json({ message: 'Failed to fetch risk statistics', details: error.message });
     }
 });
 
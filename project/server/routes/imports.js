@@ -0,0 +1,220 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { ImportJob } from '../models/ImportJob.js';
+import { ImportRow, IMPORT_ROW_STATUSES } from '../models/ImportRow.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import {
+  cancelImportJob,
+  createImportJob,
+  isImportRunning,
+  mapRow,
+  resumeImportJob,
+  startImport,
+  startValidation,
+} from '../utils/imports.js';
+import { csvLine, formatFromFilename } from '../utils/spreadsheets.js';
+
+const router = express.Router();
+
+router.use(requirePermission(PERMISSIONS.DEVOTEES_IMPORT));
+
+// Large sheets are sent as the raw file body rather than JSON
+const MAX_UPLOAD = '100mb';
+const MAX_PAGE_SIZE = 200;
+
+router.param('id', (req, res, next, id) => {
+  if (!mongoose.isValidObjectId(id)) {
+    return res.status(400).json({ message: 'Invalid import id' });
+  }
+  return next();
+});
+
+const formatJob = (job) => ({
+  id: job._id.toString(),
+  filename: job.filename,
+  format: job.format,
+  headers: job.headers,
+  sample: job.sample,
+  mapping: job.mapping || {},
+  defaults: job.defaults || {},
+  import_duplicates: job.import_duplicates,
+  status: job.status,
+  phase: job.phase,
+  running: isImportRunning(job._id),
+  total_rows: job.total_rows,
+  counts: job.counts,
+  error: job.error || null,
+  created_by: job.created_by,
+  created_at: job.created_at,
+  started_at: job.started_at || null,
+  finished_at: job.finished_at || null,
+});
+
+const formatRow = (row, job) => ({
+  id: row._id.toString(),
+  row_number: row.row_number,
+  status: row.status,
+  issues: row.issues,
+  duplicate_of_row: row.duplicate_of_row,
+  duplicates: row.duplicates.map((d) => ({ ...d, devotee_id: d.devotee_id?.toString() || null })),
+  registration_number: row.registration_number,
+  devotee: mapRow(row.values, job).devotee,
+});
+
+const sendResult = (res, result, status = 200) => {
+  if (result.error) {
+    return res.status(result.status).json({ message: result.error });
+  }
+  return res.status(status).json(formatJob(result.job));
+};
+
+// GET /api/imports - recent import jobs, newest first
+router.get('/', async (_req, res) => {
+  try {
+    const jobs = await ImportJob.find().sort({ created_at: -1 }).limit(20).lean();
+    return res.json(jobs.map(formatJob));
+  } catch (error) {
+    console.error('Failed to list imports', error);
+    return res.status(500).json({ message: 'Failed to list imports', details: error.message });
+  }
+});
+
+// POST /api/imports?filename=pilgrims.xlsx - body is the CSV or XLSX file itself; its rows are read in the background
+router.post('/', express.raw({ type: () => true, limit: MAX_UPLOAD }), async (req, res) => {
+  try {
+    const filename = String(req.query.filename || '');
+    const format = formatFromFilename(filename);
+    if (!format) {
+      return res.status(400).json({ message: 'Upload a .csv or .xlsx file' });
+    }
+    if (!Buffer.isBuffer(req.body) || !req.body.length) {
+      return res.status(400).json({ message: 'The file is empty' });
+    }
+
+    return sendResult(res, await createImportJob(req, { buffer: req.body, filename, format }), 201);
+  } catch (error) {
+    console.error('Failed to store import file', error);
+    return res.status(500).json({ message: 'Failed to store import file', details: error.message });
+  }
+});
+
+// GET /api/imports/:id - job status and progress; polled while a phase runs
+router.get('/:id', async (req, res) => {
+  try {
+    const job = await ImportJob.findById(req.params.id).lean();
+    if (!job) {
+      return res.status(404).json({ message: 'Import not found' });
+    }
+    return res.json(formatJob(job));
+  } catch (error) {
+    console.error('Failed to load import', error);
+    return res.status(500).json({ message: 'Failed to load import', details: error.message });
+  }
+});
+
+// GET /api/imports/:id/rows - the dry-run report
+// Query: status? (row status), page?, limit?
+router.get('/:id/rows', async (req, res) => {
+  try {
+    const job = await ImportJob.findById(req.params.id).lean();
+    if (!job) {
+      return res.status(404).json({ message: 'Import not found' });
+    }
+
+    const filter = { job_id: job._id };
+    if (req.query.status) {
+      if (!IMPORT_ROW_STATUSES.includes(req.query.status)) {
+        return res.status(400).json({ message: `status must be one of ${IMPORT_ROW_STATUSES.join(', ')}` });
+      }
+      filter.status = req.query.status;
+    }
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, MAX_PAGE_SIZE);
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+
+    const [rows, total] = await Promise.all([
+      ImportRow.find(filter).sort({ seq: 1 }).skip((page - 1) * limit).limit(limit).lean(),
+      ImportRow.countDocuments(filter),
+    ]);
+    return res.json({ rows: rows.map((row) => formatRow(row, job)), total, page, limit });
+  } catch (error) {
+    console.error('Failed to load import rows', error);
+    return res.status(500).json({ message: 'Failed to load import rows', details: error.message });
+  }
+});
+
+// PUT /api/imports/:id/mapping - set the column mapping and start the dry run
+// Body: { mapping: { field: columnIndex }, defaults?: { field: value } }
+router.put('/:id/mapping', async (req, res) => {
+  try {
+    return sendResult(res, await startValidation(req.params.id, { mapping: req.body.mapping, defaults: req.body.defaults }));
+  } catch (error) {
+    console.error('Failed to start import dry run', error);
+    return res.status(500).json({ message: 'Failed to start import dry run', details: error.message });
+  }
+});
+
+// POST /api/imports/:id/start - register the rows that passed the dry run
+// Body: { import_duplicates?: boolean }
+router.post('/:id/start', async (req, res) => {
+  try {
+    return sendResult(res, await startImport(req.params.id, { importDuplicates: req.body?.import_duplicates === true }));
+  } catch (error) {
+    console.error('Failed to start import', error);
+    return res.status(500).json({ message: 'Failed to start import', details: error.message });
+  }
+});
+
+// POST /api/imports/:id/resume - continue a failed or interrupted job from where it stopped
+router.post('/:id/resume', async (req, res) => {
+  try {
+    return sendResult(res, await resumeImportJob(req.params.id));
+  } catch (error) {
+    console.error('Failed to resume import', error);
+    return res.status(500).json({ message: 'Failed to resume import', details: error.message });
+  }
+});
+
+// POST /api/imports/:id/cancel
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    return sendResult(res, await cancelImportJob(req.params.id));
+  } catch (error) {
+    console.error('Failed to cancel import', error);
+    return res.status(500).json({ message: 'Failed to cancel import', details: error.message });
+  }
+});
+
+// GET /api/imports/:id/results - every row with its outcome and registration number, as CSV
+router.get('/:id/results', async (req, res) => {
+  try {
+    const job = await ImportJob.findById(req.params.id).lean();
+    if (!job) {
+      return res.status(404).json({ message: 'Import not found' });
+    }
+
+    const basename = job.filename.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${basename}-registrations.csv"`);
+    res.write(csvLine(['row', 'full_name', 'age', 'gender', 'phone', 'status', 'registration_number', 'issues', 'duplicate_of']));
+
+    const cursor = ImportRow.find({ job_id: job._id }).sort({ seq: 1 }).lean().cursor();
+    for await (const row of cursor) {
+      const { devotee } = mapRow(row.values, job);
+      const duplicateOf = row.duplicate_of_row
+        ? [`row ${row.duplicate_of_row}`]
+        : row.duplicates.filter((d) => d.confidence === 'likely').map((d) => d.registration_number);
+      res.write(csvLine([
+        row.row_number, devotee.full_name, devotee.age, devotee.gender, devotee.phone,
+        row.status, row.registration_number, row.issues.join('; '), duplicateOf.join(' '),
+      ]));
+    }
+    return res.end();
+  } catch (error) {
+    console.error('Failed to export import results', error);
+    if (res.headersSent) return res.end();
+    return res.status(500).json({ message: 'Failed to export import results', details: error.message });
+  }
+});
+
+export const importsRouter = router;
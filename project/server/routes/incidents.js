@@ -1,30 +1,287 @@
 import express from 'express';
-import { MedicalIncident } from '../models/MedicalIncident.js';
+import mongoose from 'mongoose';
+import { CLOSED_STATUSES, INCIDENT_STATUSES, MedicalIncident, TRANSPORT_MODES } from '../models/MedicalIncident.js';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { Devotee } from '../models/Devotee.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { diffFields, recordAudit } from '../utils/audit.js';
+import { assessVitals, parseVitals } from '../utils/triage.js';
+import { buildFollowUp, completeFollowUp, formatFollowUp } from '../utils/followUps.js';
+import { isOfflineReplay, reviewPrescription } from '../utils/interactions.js';
+import { classifySyndromes } from '../utils/syndromes.js';
+import { refreshSyndromeCounts } from '../utils/surveillance.js';
+import { refreshRiskAssessment } from '../utils/riskAssessments.js';
+import { publish } from '../utils/events.js';
+import { resolveDevoteeId } from '../utils/merges.js';
+import { staffRef } from '../utils/staff.js';
 
 const router = express.Router();
 
-const formatIncident = (incident) => ({
-  ...incident,
-  id: incident._id.toString(),
-  devotee_id: incident.devotee_id.toString(),
+const INCIDENT_AUDIT_FIELDS = [
+  'incident_type', 'symptoms', 'diagnosis', 'treatment_given', 'medications_prescribed',
+  'attending_doctor', 'medical_center', 'medical_center_id', 'follow_up_required', 'follow_up_notes',
+];
+
+// Clinical fields staff may correct after the incident is recorded
+const EDITABLE_FIELDS = INCIDENT_AUDIT_FIELDS.filter((field) => !['medical_center', 'medical_center_id'].includes(field));
+
+// Where an incident may go next. 'referred' is reached only through the referral endpoint,
+// and leaves it when the receiving center responds.
+const STATUS_TRANSITIONS = {
+  open: ['under_treatment', 'discharged', 'deceased', 'left_against_advice'],
+  under_treatment: ['discharged', 'deceased', 'left_against_advice'],
+  referred: ['deceased', 'left_against_advice'],
+  discharged: [],
+  deceased: [],
+  left_against_advice: [],
+};
+
+// Incidents recorded before versioning have no stored version; they count as version 1
+const versionOf = (incident) => incident.version || 1;
+const versionFilter = (incident) => ({ _id: incident._id, version: incident.version ?? { $exists: false } });
+
+// Overriding a blocking interaction warning is audited on its own so it can be reviewed later
+async function auditOverride(req, incident) {
+  const override = incident.prescription_check?.override;
+  if (!override) return;
+  await recordAudit(req, {
+    action: 'incident.prescription_override',
+    devoteeId: incident.devotee_id,
+    targetId: incident._id,
+    changes: [{ field: 'prescription_check.override', before: null, after: { reason: override.reason, keys: override.keys } }],
+  });
+}
+
+// An offline incident saved over blocking warnings: audited, and every open dashboard is alerted
+async function flagPrescriptionReview(req, incident) {
+  const review = incident.prescription_check?.review;
+  if (review?.status !== 'pending') return;
+  await recordAudit(req, {
+    action: 'incident.prescription_flagged',
+    devoteeId: incident.devotee_id,
+    targetId: incident._id,
+    changes: [{ field: 'prescription_check.review', before: null, after: { status: 'pending', keys: review.keys } }],
+  });
+  publish('incident.prescription_review', {
+    id: incident._id.toString(),
+    devotee_id: incident.devotee_id.toString(),
+    medical_center: incident.medical_center,
+    medications_prescribed: incident.medications_prescribed,
+    reasons: incident.prescription_check.warnings.filter((w) => review.keys.includes(w.key)).map((w) => w.reason),
+  }, { critical: true });
+}
+
+/**
+ * Look up a registry center by id.
+ * @returns the lean center, or null when the id is malformed or unknown
+ */
+async function findCenter(id) {
+  if (!mongoose.isValidObjectId(id)) return null;
+  return MedicalCenter.findById(id).lean();
+}
+
+// The center currently responsible for the patient: the last accepted referral, else where they were first seen
+function currentCenter(incident) {
+  const accepted = (incident.referrals || []).filter((r) => r.status === 'accepted');
+  const last = accepted[accepted.length - 1];
+  return last
+    ? { id: last.to_center_id, name: last.to_center }
+    : { id: incident.medical_center_id, name: incident.medical_center };
+}
+
+// Tries at adding a reading while the incident is being edited
+const OBSERVATION_SAVE_ATTEMPTS = 3;
+
+const OBSERVATION_AUDIT_FIELDS = [
+  'pulse', 'bp_systolic', 'bp_diastolic', 'spo2', 'on_oxygen', 'temperature_c', 'respiratory_rate',
+  'gcs', 'avpu', 'blood_glucose_mg_dl', 'triage_category', 'news2_score',
+];
+
+/**
+ * Turn a vitals payload into an observation sub-document plus the incident-level triage.
+ * @returns { observation, triage } or { error }
+ */
+function buildObservation(req, input) {
+  const { vitals, error } = parseVitals(input);
+  if (error) return { error };
+
+  const assessment = assessVitals(vitals);
+  const recordedAt = input.recorded_at ? new Date(input.recorded_at) : new Date();
+  if (Number.isNaN(recordedAt.getTime()) || recordedAt.getTime() > Date.now() + 5 * 60 * 1000) {
+    return { error: 'recorded_at must be a valid time, not in the future' };
+  }
+
+  return {
+    observation: {
+      ...vitals,
+      recorded_at: recordedAt,
+      recorded_by: staffRef(req),
+      triage_category: assessment.category,
+      news2_score: assessment.news2_score,
+      news2_risk: assessment.news2_risk,
+      glucose_flag: assessment.glucose_flag,
+      notes: input.notes || '',
+    },
+    triage: { ...assessment, computed_at: recordedAt },
+  };
+}
+
+const formatObservation = (observation) => ({
+  ...observation,
+  id: observation._id.toString(),
+  recorded_by: observation.recorded_by ? { ...observation.recorded_by, id: observation.recorded_by.id?.toString() } : null,
   _id: undefined,
-  __v: undefined,
 });
 
-router.post('/', async (req, res) => {
+const formatReferral = (referral) => ({
+  ...referral,
+  id: referral._id.toString(),
+  from_center_id: referral.from_center_id?.toString() ?? null,
+  to_center_id: referral.to_center_id.toString(),
+  _id: undefined,
+});
+
+export const formatIncident = (incident) => {
+  const center = currentCenter(incident);
+  return {
+    ...incident,
+    id: incident._id.toString(),
+    devotee_id: incident.devotee_id.toString(),
+    medical_center_id: incident.medical_center_id?.toString() ?? null,
+    observations: (incident.observations || []).map(formatObservation),
+    triage: incident.triage ?? null,
+    // Incidents recorded before the lifecycle existed have neither
+    status: incident.status || 'open',
+    version: versionOf(incident),
+    referrals: (incident.referrals || []).map(formatReferral),
+    follow_up: formatFollowUp(incident.follow_up) ?? null,
+    follow_up_of: incident.follow_up_of?.toString() ?? null,
+    current_center_id: center.id?.toString() ?? null,
+    current_center: center.name,
+    _id: undefined,
+    __v: undefined,
+  };
+};
+
+router.post('/', requirePermission(PERMISSIONS.INCIDENTS_CREATE), async (req, res) => {
   try {
-    const incident = await MedicalIncident.create({
-      devotee_id: req.body.devotee_id,
+    // Incidents queued offline against a duplicate that was merged meanwhile go to the merged record
+    const devoteeId = await resolveDevoteeId(req.body.devotee_id);
+
+    // Facilities come from the registry; the name is copied from it, not trusted from the client
+    let medicalCenterName = req.body.medical_center;
+    if (req.body.medical_center_id) {
+      const center = await findCenter(req.body.medical_center_id);
+      if (!center) {
+        return res.status(400).json({ message: 'Unknown medical_center_id' });
+      }
+      medicalCenterName = center.name;
+    }
+
+    // Vitals are optional at intake; when present they become the first observation
+    let initial = null;
+    if (req.body.vitals) {
+      initial = buildObservation(req, req.body.vitals);
+      if (initial.error) {
+        return res.status(400).json({ message: initial.error });
+      }
+    }
+
+    let followUp;
+    if (req.body.follow_up_required && req.body.follow_up_due_at) {
+      const built = await buildFollowUp(
+        req,
+        { due_at: req.body.follow_up_due_at, center_id: req.body.follow_up_center_id },
+        { id: req.body.medical_center_id || undefined, name: medicalCenterName }
+      );
+      if (built.error) {
+        return res.status(400).json({ message: built.error });
+      }
+      followUp = built.followUp;
+    }
+
+    let prescriptionCheck;
+    if (typeof req.body.medications_prescribed === 'string' && req.body.medications_prescribed.trim()) {
+      const reviewed = await reviewPrescription(req, devoteeId, req.body.medications_prescribed, req.body.interaction_override, {
+        recordedOffline: isOfflineReplay(req),
+      });
+      if (reviewed.error) {
+        return res.status(409).json({ message: reviewed.error, warnings: reviewed.warnings });
+      }
+      prescriptionCheck = reviewed.check;
+    }
+
+    const incidentData = {
+      devotee_id: devoteeId,
       incident_type: req.body.incident_type,
       symptoms: req.body.symptoms,
       diagnosis: req.body.diagnosis || '',
       treatment_given: req.body.treatment_given || '',
       medications_prescribed: req.body.medications_prescribed || '',
+      prescription_check: prescriptionCheck,
       attending_doctor: req.body.attending_doctor,
-      medical_center: req.body.medical_center,
+      medical_center: medicalCenterName,
+      medical_center_id: req.body.medical_center_id || undefined,
       follow_up_required: Boolean(req.body.follow_up_required),
       follow_up_notes: req.body.follow_up_notes || '',
+      follow_up: followUp,
+      follow_up_of: req.body.follow_up_of || undefined,
+      observations: initial ? [initial.observation] : [],
+      triage: initial?.triage,
+      status: 'open',
+      status_history: [{ status: 'open', by: staffRef(req) }],
+    };
+    incidentData.syndromes = classifySyndromes(incidentData);
+
+    let incident;
+    if (req.body.follow_up_of) {
+      // Recording the return visit closes the follow-up it was booked for, all or nothing
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      try {
+        [incident] = await MedicalIncident.create([incidentData], { session });
+        const linked = await completeFollowUp(req, req.body.follow_up_of, incident, session);
+        if (linked.error) {
+          await session.abortTransaction();
+          session.endSession();
+          return res.status(linked.status === 404 ? 400 : linked.status).json({ message: linked.error });
+        }
+        await recordAudit(req, {
+          action: 'incident.follow_up',
+          devoteeId: linked.incident.devotee_id,
+          targetId: linked.incident._id,
+          changes: [{ field: 'follow_up.status', before: 'scheduled', after: 'completed' }],
+        }, session);
+        await session.commitTransaction();
+        session.endSession();
+      } catch (error) {
+        await session.abortTransaction();
+        session.endSession();
+        throw error;
+      }
+    } else {
+      incident = await MedicalIncident.create(incidentData);
+    }
+
+    await recordAudit(req, {
+      action: 'incident.create',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: diffFields({}, incident.toObject(), INCIDENT_AUDIT_FIELDS),
     });
+    await auditOverride(req, incident);
+    await flagPrescriptionReview(req, incident);
+    await refreshSyndromeCounts(incident);
+    await refreshRiskAssessment(incident.devotee_id);
+    publish('incident.created', {
+      id: incident._id.toString(),
+      devotee_id: incident.devotee_id.toString(),
+      incident_type: incident.incident_type,
+      medical_center: incident.medical_center,
+      triage_category: incident.triage?.category ?? null,
+      incident_date: incident.incident_date,
+    }, { critical: incident.triage?.category === 'red' });
 
     return res.status(201).json(formatIncident(incident.toObject()));
   } catch (error) {
@@ -33,7 +290,434 @@ router.post('/', async (req, res) => {
   }
 });
 
-router.get('/', async (req, res) => {
+router.post('/:id/observations', requirePermission(PERMISSIONS.INCIDENTS_CREATE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+
+    const { observation, triage, error } = buildObservation(req, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    let incident;
+    let saved;
+    let syndromesChanged;
+    for (let attempt = 1; ; attempt++) {
+      incident = await MedicalIncident.findById(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ message: 'Incident not found' });
+      }
+      if (CLOSED_STATUSES.includes(incident.status)) {
+        return res.status(409).json({ message: `Incident is closed (${incident.status})` });
+      }
+      // Incidents from before versioning have no stored version, only the schema default
+      const storedVersion = incident.$isDefault('version') ? { $exists: false } : incident.version;
+
+      incident.observations.push(observation);
+      saved = incident.observations[incident.observations.length - 1];
+
+      // A back-dated reading must not overwrite the triage of a newer one
+      if (!incident.triage?.computed_at || triage.computed_at >= incident.triage.computed_at) {
+        incident.triage = triage;
+      }
+      // A feverish reading can add the fever syndrome
+      const syndromes = classifySyndromes(incident);
+      syndromesChanged = syndromes.join() !== incident.syndromes.join();
+      if (syndromesChanged) incident.syndromes = syndromes;
+
+      // A new reading changes the incident, so an edit made from the page loaded before it is refused
+      incident.version = versionOf(incident) + 1;
+      incident.$where = { version: storedVersion };
+      try {
+        await incident.save();
+        break;
+      } catch (saveError) {
+        // Edited in between: add the reading to the edited incident
+        if (saveError.name !== 'DocumentNotFoundError') throw saveError;
+        if (attempt >= OBSERVATION_SAVE_ATTEMPTS) {
+          return res.status(409).json({ message: 'Incident is being changed by someone else; try again' });
+        }
+      }
+    }
+    if (syndromesChanged) await refreshSyndromeCounts(incident);
+    await refreshRiskAssessment(incident.devotee_id);
+
+    await recordAudit(req, {
+      action: 'incident.observation',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: diffFields({}, saved.toObject(), OBSERVATION_AUDIT_FIELDS),
+    });
+
+    return res.status(201).json(formatIncident(incident.toObject()));
+  } catch (error) {
+    console.error('Failed to record observation', error);
+    return res.status(500).json({ message: 'Failed to record observation', details: error.message });
+  }
+});
+
+/**
+ * Edit an incident and/or move it to a new status.
+ * The client sends back the `version` it loaded; a stale version gets 409 with the current incident.
+ */
+router.patch('/:id', requirePermission(PERMISSIONS.INCIDENTS_UPDATE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    const version = Number(req.body.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ message: 'version is required' });
+    }
+
+    const before = await MedicalIncident.findById(req.params.id).lean();
+    if (!before) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    if (versionOf(before) !== version) {
+      return res.status(409).json({ message: 'Incident was changed by someone else', incident: formatIncident(before) });
+    }
+
+    const set = { version: versionOf(before) + 1 };
+    EDITABLE_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) set[field] = req.body[field];
+    });
+    if (set.follow_up_required !== undefined) set.follow_up_required = Boolean(set.follow_up_required);
+    if (set.symptoms !== undefined || set.diagnosis !== undefined) {
+      set.syndromes = classifySyndromes({ ...before, ...set });
+    }
+
+    const update = { $set: set };
+
+    // A changed prescription is checked again; an unchanged one keeps the check it was saved with
+    if (set.medications_prescribed !== undefined && set.medications_prescribed !== (before.medications_prescribed || '')) {
+      if (String(set.medications_prescribed).trim()) {
+        const reviewed = await reviewPrescription(req, before.devotee_id, set.medications_prescribed, req.body.interaction_override);
+        if (reviewed.error) {
+          return res.status(409).json({ message: reviewed.error, warnings: reviewed.warnings });
+        }
+        set.prescription_check = reviewed.check;
+      } else {
+        update.$unset = { prescription_check: '' };
+      }
+    }
+    if (set.follow_up_required === false && before.follow_up?.status === 'scheduled') {
+      set['follow_up.status'] = 'cancelled';
+      set['follow_up.cancel_reason'] = 'Follow-up no longer required';
+    }
+
+    const fromStatus = before.status || 'open';
+    const toStatus = req.body.status;
+    if (toStatus !== undefined && toStatus !== fromStatus) {
+      if (!INCIDENT_STATUSES.includes(toStatus)) {
+        return res.status(400).json({ message: `status must be one of: ${INCIDENT_STATUSES.join(', ')}` });
+      }
+      if (!STATUS_TRANSITIONS[fromStatus].includes(toStatus)) {
+        return res.status(400).json({ message: `Cannot move an incident from ${fromStatus} to ${toStatus}` });
+      }
+      set.status = toStatus;
+      if (CLOSED_STATUSES.includes(toStatus)) set.closed_at = new Date();
+      if (toStatus === 'deceased' && before.follow_up?.status === 'scheduled') {
+        set['follow_up.status'] = 'cancelled';
+        set['follow_up.cancel_reason'] = 'Patient deceased';
+      }
+      update.$push = { status_history: { status: toStatus, by: staffRef(req), note: req.body.status_note || '' } };
+
+      // Closing while a referral is still pending withdraws it
+      const pending = (before.referrals || []).findIndex((r) => r.status === 'pending');
+      if (pending !== -1) {
+        set[`referrals.${pending}.status`] = 'rejected';
+        set[`referrals.${pending}.responded_at`] = new Date();
+        set[`referrals.${pending}.responded_by`] = staffRef(req);
+        set[`referrals.${pending}.response_notes`] = `Withdrawn: incident marked ${toStatus}`;
+      }
+    }
+
+    // The version in the filter makes the check-and-write atomic
+    const incident = await MedicalIncident.findOneAndUpdate(
+      versionFilter(before),
+      update,
+      { new: true, runValidators: true }
+    ).lean();
+    if (!incident) {
+      const current = await MedicalIncident.findById(before._id).lean();
+      return res.status(409).json({ message: 'Incident was changed by someone else', incident: current && formatIncident(current) });
+    }
+
+    await recordAudit(req, {
+      action: 'incident.update',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: diffFields(before, incident, [...EDITABLE_FIELDS, 'status']),
+    });
+    if (set.prescription_check) await auditOverride(req, incident);
+    if (set.syndromes && set.syndromes.join() !== (before.syndromes || []).join()) {
+      await refreshSyndromeCounts(incident);
+    }
+    await refreshRiskAssessment(incident.devotee_id);
+
+    return res.json(formatIncident(incident));
+  } catch (error) {
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Failed to update incident', error);
+    return res.status(500).json({ message: 'Failed to update incident', details: error.message });
+  }
+});
+
+// Refer the patient on to another facility
+router.post('/:id/referrals', requirePermission(PERMISSIONS.INCIDENTS_UPDATE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    const { version, to_center_id: toCenterId, transport_mode: transportMode, handover_notes: handoverNotes } = req.body;
+    if (!TRANSPORT_MODES.includes(transportMode)) {
+      return res.status(400).json({ message: `transport_mode must be one of: ${TRANSPORT_MODES.join(', ')}` });
+    }
+
+    const [before, toCenter] = await Promise.all([
+      MedicalIncident.findById(req.params.id).lean(),
+      findCenter(toCenterId),
+    ]);
+    if (!before) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    if (!toCenter || !toCenter.active) {
+      return res.status(400).json({ message: 'Unknown or inactive receiving center' });
+    }
+    if (versionOf(before) !== Number(version)) {
+      return res.status(409).json({ message: 'Incident was changed by someone else', incident: formatIncident(before) });
+    }
+
+    const status = before.status || 'open';
+    if (!['open', 'under_treatment'].includes(status)) {
+      return res.status(400).json({ message: `Cannot refer an incident that is ${status}` });
+    }
+
+    const from = currentCenter(before);
+    if (from.id && from.id.toString() === toCenter._id.toString()) {
+      return res.status(400).json({ message: 'Receiving center must differ from the sending center' });
+    }
+
+    const incident = await MedicalIncident.findOneAndUpdate(
+      versionFilter(before),
+      {
+        $set: { status: 'referred', version: versionOf(before) + 1 },
+        $push: {
+          referrals: {
+            from_center_id: from.id,
+            from_center: from.name,
+            to_center_id: toCenter._id,
+            to_center: toCenter.name,
+            transport_mode: transportMode,
+            handover_notes: handoverNotes || '',
+            referred_by: staffRef(req),
+          },
+          status_history: { status: 'referred', by: staffRef(req), note: `Referred to ${toCenter.name}` },
+        },
+      },
+      { new: true, runValidators: true }
+    ).lean();
+    if (!incident) {
+      return res.status(409).json({ message: 'Incident was changed by someone else' });
+    }
+
+    await recordAudit(req, {
+      action: 'incident.referral',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: [
+        { field: 'status', before: status, after: 'referred' },
+        { field: 'referral.to_center', before: null, after: toCenter.name },
+      ],
+    });
+
+    return res.status(201).json(formatIncident(incident));
+  } catch (error) {
+    console.error('Failed to refer incident', error);
+    return res.status(500).json({ message: 'Failed to refer incident', details: error.message });
+  }
+});
+
+// The receiving center accepts the patient or turns the referral down
+router.post('/:id/referrals/:referralId/respond', requirePermission(PERMISSIONS.INCIDENTS_UPDATE), async (req, res) => {
+  try {
+    const { id, referralId } = req.params;
+    if (!mongoose.isValidObjectId(id) || !mongoose.isValidObjectId(referralId)) {
+      return res.status(404).json({ message: 'Referral not found' });
+    }
+    const { decision, notes } = req.body;
+    if (!['accept', 'reject'].includes(decision)) {
+      return res.status(400).json({ message: 'decision must be accept or reject' });
+    }
+
+    const before = await MedicalIncident.findById(id).lean();
+    const referral = before?.referrals?.find((r) => r._id.toString() === referralId);
+    if (!referral) {
+      return res.status(404).json({ message: 'Referral not found' });
+    }
+    if (referral.status !== 'pending') {
+      return res.status(409).json({ message: `Referral was already ${referral.status}` });
+    }
+    if (req.user.role !== 'admin' && req.user.medical_center_id !== referral.to_center_id.toString()) {
+      return res.status(403).json({ message: `Only staff at ${referral.to_center} can respond to this referral`, code: 'not_receiving_center' });
+    }
+
+    const accepted = decision === 'accept';
+    const now = new Date();
+    // Either way the patient is being treated somewhere: at the receiving center, or still at the sender
+    const incident = await MedicalIncident.findOneAndUpdate(
+      { ...versionFilter(before), referrals: { $elemMatch: { _id: referral._id, status: 'pending' } } },
+      {
+        $set: {
+          status: 'under_treatment',
+          version: versionOf(before) + 1,
+          'referrals.$.status': accepted ? 'accepted' : 'rejected',
+          'referrals.$.responded_at': now,
+          'referrals.$.responded_by': staffRef(req),
+          'referrals.$.response_notes': notes || '',
+        },
+        $push: {
+          status_history: {
+            status: 'under_treatment',
+            at: now,
+            by: staffRef(req),
+            note: accepted ? `Accepted at ${referral.to_center}` : `Referral declined by ${referral.to_center}`,
+          },
+        },
+      },
+      { new: true }
+    ).lean();
+    if (!incident) {
+      return res.status(409).json({ message: 'Incident was changed by someone else; reload and try again' });
+    }
+
+    await recordAudit(req, {
+      action: 'incident.referral',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: [
+        { field: 'status', before: before.status, after: 'under_treatment' },
+        { field: 'referral.status', before: 'pending', after: accepted ? 'accepted' : 'rejected' },
+      ],
+    });
+
+    return res.json(formatIncident(incident));
+  } catch (error) {
+    console.error('Failed to respond to referral', error);
+    return res.status(500).json({ message: 'Failed to respond to referral', details: error.message });
+  }
+});
+
+// A clinician has looked at a prescription flagged when an offline incident synced
+router.post('/:id/prescription-review', requirePermission(PERMISSIONS.INCIDENTS_UPDATE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    const note = typeof req.body.note === 'string' ? req.body.note.trim() : '';
+    if (!note) {
+      return res.status(400).json({ message: 'Say what was done about the prescription' });
+    }
+
+    const before = await MedicalIncident.findById(req.params.id).lean();
+    if (!before) {
+      return res.status(404).json({ message: 'Incident not found' });
+    }
+    if (before.prescription_check?.review?.status !== 'pending') {
+      return res.status(409).json({ message: 'This prescription is not waiting for review' });
+    }
+
+    const incident = await MedicalIncident.findOneAndUpdate(
+      { ...versionFilter(before), 'prescription_check.review.status': 'pending' },
+      {
+        $set: {
+          version: versionOf(before) + 1,
+          'prescription_check.review.status': 'reviewed',
+          'prescription_check.review.reviewed_by': staffRef(req),
+          'prescription_check.review.reviewed_at': new Date(),
+          'prescription_check.review.note': note,
+        },
+      },
+      { new: true }
+    ).lean();
+    if (!incident) {
+      return res.status(409).json({ message: 'Incident was changed by someone else; reload and try again' });
+    }
+
+    await recordAudit(req, {
+      action: 'incident.prescription_review',
+      devoteeId: incident.devotee_id,
+      targetId: incident._id,
+      changes: [{ field: 'prescription_check.review.status', before: 'pending', after: 'reviewed' }],
+    });
+
+    return res.json(formatIncident(incident));
+  } catch (error) {
+    console.error('Failed to record prescription review', error);
+    return res.status(500).json({ message: 'Failed to record prescription review', details: error.message });
+  }
+});
+
+/**
+ * Referral queue for a center.
+ * GET /referrals?direction=inbound|outbound&status=pending|accepted|rejected|all&center_id=
+ * Defaults to pending inbound referrals for the center the staff member is posted at.
+ */
+router.get('/referrals', requirePermission(PERMISSIONS.INCIDENTS_READ), async (req, res) => {
+  try {
+    const { direction = 'inbound', status = 'pending' } = req.query;
+    if (!['inbound', 'outbound'].includes(direction)) {
+      return res.status(400).json({ message: 'direction must be inbound or outbound' });
+    }
+
+    const center = await findCenter(req.query.center_id || req.user.medical_center_id);
+    if (!center) {
+      return res.status(400).json({ message: 'Choose a medical center to see its referrals' });
+    }
+
+    const centerField = direction === 'inbound' ? 'to_center_id' : 'from_center_id';
+    const match = { [centerField]: center._id };
+    if (status !== 'all') match.status = status;
+
+    const incidents = await MedicalIncident.find({ referrals: { $elemMatch: match } })
+      // Only the latest reading is shown in the queue
+      .select({ observations: { $slice: -1 } })
+      .sort({ updated_at: -1 })
+      .limit(200)
+      .lean();
+
+    const devotees = await Devotee.find({ _id: { $in: incidents.map((i) => i.devotee_id) } })
+      .select('full_name age gender registration_number phone')
+      .lean();
+    const devoteeById = new Map(devotees.map((d) => [d._id.toString(), d]));
+
+    const items = incidents.flatMap((incident) => {
+      const devotee = devoteeById.get(incident.devotee_id.toString());
+      return incident.referrals
+        .filter((r) => r[centerField]?.toString() === center._id.toString() && (status === 'all' || r.status === status))
+        .map((referral) => ({
+          referral: formatReferral(referral),
+          incident: formatIncident(incident),
+          devotee: devotee
+            ? { id: devotee._id.toString(), full_name: devotee.full_name, age: devotee.age, gender: devotee.gender, registration_number: devotee.registration_number, phone: devotee.phone }
+            : null,
+        }));
+    });
+    items.sort((a, b) => new Date(b.referral.referred_at) - new Date(a.referral.referred_at));
+
+    return res.json({ center: { id: center._id.toString(), name: center.name }, direction, status, items });
+  } catch (error) {
+    console.error('Failed to fetch referrals', error);
+    return res.status(500).json({ message: 'Failed to fetch referrals', details: error.message });
+  }
+});
+
+router.get('/', requirePermission(PERMISSIONS.INCIDENTS_READ), async (req, res) => {
   try {
     const { devoteeId } = req.query;
     if (!devoteeId) {
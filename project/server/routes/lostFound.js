@@ -1,21 +1,107 @@
 import express from 'express';
-import { LostPerson } from '../models/LostPerson.js';
+import mongoose from 'mongoose';
+import { LostPerson, VERIFICATION_METHODS } from '../models/LostPerson.js';
+import { Devotee } from '../models/Devotee.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { indexFace, searchFaces, updateFaceMeta } from '../utils/faceIndex.js';
+import { publish } from '../utils/events.js';
+import { findGroupOf } from '../utils/groups.js';
+import { photoRefFrom } from '../utils/media.js';
+import { resolveDevoteeId } from '../utils/merges.js';
+import { staffRef } from '../utils/staff.js';
 
 const router = express.Router();
 
-// Helper: Calculate Euclidean distance between two vectors
-function euclideanDistance(descriptor1, descriptor2) {
-    if (descriptor1.length !== descriptor2.length) return 1.0;
-    return Math.sqrt(
-        descriptor1
-            .map((val, i) => Math.pow(val - descriptor2[i], 2))
-            .reduce((sum, sq) => sum + sq, 0)
-    );
+const OPEN_STATUSES = ['missing', 'found'];
+// A missing child is raised as a critical alert on every lost & found desk
+const CHILD_AGE = 12;
+const COUNTERPART = { missing: 'found', found: 'missing' };
+const LINKED_FIELDS = 'name age gender photo_url status contact_info last_seen_location current_location created_at';
+// Stricter than the default match threshold, and still only a suggestion for the desk to confirm
+const REGISTERED_MATCH_THRESHOLD = 0.45;
+// What the desk sees of a suggested registration to compare faces: no phones or group until confirmed
+const SUGGESTION_FIELDS = 'registration_number full_name age gender photo_url';
+
+function hoursSince(date, now = Date.now()) {
+    return Math.round(((now - new Date(date).getTime()) / 3600000) * 10) / 10;
+}
+
+function median(values) {
+    if (!values.length) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Runs fn(session) in a transaction. fn returns { status, body } to send and
+// optionally afterCommit, for side effects that must only happen once saved.
+async function withCaseTransaction(res, label, fn) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+        const result = await fn(session);
+        if (result.status >= 400) {
+            await session.abortTransaction();
+        } else {
+            await session.commitTransaction();
+            result.afterCommit?.();
+        }
+        session.endSession();
+        return res.status(result.status).json(result.body);
+    } catch (error) {
+        await session.abortTransaction();
+        session.endSession();
+        console.error(`${label} Error:`, error);
+        return res.status(500).json({ error: `Failed to ${label.toLowerCase()} case: ${error.message}` });
+    }
+}
+
+// Tell the desks about a new report, and about any open counterpart report the face matches
+function announceReport(person) {
+    const summary = (p) => ({ id: p._id.toString(), name: p.name, age: p.age, gender: p.gender, status: p.status });
+    publish('lost_person.reported', summary(person), {
+        critical: person.status === 'missing' && person.age != null && person.age < CHILD_AGE,
+    });
+
+    const hits = searchFaces('lostPersons', Array.from(person.face_descriptor), {
+        filter: (meta) => meta.status === COUNTERPART[person.status],
+    });
+    if (!hits.length) return;
+    LostPerson.find({ _id: { $in: hits.map((hit) => hit.id) } }, 'name age gender status')
+        .lean()
+        .then((candidates) => {
+            const byId = new Map(candidates.map((c) => [c._id.toString(), c]));
+            const matches = hits
+                .filter((hit) => byId.has(hit.id))
+                .map((hit) => ({ ...summary(byId.get(hit.id)), distance: hit.distance }));
+            if (matches.length) publish('face.match', { report: summary(person), matches }, { critical: true });
+        })
+        .catch((error) => console.error('Failed to announce face match', error));
+}
+
+// The registration whose photo is closest to a reported face, as a suggestion for the desk to confirm
+function suggestDevotee(descriptor) {
+    const [hit] = searchFaces('devotees', descriptor, { topK: 1, threshold: REGISTERED_MATCH_THRESHOLD });
+    return hit ? { devotee_id: hit.id, similarity: Math.max(0, 1 - hit.distance), suggested_at: new Date() } : undefined;
+}
+
+// The report as the desk sees it: the group once the devotee is confirmed, else the suggested registration to compare
+async function withDevotee(person) {
+    const body = { ...person.toObject(), group: await findGroupOf(person.devotee_id) };
+    const suggestion = person.devotee_suggestion;
+    if (!person.devotee_id && suggestion?.devotee_id) {
+        const devotee = await Devotee.findById(await resolveDevoteeId(suggestion.devotee_id), SUGGESTION_FIELDS).lean();
+        body.suggested_devotee = devotee
+            ? { ...devotee, id: devotee._id.toString(), _id: undefined, similarity: suggestion.similarity }
+            : null;
+    }
+    return body;
 }
 
 // POST /api/lost-found/report
 // Register a new missing or found person
-router.post('/report', async (req, res) => {
+router.post('/report', requirePermission(PERMISSIONS.LOST_FOUND_REPORT), async (req, res) => {
     try {
         const {
             name,
@@ -26,27 +112,40 @@ router.post('/report', async (req, res) => {
             status, // 'missing' or 'found'
             contact_info,
             last_seen_location,
-            current_location
+            current_location,
+            devotee_id
         } = req.body;
 
         if (!face_descriptor || face_descriptor.length !== 128) {
             return res.status(400).json({ error: 'Valid face descriptor required (128 values)' });
         }
 
+        const photo = await photoRefFrom(photo_url, { uploadedBy: staffRef(req) });
+        if (photo.error) {
+            return res.status(photo.status).json({ error: photo.error });
+        }
+
+        const descriptor = Object.values(face_descriptor); // Ensure array
         const person = new LostPerson({
             name,
             age,
             gender: gender ? gender.charAt(0).toUpperCase() + gender.slice(1).toLowerCase() : 'Unknown',
-            photo_url,
-            face_descriptor: Object.values(face_descriptor), // Ensure array
+            photo_url: photo.ref,
+            face_descriptor: descriptor,
             status,
             contact_info,
             last_seen_location,
-            current_location
+            current_location,
+            // Only a registration the desk picked itself is linked straight away
+            devotee_id: mongoose.isValidObjectId(devotee_id) ? devotee_id : null,
+            devotee_suggestion: mongoose.isValidObjectId(devotee_id) ? undefined : suggestDevotee(descriptor),
+            case_events: [{ event: 'reported', by: staffRef(req) }]
         });
 
         await person.save();
-        res.status(201).json(person);
+        indexFace('lostPersons', person);
+        announceReport(person);
+        res.status(201).json(await withDevotee(person));
     } catch (error) {
         console.error('Report Error:', error);
         res.status(500).json({ error: `Failed to report person: ${error.message}` });
@@ -55,9 +154,9 @@ router.post('/report', async (req, res) => {
 
 // POST /api/lost-found/match
 // Find matching faces in the database
-router.post('/match', async (req, res) => {
+router.post('/match', requirePermission(PERMISSIONS.LOST_FOUND_READ), async (req, res) => {
     try {
-        const { face_descriptor, status_filter } = req.body;
+        const { face_descriptor, status_filter, topK = 5, threshold } = req.body;
         // If we are reporting a 'found' person, we want to look for 'missing' people (status_filter='missing')
         // If we are looking for a 'missing' person, we might check 'found' people (status_filter='found')
 
@@ -66,24 +165,22 @@ router.post('/match', async (req, res) => {
         }
 
         const targetDescriptor = Object.values(face_descriptor);
-        const threshold = 0.6; // face-api.js default threshold for 128D vectors
-
-        // Fetch candidates (optimize by date/location in prod, but fetch all for now)
-        const query = status_filter ? { status: status_filter } : { status: { $ne: 'reunited' } };
-        const candidates = await LostPerson.find(query);
-
-        const matches = candidates
-            .map(person => {
-                const distance = euclideanDistance(targetDescriptor, person.face_descriptor);
-                return {
-                    person,
-                    distance,
-                    similarity: Math.max(0, 1 - distance) // Rough similarity score
-                };
-            })
-            .filter(match => match.distance < threshold)
-            .sort((a, b) => a.distance - b.distance) // Closest first
-            .slice(0, 5); // Top 5
+        const hits = searchFaces('lostPersons', targetDescriptor, {
+            topK,
+            threshold,
+            filter: (meta) => (status_filter ? meta.status === status_filter : meta.status !== 'reunited'),
+        });
+
+        const people = await LostPerson.find({ _id: { $in: hits.map((h) => h.id) } });
+        const peopleMap = new Map(people.map((p) => [p._id.toString(), p]));
+
+        const matches = hits
+            .filter((hit) => peopleMap.has(hit.id))
+            .map((hit) => ({
+                person: peopleMap.get(hit.id),
+                distance: hit.distance,
+                similarity: Math.max(0, 1 - hit.distance) // Rough similarity score
+            }));
 
         res.json({ matches });
     } catch (error) {
@@ -94,7 +191,7 @@ router.post('/match', async (req, res) => {
 
 // GET /api/lost-found/list
 // Get recent reports
-router.get('/list', async (req, res) => {
+router.get('/list', requirePermission(PERMISSIONS.LOST_FOUND_READ), async (req, res) => {
     try {
         const { status } = req.query;
         const query = status ? { status } : {};
@@ -110,4 +207,255 @@ router.get('/list', async (req, res) => {
     }
 });
 
+// GET /api/lost-found/cases
+// Open cases (oldest first, with how long each has been open) and recent reunifications
+router.get('/cases', requirePermission(PERMISSIONS.LOST_FOUND_READ), async (req, res) => {
+    try {
+        const historyLimit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+        const now = Date.now();
+
+        const [open, reunited] = await Promise.all([
+            LostPerson.find({ status: { $in: OPEN_STATUSES } })
+                .sort({ created_at: 1 })
+                .select('-face_descriptor')
+                .populate('linked_report', LINKED_FIELDS)
+                .lean(),
+            // Both linked reports close together; fetch enough to keep one entry per pair
+            LostPerson.find({ status: 'reunited' })
+                .sort({ 'handover.handed_over_at': -1 })
+                .limit(historyLimit * 2)
+                .select('-face_descriptor')
+                .populate('linked_report', LINKED_FIELDS)
+                .lean()
+        ]);
+
+        const history = [];
+        const seen = new Set();
+        reunited.forEach((person) => {
+            const pairKey = [person._id.toString(), person.linked_report?._id?.toString()].sort().join(':');
+            if (seen.has(pairKey) || history.length >= historyLimit) return;
+            seen.add(pairKey);
+            // Time to reunite runs from whichever report came in first
+            const openedAt = Math.min(
+                new Date(person.created_at).getTime(),
+                new Date(person.linked_report?.created_at ?? person.created_at).getTime()
+            );
+            history.push({
+                ...person,
+                hours_to_reunite: person.handover?.handed_over_at
+                    ? hoursSince(openedAt, new Date(person.handover.handed_over_at).getTime())
+                    : null
+            });
+        });
+
+        const dayAgo = now - 24 * 3600000;
+        res.json({
+            open: open.map((person) => ({ ...person, age_hours: hoursSince(person.created_at, now) })),
+            history,
+            summary: {
+                open: open.length,
+                missing: open.filter((p) => p.status === 'missing').length,
+                found: open.filter((p) => p.status === 'found').length,
+                // Linked pairs, counted once from the missing side
+                awaiting_handover: open.filter((p) => p.status === 'missing' && p.linked_report).length,
+                reunited_24h: history.filter((p) => new Date(p.handover?.handed_over_at).getTime() >= dayAgo).length,
+                median_hours_to_reunite: median(history.map((p) => p.hours_to_reunite).filter((h) => h !== null))
+            }
+        });
+    } catch (error) {
+        console.error('Cases Error:', error);
+        res.status(500).json({ error: 'Failed to fetch cases' });
+    }
+});
+
+// GET /api/lost-found/:id
+// A single case with its linked counterpart and event history
+router.get('/:id', requirePermission(PERMISSIONS.LOST_FOUND_READ), async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ error: 'Invalid case id' });
+        }
+
+        const person = await LostPerson.findById(req.params.id)
+            .select('-face_descriptor')
+            .populate('linked_report', LINKED_FIELDS);
+
+        if (!person) {
+            return res.status(404).json({ error: 'Case not found' });
+        }
+
+        res.json(await withDevotee(person));
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch case' });
+    }
+});
+
+// POST /api/lost-found/:id/devotee { confirm, note }
+// The desk has compared the suggested registration with the person: link it (and see their group) or dismiss it
+router.post('/:id/devotee', requirePermission(PERMISSIONS.LOST_FOUND_REPORT), async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ error: 'Invalid case id' });
+        }
+        if (typeof req.body.confirm !== 'boolean') {
+            return res.status(400).json({ error: 'confirm must be true or false' });
+        }
+
+        const pending = { _id: req.params.id, devotee_id: null, 'devotee_suggestion.devotee_id': { $ne: null } };
+        const current = await LostPerson.findOne(pending, 'devotee_suggestion').lean();
+        if (!current) {
+            return res.status(409).json({ error: 'This report has no registration waiting to be confirmed' });
+        }
+
+        const event = { event: req.body.confirm ? 'devotee_confirmed' : 'devotee_dismissed', by: staffRef(req), note: req.body.note };
+        const update = req.body.confirm
+            ? { $set: { devotee_id: await resolveDevoteeId(current.devotee_suggestion.devotee_id.toString()) }, $unset: { devotee_suggestion: 1 } }
+            : { $unset: { devotee_suggestion: 1 } };
+        const person = await LostPerson.findOneAndUpdate(pending, { ...update, $push: { case_events: event } }, { new: true })
+            .select('-face_descriptor');
+        if (!person) {
+            return res.status(409).json({ error: 'Another desk answered this suggestion first' });
+        }
+
+        res.json(await withDevotee(person));
+    } catch (error) {
+        console.error('Confirm devotee error:', error);
+        res.status(500).json({ error: 'Failed to update the report' });
+    }
+});
+
+// POST /api/lost-found/:id/link
+// Confirm a match between a missing report and a found report
+router.post('/:id/link', requirePermission(PERMISSIONS.LOST_FOUND_RESOLVE), async (req, res) => {
+    const { linked_report_id, verification_method, similarity, notes } = req.body;
+
+    if (!mongoose.isValidObjectId(req.params.id) || !mongoose.isValidObjectId(linked_report_id)) {
+        return res.status(400).json({ error: 'Both report ids are required' });
+    }
+    if (req.params.id === String(linked_report_id)) {
+        return res.status(400).json({ error: 'A report cannot be linked to itself' });
+    }
+    if (!VERIFICATION_METHODS.includes(verification_method)) {
+        return res.status(400).json({ error: `verification_method must be one of: ${VERIFICATION_METHODS.join(', ')}` });
+    }
+
+    return withCaseTransaction(res, 'Link', async (session) => {
+        // One operation at a time: a session can't run several at once
+        const person = await LostPerson.findById(req.params.id).session(session);
+        const other = await LostPerson.findById(linked_report_id).session(session);
+
+        if (!person || !other) {
+            return { status: 404, body: { error: 'Case not found' } };
+        }
+        if ([person.status, other.status].sort().join() !== 'found,missing') {
+            return { status: 409, body: { error: 'Only an open missing report and an open found report can be linked' } };
+        }
+        if (person.linked_report || other.linked_report) {
+            return { status: 409, body: { error: 'One of these reports is already linked to another case' } };
+        }
+
+        const now = new Date();
+        const confirmation = {
+            confirmed_by: staffRef(req),
+            confirmed_at: now,
+            verification_method,
+            similarity: typeof similarity === 'number' ? similarity : undefined,
+            notes
+        };
+
+        for (const [doc, counterpart] of [[person, other], [other, person]]) {
+            doc.linked_report = counterpart._id;
+            doc.match_confirmation = confirmation;
+            doc.case_events.push({ event: 'linked', at: now, by: staffRef(req), note: notes });
+            await doc.save({ session });
+        }
+
+        await person.populate('linked_report', LINKED_FIELDS);
+        return { status: 200, body: person };
+    });
+});
+
+// POST /api/lost-found/:id/unlink
+// Undo a mistaken match before handover; both reports go back to open
+router.post('/:id/unlink', requirePermission(PERMISSIONS.LOST_FOUND_RESOLVE), async (req, res) => {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(400).json({ error: 'Invalid case id' });
+    }
+
+    return withCaseTransaction(res, 'Unlink', async (session) => {
+        const person = await LostPerson.findById(req.params.id).session(session);
+        if (!person) {
+            return { status: 404, body: { error: 'Case not found' } };
+        }
+        if (!person.linked_report || person.status === 'reunited') {
+            return { status: 409, body: { error: 'Only a linked case that has not been handed over can be unlinked' } };
+        }
+
+        const other = await LostPerson.findById(person.linked_report).session(session);
+        const now = new Date();
+        for (const doc of [person, other].filter(Boolean)) {
+            doc.linked_report = null;
+            doc.match_confirmation = undefined;
+            doc.case_events.push({ event: 'unlinked', at: now, by: staffRef(req), note: req.body.note });
+            await doc.save({ session });
+        }
+
+        return { status: 200, body: person };
+    });
+});
+
+// POST /api/lost-found/:id/reunite
+// Hand the person over to their guardian and close both linked reports
+router.post('/:id/reunite', requirePermission(PERMISSIONS.LOST_FOUND_RESOLVE), async (req, res) => {
+    const { guardian_name, guardian_phone, relationship, id_proof_type, id_proof_number, desk, notes } = req.body;
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(400).json({ error: 'Invalid case id' });
+    }
+    if (!guardian_name || !id_proof_type || !id_proof_number) {
+        return res.status(400).json({ error: 'Guardian name and ID proof are required for handover' });
+    }
+
+    return withCaseTransaction(res, 'Reunite', async (session) => {
+        const person = await LostPerson.findById(req.params.id).session(session);
+        if (!person) {
+            return { status: 404, body: { error: 'Case not found' } };
+        }
+        if (person.status === 'reunited') {
+            return { status: 409, body: { error: 'Case is already closed' } };
+        }
+        if (!person.linked_report) {
+            return { status: 409, body: { error: 'Confirm a match with the counterpart report before handover' } };
+        }
+
+        const other = await LostPerson.findById(person.linked_report).session(session);
+        const now = new Date();
+        const handover = {
+            guardian_name,
+            guardian_phone,
+            relationship,
+            id_proof_type,
+            id_proof_number,
+            desk: desk || req.user.medical_center,
+            handed_over_at: now,
+            handed_over_by: staffRef(req),
+            notes
+        };
+
+        for (const doc of [person, other].filter(Boolean)) {
+            doc.status = 'reunited';
+            doc.handover = handover;
+            doc.case_events.push({ event: 'reunited', at: now, by: staffRef(req), note: notes });
+            await doc.save({ session });
+        }
+
+        return {
+            status: 200,
+            body: person,
+            // Reunited faces drop out of the default /match candidates
+            afterCommit: () => [person, other].filter(Boolean).forEach((doc) => updateFaceMeta('lostPersons', doc._id, { status: 'reunited' }))
+        };
+    });
+});
+
 export const lostFoundRouter = router;
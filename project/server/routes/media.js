@@ -0,0 +1,82 @@
+import express from 'express';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { findVariant, mediaBaseUrl, signedMediaUrl, storeImage, verifyMediaSignature, MEDIA_REF_PREFIX } from '../utils/media.js';
+import { uploaderRef } from '../utils/staff.js';
+
+// Photos are sent as the raw image body rather than a base64 string in JSON
+const MAX_UPLOAD = '10mb';
+// A presigned bucket link only needs to outlive the redirect
+const PRESIGN_TTL = 5 * 60;
+
+// GET /api/media/files/:id/:variant?expires=&signature= - the image itself.
+// Mounted before requireAuth: <img> tags can't send a token, the signature stands in for it.
+export const mediaFilesRouter = express.Router();
+
+mediaFilesRouter.get('/:id/:variant', async (req, res) => {
+  const { id, variant } = req.params;
+  if (!verifyMediaSignature(id, variant, req.query.expires, req.query.signature)) {
+    return res.status(403).json({ message: 'Link is invalid or has expired' });
+  }
+
+  try {
+    const found = await findVariant(id, variant);
+    if (!found) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+
+    const maxAge = Math.max(0, Number(req.query.expires) - Math.floor(Date.now() / 1000));
+    const presigned = await found.backend.presign(found.variant.key, PRESIGN_TTL);
+    if (presigned) {
+      return res.redirect(302, presigned);
+    }
+
+    const stream = await found.backend.open(found.variant.key);
+    stream.on('error', (error) => {
+      console.error('Failed to read photo', error);
+      if (!res.headersSent) res.status(404).json({ message: 'Photo not found' });
+      else res.destroy(error);
+    });
+    res.setHeader('Content-Type', found.variant.content_type);
+    // Files never change under an id, so the browser may keep them as long as the link is valid
+    res.setHeader('Cache-Control', `private, max-age=${maxAge}, immutable`);
+    return stream.pipe(res);
+  } catch (error) {
+    console.error('Failed to serve photo', error);
+    return res.status(500).json({ message: 'Failed to serve photo', details: error.message });
+  }
+});
+
+export const mediaRouter = express.Router();
+
+// POST /api/media - upload a photo; returns the ref to save as photo_url and signed links to show it
+mediaRouter.post(
+  '/',
+  requirePermission(PERMISSIONS.DEVOTEES_CREATE, PERMISSIONS.DEVOTEES_UPDATE, PERMISSIONS.LOST_FOUND_REPORT),
+  express.raw({ type: 'image/*', limit: MAX_UPLOAD }),
+  async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || !req.body.length) {
+        return res.status(400).json({ message: 'Send the photo as an image/* request body' });
+      }
+
+      const { media, error, status } = await storeImage(req.body, { uploadedBy: uploaderRef(req), source: 'upload' });
+      if (error) {
+        return res.status(status).json({ message: error });
+      }
+
+      const id = media._id.toString();
+      const baseUrl = mediaBaseUrl(req);
+      return res.status(201).json({
+        id,
+        ref: `${MEDIA_REF_PREFIX}${id}`,
+        variants: media.variants.map(({ name, content_type, width, height, size }) => ({ name, content_type, width, height, size })),
+        photo_url: signedMediaUrl(baseUrl, id, 'display'),
+        photo_thumb_url: signedMediaUrl(baseUrl, id, 'thumb'),
+      });
+    } catch (error) {
+      console.error('Failed to store photo', error);
+      return res.status(500).json({ message: 'Failed to store photo', details: error.message });
+    }
+  }
+);
@@ -0,0 +1,167 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { MedicalCenter, CENTER_TYPES } from '../models/MedicalCenter.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+
+const router = express.Router();
+
+// Flatten GeoJSON so clients deal in plain latitude/longitude
+const formatCenter = (center) => ({
+  ...center,
+  id: center._id.toString(),
+  latitude: center.location?.coordinates?.[1] ?? null,
+  longitude: center.location?.coordinates?.[0] ?? null,
+  location: undefined,
+  _id: undefined,
+  __v: undefined,
+});
+
+// Builds a $set update from the request body, or returns { error }
+function centerUpdate(body, { partial }) {
+  const update = {};
+
+  ['name', 'sector', 'active'].forEach((field) => {
+    if (body[field] !== undefined) update[field] = body[field];
+  });
+
+  if (body.type !== undefined) {
+    if (!CENTER_TYPES.includes(body.type)) {
+      return { error: `type must be one of: ${CENTER_TYPES.join(', ')}` };
+    }
+    update.type = body.type;
+  }
+
+  if (body.latitude !== undefined || body.longitude !== undefined || !partial) {
+    const latitude = Number(body.latitude);
+    const longitude = Number(body.longitude);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      return { error: 'latitude and longitude are required numbers' };
+    }
+    update.location = { type: 'Point', coordinates: [longitude, latitude] };
+  }
+
+  // Nested groups are merged field by field so a PATCH can change one value
+  [['capacity', ['beds', 'ambulances']], ['contact', ['person', 'phone']], ['operating_hours', ['always_open', 'opens', 'closes']]]
+    .forEach(([group, fields]) => {
+      fields.forEach((field) => {
+        if (body[group]?.[field] !== undefined) update[`${group}.${field}`] = body[group][field];
+      });
+    });
+
+  return { update };
+}
+
+// GET /api/medical-centers?type=&sector=&includeInactive=true
+router.get('/', requirePermission(PERMISSIONS.CENTERS_READ), async (req, res) => {
+  try {
+    const { type, sector, includeInactive } = req.query;
+    const filter = {};
+    if (type) filter.type = type;
+    if (sector) filter.sector = sector;
+    if (includeInactive !== 'true') filter.active = true;
+
+    const centers = await MedicalCenter.find(filter).sort({ type: 1, name: 1 }).lean();
+    return res.json(centers.map(formatCenter));
+  } catch (error) {
+    console.error('Failed to list medical centers', error);
+    return res.status(500).json({ message: 'Failed to list medical centers', details: error.message });
+  }
+});
+
+router.get('/:id', requirePermission(PERMISSIONS.CENTERS_READ), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid medical center id' });
+    }
+
+    const center = await MedicalCenter.findById(req.params.id).lean();
+    if (!center) {
+      return res.status(404).json({ message: 'Medical center not found' });
+    }
+    return res.json(formatCenter(center));
+  } catch (error) {
+    console.error('Failed to fetch medical center', error);
+    return res.status(500).json({ message: 'Failed to fetch medical center', details: error.message });
+  }
+});
+
+router.post('/', requirePermission(PERMISSIONS.CENTERS_MANAGE), async (req, res) => {
+  try {
+    const { update, error } = centerUpdate(req.body, { partial: false });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const center = new MedicalCenter();
+    center.set(update);
+    await center.save();
+    return res.status(201).json(formatCenter(center.toObject()));
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ message: 'A medical center with this name already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Failed to create medical center', error);
+    return res.status(500).json({ message: 'Failed to create medical center', details: error.message });
+  }
+});
+
+router.patch('/:id', requirePermission(PERMISSIONS.CENTERS_MANAGE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid medical center id' });
+    }
+
+    const { update, error } = centerUpdate(req.body, { partial: true });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const center = await MedicalCenter.findByIdAndUpdate(req.params.id, { $set: update }, { new: true, runValidators: true }).lean();
+    if (!center) {
+      return res.status(404).json({ message: 'Medical center not found' });
+    }
+
+    // Keep the denormalised name on incidents in step with a rename
+    if (update.name) {
+      await MedicalIncident.updateMany({ medical_center_id: center._id }, { $set: { medical_center: center.name } });
+    }
+
+    return res.json(formatCenter(center));
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ message: 'A medical center with this name already exists' });
+    }
+    console.error('Failed to update medical center', error);
+    return res.status(500).json({ message: 'Failed to update medical center', details: error.message });
+  }
+});
+
+// Centers with recorded incidents are kept for history; deactivate them instead
+router.delete('/:id', requirePermission(PERMISSIONS.CENTERS_MANAGE), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid medical center id' });
+    }
+
+    const inUse = await MedicalIncident.exists({ medical_center_id: req.params.id });
+    if (inUse) {
+      return res.status(409).json({ message: 'This center has recorded incidents. Mark it inactive instead of deleting it.' });
+    }
+
+    const center = await MedicalCenter.findByIdAndDelete(req.params.id).lean();
+    if (!center) {
+      return res.status(404).json({ message: 'Medical center not found' });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Failed to delete medical center', error);
+    return res.status(500).json({ message: 'Failed to delete medical center', details: error.message });
+  }
+});
+
+export const medicalCentersRouter = router;
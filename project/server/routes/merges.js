@@ -0,0 +1,94 @@
+import express from 'express';
+import { Devotee } from '../models/Devotee.js';
+import { DevoteeMerge } from '../models/DevoteeMerge.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { mergeDevotees, revertMerge } from '../utils/merges.js';
+
+const router = express.Router();
+
+router.use(requirePermission(PERMISSIONS.DEVOTEES_MERGE));
+
+const DEVOTEE_SUMMARY_FIELDS = 'registration_number full_name age gender phone photo_url';
+
+const summarizeDevotee = (devotee) => devotee && ({
+  id: devotee._id.toString(),
+  registration_number: devotee.registration_number,
+  full_name: devotee.full_name,
+  age: devotee.age,
+  gender: devotee.gender,
+  phone: devotee.phone,
+  photo_url: devotee.photo_url || null,
+});
+
+// The snapshots needed for undo stay on the server
+const formatMerge = (merge, survivor) => ({
+  id: merge._id.toString(),
+  status: merge.status,
+  reason: merge.reason,
+  survivor: summarizeDevotee(survivor) || { id: merge.survivor_id.toString() },
+  retired: summarizeDevotee(merge.retired_devotee),
+  incidents_moved: merge.incident_ids.length,
+  record_repointed: merge.record_repointed,
+  merged_by: merge.merged_by,
+  merged_at: merge.merged_at,
+  reverted_by: merge.reverted_by || null,
+  reverted_at: merge.reverted_at || null,
+});
+
+// GET /api/merges - recent merges, newest first
+// Query: status? ('merged' | 'reverted'), limit?
+router.get('/', async (req, res) => {
+  try {
+    const filter = req.query.status ? { status: String(req.query.status) } : {};
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+
+    const merges = await DevoteeMerge.find(filter).sort({ merged_at: -1 }).limit(limit).lean();
+    const survivors = await Devotee.find({ _id: { $in: merges.map((m) => m.survivor_id) } }, DEVOTEE_SUMMARY_FIELDS).lean();
+    const byId = new Map(survivors.map((d) => [d._id.toString(), d]));
+
+    return res.json(merges.map((merge) => formatMerge(merge, byId.get(merge.survivor_id.toString()))));
+  } catch (error) {
+    console.error('Failed to list merges', error);
+    return res.status(500).json({ message: 'Failed to list merges', details: error.message });
+  }
+});
+
+// POST /api/merges - fold a duplicate into the record that is kept
+// Body: { survivor_id, retired_id, reason? }
+router.post('/', async (req, res) => {
+  try {
+    const result = await mergeDevotees(req, {
+      survivorId: req.body.survivor_id,
+      retiredId: req.body.retired_id,
+      reason: req.body.reason || '',
+    });
+    if (result.error) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    const survivor = await Devotee.findById(result.merge.survivor_id, DEVOTEE_SUMMARY_FIELDS).lean();
+    return res.status(201).json(formatMerge(result.merge.toObject(), survivor));
+  } catch (error) {
+    console.error('Failed to merge devotees', error);
+    return res.status(500).json({ message: 'Failed to merge devotees', details: error.message });
+  }
+});
+
+// POST /api/merges/:id/revert - undo a merge and restore the duplicate as its own record
+router.post('/:id/revert', async (req, res) => {
+  try {
+    const result = await revertMerge(req, req.params.id);
+    if (result.error) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    const survivor = await Devotee.findById(result.merge.survivor_id, DEVOTEE_SUMMARY_FIELDS).lean();
+    return res.json(formatMerge(result.merge.toObject(), survivor));
+  } catch (error) {
+    console.error('Failed to undo merge', error);
+    return res.status(500).json({ message: 'Failed to undo merge', details: error.message });
+  }
+});
+
+export const mergesRouter = router;
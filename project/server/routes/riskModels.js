@@ -0,0 +1,178 @@
+import express from 'express';
+import { RiskModel } from '../models/RiskModel.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { incidentSettings, parseRiskConfig } from '../utils/riskScoring.js';
+import { activateRiskModel, getActiveRiskModel } from '../utils/riskModels.js';
+import { previewRiskConfig, recomputeAllRiskAssessments } from '../utils/riskAssessments.js';
+import { staffRef } from '../utils/staff.js';
+
+const router = express.Router();
+
+router.use(requirePermission(PERMISSIONS.RISK_MODELS_MANAGE));
+
+// Older models are shown with the incident settings they are scored with
+const formatModel = (model) => ({
+  ...model,
+  config: { ...model.config, incidents: incidentSettings(model.config) },
+  incidents_default: !model.config.incidents?.window_hours,
+  id: model._id.toString(),
+  _id: undefined,
+  __v: undefined,
+});
+
+const parseVersion = (value) => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+// GET /api/risk-models - every version, newest first
+router.get('/', async (req, res) => {
+  try {
+    const models = await RiskModel.find().sort({ version: -1 }).lean();
+    return res.json(models.map(formatModel));
+  } catch (error) {
+    console.error('Failed to fetch risk models', error);
+    return res.status(500).json({ message: 'Failed to fetch risk models', details: error.message });
+  }
+});
+
+/**
+ * POST /api/risk-models { name, notes, config?, based_on? }
+ * New draft. Without a config it starts as a copy of `based_on` or of the active model.
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { name, notes, based_on: basedOn } = req.body;
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'name is required' });
+    }
+
+    let source;
+    if (basedOn !== undefined) {
+      source = await RiskModel.findOne({ version: parseVersion(basedOn) }).lean();
+      if (!source) {
+        return res.status(400).json({ message: `Risk model version ${basedOn} not found` });
+      }
+    } else {
+      source = await getActiveRiskModel();
+    }
+
+    const { config, error } = parseRiskConfig(req.body.config ?? source.config);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const latest = await RiskModel.findOne().sort({ version: -1 }).select('version').lean();
+    const model = await RiskModel.create({
+      version: (latest?.version || 0) + 1,
+      name,
+      notes: notes || '',
+      status: 'draft',
+      config,
+      based_on: source.version ?? undefined,
+      created_by: staffRef(req),
+    });
+    return res.status(201).json(formatModel(model.toObject()));
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ message: 'Another draft was saved at the same time; try again' });
+    }
+    console.error('Failed to create risk model', error);
+    return res.status(500).json({ message: 'Failed to create risk model', details: error.message });
+  }
+});
+
+/**
+ * POST /api/risk-models/preview { config, sample_size? }
+ * What-if: how a sample of devotees would be scored by an (unsaved) draft config
+ * compared with the active model.
+ */
+router.post('/preview', async (req, res) => {
+  try {
+    const { config, error } = parseRiskConfig(req.body.config);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    return res.json(await previewRiskConfig(config, Number(req.body.sample_size) || undefined));
+  } catch (error) {
+    console.error('Failed to preview risk model', error);
+    return res.status(500).json({ message: 'Failed to preview risk model', details: error.message });
+  }
+});
+
+// PUT /api/risk-models/:version { name?, notes?, config? } - drafts only
+router.put('/:version', async (req, res) => {
+  try {
+    const model = await RiskModel.findOne({ version: parseVersion(req.params.version) });
+    if (!model) {
+      return res.status(404).json({ message: 'Risk model not found' });
+    }
+    if (model.status !== 'draft') {
+      return res.status(409).json({ message: `Version ${model.version} is ${model.status} and can no longer be edited; save a new draft instead` });
+    }
+
+    const { name, notes } = req.body;
+    if (name !== undefined) {
+      if (!String(name).trim()) return res.status(400).json({ message: 'name is required' });
+      model.name = name;
+    }
+    if (notes !== undefined) model.notes = notes;
+    if (req.body.config !== undefined) {
+      const { config, error } = parseRiskConfig(req.body.config);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      model.config = config;
+    }
+
+    await model.save();
+    return res.json(formatModel(model.toObject()));
+  } catch (error) {
+    console.error('Failed to update risk model', error);
+    return res.status(500).json({ message: 'Failed to update risk model', details: error.message });
+  }
+});
+
+// DELETE /api/risk-models/:version - discard a draft
+router.delete('/:version', async (req, res) => {
+  try {
+    const model = await RiskModel.findOne({ version: parseVersion(req.params.version) }).select('status').lean();
+    if (!model) {
+      return res.status(404).json({ message: 'Risk model not found' });
+    }
+    if (model.status !== 'draft') {
+      return res.status(409).json({ message: 'Only drafts can be discarded' });
+    }
+    await RiskModel.deleteOne({ _id: model._id });
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Failed to delete risk model', error);
+    return res.status(500).json({ message: 'Failed to delete risk model', details: error.message });
+  }
+});
+
+/**
+ * POST /api/risk-models/:version/activate
+ * Every devotee is rescored with the new model in the background.
+ */
+router.post('/:version/activate', async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    const { model, error, status } = await activateRiskModel(version, staffRef(req));
+    if (error) {
+      return res.status(status).json({ message: error });
+    }
+
+    recomputeAllRiskAssessments()
+      .then((scored) => console.log(`Rescored ${scored} devotees with risk model v${version}`))
+      .catch((err) => console.error('Failed to rescore with the new risk model', err));
+
+    return res.json(formatModel(model.toObject()));
+  } catch (error) {
+    console.error('Failed to activate risk model', error);
+    return res.status(500).json({ message: 'Failed to activate risk model', details: error.message });
+  }
+});
+
+export const riskModelsRouter = router;
@@ -0,0 +1,162 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { Devotee } from '../models/Devotee.js';
+import { ALERT_STATUSES, SURVEILLANCE_SCOPES, SurveillanceAlert } from '../models/SurveillanceAlert.js';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { SYNDROMES } from '../utils/syndromes.js';
+import { BIN_HOURS, DEFAULT_BIN_HOURS, computeSignals, placeFilter } from '../utils/surveillance.js';
+import { staffRef } from '../utils/staff.js';
+
+const router = express.Router();
+
+router.use(requirePermission(PERMISSIONS.ANALYTICS_READ));
+
+const MAX_DRILL_DOWN = 200;
+
+const formatAlert = (alert) => ({
+  ...alert,
+  id: alert._id.toString(),
+  _id: undefined,
+  __v: undefined,
+});
+
+const parseBinHours = (value) => {
+  const binHours = value === undefined ? DEFAULT_BIN_HOURS : Number(value);
+  return BIN_HOURS.includes(binHours) ? binHours : null;
+};
+
+/**
+ * GET /api/surveillance/signals?scope=center|sector&bin_hours=6
+ * Latest window's count and EARS statistics for each syndrome and place, alerts first.
+ */
+router.get('/signals', async (req, res) => {
+  try {
+    const scope = req.query.scope || 'center';
+    if (!SURVEILLANCE_SCOPES.includes(scope)) {
+      return res.status(400).json({ message: `scope must be one of: ${SURVEILLANCE_SCOPES.join(', ')}` });
+    }
+    const binHours = parseBinHours(req.query.bin_hours);
+    if (!binHours) {
+      return res.status(400).json({ message: `bin_hours must be one of: ${BIN_HOURS.join(', ')}` });
+    }
+    return res.json(await computeSignals({ scope, binHours }));
+  } catch (error) {
+    console.error('Failed to compute surveillance signals', error);
+    return res.status(500).json({ message: 'Failed to compute surveillance signals', details: error.message });
+  }
+});
+
+/**
+ * GET /api/surveillance/alerts?status=open,acknowledged
+ * Outbreak alerts, most recent first. Without `status`, those still needing attention.
+ */
+router.get('/alerts', async (req, res) => {
+  try {
+    const statuses = req.query.status ? String(req.query.status).split(',') : ['open', 'acknowledged'];
+    if (statuses.some((s) => !ALERT_STATUSES.includes(s))) {
+      return res.status(400).json({ message: `status must be one of: ${ALERT_STATUSES.join(', ')}` });
+    }
+    const alerts = await SurveillanceAlert.find({ status: { $in: statuses } })
+      .sort({ window_end: -1 })
+      .limit(100)
+      .lean();
+    return res.json(alerts.map(formatAlert));
+  } catch (error) {
+    console.error('Failed to fetch surveillance alerts', error);
+    return res.status(500).json({ message: 'Failed to fetch surveillance alerts', details: error.message });
+  }
+});
+
+/**
+ * PATCH /api/surveillance/alerts/:id { status: 'acknowledged' | 'dismissed', note }
+ */
+router.patch('/alerts/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Alert not found' });
+    }
+    const { status, note } = req.body;
+    if (!['acknowledged', 'dismissed'].includes(status)) {
+      return res.status(400).json({ message: 'status must be acknowledged or dismissed' });
+    }
+    const alert = await SurveillanceAlert.findByIdAndUpdate(
+      req.params.id,
+      { $set: { status, note: note || '', reviewed_by: staffRef(req), reviewed_at: new Date() } },
+      { new: true }
+    ).lean();
+    if (!alert) {
+      return res.status(404).json({ message: 'Alert not found' });
+    }
+    return res.json(formatAlert(alert));
+  } catch (error) {
+    console.error('Failed to update surveillance alert', error);
+    return res.status(500).json({ message: 'Failed to update surveillance alert', details: error.message });
+  }
+});
+
+/**
+ * GET /api/surveillance/incidents?syndrome=&scope=&key=&from=&to=
+ * The incidents behind a signal or alert, newest first.
+ */
+router.get('/incidents', async (req, res) => {
+  try {
+    const { syndrome, scope = 'center', key = '' } = req.query;
+    if (!SYNDROMES.includes(syndrome)) {
+      return res.status(400).json({ message: `syndrome must be one of: ${SYNDROMES.join(', ')}` });
+    }
+    if (!SURVEILLANCE_SCOPES.includes(scope)) {
+      return res.status(400).json({ message: `scope must be one of: ${SURVEILLANCE_SCOPES.join(', ')}` });
+    }
+    const from = new Date(req.query.from);
+    const to = req.query.to ? new Date(req.query.to) : new Date();
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return res.status(400).json({ message: 'from and to must be valid dates' });
+    }
+    const place = await placeFilter(scope, String(key));
+    if (!place) {
+      return res.status(400).json({ message: 'Invalid key' });
+    }
+
+    const incidents = await MedicalIncident.find({ ...place, syndromes: syndrome, incident_date: { $gte: from, $lt: to } })
+      .select('devotee_id incident_date incident_type symptoms diagnosis medical_center syndromes triage status')
+      .sort({ incident_date: -1 })
+      .limit(MAX_DRILL_DOWN)
+      .lean();
+
+    const devotees = await Devotee.find({ _id: { $in: incidents.map((i) => i.devotee_id) } })
+      .select('full_name age gender registration_number')
+      .lean();
+    const devoteeById = new Map(devotees.map((d) => [d._id.toString(), d]));
+
+    return res.json(incidents.map((incident) => {
+      const devotee = devoteeById.get(incident.devotee_id.toString());
+      return {
+        id: incident._id.toString(),
+        incident_date: incident.incident_date,
+        incident_type: incident.incident_type,
+        symptoms: incident.symptoms,
+        diagnosis: incident.diagnosis,
+        medical_center: incident.medical_center,
+        syndromes: incident.syndromes,
+        triage_category: incident.triage?.category ?? null,
+        status: incident.status || 'open',
+        devotee: devotee
+          ? {
+            id: devotee._id.toString(),
+            full_name: devotee.full_name,
+            age: devotee.age,
+            gender: devotee.gender,
+            registration_number: devotee.registration_number,
+          }
+          : null,
+      };
+    }));
+  } catch (error) {
+    console.error('Failed to fetch surveillance incidents', error);
+    return res.status(500).json({ message: 'Failed to fetch surveillance incidents', details: error.message });
+  }
+});
+
+export const surveillanceRouter = router;
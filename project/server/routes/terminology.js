@@ -0,0 +1,28 @@
+import express from 'express';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { lookupTerms, TERM_KINDS } from '../utils/terminology.js';
+
+const router = express.Router();
+
+const LANGS = ['en', 'hi', 'mr'];
+
+// Anyone who fills in a medical record or an incident needs the vocabulary
+router.use(requirePermission(PERMISSIONS.DEVOTEES_CREATE, PERMISSIONS.DEVOTEES_UPDATE, PERMISSIONS.INCIDENTS_CREATE));
+
+/**
+ * GET /api/terminology/lookup?kind=condition|allergen|drug|procedure&q=&lang=&limit=
+ * Autocomplete matches for what has been typed so far, best first.
+ */
+router.get('/lookup', (req, res) => {
+  const { kind, q = '' } = req.query;
+  if (!TERM_KINDS.includes(kind)) {
+    return res.status(400).json({ message: `kind must be one of: ${TERM_KINDS.join(', ')}` });
+  }
+  const lang = LANGS.includes(req.query.lang) ? req.query.lang : 'en';
+  const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 8, 1), 25);
+
+  return res.json(lookupTerms(kind, String(q), { limit, lang }));
+});
+
+export const terminologyRouter = router;
@@ -1,99 +1,33 @@
 import express from 'express';
-import https from 'https';
+import { requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../utils/permissions.js';
+import { DEFAULT_LOCATION, getAllWeather, getForecast, getWeather, recordWeatherReading } from '../utils/weather.js';
+import { WEATHER_LOCATIONS } from '../data/weatherLocations.js';
+import { refreshRiskContext } from '../utils/riskAssessments.js';
+import { staffRef } from '../utils/staff.js';
 
 const router = express.Router();
 
-// Nashik coordinates (location for Kumbh Mela)
-const NASHIK_LAT = 19.9975;
-const NASHIK_LON = 73.7898;
+// CPCB AQI: 101-200 is moderate, above 200 poor and worse
+const AQI_MODERATE = 100;
+const AQI_POOR = 200;
 
-// Cache for weather data (to avoid excessive API calls)
-let weatherCache = {
-    data: null,
-    timestamp: null,
-    CACHE_DURATION: 30 * 60 * 1000, // 30 minutes in milliseconds
-};
-
-// Helper function to check if cache is valid
-function isCacheValid() {
-    if (!weatherCache.data || !weatherCache.timestamp) return false;
-    const now = Date.now();
-    return (now - weatherCache.timestamp) < weatherCache.CACHE_DURATION;
-}
-
-// Helper function to make HTTPS GET request
-function httpsGet(url) {
-    return new Promise((resolve, reject) => {
-        https.get(url, (res) => {
-            let data = '';
-            res.on('data', (chunk) => {
-                data += chunk;
-            });
-            res.on('end', () => {
-                try {
-                    resolve(JSON.parse(data));
-                } catch (e) {
-                    reject(e);
-                }
-            });
-        }).on('error', (err) => {
-            reject(err);
-        });
-    });
-}
-
-// Fetch weather data from OpenWeatherMap API
-async function fetchWeatherData(apiKey) {
-    try {
-        // Fetch current weather and air pollution data
-        const weatherUrl = `https://api.openweathermap.org/data/2.5/weather?lat=${NASHIK_LAT}&lon=${NASHIK_LON}&appid=${apiKey}&units=metric`;
-        const airPollutionUrl = `https://api.openweathermap.org/data/2.5/air_pollution?lat=${NASHIK_LAT}&lon=${NASHIK_LON}&appid=${apiKey}`;
-        const uvUrl = `https://api.openweathermap.org/data/2.5/uvi?lat=${NASHIK_LAT}&lon=${NASHIK_LON}&appid=${apiKey}`;
-
-        const [weatherData, airData, uvData] = await Promise.all([
-            httpsGet(weatherUrl),
-            httpsGet(airPollutionUrl),
-            httpsGet(uvUrl).catch(() => ({ value: 5 })) // Default UV if fails
-        ]);
-
-        return {
-            temperature: Math.round(weatherData.main.temp),
-            feelsLike: Math.round(weatherData.main.feels_like),
-            humidity: weatherData.main.humidity,
-            pressure: weatherData.main.pressure,
-            description: weatherData.weather[0].description,
-            icon: weatherData.weather[0].icon,
-            windSpeed: Math.round(weatherData.wind.speed * 3.6), // Convert m/s to km/h
-            windDeg: weatherData.wind.deg || 0,
-            visibility: Math.round((weatherData.visibility || 10000) / 1000), // Convert to km
-            clouds: weatherData.clouds.all,
-            uvIndex: Math.round(uvData.value || 5),
-            aqi: airData.list[0].main.aqi, // 1=Good, 2=Fair, 3=Moderate, 4=Poor, 5=Very Poor
-            pollutants: airData.list[0].components,
-            location: 'Nashik',
-        };
-    } catch (error) {
-        console.error('Error fetching weather data:', error);
-        throw error;
-    }
-}
-
-// Determine alert level based on temperature and AQI
-function getAlerts(temperature, feelsLike, aqi) {
+// Determine alert level based on heat stress (WBGT), felt temperature and AQI
+function getAlerts({ temp: temperature, feelsLike, aqi, wbgt, heat_level: heatLevel }) {
     const alerts = [];
 
     // Heat warnings
-    if (feelsLike >= 40) {
+    if (heatLevel === 'extreme' || feelsLike >= 40) {
         alerts.push({
             type: 'extreme_heat',
             severity: 'critical',
             message: {
-                en: `Extreme Heat Alert! Feels like ${feelsLike}°C. Avoid outdoor activities. Stay hydrated.`,
-                hi: `अत्यधिक गर्मी चेतावनी! ${feelsLike}°C महसूस हो रहा है। बाहरी गतिविधियों से बचें। हाइड्रेटेड रहें।`,
-                mr: `अत्यधिक उष्णता सतर्कता! ${feelsLike}°C वाटत आहे. बाहेरची कामं टाळा. हायड्रेटेड रहा.`
+                en: `Extreme Heat Alert! Feels like ${feelsLike}°C (WBGT ${wbgt}°C). Avoid outdoor activities. Stay hydrated.`,
+                hi: `अत्यधिक गर्मी चेतावनी! ${feelsLike}°C महसूस हो रहा है (WBGT ${wbgt}°C)। बाहरी गतिविधियों से बचें। हाइड्रेटेड रहें।`,
+                mr: `अत्यधिक उष्णता सतर्कता! ${feelsLike}°C वाटत आहे (WBGT ${wbgt}°C). बाहेरची कामं टाळा. हायड्रेटेड रहा.`
             }
         });
-    } else if (feelsLike >= 35 || temperature >= 35) {
+    } else if (heatLevel === 'high' || feelsLike >= 35 || temperature >= 35) {
         alerts.push({
             type: 'heat_warning',
             severity: 'high',
@@ -106,7 +40,7 @@ function getAlerts(temperature, feelsLike, aqi) {
     }
 
     // Pollution warnings
-    if (aqi >= 4) {
+    if (aqi > AQI_POOR) {
         alerts.push({
             type: 'severe_pollution',
             severity: 'critical',
@@ -116,7 +50,7 @@ function getAlerts(temperature, feelsLike, aqi) {
                 mr: 'गंभीर वायू प्रदूषण! बाहेर N95 मास्क घाला. बाहेरचे एक्सपोजर मर्यादित करा.'
             }
         });
-    } else if (aqi === 3) {
+    } else if (aqi > AQI_MODERATE) {
         alerts.push({
             type: 'pollution_alert',
             severity: 'moderate',
@@ -131,74 +65,11 @@ function getAlerts(temperature, feelsLike, aqi) {
     return alerts;
 }
 
-// GET /api/weather/current
-// Returns current weather data for Nashik
+// GET /api/weather/current?sector=tapovan
+// Current weather for a sector, or for the mela as a whole
 router.get('/current', async (req, res) => {
     try {
-        const apiKey = process.env.OPENWEATHER_API_KEY;
-
-        if (!apiKey) {
-            return res.json({
-                error: 'Weather API key not configured',
-                mockData: true,
-                temperature: 32,
-                feelsLike: 35,
-                humidity: 45,
-                pressure: 1013,
-                description: 'clear sky',
-                icon: '01d',
-                windSpeed: 12,
-                windDeg: 180,
-                visibility: 10,
-                clouds: 10,
-                uvIndex: 7,
-                aqi: 2,
-                location: 'Nashik (Demo Mode)'
-            });
-        }
-
-        // Check cache first
-        if (isCacheValid()) {
-            return res.json({
-                cached: true,
-                ...weatherCache.data
-            });
-        }
-
-        // Fetch fresh data
-        try {
-            const weatherData = await fetchWeatherData(apiKey);
-
-            // Update cache
-            weatherCache.data = weatherData;
-            weatherCache.timestamp = Date.now();
-
-            res.json({
-                cached: false,
-                ...weatherData
-            });
-        } catch (apiError) {
-            // If API fails (invalid key, not activated, etc), return demo data
-            console.error('OpenWeatherMap API error:', apiError.message);
-            res.json({
-                error: 'API key not yet activated or invalid',
-                mockData: true,
-                temperature: 28,
-                feelsLike: 31,
-                humidity: 55,
-                pressure: 1012,
-                description: 'partly cloudy',
-                icon: '02d',
-                windSpeed: 8,
-                windDeg: 200,
-                visibility: 10,
-                clouds: 40,
-                uvIndex: 5,
-                aqi: 2,
-                location: 'Nashik (Demo - API Key Pending Activation)',
-                note: 'Demo data shown. OpenWeatherMap API keys take 2-10 hours to activate after creation.'
-            });
-        }
+        res.json(await getWeather(req.query.sector));
     } catch (error) {
         console.error('Weather API error:', error);
         res.status(500).json({
@@ -208,34 +79,60 @@ router.get('/current', async (req, res) => {
     }
 });
 
-// GET /api/weather/alerts
-// Returns active weather/pollution alerts
-router.get('/alerts', async (req, res) => {
+// GET /api/weather/locations
+// Sectors weather is tracked for; the first is the mela as a whole
+router.get('/locations', (req, res) => {
+    res.json(WEATHER_LOCATIONS.map(({ sector, name }) => ({ sector, name, default: sector === DEFAULT_LOCATION.sector })));
+});
+
+// GET /api/weather/sectors
+// Current weather for every sector
+router.get('/sectors', async (req, res) => {
     try {
-        const apiKey = process.env.OPENWEATHER_API_KEY;
+        res.json(await getAllWeather());
+    } catch (error) {
+        console.error('Weather sectors error:', error);
+        res.status(500).json({ error: 'Failed to fetch weather data', message: error.message });
+    }
+});
 
-        if (!apiKey) {
-            return res.json({
-                alerts: [],
-                mockData: true
-            });
-        }
+// POST /api/weather/readings
+// A field team's thermometer reading for a sector
+router.post('/readings', requirePermission(PERMISSIONS.WEATHER_RECORD), async (req, res) => {
+    try {
+        const { reading, error } = await recordWeatherReading(req.body || {}, staffRef(req));
+        if (error) return res.status(400).json({ message: error });
 
-        // Use cached data if available, otherwise fetch
-        let weatherData;
-        if (isCacheValid()) {
-            weatherData = weatherCache.data;
-        } else {
-            weatherData = await fetchWeatherData(apiKey);
-            weatherCache.data = weatherData;
-            weatherCache.timestamp = Date.now();
+        // Risk scores follow the mela-wide weather
+        if (reading.sector === DEFAULT_LOCATION.sector) {
+            refreshRiskContext().catch((err) => console.error('Failed to refresh risk context', err));
         }
+        res.status(201).json(await getWeather(reading.sector));
+    } catch (error) {
+        console.error('Failed to record weather reading', error);
+        res.status(500).json({ message: 'Failed to record weather reading', details: error.message });
+    }
+});
 
-        const alerts = getAlerts(
-            weatherData.temperature,
-            weatherData.feelsLike,
-            weatherData.aqi
-        );
+// GET /api/weather/forecast?sector=tapovan
+// Hourly forecast for the next 48 hours with heat index and WBGT, the heat windows
+// in it and the extra water points and staff each window calls for
+router.get('/forecast', async (req, res) => {
+    try {
+        res.json(await getForecast(req.query.sector));
+    } catch (error) {
+        console.error('Weather forecast error:', error);
+        res.status(500).json({ error: 'Failed to fetch weather forecast', message: error.message });
+    }
+});
+
+// GET /api/weather/alerts?sector=tapovan
+// Returns active weather/pollution alerts
+router.get('/alerts', async (req, res) => {
+    try {
+        const weatherData = await getWeather(req.query.sector);
+
+        const alerts = getAlerts(weatherData);
 
         res.json({
             alerts,
@@ -250,32 +147,20 @@ router.get('/alerts', async (req, res) => {
     }
 });
 
-// GET /api/weather/health-tips
+// GET /api/weather/health-tips?sector=tapovan
 // Returns weather-based health recommendations
 router.get('/health-tips', async (req, res) => {
     try {
-        const apiKey = process.env.OPENWEATHER_API_KEY;
-
-        if (!apiKey) {
-            return res.json({ tips: [] });
-        }
-
-        let weatherData;
-        if (isCacheValid()) {
-            weatherData = weatherCache.data;
-        } else {
-            weatherData = await fetchWeatherData(apiKey);
-            weatherCache.data = weatherData;
-            weatherCache.timestamp = Date.now();
-        }
+        const weatherData = await getWeather(req.query.sector);
 
         const tips = [];
 
         // Heat-based tips
-        if (weatherData.feelsLike >= 35) {
+        const extremeHeat = weatherData.heat_level === 'extreme' || weatherData.feelsLike >= 40;
+        if (extremeHeat || weatherData.heat_level === 'high' || weatherData.feelsLike >= 35) {
             tips.push({
                 category: 'heat',
-                severity: weatherData.feelsLike >= 40 ? 'critical' : 'high',
+                severity: extremeHeat ? 'critical' : 'high',
                 recommendations: {
                     en: [
                         'Avoid outdoor activities between 11 AM - 4 PM',
@@ -303,10 +188,10 @@ router.get('/health-tips', async (req, res) => {
         }
 
         // Pollution-based tips
-        if (weatherData.aqi >= 3) {
+        if (weatherData.aqi > AQI_MODERATE) {
             tips.push({
                 category: 'pollution',
-                severity: weatherData.aqi >= 4 ? 'critical' : 'moderate',
+                severity: weatherData.aqi > AQI_POOR ? 'critical' : 'moderate',
                 recommendations: {
                     en: [
                         'Wear N95 or KN95 mask when outdoors',
@@ -335,8 +220,9 @@ router.get('/health-tips', async (req, res) => {
 
         res.json({
             tips,
-            temperature: weatherData.temperature,
+            temp: weatherData.temp,
             feelsLike: weatherData.feelsLike,
+            wbgt: weatherData.wbgt,
             aqi: weatherData.aqi,
             timestamp: new Date().toISOString()
         });
@@ -0,0 +1,57 @@
+/**
+ * One-off migration: store phone_key (the last ten digits of phone) on devotees
+ * registered before it existed. Duplicate checks look phones up by this key, so
+ * until it is filled in older registrations are not offered as phone matches.
+ * Only documents without a key are touched; an interrupted run can be re-run.
+ *
+ * Usage: node server/scripts/backfill-phone-keys.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { Devotee } from '../models/Devotee.js';
+import { phoneKey } from '../utils/phone.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+const BATCH_SIZE = 1000;
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+async function backfillPhoneKeys() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        let updated = 0;
+        let batch = [];
+        const flush = async () => {
+            if (!DRY_RUN && batch.length) {
+                // updated_at stays as it was: the record itself didn't change
+                await Devotee.bulkWrite(batch, { ordered: false, timestamps: false });
+            }
+            updated += batch.length;
+            batch = [];
+        };
+
+        const cursor = Devotee.find({ phone_key: { $exists: false } }, 'phone').lean().cursor();
+        for await (const devotee of cursor) {
+            batch.push({ updateOne: { filter: { _id: devotee._id }, update: { $set: { phone_key: phoneKey(devotee.phone) } } } });
+            if (batch.length >= BATCH_SIZE) await flush();
+        }
+        await flush();
+
+        console.log(`${DRY_RUN ? 'Would set' : 'Set'} phone_key on ${updated} devotees`);
+    } catch (error) {
+        console.error('Migration failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+backfillPhoneKeys();
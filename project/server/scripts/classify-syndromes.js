@@ -0,0 +1,92 @@
+/**
+ * Classify every incident into surveillance syndromes and rebuild the hourly
+ * syndrome counts from scratch. Run once after deploying surveillance, and again
+ * whenever the syndrome keywords in server/utils/syndromes.js change.
+ *
+ * Usage: node server/scripts/classify-syndromes.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { SyndromeCount } from '../models/SyndromeCount.js';
+import { classifySyndromes } from '../utils/syndromes.js';
+import { centerKeyOf } from '../utils/surveillance.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+async function classifyIncidents() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        const cursor = MedicalIncident.find({}, 'symptoms diagnosis observations.temperature_c syndromes').lean().cursor();
+        const tally = {};
+        let changed = 0;
+
+        for await (const incident of cursor) {
+            const syndromes = classifySyndromes(incident);
+            syndromes.forEach((s) => { tally[s] = (tally[s] || 0) + 1; });
+            if (syndromes.join() === (incident.syndromes || []).join()) continue;
+            if (!DRY_RUN) {
+                await MedicalIncident.updateOne({ _id: incident._id }, { $set: { syndromes } });
+            }
+            changed++;
+        }
+
+        console.log(`${DRY_RUN ? 'Would reclassify' : 'Reclassified'} ${changed} incidents`);
+        Object.entries(tally).forEach(([syndrome, count]) => console.log(`  - ${syndrome}: ${count}`));
+        if (DRY_RUN) return;
+
+        const groups = await MedicalIncident.aggregate([
+            { $unwind: '$syndromes' },
+            {
+                $group: {
+                    _id: {
+                        hour: { $dateTrunc: { date: '$incident_date', unit: 'hour' } },
+                        syndrome: '$syndromes',
+                        center_id: '$medical_center_id',
+                        center: { $cond: [{ $ifNull: ['$medical_center_id', false] }, null, '$medical_center'] },
+                    },
+                    name: { $first: '$medical_center' },
+                    count: { $sum: 1 },
+                },
+            },
+        ]);
+
+        const centers = await MedicalCenter.find({}, 'name sector').lean();
+        const centerMap = new Map(centers.map((c) => [c._id.toString(), c]));
+
+        const counts = groups.map(({ _id, name, count }) => {
+            const center = _id.center_id && centerMap.get(_id.center_id.toString());
+            return {
+                hour: _id.hour,
+                syndrome: _id.syndrome,
+                center_key: centerKeyOf({ medical_center_id: _id.center_id, medical_center: name }),
+                center_id: _id.center_id || undefined,
+                center: center?.name || name,
+                sector: center?.sector || '',
+                count,
+            };
+        });
+
+        await SyndromeCount.deleteMany({});
+        if (counts.length) await SyndromeCount.insertMany(counts);
+        console.log(`Rebuilt ${counts.length} hourly syndrome counts`);
+    } catch (error) {
+        console.error('Classification failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+classifyIncidents();
@@ -0,0 +1,72 @@
+/**
+ * One-off migration: turn the comma-separated allergy, condition, medication
+ * and surgery strings on medical records into coded entries, matching each
+ * item against the vocabulary. Items that match nothing are kept as uncoded text.
+ *
+ * Usage: node server/scripts/code-medical-records.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { codeRecordFields, RECORD_TERM_FIELDS } from '../utils/terminology.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+async function codeRecords() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        // Raw collection: the model would refuse to cast the old strings.
+        // Entries left uncoded by an earlier run are retried against the current vocabulary.
+        const fields = Object.keys(RECORD_TERM_FIELDS);
+        const cursor = MedicalRecord.collection.find(
+            {
+                $or: fields.flatMap((field) => [
+                    { [field]: { $type: 'string' } },
+                    { [field]: { $elemMatch: { code: null } } },
+                ]),
+            },
+            { projection: Object.fromEntries(fields.map((field) => [field, 1])) }
+        );
+
+        const uncoded = new Map();
+        let migrated = 0;
+
+        for await (const record of cursor) {
+            const coded = codeRecordFields(record);
+
+            Object.values(coded).flat().forEach((entry) => {
+                if (!entry.code) uncoded.set(entry.text, (uncoded.get(entry.text) || 0) + 1);
+            });
+
+            if (!DRY_RUN) {
+                await MedicalRecord.collection.updateOne({ _id: record._id }, { $set: coded });
+            }
+            migrated++;
+        }
+
+        console.log(`${DRY_RUN ? 'Would code' : 'Coded'} ${migrated} medical records`);
+        if (uncoded.size) {
+            console.log('Kept as free text (add a synonym to server/utils/vocabulary.js and re-run to code them):');
+            [...uncoded.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .forEach(([text, count]) => console.log(`  - ${text} (${count})`));
+        }
+    } catch (error) {
+        console.error('Migration failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+codeRecords();
@@ -0,0 +1,85 @@
+/**
+ * One-off migration: before the sha256 index on media was unique, two uploads
+ * of the same photo racing each other could both be stored. Point every photo_url
+ * at the earliest copy, delete the others with their files, then replace the
+ * plain sha256 index with the unique one (the server can't build it while
+ * duplicates remain, and won't replace an index of the same name itself).
+ *
+ * Usage: node server/scripts/dedupe-media.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { Devotee } from '../models/Devotee.js';
+import { LostPerson } from '../models/LostPerson.js';
+import { Media } from '../models/Media.js';
+import { MEDIA_REF_PREFIX } from '../utils/media.js';
+import { backendFor } from '../utils/mediaStorage.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+const INDEX_NAME = 'sha256_1';
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+async function mergeCopies(ids) {
+    const [keep, ...copies] = await Media.find({ _id: { $in: ids } }).sort({ created_at: 1, _id: 1 }).lean();
+    if (DRY_RUN) return copies.length;
+
+    for (const copy of copies) {
+        // updated_at stays as it was: the photo itself didn't change
+        for (const model of [Devotee, LostPerson]) {
+            await model.updateMany(
+                { photo_url: `${MEDIA_REF_PREFIX}${copy._id}` },
+                { $set: { photo_url: `${MEDIA_REF_PREFIX}${keep._id}` } },
+                { timestamps: false }
+            );
+        }
+        await Media.deleteOne({ _id: copy._id });
+        const backend = backendFor(copy);
+        for (const variant of backend ? copy.variants : []) {
+            await backend.remove(variant.key)
+                .catch((error) => console.error(`Could not remove ${variant.key}:`, error.message));
+        }
+    }
+    return copies.length;
+}
+
+async function dedupeMedia() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        const groups = await Media.aggregate([
+            { $group: { _id: '$sha256', ids: { $push: '$_id' }, count: { $sum: 1 } } },
+            { $match: { count: { $gt: 1 } } },
+        ]);
+        let removed = 0;
+        for (const group of groups) {
+            removed += await mergeCopies(group.ids);
+        }
+        console.log(`${DRY_RUN ? 'Would remove' : 'Removed'} ${removed} duplicate copies of ${groups.length} photos`);
+
+        const index = (await Media.collection.indexes()).find((i) => i.name === INDEX_NAME);
+        if (index?.unique) {
+            console.log('The sha256 index is already unique');
+        } else if (DRY_RUN) {
+            console.log('Would make the sha256 index unique');
+        } else {
+            if (index) await Media.collection.dropIndex(INDEX_NAME);
+            await Media.collection.createIndex({ sha256: 1 }, { name: INDEX_NAME, unique: true });
+            console.log('Made the sha256 index unique');
+        }
+    } catch (error) {
+        console.error('Migration failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+dedupeMedia();
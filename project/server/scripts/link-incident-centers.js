@@ -0,0 +1,67 @@
+/**
+ * One-off migration: attach medical_center_id to incidents recorded when the
+ * facility was free text, by matching the text against the center registry.
+ *
+ * Usage: node server/scripts/link-incident-centers.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+const normalize = (name) => String(name || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+async function linkIncidents() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        const centers = await MedicalCenter.find({}, 'name').lean();
+        const byName = new Map(centers.map((c) => [normalize(c.name), c]));
+
+        const names = await MedicalIncident.distinct('medical_center', { medical_center_id: { $exists: false } });
+        const unmatched = [];
+        let linked = 0;
+
+        for (const name of names) {
+            const center = byName.get(normalize(name));
+            if (!center) {
+                unmatched.push(name);
+                continue;
+            }
+
+            const filter = { medical_center: name, medical_center_id: { $exists: false } };
+            if (DRY_RUN) {
+                linked += await MedicalIncident.countDocuments(filter);
+            } else {
+                const result = await MedicalIncident.updateMany(filter, {
+                    $set: { medical_center_id: center._id, medical_center: center.name }
+                });
+                linked += result.modifiedCount;
+            }
+        }
+
+        console.log(`${DRY_RUN ? 'Would link' : 'Linked'} ${linked} incidents to ${centers.length} registered centers`);
+        if (unmatched.length) {
+            console.log('No registry entry for these names (add the center or fix the text, then re-run):');
+            unmatched.forEach((name) => console.log(`  - ${name}`));
+        }
+    } catch (error) {
+        console.error('Migration failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+linkIncidents();
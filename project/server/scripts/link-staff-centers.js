@@ -0,0 +1,65 @@
+/**
+ * One-off migration: attach medical_center_id to staff accounts whose posting
+ * was saved as free text, by matching the text against the center registry.
+ * Referral responses are authorised by this id.
+ *
+ * Usage: node server/scripts/link-staff-centers.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { StaffUser } from '../models/StaffUser.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+const normalize = (name) => String(name || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+async function linkStaff() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        const centers = await MedicalCenter.find({}, 'name').lean();
+        const byName = new Map(centers.map((c) => [normalize(c.name), c]));
+
+        const staff = await StaffUser.find(
+            { medical_center: { $nin: ['', null] }, medical_center_id: { $in: [null, undefined] } },
+            'username medical_center'
+        ).lean();
+        const unmatched = [];
+        let linked = 0;
+
+        for (const user of staff) {
+            const center = byName.get(normalize(user.medical_center));
+            if (!center) {
+                unmatched.push(`${user.username}: ${user.medical_center}`);
+                continue;
+            }
+            if (!DRY_RUN) {
+                await StaffUser.updateOne({ _id: user._id }, { $set: { medical_center_id: center._id, medical_center: center.name } });
+            }
+            linked += 1;
+        }
+
+        console.log(`${DRY_RUN ? 'Would link' : 'Linked'} ${linked} staff accounts to ${centers.length} registered centers`);
+        if (unmatched.length) {
+            console.log('No registry entry for these postings (set the center on the account, then re-run):');
+            unmatched.forEach((line) => console.log(`  - ${line}`));
+        }
+    } catch (error) {
+        console.error('Migration failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+linkStaff();
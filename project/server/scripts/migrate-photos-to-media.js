@@ -0,0 +1,84 @@
+/**
+ * One-off migration: move registration and lost person photos stored as base64
+ * data URLs into the media store (MEDIA_STORAGE) and point photo_url at them.
+ * Documents are updated one at a time, so an interrupted run can simply be
+ * re-run; photos that can't be decoded are listed and left in place.
+ *
+ * Usage: node server/scripts/migrate-photos-to-media.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { Devotee } from '../models/Devotee.js';
+import { LostPerson } from '../models/LostPerson.js';
+import { decodeDataUrl, storeImage, MEDIA_REF_PREFIX } from '../utils/media.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+const COLLECTIONS = [
+    { label: 'devotees', model: Devotee },
+    { label: 'lost person reports', model: LostPerson },
+];
+
+const megabytes = (bytes) => (bytes / (1024 * 1024)).toFixed(1);
+
+async function migrateCollection({ label, model }) {
+    const filter = { photo_url: /^data:image\// };
+    let moved = 0;
+    let bytes = 0;
+    const failed = [];
+
+    const cursor = model.find(filter, 'photo_url').lean().cursor();
+    for await (const doc of cursor) {
+        bytes += doc.photo_url.length;
+        if (DRY_RUN) {
+            moved += 1;
+            continue;
+        }
+
+        const { media, error } = await storeImage(decodeDataUrl(doc.photo_url), { source: 'migration' });
+        if (error) {
+            failed.push(`${doc._id}: ${error}`);
+            continue;
+        }
+
+        // Only if the photo wasn't replaced while the migration ran; updated_at stays as it was
+        const result = await model.updateOne(
+            { _id: doc._id, photo_url: doc.photo_url },
+            { $set: { photo_url: `${MEDIA_REF_PREFIX}${media._id}` } },
+            { timestamps: false }
+        );
+        moved += result.modifiedCount;
+    }
+
+    console.log(`${DRY_RUN ? 'Would move' : 'Moved'} ${moved} ${label} photos (${megabytes(bytes)} MB of base64)`);
+    if (failed.length) {
+        console.log(`Could not read these ${label} photos (left as they were):`);
+        failed.forEach((line) => console.log(`  - ${line}`));
+    }
+}
+
+async function migratePhotos() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        for (const collection of COLLECTIONS) {
+            await migrateCollection(collection);
+        }
+    } catch (error) {
+        console.error('Migration failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+migratePhotos();
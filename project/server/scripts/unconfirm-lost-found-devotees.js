@@ -0,0 +1,61 @@
+/**
+ * One-off migration: reports filed before the desk had to confirm a face match
+ * were linked to the closest registration automatically, which shows that
+ * devotee's group contacts. Turn those links back into suggestions so the desk
+ * confirms them first. Closed (reunited) cases are left as they are.
+ *
+ * Usage: node server/scripts/unconfirm-lost-found-devotees.js [--dry-run]
+ */
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { LostPerson } from '../models/LostPerson.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+    console.error('MONGODB_URI is missing');
+    process.exit(1);
+}
+
+async function unconfirmDevotees() {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        console.log('Connected to MongoDB');
+
+        const filter = {
+            devotee_id: { $ne: null },
+            status: { $ne: 'reunited' },
+            'case_events.event': { $ne: 'devotee_confirmed' },
+        };
+        const reports = await LostPerson.find(filter, 'devotee_id created_at').lean();
+
+        let moved = 0;
+        for (const report of reports) {
+            if (!DRY_RUN) {
+                // Only if nobody confirmed it while the migration ran; updated_at stays as it was
+                const result = await LostPerson.updateOne(
+                    { _id: report._id, devotee_id: report.devotee_id, 'case_events.event': { $ne: 'devotee_confirmed' } },
+                    {
+                        $set: { devotee_id: null, devotee_suggestion: { devotee_id: report.devotee_id, suggested_at: report.created_at } },
+                    },
+                    { timestamps: false }
+                );
+                moved += result.modifiedCount;
+            } else {
+                moved += 1;
+            }
+        }
+
+        console.log(`${DRY_RUN ? 'Would turn' : 'Turned'} ${moved} unconfirmed devotee links into suggestions`);
+    } catch (error) {
+        console.error('Migration failed:', error);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+unconfirmDevotees();
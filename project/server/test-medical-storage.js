@@ -3,6 +3,7 @@ import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import { Devotee } from './models/Devotee.js';
 import { MedicalRecord } from './models/MedicalRecord.js';
+import { codeRecordFields, codesOf } from './utils/terminology.js';
 
 dotenv.config();
 
@@ -63,10 +64,7 @@ async function testStorage() {
 
             const medicalRecordDoc = await MedicalRecord.create([{
                 devotee_id: savedDevotee._id,
-                allergies: payload.allergies,
-                chronic_conditions: payload.chronic_conditions,
-                current_medications: payload.current_medications,
-                past_surgeries: payload.past_surgeries,
+                ...codeRecordFields(payload),
                 special_notes: payload.special_notes,
                 blood_group: payload.blood_group,
                 height_cm: payload.height_cm,
@@ -90,11 +88,11 @@ async function testStorage() {
 
         console.log('Fetched Record:', fetchedRecord);
 
-        if (fetchedRecord.allergies !== payload.allergies) console.error('FAIL: allergies mismatch');
-        else console.log('PASS: allergies matched');
+        if (codesOf(fetchedRecord.allergies).join() !== 'ALG-PEANUT') console.error('FAIL: allergies mismatch');
+        else console.log('PASS: allergies coded');
 
-        if (fetchedRecord.chronic_conditions !== payload.chronic_conditions) console.error('FAIL: chronic_conditions mismatch');
-        else console.log('PASS: chronic_conditions matched');
+        if (codesOf(fetchedRecord.chronic_conditions).join() !== 'J45') console.error('FAIL: chronic_conditions mismatch');
+        else console.log('PASS: chronic_conditions coded');
 
     } catch (error) {
         console.error('Test failed:', error);
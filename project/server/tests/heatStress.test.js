@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { heatIndex, heatLevel, wbgt, withHeatStress } from '../utils/heatStress.js';
+
+describe('heatIndex', () => {
+    it('matches the NWS heat index table', () => {
+        // 90°F at 60% feels like 100°F; 100°F at 40% like 109°F
+        assert.ok(Math.abs(heatIndex(32.2, 60) - 37.8) <= 0.5);
+        assert.ok(Math.abs(heatIndex(37.8, 40) - 42.8) <= 0.5);
+    });
+
+    it('uses the simple formula below 80°F', () => {
+        assert.ok(Math.abs(heatIndex(20, 50) - 19.7) <= 0.5);
+    });
+
+    it('is null without both readings', () => {
+        assert.equal(heatIndex(35, null), null);
+        assert.equal(heatIndex(undefined, 40), null);
+    });
+});
+
+describe('wbgt', () => {
+    it('follows the Bureau of Meteorology approximation', () => {
+        assert.equal(wbgt(30, 50), 29.3);
+        assert.equal(wbgt(35, 70), 39.2);
+    });
+
+    it('is null without both readings', () => {
+        assert.equal(wbgt(null, 50), null);
+    });
+});
+
+describe('heatLevel', () => {
+    it('starts each level at its WBGT threshold', () => {
+        assert.deepEqual([27.9, 28, 30, 32, null].map(heatLevel), ['low', 'moderate', 'high', 'extreme', null]);
+    });
+
+    it('is added to a reading', () => {
+        const reading = withHeatStress({ temp: 30, humidity: 50, source: 'manual' });
+        assert.equal(reading.source, 'manual');
+        assert.equal(reading.wbgt, 29.3);
+        assert.equal(reading.heat_level, 'moderate');
+        assert.equal(typeof reading.heatIndex, 'number');
+    });
+});
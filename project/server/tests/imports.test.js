@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { IMPORT_STATUSES } from '../models/ImportJob.js';
+import { mapRow, nextImportStatus, normalizeMapping, suggestMapping } from '../utils/imports.js';
+
+const HEADERS = ['Sr No', 'Yatri Name', 'Umar', 'Sex', 'Mobile No.', 'Guardian', 'Guardian Mobile', 'Blood Group', 'Illness'];
+
+describe('column mapping', () => {
+    it('recognises operator header spellings', () => {
+        assert.deepEqual(suggestMapping(HEADERS), {
+            full_name: 1,
+            age: 2,
+            gender: 3,
+            phone: 4,
+            emergency_contact_name: 5,
+            emergency_contact_phone: 6,
+            blood_group: 7,
+            chronic_conditions: 8,
+        });
+    });
+
+    it('accepts a default in place of a mapped column', () => {
+        const job = { headers: HEADERS };
+        const { mapping, defaults } = normalizeMapping(job, { ...suggestMapping(HEADERS), gender: '' }, { gender: ' Female ' });
+        assert.equal(mapping.gender, undefined);
+        assert.deepEqual(defaults, { gender: 'Female' });
+    });
+
+    it('rejects columns outside the file and missing required fields', () => {
+        const job = { headers: HEADERS };
+        assert.equal(normalizeMapping(job, { ...suggestMapping(HEADERS), age: 20 }).error, 'Column for age is not in the file');
+        assert.match(normalizeMapping(job, { full_name: 1 }).error, /age, gender, phone/);
+    });
+});
+
+describe('mapRow', () => {
+    const job = { headers: HEADERS, mapping: suggestMapping(HEADERS), defaults: { emergency_contact_name: 'Tour leader' } };
+
+    it('normalises gender, ages and blood groups', () => {
+        const { devotee, record } = mapRow(['1', ' Sita Devi ', '62 yrs', 'F', '9876543210', '', '9123456780', 'b +ve', 'diabetes'], job);
+        assert.deepEqual(devotee, {
+            full_name: 'Sita Devi',
+            age: '62',
+            gender: 'Female',
+            phone: '9876543210',
+            emergency_contact_name: 'Tour leader',
+            emergency_contact_phone: '9123456780',
+        });
+        assert.equal(record.blood_group, 'B+');
+        assert.equal(record.chronic_conditions[0].text, 'diabetes');
+    });
+
+    it('leaves values it cannot read for the schema to reject', () => {
+        const { devotee } = mapRow(['2', 'Ram', 'sixty', 'पुरुष', '98765'], job);
+        assert.equal(devotee.age, 'sixty');
+        assert.equal(devotee.gender, 'Male');
+    });
+});
+
+describe('import job status', () => {
+    const at = (status, phase = 'validate') => ({ status, phase });
+
+    it('walks upload, dry run and import in order', () => {
+        assert.equal(nextImportStatus(at('uploading', 'upload'), 'finish'), 'uploaded');
+        assert.equal(nextImportStatus(at('uploaded'), 'map'), 'validating');
+        assert.equal(nextImportStatus(at('validating'), 'finish'), 'validated');
+        assert.equal(nextImportStatus(at('validated'), 'map'), 'validating');
+        assert.equal(nextImportStatus(at('validated'), 'start'), 'importing');
+        assert.equal(nextImportStatus(at('importing', 'import'), 'finish'), 'completed');
+    });
+
+    it('resumes a failed job in the phase it failed in', () => {
+        assert.equal(nextImportStatus(at('failed', 'validate'), 'resume'), 'validating');
+        assert.equal(nextImportStatus(at('failed', 'import'), 'resume'), 'importing');
+        assert.equal(nextImportStatus(at('failed', 'upload'), 'resume'), 'uploading');
+    });
+
+    it('waits for the file to be read before it can be mapped', () => {
+        assert.equal(nextImportStatus(at('uploading', 'upload'), 'map'), null);
+        assert.equal(nextImportStatus(at('failed', 'upload'), 'map'), null);
+    });
+
+    it('only lets a job that failed its dry run be remapped', () => {
+        assert.equal(nextImportStatus(at('failed', 'validate'), 'map'), 'validating');
+        assert.equal(nextImportStatus(at('failed', 'import'), 'map'), null);
+    });
+
+    it('refuses to import before the dry run has finished', () => {
+        ['uploading', 'uploaded', 'validating', 'importing', 'failed'].forEach((status) => {
+            assert.equal(nextImportStatus(at(status), 'start'), null, status);
+        });
+    });
+
+    it('ends at completed or cancelled', () => {
+        ['completed', 'cancelled'].forEach((status) => {
+            ['map', 'start', 'resume', 'cancel', 'finish'].forEach((action) => {
+                assert.equal(nextImportStatus(at(status), action), null, `${action} from ${status}`);
+            });
+        });
+        IMPORT_STATUSES.filter((status) => !['completed', 'cancelled'].includes(status)).forEach((status) => {
+            assert.equal(nextImportStatus(at(status), 'cancel'), 'cancelled', status);
+        });
+    });
+});
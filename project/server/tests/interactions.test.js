@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkPrescription, decidePrescription, isOfflineReplay } from '../utils/interactions.js';
+
+const severities = (result) => Object.fromEntries(result.warnings.map((w) => [w.key, w.severity]));
+
+describe('checkPrescription', () => {
+    it('blocks a drug the devotee is allergic to', () => {
+        const result = checkPrescription({ prescribed: 'amoxicillin', allergies: 'penicillin', currentMedications: '' });
+        assert.equal(result.blocking, true);
+        assert.deepEqual(severities(result), { 'allergy:ALG-PENICILLIN:J01CA04': 'blocking' });
+    });
+
+    it('only warns about cross-reactivity', () => {
+        const result = checkPrescription({ prescribed: 'cefixime', allergies: 'penicillin', currentMedications: '' });
+        assert.equal(result.blocking, false);
+        assert.deepEqual(severities(result), { 'allergy:ALG-PENICILLIN:J01DD08': 'warning' });
+    });
+
+    it('warns for any drug when the allergy is to unnamed medicines', () => {
+        const result = checkPrescription({ prescribed: 'paracetamol', allergies: 'medicines', currentMedications: '' });
+        assert.equal(result.warnings.length, 1);
+        assert.equal(result.warnings[0].severity, 'warning');
+    });
+
+    it('blocks a new drug that interacts with one already taken', () => {
+        const result = checkPrescription({ prescribed: 'ibuprofen', allergies: '', currentMedications: 'warfarin' });
+        assert.equal(result.blocking, true);
+        const [warning] = result.warnings;
+        assert.equal(warning.key, 'interaction:B01AA03+M01AE01:anticoagulant+nsaid');
+        assert.deepEqual(warning.drugs.map((d) => d.source), ['prescribed', 'current']);
+    });
+
+    it('checks the new drugs against each other', () => {
+        const result = checkPrescription({ prescribed: 'warfarin, aspirin', allergies: [], currentMedications: [] });
+        assert.deepEqual(severities(result), {
+            'interaction:B01AA03+B01AC06:anticoagulant+nsaid': 'blocking',
+            'interaction:B01AA03+B01AC06:anticoagulant+antiplatelet': 'blocking',
+        });
+    });
+
+    it('warns when the drug is already being taken', () => {
+        const result = checkPrescription({ prescribed: 'ibuprofen', allergies: '', currentMedications: 'ibuprofen' });
+        assert.deepEqual(severities(result), { 'duplicate:M01AE01': 'warning' });
+    });
+
+    it('finds nothing for a safe prescription', () => {
+        const result = checkPrescription({ prescribed: 'paracetamol', allergies: 'penicillin', currentMedications: 'warfarin' });
+        assert.deepEqual(result.warnings, []);
+        assert.equal(result.blocking, false);
+    });
+});
+
+describe('offline replays', () => {
+    const NOW = Date.parse('2026-10-18T10:00:00Z');
+    const request = (headers) => ({
+        get: (name) => headers[name],
+        user: { id: '64b000000000000000000001', username: 'nurse1', full_name: 'Nurse One' },
+    });
+    const replay = { 'X-Offline-Replay': '1', 'Idempotency-Key': 'k-1', 'X-Recorded-At': '2026-10-18T09:40:00Z' };
+
+    it('trusts the header only with an idempotency key and an earlier recorded time', () => {
+        assert.equal(isOfflineReplay(request(replay), NOW), true);
+        assert.equal(isOfflineReplay(request({ 'X-Offline-Replay': '1' }), NOW), false);
+        assert.equal(isOfflineReplay(request({ ...replay, 'Idempotency-Key': undefined }), NOW), false);
+        assert.equal(isOfflineReplay(request({ ...replay, 'X-Recorded-At': undefined }), NOW), false);
+        assert.equal(isOfflineReplay(request({ ...replay, 'X-Recorded-At': '2026-10-18T10:05:00Z' }), NOW), false);
+    });
+
+    it('still blocks an online request that sends the replay header', () => {
+        const req = request({ 'X-Offline-Replay': '1' });
+        const checked = checkPrescription({ prescribed: 'amoxicillin', allergies: 'penicillin', currentMedications: '' });
+        const result = decidePrescription(req, checked, undefined, { recordedOffline: isOfflineReplay(req) });
+        assert.match(result.error, /give a reason to override/);
+    });
+
+    it('flags a genuine replay for review instead', () => {
+        const req = request(replay);
+        const checked = checkPrescription({ prescribed: 'amoxicillin', allergies: 'penicillin', currentMedications: '' });
+        const result = decidePrescription(req, checked, undefined, { recordedOffline: isOfflineReplay(req, NOW) });
+        assert.equal(result.check.review.status, 'pending');
+    });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { isDataUrl, isMediaRef, mediaIdOf, signedMediaUrl, verifyMediaSignature } from '../utils/media.js';
+
+const ID = '65f1c2a9e4b0a1b2c3d4e5f6';
+
+const parse = (url) => {
+    const { pathname, searchParams } = new URL(url);
+    const [id, variant] = pathname.split('/').slice(-2);
+    return { id, variant, expires: searchParams.get('expires'), signature: searchParams.get('signature') };
+};
+
+describe('signed media URLs', () => {
+    before(() => {
+        process.env.MEDIA_SIGNING_SECRET = 'test-secret';
+    });
+
+    it('verifies a URL it signed', () => {
+        const { id, variant, expires, signature } = parse(signedMediaUrl('https://camp.example/api', ID, 'thumb'));
+        assert.deepEqual([id, variant], [ID, 'thumb']);
+        assert.equal(verifyMediaSignature(id, variant, expires, signature), true);
+    });
+
+    it('expires on the hour, so repeat responses share a URL', () => {
+        const { expires } = parse(signedMediaUrl('https://camp.example/api', ID, 'display'));
+        assert.equal(Number(expires) % 3600, 0);
+        assert.ok(Number(expires) * 1000 > Date.now());
+    });
+
+    it('rejects another variant, id or expiry under the same signature', () => {
+        const { expires, signature } = parse(signedMediaUrl('https://camp.example/api', ID, 'thumb'));
+        assert.equal(verifyMediaSignature(ID, 'original', expires, signature), false);
+        assert.equal(verifyMediaSignature('65f1c2a9e4b0a1b2c3d4e5f7', 'thumb', expires, signature), false);
+        assert.equal(verifyMediaSignature(ID, 'thumb', String(Number(expires) + 3600), signature), false);
+        assert.equal(verifyMediaSignature(ID, 'thumb', expires, undefined), false);
+    });
+
+    it('rejects a link past its expiry', (t) => {
+        const { expires, signature } = parse(signedMediaUrl('https://camp.example/api', ID, 'thumb'));
+        t.mock.method(Date, 'now', () => (Number(expires) + 1) * 1000);
+        assert.equal(verifyMediaSignature(ID, 'thumb', expires, signature), false);
+    });
+
+    it('rejects a signature made with another secret', () => {
+        const url = signedMediaUrl('https://camp.example/api', ID, 'thumb');
+        process.env.MEDIA_SIGNING_SECRET = 'other-secret';
+        const { expires, signature } = parse(url);
+        assert.equal(verifyMediaSignature(ID, 'thumb', expires, signature), false);
+        process.env.MEDIA_SIGNING_SECRET = 'test-secret';
+    });
+});
+
+describe('photo refs', () => {
+    it('tells refs and data URLs apart', () => {
+        assert.equal(isMediaRef(`media:${ID}`), true);
+        assert.equal(mediaIdOf(`media:${ID}`), ID);
+        assert.equal(isMediaRef('https://example.com/a.jpg'), false);
+        assert.equal(isDataUrl('data:image/png;base64,iVBORw0K'), true);
+        assert.equal(isDataUrl('data:text/html;base64,PGh0bWw+'), false);
+    });
+});
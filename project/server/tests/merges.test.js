@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import mongoose from 'mongoose';
+import { foldRecord, giveBackGroupPlace, takeGroupPlace, unfoldRecord } from '../utils/merges.js';
+import { codeRecordFields } from '../utils/terminology.js';
+
+const { ObjectId } = mongoose.Types;
+
+const record = (fields) => ({ blood_group: '', height_cm: null, weight_kg: null, special_notes: '', ...fields, ...codeRecordFields(fields) });
+const clone = (value) => structuredClone(value);
+
+// What the merge stores, as revertMerge reads it back
+const mergeOf = (retiredId, retiredRecord, folded, group) => ({
+    retired_id: retiredId,
+    retired_record: retiredRecord,
+    record_filled: folded?.filled,
+    record_added: folded?.added,
+    notes_appended: folded?.notesAppended,
+    group,
+});
+
+describe('merging medical records', () => {
+    const survivorFields = { blood_group: 'B+', allergies: 'penicillin', chronic_conditions: 'hypertension', special_notes: 'Walks with a stick' };
+    const retiredFields = { blood_group: 'O+', weight_kg: 62, allergies: 'penicillin, aspirin', chronic_conditions: 'diabetes', special_notes: 'Carries insulin' };
+
+    it('fills blanks, adds missing entries and appends differing notes', () => {
+        const survivor = record(survivorFields);
+        const folded = foldRecord(survivor, record(retiredFields), 'KM-1002');
+
+        assert.equal(survivor.blood_group, 'B+');
+        assert.equal(survivor.weight_kg, 62);
+        assert.deepEqual(survivor.allergies.map((e) => e.code), ['ALG-PENICILLIN', 'ALG-ASPIRIN']);
+        assert.equal(survivor.chronic_conditions.length, 2);
+        assert.equal(survivor.special_notes, 'Walks with a stick\n[KM-1002] Carries insulin');
+        assert.deepEqual(Object.keys(folded.filled), ['weight_kg']);
+        assert.deepEqual(Object.keys(folded.added).sort(), ['allergies', 'chronic_conditions']);
+    });
+
+    it('reverts to exactly the survivor record it started from', () => {
+        const original = record(survivorFields);
+        const retired = record(retiredFields);
+        const survivor = clone(original);
+        const folded = foldRecord(survivor, retired, 'KM-1002');
+
+        unfoldRecord(survivor, mergeOf(new ObjectId(), retired, folded));
+        assert.deepEqual(survivor, { ...original, weight_kg: undefined });
+    });
+
+    it('keeps edits made to the survivor after the merge', () => {
+        const retired = record(retiredFields);
+        const survivor = record(survivorFields);
+        const folded = foldRecord(survivor, retired, 'KM-1002');
+
+        survivor.weight_kg = 64;
+        survivor.current_medications = codeRecordFields({ current_medications: 'metformin' }).current_medications;
+        unfoldRecord(survivor, mergeOf(new ObjectId(), retired, folded));
+
+        assert.equal(survivor.weight_kg, 64);
+        assert.equal(survivor.current_medications.length, 1);
+        assert.deepEqual(survivor.allergies.map((e) => e.code), ['ALG-PENICILLIN']);
+        assert.equal(survivor.special_notes, 'Walks with a stick');
+    });
+});
+
+describe('merging group places', () => {
+    const setup = ({ survivorGroup = null, retiredLeads = false } = {}) => {
+        const survivor = { _id: new ObjectId(), group_id: survivorGroup };
+        const retired = { _id: new ObjectId() };
+        const other = new ObjectId();
+        const group = {
+            _id: new ObjectId(),
+            leader_id: retiredLeads ? retired._id : other,
+            members: [{ devotee_id: other, relationship: 'self' }, { devotee_id: retired._id, relationship: 'spouse' }],
+        };
+        return { survivor, retired, other, group };
+    };
+
+    it('moves a survivor without a group into the retired devotee\'s place, leadership included', () => {
+        const { survivor, retired, group } = setup({ retiredLeads: true });
+        const place = takeGroupPlace(group, survivor, retired);
+
+        assert.deepEqual(place, { id: group._id, relationship: 'spouse', was_leader: true, transferred: true });
+        assert.ok(group.members[1].devotee_id.equals(survivor._id));
+        assert.ok(group.leader_id.equals(survivor._id));
+        assert.ok(survivor.group_id.equals(group._id));
+
+        giveBackGroupPlace(group, survivor, { retired_id: retired._id, group: place });
+        assert.ok(group.members[1].devotee_id.equals(retired._id));
+        assert.ok(group.leader_id.equals(retired._id));
+        assert.equal(survivor.group_id, null);
+    });
+
+    it('drops the retired devotee when the survivor has a group of its own, and puts it back on undo', () => {
+        const { survivor, retired, other, group } = setup({ survivorGroup: new ObjectId(), retiredLeads: true });
+        const place = takeGroupPlace(group, survivor, retired);
+
+        assert.equal(place.transferred, false);
+        assert.deepEqual(group.members.map((m) => m.devotee_id), [other]);
+        assert.ok(group.leader_id.equals(other));
+
+        giveBackGroupPlace(group, survivor, { retired_id: retired._id, group: place });
+        assert.equal(group.members.length, 2);
+        assert.equal(group.members[1].relationship, 'spouse');
+        assert.ok(group.leader_id.equals(retired._id));
+    });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateRiskScore, DEFAULT_RISK_CONFIG, incidentWindowStart, parseRiskConfig, riskLevelFor } from '../utils/riskScoring.js';
+
+const NOW = new Date('2026-10-18T12:00:00Z');
+const hoursAgo = (hours) => new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+const score = (devotee, record, incidents = [], weather = null) =>
+    calculateRiskScore(devotee, record, weather, 0, { incidents, now: NOW });
+
+describe('calculateRiskScore', () => {
+    it('scores age bands and coded chronic conditions', () => {
+        const result = score({ age: 72 }, { chronic_conditions: [{ code: 'I10' }, { code: 'E14' }] });
+        // 30 for age; (10 + 10) x 1.5 for two conditions
+        assert.deepEqual([result.breakdown.age, result.breakdown.medical], [30, 30]);
+        assert.equal(result.totalScore, 60);
+        assert.equal(result.riskLevel, 'High');
+    });
+
+    it('adds environmental risk up to its cap', () => {
+        const result = score({ age: 30 }, null, [], { temp: 42, humidity: 85, aqi: 250 });
+        assert.equal(result.breakdown.environmental, 20);
+    });
+
+    it('halves an incident every half-life', () => {
+        const fresh = score({ age: 30 }, null, [{ incident_type: 'Emergency', incident_date: NOW }]);
+        const dayOld = score({ age: 30 }, null, [{ incident_type: 'Emergency', incident_date: hoursAgo(24) }]);
+        const twoDaysOld = score({ age: 30 }, null, [{ incident_type: 'Emergency', incident_date: hoursAgo(48) }]);
+        assert.deepEqual([fresh, dayOld, twoDaysOld].map((r) => r.breakdown.incidents), [10, 5, 3]);
+        assert.equal(twoDaysOld.explanation[0].points, 2.5);
+    });
+
+    it('ignores visits outside the window but counts every pending follow-up', () => {
+        const result = score({ age: 30 }, null, [
+            { incident_type: 'Emergency', incident_date: hoursAgo(80) },
+            { incident_type: 'Consultation', incident_date: hoursAgo(200), follow_up_required: true, follow_up: { status: 'scheduled' } },
+            { incident_type: 'Consultation', incident_date: hoursAgo(200), follow_up_required: true, follow_up: { status: 'completed' } },
+        ]);
+        assert.equal(result.breakdown.incidents, 5);
+        assert.deepEqual(result.explanation.map((r) => r.label), ['1 follow-up still pending']);
+    });
+
+    it('caps incident history', () => {
+        const emergencies = Array.from({ length: 5 }, () => ({ incident_type: 'Emergency', incident_date: NOW }));
+        assert.equal(score({ age: 30 }, null, emergencies).breakdown.incidents, 20);
+    });
+
+    it('scores incident history with the defaults under a model saved without it', () => {
+        const { incidents, ...legacy } = DEFAULT_RISK_CONFIG;
+        const result = calculateRiskScore({ age: 30 }, null, null, 0, {
+            config: legacy,
+            incidents: [{ incident_type: 'Emergency', incident_date: NOW }],
+            now: NOW,
+        });
+        assert.equal(result.breakdown.incidents, incidents.weights[0].points);
+    });
+
+    it('falls back to the default recommendations for a low score', () => {
+        const result = score({ age: 30 }, null);
+        assert.equal(result.riskLevel, 'Low');
+        assert.deepEqual(result.recommendations, DEFAULT_RISK_CONFIG.default_recommendations);
+    });
+});
+
+describe('risk model config', () => {
+    it('maps scores to levels at the thresholds', () => {
+        const levels = [0, 25, 50, 75].map((value) => riskLevelFor(value, DEFAULT_RISK_CONFIG.thresholds));
+        assert.deepEqual(levels, ['Low', 'Moderate', 'High', 'Critical']);
+    });
+
+    it('loads history as far back as the longest window', () => {
+        const configs = [{ incidents: { window_hours: 72 } }, { incidents: { window_hours: 168 } }, {}];
+        assert.deepEqual(incidentWindowStart(configs, NOW), hoursAgo(168));
+        // A model without incident settings loads the default window
+        assert.deepEqual(incidentWindowStart([{}], NOW), hoursAgo(DEFAULT_RISK_CONFIG.incidents.window_hours));
+    });
+
+    it('accepts the default model and rejects bands with min above max', () => {
+        assert.ok(parseRiskConfig(DEFAULT_RISK_CONFIG).config);
+        const broken = { ...DEFAULT_RISK_CONFIG, age: { bands: [{ min: 70, max: 60, points: 5 }] } };
+        assert.equal(parseRiskConfig(broken).error, 'age.bands: min must be below max');
+    });
+});
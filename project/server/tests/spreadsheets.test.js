@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { csvLine } from '../utils/spreadsheets.js';
+
+describe('csvLine', () => {
+    it('quotes commas, quotes and line breaks', () => {
+        assert.equal(csvLine(['Patil, Sunita', 'says "hi"', 'a\nb']), '"Patil, Sunita","says ""hi""","a\nb"\r\n');
+    });
+
+    it('keeps formulas in free text from running', () => {
+        assert.equal(
+            csvLine(['=HYPERLINK("http://evil.example","Click")', '+91 98220 11234', '-2+3', '@SUM(A1)', '\tTab']),
+            `"'=HYPERLINK(""http://evil.example"",""Click"")","'+91 98220 11234","'-2+3","'@SUM(A1)","'\tTab"\r\n`
+        );
+    });
+
+    it('leaves numbers and plain text alone', () => {
+        assert.equal(csvLine([-5, 36.6, 'Ramesh', null]), '-5,36.6,Ramesh,\r\n');
+    });
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { earsStatistics } from '../utils/surveillance.js';
+
+// Twelve bins, oldest first: the last one is the bin being tested
+const series = (baseline, ...recent) => [...baseline, ...recent];
+
+describe('earsStatistics', () => {
+    it('raises no method for a steady count', () => {
+        const stats = earsStatistics(new Array(12).fill(4));
+        assert.deepEqual(stats, { observed: 4, expected: 4, c1: 0, c2: 0, c3: 0, methods: [] });
+    });
+
+    it('raises C1, C2 and C3 for a sudden spike', () => {
+        const stats = earsStatistics(series([2, 3, 2, 3, 2, 3, 2, 3, 2, 3, 2], 12));
+        assert.equal(stats.observed, 12);
+        assert.deepEqual(stats.methods, ['C1', 'C2', 'C3']);
+    });
+
+    it('keeps the last bins out of the C2 baseline, so a two-bin rise still shows in C2', () => {
+        const stats = earsStatistics(series([2, 2, 3, 2, 2, 3, 2, 2, 3], 9, 10, 11));
+        assert.ok(stats.c2 > stats.c1);
+        assert.ok(stats.methods.includes('C2'));
+        assert.ok(!stats.methods.includes('C1'));
+    });
+
+    it('floors the standard deviation so a flat baseline does not turn one case into an alert', () => {
+        const stats = earsStatistics(series(new Array(11).fill(0), 2));
+        assert.equal(stats.c1, 2);
+        assert.deepEqual(stats.methods, []);
+    });
+
+    it('needs a minimum number of cases before alerting', () => {
+        const stats = earsStatistics(series(new Array(11).fill(0), 2));
+        assert.equal(stats.observed, 2);
+        assert.deepEqual(stats.methods, []);
+        assert.deepEqual(earsStatistics(series(new Array(11).fill(0), 5)).methods, ['C1', 'C2', 'C3']);
+    });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifySyndromes } from '../utils/syndromes.js';
+
+const classify = (symptoms, diagnosis = '', observations = []) => classifySyndromes({ symptoms, diagnosis, observations });
+
+describe('classifySyndromes', () => {
+    it('sorts English, Hindi and Marathi free text into syndromes', () => {
+        assert.deepEqual(classify('Vomiting and loose motions since morning'), ['gi']);
+        assert.deepEqual(classify('तेज़ बुखार और खांसी'), ['respiratory', 'fever']);
+        assert.deepEqual(classify('उष्माघात, चक्कर'), ['heat']);
+        assert.deepEqual(classify('Fell in the crowd', 'Fractured wrist'), ['injury']);
+    });
+
+    it('matches romanised Hindi terms as whole words', () => {
+        assert.deepEqual(classify('Dast 4 times'), ['gi']);
+        assert.deepEqual(classify('ultiyan aur bukhar'), ['gi', 'fever']);
+        assert.deepEqual(classify('Lost his dastavez at the ghat'), []);
+        assert.deepEqual(classify('Multiple blisters on feet'), []);
+    });
+
+    it('does not match English words that only start with a term', () => {
+        assert.deepEqual(classify('Vomitorium'), []);
+        assert.deepEqual(classify('Fallow skin, tired'), []);
+        assert.deepEqual(classify('Cuticle infection'), []);
+        assert.deepEqual(classify('Asks for a mild sedative'), []);
+    });
+
+    it('keeps a Devanagari word delimited from the one before it', () => {
+        assert.deepEqual(classify('लू लगी'), ['heat']);
+        assert.deepEqual(classify('तापमान सामान्य'), []);
+    });
+
+    it('puts an incident in every syndrome it matches, in SYNDROMES order', () => {
+        assert.deepEqual(classify('Heat stroke, fell and cut his forehead'), ['heat', 'injury']);
+    });
+
+    it('counts a recorded fever temperature even when the text does not say so', () => {
+        assert.deepEqual(classify('Weakness', '', [{ temperature_c: 38.6 }]), ['fever']);
+        assert.deepEqual(classify('Weakness', '', [{ temperature_c: 37.2 }]), []);
+    });
+});
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assessVitals, computeNews2, computeStartCategory, glucoseFlag, missingStartInputs, parseVitals } from '../utils/triage.js';
+
+const NORMAL = { respiratory_rate: 16, spo2: 98, on_oxygen: false, bp_systolic: 120, pulse: 72, avpu: 'A', temperature_c: 37 };
+
+describe('parseVitals', () => {
+    it('keeps recognised fields as numbers and drops the rest', () => {
+        const { vitals } = parseVitals({ pulse: '88', spo2: 97, avpu: 'V', ambulatory: true, note: 'x', gcs: '' });
+        assert.deepEqual(vitals, { pulse: 88, spo2: 97, avpu: 'V', ambulatory: true });
+    });
+
+    it('rejects values outside the plausible range', () => {
+        assert.equal(parseVitals({ spo2: 140 }).error, 'spo2 must be between 0 and 100');
+    });
+
+    it('rejects a diastolic pressure at or above the systolic', () => {
+        assert.match(parseVitals({ bp_systolic: 90, bp_diastolic: 95 }).error, /bp_diastolic/);
+    });
+
+    it('needs at least one vital sign', () => {
+        assert.ok(parseVitals({}).error);
+    });
+});
+
+describe('computeNews2', () => {
+    it('scores a healthy adult 0, low risk, with all seven parameters', () => {
+        assert.deepEqual(computeNews2(NORMAL), {
+            score: 0,
+            risk: 'low',
+            parts: { respiratory_rate: 0, spo2: 0, on_oxygen: 0, bp_systolic: 0, pulse: 0, consciousness: 0, temperature_c: 0 },
+            complete: true,
+        });
+    });
+
+    it('rates a single parameter scoring 3 as low-medium', () => {
+        const { score, risk } = computeNews2({ ...NORMAL, respiratory_rate: 26 });
+        assert.equal(score, 3);
+        assert.equal(risk, 'low_medium');
+    });
+
+    it('rates 5-6 as medium and 7 or more as high', () => {
+        assert.equal(computeNews2({ ...NORMAL, pulse: 115, spo2: 93, temperature_c: 38.5 }).risk, 'medium');
+        assert.equal(computeNews2({ ...NORMAL, respiratory_rate: 25, spo2: 90, bp_systolic: 88 }).risk, 'high');
+    });
+
+    it('treats GCS below 15 as not alert when AVPU is missing', () => {
+        const { avpu, ...rest } = NORMAL;
+        assert.equal(avpu, 'A');
+        assert.equal(computeNews2({ ...rest, gcs: 13 }).parts.consciousness, 3);
+    });
+
+    it('reports an incomplete set of observations', () => {
+        const { score, complete } = computeNews2({ pulse: 72 });
+        assert.equal(score, 0);
+        assert.equal(complete, false);
+    });
+});
+
+describe('computeStartCategory', () => {
+    it('tags the walking wounded green', () => {
+        assert.equal(computeStartCategory({ ambulatory: true, respiratory_rate: 40 }), 'green');
+    });
+
+    it('tags a patient not breathing black', () => {
+        assert.equal(computeStartCategory({ respiratory_rate: 0 }), 'black');
+    });
+
+    it('tags fast breathing, poor perfusion or not obeying commands red', () => {
+        assert.equal(computeStartCategory({ respiratory_rate: 34 }), 'red');
+        assert.equal(computeStartCategory({ respiratory_rate: 20, capillary_refill_s: 3 }), 'red');
+        assert.equal(computeStartCategory({ respiratory_rate: 20, bp_systolic: 75 }), 'red');
+        assert.equal(computeStartCategory({ respiratory_rate: 20, obeys_commands: false }), 'red');
+        assert.equal(computeStartCategory({ respiratory_rate: 20, avpu: 'P' }), 'red');
+    });
+
+    it('tags a non-walking patient with normal signs yellow', () => {
+        assert.equal(computeStartCategory({ ambulatory: false, respiratory_rate: 20, capillary_refill_s: 1, obeys_commands: true }), 'yellow');
+        assert.equal(computeStartCategory({ ambulatory: false, respiratory_rate: 20, bp_systolic: 120, avpu: 'A' }), 'yellow');
+    });
+
+    it('leaves the patient untriaged rather than guessing yellow', () => {
+        assert.equal(computeStartCategory({}), null);
+        assert.equal(computeStartCategory({ pulse: 80, spo2: 97 }), null);
+        assert.equal(computeStartCategory({ respiratory_rate: 20, capillary_refill_s: 1, obeys_commands: true }), null);
+    });
+
+    it('lists the START steps an observation has nothing for', () => {
+        assert.deepEqual(missingStartInputs({ pulse: 80 }), ['ambulatory', 'respiratory_rate', 'perfusion', 'mental_status']);
+        assert.deepEqual(missingStartInputs({ ambulatory: false, respiratory_rate: 18, gcs: 15 }), ['perfusion']);
+    });
+});
+
+describe('assessVitals', () => {
+    it('flags glucose outside 70-250 mg/dL', () => {
+        assert.equal(glucoseFlag({ blood_glucose_mg_dl: 55 }), 'hypoglycaemia');
+        assert.equal(glucoseFlag({ blood_glucose_mg_dl: 320 }), 'hyperglycaemia');
+        assert.equal(glucoseFlag({ blood_glucose_mg_dl: 110 }), null);
+    });
+
+    it('combines START, NEWS2 and the glucose flag', () => {
+        assert.deepEqual(assessVitals({ ...NORMAL, ambulatory: true, blood_glucose_mg_dl: 60 }), {
+            category: 'green',
+            start_missing: [],
+            news2_score: 0,
+            news2_risk: 'low',
+            news2_complete: true,
+            glucose_flag: 'hypoglycaemia',
+        });
+    });
+
+    it('says what to ask for when START has no colour', () => {
+        const { category, start_missing } = assessVitals({ pulse: 110, respiratory_rate: 22 });
+        assert.equal(category, null);
+        assert.deepEqual(start_missing, ['ambulatory', 'perfusion', 'mental_status']);
+    });
+});
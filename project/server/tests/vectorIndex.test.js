@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assignSlots, trainCentroids, VectorIndex } from '../utils/vectorIndex.js';
+
+const DIM = 8;
+
+// Points scattered around `clusters` well separated centres, one cluster after another
+function clustered(count, clusters, seed = 1) {
+    let state = seed;
+    const random = () => {
+        state = (state * 1103515245 + 12345) % 2 ** 31;
+        return state / 2 ** 31;
+    };
+    return Array.from({ length: count }, (_, i) => Array.from({ length: DIM }, (__, d) => (d === Math.floor((i * clusters) / count) ? 10 : 0) + random() * 0.5));
+}
+
+describe('k-means training', () => {
+    it('puts points from the same cluster in the same list', () => {
+        const points = clustered(200, 4);
+        const vectors = Float32Array.from(points.flat());
+        const slots = Int32Array.from(points.keys());
+        const centroids = trainCentroids(vectors, slots, { dim: DIM, nlist: 4, iterations: 8 });
+        const lists = assignSlots(vectors, slots, centroids, DIM);
+
+        for (let cluster = 0; cluster < 4; cluster += 1) {
+            const members = new Set(lists.slice(cluster * 50, (cluster + 1) * 50));
+            assert.equal(members.size, 1, `cluster ${cluster}`);
+        }
+        assert.equal(new Set(lists).size, 4);
+    });
+});
+
+describe('VectorIndex', () => {
+    it('searches by brute force before it is trained', () => {
+        const index = new VectorIndex({ dim: DIM, minTrainSize: 1000 });
+        clustered(50, 5).forEach((vector, i) => index.upsert(`p${i}`, vector, { sector: i % 2 ? 'odd' : 'even' }));
+
+        const [best] = index.search(clustered(50, 5)[7], { topK: 1 });
+        assert.equal(best.id, 'p7');
+        assert.equal(best.distance, 0);
+        const filtered = index.search(clustered(50, 5)[7], { topK: 3, filter: (meta) => meta.sector === 'even' });
+        assert.ok(filtered.every((match) => match.meta.sector === 'even'));
+    });
+
+    it('trains in the background and keeps vectors written meanwhile', async () => {
+        const index = new VectorIndex({ dim: DIM, minTrainSize: 400, nprobe: 2 });
+        const points = clustered(600, 6);
+        points.slice(0, 400).forEach((vector, i) => index.upsert(`p${i}`, vector));
+        assert.ok(index.training, 'training started');
+        assert.equal(index.nlist, 0, 'the old structure is still serving');
+
+        // Written while the worker trains on its copy
+        points.slice(400).forEach((vector, i) => index.upsert(`p${400 + i}`, vector));
+        index.remove('p0');
+        await index.whenTrained();
+
+        assert.ok(index.nlist > 0);
+        assert.equal(index.size, 599);
+        assert.equal(index.search(points[550], { topK: 1 })[0].id, 'p550');
+        assert.ok(index.search(points[0], { topK: 5 }).every((match) => match.id !== 'p0'));
+    });
+});
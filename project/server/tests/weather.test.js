@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getForecast, getWeather } from '../utils/weather.js';
+
+// Only the fixture: the manual provider would need MongoDB
+process.env.WEATHER_PROVIDERS = 'fixture';
+
+describe('weather fixture', () => {
+    it('marks a fixture reading as simulated', async () => {
+        const weather = await getWeather(undefined, { fresh: true });
+        assert.equal(weather.provider, 'fixture');
+        assert.equal(weather.simulated, true);
+    });
+
+    it('marks a fixture forecast as simulated', async () => {
+        const forecast = await getForecast(undefined, { fresh: true });
+        assert.equal(forecast.hours.length, 48);
+        assert.equal(forecast.simulated, true);
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * ABHA (Ayushman Bharat Health Account) numbers and the ABDM gateway.
+ *
+ * An ABHA number is 14 digits, written 91-1234-5678-9012. Pilgrims who have one
+ * can have their registration pre-filled from the health records linked to it.
+ * Pulling those records from the live ABDM network needs a registered HIU and the
+ * pilgrim's consent on their PHR app, so the gateway is pluggable (ABDM_GATEWAY)
+ * and the only one today is a stub serving FHIR bundles from a JSON file
+ * (ABDM_STUB_FILE, default data/abdmStub.json) keyed by ABHA number. Every fetch
+ * is made under an AbdmConsent recorded at the desk, whose id is passed on to
+ * the gateway.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Identifier systems ABDM and the NRCeS FHIR profiles use for ABHA numbers
+export const ABHA_SYSTEMS = ['https://healthid.abdm.gov.in', 'https://healthid.ndhm.gov.in'];
+export const ABHA_SYSTEM = ABHA_SYSTEMS[0];
+
+export const ABHA_NUMBER_PATTERN = /^\d{2}-\d{4}-\d{4}-\d{4}$/;
+
+/** "91 1234 5678 9012" or "91123456789012" -> "91-1234-5678-9012"; null when it is not 14 digits. */
+export function normalizeAbhaNumber(value) {
+    const digits = String(value || '').replace(/[\s-]/g, '');
+    if (!/^\d{14}$/.test(digits)) return null;
+    return `${digits.slice(0, 2)}-${digits.slice(2, 6)}-${digits.slice(6, 10)}-${digits.slice(10)}`;
+}
+
+const stub = {
+    name: 'stub',
+    // There is no consent manager behind the stub to check the consent against
+    async fetchBundle(abhaNumber) {
+        const file = process.env.ABDM_STUB_FILE || path.join(__dirname, '../data/abdmStub.json');
+        const data = JSON.parse(await fs.readFile(file, 'utf8'));
+        return data[abhaNumber] || null;
+    },
+};
+
+const GATEWAYS = { [stub.name]: stub };
+
+/**
+ * The FHIR bundle of health records linked to an ABHA number.
+ * @param options.consentId the AbdmConsent the fetch is made under
+ * @returns { bundle } | { error, status }
+ */
+export async function fetchAbdmBundle(abhaNumber, { consentId } = {}) {
+    const number = normalizeAbhaNumber(abhaNumber);
+    if (!number) return { error: 'ABHA number must be 14 digits', status: 400 };
+
+    const name = process.env.ABDM_GATEWAY || stub.name;
+    const gateway = GATEWAYS[name];
+    if (!gateway) return { error: `Unknown ABDM gateway "${name}"`, status: 503 };
+
+    const bundle = await gateway.fetchBundle(number, { consentId });
+    if (!bundle) return { error: 'No health records are linked to this ABHA number', status: 404 };
+    return { bundle };
+}
@@ -0,0 +1,60 @@
+import { AuditEvent } from '../models/AuditEvent.js';
+
+// Large binary-ish fields are logged as changed without copying their contents
+const REDACTED_FIELDS = ['photo_url', 'face_descriptor'];
+
+const normalize = (value) => {
+  if (value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+/**
+ * Compare two plain objects over the given fields and return
+ * [{ field, before, after }] for every field whose value changed.
+ */
+export function diffFields(before = {}, after = {}, fields = []) {
+  const changes = [];
+
+  fields.forEach((field) => {
+    const prev = normalize(before?.[field]);
+    const next = normalize(after?.[field]);
+
+    if (JSON.stringify(prev) === JSON.stringify(next)) return;
+
+    if (REDACTED_FIELDS.includes(field)) {
+      changes.push({ field, before: prev ? '[redacted]' : null, after: next ? '[redacted]' : null });
+    } else {
+      changes.push({ field, before: prev, after: next });
+    }
+  });
+
+  return changes;
+}
+
+export function getClientIp(req) {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (forwarded) return String(forwarded).split(',')[0].trim();
+  return req.ip || req.socket?.remoteAddress || '';
+}
+
+/**
+ * Append an audit event for the logged-in staff member on req.
+ * Pass a mongoose session to make the event part of the caller's transaction.
+ */
+export async function recordAudit(req, { action, devoteeId, targetId, changes = [] }, session) {
+  const [event] = await AuditEvent.create(
+    [
+      {
+        actor: { id: req.user.id, username: req.user.username, role: req.user.role },
+        action,
+        devotee_id: devoteeId,
+        target_id: targetId,
+        changes,
+        ip: getClientIp(req),
+      },
+    ],
+    session ? { session } : undefined
+  );
+  return event;
+}
@@ -0,0 +1,174 @@
+/**
+ * Possible duplicate registrations: the same pilgrim enrolled again at another camp.
+ *
+ * Four signals are checked: the same ABHA number, the same phone number, a close
+ * name with matching gender and age, and a near-identical registration photo.
+ * Families often share one phone, so a phone match on its own is only 'possible';
+ * an ABHA or face match, or a phone plus a close name, is 'likely'.
+ */
+import mongoose from 'mongoose';
+import { Devotee } from '../models/Devotee.js';
+import { normalizeAbhaNumber } from './abdm.js';
+import { phoneKey } from './phone.js';
+import { searchFaces } from './faceIndex.js';
+
+// Tighter than the face search default: only the same face, not a look-alike relative
+const FACE_DUPLICATE_THRESHOLD = 0.45;
+const NAME_LIKELY = 0.85;
+const NAME_POSSIBLE = 0.7;
+// Ages are often guessed at the desk
+const AGE_TOLERANCE = 3;
+const CANDIDATE_LIMIT = 50;
+const SUMMARY_FIELDS = 'registration_number full_name age gender phone abha_number photo_url group_id created_at';
+
+export const normalizeName = (name) => String(name || '').toLowerCase().replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+const sortTokens = (name) => name.split(' ').sort().join(' ');
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function levenshtein(a, b) {
+    if (a === b) return 0;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+const ratio = (a, b) => (a.length || b.length ? 1 - levenshtein(a, b) / Math.max(a.length, b.length) : 0);
+
+/**
+ * 0..1, ignoring case, punctuation and word order ("Patil Sunita" = "Sunita Patil").
+ */
+export function nameSimilarity(a, b) {
+    const x = normalizeName(a);
+    const y = normalizeName(b);
+    if (!x || !y) return 0;
+    return Math.round(Math.max(ratio(x, y), ratio(sortTokens(x), sortTokens(y))) * 100) / 100;
+}
+
+function summarize(devotee) {
+    return {
+        id: devotee._id.toString(),
+        registration_number: devotee.registration_number,
+        full_name: devotee.full_name,
+        age: devotee.age,
+        gender: devotee.gender,
+        phone: devotee.phone,
+        photo_url: devotee.photo_url || null,
+        group_id: devotee.group_id ? devotee.group_id.toString() : null,
+        created_at: devotee.created_at,
+    };
+}
+
+/**
+ * Registered devotees that may be the person described by `input`.
+ * @param input { full_name, age, gender, phone, abha_number?, face_descriptor? }
+ * @param options.excludeId a devotee to leave out (the record itself, when checking an existing one)
+ * @returns [{ devotee, confidence: 'likely' | 'possible', reasons, name_similarity, face_distance }] best first
+ */
+export async function findPossibleDuplicates(input, { excludeId, limit = 5 } = {}) {
+    const phone = phoneKey(input.phone);
+    const name = normalizeName(input.full_name);
+    const firstToken = name.split(' ')[0] || '';
+    const age = Number(input.age) || null;
+    const abhaNumber = normalizeAbhaNumber(input.abha_number);
+
+    const faceHits = Array.isArray(input.face_descriptor) && input.face_descriptor.length
+        ? searchFaces('devotees', input.face_descriptor, { topK: limit, threshold: FACE_DUPLICATE_THRESHOLD })
+        : [];
+    const faceDistance = new Map(faceHits.map((hit) => [hit.id, hit.distance]));
+
+    const queries = [];
+    if (abhaNumber) {
+        queries.push(Devotee.find({ abha_number: abhaNumber }, SUMMARY_FIELDS).limit(CANDIDATE_LIMIT).lean());
+    }
+    if (phone.length >= 10) {
+        queries.push(Devotee.find({ phone_key: phone }, SUMMARY_FIELDS).limit(CANDIDATE_LIMIT).lean());
+    }
+    if (firstToken.length >= 2) {
+        const demographic = {};
+        if (input.gender) demographic.gender = input.gender;
+        if (age) demographic.age = { $gte: age - AGE_TOLERANCE, $lte: age + AGE_TOLERANCE };
+        // Same first three letters catches most spelling variants; the text index catches reordered names
+        queries.push(
+            Devotee.find({ ...demographic, full_name: new RegExp(`^\\s*${escapeRegex(firstToken.slice(0, 3))}`, 'i') }, SUMMARY_FIELDS)
+                .limit(CANDIDATE_LIMIT)
+                .lean(),
+            Devotee.find({ ...demographic, $text: { $search: name } }, SUMMARY_FIELDS).limit(CANDIDATE_LIMIT).lean()
+        );
+    }
+    if (faceHits.length) {
+        queries.push(Devotee.find({ _id: { $in: faceHits.map((hit) => hit.id) } }, SUMMARY_FIELDS).lean());
+    }
+
+    const candidates = new Map();
+    (await Promise.all(queries)).flat().forEach((devotee) => candidates.set(devotee._id.toString(), devotee));
+    if (excludeId && mongoose.isValidObjectId(excludeId)) candidates.delete(excludeId.toString());
+
+    return rankMatches(input, candidates, { faceDistance, limit });
+}
+
+/**
+ * Registered devotees sharing a phone with each of `inputs`, from one query on
+ * phone_key. Bulk imports use this: their rows carry no ABHA number or photo, and
+ * a name search per row would cost several queries a row. A close name on the
+ * same phone is still 'likely'.
+ * @returns one list per input, as findPossibleDuplicates
+ */
+export async function findPhoneDuplicates(inputs, { limit = 5 } = {}) {
+    const keys = inputs.map((input) => phoneKey(input.phone));
+    const wanted = [...new Set(keys.filter((key) => key.length >= 10))];
+    const devotees = wanted.length
+        ? await Devotee.find({ phone_key: { $in: wanted } }, `${SUMMARY_FIELDS} phone_key`).lean()
+        : [];
+
+    const byKey = new Map();
+    devotees.forEach((devotee) => {
+        if (!byKey.has(devotee.phone_key)) byKey.set(devotee.phone_key, new Map());
+        byKey.get(devotee.phone_key).set(devotee._id.toString(), devotee);
+    });
+    return inputs.map((input, i) => rankMatches(input, byKey.get(keys[i]) || new Map(), { limit }));
+}
+
+// Why each candidate may be the person in `input`, best first; candidates is id -> devotee
+function rankMatches(input, candidates, { faceDistance = new Map(), limit }) {
+    const phone = phoneKey(input.phone);
+    const age = Number(input.age) || null;
+    const abhaNumber = normalizeAbhaNumber(input.abha_number);
+
+    const results = [];
+    candidates.forEach((devotee, id) => {
+        const similarity = nameSimilarity(input.full_name, devotee.full_name);
+        const samePhone = phone.length >= 10 && phoneKey(devotee.phone) === phone;
+        const sameDemographics = (!input.gender || devotee.gender === input.gender)
+            && (!age || Math.abs(devotee.age - age) <= AGE_TOLERANCE);
+        const distance = faceDistance.get(id);
+        const sameAbha = Boolean(abhaNumber) && devotee.abha_number === abhaNumber;
+
+        const reasons = [];
+        if (sameAbha) reasons.push('abha');
+        if (distance !== undefined) reasons.push('face');
+        if (samePhone) reasons.push('phone');
+        if (similarity >= NAME_POSSIBLE && sameDemographics) reasons.push('name_age_gender');
+        if (!reasons.length) return;
+
+        const likely = sameAbha || distance !== undefined
+            || (samePhone && similarity >= NAME_POSSIBLE)
+            || (similarity >= NAME_LIKELY && sameDemographics);
+
+        results.push({
+            devotee: summarize(devotee),
+            confidence: likely ? 'likely' : 'possible',
+            reasons,
+            name_similarity: similarity,
+            face_distance: distance ?? null,
+        });
+    });
+
+    const rank = (r) => (r.confidence === 'likely' ? 2 : 0) + r.reasons.length + r.name_similarity;
+    return results.sort((a, b) => rank(b) - rank(a)).slice(0, limit);
+}
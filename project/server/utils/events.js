@@ -0,0 +1,69 @@
+/**
+ * In-process event bus behind the live dashboards (GET /api/events/stream).
+ *
+ * Recent events are kept in a ring buffer so a client that reconnects with the
+ * id of the last event it saw gets what it missed. Ids carry the process start
+ * time, so after a restart (or when a client was away longer than the buffer
+ * reaches) the client is told to reload instead.
+ */
+import { PERMISSIONS, hasPermission } from './permissions.js';
+
+// Permission a staff member needs to receive each topic; null for everyone signed in
+export const EVENT_TOPICS = {
+    'risk.critical': PERMISSIONS.HIGH_RISK_READ,
+    'incident.created': PERMISSIONS.INCIDENTS_READ,
+    'incident.prescription_review': PERMISSIONS.INCIDENTS_READ,
+    'lost_person.reported': PERMISSIONS.LOST_FOUND_READ,
+    'face.match': PERMISSIONS.LOST_FOUND_READ,
+    'weather.alert': null,
+};
+
+const BUFFER_SIZE = 500;
+const BOOT_ID = Date.now().toString(36);
+
+const buffer = [];
+const subscribers = new Set();
+let sequence = 0;
+
+export const canReceive = (role, topic) => {
+    const permission = EVENT_TOPICS[topic];
+    return permission === null || (permission !== undefined && hasPermission(role, permission));
+};
+
+/**
+ * Publish an event to every connected subscriber of its topic.
+ * `critical` events are the ones dashboards raise an audible alert for.
+ */
+export function publish(topic, data, { critical = false } = {}) {
+    if (!(topic in EVENT_TOPICS)) throw new Error(`Unknown event topic: ${topic}`);
+
+    sequence++;
+    const event = { id: `${BOOT_ID}:${sequence}`, seq: sequence, topic, critical, at: new Date().toISOString(), data };
+    buffer.push(event);
+    if (buffer.length > BUFFER_SIZE) buffer.shift();
+
+    subscribers.forEach((subscriber) => {
+        if (subscriber.topics.has(topic)) subscriber.send(event);
+    });
+    return event;
+}
+
+/**
+ * Events after `lastEventId` on the given topics.
+ * @returns the events, or null when they can no longer be replayed
+ */
+export function eventsSince(lastEventId, topics) {
+    const [boot, seq] = String(lastEventId).split(':');
+    const lastSeq = Number(seq);
+    if (boot !== BOOT_ID || !Number.isInteger(lastSeq) || lastSeq > sequence) return null;
+    // The buffer no longer reaches back to the event after lastSeq
+    if (buffer.length && buffer[0].seq > lastSeq + 1) return null;
+    return buffer.filter((event) => event.seq > lastSeq && topics.has(event.topic));
+}
+
+// @returns an unsubscribe function
+export function subscribe(topics, send) {
+    const subscriber = { topics, send };
+    subscribers.add(subscriber);
+    return () => subscribers.delete(subscriber);
+}
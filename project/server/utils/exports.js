@@ -0,0 +1,205 @@
+/**
+ * Spreadsheet exports of devotees, medical records and incidents.
+ *
+ * Each dataset streams straight from a database cursor through the same
+ * formatDevotee / formatRecord / formatIncident serializers the API responds
+ * with, then flattens them into one row per document. Filters:
+ * - from / to: registration date for devotees and records, incident date for incidents
+ * - center_id: incidents seen at the center (first seen there, or an accepted
+ *   referral to it); for devotees and records, anyone with such an incident
+ * - risk_level: the devotee's current risk level
+ */
+import mongoose from 'mongoose';
+import { Devotee } from '../models/Devotee.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { RiskAssessment, RISK_LEVELS } from '../models/RiskAssessment.js';
+import { formatDevotee, formatRecord } from '../routes/devotees.js';
+import { formatIncident } from '../routes/incidents.js';
+import { codesOf, describeEntries } from './terminology.js';
+
+const BATCH_SIZE = 500;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const isoDate = (value) => (value ? new Date(value).toISOString() : '');
+
+/**
+ * Read export filters from a query string.
+ * @returns { filters } | { error }
+ */
+export function parseExportFilters(query = {}) {
+    const filters = {};
+    for (const key of ['from', 'to']) {
+        if (!query[key]) continue;
+        if (Number.isNaN(new Date(String(query[key])).getTime())) return { error: `${key} must be a date` };
+        // Kept as given, so the export log shows what was asked for
+        filters[key] = String(query[key]);
+    }
+    if (query.center_id) {
+        if (!mongoose.isValidObjectId(query.center_id)) return { error: 'Invalid center_id' };
+        filters.center_id = String(query.center_id);
+    }
+    if (query.risk_level) {
+        const levels = String(query.risk_level).split(',').map((level) => level.trim()).filter(Boolean);
+        const unknown = levels.filter((level) => !RISK_LEVELS.includes(level));
+        if (unknown.length) return { error: `risk_level must be one of ${RISK_LEVELS.join(', ')}` };
+        filters.risk_level = levels;
+    }
+    return { filters };
+}
+
+const dateRange = ({ from, to }) => {
+    const range = {};
+    if (from) range.$gte = new Date(from);
+    if (to) {
+        const end = new Date(to);
+        if (DATE_ONLY.test(to)) {
+            // A bare date includes that whole day
+            end.setUTCDate(end.getUTCDate() + 1);
+            range.$lt = end;
+        } else {
+            range.$lte = end;
+        }
+    }
+    return range;
+};
+
+const hasDateRange = (filters) => Boolean(filters.from || filters.to);
+
+const centerMatch = (centerId) => {
+    const id = new mongoose.Types.ObjectId(centerId);
+    return {
+        $or: [
+            { medical_center_id: id },
+            { referrals: { $elemMatch: { to_center_id: id, status: 'accepted' } } },
+        ],
+    };
+};
+
+// Devotee ids allowed by the center and risk filters; null when neither is set
+async function devoteeScope(filters) {
+    let ids = null;
+    const narrow = (list) => {
+        const allowed = new Set(list.map(String));
+        ids = ids ? ids.filter((id) => allowed.has(String(id))) : list;
+    };
+    if (filters.risk_level) {
+        narrow(await RiskAssessment.distinct('devotee_id', { risk_level: { $in: filters.risk_level } }));
+    }
+    if (filters.center_id) {
+        narrow(await MedicalIncident.distinct('devotee_id', centerMatch(filters.center_id)));
+    }
+    return ids;
+}
+
+async function* inBatches(cursor) {
+    let batch = [];
+    for await (const doc of cursor) {
+        batch.push(doc);
+        if (batch.length === BATCH_SIZE) {
+            yield batch;
+            batch = [];
+        }
+    }
+    if (batch.length) yield batch;
+}
+
+async function riskByDevotee(ids) {
+    const assessments = await RiskAssessment.find({ devotee_id: { $in: ids } }, 'devotee_id risk_level total_score').lean();
+    return new Map(assessments.map((a) => [a.devotee_id.toString(), a]));
+}
+
+async function devoteeCursor(filters) {
+    const filter = {};
+    if (hasDateRange(filters)) filter.created_at = dateRange(filters);
+    const ids = await devoteeScope(filters);
+    if (ids) filter._id = { $in: ids };
+    return Devotee.find(filter, '-face_descriptor -photo_url').sort({ created_at: 1 }).lean().cursor();
+}
+
+const DEVOTEE_COLUMNS = ['registration_number', 'full_name', 'age', 'gender', 'phone', 'emergency_contact_name',
+    'emergency_contact_phone', 'group_id', 'merged_registration_numbers', 'risk_level', 'risk_score', 'registered_at'];
+
+async function* devoteeRows(filters) {
+    for await (const batch of inBatches(await devoteeCursor(filters))) {
+        const risks = await riskByDevotee(batch.map((d) => d._id));
+        for (const doc of batch) {
+            const devotee = formatDevotee(doc, null);
+            const risk = risks.get(devotee.id);
+            yield [
+                devotee.registration_number, devotee.full_name, devotee.age, devotee.gender, devotee.phone,
+                devotee.emergency_contact_name, devotee.emergency_contact_phone, devotee.group_id?.toString() || '',
+                (devotee.aliases || []).join(' '), risk?.risk_level || '', risk?.total_score ?? '', isoDate(devotee.created_at),
+            ];
+        }
+    }
+}
+
+const RECORD_COLUMNS = ['registration_number', 'full_name', 'age', 'gender', 'blood_group', 'height_cm', 'weight_kg',
+    'allergies', 'chronic_conditions', 'chronic_condition_codes', 'current_medications', 'medication_codes',
+    'past_surgeries', 'special_notes', 'risk_level', 'updated_at'];
+
+async function* recordRows(filters) {
+    for await (const batch of inBatches(await devoteeCursor(filters))) {
+        const ids = batch.map((d) => d._id);
+        const [records, risks] = await Promise.all([
+            MedicalRecord.find({ devotee_id: { $in: ids } }).lean(),
+            riskByDevotee(ids),
+        ]);
+        const recordOf = new Map(records.map((r) => [r.devotee_id.toString(), r]));
+        for (const devotee of batch) {
+            const record = formatRecord(recordOf.get(devotee._id.toString()));
+            if (!record) continue;
+            yield [
+                devotee.registration_number, devotee.full_name, devotee.age, devotee.gender,
+                record.blood_group || '', record.height_cm ?? '', record.weight_kg ?? '',
+                describeEntries(record.allergies), describeEntries(record.chronic_conditions), codesOf(record.chronic_conditions).join(' '),
+                describeEntries(record.current_medications), codesOf(record.current_medications).join(' '),
+                describeEntries(record.past_surgeries), record.special_notes || '',
+                risks.get(devotee._id.toString())?.risk_level || '', isoDate(record.updated_at),
+            ];
+        }
+    }
+}
+
+const INCIDENT_COLUMNS = ['incident_id', 'incident_date', 'registration_number', 'full_name', 'incident_type', 'status',
+    'symptoms', 'diagnosis', 'syndromes', 'treatment_given', 'medications_prescribed', 'attending_doctor',
+    'medical_center', 'current_center', 'triage_category', 'news2_score', 'follow_up_required', 'follow_up_due',
+    'follow_up_status', 'closed_at'];
+
+async function* incidentRows(filters) {
+    const filter = {};
+    if (hasDateRange(filters)) filter.incident_date = dateRange(filters);
+    if (filters.center_id) Object.assign(filter, centerMatch(filters.center_id));
+    if (filters.risk_level) {
+        filter.devotee_id = { $in: await RiskAssessment.distinct('devotee_id', { risk_level: { $in: filters.risk_level } }) };
+    }
+
+    const cursor = MedicalIncident.find(filter).sort({ incident_date: 1 }).lean().cursor();
+    for await (const batch of inBatches(cursor)) {
+        const devotees = await Devotee.find(
+            { _id: { $in: batch.map((i) => i.devotee_id) } },
+            'registration_number full_name'
+        ).lean();
+        const devoteeOf = new Map(devotees.map((d) => [d._id.toString(), d]));
+        for (const doc of batch) {
+            const incident = formatIncident(doc);
+            const devotee = devoteeOf.get(incident.devotee_id);
+            yield [
+                incident.id, isoDate(incident.incident_date), devotee?.registration_number || '', devotee?.full_name || '',
+                incident.incident_type, incident.status, incident.symptoms, incident.diagnosis || '',
+                (incident.syndromes || []).join(' '), incident.treatment_given || '', incident.medications_prescribed || '',
+                incident.attending_doctor, incident.medical_center, incident.current_center || '',
+                incident.triage?.category || '', incident.triage?.news2_score ?? '', incident.follow_up_required ? 'yes' : 'no',
+                isoDate(incident.follow_up?.due_at), incident.follow_up?.status || '', isoDate(incident.closed_at),
+            ];
+        }
+    }
+}
+
+// Dataset -> columns and the rows that go under them
+export const EXPORT_DATASETS = {
+    devotees: { columns: DEVOTEE_COLUMNS, rows: devoteeRows, sheetName: 'Devotees' },
+    medical_records: { columns: RECORD_COLUMNS, rows: recordRows, sheetName: 'Medical records' },
+    incidents: { columns: INCIDENT_COLUMNS, rows: incidentRows, sheetName: 'Incidents' },
+};
@@ -0,0 +1,143 @@
+/**
+ * Face descriptor indexes shared by /api/devotees/search-by-face and
+ * /api/lost-found/match. Snapshots live on disk so a restart only replays
+ * documents changed since the last save instead of re-reading every vector.
+ */
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { VectorIndex } from './vectorIndex.js';
+import { Devotee } from '../models/Devotee.js';
+import { LostPerson } from '../models/LostPerson.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const INDEX_DIR = process.env.FACE_INDEX_DIR || path.join(__dirname, '../data/face-index');
+const SAVE_DELAY = 30 * 1000; // batch snapshot writes after bursts of registrations
+
+export const FACE_MATCH_DEFAULTS = {
+    topK: parseInt(process.env.FACE_MATCH_TOP_K, 10) || 10,
+    threshold: parseFloat(process.env.FACE_MATCH_THRESHOLD) || 0.6, // face-api.js default for 128-d vectors
+};
+
+const indexOptions = {
+    nprobe: parseInt(process.env.FACE_INDEX_NPROBE, 10) || 8,
+    minTrainSize: parseInt(process.env.FACE_INDEX_MIN_TRAIN, 10) || 4096,
+};
+
+// name -> { model, index, file, metaFor, saveTimer }
+const registry = {
+    devotees: {
+        model: Devotee,
+        metaFor: () => ({}),
+    },
+    lostPersons: {
+        model: LostPerson,
+        metaFor: (doc) => ({ status: doc.status }),
+    },
+};
+
+function entry(name) {
+    const item = registry[name];
+    if (!item?.index) {
+        throw new Error(`Face index "${name}" is not loaded`);
+    }
+    return item;
+}
+
+function scheduleSave(name) {
+    const item = registry[name];
+    if (item.saveTimer) return;
+    item.saveTimer = setTimeout(() => {
+        item.saveTimer = null;
+        item.index.save(item.file).catch((error) => console.error(`Failed to save face index "${name}"`, error));
+    }, SAVE_DELAY);
+    item.saveTimer.unref?.();
+}
+
+async function loadOne(name) {
+    const item = registry[name];
+    item.file = path.join(INDEX_DIR, name);
+
+    const filter = { face_descriptor: { $exists: true, $ne: null } };
+    const projection = { face_descriptor: 1, status: 1 };
+    const snapshot = await VectorIndex.load(item.file, indexOptions);
+    let index = snapshot?.index;
+
+    if (index) {
+        // Replay documents touched since the snapshot was written
+        const changed = await item.model
+            .find({ ...filter, updated_at: { $gte: snapshot.savedAt } }, projection)
+            .lean();
+        changed.forEach((doc) => index.upsert(doc._id.toString(), doc.face_descriptor, item.metaFor(doc)));
+
+        const total = await item.model.countDocuments(filter);
+        if (total !== index.size) {
+            console.warn(`Face index "${name}" snapshot is out of sync (${index.size} vs ${total}); rebuilding`);
+            index = null;
+        }
+    }
+
+    if (!index) {
+        index = new VectorIndex(indexOptions);
+        const cursor = item.model.find(filter, projection).lean().cursor();
+        for await (const doc of cursor) {
+            if (doc.face_descriptor?.length === index.dim) {
+                index.upsert(doc._id.toString(), doc.face_descriptor, item.metaFor(doc));
+            }
+        }
+    }
+
+    item.index = index;
+    await index.save(item.file);
+    console.log(`Face index "${name}" ready with ${index.size} vectors`);
+}
+
+export async function loadFaceIndexes() {
+    await Promise.all(Object.keys(registry).map(loadOne));
+}
+
+export async function saveFaceIndexes() {
+    await Promise.all(
+        Object.entries(registry)
+            .filter(([, item]) => item.index)
+            .map(([, item]) => {
+                clearTimeout(item.saveTimer);
+                item.saveTimer = null;
+                return item.index.save(item.file);
+            })
+    );
+}
+
+/**
+ * Keep an index in step with a created/updated document.
+ */
+export function indexFace(name, doc) {
+    const item = entry(name);
+    const id = doc._id.toString();
+    if (Array.isArray(doc.face_descriptor) && doc.face_descriptor.length === item.index.dim) {
+        item.index.upsert(id, doc.face_descriptor, item.metaFor(doc));
+    } else {
+        item.index.remove(id);
+    }
+    scheduleSave(name);
+}
+
+export function updateFaceMeta(name, id, meta) {
+    entry(name).index.updateMeta(id.toString(), meta);
+    scheduleSave(name);
+}
+
+export function removeFace(name, id) {
+    if (entry(name).index.remove(id.toString())) scheduleSave(name);
+}
+
+/**
+ * @returns [{ id, distance }] nearest first
+ */
+export function searchFaces(name, descriptor, { topK, threshold, filter } = {}) {
+    return entry(name).index.search(descriptor, {
+        topK: topK || FACE_MATCH_DEFAULTS.topK,
+        threshold: threshold || FACE_MATCH_DEFAULTS.threshold,
+        filter,
+    });
+}
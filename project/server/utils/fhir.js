@@ -0,0 +1,277 @@
+/**
+ * FHIR R4 export of one devotee, so a referral hospital can ingest the record.
+ *
+ * The bundle is a `collection` holding the Patient, their allergies, chronic
+ * conditions, past surgeries and current medicines from the medical record, and
+ * one Encounter per incident with its working diagnosis and every set of vitals
+ * as vital-signs Observations. Resources reference each other by urn:uuid, so the
+ * bundle stands on its own. Coded list entries carry their ICD-10 / ATC code when
+ * the vocabulary matched one; otherwise only the text is sent.
+ */
+import { randomUUID } from 'crypto';
+import { ABHA_SYSTEM } from './abdm.js';
+
+// Identifier and code systems for values that only mean something inside this system
+export const FHIR_SYSTEMS = {
+    registration: 'urn:kumbh-mela:registration-number',
+    devotee: 'urn:kumbh-mela:devotee-id',
+    incident: 'urn:kumbh-mela:incident-id',
+    local: 'urn:kumbh-mela:code',
+};
+
+// Vocabulary systems (see vocabulary.js) -> FHIR code system URIs
+export const CODE_SYSTEM_URIS = {
+    'ICD-10': 'http://hl7.org/fhir/sid/icd-10',
+    ATC: 'http://www.whocc.no/atc',
+    local: FHIR_SYSTEMS.local,
+};
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const CONDITION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const CONDITION_CLINICAL = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const ALLERGY_CLINICAL = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical';
+const ALLERGY_VERIFICATION = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification';
+const ACT_CODE = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+const CONTACT_ROLE = 'http://terminology.hl7.org/CodeSystem/v2-0131';
+
+const GENDERS = { Male: 'male', Female: 'female', Other: 'other' };
+
+const ENCOUNTER_STATUSES = {
+    open: 'in-progress',
+    under_treatment: 'in-progress',
+    referred: 'in-progress',
+    discharged: 'finished',
+    deceased: 'finished',
+    left_against_advice: 'finished',
+};
+
+const ENCOUNTER_CLASSES = {
+    Emergency: { system: ACT_CODE, code: 'EMER', display: 'emergency' },
+    Consultation: { system: ACT_CODE, code: 'AMB', display: 'ambulatory' },
+    'Follow-up': { system: ACT_CODE, code: 'AMB', display: 'ambulatory' },
+};
+
+const DISCHARGE_DISPOSITIONS = {
+    deceased: { code: 'exp', display: 'Expired' },
+    left_against_advice: { code: 'aadvice', display: 'Left against advice' },
+    discharged: { code: 'home', display: 'Home' },
+};
+
+// Observation field -> LOINC code and UCUM unit
+const VITAL_CODES = {
+    pulse: { code: '8867-4', display: 'Heart rate', unit: '/min' },
+    respiratory_rate: { code: '9279-1', display: 'Respiratory rate', unit: '/min' },
+    spo2: { code: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry', unit: '%' },
+    temperature_c: { code: '8310-5', display: 'Body temperature', unit: 'Cel' },
+    gcs: { code: '9269-2', display: 'Glasgow coma score total', unit: '{score}' },
+    blood_glucose_mg_dl: { code: '2339-0', display: 'Glucose [Mass/volume] in Blood', unit: 'mg/dL' },
+};
+
+const codeableConcept = (entry) => {
+    const concept = { text: entry.text || entry.display };
+    if (entry.code) {
+        concept.coding = [{ system: CODE_SYSTEM_URIS[entry.system] || FHIR_SYSTEMS.local, code: entry.code, display: entry.display }];
+    }
+    return concept;
+};
+
+const loinc = (code, display) => ({ coding: [{ system: LOINC, code, display }], text: display });
+const vitalSigns = [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'vital-signs', display: 'Vital Signs' }] }];
+const quantity = (value, unit) => ({ value, unit, system: UCUM, code: unit });
+const isoDate = (value) => (value ? new Date(value).toISOString() : undefined);
+
+// The export route passes the registration photo in as a data URL
+function photoAttachment(photoUrl) {
+    if (!photoUrl) return undefined;
+    const match = /^data:([^;]+);base64,(.*)$/.exec(photoUrl);
+    return match ? [{ contentType: match[1], data: match[2] }] : [{ url: photoUrl }];
+}
+
+function patientResource(devotee) {
+    return {
+        resourceType: 'Patient',
+        identifier: [
+            { use: 'official', system: FHIR_SYSTEMS.registration, value: devotee.registration_number },
+            // Numbers of duplicate registrations merged into this one
+            ...(devotee.aliases || []).map((alias) => ({ use: 'old', system: FHIR_SYSTEMS.registration, value: alias })),
+            { use: 'secondary', system: FHIR_SYSTEMS.devotee, value: devotee.id },
+            devotee.abha_number && { use: 'official', system: ABHA_SYSTEM, value: devotee.abha_number, type: { text: 'ABHA number' } },
+        ].filter(Boolean),
+        active: true,
+        name: [{ text: devotee.full_name }],
+        telecom: devotee.phone ? [{ system: 'phone', value: devotee.phone, use: 'mobile' }] : undefined,
+        gender: GENDERS[devotee.gender] || 'unknown',
+        photo: photoAttachment(devotee.photo_url),
+        contact: devotee.emergency_contact_name || devotee.emergency_contact_phone
+            ? [{
+                relationship: [{ coding: [{ system: CONTACT_ROLE, code: 'C', display: 'Emergency Contact' }] }],
+                name: { text: devotee.emergency_contact_name },
+                telecom: devotee.emergency_contact_phone ? [{ system: 'phone', value: devotee.emergency_contact_phone }] : undefined,
+            }]
+            : undefined,
+        // FHIR has no age element; registration only records age in years
+        extension: [{ url: 'urn:kumbh-mela:age-at-registration', valueAge: { value: devotee.age, unit: 'a', system: UCUM, code: 'a' } }],
+    };
+}
+
+function recordResources(record, patient) {
+    if (!record) return [];
+    const recorded = isoDate(record.updated_at);
+    const resources = [];
+
+    record.allergies.forEach((entry) => resources.push({
+        resourceType: 'AllergyIntolerance',
+        clinicalStatus: { coding: [{ system: ALLERGY_CLINICAL, code: 'active' }] },
+        // Declared by the pilgrim at registration
+        verificationStatus: { coding: [{ system: ALLERGY_VERIFICATION, code: 'unconfirmed' }] },
+        code: codeableConcept(entry),
+        patient,
+        recordedDate: recorded,
+    }));
+    record.chronic_conditions.forEach((entry) => resources.push({
+        resourceType: 'Condition',
+        clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: 'active' }] },
+        category: [{ coding: [{ system: CONDITION_CATEGORY, code: 'problem-list-item', display: 'Problem List Item' }] }],
+        code: codeableConcept(entry),
+        subject: patient,
+        recordedDate: recorded,
+    }));
+    record.past_surgeries.forEach((entry) => resources.push({
+        resourceType: 'Procedure',
+        status: 'completed',
+        code: codeableConcept(entry),
+        subject: patient,
+    }));
+    record.current_medications.forEach((entry) => resources.push({
+        resourceType: 'MedicationStatement',
+        status: 'active',
+        medicationCodeableConcept: codeableConcept(entry),
+        subject: patient,
+        dateAsserted: recorded,
+    }));
+
+    const measured = [
+        record.height_cm && { code: loinc('8302-2', 'Body height'), valueQuantity: quantity(record.height_cm, 'cm') },
+        record.weight_kg && { code: loinc('29463-7', 'Body weight'), valueQuantity: quantity(record.weight_kg, 'kg') },
+    ].filter(Boolean);
+    measured.forEach((observation) => resources.push({
+        resourceType: 'Observation',
+        status: 'final',
+        category: vitalSigns,
+        subject: patient,
+        effectiveDateTime: recorded,
+        ...observation,
+    }));
+    if (record.blood_group) {
+        resources.push({
+            resourceType: 'Observation',
+            status: 'final',
+            code: loinc('882-1', 'ABO and Rh group [Type] in Blood'),
+            subject: patient,
+            effectiveDateTime: recorded,
+            valueCodeableConcept: { text: record.blood_group },
+        });
+    }
+    return resources;
+}
+
+function observationResources(observation, patient, encounter) {
+    const base = {
+        resourceType: 'Observation',
+        status: 'final',
+        category: vitalSigns,
+        subject: patient,
+        encounter,
+        effectiveDateTime: isoDate(observation.recorded_at),
+    };
+    const resources = Object.entries(VITAL_CODES)
+        .filter(([field]) => observation[field] != null)
+        .map(([field, { code, display, unit }]) => ({
+            ...base,
+            code: loinc(code, display),
+            valueQuantity: quantity(observation[field], unit),
+        }));
+
+    if (observation.bp_systolic != null || observation.bp_diastolic != null) {
+        resources.push({
+            ...base,
+            code: loinc('85354-9', 'Blood pressure panel with all children optional'),
+            component: [
+                ['8480-6', 'Systolic blood pressure', observation.bp_systolic],
+                ['8462-4', 'Diastolic blood pressure', observation.bp_diastolic],
+            ]
+                .filter(([, , value]) => value != null)
+                .map(([code, display, value]) => ({ code: loinc(code, display), valueQuantity: quantity(value, 'mm[Hg]') })),
+        });
+    }
+    return resources;
+}
+
+function incidentResources(incident, patient) {
+    const encounterUrl = `urn:uuid:${randomUUID()}`;
+    const encounterRef = { reference: encounterUrl };
+    const status = incident.status || 'open';
+
+    const encounter = {
+        resourceType: 'Encounter',
+        identifier: [{ system: FHIR_SYSTEMS.incident, value: incident.id }],
+        status: ENCOUNTER_STATUSES[status] || 'unknown',
+        class: ENCOUNTER_CLASSES[incident.incident_type] || ENCOUNTER_CLASSES.Consultation,
+        type: [{ text: incident.incident_type }],
+        subject: patient,
+        period: { start: isoDate(incident.incident_date), end: isoDate(incident.closed_at) },
+        reasonCode: [{ text: incident.symptoms }],
+        participant: incident.attending_doctor ? [{ individual: { display: incident.attending_doctor } }] : undefined,
+        location: [{ location: { display: incident.current_center || incident.medical_center } }],
+        hospitalization: DISCHARGE_DISPOSITIONS[status]
+            ? { dischargeDisposition: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/discharge-disposition', ...DISCHARGE_DISPOSITIONS[status] }] } }
+            : undefined,
+    };
+
+    const resources = [];
+    if (incident.diagnosis) {
+        const conditionUrl = `urn:uuid:${randomUUID()}`;
+        encounter.diagnosis = [{ condition: { reference: conditionUrl } }];
+        resources.push([conditionUrl, {
+            resourceType: 'Condition',
+            category: [{ coding: [{ system: CONDITION_CATEGORY, code: 'encounter-diagnosis', display: 'Encounter Diagnosis' }] }],
+            code: { text: incident.diagnosis },
+            subject: patient,
+            encounter: encounterRef,
+            recordedDate: isoDate(incident.incident_date),
+        }]);
+    }
+    (incident.observations || []).forEach((observation) => {
+        observationResources(observation, patient, encounterRef).forEach((resource) => resources.push([null, resource]));
+    });
+    return [[encounterUrl, encounter], ...resources];
+}
+
+// JSON.stringify drops undefined, but some FHIR validators also reject empty arrays
+const compact = (value) => JSON.parse(JSON.stringify(value, (_key, v) => (Array.isArray(v) && v.length === 0 ? undefined : v)));
+
+/**
+ * FHIR R4 collection Bundle for one devotee.
+ * @param devotee formatDevotee output, medical_records included
+ * @param incidents formatIncident output
+ */
+export function buildDevoteeBundle(devotee, incidents = []) {
+    const patientUrl = `urn:uuid:${randomUUID()}`;
+    const patient = { reference: patientUrl, display: devotee.full_name };
+
+    const entries = [
+        [patientUrl, patientResource(devotee)],
+        ...recordResources(devotee.medical_records, patient).map((resource) => [null, resource]),
+        ...incidents.flatMap((incident) => incidentResources(incident, patient)),
+    ];
+
+    return compact({
+        resourceType: 'Bundle',
+        type: 'collection',
+        timestamp: new Date().toISOString(),
+        identifier: { system: FHIR_SYSTEMS.registration, value: devotee.registration_number },
+        entry: entries.map(([fullUrl, resource]) => ({ fullUrl: fullUrl || `urn:uuid:${randomUUID()}`, resource })),
+    });
+}
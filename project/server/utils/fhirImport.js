@@ -0,0 +1,191 @@
+/**
+ * Pre-fill a registration from a FHIR R4 Bundle: a discharge summary the pilgrim
+ * carries, a bundle exported by another camp, or records pulled via their ABHA number.
+ *
+ * The Patient gives name, age, gender, phone, emergency contact and ABHA number.
+ * Current allergies, conditions, medicines and past procedures become the medical
+ * record lists; resolved, refuted and stopped entries are left out, as are
+ * diagnoses of past encounters. The latest height, weight and blood group
+ * Observations fill those fields. Nothing is saved: the result is a
+ * CreateDevoteePayload for the desk to check and complete.
+ */
+import { CODE_SYSTEM_URIS } from './fhir.js';
+import { ABHA_SYSTEMS, normalizeAbhaNumber } from './abdm.js';
+import { codeRecordFields } from './terminology.js';
+
+const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+const GENDERS = { male: 'Male', female: 'Female', other: 'Other' };
+
+const LOINC_HEIGHT = '8302-2';
+const LOINC_WEIGHT = '29463-7';
+const LOINC_BLOOD_GROUP = ['882-1', '883-9'];
+const AGE_EXTENSION = 'urn:kumbh-mela:age-at-registration';
+
+const INACTIVE_CLINICAL = ['inactive', 'resolved', 'remission'];
+const REJECTED_VERIFICATION = ['refuted', 'entered-in-error'];
+const CURRENT_MEDICATION = ['active', 'intended', 'unknown', 'on-hold'];
+
+// Code system URI -> the vocabulary system codes are stored under
+const VOCABULARY_SYSTEMS = Object.fromEntries(Object.entries(CODE_SYSTEM_URIS).map(([system, uri]) => [uri, system]));
+
+const statusCode = (concept) => concept?.coding?.[0]?.code;
+const hasCategory = (resource, code) => (resource.category || []).some((c) => c.coding?.some((coding) => coding.code === code));
+const codesIn = (concept) => (concept?.coding || []).map((coding) => coding.code);
+
+// "Type 2 diabetes" with its ICD-10 / ATC code when the bundle uses one the vocabulary knows
+function entryFrom(concept) {
+    if (!concept) return null;
+    const coding = (concept.coding || []).find((c) => VOCABULARY_SYSTEMS[c.system] && c.code);
+    const text = concept.text || coding?.display || concept.coding?.find((c) => c.display)?.display || '';
+    if (!text && !coding) return null;
+    return { text, code: coding?.code || undefined };
+}
+
+function humanName(names = []) {
+    const name = names.find((n) => n.use === 'official') || names.find((n) => n.use !== 'old') || names[0];
+    if (!name) return '';
+    if (name.text) return name.text.trim();
+    return [...(name.given || []), name.family].filter(Boolean).join(' ').trim();
+}
+
+const phoneOf = (telecom = []) => {
+    const phones = telecom.filter((t) => t.system === 'phone' && t.value);
+    return (phones.find((t) => t.use === 'mobile') || phones[0])?.value || '';
+};
+
+function ageOf(patient, asOf = new Date()) {
+    if (patient.birthDate) {
+        const born = new Date(patient.birthDate);
+        if (!Number.isNaN(born.getTime())) {
+            let age = asOf.getUTCFullYear() - born.getUTCFullYear();
+            const birthday = new Date(Date.UTC(asOf.getUTCFullYear(), born.getUTCMonth(), born.getUTCDate()));
+            if (asOf < birthday) age -= 1;
+            return age;
+        }
+    }
+    return (patient.extension || []).find((e) => e.url === AGE_EXTENSION)?.valueAge?.value || 0;
+}
+
+function abhaNumberOf(patient) {
+    const identifier = (patient.identifier || []).find((id) => ABHA_SYSTEMS.includes(id.system))
+        || (patient.identifier || []).find((id) => /abha|health\s*id/i.test(id.type?.text || statusCode(id.type) || ''));
+    return normalizeAbhaNumber(identifier?.value);
+}
+
+function emergencyContact(patient) {
+    const contacts = patient.contact || [];
+    const contact = contacts.find((c) => (c.relationship || []).some((r) => ['C', 'EP'].includes(statusCode(r)))) || contacts[0];
+    if (!contact) return { name: '', phone: '' };
+    return { name: humanName(contact.name ? [contact.name] : []), phone: phoneOf(contact.telecom) };
+}
+
+// "O+", "O positive", "Group O Rh(D) positive" -> "O+"
+function bloodGroupOf(concept) {
+    const text = [concept?.text, ...(concept?.coding || []).map((c) => c.display)].filter(Boolean).join(' ');
+    const match = /\b(AB|A|B|O)\s*(?:group\s*)?(?:Rh\s*\(?D\)?\s*)?(\+|-|pos(?:itive)?|neg(?:ative)?|\+ve|-ve)/i.exec(text);
+    if (!match) return null;
+    const group = `${match[1].toUpperCase()}${/^(\+|pos|\+ve)/i.test(match[2]) ? '+' : '-'}`;
+    return BLOOD_GROUPS.includes(group) ? group : null;
+}
+
+function quantityIn(observation, unit, factor) {
+    const quantity = observation.valueQuantity;
+    if (quantity?.value == null) return null;
+    const code = quantity.code || quantity.unit;
+    if (code === unit) return quantity.value;
+    return factor[code] ? Math.round(quantity.value * factor[code] * 10) / 10 : null;
+}
+
+// Newest first, so the first match of each kind is the latest measurement
+const byEffectiveDesc = (a, b) =>
+    new Date(b.effectiveDateTime || b.issued || 0).getTime() - new Date(a.effectiveDateTime || a.issued || 0).getTime();
+
+/**
+ * Map a FHIR Bundle to a registration payload.
+ * @param options.clinical false to leave out everything but identity and contact details
+ * @returns { payload, warnings } | { error }
+ */
+export function bundleToRegistration(bundle, { clinical = true } = {}) {
+    if (!bundle || bundle.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+        return { error: 'Expected a FHIR Bundle with entries' };
+    }
+    const resources = bundle.entry.map((entry) => entry?.resource).filter(Boolean);
+    const ofType = (type) => resources.filter((resource) => resource.resourceType === type);
+    const warnings = [];
+
+    const patients = ofType('Patient');
+    if (!patients.length) return { error: 'The bundle has no Patient' };
+    if (patients.length > 1) warnings.push(`The bundle holds ${patients.length} patients; only the first was used`);
+    const patient = patients[0];
+
+    // MedicationStatement.medicationReference may point at a Medication elsewhere in the bundle
+    const byReference = new Map();
+    bundle.entry.forEach((entry) => {
+        const { resource, fullUrl } = entry || {};
+        if (!resource) return;
+        if (fullUrl) byReference.set(fullUrl, resource);
+        if (resource.id) byReference.set(`${resource.resourceType}/${resource.id}`, resource);
+    });
+
+    const allergies = ofType('AllergyIntolerance')
+        .filter((a) => !INACTIVE_CLINICAL.includes(statusCode(a.clinicalStatus)))
+        .filter((a) => !REJECTED_VERIFICATION.includes(statusCode(a.verificationStatus)))
+        .map((a) => entryFrom(a.code));
+
+    const conditions = ofType('Condition')
+        .filter((c) => !INACTIVE_CLINICAL.includes(statusCode(c.clinicalStatus)))
+        .filter((c) => !REJECTED_VERIFICATION.includes(statusCode(c.verificationStatus)));
+    const encounterDiagnoses = conditions.filter((c) => hasCategory(c, 'encounter-diagnosis'));
+    if (clinical && encounterDiagnoses.length) {
+        warnings.push(`${encounterDiagnoses.length} diagnosis(es) from past visits were left out; add any that are ongoing`);
+    }
+    const chronicConditions = conditions.filter((c) => !hasCategory(c, 'encounter-diagnosis')).map((c) => entryFrom(c.code));
+
+    const medications = ofType('MedicationStatement')
+        .filter((m) => !m.status || CURRENT_MEDICATION.includes(m.status))
+        .map((m) => entryFrom(m.medicationCodeableConcept || byReference.get(m.medicationReference?.reference)?.code));
+
+    const surgeries = ofType('Procedure')
+        .filter((p) => !['entered-in-error', 'not-done'].includes(p.status))
+        .map((p) => entryFrom(p.code));
+
+    const observations = ofType('Observation')
+        .filter((o) => !['entered-in-error', 'cancelled'].includes(o.status))
+        .sort(byEffectiveDesc);
+    const latest = (codes) => observations.find((o) => codesIn(o.code).some((code) => codes.includes(code)));
+    const height = latest([LOINC_HEIGHT]);
+    const weight = latest([LOINC_WEIGHT]);
+    const bloodGroup = latest(LOINC_BLOOD_GROUP);
+
+    const contact = emergencyContact(patient);
+    const payload = {
+        full_name: humanName(patient.name),
+        age: ageOf(patient),
+        gender: GENDERS[patient.gender] || null,
+        phone: phoneOf(patient.telecom),
+        abha_number: abhaNumberOf(patient),
+        emergency_contact_name: contact.name,
+        emergency_contact_phone: contact.phone,
+        blood_group: bloodGroup ? bloodGroupOf(bloodGroup.valueCodeableConcept || { text: bloodGroup.valueString }) : null,
+        height_cm: height ? quantityIn(height, 'cm', { m: 100, '[in_i]': 2.54 }) : null,
+        weight_kg: weight ? quantityIn(weight, 'kg', { g: 0.001, '[lb_av]': 0.4536 }) : null,
+        ...codeRecordFields({
+            allergies: allergies.filter(Boolean),
+            chronic_conditions: chronicConditions.filter(Boolean),
+            current_medications: medications.filter(Boolean),
+            past_surgeries: surgeries.filter(Boolean),
+        }),
+    };
+
+    if (!payload.full_name) warnings.push('The Patient has no name');
+    if (!payload.gender) warnings.push('The Patient has no gender, or it is unknown');
+    if (!payload.age) warnings.push('The Patient has no birth date');
+    if (!payload.phone) warnings.push('The Patient has no phone number');
+    if (clinical && bloodGroup && !payload.blood_group) warnings.push('The blood group could not be read');
+
+    if (!clinical) {
+        Object.assign(payload, { blood_group: null, height_cm: null, weight_kg: null, ...codeRecordFields({}) });
+    }
+
+    return { payload, warnings };
+}
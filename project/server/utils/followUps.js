@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { staffRef } from './staff.js';
+
+export const isOverdue = (followUp, now = new Date()) =>
+  followUp?.status === 'scheduled' && new Date(followUp.due_at) < now;
+
+export const formatFollowUp = (followUp) => followUp && {
+  ...followUp,
+  center_id: followUp.center_id?.toString() ?? null,
+  completion_incident_id: followUp.completion_incident_id?.toString() ?? null,
+  overdue: isOverdue(followUp),
+};
+
+/**
+ * Build a follow-up sub-document from { due_at, center_id }.
+ * Without a center_id the follow-up is booked at `fallbackCenter` ({ id, name }).
+ * @returns { followUp } or { error }
+ */
+export async function buildFollowUp(req, { due_at: dueAt, center_id: centerId }, fallbackCenter) {
+  const due = new Date(dueAt);
+  if (!dueAt || Number.isNaN(due.getTime())) {
+    return { error: 'follow-up due_at must be a valid date and time' };
+  }
+
+  let center = fallbackCenter || { id: undefined, name: '' };
+  if (centerId) {
+    const found = mongoose.isValidObjectId(centerId) ? await MedicalCenter.findById(centerId).lean() : null;
+    if (!found) return { error: 'Unknown follow-up center_id' };
+    center = { id: found._id, name: found.name };
+  }
+
+  return {
+    followUp: {
+      due_at: due,
+      center_id: center.id,
+      center: center.name,
+      status: 'scheduled',
+      scheduled_by: staffRef(req),
+    },
+  };
+}
+
+/**
+ * Mark the follow-up on `sourceId` as done by `completion`, a Follow-up incident for the same devotee.
+ * @returns { incident } (the updated source, lean) or { status, error }
+ */
+export async function completeFollowUp(req, sourceId, completion, session) {
+  if (!mongoose.isValidObjectId(sourceId)) {
+    return { status: 404, error: 'Incident not found' };
+  }
+  const source = await MedicalIncident.findById(sourceId).session(session || null).lean();
+  if (!source) return { status: 404, error: 'Incident not found' };
+  if (!source.follow_up) return { status: 400, error: 'Incident has no follow-up scheduled' };
+  if (source.follow_up.status !== 'scheduled') {
+    return { status: 409, error: `Follow-up is already ${source.follow_up.status}` };
+  }
+  if (completion.incident_type !== 'Follow-up') {
+    return { status: 400, error: 'Only a Follow-up incident can complete a follow-up' };
+  }
+  if (completion.devotee_id.toString() !== source.devotee_id.toString()) {
+    return { status: 400, error: 'Follow-up incident belongs to a different devotee' };
+  }
+  if (completion._id.toString() === source._id.toString()) {
+    return { status: 400, error: 'An incident cannot complete its own follow-up' };
+  }
+
+  const incident = await MedicalIncident.findOneAndUpdate(
+    { _id: source._id, 'follow_up.status': 'scheduled' },
+    {
+      $set: {
+        'follow_up.status': 'completed',
+        'follow_up.completed_at': new Date(),
+        'follow_up.completed_by': staffRef(req),
+        'follow_up.completion_incident_id': completion._id,
+      },
+    },
+    { new: true, session }
+  ).lean();
+  if (!incident) return { status: 409, error: 'Follow-up was completed by someone else' };
+
+  await MedicalIncident.updateOne({ _id: completion._id }, { $set: { follow_up_of: source._id } }, { session });
+  return { incident };
+}
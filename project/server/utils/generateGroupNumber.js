@@ -0,0 +1,8 @@
+import { customAlphabet } from 'nanoid';
+
+const nanoid = customAlphabet('0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ', 6);
+
+export function generateGroupNumber() {
+  const year = new Date().getFullYear();
+  return `KG${year}-${nanoid()}`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Family and travel groups as the desks see them: who is in the group, how each
+ * member is related to the leader, and who to phone when one of them goes missing.
+ * Summaries never carry medical data, so lost & found staff can be shown them.
+ */
+import mongoose from 'mongoose';
+import { Group } from '../models/Group.js';
+import { Devotee } from '../models/Devotee.js';
+
+const MEMBER_FIELDS = 'registration_number full_name age gender phone photo_url';
+
+/**
+ * @param group a lean Group document
+ * @param options.exclude devotee id left out of the member list (the person being looked up)
+ */
+export async function summarizeGroup(group, { exclude } = {}) {
+    const devotees = await Devotee.find({ _id: { $in: group.members.map((m) => m.devotee_id) } }, MEMBER_FIELDS).lean();
+    const byId = new Map(devotees.map((d) => [d._id.toString(), d]));
+    const leaderId = group.leader_id?.toString() || null;
+    const leader = leaderId ? byId.get(leaderId) : null;
+
+    const members = group.members
+        .filter((member) => byId.has(member.devotee_id.toString()))
+        .map((member) => {
+            const devotee = byId.get(member.devotee_id.toString());
+            return {
+                id: devotee._id.toString(),
+                registration_number: devotee.registration_number,
+                full_name: devotee.full_name,
+                age: devotee.age,
+                gender: devotee.gender,
+                phone: devotee.phone,
+                photo_url: devotee.photo_url || null,
+                relationship: member.relationship,
+                is_leader: devotee._id.toString() === leaderId,
+            };
+        })
+        .filter((member) => member.id !== exclude?.toString());
+
+    return {
+        id: group._id.toString(),
+        group_number: group.group_number,
+        name: group.name,
+        type: group.type,
+        contact_phone: group.contact_phone,
+        emergency_contact_name: group.emergency_contact_name,
+        emergency_contact_phone: group.emergency_contact_phone,
+        address: group.address || null,
+        tour_operator: group.tour_operator?.name ? group.tour_operator : null,
+        notes: group.notes,
+        leader: leader
+            ? { id: leaderId, full_name: leader.full_name, phone: leader.phone }
+            : null,
+        members,
+        created_at: group.created_at,
+    };
+}
+
+// The group a devotee travels with, summarised without that devotee; null if they came alone
+export async function findGroupOf(devoteeId) {
+    if (!devoteeId || !mongoose.isValidObjectId(devoteeId)) return null;
+    const group = await Group.findOne({ 'members.devotee_id': devoteeId }).lean();
+    return group ? summarizeGroup(group, { exclude: devoteeId }) : null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Health card QR payloads
+ * Format: KMSHC1.<devoteeId>.<issuedAt base36>.<signature>
+ * The signature is a truncated HMAC-SHA256 so the QR stays small enough
+ * to scan reliably off a printed card.
+ */
+import crypto from 'crypto';
+
+const PREFIX = 'KMSHC1';
+const SIGNATURE_BYTES = 16;
+
+function getSecret() {
+  const secret = process.env.HEALTH_CARD_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('Missing HEALTH_CARD_SECRET (or JWT_SECRET). Set it in a .env file.');
+  }
+  return secret;
+}
+
+function sign(body) {
+  return crypto.createHmac('sha256', getSecret()).update(body).digest().subarray(0, SIGNATURE_BYTES).toString('base64url');
+}
+
+export function signHealthCard(devoteeId, issuedAt = new Date()) {
+  const body = `${PREFIX}.${devoteeId}.${Math.floor(issuedAt.getTime() / 1000).toString(36)}`;
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * @returns { devoteeId, issuedAt } for a genuine card, otherwise null
+ */
+export function verifyHealthCard(payload) {
+  if (typeof payload !== 'string') return null;
+
+  const parts = payload.trim().split('.');
+  if (parts.length !== 4 || parts[0] !== PREFIX) return null;
+
+  const [, devoteeId, issued, signature] = parts;
+  const expected = Buffer.from(sign(parts.slice(0, 3).join('.')));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  return { devoteeId, issuedAt: new Date(parseInt(issued, 36) * 1000) };
+}
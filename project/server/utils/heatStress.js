@@ -0,0 +1,129 @@
+/**
+ * Heat stress from temperature and humidity, and the heat windows organisers plan
+ * water points and staff around.
+ *
+ * WBGT is estimated with the Australian Bureau of Meteorology approximation, which
+ * assumes fairly strong sun and light wind: about right for a crowd at the ghats at
+ * midday, and on the safe side at night.
+ */
+import { SNAN_DATES } from '../data/snanDates.js';
+
+export const HEAT_LEVELS = ['low', 'moderate', 'high', 'extreme'];
+
+// WBGT (°C) at which each level starts; strenuous walking in a crowd is unsafe from 'high'
+const WBGT_THRESHOLDS = { moderate: 28, high: 30, extreme: 32 };
+
+// Extra resources per sector for a heat window, on top of the standing deployment
+const PLAN_BY_LEVEL = {
+    high: { water_points: 2, medical_staff: 2, cooling_stations: 0 },
+    extreme: { water_points: 4, medical_staff: 4, cooling_stations: 1 },
+};
+// Bathing days bring several times the usual crowd to the ghats
+const SNAN_MULTIPLIER = 2;
+const TIME_ZONE = 'Asia/Kolkata';
+
+const round1 = (value) => Math.round(value * 10) / 10;
+
+/**
+ * NWS heat index (Rothfusz regression with its low and high humidity adjustments).
+ * @returns °C
+ */
+export function heatIndex(tempC, humidity) {
+    if (tempC == null || humidity == null) return null;
+    const T = (tempC * 9) / 5 + 32;
+    const R = humidity;
+    let hi = 0.5 * (T + 61 + (T - 68) * 1.2 + R * 0.094);
+    if ((hi + T) / 2 >= 80) {
+        hi = -42.379 + 2.04901523 * T + 10.14333127 * R - 0.22475541 * T * R - 0.00683783 * T * T
+            - 0.05481717 * R * R + 0.00122874 * T * T * R + 0.00085282 * T * R * R - 0.00000199 * T * T * R * R;
+        if (R < 13 && T >= 80 && T <= 112) {
+            hi -= ((13 - R) / 4) * Math.sqrt((17 - Math.abs(T - 95)) / 17);
+        } else if (R > 85 && T >= 80 && T <= 87) {
+            hi += ((R - 85) / 10) * ((87 - T) / 5);
+        }
+    }
+    return round1(((hi - 32) * 5) / 9);
+}
+
+/**
+ * Wet-bulb globe temperature (BoM approximation).
+ * @returns °C
+ */
+export function wbgt(tempC, humidity) {
+    if (tempC == null || humidity == null) return null;
+    // Water vapour pressure, hPa
+    const vapour = (humidity / 100) * 6.105 * Math.exp((17.27 * tempC) / (237.7 + tempC));
+    return round1(0.567 * tempC + 0.393 * vapour + 3.94);
+}
+
+export function heatLevel(wbgtC) {
+    if (wbgtC == null) return null;
+    if (wbgtC >= WBGT_THRESHOLDS.extreme) return 'extreme';
+    if (wbgtC >= WBGT_THRESHOLDS.high) return 'high';
+    if (wbgtC >= WBGT_THRESHOLDS.moderate) return 'moderate';
+    return 'low';
+}
+
+// Heat index, WBGT and level for a reading or forecast hour
+export const withHeatStress = (reading) => {
+    const wbgtC = wbgt(reading.temp, reading.humidity);
+    return { ...reading, heatIndex: heatIndex(reading.temp, reading.humidity), wbgt: wbgtC, heat_level: heatLevel(wbgtC) };
+};
+
+const localDate = (time) => new Date(time).toLocaleDateString('en-CA', { timeZone: TIME_ZONE });
+
+export function snanDatesBetween(from, to) {
+    const first = localDate(from);
+    const last = localDate(to);
+    return SNAN_DATES.filter((snan) => snan.date >= first && snan.date <= last);
+}
+
+function planFor(level, snan) {
+    const base = PLAN_BY_LEVEL[level];
+    const factor = snan ? SNAN_MULTIPLIER : 1;
+    return {
+        water_points: base.water_points * factor,
+        medical_staff: base.medical_staff * factor,
+        cooling_stations: base.cooling_stations * factor,
+    };
+}
+
+/**
+ * Runs of consecutive forecast hours at 'high' heat stress or worse, each with its
+ * peak and the extra water points and staff a sector should put out for it.
+ * @param hours hourly forecast entries from withHeatStress, in time order
+ */
+export function heatWindows(hours) {
+    const windows = [];
+    let current = null;
+
+    const close = () => {
+        if (!current) return;
+        const last = new Date(current.hours[current.hours.length - 1].time);
+        const snan = SNAN_DATES.find((s) => current.hours.some((h) => localDate(h.time) === s.date)) || null;
+        const level = current.hours.some((h) => h.heat_level === 'extreme') ? 'extreme' : 'high';
+        const peak = current.hours.reduce((a, b) => (b.wbgt > a.wbgt ? b : a));
+        windows.push({
+            start: current.hours[0].time,
+            end: new Date(last.getTime() + 60 * 60 * 1000),
+            level,
+            peak_at: peak.time,
+            peak_wbgt: peak.wbgt,
+            peak_heat_index: Math.max(...current.hours.map((h) => h.heatIndex)),
+            snan,
+            plan: planFor(level, snan),
+        });
+        current = null;
+    };
+
+    hours.forEach((hour) => {
+        if (hour.heat_level === 'high' || hour.heat_level === 'extreme') {
+            current = current || { hours: [] };
+            current.hours.push(hour);
+        } else {
+            close();
+        }
+    });
+    close();
+    return windows;
+}
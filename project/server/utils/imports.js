@@ -0,0 +1,538 @@
+/**
+ * Bulk import of pre-registered pilgrims from a spreadsheet.
+ *
+ * An upload is saved to the media store and read in the background, every data row
+ * becoming an ImportRow. Once the columns are mapped, a dry run checks each row
+ * against the Devotee and MedicalRecord schemas and flags likely duplicates, both of
+ * registered devotees sharing the phone number and of earlier rows in the same
+ * file. Importing then inserts the rows that passed in batches, one transaction per
+ * batch that also advances the job's cursor, so an interrupted job is resumed
+ * without skipping or repeating rows.
+ */
+import mongoose from 'mongoose';
+import { Devotee } from '../models/Devotee.js';
+import { ImportJob } from '../models/ImportJob.js';
+import { ImportRow } from '../models/ImportRow.js';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { findPhoneDuplicates, normalizeName } from './duplicates.js';
+import { phoneKey } from './phone.js';
+import { generateRegistrationNumber } from './generateRegistrationNumber.js';
+import { backendFor, currentBackend } from './mediaStorage.js';
+import { refreshRiskAssessments } from './riskAssessments.js';
+import { readSpreadsheet } from './spreadsheets.js';
+import { codeRecordFields } from './terminology.js';
+
+const UPLOAD_BATCH_SIZE = 1000;
+const VALIDATE_BATCH_SIZE = 200;
+const IMPORT_BATCH_SIZE = 200;
+const SAMPLE_ROWS = 5;
+export const MAX_IMPORT_ROWS = 300000;
+const REGISTRATION_NUMBER_ATTEMPTS = 3;
+const CONTENT_TYPES = { csv: 'text/csv', xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' };
+
+export const DEVOTEE_IMPORT_FIELDS = ['full_name', 'age', 'gender', 'phone', 'emergency_contact_name', 'emergency_contact_phone'];
+export const RECORD_IMPORT_FIELDS = ['blood_group', 'height_cm', 'weight_kg', 'allergies', 'chronic_conditions',
+    'current_medications', 'past_surgeries', 'special_notes'];
+export const IMPORT_FIELDS = [...DEVOTEE_IMPORT_FIELDS, ...RECORD_IMPORT_FIELDS];
+
+// Header spellings seen in operator sheets, compared without case, spaces or punctuation
+const HEADER_SYNONYMS = {
+    full_name: ['name', 'fullname', 'pilgrimname', 'devoteename', 'yatriname', 'passengername', 'naam'],
+    age: ['age', 'ageyears', 'umar', 'aayu'],
+    gender: ['gender', 'sex', 'ling'],
+    phone: ['phone', 'mobile', 'mobileno', 'mobilenumber', 'phoneno', 'phonenumber', 'contact', 'contactno', 'contactnumber'],
+    emergency_contact_name: ['emergencycontact', 'emergencycontactname', 'guardian', 'guardianname', 'relativename', 'nextofkin'],
+    emergency_contact_phone: ['emergencyphone', 'emergencycontactphone', 'emergencymobile', 'emergencycontactnumber',
+        'guardianphone', 'guardianmobile', 'relativephone', 'relativemobile'],
+    blood_group: ['bloodgroup', 'blood', 'bloodtype'],
+    height_cm: ['height', 'heightcm'],
+    weight_kg: ['weight', 'weightkg'],
+    allergies: ['allergies', 'allergy'],
+    chronic_conditions: ['chronicconditions', 'conditions', 'illness', 'disease', 'diseases', 'medicalconditions', 'comorbidities'],
+    current_medications: ['medications', 'currentmedications', 'medicines', 'medicine'],
+    past_surgeries: ['surgeries', 'pastsurgeries', 'surgery', 'operations'],
+    special_notes: ['notes', 'specialnotes', 'remarks', 'comments'],
+};
+
+const GENDERS = {
+    male: 'Male', m: 'Male', पुरुष: 'Male', purush: 'Male',
+    female: 'Female', f: 'Female', महिला: 'Female', स्त्री: 'Female', mahila: 'Female',
+    other: 'Other', o: 'Other', अन्य: 'Other',
+};
+
+const headerKey = (header) => String(header || '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/** Import field -> column index, for the headers that are recognised. */
+export function suggestMapping(headers) {
+    const keys = headers.map(headerKey);
+    const mapping = {};
+    Object.entries(HEADER_SYNONYMS).forEach(([field, synonyms]) => {
+        const index = keys.findIndex((key) => synonyms.includes(key));
+        if (index !== -1 && !Object.values(mapping).includes(index)) mapping[field] = index;
+    });
+    return mapping;
+}
+
+/**
+ * Check a mapping sent by the client.
+ * @returns { mapping, defaults } | { error }
+ */
+export function normalizeMapping(job, mapping = {}, defaults = {}) {
+    const cleanMapping = {};
+    const cleanDefaults = {};
+    for (const field of IMPORT_FIELDS) {
+        const column = mapping[field];
+        if (column !== undefined && column !== null && column !== '') {
+            const index = Number(column);
+            if (!Number.isInteger(index) || index < 0 || index >= job.headers.length) {
+                return { error: `Column for ${field} is not in the file` };
+            }
+            cleanMapping[field] = index;
+        }
+        if (typeof defaults[field] === 'string' && defaults[field].trim()) cleanDefaults[field] = defaults[field].trim();
+    }
+    const missing = DEVOTEE_IMPORT_FIELDS.filter((field) => cleanMapping[field] === undefined && !cleanDefaults[field]);
+    if (missing.length) {
+        return { error: `Map a column or give a default value for: ${missing.join(', ')}` };
+    }
+    return { mapping: cleanMapping, defaults: cleanDefaults };
+}
+
+const NUMERIC_FIELDS = ['age', 'height_cm', 'weight_kg'];
+
+const normalizeGender = (value) => GENDERS[value.toLowerCase()] || value;
+// "45 yrs" -> "45"; anything else is left for the schema to reject
+const normalizeNumber = (value) => value.match(/^\d+(\.\d+)?(?=\s*\p{L}*\.?$)/u)?.[0] ?? value;
+// "b +ve", "O pos" -> "B+", "O+"
+const normalizeBloodGroup = (value) => value.toUpperCase().replace(/\s+/g, '')
+    .replace(/(\+VE|POS(ITIVE)?)$/, '+')
+    .replace(/(-VE|NEG(ATIVE)?)$/, '-');
+
+/** The devotee and medical record fields one row maps to. */
+export function mapRow(values, job) {
+    const cell = (field) => {
+        const column = job.mapping?.[field];
+        const value = (column === undefined ? '' : String(values[column] ?? '').trim()) || job.defaults?.[field] || '';
+        return value && NUMERIC_FIELDS.includes(field) ? normalizeNumber(value) : value;
+    };
+
+    const devotee = {};
+    DEVOTEE_IMPORT_FIELDS.forEach((field) => {
+        const value = cell(field);
+        if (value) devotee[field] = field === 'gender' ? normalizeGender(value) : value;
+    });
+
+    const record = {};
+    RECORD_IMPORT_FIELDS.forEach((field) => {
+        const value = cell(field);
+        if (value) record[field] = field === 'blood_group' ? normalizeBloodGroup(value) : value;
+    });
+    return { devotee, record: { ...record, ...codeRecordFields(record) } };
+}
+
+const validationMessages = (doc) => {
+    const error = doc.validateSync();
+    return error ? Object.values(error.errors).map((e) => e.message) : [];
+};
+
+// Schema checks only; the registration number and devotee id are filled in on import
+function validateMapped({ devotee, record }) {
+    return [
+        ...validationMessages(new Devotee({ ...devotee, registration_number: 'PENDING' })),
+        ...validationMessages(new MedicalRecord({ ...record, devotee_id: new mongoose.Types.ObjectId() })),
+    ];
+}
+
+const dedupeKey = ({ full_name, phone }) => {
+    const name = normalizeName(full_name);
+    const key = phoneKey(phone);
+    return name && key ? `${key}|${name}` : null;
+};
+
+async function withTransaction(fn) {
+    const session = await mongoose.startSession();
+    try {
+        let result;
+        await session.withTransaction(async () => {
+            result = await fn(session);
+        });
+        return result;
+    } finally {
+        session.endSession();
+    }
+}
+
+/**
+ * Save an uploaded sheet and create its job; the rows are read in the background
+ * (see readUpload), so a large file doesn't hold the request open.
+ * @returns { job }
+ */
+export async function createImportJob(req, { buffer, filename, format }) {
+    const _id = new mongoose.Types.ObjectId();
+    const backend = currentBackend();
+    const key = `imports/${_id}.${format}`;
+    await backend.put(key, buffer, CONTENT_TYPES[format]);
+
+    const job = await ImportJob.create({
+        _id,
+        filename,
+        format,
+        file: { backend: backend.name, key, size: buffer.length },
+        status: 'uploading',
+        phase: 'upload',
+        created_by: { id: req.user.id, username: req.user.username, full_name: req.user.full_name },
+        started_at: new Date(),
+    });
+    runImportJob(job._id);
+    return { job };
+}
+
+// Stop reading a sheet that can't be imported; its rows are dropped, the file is kept for a resume
+async function failUpload(job, message) {
+    await ImportRow.deleteMany({ job_id: job._id });
+    await ImportJob.updateOne({ _id: job._id, status: 'uploading' }, { status: 'failed', error: message, finished_at: new Date() });
+    return true;
+}
+
+/**
+ * Read the uploaded sheet into ImportRows, starting over if an earlier attempt
+ * was interrupted. The first non-blank row is the header row.
+ * @returns true when the job no longer needs reading
+ */
+async function readUpload(job) {
+    const backend = job.file?.key ? backendFor(job.file) : null;
+    if (!backend) return failUpload(job, 'The uploaded file is no longer available; upload it again');
+
+    await ImportRow.deleteMany({ job_id: job._id });
+    const rows = readSpreadsheet(await backend.read(job.file.key), job.format);
+    const header = await rows.next();
+    if (header.done) return failUpload(job, 'The file has no rows');
+
+    let batch = [];
+    let seq = 0;
+    const sample = [];
+    // Progress for the client's poll; stops early when the job is cancelled
+    const flush = async () => {
+        if (batch.length) await ImportRow.insertMany(batch);
+        batch = [];
+        const { matchedCount } = await ImportJob.updateOne({ _id: job._id, status: 'uploading' }, { $set: { total_rows: seq } });
+        return matchedCount > 0;
+    };
+
+    for await (const row of rows) {
+        if (seq >= MAX_IMPORT_ROWS) {
+            return failUpload(job, `Files are limited to ${MAX_IMPORT_ROWS} rows; split the sheet and upload each part`);
+        }
+        if (sample.length < SAMPLE_ROWS) sample.push(row.cells);
+        batch.push({ job_id: job._id, seq, row_number: row.row_number, values: row.cells });
+        seq += 1;
+        if (batch.length === UPLOAD_BATCH_SIZE && !(await flush())) return true;
+    }
+    if (!(await flush())) return true;
+
+    const headers = header.value.cells.map((cell, i) => cell || `Column ${i + 1}`);
+    await ImportJob.updateOne(
+        { _id: job._id, status: 'uploading' },
+        { $set: { headers, sample, mapping: suggestMapping(headers), 'file.key': null } }
+    );
+    await backend.remove(job.file.key)
+        .catch((error) => console.error('Failed to remove import file', error));
+    return true;
+}
+
+/**
+ * Validate the next batch of rows: schema checks, duplicates of registered devotees,
+ * and repeats of an earlier row in the same file.
+ * @returns true when every row has been checked
+ */
+async function validateBatch(job) {
+    const rows = await ImportRow.find({ job_id: job._id, seq: { $gte: job.cursor } })
+        .sort({ seq: 1 })
+        .limit(VALIDATE_BATCH_SIZE)
+        .lean();
+    if (!rows.length) return true;
+
+    const mapped = rows.map((row) => mapRow(row.values, job));
+    const keys = mapped.map(({ devotee }) => dedupeKey(devotee));
+
+    // Earliest row of each key among rows already checked
+    const earlier = await ImportRow.find(
+        { job_id: job._id, seq: { $lt: rows[0].seq }, dedupe_key: { $in: keys.filter(Boolean) } },
+        'dedupe_key row_number'
+    ).sort({ seq: 1 }).lean();
+    const firstRowOf = new Map();
+    earlier.forEach((row) => {
+        if (!firstRowOf.has(row.dedupe_key)) firstRowOf.set(row.dedupe_key, row.row_number);
+    });
+
+    const issues = mapped.map(validateMapped);
+    // One indexed lookup for the whole batch rather than a search per row
+    const matches = await findPhoneDuplicates(mapped.map(({ devotee }) => devotee), { limit: 3 });
+
+    const counts = { valid: 0, invalid: 0, duplicate: 0 };
+    const ops = rows.map((row, i) => {
+        const key = keys[i];
+        const duplicateOfRow = key ? firstRowOf.get(key) ?? null : null;
+        if (key && duplicateOfRow === null) firstRowOf.set(key, row.row_number);
+
+        const duplicates = (issues[i].length ? [] : matches[i]).map(({ devotee, confidence, reasons }) => ({
+            devotee_id: devotee.id,
+            registration_number: devotee.registration_number,
+            full_name: devotee.full_name,
+            confidence,
+            reasons,
+        }));
+        let status = 'valid';
+        if (issues[i].length) status = 'invalid';
+        else if (duplicateOfRow !== null || duplicates.some((d) => d.confidence === 'likely')) status = 'duplicate';
+        counts[status] += 1;
+
+        return {
+            updateOne: {
+                filter: { _id: row._id },
+                update: { $set: { status, issues: issues[i], dedupe_key: key, duplicate_of_row: duplicateOfRow, duplicates } },
+            },
+        };
+    });
+
+    await withTransaction(async (session) => {
+        await ImportRow.bulkWrite(ops, { session });
+        await ImportJob.updateOne(
+            { _id: job._id },
+            {
+                $set: { cursor: rows[rows.length - 1].seq + 1 },
+                $inc: {
+                    'counts.validated': rows.length,
+                    'counts.valid': counts.valid,
+                    'counts.invalid': counts.invalid,
+                    'counts.duplicate': counts.duplicate,
+                },
+            },
+            { session }
+        );
+    });
+    return false;
+}
+
+const isDuplicateKeyError = (error) => error?.code === 11000 || error?.writeErrors?.some?.((e) => e.code === 11000);
+
+/**
+ * Insert the next batch of importable rows in one transaction with the cursor.
+ * @returns true when nothing is left to import
+ */
+async function importBatch(job) {
+    const statuses = job.import_duplicates ? ['valid', 'duplicate'] : ['valid'];
+    const rows = await ImportRow.find({ job_id: job._id, seq: { $gte: job.cursor }, status: { $in: statuses } })
+        .sort({ seq: 1 })
+        .limit(IMPORT_BATCH_SIZE)
+        .lean();
+    if (!rows.length) return true;
+
+    const mapped = rows.map((row) => mapRow(row.values, job));
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const devoteeIds = await withTransaction(async (session) => {
+                const devotees = await Devotee.insertMany(
+                    mapped.map(({ devotee }) => ({ ...devotee, registration_number: generateRegistrationNumber() })),
+                    { session }
+                );
+                await MedicalRecord.insertMany(
+                    devotees.map((devotee, i) => ({ ...mapped[i].record, devotee_id: devotee._id })),
+                    { session }
+                );
+                await ImportRow.bulkWrite(
+                    rows.map((row, i) => ({
+                        updateOne: {
+                            filter: { _id: row._id },
+                            update: { $set: { status: 'imported', devotee_id: devotees[i]._id, registration_number: devotees[i].registration_number } },
+                        },
+                    })),
+                    { session }
+                );
+                await ImportJob.updateOne(
+                    { _id: job._id },
+                    { $set: { cursor: rows[rows.length - 1].seq + 1 }, $inc: { 'counts.imported': rows.length } },
+                    { session }
+                );
+                return devotees.map((devotee) => devotee._id);
+            });
+            await refreshRiskAssessments(devoteeIds);
+            return false;
+        } catch (error) {
+            // A generated registration number already taken: try the batch again with fresh ones
+            if (!isDuplicateKeyError(error) || attempt >= REGISTRATION_NUMBER_ATTEMPTS) throw error;
+        }
+    }
+}
+
+// Action -> statuses a job may take it from
+const IMPORT_TRANSITIONS = {
+    map: ['uploaded', 'validated', 'failed'],
+    start: ['validated'],
+    resume: ['uploading', 'validating', 'importing', 'failed'],
+    cancel: ['uploading', 'uploaded', 'validating', 'validated', 'importing', 'failed'],
+    finish: ['uploading', 'validating', 'importing'],
+};
+
+const PHASE_STATUSES = { upload: 'uploading', validate: 'validating', import: 'importing' };
+const FINISHED = { uploading: 'uploaded', validating: 'validated', importing: 'completed' };
+
+const TRANSITION_TARGETS = {
+    // A job that failed while importing keeps its validation; it can only be resumed
+    map: (job) => (job.status === 'failed' && job.phase !== 'validate' ? null : 'validating'),
+    start: () => 'importing',
+    resume: (job) => PHASE_STATUSES[job.phase],
+    cancel: () => 'cancelled',
+    finish: (job) => FINISHED[job.status],
+};
+
+/**
+ * The status a job moves to on an action ('map', 'start', 'resume', 'cancel' or
+ * 'finish' for the end of a phase), or null when it cannot from where it is.
+ */
+export function nextImportStatus(job, action) {
+    if (!IMPORT_TRANSITIONS[action]?.includes(job.status)) return null;
+    return TRANSITION_TARGETS[action](job);
+}
+
+// Jobs being worked on by this server
+const running = new Set();
+
+export const isImportRunning = (jobId) => running.has(String(jobId));
+
+async function processJob(jobId) {
+    for (;;) {
+        const job = await ImportJob.findById(jobId).lean();
+        // Cancelled, or moved on by someone else
+        if (!job || !nextImportStatus(job, 'finish')) return;
+
+        const step = { uploading: readUpload, validating: validateBatch, importing: importBatch }[job.status];
+        const done = await step(job);
+        if (done) {
+            await ImportJob.updateOne(
+                { _id: job._id, status: job.status },
+                { status: nextImportStatus(job, 'finish'), finished_at: new Date() }
+            );
+            return;
+        }
+    }
+}
+
+/** Work through an uploading, validating or importing job in the background. */
+export function runImportJob(jobId) {
+    const id = String(jobId);
+    if (running.has(id)) return;
+    running.add(id);
+    processJob(id)
+        .catch(async (error) => {
+            console.error('Import job failed', error);
+            await ImportJob.updateOne({ _id: id }, { status: 'failed', error: error.message })
+                .catch((e) => console.error('Failed to mark import job as failed', e));
+        })
+        .finally(() => running.delete(id));
+}
+
+/**
+ * Apply a column mapping and start the dry run. Any earlier dry run is discarded.
+ * @returns { job } | { error, status }
+ */
+export async function startValidation(jobId, { mapping, defaults }) {
+    const job = await ImportJob.findById(jobId);
+    if (!job) return { error: 'Import not found', status: 404 };
+    if (!nextImportStatus(job, 'map') || isImportRunning(job._id)) {
+        return { error: `The mapping cannot be changed while the import is ${job.status}`, status: 409 };
+    }
+
+    const checked = normalizeMapping(job, mapping, defaults);
+    if (checked.error) return { error: checked.error, status: 400 };
+
+    await ImportRow.updateMany(
+        { job_id: job._id },
+        { $set: { status: 'pending', issues: [], dedupe_key: null, duplicate_of_row: null, duplicates: [] } }
+    );
+    Object.assign(job, {
+        mapping: checked.mapping,
+        defaults: checked.defaults,
+        status: 'validating',
+        phase: 'validate',
+        cursor: 0,
+        counts: { validated: 0, valid: 0, invalid: 0, duplicate: 0, imported: 0 },
+        error: '',
+        started_at: new Date(),
+        finished_at: null,
+    });
+    await job.save();
+    runImportJob(job._id);
+    return { job };
+}
+
+/**
+ * Start inserting the rows that passed the dry run.
+ * @returns { job } | { error, status }
+ */
+export async function startImport(jobId, { importDuplicates = false } = {}) {
+    const job = await ImportJob.findOneAndUpdate(
+        { _id: jobId, status: { $in: IMPORT_TRANSITIONS.start } },
+        {
+            status: 'importing',
+            phase: 'import',
+            cursor: 0,
+            'counts.imported': 0,
+            import_duplicates: Boolean(importDuplicates),
+            error: '',
+            started_at: new Date(),
+            finished_at: null,
+        },
+        { new: true }
+    );
+    if (!job) {
+        const exists = await ImportJob.exists({ _id: jobId });
+        return exists ? { error: 'Only an import that has finished its dry run can be started', status: 409 } : { error: 'Import not found', status: 404 };
+    }
+    runImportJob(job._id);
+    return { job };
+}
+
+/**
+ * Pick up a failed or interrupted job from its cursor.
+ * @returns { job } | { error, status }
+ */
+export async function resumeImportJob(jobId) {
+    const job = await ImportJob.findById(jobId);
+    if (!job) return { error: 'Import not found', status: 404 };
+    if (isImportRunning(job._id)) return { job };
+
+    const status = nextImportStatus(job, 'resume');
+    if (!status) return { error: `A ${job.status} import cannot be resumed`, status: 409 };
+
+    job.status = status;
+    job.error = '';
+    await job.save();
+    runImportJob(job._id);
+    return { job };
+}
+
+/**
+ * Stop a job after its current batch. Rows already imported stay registered.
+ * @returns { job } | { error, status }
+ */
+export async function cancelImportJob(jobId) {
+    const job = await ImportJob.findOneAndUpdate(
+        { _id: jobId, status: { $in: IMPORT_TRANSITIONS.cancel } },
+        { status: 'cancelled', finished_at: new Date() },
+        { new: true }
+    );
+    if (!job) {
+        const exists = await ImportJob.exists({ _id: jobId });
+        return exists ? { error: 'The import has already finished', status: 409 } : { error: 'Import not found', status: 404 };
+    }
+    return { job };
+}
+
+// After a restart, carry on with the jobs that were in progress
+export async function resumeImportJobs() {
+    const jobs = await ImportJob.find({ status: { $in: IMPORT_TRANSITIONS.finish } }, '_id').lean();
+    jobs.forEach((job) => runImportJob(job._id));
+    return jobs.length;
+}
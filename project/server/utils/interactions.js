@@ -0,0 +1,239 @@
+/**
+ * Prescribing-time safety checks: what is being prescribed against the
+ * devotee's recorded allergies and the medicines they already take.
+ *
+ * This is a small local knowledge base of the drugs stocked at the camps,
+ * not a complete interaction database. 'blocking' findings need a written
+ * override reason before the incident can be saved; 'warning' findings are
+ * shown and stored but do not stop the save.
+ */
+import mongoose from 'mongoose';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { toCodedEntries } from './terminology.js';
+import { staffRef } from './staff.js';
+
+// Drug (ATC code) -> pharmacological classes the rules below are written against
+const DRUG_CLASSES = {
+  'J01CA04': ['penicillin'],
+  'J01CR02': ['penicillin'],
+  'J01DD08': ['cephalosporin'],
+  'J01DD04': ['cephalosporin'],
+  'J01EE01': ['sulfonamide'],
+  'J01MA02': ['fluoroquinolone'],
+  'J01FA10': ['macrolide'],
+  'M01AE01': ['nsaid'],
+  'M01AE02': ['nsaid'],
+  'M01AB05': ['nsaid'],
+  'B01AC06': ['nsaid', 'salicylate', 'antiplatelet'],
+  'B01AC04': ['antiplatelet'],
+  'B01AA03': ['anticoagulant'],
+  'C09AA02': ['ace_inhibitor'],
+  'C09AA05': ['ace_inhibitor'],
+  'C09CA01': ['arb'],
+  'C09CA07': ['arb'],
+  'C03CA01': ['loop_diuretic'],
+  'C07AB02': ['beta_blocker'],
+  'C07AB03': ['beta_blocker'],
+  'A10BB12': ['sulfonylurea'],
+  'A10AB': ['insulin'],
+  'H02AB06': ['corticosteroid'],
+  'N03AB02': ['enzyme_inducer'],
+  'N03AG01': ['valproate'],
+};
+
+/**
+ * Allergen code -> classes it rules out. Cross-reactivity that is real but
+ * uncommon (penicillin -> cephalosporin) is a warning rather than a block.
+ */
+const ALLERGY_RULES = {
+  'ALG-PENICILLIN': [
+    { classes: ['penicillin'], severity: 'blocking', reason: 'Recorded penicillin allergy' },
+    { classes: ['cephalosporin'], severity: 'warning', reason: 'Penicillin allergy: small risk of cross-reaction with cephalosporins' },
+  ],
+  'ALG-SULFA': [
+    { classes: ['sulfonamide'], severity: 'blocking', reason: 'Recorded sulfonamide allergy' },
+  ],
+  'ALG-NSAID': [
+    { classes: ['nsaid'], severity: 'blocking', reason: 'Recorded NSAID allergy' },
+  ],
+  'ALG-ASPIRIN': [
+    { classes: ['salicylate'], severity: 'blocking', reason: 'Recorded aspirin allergy' },
+    { classes: ['nsaid'], severity: 'warning', reason: 'Aspirin allergy: other NSAIDs often cross-react' },
+  ],
+};
+
+// Any drug at all, when the devotee only told us "medicines" without saying which
+const UNSPECIFIED_DRUG_ALLERGY = 'ALG-DRUG';
+
+/** Pairs of classes that should not be given together. */
+const INTERACTION_RULES = [
+  { between: ['anticoagulant', 'nsaid'], severity: 'blocking', reason: 'Warfarin with an NSAID: high risk of serious bleeding' },
+  { between: ['anticoagulant', 'antiplatelet'], severity: 'blocking', reason: 'Warfarin with an antiplatelet: high risk of serious bleeding' },
+  { between: ['anticoagulant', 'sulfonamide'], severity: 'blocking', reason: 'Co-trimoxazole sharply raises warfarin levels (INR)' },
+  { between: ['anticoagulant', 'fluoroquinolone'], severity: 'warning', reason: 'Ciprofloxacin can raise warfarin levels (INR); check before discharge' },
+  { between: ['anticoagulant', 'macrolide'], severity: 'warning', reason: 'Macrolides can raise warfarin levels (INR)' },
+  { between: ['ace_inhibitor', 'arb'], severity: 'blocking', reason: 'ACE inhibitor with an ARB: risk of kidney injury and high potassium' },
+  { between: ['ace_inhibitor', 'nsaid'], severity: 'warning', reason: 'NSAID with an ACE inhibitor can cause kidney injury, worse when dehydrated' },
+  { between: ['arb', 'nsaid'], severity: 'warning', reason: 'NSAID with an ARB can cause kidney injury, worse when dehydrated' },
+  { between: ['loop_diuretic', 'nsaid'], severity: 'warning', reason: 'NSAID blunts the diuretic and strains the kidneys' },
+  { between: ['antiplatelet', 'nsaid'], severity: 'warning', reason: 'NSAID with an antiplatelet raises the risk of stomach bleeding' },
+  { between: ['corticosteroid', 'nsaid'], severity: 'warning', reason: 'NSAID with a steroid raises the risk of stomach bleeding' },
+  { between: ['sulfonylurea', 'fluoroquinolone'], severity: 'warning', reason: 'Fluoroquinolones can cause severe low blood sugar with sulfonylureas' },
+  { between: ['insulin', 'beta_blocker'], severity: 'warning', reason: 'Beta blockers can hide the warning signs of low blood sugar' },
+  { between: ['enzyme_inducer', 'valproate'], severity: 'warning', reason: 'Phenytoin and valproate change each other\'s levels' },
+];
+
+const classesOf = (entry) => (entry.code && DRUG_CLASSES[entry.code]) || [];
+
+const drugRef = (entry, source) => ({ code: entry.code, display: entry.display, source });
+
+/**
+ * Check prescribed drugs against recorded allergies and current medications.
+ * Inputs may be coded entry arrays or comma strings (prescriptions are typed free text).
+ * @returns { medications, warnings: [{ key, type, severity, reason, drugs, allergen? }], blocking }
+ */
+export function checkPrescription({ prescribed, allergies, currentMedications }) {
+  const medications = toCodedEntries('drug', prescribed);
+  const allergyEntries = toCodedEntries('allergen', allergies);
+  const current = toCodedEntries('drug', currentMedications);
+  const warnings = [];
+
+  const add = (warning) => {
+    if (!warnings.some((w) => w.key === warning.key)) warnings.push(warning);
+  };
+
+  medications.forEach((drug) => {
+    const classes = classesOf(drug);
+
+    allergyEntries.forEach((allergen) => {
+      if (allergen.code === UNSPECIFIED_DRUG_ALLERGY) {
+        add({
+          key: `allergy:${allergen.code}:${drug.code || drug.text}`,
+          type: 'allergy',
+          severity: 'warning',
+          reason: 'Devotee reports a drug allergy without naming the drug; confirm before giving',
+          drugs: [drugRef(drug, 'prescribed')],
+          allergen: { code: allergen.code, display: allergen.display },
+        });
+        return;
+      }
+      (ALLERGY_RULES[allergen.code] || []).forEach((rule) => {
+        if (!rule.classes.some((c) => classes.includes(c))) return;
+        add({
+          key: `allergy:${allergen.code}:${drug.code}`,
+          type: 'allergy',
+          severity: rule.severity,
+          reason: rule.reason,
+          drugs: [drugRef(drug, 'prescribed')],
+          allergen: { code: allergen.code, display: allergen.display },
+        });
+      });
+    });
+
+    if (drug.code && current.some((c) => c.code === drug.code)) {
+      add({
+        key: `duplicate:${drug.code}`,
+        type: 'duplicate',
+        severity: 'warning',
+        reason: 'Devotee already takes this medicine',
+        drugs: [drugRef(drug, 'prescribed'), drugRef(drug, 'current')],
+      });
+    }
+  });
+
+  // Every pair among the new drugs, and every new drug against what they already take
+  const pairs = [];
+  medications.forEach((drug, i) => {
+    medications.slice(i + 1).forEach((other) => pairs.push([drugRef(drug, 'prescribed'), drugRef(other, 'prescribed'), drug, other]));
+    current.forEach((other) => {
+      if (other.code !== drug.code) pairs.push([drugRef(drug, 'prescribed'), drugRef(other, 'current'), drug, other]);
+    });
+  });
+
+  pairs.forEach(([refA, refB, a, b]) => {
+    const classesA = classesOf(a);
+    const classesB = classesOf(b);
+    INTERACTION_RULES.forEach((rule) => {
+      const [x, y] = rule.between;
+      const matches = (classesA.includes(x) && classesB.includes(y)) || (classesA.includes(y) && classesB.includes(x));
+      if (!matches) return;
+      add({
+        key: `interaction:${[a.code, b.code].sort().join('+')}:${x}+${y}`,
+        type: 'interaction',
+        severity: rule.severity,
+        reason: rule.reason,
+        drugs: [refA, refB],
+      });
+    });
+  });
+
+  return { medications, warnings, blocking: warnings.some((w) => w.severity === 'blocking') };
+}
+
+/**
+ * Check a prescription against the devotee's medical record.
+ * @returns { medications, warnings, blocking } as checkPrescription
+ */
+export async function checkForDevotee(devoteeId, prescribed) {
+  const record = mongoose.isValidObjectId(devoteeId)
+    ? await MedicalRecord.findOne({ devotee_id: devoteeId }).lean()
+    : null;
+  return checkPrescription({
+    prescribed,
+    allergies: record?.allergies,
+    currentMedications: record?.current_medications,
+  });
+}
+
+// Sent by the client's sync queue on a replayed mutation, with the time it was queued
+export const OFFLINE_REPLAY_HEADER = 'X-Offline-Replay';
+export const RECORDED_AT_HEADER = 'X-Recorded-At';
+
+/**
+ * Whether a request is a queued offline replay. The replay header alone is not
+ * trusted: a queued mutation always carries its Idempotency-Key and the time it
+ * was queued, which must be before the request arrived.
+ */
+export function isOfflineReplay(req, now = Date.now()) {
+  if (req.get(OFFLINE_REPLAY_HEADER) !== '1' || !req.get('Idempotency-Key')) return false;
+  const recordedAt = Date.parse(req.get(RECORDED_AT_HEADER) || '');
+  return Number.isFinite(recordedAt) && recordedAt < now;
+}
+
+/**
+ * Check the prescription being saved on an incident. Every blocking warning must be
+ * acknowledged by key in `override.keys`, with a written `override.reason`.
+ *
+ * An incident recorded offline was written without these warnings and the patient
+ * may have left with the medicine, so refusing it would only lose the record.
+ * With `recordedOffline` (see isOfflineReplay) it is accepted instead, flagged for
+ * a clinician to review.
+ * @returns { check } to store as the incident's prescription_check, or { error, warnings }
+ */
+export async function reviewPrescription(req, devoteeId, prescribed, override, options) {
+  return decidePrescription(req, await checkForDevotee(devoteeId, prescribed), override, options);
+}
+
+/** reviewPrescription, once the prescription has been checked. */
+export function decidePrescription(req, { medications, warnings }, override, { recordedOffline = false } = {}) {
+  const blockingKeys = warnings.filter((w) => w.severity === 'blocking').map((w) => w.key);
+  const acknowledged = Array.isArray(override?.keys) ? override.keys : [];
+  const reason = typeof override?.reason === 'string' ? override.reason.trim() : '';
+
+  const unacknowledged = blockingKeys.some((key) => !acknowledged.includes(key)) || (blockingKeys.length && !reason);
+  if (unacknowledged && recordedOffline) {
+    return { check: { checked_at: new Date(), medications, warnings, review: { status: 'pending', keys: blockingKeys, flagged_at: new Date() } } };
+  }
+  if (unacknowledged) {
+    return { error: 'The prescription conflicts with the devotee\'s allergies or medicines; give a reason to override', warnings };
+  }
+
+  return {
+    check: {
+      checked_at: new Date(),
+      medications,
+      warnings,
+      override: blockingKeys.length ? { reason, keys: blockingKeys, by: staffRef(req), at: new Date() } : undefined,
+    },
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Registration and lost person photos, kept out of MongoDB.
+ *
+ * An image is stored once (deduplicated by hash) as three variants: the
+ * original as an auto-rotated JPEG without EXIF data, a WebP for profile views
+ * and a small square WebP thumbnail for lists. Documents reference it with
+ * photo_url "media:<id>"; API responses swap that for signed, expiring URLs
+ * (see middleware/mediaUrls.js) so an <img> tag can load it without a token.
+ */
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import { Media } from '../models/Media.js';
+import { backendFor, currentBackend } from './mediaStorage.js';
+
+export const MEDIA_REF_PREFIX = 'media:';
+
+const HOUR = 60 * 60;
+const URL_TTL = parseInt(process.env.MEDIA_URL_TTL, 10) || 6 * HOUR; // seconds; outlasts a duty shift's open tabs
+const SIGNATURE_BYTES = 16;
+
+const VARIANTS = {
+    original: { ext: 'jpg', contentType: 'image/jpeg', render: (image) => image.resize(1600, 1600, { fit: 'inside', withoutEnlargement: true }).jpeg({ quality: 85 }) },
+    display: { ext: 'webp', contentType: 'image/webp', render: (image) => image.resize(640, 640, { fit: 'inside', withoutEnlargement: true }).webp({ quality: 80 }) },
+    thumb: { ext: 'webp', contentType: 'image/webp', render: (image) => image.resize(160, 160, { fit: 'cover' }).webp({ quality: 70 }) },
+};
+
+const DATA_URL = /^data:image\/[\w.+-]+;base64,/;
+const REF = /^media:([a-f0-9]{24})$/;
+// One of our own signed URLs, as sent back when an edited profile keeps its photo
+const SIGNED_PATH = /\/media\/files\/([a-f0-9]{24})\/\w+\?/;
+
+function getSecret() {
+    const secret = process.env.MEDIA_SIGNING_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('Missing MEDIA_SIGNING_SECRET (or JWT_SECRET). Set it in a .env file.');
+    }
+    return secret;
+}
+
+function sign(id, variant, expires) {
+    return crypto.createHmac('sha256', getSecret()).update(`${id}.${variant}.${expires}`).digest().subarray(0, SIGNATURE_BYTES).toString('base64url');
+}
+
+export const isMediaRef = (value) => typeof value === 'string' && REF.test(value);
+export const mediaIdOf = (ref) => REF.exec(ref)?.[1] || null;
+export const isDataUrl = (value) => typeof value === 'string' && DATA_URL.test(value);
+export const decodeDataUrl = (value) => Buffer.from(value.replace(DATA_URL, ''), 'base64');
+
+/**
+ * Store an image and its variants; the same bytes return the existing media.
+ * @returns { media } | { error, status }
+ */
+export async function storeImage(buffer, { uploadedBy = null, source = 'upload' } = {}) {
+    const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+    const existing = await Media.findOne({ sha256 });
+    if (existing) return { media: existing };
+
+    try {
+        await sharp(buffer).metadata();
+    } catch {
+        return { error: 'Not a readable image', status: 400 };
+    }
+
+    const backend = currentBackend();
+    const _id = new mongoose.Types.ObjectId();
+    const variants = [];
+    for (const [name, variant] of Object.entries(VARIANTS)) {
+        // rotate() with no angle applies the EXIF orientation; sharp drops the metadata on output
+        const { data, info } = await variant.render(sharp(buffer).rotate()).toBuffer({ resolveWithObject: true });
+        const key = `${_id}/${name}.${variant.ext}`;
+        await backend.put(key, data, variant.contentType);
+        variants.push({ name, key, content_type: variant.contentType, width: info.width, height: info.height, size: info.size });
+    }
+
+    try {
+        const media = await Media.create({ _id, backend: backend.name, variants, sha256, source, uploaded_by: uploadedBy });
+        return { media };
+    } catch (error) {
+        if (error.code !== 11000) throw error;
+        // The same photo was stored by a request that finished first: keep that one and drop our files
+        await Promise.all(variants.map((variant) => backend.remove(variant.key)))
+            .catch((removeError) => console.error('Failed to remove duplicate photo files', removeError));
+        return { media: await Media.findOne({ sha256 }) };
+    }
+}
+
+/**
+ * The photo_url to save for what a client sent: a data URL is stored and
+ * replaced by its ref, a ref or one of our signed URLs is kept as a ref.
+ * @returns { ref } | { error, status }
+ */
+export async function photoRefFrom(value, { uploadedBy = null } = {}) {
+    if (!value) return { ref: null };
+    if (typeof value !== 'string') return { error: 'photo_url must be a string', status: 400 };
+
+    if (isDataUrl(value)) {
+        const result = await storeImage(decodeDataUrl(value), { uploadedBy, source: 'inline' });
+        return result.error ? result : { ref: `${MEDIA_REF_PREFIX}${result.media._id}` };
+    }
+
+    const id = mediaIdOf(value) || SIGNED_PATH.exec(value)?.[1];
+    if (!id) return { error: 'photo_url must be an uploaded photo or an image data URL', status: 400 };
+    if (!(await Media.exists({ _id: id }))) return { error: 'Photo not found', status: 400 };
+    return { ref: `${MEDIA_REF_PREFIX}${id}` };
+}
+
+/** Signed URL for one variant, valid until the end of the hour URL_TTL from now so repeat responses stay cacheable. */
+export function signedMediaUrl(baseUrl, id, variant) {
+    const expires = Math.ceil((Date.now() / 1000 + URL_TTL) / HOUR) * HOUR;
+    return `${baseUrl}/media/files/${id}/${variant}?expires=${expires}&signature=${sign(id, variant, expires)}`;
+}
+
+export function verifyMediaSignature(id, variant, expires, signature) {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now() || typeof signature !== 'string') return false;
+
+    const expected = Buffer.from(sign(id, variant, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** Where signed URLs point: MEDIA_PUBLIC_URL (the API's public address behind a proxy), else the host the request came in on. */
+export function mediaBaseUrl(req) {
+    return (process.env.MEDIA_PUBLIC_URL || `${req.protocol}://${req.get('host')}/api`).replace(/\/$/, '');
+}
+
+/** The stored file of one variant. @returns { media, variant, backend } | null */
+export async function findVariant(id, name) {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const media = await Media.findById(id).lean();
+    const variant = media?.variants.find((v) => v.name === name);
+    const backend = media && backendFor(media);
+    return variant && backend ? { media, variant, backend } : null;
+}
+
+/** The original as a data URL, for documents that carry the image itself (FHIR exports). Anything else is returned unchanged. */
+export async function photoDataUrl(photoUrl) {
+    if (!isMediaRef(photoUrl)) return photoUrl;
+    const found = await findVariant(mediaIdOf(photoUrl), 'original');
+    if (!found) return null;
+    const buffer = await found.backend.read(found.variant.key);
+    return `data:${found.variant.content_type};base64,${buffer.toString('base64')}`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Where photo files (and import sheets waiting to be read) live. MEDIA_STORAGE picks the backend:
+ *  - local (default): files under MEDIA_DIR (default project/media)
+ *  - s3: an S3-compatible bucket (AWS S3 or MinIO) from S3_BUCKET, S3_REGION,
+ *    S3_ENDPOINT, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY. Setting S3_ENDPOINT
+ *    switches to path-style addressing, which MinIO needs.
+ *
+ * Each backend stores, streams, removes and (where it can) hands out a presigned link
+ * so the file is served straight from the bucket instead of through the API.
+ */
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const local = {
+    name: 'local',
+    file(key) {
+        const root = path.resolve(process.env.MEDIA_DIR || path.join(__dirname, '../../media'));
+        const file = path.resolve(root, key);
+        if (!file.startsWith(root + path.sep)) throw new Error(`Invalid media key "${key}"`);
+        return file;
+    },
+    async put(key, buffer) {
+        const file = this.file(key);
+        await fsp.mkdir(path.dirname(file), { recursive: true });
+        await fsp.writeFile(file, buffer);
+    },
+    async read(key) {
+        return fsp.readFile(this.file(key));
+    },
+    open(key) {
+        return fs.createReadStream(this.file(key));
+    },
+    async remove(key) {
+        await fsp.rm(this.file(key), { force: true });
+    },
+    async presign() {
+        return null;
+    },
+};
+
+let s3Client = null;
+
+const s3 = {
+    name: 's3',
+    client() {
+        if (!s3Client) {
+            if (!process.env.S3_BUCKET) throw new Error('Missing S3_BUCKET. Set it in a .env file.');
+            s3Client = new S3Client({
+                region: process.env.S3_REGION || 'us-east-1',
+                endpoint: process.env.S3_ENDPOINT || undefined,
+                forcePathStyle: Boolean(process.env.S3_ENDPOINT),
+                credentials: process.env.S3_ACCESS_KEY_ID
+                    ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+                    : undefined,
+            });
+        }
+        return s3Client;
+    },
+    async put(key, buffer, contentType) {
+        await this.client().send(new PutObjectCommand({
+            Bucket: process.env.S3_BUCKET,
+            Key: key,
+            Body: buffer,
+            ContentType: contentType,
+        }));
+    },
+    async read(key) {
+        const object = await this.client().send(new GetObjectCommand({ Bucket: process.env.S3_BUCKET, Key: key }));
+        return Buffer.from(await object.Body.transformToByteArray());
+    },
+    async open(key) {
+        const object = await this.client().send(new GetObjectCommand({ Bucket: process.env.S3_BUCKET, Key: key }));
+        return object.Body;
+    },
+    async remove(key) {
+        await this.client().send(new DeleteObjectCommand({ Bucket: process.env.S3_BUCKET, Key: key }));
+    },
+    presign(key, expiresIn) {
+        return getSignedUrl(this.client(), new GetObjectCommand({ Bucket: process.env.S3_BUCKET, Key: key }), { expiresIn });
+    },
+};
+
+const BACKENDS = { [local.name]: local, [s3.name]: s3 };
+
+/** The backend new photos are written to. */
+export function currentBackend() {
+    const name = process.env.MEDIA_STORAGE || local.name;
+    const backend = BACKENDS[name];
+    if (!backend) throw new Error(`Unknown media storage "${name}"`);
+    return backend;
+}
+
+/** The backend a stored photo was written to; null if it is no longer configured. */
+export function backendFor(media) {
+    return BACKENDS[media.backend] || null;
+}
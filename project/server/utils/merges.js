@@ -0,0 +1,363 @@
+/**
+ * Folding a duplicate registration into the record that is kept, and undoing it.
+ *
+ * The retired devotee is removed and its registration number kept as an alias on
+ * the survivor. Incidents and lost & found reports move to the survivor; medical
+ * records are combined, or the retired one is re-pointed when the survivor has none.
+ * A merge can be undone as long as no later merge into the same survivor is still
+ * in place; undoing restores the retired devotee and takes back only what the merge
+ * added, so edits made to the survivor in between are kept.
+ */
+import mongoose from 'mongoose';
+import { Devotee } from '../models/Devotee.js';
+import { DevoteeMerge } from '../models/DevoteeMerge.js';
+import { Group } from '../models/Group.js';
+import { LostPerson } from '../models/LostPerson.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { RiskAssessment } from '../models/RiskAssessment.js';
+import { recordAudit } from './audit.js';
+import { indexFace, removeFace } from './faceIndex.js';
+import { refreshRiskAssessment } from './riskAssessments.js';
+import { codeRecordFields, normalizeTerm, RECORD_TERM_FIELDS } from './terminology.js';
+import { staffRef } from './staff.js';
+
+// Survivor fields taken from the duplicate only when the survivor has nothing there
+const FILLABLE_DEVOTEE_FIELDS = ['photo_url', 'face_descriptor', 'emergency_contact_name', 'emergency_contact_phone', 'abha_number'];
+const FILLABLE_RECORD_FIELDS = ['blood_group', 'height_cm', 'weight_kg'];
+const LIST_FIELDS = Object.keys(RECORD_TERM_FIELDS);
+
+const isBlank = (value) => value == null || value === '' || (Array.isArray(value) && value.length === 0);
+const sameValue = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+const entryKey = (entry) => entry.code || normalizeTerm(entry.text || entry.display);
+
+// Runs fn(session) in a transaction; a result with an error is rolled back.
+// afterCommit, when returned, runs once the transaction is saved.
+async function withTransaction(fn) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+        const result = await fn(session);
+        if (result.error) {
+            await session.abortTransaction();
+        } else {
+            await session.commitTransaction();
+        }
+        session.endSession();
+        if (!result.error) await result.afterCommit?.();
+        return result;
+    } catch (error) {
+        await session.abortTransaction();
+        session.endSession();
+        throw error;
+    }
+}
+
+// Fill blank fields of target from source; returns { field: null } for each field filled
+function fillBlanks(target, source, fields) {
+    const filled = {};
+    fields.forEach((field) => {
+        if (isBlank(target[field]) && !isBlank(source[field])) {
+            filled[field] = null;
+            target[field] = source[field];
+        }
+    });
+    return filled;
+}
+
+// Put filled fields back, unless someone has changed them since the merge
+function unfill(target, source, filled) {
+    Object.entries(filled || {}).forEach(([field, previous]) => {
+        if (sameValue(target[field], source[field])) target[field] = previous ?? undefined;
+    });
+}
+
+/**
+ * Combine the retired devotee's medical record into the survivor's: blank fields are
+ * filled, list entries the survivor lacks are added and differing notes are appended.
+ * @returns { filled, added, notesAppended }, what unfoldRecord needs to take it back
+ */
+export function foldRecord(survivorRecord, retiredRecord, registrationNumber) {
+    const filled = fillBlanks(survivorRecord, retiredRecord, FILLABLE_RECORD_FIELDS);
+    const added = {};
+    let notesAppended = '';
+
+    const retiredLists = codeRecordFields(retiredRecord);
+    LIST_FIELDS.forEach((field) => {
+        const have = new Set(survivorRecord[field].map(entryKey));
+        const entries = retiredLists[field].filter((entry) => !have.has(entryKey(entry)));
+        if (entries.length) {
+            added[field] = entries;
+            survivorRecord[field].push(...entries);
+        }
+    });
+    if (retiredRecord.special_notes && retiredRecord.special_notes !== survivorRecord.special_notes) {
+        notesAppended = `${survivorRecord.special_notes ? '\n' : ''}[${registrationNumber}] ${retiredRecord.special_notes}`;
+        survivorRecord.special_notes = `${survivorRecord.special_notes || ''}${notesAppended}`;
+    }
+    return { filled, added, notesAppended };
+}
+
+// Take back what foldRecord added, keeping anything changed on the survivor since
+export function unfoldRecord(survivorRecord, merge) {
+    unfill(survivorRecord, merge.retired_record, merge.record_filled);
+    Object.entries(merge.record_added || {}).forEach(([field, added]) => {
+        const keys = new Set(added.map(entryKey));
+        survivorRecord[field] = survivorRecord[field].filter((entry) => !keys.has(entryKey(entry)));
+    });
+    if (merge.notes_appended) {
+        survivorRecord.special_notes = (survivorRecord.special_notes || '').replace(merge.notes_appended, '');
+    }
+}
+
+/**
+ * Move the survivor into the retired devotee's place in its group, or only drop the
+ * retired devotee when the survivor already has a group.
+ * @returns the group part of the merge record
+ */
+export function takeGroupPlace(group, survivor, retired) {
+    const member = group.members.find((m) => m.devotee_id.equals(retired._id));
+    const wasLeader = Boolean(group.leader_id?.equals(retired._id));
+    const transferred = !survivor.group_id;
+    if (transferred) {
+        if (member) member.devotee_id = survivor._id;
+        if (wasLeader) group.leader_id = survivor._id;
+        survivor.group_id = group._id;
+    } else {
+        group.members = group.members.filter((m) => !m.devotee_id.equals(retired._id));
+        if (wasLeader) {
+            group.leader_id = survivor.group_id.equals(group._id)
+                ? survivor._id
+                : group.members[0]?.devotee_id ?? null;
+        }
+    }
+    return { id: group._id, relationship: member?.relationship, was_leader: wasLeader, transferred };
+}
+
+// Put the retired devotee back in its group place
+export function giveBackGroupPlace(group, survivor, merge) {
+    if (merge.group.transferred) {
+        const member = group.members.find((m) => m.devotee_id.equals(survivor._id));
+        if (member) member.devotee_id = merge.retired_id;
+        if (merge.group.was_leader && group.leader_id?.equals(survivor._id)) group.leader_id = merge.retired_id;
+        survivor.group_id = null;
+    } else {
+        group.members.push({ devotee_id: merge.retired_id, relationship: merge.group.relationship || 'other' });
+        if (merge.group.was_leader) group.leader_id = merge.retired_id;
+    }
+}
+
+/**
+ * A devotee id as it is now: ids of merged-away duplicates resolve to the record
+ * they were merged into, so old health cards and queued offline changes still land.
+ */
+export async function resolveDevoteeId(id) {
+    if (!mongoose.isValidObjectId(id)) return id;
+    if (await Devotee.exists({ _id: id })) return id;
+    const merge = await DevoteeMerge.findOne({ retired_id: id, status: 'merged' }, 'survivor_id').lean();
+    return merge ? merge.survivor_id.toString() : id;
+}
+
+/**
+ * A devotee's id with the ids of the duplicates merged into it, for history that
+ * still points at the duplicates (audit events can't be re-pointed).
+ */
+export async function mergedDevoteeIds(id) {
+    const merges = await DevoteeMerge.find({ survivor_id: id, status: 'merged' }, 'retired_id').lean();
+    return [id, ...merges.map((merge) => merge.retired_id.toString())];
+}
+
+/**
+ * Merge retiredId into survivorId.
+ * @returns { merge } or { error, status }
+ */
+export async function mergeDevotees(req, { survivorId, retiredId, reason = '' }) {
+    if (!mongoose.isValidObjectId(survivorId) || !mongoose.isValidObjectId(retiredId)) {
+        return { error: 'Both devotee ids are required', status: 400 };
+    }
+    if (String(survivorId) === String(retiredId)) {
+        return { error: 'A devotee cannot be merged into itself', status: 400 };
+    }
+
+    return withTransaction(async (session) => {
+        // One operation at a time: a session can't run commands in parallel
+        const survivor = await Devotee.findById(survivorId).session(session);
+        const retired = await Devotee.findById(retiredId).session(session).lean();
+        if (!survivor || !retired) return { error: 'Devotee not found', status: 404 };
+
+        // Keeps undo simple: a record that absorbed others is not itself folded away
+        const absorbed = await DevoteeMerge.exists({ survivor_id: retired._id, status: 'merged' }).session(session);
+        if (absorbed) {
+            return { error: `${retired.registration_number} has other records merged into it; merge in the other direction or undo those first`, status: 409 };
+        }
+
+        const devoteeFilled = fillBlanks(survivor, retired, FILLABLE_DEVOTEE_FIELDS);
+        survivor.aliases.push(retired.registration_number);
+
+        const survivorRecord = await MedicalRecord.findOne({ devotee_id: survivor._id }).session(session);
+        const retiredRecord = await MedicalRecord.findOne({ devotee_id: retired._id }).session(session).lean();
+        let recordRepointed = false;
+        let folded = { filled: {}, added: {}, notesAppended: '' };
+
+        if (retiredRecord && !survivorRecord) {
+            await MedicalRecord.updateOne({ _id: retiredRecord._id }, { $set: { devotee_id: survivor._id } }, { session });
+            recordRepointed = true;
+        } else if (retiredRecord) {
+            folded = foldRecord(survivorRecord, retiredRecord, retired.registration_number);
+            await survivorRecord.save({ session });
+            await MedicalRecord.deleteOne({ _id: retiredRecord._id }, { session });
+        }
+
+        const incidents = await MedicalIncident.find({ devotee_id: retired._id }, '_id').session(session).lean();
+        const reports = await LostPerson.find({ devotee_id: retired._id }, '_id').session(session).lean();
+        await MedicalIncident.updateMany({ devotee_id: retired._id }, { $set: { devotee_id: survivor._id } }, { session });
+        await LostPerson.updateMany({ devotee_id: retired._id }, { $set: { devotee_id: survivor._id } }, { session });
+
+        // The survivor takes the duplicate's place in its group, unless it already has a group of its own
+        let group;
+        const retiredGroup = retired.group_id ? await Group.findById(retired.group_id).session(session) : null;
+        if (retiredGroup) {
+            group = takeGroupPlace(retiredGroup, survivor, retired);
+            await retiredGroup.save({ session });
+        }
+
+        await survivor.save({ session });
+        await Devotee.deleteOne({ _id: retired._id }, { session });
+        await RiskAssessment.deleteOne({ devotee_id: retired._id }, { session });
+
+        const [merge] = await DevoteeMerge.create(
+            [
+                {
+                    survivor_id: survivor._id,
+                    retired_id: retired._id,
+                    retired_registration_number: retired.registration_number,
+                    reason,
+                    retired_devotee: retired,
+                    retired_record: retiredRecord,
+                    record_repointed: recordRepointed,
+                    devotee_filled: devoteeFilled,
+                    record_filled: folded.filled,
+                    record_added: folded.added,
+                    notes_appended: folded.notesAppended,
+                    incident_ids: incidents.map((i) => i._id),
+                    lost_person_ids: reports.map((r) => r._id),
+                    group,
+                    merged_by: staffRef(req),
+                },
+            ],
+            { session }
+        );
+
+        await recordAudit(
+            req,
+            {
+                action: 'devotee.merge',
+                devoteeId: survivor._id,
+                targetId: merge._id,
+                changes: [{ field: 'aliases', before: null, after: retired.registration_number }],
+            },
+            session
+        );
+
+        return {
+            merge,
+            afterCommit: async () => {
+                removeFace('devotees', retired._id);
+                indexFace('devotees', survivor);
+                await refreshRiskAssessment(survivor._id);
+            },
+        };
+    });
+}
+
+/**
+ * Undo a merge: the retired devotee comes back with its record, incidents, reports
+ * and group place, and the survivor loses only what the merge gave it.
+ * @returns { merge } or { error, status }
+ */
+export async function revertMerge(req, mergeId) {
+    if (!mongoose.isValidObjectId(mergeId)) return { error: 'Invalid merge id', status: 400 };
+
+    return withTransaction(async (session) => {
+        const merge = await DevoteeMerge.findById(mergeId).session(session);
+        if (!merge) return { error: 'Merge not found', status: 404 };
+        if (merge.status !== 'merged') return { error: 'This merge has already been undone', status: 409 };
+
+        const later = await DevoteeMerge.exists({
+            survivor_id: merge.survivor_id,
+            status: 'merged',
+            merged_at: { $gt: merge.merged_at },
+        }).session(session);
+        if (later) return { error: 'Undo the later merges into this devotee first', status: 409 };
+
+        const survivor = await Devotee.findById(merge.survivor_id).session(session);
+        if (!survivor) return { error: 'The record this was merged into no longer exists', status: 409 };
+        const taken = await Devotee.exists({
+            $or: [{ _id: merge.retired_id }, { registration_number: merge.retired_registration_number }],
+        }).session(session);
+        if (taken) return { error: `${merge.retired_registration_number} is already registered again`, status: 409 };
+
+        const retired = merge.retired_devotee;
+        // Stored exactly as it was, original id and timestamps included
+        await Devotee.collection.insertOne(retired, { session });
+
+        unfill(survivor, retired, merge.devotee_filled);
+        survivor.aliases = survivor.aliases.filter((alias) => alias !== merge.retired_registration_number);
+
+        if (merge.record_repointed) {
+            await MedicalRecord.updateOne({ _id: merge.retired_record._id }, { $set: { devotee_id: merge.retired_id } }, { session });
+        } else if (merge.retired_record) {
+            await MedicalRecord.collection.insertOne(merge.retired_record, { session });
+            const survivorRecord = await MedicalRecord.findOne({ devotee_id: survivor._id }).session(session);
+            if (survivorRecord) {
+                unfoldRecord(survivorRecord, merge);
+                await survivorRecord.save({ session });
+            }
+        }
+
+        // Only rows that were moved by the merge; incidents recorded on the survivor since then stay
+        await MedicalIncident.updateMany(
+            { _id: { $in: merge.incident_ids }, devotee_id: survivor._id },
+            { $set: { devotee_id: merge.retired_id } },
+            { session }
+        );
+        await LostPerson.updateMany(
+            { _id: { $in: merge.lost_person_ids }, devotee_id: survivor._id },
+            { $set: { devotee_id: merge.retired_id } },
+            { session }
+        );
+
+        const group = merge.group?.id ? await Group.findById(merge.group.id).session(session) : null;
+        if (group) {
+            giveBackGroupPlace(group, survivor, merge);
+            await group.save({ session });
+        }
+
+        await survivor.save({ session });
+
+        merge.status = 'reverted';
+        merge.reverted_by = staffRef(req);
+        merge.reverted_at = new Date();
+        await merge.save({ session });
+
+        await recordAudit(
+            req,
+            {
+                action: 'devotee.unmerge',
+                devoteeId: survivor._id,
+                targetId: merge._id,
+                changes: [{ field: 'aliases', before: merge.retired_registration_number, after: null }],
+            },
+            session
+        );
+
+        return {
+            merge,
+            afterCommit: async () => {
+                indexFace('devotees', retired);
+                indexFace('devotees', survivor);
+                await Promise.all([refreshRiskAssessment(merge.retired_id), refreshRiskAssessment(survivor._id)]);
+            },
+        };
+    });
+}
@@ -0,0 +1,64 @@
+/**
+ * Role-based access control
+ * Maps each staff role to the permissions it is granted.
+ */
+
+export const PERMISSIONS = {
+    DEVOTEES_CREATE: 'devotees:create',
+    DEVOTEES_SEARCH: 'devotees:search',
+    DEVOTEES_READ: 'devotees:read',
+    DEVOTEES_UPDATE: 'devotees:update',
+    // Merge duplicate registrations and undo merges; admin only
+    DEVOTEES_MERGE: 'devotees:merge',
+    // Bulk import of pre-registered pilgrims from spreadsheets; admin only
+    DEVOTEES_IMPORT: 'devotees:import',
+    INCIDENTS_CREATE: 'incidents:create',
+    INCIDENTS_READ: 'incidents:read',
+    INCIDENTS_UPDATE: 'incidents:update',
+    HIGH_RISK_READ: 'high-risk:read',
+    ANALYTICS_READ: 'analytics:read',
+    LOST_FOUND_REPORT: 'lost-found:report',
+    LOST_FOUND_READ: 'lost-found:read',
+    LOST_FOUND_RESOLVE: 'lost-found:resolve',
+    FACE_ANALYZE: 'face:analyze',
+    AUDIT_READ: 'audit:read',
+    CENTERS_READ: 'centers:read',
+    CENTERS_MANAGE: 'centers:manage',
+    STAFF_MANAGE: 'staff:manage',
+    RISK_MODELS_MANAGE: 'risk-models:manage',
+    WEATHER_RECORD: 'weather:record',
+    // Spreadsheet and FHIR exports; every one is written to the export log
+    DATA_EXPORT: 'data:export',
+};
+
+const P = PERMISSIONS;
+
+const rolePermissions = {
+    doctor: [
+        P.DEVOTEES_CREATE, P.DEVOTEES_SEARCH, P.DEVOTEES_READ, P.DEVOTEES_UPDATE,
+        P.INCIDENTS_CREATE, P.INCIDENTS_READ, P.INCIDENTS_UPDATE, P.HIGH_RISK_READ, P.ANALYTICS_READ,
+        P.LOST_FOUND_READ, P.FACE_ANALYZE, P.AUDIT_READ, P.CENTERS_READ, P.WEATHER_RECORD, P.DATA_EXPORT,
+    ],
+    nurse: [
+        P.DEVOTEES_CREATE, P.DEVOTEES_SEARCH, P.DEVOTEES_READ, P.DEVOTEES_UPDATE,
+        P.INCIDENTS_CREATE, P.INCIDENTS_READ, P.INCIDENTS_UPDATE, P.HIGH_RISK_READ,
+        P.LOST_FOUND_READ, P.FACE_ANALYZE, P.AUDIT_READ, P.CENTERS_READ, P.WEATHER_RECORD,
+    ],
+    // Volunteers can enrol yatris and find them again, but never see clinical history
+    registration_volunteer: [
+        P.DEVOTEES_CREATE, P.DEVOTEES_SEARCH, P.FACE_ANALYZE, P.CENTERS_READ,
+    ],
+    lost_found_desk: [
+        P.LOST_FOUND_REPORT, P.LOST_FOUND_READ, P.LOST_FOUND_RESOLVE, P.DEVOTEES_SEARCH, P.FACE_ANALYZE,
+        P.CENTERS_READ,
+    ],
+    admin: Object.values(P),
+};
+
+export function getPermissionsForRole(role) {
+    return rolePermissions[role] || [];
+}
+
+export function hasPermission(role, permission) {
+    return getPermissionsForRole(role).includes(permission);
+}
@@ -0,0 +1,7 @@
+/**
+ * Phone numbers as compared across registrations. Desks type them with and
+ * without +91, spaces and dashes; the last ten digits are what identify a line.
+ */
+
+// Last ten digits, so +91 and spacing differences still match
+export const phoneKey = (phone) => String(phone || '').replace(/\D/g, '').slice(-10);
@@ -0,0 +1,326 @@
+/**
+ * Maintains the RiskAssessment store the high-risk monitor reads from.
+ *
+ * A devotee is rescored when their profile, medical record or incidents change.
+ * The weather and crowd components are the same for everyone, so when either
+ * moves, or a new risk model is activated, every devotee is rescored in one batch.
+ * Incident history decays with time, so devotees with recent incidents are also
+ * rescored on every context refresh.
+ */
+import mongoose from 'mongoose';
+import { Devotee } from '../models/Devotee.js';
+import { MedicalRecord } from '../models/MedicalRecord.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { RiskAssessment } from '../models/RiskAssessment.js';
+import { calculateCrowdRisk, calculateEnvironmentalRisk, calculateRiskScore, incidentWindowStart } from './riskScoring.js';
+import { getActiveRiskModel, reloadActiveRiskModel } from './riskModels.js';
+import { publish } from './events.js';
+import { getWeather } from './weather.js';
+import { codesOf, describeEntries, toCodedEntries } from './terminology.js';
+
+const BATCH_SIZE = 500;
+const DEFAULT_PREVIEW_SIZE = 1000;
+const MAX_PREVIEW_SIZE = 5000;
+const PREVIEW_EXAMPLES = 20;
+// Devotees listed in one risk.critical event; a weather swing can tip many at once
+const CRITICAL_EVENT_LIMIT = 20;
+const HEAT_ALERT_TEMP = 35;
+const AQI_ALERT = 200;
+const CONTEXT_REFRESH_MS = 30 * 60 * 1000;
+const DEFAULT_WEATHER = { temp: 30, feelsLike: 30, humidity: 60, aqi: 100, uv: null, provider: 'default', simulated: false };
+
+// Weather and head count every score is currently computed against
+let context = null;
+
+// Mela-wide weather from the shared service; the last known weather if every provider fails
+async function getCurrentWeather() {
+    try {
+        const { temp, feelsLike, humidity, aqi, uv, provider, simulated } = await getWeather();
+        return { temp, feelsLike, humidity, aqi, uv, provider, simulated };
+    } catch (error) {
+        console.error('Weather fetch error:', error);
+        return context?.weather || DEFAULT_WEATHER;
+    }
+}
+
+async function loadContext() {
+    const [weather, totalDevotees] = await Promise.all([getCurrentWeather(), Devotee.estimatedDocumentCount()]);
+    return { weather, total_devotees: totalDevotees, refreshed_at: new Date() };
+}
+
+export async function getRiskContext() {
+    if (!context) context = await loadContext();
+    return context;
+}
+
+/**
+ * Devotees joined with just the record fields scoring and listing need, and with
+ * their incidents since `since` plus any whose follow-up is still pending.
+ */
+const scoringPipeline = (match, since) => [
+    { $match: match },
+    { $project: { registration_number: 1, full_name: 1, age: 1, gender: 1, phone: 1 } },
+    {
+        $lookup: {
+            from: MedicalRecord.collection.name,
+            localField: '_id',
+            foreignField: 'devotee_id',
+            pipeline: [{ $project: { blood_group: 1, chronic_conditions: 1, allergies: 1 } }],
+            as: 'record',
+        },
+    },
+    { $set: { record: { $first: '$record' } } },
+    {
+        $lookup: {
+            from: MedicalIncident.collection.name,
+            localField: '_id',
+            foreignField: 'devotee_id',
+            pipeline: [
+                {
+                    $match: {
+                        $or: [
+                            { incident_date: { $gte: since } },
+                            { follow_up_required: true, 'follow_up.status': { $nin: ['completed', 'cancelled'] } },
+                        ],
+                    },
+                },
+                { $project: { incident_type: 1, incident_date: 1, follow_up_required: 1, 'follow_up.status': 1 } },
+            ],
+            as: 'incidents',
+        },
+    },
+];
+
+const scoreOf = (devotee, ctx, config, now) =>
+    calculateRiskScore(devotee, devotee.record || null, ctx.weather, ctx.total_devotees, { config, incidents: devotee.incidents, now });
+
+function assessmentFor(devotee, ctx, model, now) {
+    const record = devotee.record || null;
+    const risk = scoreOf(devotee, ctx, model.config, now);
+    return {
+        devotee_id: devotee._id,
+        devotee: {
+            registration_number: devotee.registration_number,
+            full_name: devotee.full_name,
+            age: devotee.age,
+            gender: devotee.gender,
+            phone: devotee.phone,
+        },
+        medical: {
+            blood_group: record?.blood_group || undefined,
+            chronic_conditions: describeEntries(record?.chronic_conditions),
+            allergies: describeEntries(record?.allergies),
+            condition_codes: codesOf(toCodedEntries('condition', record?.chronic_conditions)),
+        },
+        total_score: risk.totalScore,
+        risk_level: risk.riskLevel,
+        breakdown: risk.breakdown,
+        recommendations: risk.recommendations,
+        explanation: risk.explanation,
+        model_version: model.version,
+        inputs: { ...ctx.weather, total_devotees: ctx.total_devotees },
+        computed_at: now,
+    };
+}
+
+const upsertOp = (assessment) => ({
+    replaceOne: { filter: { devotee_id: assessment.devotee_id }, replacement: assessment, upsert: true },
+});
+
+function announceCritical(assessments) {
+    if (!assessments.length) return;
+    publish('risk.critical', {
+        total: assessments.length,
+        devotees: assessments.slice(0, CRITICAL_EVENT_LIMIT).map((a) => ({
+            devotee_id: a.devotee_id.toString(),
+            full_name: a.devotee.full_name,
+            registration_number: a.devotee.registration_number,
+            risk_score: a.total_score,
+        })),
+    }, { critical: true });
+}
+
+const weatherAlertsOf = (weather) =>
+    [weather?.temp > HEAT_ALERT_TEMP && 'heat', weather?.aqi > AQI_ALERT && 'air_quality'].filter(Boolean);
+
+// Announce heat or air quality conditions that were not already in effect
+function announceWeather(previous, current) {
+    const before = weatherAlertsOf(previous);
+    const raised = weatherAlertsOf(current).filter((alert) => !before.includes(alert));
+    if (!raised.length) return;
+    publish('weather.alert', { alerts: raised, temp: current.temp, humidity: current.humidity, aqi: current.aqi }, { critical: true });
+}
+
+// Write a batch of assessments, collecting the ones that have just become Critical
+async function writeBatch(ops, newlyCritical) {
+    const critical = ops.map((op) => op.replaceOne.replacement).filter((a) => a.risk_level === 'Critical');
+    if (critical.length) {
+        const already = await RiskAssessment.find(
+            { devotee_id: { $in: critical.map((a) => a.devotee_id) }, risk_level: 'Critical' },
+            'devotee_id'
+        ).lean();
+        const alreadyIds = new Set(already.map((a) => a.devotee_id.toString()));
+        newlyCritical.push(...critical.filter((a) => !alreadyIds.has(a.devotee_id.toString())));
+    }
+    await RiskAssessment.bulkWrite(ops, { ordered: false });
+}
+
+/**
+ * Rescore one devotee. Failures are logged, not thrown: the change that triggered
+ * the rescore has already been saved, and the next batch run catches up.
+ */
+export async function refreshRiskAssessment(devoteeId) {
+    try {
+        if (!mongoose.isValidObjectId(devoteeId)) return;
+        const id = new mongoose.Types.ObjectId(String(devoteeId));
+        const [ctx, model] = await Promise.all([getRiskContext(), getActiveRiskModel()]);
+        const now = new Date();
+        const [devotee] = await Devotee.aggregate(scoringPipeline({ _id: id }, incidentWindowStart([model.config], now)));
+        if (!devotee) {
+            await RiskAssessment.deleteOne({ devotee_id: id });
+            return;
+        }
+        const newlyCritical = [];
+        await writeBatch([upsertOp(assessmentFor(devotee, ctx, model, now))], newlyCritical);
+        announceCritical(newlyCritical);
+    } catch (error) {
+        console.error('Failed to update risk assessment', error);
+    }
+}
+
+// Rescore the devotees matching `match` in batches
+async function rescoreDevotees(match, now) {
+    const [ctx, model] = await Promise.all([getRiskContext(), getActiveRiskModel()]);
+    let ops = [];
+    let scored = 0;
+    const newlyCritical = [];
+
+    const pipeline = scoringPipeline(match, incidentWindowStart([model.config], now));
+    const cursor = Devotee.aggregate(pipeline).cursor({ batchSize: BATCH_SIZE });
+    for await (const devotee of cursor) {
+        ops.push(upsertOp(assessmentFor(devotee, ctx, model, now)));
+        if (ops.length === BATCH_SIZE) {
+            await writeBatch(ops, newlyCritical);
+            scored += ops.length;
+            ops = [];
+        }
+    }
+    if (ops.length) {
+        await writeBatch(ops, newlyCritical);
+        scored += ops.length;
+    }
+    announceCritical(newlyCritical);
+    return scored;
+}
+
+/**
+ * Rescore a set of devotees at once, e.g. a batch just imported. Like
+ * refreshRiskAssessment, failures are logged rather than thrown.
+ */
+export async function refreshRiskAssessments(devoteeIds) {
+    try {
+        const ids = devoteeIds.filter((id) => mongoose.isValidObjectId(id));
+        if (ids.length) await rescoreDevotees({ _id: { $in: ids.map((id) => new mongoose.Types.ObjectId(String(id))) } }, new Date());
+    } catch (error) {
+        console.error('Failed to update risk assessments', error);
+    }
+}
+
+/**
+ * Rescore every devotee in batches and drop assessments of devotees that no longer exist.
+ * @returns number of devotees scored
+ */
+export async function recomputeAllRiskAssessments() {
+    const startedAt = new Date();
+    const scored = await rescoreDevotees({}, startedAt);
+    await RiskAssessment.deleteMany({ computed_at: { $lt: startedAt } });
+    return scored;
+}
+
+/**
+ * Refetch the weather, head count and active model. Everyone is rescored only when
+ * that changes a shared component or the model version (or the store is still empty),
+ * not on every small fluctuation.
+ * @returns number of devotees rescored
+ */
+export async function refreshRiskContext() {
+    const previous = context;
+    context = await loadContext();
+    announceWeather(previous?.weather, context.weather);
+    const model = await reloadActiveRiskModel();
+
+    // The oldest score is the first to be out of date
+    const oldest = await RiskAssessment.findOne().sort({ computed_at: 1 }).lean();
+    const stale = !oldest
+        || oldest.model_version !== model.version
+        || oldest.breakdown?.environmental !== calculateEnvironmentalRisk(context.weather, model.config)
+        || oldest.breakdown?.crowd !== calculateCrowdRisk(context.total_devotees, model.config);
+    if (!stale) {
+        // Only scores carrying incident history have moved since the last refresh
+        const ids = await RiskAssessment.distinct('devotee_id', { 'breakdown.incidents': { $gt: 0 } });
+        return ids.length ? rescoreDevotees({ _id: { $in: ids } }, new Date()) : 0;
+    }
+
+    const scored = await recomputeAllRiskAssessments();
+    console.log(`Rescored ${scored} devotees for the current weather and crowd`);
+    return scored;
+}
+
+/**
+ * Score a random sample of devotees with both the active model and a draft config,
+ * under the current weather and crowd, to show what activating the draft would change.
+ */
+export async function previewRiskConfig(config, sampleSize = DEFAULT_PREVIEW_SIZE) {
+    const size = Math.min(Math.max(Math.floor(sampleSize) || DEFAULT_PREVIEW_SIZE, 1), MAX_PREVIEW_SIZE);
+    const [ctx, current] = await Promise.all([getRiskContext(), getActiveRiskModel()]);
+    const now = new Date();
+    const since = incidentWindowStart([current.config, config], now);
+    const devotees = await Devotee.aggregate([{ $sample: { size } }, ...scoringPipeline({}, since)]);
+
+    const levels = { current: {}, draft: {} };
+    const transitions = new Map();
+    const movers = [];
+
+    devotees.forEach((devotee) => {
+        const before = scoreOf(devotee, ctx, current.config, now);
+        const after = scoreOf(devotee, ctx, config, now);
+
+        levels.current[before.riskLevel] = (levels.current[before.riskLevel] || 0) + 1;
+        levels.draft[after.riskLevel] = (levels.draft[after.riskLevel] || 0) + 1;
+        const key = `${before.riskLevel}>${after.riskLevel}`;
+        transitions.set(key, (transitions.get(key) || 0) + 1);
+
+        if (before.riskLevel !== after.riskLevel) {
+            movers.push({
+                devotee_id: devotee._id.toString(),
+                registration_number: devotee.registration_number,
+                full_name: devotee.full_name,
+                age: devotee.age,
+                current: { score: before.totalScore, level: before.riskLevel },
+                draft: { score: after.totalScore, level: after.riskLevel, explanation: after.explanation },
+            });
+        }
+    });
+
+    return {
+        sample_size: devotees.length,
+        current_version: current.version,
+        changed: movers.length,
+        levels,
+        transitions: [...transitions].map(([key, count]) => {
+            const [from, to] = key.split('>');
+            return { from, to, count };
+        }),
+        // Biggest score swings first
+        examples: movers
+            .sort((a, b) => Math.abs(b.draft.score - b.current.score) - Math.abs(a.draft.score - a.current.score))
+            .slice(0, PREVIEW_EXAMPLES),
+    };
+}
+
+// Keep the shared components current while the server is up
+export function startRiskAssessments() {
+    const run = () => refreshRiskContext().catch((error) => console.error('Risk assessment refresh failed', error));
+    run();
+    return setInterval(run, CONTEXT_REFRESH_MS);
+}
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { RiskModel } from '../models/RiskModel.js';
+import { DEFAULT_RISK_CONFIG } from './riskScoring.js';
+
+// Version and config every new score is computed with
+let active = null;
+
+async function loadActiveModel() {
+    let model = await RiskModel.findOne({ status: 'active' }).lean();
+    if (!model && !(await RiskModel.exists({}))) {
+        // First start: the original hand-tuned weights become version 1
+        try {
+            await RiskModel.create({
+                version: 1,
+                name: 'Baseline',
+                notes: 'Original hand-tuned weights',
+                status: 'active',
+                config: DEFAULT_RISK_CONFIG,
+                activated_at: new Date(),
+            });
+        } catch (error) {
+            // Another process seeded it first
+            if (error.code !== 11000) throw error;
+        }
+        model = await RiskModel.findOne({ status: 'active' }).lean();
+    }
+    return model
+        ? { version: model.version, config: model.config }
+        : { version: null, config: DEFAULT_RISK_CONFIG };
+}
+
+export async function getActiveRiskModel() {
+    if (!active) active = await loadActiveModel();
+    return active;
+}
+
+// Pick up an activation, including one made by another server process
+export async function reloadActiveRiskModel() {
+    active = await loadActiveModel();
+    return active;
+}
+
+/**
+ * Make a draft the active model and retire the one it replaces, in one
+ * transaction so there is never a moment with no active model or two.
+ * @returns { model } or { error, status }
+ */
+export async function activateRiskModel(version, staff) {
+    const session = await mongoose.startSession();
+    let model;
+    let activated = false;
+    try {
+        await session.withTransaction(async () => {
+            // Read inside the transaction: a retry must see what the winning activation left
+            activated = false;
+            model = await RiskModel.findOne({ version }).session(session);
+            if (model?.status !== 'draft') return;
+
+            const now = new Date();
+            await RiskModel.updateMany({ status: 'active' }, { $set: { status: 'retired', retired_at: now } }, { session });
+            model.status = 'active';
+            model.activated_by = staff;
+            model.activated_at = now;
+            await model.save({ session });
+            activated = true;
+        });
+    } catch (error) {
+        // The unique index on the active model: another activation committed first
+        if (error.code === 11000) return { error: 'Another model was activated at the same time; reload and try again', status: 409 };
+        throw error;
+    } finally {
+        session.endSession();
+    }
+    if (!model) return { error: 'Risk model not found', status: 404 };
+    if (!activated) return { error: `Version ${version} is ${model.status}; only drafts can be activated`, status: 409 };
+
+    active = { version: model.version, config: model.toObject().config };
+    return { model };
+}
@@ -1,204 +1,443 @@
 /**
  * Health Risk Scoring Algorithm
  * Calculates a risk score (0-100) based on multiple factors
+ *
+ * The weights, bands and thresholds come from a risk model (see models/RiskModel.js)
+ * so medical leads can tune them; DEFAULT_RISK_CONFIG is the original hand-tuned model.
+ * Bands match when min <= value < max (either end may be left open), first match wins.
  */
 
-// Condition normalization map (reuse from analytics)
-const conditionNormalizer = {
-    'hypertension': 'Hypertension',
-    'उच्च रक्तदाब': 'Hypertension',
-    'उच्च रक्तदाब (bp)': 'Hypertension',
-    'bp': 'Hypertension',
-    'high blood pressure': 'Hypertension',
-
-    'diabetes': 'Diabetes',
-    'मधुमेह': 'Diabetes',
-    'मधुमेह (diabetes)': 'Diabetes',
-    'sugar': 'Diabetes',
-
-    'heart disease': 'Heart Disease',
-    'हृदय रोग': 'Heart Disease',
-    'हृदय रोग (heart disease)': 'Heart Disease',
-    'cardiac': 'Heart Disease',
-
-    'asthma': 'Asthma',
-    'दमा': 'Asthma',
-    'दमा (asthma)': 'Asthma',
-
-    'kidney disease': 'Kidney Disease',
-    'kidney problem': 'Kidney Disease',
-    'गुर्दे की बीमारी': 'Kidney Disease',
+import { toCodedEntries } from './terminology.js';
+
+// Components a recommendation rule can test; 'total' is the overall score
+export const RISK_COMPONENTS = ['total', 'age', 'medical', 'environmental', 'crowd', 'incidents'];
+
+const INCIDENT_TYPES = ['Emergency', 'Consultation', 'Follow-up'];
+const CLOSED_FOLLOW_UP_STATUSES = ['completed', 'cancelled'];
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_RISK_CONFIG = {
+    age: {
+        bands: [
+            { min: 71, points: 30 },
+            { min: 60, max: 71, points: 20 },
+            { min: 50, max: 60, points: 10 },
+            { max: 18, points: 5 },
+        ],
+    },
+    medical: {
+        // Risk weights by ICD-10 code of the chronic condition
+        weights: [
+            { code: 'I51.9', label: 'Heart disease', points: 15 },
+            { code: 'I25.9', label: 'Coronary artery disease', points: 15 },
+            { code: 'I10', label: 'Hypertension', points: 10 },
+            { code: 'E14', label: 'Diabetes', points: 10 },
+            { code: 'N18', label: 'Chronic kidney disease', points: 12 },
+            { code: 'J45', label: 'Asthma', points: 8 },
+            { code: 'J44', label: 'COPD', points: 8 },
+        ],
+        default_points: 5, // Other or uncoded conditions
+        multi_condition_multiplier: 1.5,
+        cap: 40,
+    },
+    environmental: {
+        temperature: [
+            { min: 40, points: 10 },
+            { min: 35, max: 40, points: 5 },
+        ],
+        humidity: [{ min: 81, points: 5 }],
+        aqi: [
+            { min: 201, points: 10 },
+            { min: 151, max: 201, points: 5 },
+        ],
+        cap: 20,
+    },
+    crowd: {
+        bands: [
+            { min: 100001, points: 10 },
+            { min: 50001, max: 100001, points: 5 },
+        ],
+        cap: 10,
+    },
+    incidents: {
+        // Points per visit in the window, halving every half_life_hours since the visit
+        weights: [
+            { incident_type: 'Emergency', points: 10 },
+            { incident_type: 'Consultation', points: 3 },
+            { incident_type: 'Follow-up', points: 1 },
+        ],
+        window_hours: 72,
+        half_life_hours: 24,
+        // Per incident flagged follow_up_required whose follow-up is not yet done, however old
+        pending_follow_up_points: 5,
+        cap: 20,
+    },
+    thresholds: { moderate: 25, high: 50, critical: 75 },
+    recommendations: [
+        { component: 'total', min: 75, messages: ['🚨 Immediate medical evaluation recommended', 'Assign dedicated monitoring staff'] },
+        { component: 'age', min: 20, messages: ['👴 Elderly care: Ensure rest periods every 2 hours', 'Monitor for signs of exhaustion'] },
+        { component: 'medical', min: 15, messages: ['💊 Verify medication compliance', 'Keep emergency contacts updated'] },
+        { component: 'environmental', min: 10, messages: ['🌡️ Heat risk: Ensure adequate hydration', 'Advise to avoid midday sun exposure'] },
+        { component: 'incidents', min: 10, messages: ['🏥 Repeated recent visits: review incident history', 'Confirm pending follow-ups are booked'] },
+    ],
+    default_recommendations: ['✅ Standard care protocols apply'],
 };
 
-const normalizeCondition = (condition) => {
-    const lowerCondition = condition.toLowerCase().trim();
-    return conditionNormalizer[lowerCondition] || condition;
-};
+const inBand = (value, band) => (band.min == null || value >= band.min) && (band.max == null || value < band.max);
 
-// Risk weights for different conditions
-const conditionRiskWeights = {
-    'Heart Disease': 15,
-    'Hypertension': 10,
-    'Diabetes': 10,
-    'Kidney Disease': 12,
-    'Asthma': 8,
-};
+const bandFor = (bands, value) => (bands || []).find((band) => inBand(value, band));
+
+// "60 to under 71", "71 and over", "under 18"
+function describeBand(band) {
+    if (band.min != null && band.max != null) return `${band.min} to under ${band.max}`;
+    if (band.min != null) return `${band.min} and over`;
+    if (band.max != null) return `under ${band.max}`;
+    return 'any value';
+}
+
+// Explanation lines of a component sum to its points, so a cap shows up as a negative line
+function capped(component, reasons, cap) {
+    const points = reasons.reduce((sum, reason) => sum + reason.points, 0);
+    if (cap == null || points <= cap) return { points, reasons };
+    return {
+        points: cap,
+        reasons: [...reasons, { component, label: `Capped at ${cap}`, points: cap - points }],
+    };
+}
 
 /**
- * Calculate age-based risk score (0-30 points)
+ * Calculate age-based risk score
  */
-function calculateAgeRisk(age) {
-    if (!age) return 0;
-
-    if (age > 70) return 30;
-    if (age >= 60) return 20;
-    if (age >= 50) return 10;
-    if (age < 18) return 5;
-    return 0;
+function scoreAge(age, config) {
+    if (!age) return { points: 0, reasons: [] };
+
+    const band = bandFor(config.age.bands, age);
+    if (!band || !band.points) return { points: 0, reasons: [] };
+    return { points: band.points, reasons: [{ component: 'age', label: `Age ${age} (${describeBand(band)})`, points: band.points }] };
 }
 
 /**
- * Calculate medical conditions risk score (0-40 points)
+ * Calculate medical conditions risk score
  */
-function calculateMedicalRisk(chronicConditions) {
-    if (!chronicConditions || chronicConditions === 'None') return 0;
+function scoreMedical(chronicConditions, config) {
+    // Coded entries; records not yet migrated still hold the old comma string
+    const conditions = toCodedEntries('condition', chronicConditions);
+    if (conditions.length === 0) return { points: 0, reasons: [] };
 
-    const conditions = chronicConditions.split(',').map(c => c.trim());
-    const normalizedConditions = conditions
-        .map(normalizeCondition)
-        .filter(c => c !== 'None');
-
-    if (normalizedConditions.length === 0) return 0;
+    const { weights, default_points: defaultPoints, multi_condition_multiplier: multiplier, cap } = config.medical;
+    const weightByCode = new Map(weights.map((weight) => [weight.code, weight.points]));
 
     // Calculate base risk from conditions
-    let baseRisk = 0;
-    normalizedConditions.forEach(condition => {
-        baseRisk += conditionRiskWeights[condition] || 5; // Default 5 points for unknown conditions
-    });
+    const reasons = conditions.map((condition) => ({
+        component: 'medical',
+        label: condition.code ? `${condition.display} (${condition.code})` : condition.display,
+        points: weightByCode.get(condition.code) ?? defaultPoints,
+    }));
 
     // Multiple conditions multiplier
-    if (normalizedConditions.length > 1) {
-        baseRisk *= 1.5;
+    if (conditions.length > 1 && multiplier !== 1) {
+        const base = reasons.reduce((sum, reason) => sum + reason.points, 0);
+        reasons.push({
+            component: 'medical',
+            label: `${conditions.length} conditions ×${multiplier}`,
+            points: base * multiplier - base,
+        });
     }
 
-    // Cap at 40 points
-    return Math.min(baseRisk, 40);
+    return capped('medical', reasons, cap);
 }
 
 /**
- * Calculate environmental risk score based on weather (0-20 points)
+ * Calculate environmental risk score based on weather
  */
-function calculateEnvironmentalRisk(weatherData) {
-    if (!weatherData) return 0;
-
-    let envRisk = 0;
+function scoreEnvironmental(weatherData, config) {
+    if (!weatherData) return { points: 0, reasons: [] };
+
+    const { temperature, humidity, aqi, cap } = config.environmental;
+    const reasons = [];
+    const add = (value, bands, describe) => {
+        const band = bandFor(bands, value);
+        if (band?.points) reasons.push({ component: 'environmental', label: `${describe(value)} (${describeBand(band)})`, points: band.points });
+    };
 
-    // Temperature risk
-    const temp = weatherData.temp;
-    if (temp > 40) {
-        envRisk += 10;
-    } else if (temp >= 35) {
-        envRisk += 5;
-    }
+    if (weatherData.temp != null) add(weatherData.temp, temperature, (value) => `Temperature ${value}°C`);
+    if (weatherData.humidity != null) add(weatherData.humidity, humidity, (value) => `Humidity ${value}%`);
+    // Air quality risk (if available)
+    if (weatherData.aqi) add(weatherData.aqi, aqi, (value) => `AQI ${value}`);
 
-    // Humidity risk
-    const humidity = weatherData.humidity;
-    if (humidity > 80) {
-        envRisk += 5;
-    }
+    return capped('environmental', reasons, cap);
+}
 
-    // Air quality risk (if available)
-    const aqi = weatherData.aqi;
-    if (aqi && aqi > 200) {
-        envRisk += 10;
-    } else if (aqi && aqi > 150) {
-        envRisk += 5;
-    }
+/**
+ * Calculate crowd density risk
+ */
+function scoreCrowd(totalDevotees, config) {
+    if (!totalDevotees) return { points: 0, reasons: [] };
 
-    return Math.min(envRisk, 20);
+    const band = bandFor(config.crowd.bands, totalDevotees);
+    if (!band || !band.points) return { points: 0, reasons: [] };
+    return capped('crowd', [{ component: 'crowd', label: `${totalDevotees} registered devotees (${describeBand(band)})`, points: band.points }], config.crowd.cap);
 }
 
+const isPendingFollowUp = (incident) =>
+    incident.follow_up_required && !CLOSED_FOLLOW_UP_STATUSES.includes(incident.follow_up?.status);
+
+/**
+ * Incident history settings of a model. Models saved before this component
+ * existed (the seeded version 1 among them) have none and use the defaults,
+ * so recent visits count whichever model is active.
+ */
+export const incidentSettings = (config) =>
+    (config.incidents?.window_hours ? config.incidents : DEFAULT_RISK_CONFIG.incidents);
+
 /**
- * Calculate crowd density risk (0-10 points)
+ * Calculate recent incident history risk score, with older visits counting for less.
  */
-function calculateCrowdRisk(totalDevotees) {
-    if (!totalDevotees) return 0;
+function scoreIncidents(incidents, config, now) {
+    const settings = incidentSettings(config);
+    if (!incidents?.length) return { points: 0, reasons: [] };
+
+    const since = now.getTime() - settings.window_hours * HOUR_MS;
+    const weightByType = new Map((settings.weights || []).map((weight) => [weight.incident_type, weight.points]));
+    const byType = new Map();
+    let pending = 0;
+
+    incidents.forEach((incident) => {
+        if (isPendingFollowUp(incident)) pending++;
+
+        const at = new Date(incident.incident_date).getTime();
+        const points = weightByType.get(incident.incident_type);
+        if (!points || Number.isNaN(at) || at < since) return;
+        const ageHours = Math.max(now.getTime() - at, 0) / HOUR_MS;
+        const decayed = points * 0.5 ** (ageHours / settings.half_life_hours);
+
+        const group = byType.get(incident.incident_type) || { count: 0, points: 0 };
+        byType.set(incident.incident_type, { count: group.count + 1, points: group.points + decayed });
+    });
 
-    if (totalDevotees > 100000) return 10;
-    if (totalDevotees > 50000) return 5;
-    return 0;
+    const reasons = [...byType].map(([type, group]) => ({
+        component: 'incidents',
+        label: `${group.count}× ${type} in the last ${settings.window_hours}h`,
+        points: group.points,
+    }));
+    if (pending && settings.pending_follow_up_points) {
+        reasons.push({
+            component: 'incidents',
+            label: `${pending} follow-up${pending > 1 ? 's' : ''} still pending`,
+            points: pending * settings.pending_follow_up_points,
+        });
+    }
+
+    return capped('incidents', reasons, settings.cap);
+}
+
+// Oldest incident date the active and draft models could need, for loading history
+export const incidentWindowStart = (configs, now = new Date()) =>
+    new Date(now.getTime() - Math.max(0, ...configs.map((config) => incidentSettings(config).window_hours)) * HOUR_MS);
+
+export const calculateEnvironmentalRisk = (weatherData, config = DEFAULT_RISK_CONFIG) =>
+    scoreEnvironmental(weatherData, config).points;
+
+export const calculateCrowdRisk = (totalDevotees, config = DEFAULT_RISK_CONFIG) =>
+    scoreCrowd(totalDevotees, config).points;
+
+const RISK_COLORS = { Critical: 'red', High: 'orange', Moderate: 'yellow', Low: 'green' };
+
+export function riskLevelFor(score, thresholds) {
+    if (score >= thresholds.critical) return 'Critical';
+    if (score >= thresholds.high) return 'High';
+    if (score >= thresholds.moderate) return 'Moderate';
+    return 'Low';
 }
 
 /**
  * Main risk scoring function
- * Returns an object with total score and breakdown
+ * `incidents` are the devotee's recent incidents plus any with a pending follow-up.
+ * Returns an object with total score, breakdown and the explanation lines behind it
  */
-export function calculateRiskScore(devotee, medicalRecord, weatherData, totalDevotees) {
-    const ageRisk = calculateAgeRisk(devotee.age);
-    const medicalRisk = calculateMedicalRisk(medicalRecord?.chronic_conditions);
-    const envRisk = calculateEnvironmentalRisk(weatherData);
-    const crowdRisk = calculateCrowdRisk(totalDevotees);
-
-    const totalScore = Math.min(ageRisk + medicalRisk + envRisk + crowdRisk, 100);
-
-    // Determine risk level
-    let riskLevel = 'Low';
-    let riskColor = 'green';
-
-    if (totalScore >= 75) {
-        riskLevel = 'Critical';
-        riskColor = 'red';
-    } else if (totalScore >= 50) {
-        riskLevel = 'High';
-        riskColor = 'orange';
-    } else if (totalScore >= 25) {
-        riskLevel = 'Moderate';
-        riskColor = 'yellow';
-    }
+export function calculateRiskScore(devotee, medicalRecord, weatherData, totalDevotees, { config = DEFAULT_RISK_CONFIG, incidents = [], now = new Date() } = {}) {
+    const age = scoreAge(devotee.age, config);
+    const medical = scoreMedical(medicalRecord?.chronic_conditions, config);
+    const environmental = scoreEnvironmental(weatherData, config);
+    const crowd = scoreCrowd(totalDevotees, config);
+    const history = scoreIncidents(incidents, config, now);
+
+    const totalScore = Math.min(age.points + medical.points + environmental.points + crowd.points + history.points, 100);
+    const riskLevel = riskLevelFor(totalScore, config.thresholds);
+    const breakdown = {
+        age: age.points,
+        medical: Math.round(medical.points),
+        environmental: environmental.points,
+        crowd: crowd.points,
+        incidents: Math.round(history.points)
+    };
 
     return {
         totalScore: Math.round(totalScore),
         riskLevel,
-        riskColor,
-        breakdown: {
-            age: ageRisk,
-            medical: Math.round(medicalRisk),
-            environmental: envRisk,
-            crowd: crowdRisk
-        },
-        recommendations: generateRecommendations(totalScore, ageRisk, medicalRisk, envRisk)
+        riskColor: RISK_COLORS[riskLevel],
+        breakdown,
+        explanation: [...age.reasons, ...medical.reasons, ...environmental.reasons, ...crowd.reasons, ...history.reasons]
+            .map((reason) => ({ ...reason, points: Math.round(reason.points * 10) / 10 })),
+        recommendations: generateRecommendations({ ...breakdown, medical: medical.points, incidents: history.points, total: totalScore }, config)
     };
 }
 
 /**
  * Generate personalized recommendations based on risk factors
  */
-function generateRecommendations(totalScore, ageRisk, medicalRisk, envRisk) {
-    const recommendations = [];
+function generateRecommendations(scores, config) {
+    const recommendations = config.recommendations
+        .filter((rule) => scores[rule.component] >= rule.min)
+        .flatMap((rule) => rule.messages);
 
-    if (totalScore >= 75) {
-        recommendations.push('🚨 Immediate medical evaluation recommended');
-        recommendations.push('Assign dedicated monitoring staff');
-    }
+    return recommendations.length ? recommendations : [...config.default_recommendations];
+}
 
-    if (ageRisk >= 20) {
-        recommendations.push('👴 Elderly care: Ensure rest periods every 2 hours');
-        recommendations.push('Monitor for signs of exhaustion');
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const optionalNumber = (value) => value === undefined || value === null || value === '' ? undefined : Number(value);
+
+// Bands are parsed from untrusted JSON; returns { bands } or { error }
+function parseBands(input, name) {
+    if (!Array.isArray(input)) return { error: `${name} must be a list of bands` };
+    const bands = [];
+    for (const raw of input) {
+        const band = { min: optionalNumber(raw?.min), max: optionalNumber(raw?.max), points: Number(raw?.points) };
+        if ([band.min, band.max].some((value) => value !== undefined && !isNumber(value)) || !isNumber(band.points)) {
+            return { error: `${name}: min, max and points must be numbers` };
+        }
+        if (band.min !== undefined && band.max !== undefined && band.min >= band.max) {
+            return { error: `${name}: min must be below max` };
+        }
+        if (band.points < 0) return { error: `${name}: points cannot be negative` };
+        bands.push(band);
     }
+    return { bands };
+}
 
-    if (medicalRisk >= 15) {
-        recommendations.push('💊 Verify medication compliance');
-        recommendations.push('Keep emergency contacts updated');
-    }
+function parseCap(value, name) {
+    const cap = Number(value);
+    return isNumber(cap) && cap > 0 ? { cap } : { error: `${name} must be a positive number` };
+}
+
+const stringList = (value) =>
+    Array.isArray(value) ? value.map((item) => String(item).trim()).filter(Boolean) : null;
 
-    if (envRisk >= 10) {
-        recommendations.push('🌡️ Heat risk: Ensure adequate hydration');
-        recommendations.push('Advise to avoid midday sun exposure');
+/**
+ * Check a risk model config from the editor and strip anything the scorer does not read.
+ * @returns { config } or { error }
+ */
+export function parseRiskConfig(input) {
+    if (!input || typeof input !== 'object') return { error: 'config is required' };
+
+    const ageBands = parseBands(input.age?.bands, 'age.bands');
+    if (ageBands.error) return ageBands;
+
+    const medical = input.medical || {};
+    if (!Array.isArray(medical.weights)) return { error: 'medical.weights must be a list' };
+    const weights = [];
+    const codes = new Set();
+    for (const raw of medical.weights) {
+        const code = String(raw?.code || '').trim();
+        const points = Number(raw?.points);
+        if (!code) return { error: 'medical.weights: every weight needs a condition code' };
+        if (codes.has(code)) return { error: `medical.weights: ${code} is listed twice` };
+        if (!isNumber(points) || points < 0) return { error: `medical.weights: points for ${code} must be a number of at least 0` };
+        codes.add(code);
+        weights.push({ code, label: String(raw.label || '').trim(), points });
+    }
+    const defaultPoints = Number(medical.default_points);
+    if (!isNumber(defaultPoints) || defaultPoints < 0) return { error: 'medical.default_points must be a number of at least 0' };
+    const multiplier = Number(medical.multi_condition_multiplier);
+    if (!isNumber(multiplier) || multiplier < 1) return { error: 'medical.multi_condition_multiplier must be at least 1' };
+    const medicalCap = parseCap(medical.cap, 'medical.cap');
+    if (medicalCap.error) return medicalCap;
+
+    const environmental = input.environmental || {};
+    const temperature = parseBands(environmental.temperature, 'environmental.temperature');
+    if (temperature.error) return temperature;
+    const humidity = parseBands(environmental.humidity, 'environmental.humidity');
+    if (humidity.error) return humidity;
+    const aqi = parseBands(environmental.aqi, 'environmental.aqi');
+    if (aqi.error) return aqi;
+    const environmentalCap = parseCap(environmental.cap, 'environmental.cap');
+    if (environmentalCap.error) return environmentalCap;
+
+    const crowdBands = parseBands(input.crowd?.bands, 'crowd.bands');
+    if (crowdBands.error) return crowdBands;
+    const crowdCap = parseCap(input.crowd?.cap, 'crowd.cap');
+    if (crowdCap.error) return crowdCap;
+
+    // Models saved before incident history was scored get the default incident weights
+    const incidents = input.incidents || DEFAULT_RISK_CONFIG.incidents;
+    if (!Array.isArray(incidents.weights)) return { error: 'incidents.weights must be a list' };
+    const incidentWeights = [];
+    for (const raw of incidents.weights) {
+        const points = Number(raw?.points);
+        if (!INCIDENT_TYPES.includes(raw?.incident_type)) {
+            return { error: `incidents.weights: incident_type must be one of: ${INCIDENT_TYPES.join(', ')}` };
+        }
+        if (incidentWeights.some((weight) => weight.incident_type === raw.incident_type)) {
+            return { error: `incidents.weights: ${raw.incident_type} is listed twice` };
+        }
+        if (!isNumber(points) || points < 0) return { error: `incidents.weights: points for ${raw.incident_type} must be a number of at least 0` };
+        incidentWeights.push({ incident_type: raw.incident_type, points });
+    }
+    const windowHours = Number(incidents.window_hours);
+    const halfLifeHours = Number(incidents.half_life_hours);
+    const pendingPoints = Number(incidents.pending_follow_up_points);
+    if (!isNumber(windowHours) || windowHours <= 0) return { error: 'incidents.window_hours must be a positive number' };
+    if (!isNumber(halfLifeHours) || halfLifeHours <= 0) return { error: 'incidents.half_life_hours must be a positive number' };
+    if (!isNumber(pendingPoints) || pendingPoints < 0) return { error: 'incidents.pending_follow_up_points must be a number of at least 0' };
+    const incidentsCap = parseCap(incidents.cap, 'incidents.cap');
+    if (incidentsCap.error) return incidentsCap;
+
+    const thresholds = {
+        moderate: Number(input.thresholds?.moderate),
+        high: Number(input.thresholds?.high),
+        critical: Number(input.thresholds?.critical),
+    };
+    if (!Object.values(thresholds).every(isNumber)
+        || !(thresholds.moderate > 0 && thresholds.moderate < thresholds.high && thresholds.high < thresholds.critical && thresholds.critical <= 100)) {
+        return { error: 'thresholds must rise from moderate to high to critical, between 0 and 100' };
     }
 
-    if (recommendations.length === 0) {
-        recommendations.push('✅ Standard care protocols apply');
+    if (!Array.isArray(input.recommendations)) return { error: 'recommendations must be a list of rules' };
+    const recommendations = [];
+    for (const raw of input.recommendations) {
+        const min = Number(raw?.min);
+        const messages = stringList(raw?.messages);
+        if (!RISK_COMPONENTS.includes(raw?.component)) {
+            return { error: `recommendations: component must be one of: ${RISK_COMPONENTS.join(', ')}` };
+        }
+        if (!isNumber(min)) return { error: 'recommendations: min must be a number' };
+        if (!messages?.length) return { error: 'recommendations: every rule needs at least one message' };
+        recommendations.push({ component: raw.component, min, messages });
     }
+    const defaultRecommendations = stringList(input.default_recommendations);
+    if (!defaultRecommendations?.length) return { error: 'default_recommendations needs at least one message' };
 
-    return recommendations;
+    return {
+        config: {
+            age: { bands: ageBands.bands },
+            medical: { weights, default_points: defaultPoints, multi_condition_multiplier: multiplier, cap: medicalCap.cap },
+            environmental: {
+                temperature: temperature.bands,
+                humidity: humidity.bands,
+                aqi: aqi.bands,
+                cap: environmentalCap.cap,
+            },
+            crowd: { bands: crowdBands.bands, cap: crowdCap.cap },
+            incidents: {
+                weights: incidentWeights,
+                window_hours: windowHours,
+                half_life_hours: halfLifeHours,
+                pending_follow_up_points: pendingPoints,
+                cap: incidentsCap.cap,
+            },
+            thresholds,
+            recommendations,
+            default_recommendations: defaultRecommendations,
+        },
+    };
 }
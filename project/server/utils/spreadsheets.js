@@ -0,0 +1,156 @@
+/**
+ * Reading uploaded CSV and Excel sheets row by row, and writing CSV.
+ *
+ * Rows come out as arrays of trimmed cell text; only the first worksheet of a
+ * workbook is read. XLSX is streamed so a 100k-row sheet is never held as one
+ * object graph.
+ */
+import { once } from 'events';
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+
+export const formatFromFilename = (filename = '') => {
+    const extension = String(filename).toLowerCase().split('.').pop();
+    return ['csv', 'xlsx'].includes(extension) ? extension : null;
+};
+
+// Whichever of comma, semicolon or tab appears most in the header line
+function detectDelimiter(text) {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    return [',', ';', '\t']
+        .map((delimiter) => [delimiter, firstLine.split(delimiter).length])
+        .sort((a, b) => b[1] - a[1])[0][0];
+}
+
+function* csvRecords(text) {
+    const delimiter = detectDelimiter(text);
+    let record = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (inQuotes) {
+            if (c !== '"') {
+                field += c;
+            } else if (text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else {
+                inQuotes = false;
+            }
+        } else if (c === '"') {
+            inQuotes = true;
+        } else if (c === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            yield record;
+            record = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field || record.length) {
+        record.push(field);
+        yield record;
+    }
+}
+
+function cellText(value) {
+    if (value == null) return '';
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value === 'object') {
+        if (Array.isArray(value.richText)) return value.richText.map((part) => part.text).join('').trim();
+        if (value.text !== undefined) return cellText(value.text);
+        if (value.result !== undefined) return cellText(value.result);
+        return '';
+    }
+    return String(value).trim();
+}
+
+async function* xlsxRows(buffer) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookReader(Readable.from(buffer), {
+        sharedStrings: 'cache',
+        // Styles tell dates apart from plain numbers
+        styles: 'cache',
+        hyperlinks: 'ignore',
+        worksheets: 'emit',
+    });
+    for await (const worksheet of workbook) {
+        for await (const row of worksheet) {
+            // row.values is 1-based and sparse
+            yield { row_number: row.number, cells: Array.from(row.values.slice(1), cellText) };
+        }
+        return;
+    }
+}
+
+async function* csvRows(buffer) {
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    let rowNumber = 0;
+    for (const record of csvRecords(text)) {
+        rowNumber += 1;
+        yield { row_number: rowNumber, cells: record.map((cell) => cell.trim()) };
+    }
+}
+
+/**
+ * Non-blank rows of an uploaded sheet, header row included.
+ * @yields { row_number, cells: string[] }
+ */
+export async function* readSpreadsheet(buffer, format) {
+    const rows = format === 'xlsx' ? xlsxRows(buffer) : csvRows(buffer);
+    for await (const row of rows) {
+        if (row.cells.some(Boolean)) yield row;
+    }
+}
+
+// Text a spreadsheet would run as a formula; "+91 98220 11234" included
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value) => {
+    let text = value == null ? '' : String(value);
+    // Free text (names, notes, operator sheets) is shown as typed, never evaluated; numbers keep their sign
+    const formula = typeof value === 'string' && FORMULA_START.test(text);
+    if (formula) text = `'${text}`;
+    return formula || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvLine = (cells) => `${cells.map(csvCell).join(',')}\r\n`;
+
+/**
+ * Stream rows to an HTTP response as CSV or a single-sheet XLSX workbook.
+ * Await addRow so a slow client holds back the database cursor.
+ * @returns { addRow(cells), end() }
+ */
+export function createSheetWriter(res, format, { columns, sheetName = 'Sheet1' }) {
+    if (format === 'xlsx') {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+        const sheet = workbook.addWorksheet(sheetName);
+        sheet.addRow(columns).commit();
+        return {
+            addRow: async (cells) => sheet.addRow(cells).commit(),
+            end: async () => {
+                sheet.commit();
+                await workbook.commit();
+            },
+        };
+    }
+
+    // A BOM so Excel opens the CSV as UTF-8 and Devanagari names survive
+    res.write(`\uFEFF${csvLine(columns)}`);
+    return {
+        addRow: async (cells) => {
+            if (res.write(csvLine(cells)) || res.destroyed) return;
+            // A client that hangs up never drains, so stop waiting on close as well
+            const waiting = new AbortController();
+            const { signal } = waiting;
+            await Promise.race([once(res, 'drain', { signal }), once(res, 'close', { signal })]).finally(() => waiting.abort());
+        },
+        end: async () => res.end(),
+    };
+}
@@ -0,0 +1,10 @@
+/**
+ * How documents record the staff member who acted: a copy of who they were
+ * at the time, so history still reads correctly after an account changes.
+ */
+
+/** The signed-in staff member, as stored in `by`, `recorded_by` and similar fields. */
+export const staffRef = (req) => ({ id: req.user.id, username: req.user.username, full_name: req.user.full_name });
+
+/** As staffRef, with the role they acted under (photo uploads, ABDM consents). */
+export const uploaderRef = (req) => ({ ...staffRef(req), role: req.user.role });
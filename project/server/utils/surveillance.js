@@ -0,0 +1,235 @@
+/**
+ * Outbreak detection over hourly syndrome counts.
+ *
+ * Counts are binned into windows of `binHours` and the latest window is compared
+ * with the windows before it using the CDC EARS C1, C2 and C3 statistics:
+ *  - C1: cases in the window against the mean and SD of the 7 windows just before it
+ *  - C2: the same, with a 2-window gap so a slowly growing outbreak is not in its own baseline
+ *  - C3: C2 excesses over the last three windows added up, to catch a sustained rise
+ */
+import mongoose from 'mongoose';
+import { MedicalCenter } from '../models/MedicalCenter.js';
+import { MedicalIncident } from '../models/MedicalIncident.js';
+import { SyndromeCount } from '../models/SyndromeCount.js';
+import { SurveillanceAlert } from '../models/SurveillanceAlert.js';
+import { SYNDROMES } from './syndromes.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const BIN_HOURS = [1, 3, 6, 12, 24];
+export const DEFAULT_BIN_HOURS = 6;
+
+const BASELINE_BINS = 7;
+const GUARD_BINS = 2;
+const C3_BINS = 3;
+const C1_C2_THRESHOLD = 3;
+const C3_THRESHOLD = 2;
+// An all-zero baseline has no spread; without a floor two cases would already look like an outbreak
+const MIN_SD = 1;
+// Fewer cases than this never raise an alert, however quiet the baseline was
+const MIN_CASES = 3;
+// Windows needed to work out C3 for the latest one
+const HISTORY_BINS = C3_BINS - 1 + GUARD_BINS + BASELINE_BINS + 1;
+
+const DETECTION_INTERVAL_MS = 5 * 60 * 1000;
+
+const startOfHour = (date) => {
+  const hour = new Date(date);
+  hour.setMinutes(0, 0, 0);
+  return hour;
+};
+
+const round = (value) => Math.round(value * 100) / 100;
+
+// Incidents recorded before the registry existed are keyed by the facility name they carry
+export const centerKeyOf = (incident) =>
+  incident.medical_center_id ? incident.medical_center_id.toString() : `name:${incident.medical_center}`;
+
+/**
+ * Recount the syndromes for the hour and facility an incident falls in.
+ * Recounting rather than incrementing keeps the counts right when an incident is edited.
+ */
+export async function refreshSyndromeCounts(incident) {
+  try {
+    const hour = startOfHour(incident.incident_date);
+    const centerKey = centerKeyOf(incident);
+    const atCenter = incident.medical_center_id
+      ? { medical_center_id: incident.medical_center_id }
+      : { medical_center_id: null, medical_center: incident.medical_center };
+
+    const [groups, center] = await Promise.all([
+      MedicalIncident.aggregate([
+        { $match: { ...atCenter, incident_date: { $gte: hour, $lt: new Date(hour.getTime() + HOUR_MS) } } },
+        { $unwind: '$syndromes' },
+        { $group: { _id: '$syndromes', count: { $sum: 1 } } },
+      ]),
+      incident.medical_center_id ? MedicalCenter.findById(incident.medical_center_id).select('name sector').lean() : null,
+    ]);
+    const counts = new Map(groups.map((g) => [g._id, g.count]));
+
+    await SyndromeCount.bulkWrite(SYNDROMES.map((syndrome) => {
+      const filter = { hour, center_key: centerKey, syndrome };
+      return counts.get(syndrome)
+        ? {
+          updateOne: {
+            filter,
+            update: {
+              $set: {
+                count: counts.get(syndrome),
+                center_id: incident.medical_center_id || undefined,
+                center: center?.name || incident.medical_center,
+                sector: center?.sector || '',
+              },
+            },
+            upsert: true,
+          },
+        }
+        : { deleteOne: { filter } };
+    }));
+  } catch (error) {
+    // The incident is already saved; the backfill script rebuilds any counts missed here
+    console.error('Failed to update syndrome counts', error);
+  }
+}
+
+const meanAndSd = (values) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, sd: Math.sqrt(variance) };
+};
+
+/**
+ * EARS statistics for the last value of `counts` (oldest first, HISTORY_BINS long).
+ * @returns { observed, expected, c1, c2, c3, methods } where methods lists those over threshold
+ */
+export function earsStatistics(counts) {
+  const score = (t, lag) => {
+    const { mean, sd } = meanAndSd(counts.slice(t - lag - BASELINE_BINS, t - lag));
+    return { value: (counts[t] - mean) / Math.max(sd, MIN_SD), mean };
+  };
+
+  const t = counts.length - 1;
+  const c1 = score(t, 0);
+  const c2 = score(t, GUARD_BINS);
+  const c3 = Array.from({ length: C3_BINS }, (_, k) => Math.max(0, score(t - k, GUARD_BINS).value - 1))
+    .reduce((sum, v) => sum + v, 0);
+
+  const observed = counts[t];
+  const methods = observed < MIN_CASES ? [] : [
+    c1.value > C1_C2_THRESHOLD && 'C1',
+    c2.value > C1_C2_THRESHOLD && 'C2',
+    c3 > C3_THRESHOLD && 'C3',
+  ].filter(Boolean);
+
+  return { observed, expected: round(c1.mean), c1: round(c1.value), c2: round(c2.value), c3: round(c3), methods };
+}
+
+/**
+ * Current EARS signal for every syndrome at every facility (scope 'center') or sector
+ * that saw cases in the look-back period, alerts first.
+ * @returns { scope, bin_hours, window: { start, end }, signals }
+ */
+export async function computeSignals({ scope = 'center', binHours = DEFAULT_BIN_HOURS, now = new Date() } = {}) {
+  const binMs = binHours * HOUR_MS;
+  const end = new Date(startOfHour(now).getTime() + HOUR_MS);
+  const start = new Date(end.getTime() - HISTORY_BINS * binMs);
+
+  const rows = await SyndromeCount.find({ hour: { $gte: start, $lt: end } }).lean();
+
+  const series = new Map();
+  rows.forEach((row) => {
+    const scopeKey = scope === 'sector' ? row.sector : row.center_key;
+    const key = `${row.syndrome}|${scopeKey}`;
+    if (!series.has(key)) {
+      series.set(key, {
+        syndrome: row.syndrome,
+        scope_key: scopeKey,
+        label: scope === 'sector' ? row.sector : row.center,
+        sector: row.sector,
+        counts: new Array(HISTORY_BINS).fill(0),
+      });
+    }
+    series.get(key).counts[Math.floor((row.hour.getTime() - start.getTime()) / binMs)] += row.count;
+  });
+
+  const signals = [...series.values()]
+    .map((s) => {
+      const stats = earsStatistics(s.counts);
+      return { ...s, ...stats, alert: stats.methods.length > 0 };
+    })
+    .sort((a, b) => Number(b.alert) - Number(a.alert) || b.c2 - a.c2 || b.observed - a.observed);
+
+  return { scope, bin_hours: binHours, window: { start: new Date(end.getTime() - binMs), end }, signals };
+}
+
+/**
+ * Raise an alert for every signal over threshold, at facility and sector level.
+ * A signal that continues from an earlier alert extends it, so a dismissed alert stays dismissed.
+ * @returns the alerts raised by this run
+ */
+export async function detectOutbreaks({ binHours = DEFAULT_BIN_HOURS, now = new Date() } = {}) {
+  const raised = [];
+  for (const scope of ['center', 'sector']) {
+    const { window, signals } = await computeSignals({ scope, binHours, now });
+    for (const signal of signals.filter((s) => s.alert)) {
+      const fields = {
+        window_start: window.start,
+        window_end: window.end,
+        observed: signal.observed,
+        expected: signal.expected,
+        c1: signal.c1,
+        c2: signal.c2,
+        c3: signal.c3,
+        methods: signal.methods,
+      };
+      const ongoing = await SurveillanceAlert.findOne({
+        syndrome: signal.syndrome,
+        scope,
+        scope_key: signal.scope_key,
+        bin_hours: binHours,
+        window_end: { $gte: window.start },
+      }).sort({ window_end: -1 });
+
+      if (ongoing) {
+        ongoing.set({ ...fields, peak_observed: Math.max(ongoing.peak_observed, signal.observed) });
+        await ongoing.save();
+      } else {
+        raised.push(await SurveillanceAlert.create({
+          ...fields,
+          syndrome: signal.syndrome,
+          scope,
+          scope_key: signal.scope_key,
+          label: signal.label,
+          bin_hours: binHours,
+          first_window_start: window.start,
+          peak_observed: signal.observed,
+        }));
+      }
+    }
+  }
+  return raised;
+}
+
+/**
+ * Incident filter for the place a signal or alert is about.
+ * @returns a MedicalIncident query, or null when the key is malformed
+ */
+export async function placeFilter(scope, scopeKey) {
+  if (scope === 'sector') {
+    const centers = await MedicalCenter.find({ sector: scopeKey }).select('_id').lean();
+    const inSector = { medical_center_id: { $in: centers.map((c) => c._id) } };
+    // Facilities outside the registry have no sector, so they are counted with the unassigned ones
+    return scopeKey ? inSector : { $or: [inSector, { medical_center_id: null }] };
+  }
+  if (scopeKey.startsWith('name:')) {
+    return { medical_center_id: null, medical_center: scopeKey.slice('name:'.length) };
+  }
+  return mongoose.isValidObjectId(scopeKey) ? { medical_center_id: new mongoose.Types.ObjectId(scopeKey) } : null;
+}
+
+// Re-run detection in the background while the server is up
+export function startOutbreakDetection() {
+  const run = () => detectOutbreaks().catch((error) => console.error('Outbreak detection failed', error));
+  run();
+  return setInterval(run, DETECTION_INTERVAL_MS);
+}
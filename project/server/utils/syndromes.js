@@ -0,0 +1,70 @@
+/**
+ * Syndromic classification of incidents for outbreak surveillance.
+ *
+ * Staff write symptoms and diagnoses as free text in English, Hindi or
+ * Marathi, so an incident is sorted into broad syndromes by keyword. An
+ * incident can fall into more than one (a fall during heat stroke is both
+ * 'heat' and 'injury'); one that matches nothing is simply not counted.
+ */
+
+export const SYNDROMES = ['gi', 'heat', 'respiratory', 'injury', 'cardiac', 'fever'];
+
+// Measured temperature at or above this counts as fever whatever was written
+const FEVER_TEMPERATURE_C = 38;
+
+// English and romanised terms match whole words, with their inflections spelled out:
+// a bare prefix lets short Hinglish words hit unrelated ones ('ulti' in 'multiple').
+// Devanagari terms match at the start of a word, so inflected forms (गिरना) still count;
+// \b only knows ASCII letters, so those words are delimited by hand.
+const english = (...terms) => new RegExp(`\\b(?:${terms.join('|')})\\b`, 'i');
+const devanagari = (...terms) => new RegExp(`(?<![\\u0900-\\u097F])(?:${terms.join('|')})`);
+
+const SYNDROME_PATTERNS = {
+  gi: [
+    english('diarrh(?:o)?ea', 'loose (?:motion|stool)s?', 'vomit(?:s|ed|ing)?', 'nause(?:a|ated|ous)', 'gastro\\w*', 'dysentery',
+      'food poisoning', 'abdominal pain', 'stomach (?:ache|pain|upset)', 'cholera', 'dast', 'ulti(?:yan)?'),
+    devanagari('दस्त', 'लूज़ मोशन', 'लूज मोशन', 'उल्टी', 'उलटी', 'जुलाब', 'पेट दर्द', 'पेट में दर्द', 'पोटदुखी', 'मळमळ', 'जी मिचला'),
+  ],
+  heat: [
+    english('heat ?stroke', 'heat exhaustion', 'heat cramps?', 'heat illness', 'sun ?stroke', 'hyperthermia', 'dehydrat(?:ed|ion)',
+      'loo lag(?:i|a|na)?'),
+    devanagari('लू(?![\\u0900-\\u097F])', 'उष्माघात', 'निर्जलीकरण', 'डिहाइड्रेशन', 'पानी की कमी'),
+  ],
+  respiratory: [
+    english('cough(?:s|ed|ing)?', 'breathless(?:ness)?', 'shortness of breath', 'breathing difficult(?:y|ies)',
+      'difficulty (?:in )?breathing', 'wheez(?:e|es|ed|ing)', 'asthma(?:tic)?', 'sore throat', 'common cold', 'pneumonia',
+      'bronchitis', 'urti', 'sob', 'khansi'),
+    devanagari('खांसी', 'खाँसी', 'सांस', 'साँस', 'दमा', 'खोकला', 'श्वास', 'जुकाम', 'सर्दी'),
+  ],
+  injury: [
+    english('injur(?:y|ies|ed)', 'fall(?:s|en)?', 'fell', 'fracture[sd]?', 'wound(?:s|ed)?', 'cuts?', 'lacerations?',
+      'sprain(?:s|ed)?', 'bruise[sd]?', 'burns?', 'burnt', 'crush(?:ed|ing)?', 'stampede', 'trauma(?:tic)?', 'dog bite',
+      'snake ?bite', 'dislocat(?:ed|ion)'),
+    devanagari('चोट', 'घाव', 'जखम', 'गिर', 'फ्रैक्चर', 'हड्डी', 'भगदड़', 'चेंगराचेंगरी', 'भाजल', 'जल गया'),
+  ],
+  cardiac: [
+    english('chest pain', 'palpitations?', 'heart attack', 'cardiac', 'angina', 'arrhythmias?', 'myocardial', 'mi'),
+    devanagari('सीने में दर्द', 'छाती में दर्द', 'छातीत दुख', 'हृदय', 'दिल का दौरा', 'धड़कन'),
+  ],
+  fever: [
+    english('fevers?', 'feverish', 'pyrexia', 'febrile', 'chills', 'bukhar'),
+    devanagari('बुखार', 'ज्वर', 'ताप(?!मान)'),
+  ],
+};
+
+/**
+ * Syndromes an incident belongs to, from its symptoms and diagnosis and,
+ * for fever, any recorded temperature.
+ * @returns array of SYNDROMES keys, in SYNDROMES order
+ */
+export function classifySyndromes(incident) {
+  const text = [incident.symptoms, incident.diagnosis].filter(Boolean).join(' ');
+  const found = new Set(
+    SYNDROMES.filter((syndrome) => SYNDROME_PATTERNS[syndrome].some((pattern) => pattern.test(text)))
+  );
+
+  const febrile = (incident.observations || []).some((o) => o.temperature_c >= FEVER_TEMPERATURE_C);
+  if (febrile) found.add('fever');
+
+  return SYNDROMES.filter((syndrome) => found.has(syndrome));
+}
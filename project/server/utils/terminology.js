@@ -0,0 +1,172 @@
+import { NONE_WORDS, TERM_SYSTEMS, VOCABULARY } from './vocabulary.js';
+
+export const TERM_KINDS = Object.keys(VOCABULARY);
+
+// Medical record list field -> vocabulary it is coded against
+export const RECORD_TERM_FIELDS = {
+  chronic_conditions: 'condition',
+  allergies: 'allergen',
+  current_medications: 'drug',
+  past_surgeries: 'procedure',
+};
+
+// Free text below this score is kept as text rather than guessed at
+const RESOLVE_THRESHOLD = 0.85;
+// Typos are only forgiven on words long enough for edit distance to mean something
+const FUZZY_MIN_LENGTH = 4;
+
+export const normalizeTerm = (text) =>
+  String(text || '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const NONE_SET = new Set(NONE_WORDS.map(normalizeTerm));
+
+// Every spelling a term can be found by, normalized once at startup
+const INDEX = Object.fromEntries(
+  TERM_KINDS.map((kind) => [
+    kind,
+    VOCABULARY[kind].map((entry) => ({
+      entry,
+      forms: [...new Set([entry.display, ...Object.values(entry.labels), ...entry.synonyms].map(normalizeTerm))],
+    })),
+  ])
+);
+
+const BY_CODE = Object.fromEntries(
+  TERM_KINDS.map((kind) => [kind, new Map(VOCABULARY[kind].map((entry) => [entry.code, entry]))])
+);
+
+function levenshtein(a, b) {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+/**
+ * How well `query` matches one spelling, 0..1.
+ * 1 = exact, ~0.7–0.9 = what has been typed so far is a prefix, else edit-distance similarity.
+ */
+function scoreForm(query, form) {
+  if (query === form) return 1;
+  if (form.startsWith(query)) return 0.7 + 0.2 * (query.length / form.length);
+  if (query.length < FUZZY_MIN_LENGTH || form.length < FUZZY_MIN_LENGTH) return 0;
+  // "cataract operation", "asthma since childhood": a known name followed by detail
+  if (query.startsWith(`${form} `)) return 0.88;
+  const similarity = 1 - levenshtein(query, form) / Math.max(query.length, form.length);
+  return similarity >= 0.75 ? similarity : 0;
+}
+
+// Doses and strengths ("Dolo 650", "metformin 500mg") say nothing about which drug it is
+const STRENGTH = /\d+(\.\d+)?\s*(mg|mcg|g|ml|iu|units?)?\b/gi;
+
+// "उच्च रक्तदाब (BP)" or "Asthma/COPD" as typed on the old form: try the whole text and each part
+const variantsOf = (text) => {
+  const raw = String(text || '').replace(STRENGTH, ' ');
+  const parts = [raw, raw.replace(/\(.*?\)/g, ''), ...(raw.match(/\((.*?)\)/g) || []), ...raw.split('/')];
+  return [...new Set(parts.map(normalizeTerm).filter(Boolean))];
+};
+
+const toMatch = (kind, entry, score, lang) => ({
+  code: entry.code,
+  system: TERM_SYSTEMS[kind],
+  display: entry.display,
+  label: entry.labels[lang] || entry.display,
+  score: Math.round(score * 100) / 100,
+});
+
+/**
+ * Ranked vocabulary matches for what a user has typed so far, in any of en/hi/mr.
+ * @returns [{ code, system, display, label, score }]
+ */
+export function lookupTerms(kind, text, { limit = 10, lang = 'en' } = {}) {
+  if (!INDEX[kind]) return [];
+  const variants = variantsOf(text);
+  if (!variants.length) return [];
+
+  const scored = INDEX[kind]
+    .map(({ entry, forms }) => {
+      let best = 0;
+      variants.forEach((variant) => forms.forEach((form) => {
+        best = Math.max(best, scoreForm(variant, form));
+      }));
+      return { entry, score: best };
+    })
+    .filter((m) => m.score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.display.localeCompare(b.entry.display));
+
+  return scored.slice(0, limit).map((m) => toMatch(kind, m.entry, m.score, lang));
+}
+
+/** Best confident match for a whole piece of free text, or null. */
+export function resolveTerm(kind, text) {
+  const [best] = lookupTerms(kind, text, { limit: 1 });
+  return best && best.score >= RESOLVE_THRESHOLD ? best : null;
+}
+
+export const isNoneAnswer = (text) => NONE_SET.has(normalizeTerm(text));
+
+/**
+ * Turn whatever the client or an old record holds into coded entries:
+ * a comma-separated string, or an array of { code?, text? } / strings.
+ * Known codes are re-labelled from the vocabulary; free text is resolved when
+ * the match is confident and otherwise kept uncoded. "None" answers are dropped.
+ * @returns [{ code, system, display, text }]
+ */
+export function toCodedEntries(kind, input) {
+  const items = Array.isArray(input)
+    ? input
+    : String(input || '').split(',');
+
+  const entries = [];
+  const seen = new Set();
+
+  items.forEach((item) => {
+    const raw = typeof item === 'string' ? { text: item } : item || {};
+    const text = String(raw.text ?? raw.display ?? '').trim();
+
+    let entry = raw.code ? BY_CODE[kind]?.get(raw.code) : null;
+    if (!entry) {
+      if (!text || isNoneAnswer(text)) return;
+      const match = resolveTerm(kind, text);
+      entry = match ? BY_CODE[kind].get(match.code) : null;
+    }
+
+    const key = entry ? entry.code : normalizeTerm(text);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    entries.push(entry
+      ? { code: entry.code, system: TERM_SYSTEMS[kind], display: entry.display, text: text || entry.display }
+      : { code: null, system: null, display: text, text });
+  });
+
+  return entries;
+}
+
+/** Coded versions of every list field on a record-shaped object (request body or stored record). */
+export function codeRecordFields(source = {}) {
+  return Object.fromEntries(
+    Object.entries(RECORD_TERM_FIELDS).map(([field, kind]) => [field, toCodedEntries(kind, source[field])])
+  );
+}
+
+/** "Hypertension, Diabetes mellitus" for places that only have room for one line. */
+export const describeEntries = (entries) =>
+  Array.isArray(entries)
+    ? entries.map((entry) => entry.display || entry.text).join(', ')
+    : String(entries || '');
+
+export const codesOf = (entries) =>
+  (Array.isArray(entries) ? entries : []).map((entry) => entry.code).filter(Boolean);
@@ -0,0 +1,173 @@
+/**
+ * Vitals validation and triage scoring
+ *
+ * - NEWS2 (Royal College of Physicians, 2017) early-warning score, SpO2 scale 1
+ * - START mass-casualty colour: red (immediate), yellow (delayed),
+ *   green (minor, walking wounded), black (expectant / not breathing),
+ *   or none while the observation is missing a step
+ */
+
+// Physiologically plausible ranges; anything outside is a typo, not a patient
+export const VITAL_LIMITS = {
+  pulse: [0, 300],
+  bp_systolic: [0, 300],
+  bp_diastolic: [0, 200],
+  spo2: [0, 100],
+  temperature_c: [25, 45],
+  respiratory_rate: [0, 80],
+  gcs: [3, 15],
+  blood_glucose_mg_dl: [10, 1000],
+  capillary_refill_s: [0, 20],
+};
+
+export const AVPU_LEVELS = ['A', 'V', 'P', 'U'];
+export const TRIAGE_CATEGORIES = ['red', 'yellow', 'green', 'black'];
+export const NEWS2_RISKS = ['low', 'low_medium', 'medium', 'high'];
+
+const BOOLEAN_FIELDS = ['on_oxygen', 'ambulatory', 'obeys_commands'];
+
+/**
+ * Normalise a vitals payload from the client.
+ * @returns { vitals } with only recognised fields, or { error }
+ */
+export function parseVitals(input = {}) {
+  const vitals = {};
+
+  for (const [field, [min, max]] of Object.entries(VITAL_LIMITS)) {
+    const raw = input[field];
+    if (raw === undefined || raw === null || raw === '') continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      return { error: `${field} must be between ${min} and ${max}` };
+    }
+    vitals[field] = value;
+  }
+
+  if (vitals.bp_systolic !== undefined && vitals.bp_diastolic !== undefined && vitals.bp_diastolic >= vitals.bp_systolic) {
+    return { error: 'bp_diastolic must be lower than bp_systolic' };
+  }
+
+  if (input.avpu !== undefined && input.avpu !== null && input.avpu !== '') {
+    if (!AVPU_LEVELS.includes(input.avpu)) {
+      return { error: `avpu must be one of: ${AVPU_LEVELS.join(', ')}` };
+    }
+    vitals.avpu = input.avpu;
+  }
+
+  BOOLEAN_FIELDS.forEach((field) => {
+    if (typeof input[field] === 'boolean') vitals[field] = input[field];
+  });
+
+  if (Object.keys(vitals).length === 0) {
+    return { error: 'At least one vital sign is required' };
+  }
+
+  return { vitals };
+}
+
+const band = (value, bands) => bands.find(([max]) => value <= max)[1];
+
+// A patient is treated as not alert if AVPU says so, or GCS is below 15 when AVPU is missing
+function isAlert(vitals) {
+  if (vitals.avpu) return vitals.avpu === 'A';
+  if (vitals.gcs !== undefined) return vitals.gcs === 15;
+  return undefined;
+}
+
+/**
+ * NEWS2 aggregate score. Parameters that were not measured score 0, so
+ * `complete` tells the caller whether all seven were present.
+ */
+export function computeNews2(vitals) {
+  const parts = {};
+
+  if (vitals.respiratory_rate !== undefined) {
+    parts.respiratory_rate = band(vitals.respiratory_rate, [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]]);
+  }
+  if (vitals.spo2 !== undefined) {
+    parts.spo2 = band(vitals.spo2, [[91, 3], [93, 2], [95, 1], [Infinity, 0]]);
+  }
+  if (vitals.on_oxygen !== undefined) {
+    parts.on_oxygen = vitals.on_oxygen ? 2 : 0;
+  }
+  if (vitals.bp_systolic !== undefined) {
+    parts.bp_systolic = band(vitals.bp_systolic, [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]]);
+  }
+  if (vitals.pulse !== undefined) {
+    parts.pulse = band(vitals.pulse, [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]]);
+  }
+  const alert = isAlert(vitals);
+  if (alert !== undefined) {
+    parts.consciousness = alert ? 0 : 3;
+  }
+  if (vitals.temperature_c !== undefined) {
+    parts.temperature_c = band(vitals.temperature_c, [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1], [Infinity, 2]]);
+  }
+
+  const values = Object.values(parts);
+  const score = values.reduce((sum, v) => sum + v, 0);
+
+  let risk = 'low';
+  if (score >= 7) risk = 'high';
+  else if (score >= 5) risk = 'medium';
+  else if (values.includes(3)) risk = 'low_medium'; // a single red parameter
+
+  return { score, risk, parts, complete: values.length === 7 };
+}
+
+// START steps and the fields that can answer each one
+const START_STEPS = {
+  ambulatory: ['ambulatory'],
+  respiratory_rate: ['respiratory_rate'],
+  perfusion: ['capillary_refill_s', 'bp_systolic'],
+  mental_status: ['obeys_commands', 'avpu', 'gcs'],
+};
+
+/** START steps the observation has nothing for. */
+export function missingStartInputs(vitals) {
+  return Object.keys(START_STEPS).filter((step) => START_STEPS[step].every((field) => vitals[field] === undefined));
+}
+
+/**
+ * START triage colour from the same observation, or null (untriaged) when a step
+ * that could change the colour was not assessed. Yellow is only given once every
+ * step has been checked, never as a guess.
+ */
+export function computeStartCategory(vitals) {
+  if (vitals.ambulatory) return 'green';
+  if (vitals.respiratory_rate === 0) return 'black';
+  if (vitals.respiratory_rate !== undefined && vitals.respiratory_rate > 30) return 'red';
+
+  // Perfusion: capillary refill over 2s, or no palpable radial pulse (approximated by SBP < 80)
+  if (vitals.capillary_refill_s !== undefined && vitals.capillary_refill_s > 2) return 'red';
+  if (vitals.bp_systolic !== undefined && vitals.bp_systolic < 80) return 'red';
+
+  // Mental status: cannot follow simple commands
+  if (vitals.obeys_commands === false || isAlert(vitals) === false) return 'red';
+
+  return missingStartInputs(vitals).length ? null : 'yellow';
+}
+
+/**
+ * Glucose is not part of NEWS2 but is flagged separately (mg/dL)
+ */
+export function glucoseFlag(vitals) {
+  if (vitals.blood_glucose_mg_dl === undefined) return null;
+  if (vitals.blood_glucose_mg_dl < 70) return 'hypoglycaemia';
+  if (vitals.blood_glucose_mg_dl > 250) return 'hyperglycaemia';
+  return null;
+}
+
+export function assessVitals(vitals) {
+  const news2 = computeNews2(vitals);
+  const category = computeStartCategory(vitals);
+  return {
+    category,
+    // What to ask for before a colour can be given
+    start_missing: category ? [] : missingStartInputs(vitals),
+    news2_score: news2.score,
+    news2_risk: news2.risk,
+    news2_complete: news2.complete,
+    glucose_flag: glucoseFlag(vitals),
+  };
+}
@@ -0,0 +1,425 @@
+/**
+ * In-process approximate nearest-neighbour index for 128-d face descriptors.
+ *
+ * IVF-Flat: vectors are bucketed under their nearest k-means centroid and a
+ * query only scans the `nprobe` buckets closest to it. Below `minTrainSize`
+ * vectors the index stays untrained and every query is an exact scan.
+ *
+ * k-means runs in a worker thread (vectorIndexWorker.js): at 100k vectors it
+ * takes tens of seconds, which would otherwise freeze the whole API. Queries
+ * and inserts keep using the old centroids until the new ones are swapped in.
+ */
+import fs from 'fs';
+import path from 'path';
+import { setImmediate as yieldToEventLoop } from 'timers/promises';
+import { Worker } from 'worker_threads';
+
+// 2 adds the list each vector is assigned to, so a restart needn't reassign them
+const FORMAT_VERSION = 2;
+const READABLE_VERSIONS = [1, 2];
+
+function squaredDistance(a, aOffset, b, bOffset, dim) {
+    let sum = 0;
+    for (let i = 0; i < dim; i += 1) {
+        const diff = a[aOffset + i] - b[bOffset + i];
+        sum += diff * diff;
+    }
+    return sum;
+}
+
+function nearestCentroid(source, offset, centroids, dim) {
+    let best = 0;
+    let bestD2 = Infinity;
+    const nlist = centroids.length / dim;
+    for (let c = 0; c < nlist; c += 1) {
+        const d2 = squaredDistance(source, offset, centroids, c * dim, dim);
+        if (d2 < bestD2) {
+            bestD2 = d2;
+            best = c;
+        }
+    }
+    return best;
+}
+
+/**
+ * k-means over an evenly spaced sample of the given slots' vectors.
+ * @returns Float32Array(nlist * dim) of centroids
+ */
+export function trainCentroids(vectors, slots, { dim, nlist, iterations }) {
+    const sampleSize = Math.min(slots.length, nlist * 40);
+    const sample = new Float32Array(sampleSize * dim);
+    for (let i = 0; i < sampleSize; i += 1) {
+        const slot = slots[Math.floor((i * slots.length) / sampleSize)];
+        sample.set(vectors.subarray(slot * dim, (slot + 1) * dim), i * dim);
+    }
+
+    const centroids = new Float32Array(nlist * dim);
+    for (let c = 0; c < nlist; c += 1) {
+        const from = Math.floor((c * sampleSize) / nlist);
+        centroids.set(sample.subarray(from * dim, (from + 1) * dim), c * dim);
+    }
+
+    const sums = new Float64Array(nlist * dim);
+    const counts = new Uint32Array(nlist);
+    for (let iter = 0; iter < iterations; iter += 1) {
+        sums.fill(0);
+        counts.fill(0);
+        for (let i = 0; i < sampleSize; i += 1) {
+            const c = nearestCentroid(sample, i * dim, centroids, dim);
+            counts[c] += 1;
+            for (let d = 0; d < dim; d += 1) sums[c * dim + d] += sample[i * dim + d];
+        }
+        for (let c = 0; c < nlist; c += 1) {
+            if (!counts[c]) continue; // keep empty centroids where they are
+            for (let d = 0; d < dim; d += 1) centroids[c * dim + d] = sums[c * dim + d] / counts[c];
+        }
+    }
+    return centroids;
+}
+
+/** The nearest centroid of every given slot, in the same order. */
+export function assignSlots(vectors, slots, centroids, dim) {
+    const assignments = new Int32Array(slots.length);
+    slots.forEach((slot, i) => {
+        assignments[i] = nearestCentroid(vectors, slot * dim, centroids, dim);
+    });
+    return assignments;
+}
+
+function runTrainer(workerData) {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./vectorIndexWorker.js', import.meta.url), {
+            workerData,
+            // The vectors are a throwaway copy; the slots are still needed to install the result
+            transferList: [workerData.vectors.buffer],
+        });
+        worker.once('message', resolve);
+        worker.once('error', reject);
+        worker.once('exit', (code) => {
+            if (code !== 0) reject(new Error(`Face index trainer exited with code ${code}`));
+        });
+    });
+}
+
+const RETRY_TRAINING_AFTER = 60 * 1000;
+// Vectors written during training are placed this many at a time between event loop turns
+const INSTALL_BATCH = 256;
+
+function padSlotList(slotList, capacity) {
+    if (slotList.length >= capacity) return slotList;
+    const grown = new Int32Array(capacity).fill(-1);
+    grown.set(slotList);
+    return grown;
+}
+
+const defaultNlist = (size) => Math.max(16, Math.min(4096, Math.round(Math.sqrt(size))));
+
+// Keeps the k smallest { slot, d2 } entries, sorted ascending
+function pushTopK(top, k, slot, d2) {
+    if (top.length === k && d2 >= top[k - 1].d2) return;
+    let i = top.length < k ? top.length : k - 1;
+    if (top.length < k) top.push(null);
+    while (i > 0 && top[i - 1].d2 > d2) {
+        top[i] = top[i - 1];
+        i -= 1;
+    }
+    top[i] = { slot, d2 };
+}
+
+export class VectorIndex {
+    constructor({ dim = 128, nprobe = 8, minTrainSize = 4096, trainIterations = 8 } = {}) {
+        this.dim = dim;
+        this.nprobe = nprobe;
+        this.minTrainSize = minTrainSize;
+        this.trainIterations = trainIterations;
+
+        this.capacity = 1024;
+        this.vectors = new Float32Array(this.capacity * dim);
+        this.slotIds = [];           // slot -> external id (null when freed)
+        this.slotMeta = [];          // slot -> metadata used for filtering
+        this.idToSlot = new Map();
+        this.freeSlots = [];
+
+        this.centroids = null;       // Float32Array(nlist * dim)
+        this.lists = [];             // centroid -> Set of slots
+        this.slotList = new Int32Array(this.capacity).fill(-1);
+        this.trainedSize = 0;
+
+        this.training = null;        // Promise while a worker is training new centroids
+        this.dirtySlots = null;      // slots written since that training took its copy
+        this.trainingFailedAt = 0;
+    }
+
+    get size() {
+        return this.idToSlot.size;
+    }
+
+    get nlist() {
+        return this.centroids ? this.centroids.length / this.dim : 0;
+    }
+
+    grow() {
+        this.capacity *= 2;
+        const vectors = new Float32Array(this.capacity * this.dim);
+        vectors.set(this.vectors);
+        this.vectors = vectors;
+        const slotList = new Int32Array(this.capacity).fill(-1);
+        slotList.set(this.slotList);
+        this.slotList = slotList;
+    }
+
+    assign(slot) {
+        const list = nearestCentroid(this.vectors, slot * this.dim, this.centroids, this.dim);
+        this.lists[list].add(slot);
+        this.slotList[slot] = list;
+    }
+
+    unassign(slot) {
+        const list = this.slotList[slot];
+        if (list >= 0) this.lists[list].delete(slot);
+        this.slotList[slot] = -1;
+    }
+
+    /**
+     * Insert or replace the vector stored under id.
+     */
+    upsert(id, vector, meta = {}) {
+        if (!vector || vector.length !== this.dim) {
+            throw new Error(`Vector for ${id} must have ${this.dim} dimensions`);
+        }
+
+        let slot = this.idToSlot.get(id);
+        if (slot === undefined) {
+            slot = this.freeSlots.length ? this.freeSlots.pop() : this.slotIds.length;
+            if (slot >= this.capacity) this.grow();
+            this.idToSlot.set(id, slot);
+        } else if (this.centroids) {
+            this.unassign(slot);
+        }
+
+        this.vectors.set(vector, slot * this.dim);
+        this.slotIds[slot] = id;
+        this.slotMeta[slot] = meta;
+        this.dirtySlots?.add(slot);
+
+        if (this.centroids) {
+            this.assign(slot);
+        }
+        this.maybeRetrain();
+    }
+
+    updateMeta(id, meta) {
+        const slot = this.idToSlot.get(id);
+        if (slot !== undefined) {
+            this.slotMeta[slot] = { ...this.slotMeta[slot], ...meta };
+        }
+    }
+
+    remove(id) {
+        const slot = this.idToSlot.get(id);
+        if (slot === undefined) return false;
+        if (this.centroids) this.unassign(slot);
+        this.idToSlot.delete(id);
+        this.slotIds[slot] = null;
+        this.slotMeta[slot] = null;
+        this.freeSlots.push(slot);
+        this.dirtySlots?.add(slot);
+        return true;
+    }
+
+    // (Re)train once the collection has outgrown the current centroids 4x
+    maybeRetrain() {
+        if (this.training || this.size < this.minTrainSize) return;
+        if (Date.now() - this.trainingFailedAt < RETRY_TRAINING_AFTER) return;
+        if (this.centroids && this.size < this.trainedSize * 4) return;
+        this.retrain();
+    }
+
+    /**
+     * k-means over a sample of the stored vectors in a worker thread, which
+     * also assigns every vector to its new list. Resolves to true once the
+     * new centroids are in use.
+     */
+    retrain(nlist = defaultNlist(this.size)) {
+        if (this.training) return this.training;
+
+        const slots = Int32Array.from(this.idToSlot.values());
+        if (slots.length < nlist) return Promise.resolve(false);
+
+        const trainedSize = this.size;
+        this.dirtySlots = new Set();
+        this.training = runTrainer({
+            vectors: this.vectors.slice(0, this.slotIds.length * this.dim),
+            slots,
+            dim: this.dim,
+            nlist,
+            iterations: this.trainIterations,
+        })
+            .then(async ({ centroids, assignments }) => {
+                await this.install(centroids, slots, assignments);
+                this.trainedSize = trainedSize;
+                return true;
+            })
+            .catch((error) => {
+                console.error('Failed to train face index', error);
+                this.trainingFailedAt = Date.now();
+                return false;
+            })
+            .finally(() => {
+                this.training = null;
+                this.dirtySlots = null;
+            });
+        return this.training;
+    }
+
+    /** Resolves once any training in progress has been swapped in. */
+    async whenTrained() {
+        await this.training;
+    }
+
+    /**
+     * Swap in centroids and list assignments computed from an earlier copy of
+     * the vectors. Slots written since that copy are placed against the new
+     * centroids in small batches, old lists still serving meanwhile, and only
+     * then is the new structure swapped in.
+     */
+    async install(centroids, slots, assignments) {
+        const lists = Array.from({ length: centroids.length / this.dim }, () => new Set());
+        let slotList = new Int32Array(this.capacity).fill(-1);
+        slots.forEach((slot, i) => {
+            if (this.dirtySlots.has(slot)) return;
+            lists[assignments[i]].add(slot);
+            slotList[slot] = assignments[i];
+        });
+
+        while (this.dirtySlots.size) {
+            const batch = [...this.dirtySlots].slice(0, INSTALL_BATCH);
+            slotList = padSlotList(slotList, this.capacity); // upserts may have grown the index
+            batch.forEach((slot) => {
+                this.dirtySlots.delete(slot);
+                if (slotList[slot] >= 0) lists[slotList[slot]].delete(slot);
+                slotList[slot] = -1;
+                if (this.slotIds[slot] === null || this.slotIds[slot] === undefined) return;
+                const list = nearestCentroid(this.vectors, slot * this.dim, centroids, this.dim);
+                lists[list].add(slot);
+                slotList[slot] = list;
+            });
+            if (this.dirtySlots.size) await yieldToEventLoop();
+        }
+
+        this.centroids = centroids;
+        this.lists = lists;
+        this.slotList = padSlotList(slotList, this.capacity);
+    }
+
+    /**
+     * Nearest neighbours of query.
+     * @returns [{ id, distance, meta }] sorted by distance, at most topK long
+     */
+    search(query, { topK = 10, threshold = Infinity, filter, nprobe = this.nprobe } = {}) {
+        if (!query || query.length !== this.dim || this.size === 0) return [];
+
+        const q = Float32Array.from(query);
+        const maxD2 = threshold === Infinity ? Infinity : threshold * threshold;
+        const top = [];
+
+        const consider = (slot) => {
+            if (this.slotIds[slot] === null || this.slotIds[slot] === undefined) return;
+            if (filter && !filter(this.slotMeta[slot])) return;
+            const d2 = squaredDistance(q, 0, this.vectors, slot * this.dim, this.dim);
+            if (d2 <= maxD2) pushTopK(top, topK, slot, d2);
+        };
+
+        if (!this.centroids) {
+            for (let slot = 0; slot < this.slotIds.length; slot += 1) consider(slot);
+        } else {
+            const probes = [];
+            for (let c = 0; c < this.nlist; c += 1) {
+                pushTopK(probes, Math.min(nprobe, this.nlist), c, squaredDistance(q, 0, this.centroids, c * this.dim, this.dim));
+            }
+            probes.forEach(({ slot: list }) => this.lists[list].forEach(consider));
+        }
+
+        return top.map(({ slot, d2 }) => ({
+            id: this.slotIds[slot],
+            distance: Math.sqrt(d2),
+            meta: this.slotMeta[slot],
+        }));
+    }
+
+    /**
+     * Persist to <file>.json (ids, metadata, centroids) and <file>.bin (vectors).
+     */
+    async save(file) {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        const ids = [];
+        const meta = [];
+        const lists = [];
+        const packed = new Float32Array(this.size * this.dim);
+        let i = 0;
+        this.idToSlot.forEach((slot, id) => {
+            ids.push(id);
+            meta.push(this.slotMeta[slot]);
+            lists.push(this.slotList[slot]);
+            packed.set(this.vectors.subarray(slot * this.dim, (slot + 1) * this.dim), i * this.dim);
+            i += 1;
+        });
+
+        const header = {
+            version: FORMAT_VERSION,
+            dim: this.dim,
+            saved_at: new Date().toISOString(),
+            ids,
+            meta,
+            centroids: this.centroids ? Array.from(this.centroids) : null,
+            lists: this.centroids ? lists : null,
+        };
+
+        // Write to temp files first so a crash never leaves a half-written snapshot
+        await fs.promises.writeFile(`${file}.bin.tmp`, Buffer.from(packed.buffer));
+        await fs.promises.writeFile(`${file}.json.tmp`, JSON.stringify(header));
+        await fs.promises.rename(`${file}.bin.tmp`, `${file}.bin`);
+        await fs.promises.rename(`${file}.json.tmp`, `${file}.json`);
+        return header.saved_at;
+    }
+
+    /**
+     * Load a snapshot written by save(). Returns null if none exists.
+     */
+    static async load(file, options = {}) {
+        if (!fs.existsSync(`${file}.json`) || !fs.existsSync(`${file}.bin`)) return null;
+
+        const header = JSON.parse(await fs.promises.readFile(`${file}.json`, 'utf8'));
+        if (!READABLE_VERSIONS.includes(header.version)) return null;
+
+        const buffer = await fs.promises.readFile(`${file}.bin`);
+        const packed = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+
+        const index = new VectorIndex({ ...options, dim: header.dim });
+        // Insert untrained, then restore the saved centroids in one pass
+        const minTrainSize = index.minTrainSize;
+        index.minTrainSize = Infinity;
+        header.ids.forEach((id, i) => {
+            index.upsert(id, packed.subarray(i * header.dim, (i + 1) * header.dim), header.meta[i]);
+        });
+        index.minTrainSize = minTrainSize;
+
+        if (header.centroids) {
+            index.centroids = Float32Array.from(header.centroids);
+            index.lists = Array.from({ length: index.nlist }, () => new Set());
+            header.ids.forEach((id, i) => {
+                const slot = index.idToSlot.get(id);
+                const list = header.lists?.[i];
+                if (list >= 0 && list < index.nlist) {
+                    index.lists[list].add(slot);
+                    index.slotList[slot] = list;
+                } else {
+                    index.assign(slot);
+                }
+            });
+            index.trainedSize = index.size;
+        }
+
+        return { index, savedAt: new Date(header.saved_at) };
+    }
+}
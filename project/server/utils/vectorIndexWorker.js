@@ -0,0 +1,13 @@
+/**
+ * Trains VectorIndex centroids off the main thread. Receives a copy of the
+ * vectors and the live slots, replies with the centroids and each slot's list.
+ */
+import { parentPort, workerData } from 'worker_threads';
+import { assignSlots, trainCentroids } from './vectorIndex.js';
+
+const { vectors, slots, dim, nlist, iterations } = workerData;
+
+const centroids = trainCentroids(vectors, slots, { dim, nlist, iterations });
+const assignments = assignSlots(vectors, slots, centroids, dim);
+
+parentPort.postMessage({ centroids, assignments }, [centroids.buffer, assignments.buffer]);
@@ -0,0 +1,122 @@
+/**
+ * Coded vocabulary behind the medical record's condition, allergy,
+ * medication and surgery lists. Each term has a code, an English display
+ * name, hi/mr labels for the registration desk and the spellings staff and
+ * devotees actually use (brand names, abbreviations, transliterations).
+ *
+ * Conditions use ICD-10 and drugs use WHO ATC; allergens and procedures
+ * have no single standard in use at the camps, so they carry local codes.
+ */
+
+const term = (code, en, hi, mr, synonyms = []) => ({ code, display: en, labels: { en, hi, mr }, synonyms });
+
+export const TERM_SYSTEMS = {
+  condition: 'ICD-10',
+  allergen: 'local',
+  drug: 'ATC',
+  procedure: 'local',
+};
+
+export const VOCABULARY = {
+  condition: [
+    term('I10', 'Hypertension', 'उच्च रक्तचाप', 'उच्च रक्तदाब', ['high blood pressure', 'high bp', 'bp', 'htn', 'blood pressure', 'बीपी', 'हाई बीपी', 'उच्च रक्तदाब']),
+    term('E14', 'Diabetes mellitus', 'मधुमेह', 'मधुमेह', ['diabetes', 'sugar', 'dm', 'madhumeh', 'type 2 diabetes', 'शुगर', 'डायबिटीज', 'साखर']),
+    term('I51.9', 'Heart disease', 'हृदय रोग', 'हृदय रोग', ['cardiac', 'heart problem', 'heart', 'दिल की बीमारी', 'हृदयविकार']),
+    term('I25.9', 'Coronary artery disease', 'कोरोनरी धमनी रोग', 'कोरोनरी धमनी रोग', ['cad', 'ihd', 'angina', 'heart blockage', 'ischaemic heart disease', 'ischemic heart disease', 'हार्ट ब्लॉकेज']),
+    term('J45', 'Asthma', 'दमा', 'दमा', ['asthma', 'अस्थमा', 'श्वास रोग']),
+    term('J44', 'Chronic obstructive pulmonary disease', 'सांस की पुरानी बीमारी', 'दीर्घकालीन श्वसन रोग', ['copd', 'chronic bronchitis', 'emphysema', 'सांस की बीमारी', 'श्वसन रोग']),
+    term('N18', 'Chronic kidney disease', 'किडनी रोग', 'मूत्रपिंड रोग', ['kidney disease', 'kidney problem', 'ckd', 'renal failure', 'dialysis', 'गुर्दे की बीमारी', 'किडनी']),
+    term('M19.9', 'Arthritis', 'गठिया', 'संधिवात', ['joint pain', 'osteoarthritis', 'arthritis/joint pain', 'जोड़ों का दर्द', 'सांधेदुखी']),
+    term('E07.9', 'Thyroid disorder', 'थायरॉइड विकार', 'थायरॉईड विकार', ['thyroid', 'hypothyroidism', 'hyperthyroidism', 'थायराइड', 'थायरॉईड']),
+    term('K76.9', 'Liver disease', 'लीवर रोग', 'यकृत रोग', ['cirrhosis', 'fatty liver', 'liver problem', 'लिवर']),
+    term('C80.1', 'Cancer', 'कैंसर', 'कर्करोग', ['malignancy', 'tumour', 'tumor']),
+    term('I64', 'Stroke', 'लकवा/स्ट्रोक', 'पक्षाघात', ['paralysis', 'cva', 'stroke/paralysis', 'लकवा', 'अर्धांगवायू']),
+    term('F32.9', 'Depression', 'अवसाद', 'नैराश्य', ['depression/anxiety', 'डिप्रेशन']),
+    term('F41.9', 'Anxiety disorder', 'चिंता विकार', 'चिंता विकार', ['anxiety', 'panic attacks', 'चिंता']),
+    term('G40.9', 'Epilepsy', 'मिर्गी', 'अपस्मार', ['seizures', 'fits', 'convulsions', 'फिट्स', 'फेफरे']),
+    term('A15', 'Tuberculosis', 'टीबी', 'क्षयरोग', ['tb', 'tuberculosis', 'क्षय रोग']),
+    term('D64.9', 'Anaemia', 'खून की कमी', 'रक्तक्षय', ['anemia', 'low hemoglobin', 'low hb', 'एनीमिया']),
+    term('E78.5', 'High cholesterol', 'उच्च कोलेस्ट्रॉल', 'उच्च कोलेस्टेरॉल', ['cholesterol', 'hyperlipidaemia', 'hyperlipidemia', 'कोलेस्ट्रॉल']),
+    term('Z33', 'Pregnancy', 'गर्भावस्था', 'गर्भधारणा', ['pregnant', 'गर्भवती', 'गरोदर']),
+  ],
+
+  allergen: [
+    term('ALG-DUST', 'Dust', 'धूल', 'धूळ', ['dust mite', 'house dust']),
+    term('ALG-POLLEN', 'Pollen', 'पराग', 'परागकण', ['hay fever']),
+    term('ALG-PEANUT', 'Peanuts', 'मूंगफली', 'शेंगदाणे', ['peanut', 'groundnut', 'moongphali']),
+    term('ALG-MILK', 'Dairy/Milk', 'दूध/डेयरी', 'दूध/डेअरी', ['milk', 'dairy', 'lactose', 'दूध']),
+    term('ALG-SHELLFISH', 'Shellfish', 'शेलफिश', 'शेलफिश', ['prawns', 'shrimp', 'crab', 'झींगा', 'कोळंबी']),
+    term('ALG-TREENUT', 'Tree nuts', 'बादाम/काजू', 'काजू/बदाम', ['cashew', 'almond', 'walnut', 'nuts', 'काजू', 'बादाम', 'बदाम']),
+    term('ALG-EGG', 'Eggs', 'अंडे', 'अंडी', ['egg']),
+    term('ALG-WHEAT', 'Wheat/Gluten', 'गेहूं/ग्लूटेन', 'गहू/ग्लूटेन', ['wheat', 'gluten', 'गेहूं', 'गहू']),
+    term('ALG-SOY', 'Soy', 'सोया', 'सोया', ['soya', 'soybean']),
+    term('ALG-DANDER', 'Animal dander', 'जानवरों की रूसी', 'प्राण्यांच्या केसांची', ['pet allergy', 'cat', 'dog']),
+    term('ALG-MOLD', 'Mould', 'फफूंद', 'बुरशी', ['mold', 'fungus']),
+    term('ALG-INSECT', 'Insect stings', 'कीड़े के काटने', 'कीटकांचे डंख', ['bee sting', 'wasp sting', 'insect bite']),
+    term('ALG-DRUG', 'Drug allergy (unspecified)', 'दवाइयाँ', 'औषधे', ['medications', 'medicine', 'drug allergy', 'medicine allergy', 'दवा']),
+    term('ALG-PENICILLIN', 'Penicillins', 'पेनिसिलिन', 'पेनिसिलिन', ['penicillin', 'amoxicillin allergy', 'ampicillin allergy']),
+    term('ALG-SULFA', 'Sulfonamides', 'सल्फा दवाएँ', 'सल्फा औषधे', ['sulfa', 'sulpha', 'sulphonamide', 'sulfonamide', 'septran allergy']),
+    term('ALG-NSAID', 'NSAIDs', 'दर्द निवारक (NSAID)', 'वेदनाशामक (NSAID)', ['nsaid', 'painkiller', 'ibuprofen allergy', 'diclofenac allergy']),
+    term('ALG-ASPIRIN', 'Aspirin', 'एस्पिरिन', 'ॲस्पिरिन', ['aspirin', 'disprin']),
+    term('ALG-LATEX', 'Latex', 'लेटेक्स', 'लेटेक्स', ['rubber gloves']),
+    term('ALG-IODINE', 'Iodine/contrast', 'आयोडीन', 'आयोडीन', ['iodine', 'contrast dye', 'betadine']),
+  ],
+
+  drug: [
+    term('N02BE01', 'Paracetamol', 'पैरासिटामोल', 'पॅरासिटामॉल', ['acetaminophen', 'crocin', 'dolo', 'calpol', 'pcm']),
+    term('M01AE01', 'Ibuprofen', 'आइबुप्रोफेन', 'आयबुप्रोफेन', ['brufen', 'combiflam']),
+    term('M01AE02', 'Naproxen', 'नेप्रोक्सेन', 'नॅप्रोक्सेन', ['naprosyn']),
+    term('M01AB05', 'Diclofenac', 'डाइक्लोफेनाक', 'डायक्लोफेनाक', ['voveran', 'voltaren']),
+    term('B01AC06', 'Aspirin', 'एस्पिरिन', 'ॲस्पिरिन', ['ecosprin', 'disprin', 'loprin']),
+    term('B01AC04', 'Clopidogrel', 'क्लोपिडोग्रेल', 'क्लोपिडोग्रेल', ['clopilet', 'plavix']),
+    term('B01AA03', 'Warfarin', 'वारफेरिन', 'वॉरफेरिन', ['warf', 'blood thinner']),
+    term('A10BA02', 'Metformin', 'मेटफॉर्मिन', 'मेटफॉर्मिन', ['glycomet', 'glucophage']),
+    term('A10BB12', 'Glimepiride', 'ग्लिमेपिराइड', 'ग्लिमेपिराइड', ['amaryl']),
+    term('A10AB', 'Insulin', 'इंसुलिन', 'इन्सुलिन', ['insulin injection', 'mixtard', 'human insulin']),
+    term('C08CA01', 'Amlodipine', 'एम्लोडिपिन', 'ॲम्लोडिपिन', ['amlong', 'amlo', 'amlodac']),
+    term('C09CA07', 'Telmisartan', 'टेल्मिसर्टन', 'टेल्मिसर्टन', ['telma', 'telmikind']),
+    term('C09CA01', 'Losartan', 'लोसार्टन', 'लोसार्टन', ['losar', 'repace']),
+    term('C09AA02', 'Enalapril', 'एनालाप्रिल', 'एनालाप्रिल', ['envas']),
+    term('C09AA05', 'Ramipril', 'रामिप्रिल', 'रामिप्रिल', ['cardace']),
+    term('C07AB02', 'Metoprolol', 'मेटोप्रोलोल', 'मेटोप्रोलोल', ['met xl', 'metolar']),
+    term('C07AB03', 'Atenolol', 'एटेनोलोल', 'ॲटेनोलोल', ['aten', 'tenormin']),
+    term('C03CA01', 'Furosemide', 'फ्यूरोसेमाइड', 'फ्युरोसेमाइड', ['lasix', 'frusemide']),
+    term('C10AA05', 'Atorvastatin', 'एटोरवास्टेटिन', 'ॲटोरव्हास्टॅटिन', ['atorva', 'lipitor', 'storvas']),
+    term('H03AA01', 'Levothyroxine', 'लेवोथायरोक्सिन', 'लेव्होथायरॉक्सिन', ['thyroxine', 'thyronorm', 'eltroxin', 'thyrox']),
+    term('R03AC02', 'Salbutamol', 'सालबुटामोल', 'सालबुटामॉल', ['albuterol', 'asthalin', 'inhaler', 'ventolin']),
+    term('J01CA04', 'Amoxicillin', 'एमोक्सिसिलिन', 'ॲमोक्सिसिलिन', ['amoxycillin', 'mox', 'novamox']),
+    term('J01CR02', 'Amoxicillin and clavulanic acid', 'एमोक्सिसिलिन-क्लैवुलेनेट', 'ॲमोक्सिसिलिन-क्लॅव्हुलेनेट', ['augmentin', 'amoxiclav', 'clavam']),
+    term('J01DD08', 'Cefixime', 'सेफिक्सिम', 'सेफिक्सिम', ['taxim-o', 'zifi', 'cefix']),
+    term('J01DD04', 'Ceftriaxone', 'सेफ्ट्रियाक्सोन', 'सेफ्ट्रियाक्सोन', ['monocef', 'rocephin']),
+    term('J01MA02', 'Ciprofloxacin', 'सिप्रोफ्लोक्सासिन', 'सिप्रोफ्लॉक्सासिन', ['cipro', 'ciplox']),
+    term('J01FA10', 'Azithromycin', 'एज़िथ्रोमाइसिन', 'ॲझिथ्रोमायसिन', ['azithral', 'azee', 'zithromax']),
+    term('J01EE01', 'Co-trimoxazole', 'को-ट्रिमोक्साज़ोल', 'को-ट्रायमोक्साझोल', ['cotrimoxazole', 'septran', 'bactrim']),
+    term('A02BC01', 'Omeprazole', 'ओमेप्राज़ोल', 'ओमेप्राझोल', ['omez']),
+    term('A02BC02', 'Pantoprazole', 'पैंटोप्राज़ोल', 'पँटोप्राझोल', ['pan 40', 'pantop', 'pantocid']),
+    term('R06AE07', 'Cetirizine', 'सेटिरिज़िन', 'सेटिरिझिन', ['cetzine', 'okacet', 'alerid']),
+    term('A07CA', 'Oral rehydration salts', 'ओआरएस', 'ओआरएस', ['ors', 'electral']),
+    term('N03AB02', 'Phenytoin', 'फेनिटोइन', 'फेनिटॉइन', ['eptoin', 'dilantin']),
+    term('N03AG01', 'Valproic acid', 'वैल्प्रोएट', 'व्हॅल्प्रोएट', ['valproate', 'sodium valproate', 'valparin', 'encorate']),
+    term('H02AB06', 'Prednisolone', 'प्रेडनिसोलोन', 'प्रेडनिसोलोन', ['wysolone', 'omnacortil']),
+  ],
+
+  procedure: [
+    term('PROC-APPENDECTOMY', 'Appendectomy', 'अपेंडिक्स का ऑपरेशन', 'अपेंडिक्स शस्त्रक्रिया', ['appendix operation', 'appendicectomy', 'अपेंडिक्स']),
+    term('PROC-CATARACT', 'Cataract surgery', 'मोतियाबिंद का ऑपरेशन', 'मोतीबिंदू शस्त्रक्रिया', ['cataract', 'मोतियाबिंद', 'मोतीबिंदू']),
+    term('PROC-CABG', 'Coronary bypass (CABG)', 'बाईपास सर्जरी', 'बायपास शस्त्रक्रिया', ['bypass surgery', 'cabg', 'heart bypass', 'बाईपास']),
+    term('PROC-ANGIOPLASTY', 'Angioplasty/stent', 'एंजियोप्लास्टी', 'अँजिओप्लास्टी', ['angioplasty', 'stent', 'ptca']),
+    term('PROC-KNEE', 'Knee replacement', 'घुटना प्रत्यारोपण', 'गुडघा प्रत्यारोपण', ['knee surgery', 'tkr']),
+    term('PROC-HIP', 'Hip replacement', 'कूल्हा प्रत्यारोपण', 'खुबा प्रत्यारोपण', ['hip surgery', 'thr']),
+    term('PROC-CSECTION', 'Caesarean section', 'सिजेरियन', 'सिझेरियन', ['c-section', 'c section', 'cesarean', 'lscs']),
+    term('PROC-HERNIA', 'Hernia repair', 'हर्निया का ऑपरेशन', 'हर्निया शस्त्रक्रिया', ['hernia', 'हर्निया']),
+    term('PROC-CHOLECYSTECTOMY', 'Cholecystectomy', 'पित्ताशय का ऑपरेशन', 'पित्ताशय शस्त्रक्रिया', ['gallbladder removal', 'gallstone operation', 'पथरी का ऑपरेशन']),
+    term('PROC-HYSTERECTOMY', 'Hysterectomy', 'गर्भाशय निकालना', 'गर्भाशय काढणे', ['uterus removal']),
+    term('PROC-PACEMAKER', 'Pacemaker implant', 'पेसमेकर', 'पेसमेकर', ['pacemaker']),
+    term('PROC-KIDNEY-TX', 'Kidney transplant', 'किडनी प्रत्यारोपण', 'मूत्रपिंड प्रत्यारोपण', ['renal transplant']),
+    term('PROC-TONSILLECTOMY', 'Tonsillectomy', 'टॉन्सिल का ऑपरेशन', 'टॉन्सिल शस्त्रक्रिया', ['tonsils']),
+    term('PROC-FRACTURE', 'Fracture fixation', 'हड्डी में रॉड/प्लेट', 'हाडात रॉड/प्लेट', ['rod', 'plate', 'fracture surgery']),
+  ],
+};
+
+// Answers that mean "nothing to record" rather than a term
+export const NONE_WORDS = ['none', 'no', 'nil', 'nothing', 'na', 'n/a', 'not known', 'कोई नहीं', 'नहीं', 'काही नाही', 'नाही'];
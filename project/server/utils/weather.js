@@ -0,0 +1,341 @@
+/**
+ * Weather for the mela and its sectors, behind one normalized shape:
+ *   { sector, location, temp, feelsLike, humidity, aqi, uv, description, icon,
+ *     windSpeed, pressure, visibility, heatIndex, wbgt, heat_level, provider, simulated, observed_at }
+ * `aqi` is on the Indian (CPCB) 0-500 scale, whatever the source reports.
+ * Forecasts are hourly for the next 48 hours, from the first provider that has one.
+ *
+ * Providers are tried in the order given by WEATHER_PROVIDERS (default: manual,
+ * then OpenWeatherMap when OPENWEATHER_API_KEY is set). The fixture file is
+ * made-up weather for development and demos: it is only used when
+ * WEATHER_PROVIDERS names it, and anything it contributes is marked `simulated`
+ * so it can't pass for a real reading.
+ * The first reading wins and later providers only fill the fields it lacks, so a
+ * field team's thermometer reading can be completed with AQI and UV from the API.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fetch from 'node-fetch';
+import { WeatherReading } from '../models/WeatherReading.js';
+import { WEATHER_LOCATIONS } from '../data/weatherLocations.js';
+import { heatWindows, snanDatesBetween, withHeatStress } from './heatStress.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const CACHE_DURATION = 30 * 60 * 1000;
+const FORECAST_HOURS = 48;
+const HOUR = 60 * 60 * 1000;
+const REQUEST_TIMEOUT = 10 * 1000;
+const FIXTURE_DIURNAL_RANGE = 10;
+const FIXTURE_HUMIDITY_SWING = 30;
+// A field reading older than this no longer describes the sector
+const MANUAL_READING_MAX_AGE = 3 * 60 * 60 * 1000;
+const OWM_BASE = 'https://api.openweathermap.org/data/2.5';
+
+const CORE_FIELDS = ['temp', 'feelsLike', 'humidity', 'aqi', 'uv'];
+const EXTRA_FIELDS = ['description', 'icon', 'windSpeed', 'pressure', 'visibility'];
+
+// CPCB breakpoints: [concentration from, concentration to, AQI from, AQI to]
+const PM25_BREAKPOINTS = [[0, 30, 0, 50], [30, 60, 50, 100], [60, 90, 100, 200], [90, 120, 200, 300], [120, 250, 300, 400], [250, 500, 400, 500]];
+const PM10_BREAKPOINTS = [[0, 50, 0, 50], [50, 100, 50, 100], [100, 250, 100, 200], [250, 350, 200, 300], [350, 430, 300, 400], [430, 600, 400, 500]];
+
+export const DEFAULT_LOCATION = WEATHER_LOCATIONS[0];
+
+// `${kind}:${sector}` -> { value, timestamp, pending }
+const cache = new Map();
+
+function subIndex(concentration, breakpoints) {
+    if (concentration == null) return null;
+    const band = breakpoints.find(([, hi]) => concentration <= hi) || breakpoints[breakpoints.length - 1];
+    const [cLo, cHi, iLo, iHi] = band;
+    return Math.round(iLo + ((Math.min(concentration, cHi) - cLo) * (iHi - iLo)) / (cHi - cLo));
+}
+
+// The CPCB index is the worst of the pollutant sub-indices; PM dominates at the ghats
+export function aqiFromPollutants({ pm2_5, pm10 } = {}) {
+    const indices = [subIndex(pm2_5, PM25_BREAKPOINTS), subIndex(pm10, PM10_BREAKPOINTS)].filter((i) => i != null);
+    return indices.length ? Math.max(...indices) : null;
+}
+
+async function getJson(url) {
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    return response.json();
+}
+
+const openWeatherMap = {
+    name: 'openweathermap',
+    async fetch(location) {
+        const apiKey = process.env.OPENWEATHER_API_KEY;
+        if (!apiKey) return null;
+        const query = `lat=${location.lat}&lon=${location.lon}&appid=${apiKey}`;
+        const [weather, air, uv] = await Promise.all([
+            getJson(`${OWM_BASE}/weather?${query}&units=metric`),
+            getJson(`${OWM_BASE}/air_pollution?${query}`).catch(() => null),
+            getJson(`${OWM_BASE}/uvi?${query}`).catch(() => null),
+        ]);
+        return {
+            temp: Math.round(weather.main.temp),
+            feelsLike: Math.round(weather.main.feels_like),
+            humidity: weather.main.humidity,
+            aqi: aqiFromPollutants(air?.list?.[0]?.components),
+            uv: uv?.value != null ? Math.round(uv.value) : null,
+            description: weather.weather?.[0]?.description,
+            icon: weather.weather?.[0]?.icon,
+            windSpeed: Math.round(weather.wind.speed * 3.6), // m/s to km/h
+            pressure: weather.main.pressure,
+            visibility: Math.round((weather.visibility || 10000) / 1000), // m to km
+            observed_at: new Date(weather.dt * 1000),
+        };
+    },
+    // The free API forecasts in 3-hour steps; hours in between are interpolated
+    async forecast(location, hours) {
+        const apiKey = process.env.OPENWEATHER_API_KEY;
+        if (!apiKey) return null;
+        const data = await getJson(`${OWM_BASE}/forecast?lat=${location.lat}&lon=${location.lon}&appid=${apiKey}&units=metric`);
+        const steps = data.list.map((item) => ({
+            time: item.dt * 1000,
+            temp: item.main.temp,
+            feelsLike: item.main.feels_like,
+            humidity: item.main.humidity,
+            windSpeed: item.wind.speed * 3.6,
+            description: item.weather?.[0]?.description,
+            icon: item.weather?.[0]?.icon,
+        }));
+        return hours.map((time) => {
+            const next = steps.findIndex((step) => step.time >= time.getTime());
+            if (next === -1) return null;
+            const after = steps[next];
+            const before = steps[Math.max(next - 1, 0)];
+            const share = after.time === before.time ? 1 : (time.getTime() - before.time) / (after.time - before.time);
+            const mix = (field) => Math.round((before[field] + (after[field] - before[field]) * share) * 10) / 10;
+            const nearest = share < 0.5 ? before : after;
+            return {
+                time,
+                temp: mix('temp'),
+                feelsLike: mix('feelsLike'),
+                humidity: Math.round(mix('humidity')),
+                windSpeed: Math.round(mix('windSpeed')),
+                description: nearest.description,
+                icon: nearest.icon,
+            };
+        }).filter(Boolean);
+    },
+};
+
+// Readings from a JSON file, for development and demos only. Edits are picked up on the next cache miss.
+const fixture = {
+    name: 'fixture',
+    async fetch(location) {
+        const file = process.env.WEATHER_FIXTURE_FILE || path.join(__dirname, '../data/weatherFixture.json');
+        const data = JSON.parse(await fs.readFile(file, 'utf8'));
+        return { ...data.default, ...data.sectors?.[location.sector], observed_at: new Date() };
+    },
+    // A typical day: the fixture's reading is the mid-afternoon peak, nights are cooler and damper
+    async forecast(location, hours) {
+        const peak = await this.fetch(location);
+        return hours.map((time) => {
+            const hour = Number(time.toLocaleString('en-GB', { hour: 'numeric', hour12: false, timeZone: 'Asia/Kolkata' }));
+            // 0 at 15:00, 1 at 03:00
+            const night = (1 - Math.cos((2 * Math.PI * (hour - 15)) / 24)) / 2;
+            return {
+                time,
+                temp: Math.round((peak.temp - FIXTURE_DIURNAL_RANGE * night) * 10) / 10,
+                humidity: Math.min(100, Math.round(peak.humidity + FIXTURE_HUMIDITY_SWING * night)),
+                uv: hour >= 7 && hour <= 18 ? Math.round((peak.uv || 0) * Math.sin((Math.PI * (hour - 6)) / 13)) : 0,
+                windSpeed: peak.windSpeed,
+                description: peak.description,
+                icon: peak.icon,
+            };
+        });
+    },
+};
+
+const manual = {
+    name: 'manual',
+    async fetch(location) {
+        const reading = await WeatherReading.findOne({
+            sector: location.sector,
+            recorded_at: { $gte: new Date(Date.now() - MANUAL_READING_MAX_AGE) },
+        }).sort({ recorded_at: -1 }).lean();
+        if (!reading) return null;
+        return {
+            temp: reading.temp,
+            feelsLike: reading.feelsLike ?? null,
+            humidity: reading.humidity,
+            aqi: reading.aqi ?? null,
+            uv: reading.uv ?? null,
+            observed_at: reading.recorded_at,
+        };
+    },
+};
+
+const PROVIDERS = { [openWeatherMap.name]: openWeatherMap, [fixture.name]: fixture, [manual.name]: manual };
+export const WEATHER_PROVIDERS = Object.keys(PROVIDERS);
+
+function providerChain() {
+    const configured = process.env.WEATHER_PROVIDERS
+        || (process.env.OPENWEATHER_API_KEY ? 'manual,openweathermap' : 'manual');
+    return configured.split(',').map((name) => name.trim()).filter((name) => {
+        if (PROVIDERS[name]) return true;
+        console.warn(`Unknown weather provider "${name}" ignored`);
+        return false;
+    }).map((name) => PROVIDERS[name]);
+}
+
+const missingFields = (reading) => CORE_FIELDS.filter((field) => reading[field] == null);
+
+async function fetchReading(location) {
+    let reading = null;
+    let simulated = false;
+    for (const provider of providerChain()) {
+        let result;
+        try {
+            result = await provider.fetch(location);
+        } catch (error) {
+            console.warn(`Weather provider ${provider.name} failed for ${location.sector}:`, error.message);
+            continue;
+        }
+        if (!result) continue;
+
+        if (!reading) {
+            reading = { ...result, provider: provider.name };
+            simulated = provider === fixture;
+        } else {
+            [...CORE_FIELDS, ...EXTRA_FIELDS].forEach((field) => {
+                if (reading[field] != null || result[field] == null) return;
+                reading[field] = result[field];
+                if (provider === fixture) simulated = true;
+            });
+        }
+        if (!missingFields(reading).length) break;
+    }
+    if (!reading) {
+        throw new Error(`No weather provider returned a reading for ${location.sector}; record a field reading or set OPENWEATHER_API_KEY`);
+    }
+
+    const normalized = { sector: location.sector, location: location.name };
+    [...CORE_FIELDS, ...EXTRA_FIELDS].forEach((field) => {
+        normalized[field] = reading[field] ?? null;
+    });
+    // Without a felt temperature, the air temperature is the best we have
+    normalized.feelsLike ??= normalized.temp;
+    normalized.provider = reading.provider;
+    normalized.simulated = simulated;
+    normalized.observed_at = reading.observed_at || new Date();
+    return withHeatStress(normalized);
+}
+
+async function fetchForecast(location) {
+    const start = Math.ceil(Date.now() / HOUR) * HOUR;
+    const hours = Array.from({ length: FORECAST_HOURS }, (_, i) => new Date(start + i * HOUR));
+
+    for (const provider of providerChain()) {
+        if (!provider.forecast) continue;
+        let entries;
+        try {
+            entries = await provider.forecast(location, hours);
+        } catch (error) {
+            console.warn(`Weather provider ${provider.name} forecast failed for ${location.sector}:`, error.message);
+            continue;
+        }
+        if (!entries?.length) continue;
+
+        const forecastHours = entries.map((entry) => withHeatStress({
+            time: entry.time,
+            temp: entry.temp,
+            feelsLike: entry.feelsLike ?? entry.temp,
+            humidity: entry.humidity,
+            uv: entry.uv ?? null,
+            windSpeed: entry.windSpeed ?? null,
+            description: entry.description ?? null,
+            icon: entry.icon ?? null,
+        }));
+        return {
+            sector: location.sector,
+            location: location.name,
+            provider: provider.name,
+            simulated: provider === fixture,
+            hours: forecastHours,
+            windows: heatWindows(forecastHours),
+            snan_dates: snanDatesBetween(hours[0], hours[hours.length - 1]),
+        };
+    }
+    throw new Error(`No weather provider returned a forecast for ${location.sector}`);
+}
+
+// Match a sector key or name, case-insensitively; anything else is the mela as a whole
+export function findWeatherLocation(sector) {
+    const wanted = String(sector || '').trim().toLowerCase();
+    return WEATHER_LOCATIONS.find((l) => l.sector === wanted || l.name.toLowerCase() === wanted) || DEFAULT_LOCATION;
+}
+
+// Cached for 30 minutes and shared by every caller; concurrent misses share one upstream request
+async function cached(kind, location, load, fresh) {
+    const key = `${kind}:${location.sector}`;
+    const entry = cache.get(key);
+    if (!fresh && entry?.value && Date.now() - entry.timestamp < CACHE_DURATION) {
+        return { ...entry.value, cached: true };
+    }
+    if (entry?.pending) return { ...(await entry.pending), cached: false };
+
+    const pending = load(location);
+    cache.set(key, { ...entry, pending });
+    try {
+        const value = await pending;
+        cache.set(key, { value, timestamp: Date.now() });
+        return { ...value, cached: false };
+    } catch (error) {
+        cache.set(key, { ...entry, pending: null });
+        throw error;
+    }
+}
+
+/**
+ * Current weather for a sector (default: the mela as a whole).
+ * @returns the normalized reading, with `cached` set when it came from the cache
+ */
+export const getWeather = (sector, { fresh = false } = {}) =>
+    cached('current', findWeatherLocation(sector), fetchReading, fresh);
+
+/**
+ * Hourly forecast for the next 48 hours with heat stress, the heat windows in it
+ * and any bathing days it covers.
+ */
+export const getForecast = (sector, { fresh = false } = {}) =>
+    cached('forecast', findWeatherLocation(sector), fetchForecast, fresh);
+
+export const getAllWeather = () => Promise.all(WEATHER_LOCATIONS.map((location) => getWeather(location.sector)));
+
+/**
+ * Store a field team's reading and drop the sector's cached weather so it shows at once.
+ * @returns { reading } or { error }
+ */
+export async function recordWeatherReading(input, staff) {
+    const location = WEATHER_LOCATIONS.find((l) => l.sector === input.sector);
+    if (!location) return { error: `Unknown sector: ${input.sector}` };
+
+    const numbers = {};
+    for (const [field, min, max] of [['temp', -10, 60], ['humidity', 0, 100], ['feelsLike', -10, 70], ['aqi', 0, 500], ['uv', 0, 20]]) {
+        const value = input[field];
+        if (value === undefined || value === null || value === '') {
+            if (field === 'temp' || field === 'humidity') return { error: `${field} is required` };
+            continue;
+        }
+        const number = Number(value);
+        if (!Number.isFinite(number) || number < min || number > max) {
+            return { error: `${field} must be a number between ${min} and ${max}` };
+        }
+        numbers[field] = number;
+    }
+
+    const reading = await WeatherReading.create({
+        sector: location.sector,
+        ...numbers,
+        notes: input.notes ? String(input.notes).trim() : '',
+        recorded_by: staff,
+    });
+    cache.delete(`current:${location.sector}`);
+    return { reading };
+}
@@ -1,7 +1,8 @@
 import { useState, lazy, Suspense, useCallback, memo } from 'react';
-import { UserPlus, Search, Heart, CheckCircle2, Home, Loader2, Copy, Check, X, BarChart3, ArrowLeft, AlertTriangle } from 'lucide-react';
-import { Devotee, MedicalRecord, DevoteeWithRecord } from './lib/api';
+import { UserPlus, Search, Heart, CheckCircle2, Home, Loader2, Copy, Check, X, BarChart3, ArrowLeft, AlertTriangle, LogOut, CreditCard, Map as MapIcon, Ambulance, CalendarClock, Siren, SlidersHorizontal, GitMerge, FileSpreadsheet, Download } from 'lucide-react';
+import { Devotee, MedicalRecord, DevoteeWithRecord, Permission } from './lib/api';
 import { useI18n } from './i18n/i18n';
+import { useAuth } from './auth/useAuth';
 
 // Lazy load heavy components for code splitting
 const RegistrationForm = lazy(() => import('./components/RegistrationForm'));
@@ -13,6 +14,18 @@ const WeatherWidget = lazy(() => import('./components/WeatherWidget'));
 const AnalyticsDashboard = lazy(() => import('./components/AnalyticsDashboard'));
 const LostFoundDashboard = lazy(() => import('./components/LostFoundDashboard'));
 const HighRiskDashboard = lazy(() => import('./components/HighRiskDashboard'));
+const LoginScreen = lazy(() => import('./components/LoginScreen'));
+const SyncStatusIndicator = lazy(() => import('./components/SyncStatusIndicator'));
+const HealthCard = lazy(() => import('./components/HealthCard'));
+const MedicalMap = lazy(() => import('./components/MedicalMap'));
+const ReferralQueue = lazy(() => import('./components/ReferralQueue'));
+const FollowUpsDashboard = lazy(() => import('./components/FollowUpsDashboard'));
+const SurveillanceDashboard = lazy(() => import('./components/SurveillanceDashboard'));
+const RiskModelEditor = lazy(() => import('./components/RiskModelEditor'));
+const BulkImport = lazy(() => import('./components/BulkImport'));
+const DataExport = lazy(() => import('./components/DataExport'));
+const DuplicateMergeTool = lazy(() => import('./components/DuplicateMergeTool'));
+const LiveAlerts = lazy(() => import('./components/LiveAlerts'));
 
 // Loading fallback component
 const ComponentLoader = memo(() => (
@@ -22,33 +35,60 @@ const ComponentLoader = memo(() => (
 ));
 ComponentLoader.displayName = 'ComponentLoader';
 
-type View = 'home' | 'register' | 'search' | 'analytics' | 'lost-found' | 'high-risk';
+type View = 'home' | 'register' | 'search' | 'analytics' | 'lost-found' | 'high-risk' | 'map' | 'referrals' | 'follow-ups' | 'surveillance' | 'risk-models' | 'merges' | 'import' | 'exports';
 type SelectedDevotee = Devotee & { medical_records: MedicalRecord | null };
 
+// Permission a staff member needs before a view is offered to them
+const VIEW_PERMISSIONS: Record<Exclude<View, 'home'>, Permission> = {
+  register: 'devotees:create',
+  search: 'devotees:search',
+  analytics: 'analytics:read',
+  'lost-found': 'lost-found:read',
+  'high-risk': 'high-risk:read',
+  map: 'centers:read',
+  referrals: 'incidents:read',
+  'follow-ups': 'incidents:read',
+  surveillance: 'analytics:read',
+  'risk-models': 'risk-models:manage',
+  merges: 'devotees:merge',
+  import: 'devotees:import',
+  exports: 'data:export',
+};
+
 function App() {
   const { lang, setLang, t } = useI18n();
+  const { user, checking, signOut, can } = useAuth();
   const [currentView, setCurrentView] = useState<View>('home');
   const [selectedDevotee, setSelectedDevotee] = useState<SelectedDevotee | null>(null);
   const [showIncidentForm, setShowIncidentForm] = useState(false);
   const [incidentDevoteeId, setIncidentDevoteeId] = useState<string>('');
   const [incidentDevoteeName, setIncidentDevoteeName] = useState<string>('');
+  const [incidentFollowUpOf, setIncidentFollowUpOf] = useState<string | undefined>();
   const [profileRefreshToken, setProfileRefreshToken] = useState(0);
   const [registrationSuccess, setRegistrationSuccess] = useState<string | null>(null);
+  const [registrationPending, setRegistrationPending] = useState(false);
+  const [registeredDevoteeId, setRegisteredDevoteeId] = useState<string | null>(null);
+  const [showHealthCard, setShowHealthCard] = useState(false);
   const [copiedId, setCopiedId] = useState(false);
 
   const handleRegistrationSuccess = useCallback((data: DevoteeWithRecord) => {
     setRegistrationSuccess(data.registration_number);
+    setRegistrationPending(Boolean(data.pending_sync));
+    setRegisteredDevoteeId(data.id);
     setCopiedId(false);
     // Don't auto-dismiss - let user close manually
   }, []);
 
   const handleSelectDevotee = useCallback((devotee: SelectedDevotee) => {
+    // Registration volunteers can find a yatri but not open their medical profile
+    if (!can('devotees:read')) return;
     setSelectedDevotee(devotee);
-  }, []);
+  }, [can]);
 
-  const handleRecordIncident = useCallback((devoteeId: string, devoteeName: string) => {
+  const handleRecordIncident = useCallback((devoteeId: string, devoteeName: string, followUpOf?: string) => {
     setIncidentDevoteeId(devoteeId);
     setIncidentDevoteeName(devoteeName);
+    setIncidentFollowUpOf(followUpOf);
     setShowIncidentForm(true);
   }, []);
 
@@ -66,6 +106,27 @@ function App() {
     setShowIncidentForm(false);
   }, []);
 
+  const handleSignOut = useCallback(() => {
+    signOut();
+    setSelectedDevotee(null);
+    setShowIncidentForm(false);
+    setCurrentView('home');
+  }, [signOut]);
+
+  const canView = (view: View) => view === 'home' || can(VIEW_PERMISSIONS[view]);
+
+  if (checking) {
+    return <ComponentLoader />;
+  }
+
+  if (!user) {
+    return (
+      <Suspense fallback={<ComponentLoader />}>
+        <LoginScreen />
+      </Suspense>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-kumbh-pattern text-slate-900 font-sans">
       <header className="bg-kumbh-gradient shadow-lg">
@@ -100,61 +161,175 @@ function App() {
                   <Home className="w-4 h-4" aria-hidden="true" />
                   <span>{t('nav.home')}</span>
                 </button>
-                <button
-                  type="button"
-                  onClick={() => setCurrentView('register')}
-                  className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'register'
-                    ? 'bg-slate-900 text-white'
-                    : 'text-slate-700 hover:bg-white'
-                    }`}
-                >
-                  <UserPlus className="w-4 h-4" aria-hidden="true" />
-                  <span>{t('nav.register')}</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setCurrentView('search')}
-                  className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'search'
-                    ? 'bg-slate-900 text-white'
-                    : 'text-slate-700 hover:bg-white'
-                    }`}
-                >
-                  <Search className="w-4 h-4" aria-hidden="true" />
-                  <span>{t('nav.search')}</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setCurrentView('analytics')}
-                  className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'analytics'
-                    ? 'bg-slate-900 text-white'
-                    : 'text-slate-700 hover:bg-white'
-                    }`}
-                >
-                  <BarChart3 className="w-4 h-4" aria-hidden="true" />
-                  <span>{t('nav.analytics')}</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setCurrentView('lost-found')}
-                  className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'lost-found'
-                    ? 'bg-slate-900 text-white'
-                    : 'text-slate-700 hover:bg-white'
-                    }`}
-                >
-                  <Search className="w-4 h-4" aria-hidden="true" />
-                  <span>{t('nav.lostFound')}</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setCurrentView('high-risk')}
-                  className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'high-risk'
-                    ? 'bg-slate-900 text-white'
-                    : 'text-slate-700 hover:bg-white'
-                    }`}
-                >
-                  <AlertTriangle className="w-4 h-4" aria-hidden="true" />
-                  <span>{t('nav.highRisk')}</span>
-                </button>
+                {canView('register') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('register')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'register'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <UserPlus className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.register')}</span>
+                  </button>
+                )}
+                {canView('search') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('search')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'search'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <Search className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.search')}</span>
+                  </button>
+                )}
+                {canView('analytics') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('analytics')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'analytics'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <BarChart3 className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.analytics')}</span>
+                  </button>
+                )}
+                {canView('lost-found') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('lost-found')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'lost-found'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <Search className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.lostFound')}</span>
+                  </button>
+                )}
+                {canView('high-risk') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('high-risk')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'high-risk'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <AlertTriangle className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.highRisk')}</span>
+                  </button>
+                )}
+                {canView('map') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('map')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'map'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <MapIcon className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.map')}</span>
+                  </button>
+                )}
+                {canView('referrals') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('referrals')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'referrals'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <Ambulance className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.referrals')}</span>
+                  </button>
+                )}
+                {canView('follow-ups') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('follow-ups')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'follow-ups'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <CalendarClock className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.followUps')}</span>
+                  </button>
+                )}
+                {canView('surveillance') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('surveillance')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'surveillance'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <Siren className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.surveillance')}</span>
+                  </button>
+                )}
+                {canView('risk-models') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('risk-models')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'risk-models'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <SlidersHorizontal className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.riskModels')}</span>
+                  </button>
+                )}
+                {canView('merges') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('merges')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'merges'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <GitMerge className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.merges')}</span>
+                  </button>
+                )}
+                {canView('import') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('import')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'import'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <FileSpreadsheet className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.import')}</span>
+                  </button>
+                )}
+                {canView('exports') && (
+                  <button
+                    type="button"
+                    onClick={() => setCurrentView('exports')}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 border-l border-slate-200 transition-colors ${currentView === 'exports'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-slate-700 hover:bg-white'
+                      }`}
+                  >
+                    <Download className="w-4 h-4" aria-hidden="true" />
+                    <span>{t('nav.exports')}</span>
+                  </button>
+                )}
               </nav>
 
               <div className="flex items-center gap-2">
@@ -196,6 +371,26 @@ function App() {
                   </button>
                 </div>
               </div>
+
+              <Suspense fallback={null}>
+                <SyncStatusIndicator />
+              </Suspense>
+
+              <div className="flex items-center gap-2">
+                <div className="hidden sm:flex flex-col items-end">
+                  <span className="text-sm font-semibold text-white drop-shadow-sm">{user.full_name}</span>
+                  <span className="text-[11px] text-white/80">{t(`role.${user.role}`)}</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSignOut}
+                  className="p-2 rounded-lg bg-white/90 text-slate-700 hover:bg-white shadow-sm transition-colors"
+                  aria-label={t('login.signOut')}
+                  title={t('login.signOut')}
+                >
+                  <LogOut className="w-4 h-4" aria-hidden="true" />
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -216,60 +411,70 @@ function App() {
               </p>
 
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
-                <button
-                  onClick={() => setCurrentView('register')}
-                  className="bg-gradient-to-r from-kumbh-saffron to-kumbh-marigold text-white p-8 rounded-xl hover:from-orange-600 hover:to-amber-500 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-orange-300/80"
-                >
-                  <UserPlus className="w-12 h-12 mx-auto mb-3" />
-                  <h3 className="text-xl font-semibold mb-2">{t('home.cta.register.title')}</h3>
-                  <p className="text-orange-50 text-sm">
-                    {t('home.cta.register.desc')}
-                  </p>
-                </button>
+                {canView('register') && (
+                  <button
+                    onClick={() => setCurrentView('register')}
+                    className="bg-gradient-to-r from-kumbh-saffron to-kumbh-marigold text-white p-8 rounded-xl hover:from-orange-600 hover:to-amber-500 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-orange-300/80"
+                  >
+                    <UserPlus className="w-12 h-12 mx-auto mb-3" />
+                    <h3 className="text-xl font-semibold mb-2">{t('home.cta.register.title')}</h3>
+                    <p className="text-orange-50 text-sm">
+                      {t('home.cta.register.desc')}
+                    </p>
+                  </button>
+                )}
 
-                <button
-                  onClick={() => setCurrentView('search')}
-                  className="bg-gradient-to-r from-kumbh-deep to-sky-700 text-white p-8 rounded-xl hover:from-slate-900 hover:to-sky-800 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-sky-500/70"
-                >
-                  <Search className="w-12 h-12 mx-auto mb-3" />
-                  <h3 className="text-xl font-semibold mb-2">{t('home.cta.search.title')}</h3>
-                  <p className="text-sky-100 text-sm">
-                    {t('home.cta.search.desc')}
-                  </p>
-                </button>
+                {canView('search') && (
+                  <button
+                    onClick={() => setCurrentView('search')}
+                    className="bg-gradient-to-r from-kumbh-deep to-sky-700 text-white p-8 rounded-xl hover:from-slate-900 hover:to-sky-800 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-sky-500/70"
+                  >
+                    <Search className="w-12 h-12 mx-auto mb-3" />
+                    <h3 className="text-xl font-semibold mb-2">{t('home.cta.search.title')}</h3>
+                    <p className="text-sky-100 text-sm">
+                      {t('home.cta.search.desc')}
+                    </p>
+                  </button>
+                )}
 
-                <button
-                  onClick={() => setCurrentView('high-risk')}
-                  className="bg-gradient-to-r from-red-600 to-rose-600 text-white p-8 rounded-xl hover:from-red-700 hover:to-rose-700 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-red-400/70"
-                >
-                  <AlertTriangle className="w-12 h-12 mx-auto mb-3" />
-                  <h3 className="text-xl font-semibold mb-2">{t('home.cta.highRisk.title')}</h3>
-                  <p className="text-red-50 text-sm">
-                    {t('home.cta.highRisk.desc')}
-                  </p>
-                </button>
+                {canView('high-risk') && (
+                  <button
+                    onClick={() => setCurrentView('high-risk')}
+                    className="bg-gradient-to-r from-red-600 to-rose-600 text-white p-8 rounded-xl hover:from-red-700 hover:to-rose-700 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-red-400/70"
+                  >
+                    <AlertTriangle className="w-12 h-12 mx-auto mb-3" />
+                    <h3 className="text-xl font-semibold mb-2">{t('home.cta.highRisk.title')}</h3>
+                    <p className="text-red-50 text-sm">
+                      {t('home.cta.highRisk.desc')}
+                    </p>
+                  </button>
+                )}
 
-                <button
-                  onClick={() => setCurrentView('analytics')}
-                  className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white p-8 rounded-xl hover:from-purple-700 hover:to-indigo-700 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-purple-400/70"
-                >
-                  <BarChart3 className="w-12 h-12 mx-auto mb-3" />
-                  <h3 className="text-xl font-semibold mb-2">{t('home.cta.analytics.title')}</h3>
-                  <p className="text-purple-50 text-sm">
-                    {t('home.cta.analytics.desc')}
-                  </p>
-                </button>
+                {canView('analytics') && (
+                  <button
+                    onClick={() => setCurrentView('analytics')}
+                    className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white p-8 rounded-xl hover:from-purple-700 hover:to-indigo-700 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-purple-400/70"
+                  >
+                    <BarChart3 className="w-12 h-12 mx-auto mb-3" />
+                    <h3 className="text-xl font-semibold mb-2">{t('home.cta.analytics.title')}</h3>
+                    <p className="text-purple-50 text-sm">
+                      {t('home.cta.analytics.desc')}
+                    </p>
+                  </button>
+                )}
 
-                <button
-                  onClick={() => setCurrentView('lost-found')}
-                  className="bg-gradient-to-r from-teal-600 to-emerald-600 text-white p-8 rounded-xl hover:from-teal-700 hover:to-emerald-700 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-teal-400/70"
-                >
-                  <Search className="w-12 h-12 mx-auto mb-3" />
-                  <h3 className="text-xl font-semibold mb-2">{t('home.cta.lostFound.title')}</h3>
-                  <p className="text-teal-50 text-sm">
-                    {t('home.cta.lostFound.desc')}
-                  </p>
-                </button>
+                {canView('lost-found') && (
+                  <button
+                    onClick={() => setCurrentView('lost-found')}
+                    className="bg-gradient-to-r from-teal-600 to-emerald-600 text-white p-8 rounded-xl hover:from-teal-700 hover:to-emerald-700 transition-all shadow-xl hover:shadow-2xl transform hover:-translate-y-1 border border-teal-400/70"
+                  >
+                    <Search className="w-12 h-12 mx-auto mb-3" />
+                    <h3 className="text-xl font-semibold mb-2">{t('home.cta.lostFound.title')}</h3>
+                    <p className="text-teal-50 text-sm">
+                      {t('home.cta.lostFound.desc')}
+                    </p>
+                  </button>
+                )}
               </div>
             </div>
 
@@ -283,7 +488,7 @@ function App() {
           </div>
         )}
 
-        {currentView === 'register' && (
+        {currentView === 'register' && canView('register') && (
           <div>
             <div className="mb-6 flex items-center gap-4">
               <button
@@ -322,30 +527,45 @@ function App() {
                           <X className="w-5 h-5" />
                         </button>
                       </div>
-                      <p className="text-green-800 text-sm mb-3">{t('register.kumbhId')}</p>
-                      <div className="flex items-center gap-2 bg-gray-50 rounded-lg p-3 border border-gray-200">
-                        <span className="font-mono font-bold text-base text-gray-900 flex-1 truncate">{registrationSuccess}</span>
-                        <button
-                          onClick={() => {
-                            navigator.clipboard.writeText(registrationSuccess);
-                            setCopiedId(true);
-                            setTimeout(() => setCopiedId(false), 2000);
-                          }}
-                          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-lg font-medium transition-all shadow-sm hover:shadow-md flex-shrink-0"
-                        >
-                          {copiedId ? (
-                            <>
-                              <Check className="w-4 h-4" />
-                              <span className="text-sm">{t('common.copied')}</span>
-                            </>
-                          ) : (
-                            <>
-                              <Copy className="w-4 h-4" />
-                              <span className="text-sm">{t('common.copy')}</span>
-                            </>
+                      {registrationPending ? (
+                        <p className="text-amber-800 text-sm">{t('register.savedOffline')}</p>
+                      ) : (
+                        <>
+                          <p className="text-green-800 text-sm mb-3">{t('register.kumbhId')}</p>
+                          <div className="flex items-center gap-2 bg-gray-50 rounded-lg p-3 border border-gray-200">
+                            <span className="font-mono font-bold text-base text-gray-900 flex-1 truncate">{registrationSuccess}</span>
+                            <button
+                              onClick={() => {
+                                navigator.clipboard.writeText(registrationSuccess);
+                                setCopiedId(true);
+                                setTimeout(() => setCopiedId(false), 2000);
+                              }}
+                              className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-lg font-medium transition-all shadow-sm hover:shadow-md flex-shrink-0"
+                            >
+                              {copiedId ? (
+                                <>
+                                  <Check className="w-4 h-4" />
+                                  <span className="text-sm">{t('common.copied')}</span>
+                                </>
+                              ) : (
+                                <>
+                                  <Copy className="w-4 h-4" />
+                                  <span className="text-sm">{t('common.copy')}</span>
+                                </>
+                              )}
+                            </button>
+                          </div>
+                          {registeredDevoteeId && (
+                            <button
+                              onClick={() => setShowHealthCard(true)}
+                              className="mt-3 w-full flex items-center justify-center gap-2 bg-orange-600 hover:bg-orange-700 text-white px-3 py-2 rounded-lg font-medium transition-all shadow-sm"
+                            >
+                              <CreditCard className="w-4 h-4" />
+                              <span className="text-sm">{t('card.printCta')}</span>
+                            </button>
                           )}
-                        </button>
-                      </div>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -358,7 +578,7 @@ function App() {
           </div>
         )}
 
-        {currentView === 'search' && (
+        {currentView === 'search' && canView('search') && (
           <div>
             <div className="mb-6 flex items-center gap-4">
               <button
@@ -384,7 +604,7 @@ function App() {
           </div>
         )}
 
-        {currentView === 'analytics' && (
+        {currentView === 'analytics' && canView('analytics') && (
           <div>
             <div className="mb-6 flex items-center gap-4">
               <button
@@ -408,7 +628,7 @@ function App() {
           </div>
         )}
 
-        {currentView === 'lost-found' && (
+        {currentView === 'lost-found' && canView('lost-found') && (
           <div>
             <div className="mb-6 flex items-center gap-4">
               <button
@@ -432,7 +652,7 @@ function App() {
           </div>
         )}
 
-        {currentView === 'high-risk' && (
+        {currentView === 'high-risk' && canView('high-risk') && (
           <div>
             <div className="mb-6 flex items-center gap-4">
               <button
@@ -455,6 +675,198 @@ function App() {
             </Suspense>
           </div>
         )}
+
+        {currentView === 'map' && canView('map') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('map.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('map.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <MedicalMap />
+            </Suspense>
+          </div>
+        )}
+
+        {currentView === 'referrals' && canView('referrals') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('referral.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('referral.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <ReferralQueue onSelectDevotee={handleSelectDevotee} />
+            </Suspense>
+          </div>
+        )}
+
+        {currentView === 'follow-ups' && canView('follow-ups') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('followUp.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('followUp.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <FollowUpsDashboard onSelectDevotee={handleSelectDevotee} />
+            </Suspense>
+          </div>
+        )}
+
+        {currentView === 'surveillance' && canView('surveillance') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('surveillance.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('surveillance.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <SurveillanceDashboard onSelectDevotee={handleSelectDevotee} />
+            </Suspense>
+          </div>
+        )}
+
+        {currentView === 'risk-models' && canView('risk-models') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('riskModels.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('riskModels.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <RiskModelEditor />
+            </Suspense>
+          </div>
+        )}
+
+        {currentView === 'merges' && canView('merges') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('merge.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('merge.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <DuplicateMergeTool />
+            </Suspense>
+          </div>
+        )}
+
+        {currentView === 'import' && canView('import') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('import.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('import.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <BulkImport />
+            </Suspense>
+          </div>
+        )}
+
+        {currentView === 'exports' && canView('exports') && (
+          <div>
+            <div className="mb-6 flex items-center gap-4">
+              <button
+                onClick={() => setCurrentView('home')}
+                className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+                aria-label={t('nav.backHome')}
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-kumbh-deep">{t('export.pageTitle')}</h2>
+                <p className="text-base text-slate-600 mt-1">
+                  {t('export.pageDesc')}
+                </p>
+              </div>
+            </div>
+
+            <Suspense fallback={<ComponentLoader />}>
+              <DataExport />
+            </Suspense>
+          </div>
+        )}
       </main>
 
       {selectedDevotee && (
@@ -474,12 +886,24 @@ function App() {
           <IncidentForm
             devoteeId={incidentDevoteeId}
             devoteeName={incidentDevoteeName || selectedDevotee.full_name}
+            followUpOf={incidentFollowUpOf}
             onClose={handleCloseIncidentForm}
             onSuccess={handleIncidentSuccess}
           />
         </Suspense>
       )}
 
+      {showHealthCard && registeredDevoteeId && (
+        <Suspense fallback={<ComponentLoader />}>
+          <HealthCard devoteeId={registeredDevoteeId} onClose={() => setShowHealthCard(false)} />
+        </Suspense>
+      )}
+
+      {/* Critical alerts pushed from the server */}
+      <Suspense fallback={null}>
+        <LiveAlerts />
+      </Suspense>
+
       {/* AI Chatbot - Available on all pages */}
       <Suspense fallback={null}>
         <ChatBot />
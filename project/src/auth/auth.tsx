@@ -0,0 +1,55 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  getAuthToken,
+  getCachedUser,
+  getCurrentUser,
+  isNetworkError,
+  login,
+  logout,
+  Permission,
+  setUnauthorizedHandler,
+  StaffUser,
+} from '../lib/api';
+import { AuthContext, AuthContextValue } from './context';
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<StaffUser | null>(null);
+  const [checking, setChecking] = useState(() => Boolean(getAuthToken()));
+
+  useEffect(() => {
+    // Any 401 from the API drops us back to the login screen
+    setUnauthorizedHandler(() => setUser(null));
+
+    if (getAuthToken()) {
+      getCurrentUser()
+        .then(setUser)
+        // Offline: trust the last verified profile until the server can be reached again
+        .catch((error) => setUser(isNetworkError(error) ? getCachedUser() : null))
+        .finally(() => setChecking(false));
+    }
+
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  const signIn = useCallback(async (username: string, password: string) => {
+    const staff = await login(username, password);
+    setUser(staff);
+  }, []);
+
+  const signOut = useCallback(() => {
+    logout();
+    setUser(null);
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => Boolean(user?.permissions.includes(permission)),
+    [user]
+  );
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ user, checking, signIn, signOut, can }),
+    [user, checking, signIn, signOut, can]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
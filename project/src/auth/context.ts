@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+import { Permission, StaffUser } from '../lib/api';
+
+export type AuthContextValue = {
+  user: StaffUser | null;
+  // true until the stored token has been checked against /auth/me
+  checking: boolean;
+  signIn: (username: string, password: string) => Promise<void>;
+  signOut: () => void;
+  can: (permission: Permission) => boolean;
+};
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
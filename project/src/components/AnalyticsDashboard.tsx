@@ -1,7 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { Users, Activity, AlertTriangle, TrendingUp, Loader2 } from 'lucide-react';
 import { useI18n } from '../i18n/i18n';
+import { getAnalyticsStats, LiveEvent, TriageCategory } from '../lib/api';
+import { useLiveEvents } from '../lib/liveEvents';
 
 interface AnalyticsData {
     totalDevotees: number;
@@ -18,18 +20,40 @@ interface AnalyticsData {
     alerts?: { condition: string; count: number; severity: string }[];
 }
 
+interface IncidentEvent {
+    id: string;
+    incident_type: string;
+    medical_center: string | null;
+    triage_category: TriageCategory | null;
+    incident_date: string;
+}
+
+const FEED_SIZE = 8;
+const TRIAGE_COLORS: Record<TriageCategory, string> = {
+    red: 'bg-red-500',
+    yellow: 'bg-yellow-400',
+    green: 'bg-green-500',
+    black: 'bg-gray-900',
+};
+
 export default function AnalyticsDashboard() {
     const { t } = useI18n();
     const [data, setData] = useState<AnalyticsData | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [feed, setFeed] = useState<IncidentEvent[]>([]);
+
+    const handleIncident = useCallback((event: LiveEvent) => {
+        setFeed(prev => [event.data as unknown as IncidentEvent, ...prev].slice(0, FEED_SIZE));
+    }, []);
+    // Missed events could not be replayed; an empty feed is more honest than a gappy one
+    const handleReset = useCallback(() => setFeed([]), []);
+    useLiveEvents(['incident.created'], handleIncident, handleReset);
 
     useEffect(() => {
         const fetchData = async () => {
             try {
-                const response = await fetch('/api/analytics/stats');
-                if (!response.ok) throw new Error('Failed to fetch analytics');
-                const result = await response.json();
+                const result = await getAnalyticsStats<AnalyticsData>();
                 setData(result);
             } catch (err) {
                 console.error('Analytics load error:', err);
@@ -180,6 +204,25 @@ export default function AnalyticsDashboard() {
                 </div>
             </div>
 
+            {/* Live incident feed */}
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('live.incidentFeed')}</h3>
+                {feed.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('live.noIncidents')}</p>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {feed.map(incident => (
+                            <li key={incident.id} className="flex items-center gap-3 py-2 text-sm">
+                                <span className={`w-2.5 h-2.5 rounded-full ${incident.triage_category ? TRIAGE_COLORS[incident.triage_category] : 'bg-gray-300'}`}></span>
+                                <span className="font-medium text-gray-800">{incident.incident_type}</span>
+                                <span className="flex-1 text-gray-600 truncate">{incident.medical_center || '-'}</span>
+                                <span className="text-xs text-gray-500">{new Date(incident.incident_date).toLocaleTimeString()}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
             {/* Charts Section 2: Medical Risks */}
             <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
                 <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('analytics.conditions') || 'Prevalent Medical Conditions'}</h3>
@@ -0,0 +1,448 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download, FileSpreadsheet, Loader2, Play, RotateCcw, Upload, X } from 'lucide-react';
+import {
+  cancelImport,
+  downloadImportResults,
+  getImport,
+  getImportRows,
+  getImports,
+  resumeImport,
+  setImportMapping,
+  startImport,
+  uploadImport,
+  ImportField,
+  ImportJob,
+  ImportRow,
+  ImportRowStatus,
+} from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+import { saveBlob } from '../utils/saveBlob';
+
+const REQUIRED_FIELDS: ImportField[] = ['full_name', 'age', 'gender', 'phone', 'emergency_contact_name', 'emergency_contact_phone'];
+const OPTIONAL_FIELDS: ImportField[] = ['blood_group', 'height_cm', 'weight_kg', 'allergies', 'chronic_conditions',
+  'current_medications', 'past_surgeries', 'special_notes'];
+const REPORT_STATUSES = ['invalid', 'duplicate', 'valid', 'imported'] as const;
+const POLL_MS = 2000;
+// The server's default page size for the row report
+const ROWS_PER_PAGE = 50;
+
+const STATUS_STYLES: Record<ImportJob['status'], string> = {
+  uploading: 'bg-gray-100 text-gray-700',
+  uploaded: 'bg-gray-100 text-gray-700',
+  validating: 'bg-blue-100 text-blue-800',
+  validated: 'bg-indigo-100 text-indigo-800',
+  importing: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const ROW_STYLES: Record<ImportRowStatus, string> = {
+  pending: 'text-gray-600',
+  valid: 'text-green-700',
+  invalid: 'text-red-700',
+  duplicate: 'text-amber-700',
+  imported: 'text-green-800',
+};
+
+const isActive = (job: ImportJob) => job.status === 'uploading' || job.status === 'validating' || job.status === 'importing';
+const canEditMapping = (job: ImportJob) =>
+  job.status === 'uploaded' || job.status === 'validated' || (job.status === 'failed' && job.phase === 'validate');
+
+// Upload a tour operator's or state transport's sheet, map its columns, check it, then register everyone on it
+export default function BulkImport() {
+  const { t } = useI18n();
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [mapping, setMapping] = useState<ImportJob['mapping']>({});
+  const [defaults, setDefaults] = useState<ImportJob['defaults']>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [reportStatus, setReportStatus] = useState<ImportRowStatus>('invalid');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [rowTotal, setRowTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [importDuplicates, setImportDuplicates] = useState(false);
+
+  const loadJobs = useCallback(() => {
+    getImports().then(setJobs).catch((err) => console.error('Failed to load imports:', err));
+  }, []);
+
+  useEffect(loadJobs, [loadJobs]);
+
+  const openJob = (next: ImportJob) => {
+    setJob(next);
+    setMapping(next.mapping);
+    setDefaults(next.defaults);
+    setImportDuplicates(next.import_duplicates);
+    setPage(1);
+    setError('');
+  };
+
+  // Follow a running dry run or import until it stops
+  const jobId = job?.id;
+  const jobActive = job ? isActive(job) : false;
+  useEffect(() => {
+    if (!jobId || !jobActive) return;
+    const timer = setInterval(() => {
+      getImport(jobId)
+        .then((latest) => {
+          setJob(latest);
+          // Reading the file is done: start from the suggested mapping
+          if (latest.status === 'uploaded') {
+            setMapping(latest.mapping);
+            setDefaults(latest.defaults);
+          }
+          if (!isActive(latest)) loadJobs();
+        })
+        .catch((err) => console.error('Failed to refresh import:', err));
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [jobId, jobActive, loadJobs]);
+
+  const jobStatus = job?.status;
+  const processed = job ? job.counts.validated + job.counts.imported : 0;
+  useEffect(() => {
+    if (!jobId || jobStatus === 'uploaded' || jobStatus === 'uploading') {
+      setRows([]);
+      setRowTotal(0);
+      return;
+    }
+    getImportRows(jobId, reportStatus, page)
+      .then((result) => {
+        setRows(result.rows);
+        setRowTotal(result.total);
+      })
+      .catch((err) => console.error('Failed to load import rows:', err));
+  }, [jobId, jobStatus, reportStatus, page, processed]);
+
+  const run = async (action: () => Promise<ImportJob>) => {
+    setBusy(true);
+    setError('');
+    try {
+      openJob(await action());
+      loadJobs();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setUploading(true);
+    setError('');
+    try {
+      openJob(await uploadImport(file));
+      setFile(null);
+      loadJobs();
+    } catch (err) {
+      setError(t('import.uploadFailed', { message: (err as Error).message }));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!job) return;
+    try {
+      saveBlob(await downloadImportResults(job.id), `${job.filename.replace(/\.[^.]+$/, '')}-registrations.csv`);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const mappingComplete = REQUIRED_FIELDS.every((field) => mapping[field] !== undefined || defaults[field]?.trim());
+  const importable = job ? job.counts.valid + (importDuplicates ? job.counts.duplicate : 0) : 0;
+  const progressTotal = job?.status === 'importing'
+    ? job.counts.valid + (job.import_duplicates ? job.counts.duplicate : 0)
+    : job?.total_rows ?? 0;
+  const progressDone = job?.status === 'importing' ? job.counts.imported : job?.counts.validated ?? 0;
+
+  const renderField = (field: ImportField, required: boolean) => {
+    const column = mapping[field];
+    return (
+      <tr key={field} className="border-t border-gray-100">
+        <td className="py-2 pr-3 text-sm font-medium text-gray-800">
+          {t(`import.field.${field}`)}
+          {required && <span className="text-red-600"> *</span>}
+        </td>
+        <td className="py-2 pr-3">
+          <select
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+            value={column === undefined ? '' : String(column)}
+            onChange={(e) => setColumn(field, e.target.value)}
+          >
+            <option value="">{t('import.notMapped')}</option>
+            {job?.headers.map((header, index) => (
+              <option key={index} value={index}>{header}</option>
+            ))}
+          </select>
+        </td>
+        <td className="py-2 pr-3 text-xs text-gray-500 truncate max-w-[12rem]">
+          {column !== undefined && job?.sample[0]?.[column]}
+        </td>
+        <td className="py-2">
+          <input
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+            value={defaults[field] || ''}
+            onChange={(e) => setDefaults((prev) => ({ ...prev, [field]: e.target.value }))}
+            placeholder={t('import.defaultPlaceholder')}
+          />
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleUpload} className="bg-gray-50 border border-gray-200 rounded-xl p-6 flex flex-col md:flex-row gap-3 md:items-center">
+        <FileSpreadsheet className="w-8 h-8 text-green-700 shrink-0" aria-hidden="true" />
+        <div className="flex-1">
+          <p className="text-sm text-gray-700">{t('import.uploadHint')}</p>
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="mt-2 text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!file || uploading}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold disabled:bg-gray-400"
+        >
+          {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {t('import.upload')}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-4 py-2">{error}</p>}
+
+      {job && (
+        <section className="bg-white border border-gray-200 rounded-xl p-6 space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <h3 className="text-lg font-semibold text-gray-900">{job.filename}</h3>
+            <span className={`text-xs font-semibold px-2 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+              {t(`import.status.${job.status}`)}
+            </span>
+            <span className="text-sm text-gray-600">{t('import.rows', { count: job.total_rows })}</span>
+            <span className="ml-auto flex gap-2">
+              {(job.status === 'failed' || (isActive(job) && !job.running)) && (
+                <button
+                  type="button"
+                  onClick={() => run(() => resumeImport(job.id))}
+                  disabled={busy}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-semibold border border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {t('import.resume')}
+                </button>
+              )}
+              {['uploading', 'uploaded', 'validating', 'validated', 'importing', 'failed'].includes(job.status) && (
+                <button
+                  type="button"
+                  onClick={() => window.confirm(t('import.cancelConfirm')) && run(() => cancelImport(job.id))}
+                  disabled={busy}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg"
+                >
+                  <X className="w-4 h-4" />
+                  {t('import.cancel')}
+                </button>
+              )}
+            </span>
+          </div>
+
+          {job.error && <p className="text-sm text-red-700">{t('import.failedWith', { message: job.error })}</p>}
+
+          {canEditMapping(job) && (
+            <div className="space-y-3">
+              <h4 className="font-semibold text-gray-900">{t('import.mapping')}</h4>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-xs uppercase text-gray-500">
+                      <th className="pb-2 pr-3">{t('import.field')}</th>
+                      <th className="pb-2 pr-3">{t('import.column')}</th>
+                      <th className="pb-2 pr-3">{t('import.example')}</th>
+                      <th className="pb-2">{t('import.default')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {REQUIRED_FIELDS.map((field) => renderField(field, true))}
+                    {OPTIONAL_FIELDS.map((field) => renderField(field, false))}
+                  </tbody>
+                </table>
+              </div>
+              <button
+                type="button"
+                onClick={() => run(() => setImportMapping(job.id, mapping, defaults))}
+                disabled={busy || !mappingComplete}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold disabled:bg-gray-400"
+              >
+                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                {t('import.dryRun')}
+              </button>
+            </div>
+          )}
+
+          {isActive(job) && job.status !== 'uploading' && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-700 mb-1">
+                <span>{t(`import.status.${job.status}`)}</span>
+                <span>{progressDone} / {progressTotal}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${progressTotal ? Math.min((progressDone / progressTotal) * 100, 100) : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {job.status !== 'uploaded' && job.status !== 'uploading' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {REPORT_STATUSES.map((status) => (
+                  <button
+                    key={status}
+                    type="button"
+                    onClick={() => {
+                      setReportStatus(status);
+                      setPage(1);
+                    }}
+                    className={`text-left border rounded-lg px-3 py-2 ${reportStatus === status ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <span className={`block text-2xl font-bold ${ROW_STYLES[status]}`}>{job.counts[status]}</span>
+                    <span className="text-xs text-gray-600">{t(`import.rowStatus.${status}`)}</span>
+                  </button>
+                ))}
+              </div>
+
+              {rows.length === 0 ? (
+                <p className="text-sm text-gray-600">{t('import.noRows')}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase text-gray-500">
+                        <th className="pb-2 pr-3">{t('import.row')}</th>
+                        <th className="pb-2 pr-3">{t('import.field.full_name')}</th>
+                        <th className="pb-2 pr-3">{t('import.field.age')}</th>
+                        <th className="pb-2 pr-3">{t('import.field.phone')}</th>
+                        <th className="pb-2">{t('import.details')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row) => (
+                        <tr key={row.id} className="border-t border-gray-100 align-top">
+                          <td className="py-2 pr-3 font-mono text-gray-600">{row.row_number}</td>
+                          <td className="py-2 pr-3 text-gray-900">{row.devotee.full_name}</td>
+                          <td className="py-2 pr-3">{row.devotee.age}</td>
+                          <td className="py-2 pr-3">{row.devotee.phone}</td>
+                          <td className={`py-2 ${ROW_STYLES[row.status]}`}>
+                            {row.registration_number && <span className="font-mono">{row.registration_number}</span>}
+                            {row.issues.map((issue) => <div key={issue}>{issue}</div>)}
+                            {row.duplicate_of_row !== null && <div>{t('import.repeatOf', { row: row.duplicate_of_row })}</div>}
+                            {row.duplicates.map((match) => (
+                              <div key={match.registration_number}>
+                                {t(`duplicates.confidence.${match.confidence}`)}: {match.full_name} ({match.registration_number})
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="flex items-center justify-end gap-3 mt-3 text-sm">
+                    <button type="button" onClick={() => setPage(page - 1)} disabled={page === 1} className="px-2 py-1 border rounded disabled:opacity-40">
+                      {t('import.previous')}
+                    </button>
+                    <span>{t('import.page', { page, pages: Math.max(Math.ceil(rowTotal / ROWS_PER_PAGE), 1) })}</span>
+                    <button type="button" onClick={() => setPage(page + 1)} disabled={page * ROWS_PER_PAGE >= rowTotal} className="px-2 py-1 border rounded disabled:opacity-40">
+                      {t('import.next')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {job.status === 'validated' && (
+            <div className="flex flex-col md:flex-row gap-3 md:items-center border-t border-gray-100 pt-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={importDuplicates} onChange={(e) => setImportDuplicates(e.target.checked)} />
+                {t('import.includeDuplicates', { count: job.counts.duplicate })}
+              </label>
+              <button
+                type="button"
+                onClick={() => window.confirm(t('import.startConfirm', { count: importable })) && run(() => startImport(job.id, importDuplicates))}
+                disabled={busy || importable === 0}
+                className="md:ml-auto inline-flex items-center gap-2 px-5 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold disabled:bg-gray-400"
+              >
+                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                {t('import.start', { count: importable })}
+              </button>
+            </div>
+          )}
+
+          {job.counts.imported > 0 && (
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-green-600 text-green-700 rounded-lg font-semibold hover:bg-green-50"
+            >
+              <Download className="w-4 h-4" />
+              {t('import.download')}
+            </button>
+          )}
+        </section>
+      )}
+
+      <section>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('import.recent')}</h3>
+        {jobs.length === 0 ? (
+          <p className="text-sm text-gray-600">{t('import.noJobs')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 bg-white border border-gray-200 rounded-lg">
+            {jobs.map((item) => (
+              <li key={item.id}>
+                <button
+                  type="button"
+                  onClick={() => openJob(item)}
+                  className={`w-full flex flex-wrap items-center gap-3 px-4 py-3 text-sm text-left hover:bg-gray-50 ${item.id === job?.id ? 'bg-blue-50' : ''}`}
+                >
+                  <span className="font-medium text-gray-900">{item.filename}</span>
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded ${STATUS_STYLES[item.status]}`}>
+                    {t(`import.status.${item.status}`)}
+                  </span>
+                  <span className="text-gray-600">{t('import.rows', { count: item.total_rows })}</span>
+                  {item.counts.imported > 0 && (
+                    <span className="text-green-700">{t('import.importedCount', { count: item.counts.imported })}</span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500">
+                    {item.created_by.full_name || item.created_by.username} · {new Date(item.created_at).toLocaleString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
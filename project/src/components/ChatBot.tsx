@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { MessageCircle, X, Send, Loader2, Bot, User } from 'lucide-react';
 import { useI18n } from '../i18n/i18n';
+import { sendChatMessage } from '../lib/api';
 
 type Message = {
     id: string;
@@ -78,27 +79,14 @@ export default function ChatBot() {
         setIsLoading(true);
 
         try {
-            const API_BASE = import.meta.env.PROD ? '/api' : 'http://localhost:4000/api';
-            const response = await fetch(`${API_BASE}/chatbot/message`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    message: text || inputText,
-                    language: lang,
-                    history: messages.slice(-10).map((m) => ({
-                        role: m.sender === 'user' ? 'user' : 'assistant',
-                        content: m.text,
-                    })),
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error('Failed to get response');
-            }
-
-            const data = await response.json();
+            const data = await sendChatMessage(
+                text || inputText,
+                lang,
+                messages.slice(-10).map((m) => ({
+                    role: m.sender === 'user' ? 'user' : 'assistant',
+                    content: m.text,
+                }))
+            );
             addBotMessage(data.response);
         } catch (error) {
             console.error('Chatbot error:', error);
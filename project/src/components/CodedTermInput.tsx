@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { lookupTerms, CodedEntryInput, TermKind, TermMatch } from '../lib/api';
+import { entryLabel, sameEntry } from '../lib/terminology';
+import { useI18n } from '../i18n/i18n';
+import VoiceInput from './VoiceInput';
+
+type CodedTermInputProps = {
+    kind: TermKind;
+    value: CodedEntryInput[];
+    onChange: (entries: CodedEntryInput[]) => void;
+    placeholder: string;
+    // Entries with these codes are shown elsewhere (quick-pick checkboxes), not as chips
+    hideCodes?: string[];
+    chipClassName: string;
+    buttonClassName: string;
+};
+
+const LOOKUP_DELAY = 250;
+
+// Chip list with vocabulary autocomplete; anything typed that matches nothing is kept as free text
+export default function CodedTermInput({ kind, value, onChange, placeholder, hideCodes = [], chipClassName, buttonClassName }: CodedTermInputProps) {
+    const { t, lang } = useI18n();
+    const [query, setQuery] = useState('');
+    const [matches, setMatches] = useState<TermMatch[]>([]);
+    const [highlighted, setHighlighted] = useState(-1);
+
+    useEffect(() => {
+        if (query.trim().length < 2) {
+            setMatches([]);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            lookupTerms(kind, query.trim(), lang)
+                .then((results) => {
+                    if (cancelled) return;
+                    setMatches(results);
+                    setHighlighted(-1);
+                })
+                // Offline or lookup down: typing still works, the server codes the text on save
+                .catch(() => !cancelled && setMatches([]));
+        }, LOOKUP_DELAY);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [kind, query, lang]);
+
+    const add = (entry: CodedEntryInput) => {
+        if (!entryLabel(entry).trim()) return;
+        if (!value.some((existing) => sameEntry(existing, entry))) onChange([...value, entry]);
+        setQuery('');
+        setMatches([]);
+    };
+
+    const addMatch = (match: TermMatch) => add({ code: match.code, system: match.system, display: match.display, text: match.label });
+
+    const addTyped = () => {
+        if (highlighted >= 0 && matches[highlighted]) addMatch(matches[highlighted]);
+        else add({ text: query.trim() });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            addTyped();
+        } else if (e.key === 'ArrowDown' && matches.length) {
+            e.preventDefault();
+            setHighlighted((h) => (h + 1) % matches.length);
+        } else if (e.key === 'ArrowUp' && matches.length) {
+            e.preventDefault();
+            setHighlighted((h) => (h <= 0 ? matches.length - 1 : h - 1));
+        } else if (e.key === 'Escape') {
+            setMatches([]);
+        }
+    };
+
+    const chips = value.filter((entry) => !entry.code || !hideCodes.includes(entry.code));
+
+    return (
+        <div className="space-y-3">
+            {chips.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {chips.map((entry) => (
+                        <span
+                            key={entry.code || entryLabel(entry)}
+                            className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm ${chipClassName}`}
+                            title={entry.code ? `${entry.display} · ${entry.code}` : t('terms.uncoded')}
+                        >
+                            {entry.text || entry.display}
+                            {!entry.code && <span className="text-xs opacity-70">*</span>}
+                            <button
+                                type="button"
+                                onClick={() => onChange(value.filter((existing) => existing !== entry))}
+                                className="opacity-70 hover:opacity-100"
+                                aria-label={t('terms.remove', { name: entryLabel(entry) })}
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div className="relative flex gap-2">
+                <div className="relative w-full">
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        onBlur={() => setTimeout(() => setMatches([]), 150)}
+                        placeholder={placeholder}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
+                        role="combobox"
+                        aria-expanded={matches.length > 0}
+                        aria-autocomplete="list"
+                    />
+                    {matches.length > 0 && (
+                        <ul role="listbox" className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+                            {matches.map((match, idx) => (
+                                <li
+                                    key={match.code}
+                                    role="option"
+                                    aria-selected={idx === highlighted}
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        addMatch(match);
+                                    }}
+                                    className={`px-3 py-2 cursor-pointer text-sm flex items-center justify-between gap-2 ${idx === highlighted ? 'bg-orange-50' : 'hover:bg-gray-50'}`}
+                                >
+                                    <span>
+                                        {match.label}
+                                        {match.label !== match.display && <span className="text-gray-500"> · {match.display}</span>}
+                                    </span>
+                                    <span className="text-xs text-gray-400 font-mono">{match.code}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                <button type="button" onClick={addTyped} className={`px-3 py-2 text-white rounded-md text-sm whitespace-nowrap ${buttonClassName}`}>
+                    {t('common.add')}
+                </button>
+                <VoiceInput onTranscript={setQuery} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+import { Phone, UserCircle } from 'lucide-react';
+import { CreateDevoteePayload } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+import VoiceInput from './VoiceInput';
+import { parseSpokenPhoneNumber } from '../utils/textUtils';
+
+export type ContactDetails = Pick<CreateDevoteePayload, 'phone' | 'emergency_contact_name' | 'emergency_contact_phone'>;
+
+type ContactFieldsProps = {
+    value: ContactDetails;
+    onChange: (field: keyof ContactDetails, value: string) => void;
+    // Groups enter one phone for everyone, so the label says so
+    phoneLabel?: string;
+};
+
+const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500';
+
+// Phone and emergency contact, shared by individual and group registration
+export default function ContactFields({ value, onChange, phoneLabel }: ContactFieldsProps) {
+    const { t, lang } = useI18n();
+    const voiceLanguage = lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN';
+
+    const handleVoiceInput = (field: keyof ContactDetails, text: string) =>
+        onChange(field, field === 'emergency_contact_name' ? text : parseSpokenPhoneNumber(text));
+
+    return (
+        <>
+            <div className="relative">
+                <div className="flex items-center gap-2 mb-2">
+                    <Phone className="w-4 h-4 text-blue-500" />
+                    <label className="text-base font-semibold text-gray-800">{phoneLabel || t('reg.phone')} <span className="text-red-500 font-bold">*</span></label>
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        type="tel"
+                        required
+                        value={value.phone}
+                        onChange={e => onChange('phone', e.target.value)}
+                        className={inputClass}
+                    />
+                    <VoiceInput onTranscript={(text) => handleVoiceInput('phone', text)} language={voiceLanguage} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div className="relative">
+                    <div className="flex items-center gap-2 mb-2">
+                        <UserCircle className="w-4 h-4 text-blue-500" />
+                        <label className="text-base font-semibold text-gray-800">{t('reg.emergencyName')} <span className="text-red-500 font-bold">*</span></label>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            required
+                            value={value.emergency_contact_name}
+                            onChange={e => onChange('emergency_contact_name', e.target.value)}
+                            className={inputClass}
+                        />
+                        <VoiceInput onTranscript={(text) => handleVoiceInput('emergency_contact_name', text)} language={voiceLanguage} />
+                    </div>
+                </div>
+                <div className="relative">
+                    <div className="flex items-center gap-2 mb-2">
+                        <Phone className="w-4 h-4 text-blue-500" />
+                        <label className="text-base font-semibold text-gray-800">{t('reg.emergencyPhone')} <span className="text-red-500 font-bold">*</span></label>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="tel"
+                            required
+                            value={value.emergency_contact_phone}
+                            onChange={e => onChange('emergency_contact_phone', e.target.value)}
+                            className={inputClass}
+                        />
+                        <VoiceInput onTranscript={(text) => handleVoiceInput('emergency_contact_phone', text)} language={voiceLanguage} />
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+}
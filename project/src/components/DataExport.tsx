@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  downloadExport,
+  getExportLogs,
+  getMedicalCenters,
+  ExportDataset,
+  ExportFormat,
+  ExportLog,
+  MedicalCenter,
+  RiskLevel,
+} from '../lib/api';
+import { useAuth } from '../auth/useAuth';
+import { useI18n } from '../i18n/i18n';
+import { saveBlob } from '../utils/saveBlob';
+
+const DATASETS: ExportDataset[] = ['devotees', 'medical_records', 'incidents'];
+const FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+const RISK_LEVELS: RiskLevel[] = ['Critical', 'High', 'Moderate', 'Low'];
+
+// Spreadsheet downloads for reporting to health authorities; each one lands in the export log
+export default function DataExport() {
+  const { t } = useI18n();
+  const { can } = useAuth();
+  const [dataset, setDataset] = useState<ExportDataset>('devotees');
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [centerId, setCenterId] = useState('');
+  const [riskLevels, setRiskLevels] = useState<RiskLevel[]>([]);
+  const [centers, setCenters] = useState<MedicalCenter[]>([]);
+  const [logs, setLogs] = useState<ExportLog[]>([]);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  const canReadLog = can('audit:read');
+
+  const loadLogs = useCallback(() => {
+    if (!canReadLog) return;
+    getExportLogs().then(setLogs).catch((err) => console.error('Failed to load export log:', err));
+  }, [canReadLog]);
+
+  useEffect(loadLogs, [loadLogs]);
+
+  useEffect(() => {
+    getMedicalCenters().then(setCenters).catch((err) => console.error('Failed to load medical centers:', err));
+  }, []);
+
+  const toggleRiskLevel = (level: RiskLevel) => {
+    setRiskLevels((prev) => (prev.includes(level) ? prev.filter((l) => l !== level) : [...prev, level]));
+  };
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setDownloading(true);
+    setError('');
+    try {
+      const blob = await downloadExport(dataset, format, {
+        from: from || undefined,
+        to: to || undefined,
+        center_id: centerId || undefined,
+        risk_level: riskLevels,
+      });
+      saveBlob(blob, `${dataset}-${new Date().toISOString().slice(0, 10)}.${format}`);
+      loadLogs();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const centerName = (id?: string) => centers.find((c) => c.id === id)?.name || id;
+
+  const describeFilters = (log: ExportLog) => {
+    const { from: logFrom, to: logTo, center_id: logCenter, risk_level: logRisk, registration_number: registration } = log.filters;
+    return [
+      registration,
+      (logFrom || logTo) && `${logFrom || '…'} – ${logTo || '…'}`,
+      logCenter && centerName(logCenter),
+      logRisk?.length && logRisk.map((level) => t(`riskModels.levels.${level}`)).join(', '),
+    ].filter(Boolean).join(' · ') || t('export.noFilters');
+  };
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleDownload} className="bg-gray-50 border border-gray-200 rounded-xl p-6 space-y-5">
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">{t('export.dataset')}</span>
+            <select
+              value={dataset}
+              onChange={(e) => setDataset(e.target.value as ExportDataset)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {DATASETS.map((option) => (
+                <option key={option} value={option}>{t(`export.datasets.${option}`)}</option>
+              ))}
+            </select>
+          </label>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('export.format')}</legend>
+            <div className="mt-2 flex gap-4">
+              {FORMATS.map((option) => (
+                <label key={option} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input type="radio" name="format" checked={format === option} onChange={() => setFormat(option)} />
+                  {t(`export.formats.${option}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">{t('export.from')}</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">{t('export.to')}</span>
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">{t('export.center')}</span>
+            <select
+              value={centerId}
+              onChange={(e) => setCenterId(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">{t('export.allCenters')}</option>
+              {centers.map((center) => (
+                <option key={center.id} value={center.id}>{center.name}</option>
+              ))}
+            </select>
+          </label>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('export.riskLevel')}</legend>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {RISK_LEVELS.map((level) => (
+                <label key={level} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={riskLevels.includes(level)} onChange={() => toggleRiskLevel(level)} />
+                  {t(`riskModels.levels.${level}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        <p className="text-xs text-gray-500">{t(`export.hint.${dataset}`)}</p>
+
+        <button
+          type="submit"
+          disabled={downloading}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold disabled:bg-gray-400"
+        >
+          {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          {t('export.download')}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-4 py-2">{error}</p>}
+
+      {canReadLog && (
+        <section>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('export.log')}</h3>
+          {logs.length === 0 ? (
+            <p className="text-sm text-gray-600">{t('export.noLogs')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 bg-white border border-gray-200 rounded-lg">
+              {logs.map((log) => (
+                <li key={log.id} className="flex flex-wrap items-center gap-3 px-4 py-3 text-sm">
+                  <span className="font-medium text-gray-900">{t(`export.datasets.${log.dataset}`)}</span>
+                  <span className="text-xs font-semibold px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                    {t(`export.formats.${log.format}`)}
+                  </span>
+                  <span className="text-gray-600">{describeFilters(log)}</span>
+                  <span className="text-gray-600">{t('export.rows', { count: log.row_count })}</span>
+                  {!log.completed && (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                      {t('export.incomplete')}
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500">
+                    {log.exported_by.full_name || log.exported_by.username} · {new Date(log.created_at).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
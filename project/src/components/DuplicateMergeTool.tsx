@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowRight, GitMerge, Loader2, Search, Undo2, User, X } from 'lucide-react';
+import {
+  getDevoteeDuplicates,
+  getMerges,
+  mergeDevotees,
+  revertMerge,
+  searchDevotees,
+  DevoteeMerge,
+  DevoteeSummary,
+  DevoteeWithRecord,
+  DuplicateCandidate,
+} from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type Side = 'survivor' | 'retired';
+// Search results carry the medical record; duplicate suggestions only the summary
+type Picked = DevoteeSummary & { medical_records?: DevoteeWithRecord['medical_records'] };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function DevoteePicker({ label, picked, onPick, onClear }: {
+  label: string;
+  picked: Picked | null;
+  onPick: (devotee: Picked) => void;
+  onClear: () => void;
+}) {
+  const { t } = useI18n();
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<DevoteeWithRecord[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!term.trim()) return;
+    setSearching(true);
+    try {
+      // Registration numbers look like KM2027-XXXXXX; anything else is treated as a name
+      const type = /^KM\d{4}-/i.test(term.trim()) ? 'registration' : 'name';
+      setResults(await searchDevotees(term.trim(), type));
+    } catch (err) {
+      alert(t('merge.searchFailed', { message: (err as Error).message }));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  if (picked) {
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 bg-white">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold uppercase text-gray-500">{label}</h4>
+          <button type="button" onClick={onClear} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex items-center gap-3 mb-3">
+          {picked.photo_url ? (
+            <img src={picked.photo_thumb_url || picked.photo_url} alt={picked.full_name} className="w-14 h-14 rounded-full object-cover" />
+          ) : (
+            <div className="w-14 h-14 rounded-full bg-gray-100 flex items-center justify-center">
+              <User className="w-7 h-7 text-gray-400" />
+            </div>
+          )}
+          <div>
+            <p className="font-semibold text-gray-900">{picked.full_name}</p>
+            <p className="text-xs font-mono text-gray-600">{picked.registration_number}</p>
+          </div>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+          <dt className="text-gray-500">{t('search.age')}</dt>
+          <dd className="text-gray-900">{picked.age}</dd>
+          <dt className="text-gray-500">{t('profile.gender')}</dt>
+          <dd className="text-gray-900">{picked.gender}</dd>
+          <dt className="text-gray-500">{t('profile.phone')}</dt>
+          <dd className="text-gray-900">{picked.phone}</dd>
+          {picked.medical_records !== undefined && (
+            <>
+              <dt className="text-gray-500">{t('profile.bloodGroup')}</dt>
+              <dd className="text-gray-900">{picked.medical_records?.blood_group || t('profile.notSpecified')}</dd>
+            </>
+          )}
+          {picked.created_at && (
+            <>
+              <dt className="text-gray-500">{t('merge.registeredOn')}</dt>
+              <dd className="text-gray-900">{new Date(picked.created_at).toLocaleString()}</dd>
+            </>
+          )}
+        </dl>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-dashed border-gray-300 rounded-lg p-4 bg-white">
+      <h4 className="text-sm font-semibold uppercase text-gray-500 mb-3">{label}</h4>
+      <form onSubmit={search} className="flex gap-2">
+        <input className={inputClass} value={term} onChange={(e) => setTerm(e.target.value)} placeholder={t('merge.searchPlaceholder')} />
+        <button type="submit" className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700" aria-label={t('merge.search')}>
+          {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+        </button>
+      </form>
+      <ul className="mt-3 divide-y divide-gray-100">
+        {results.map((devotee) => (
+          <li key={devotee.id}>
+            <button
+              type="button"
+              onClick={() => onPick(devotee)}
+              className="w-full text-left py-2 px-1 hover:bg-blue-50 rounded text-sm"
+            >
+              <span className="font-medium text-gray-900">{devotee.full_name}</span>
+              <span className="text-gray-500"> · {devotee.registration_number} · {devotee.age} · {devotee.phone}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Admin tool: fold a duplicate registration into the record being kept, and undo past merges
+export default function DuplicateMergeTool() {
+  const { t } = useI18n();
+  const [picked, setPicked] = useState<Record<Side, Picked | null>>({ survivor: null, retired: null });
+  const [suggestions, setSuggestions] = useState<DuplicateCandidate[] | null>(null);
+  const [reason, setReason] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [merges, setMerges] = useState<DevoteeMerge[]>([]);
+  const [loadingMerges, setLoadingMerges] = useState(true);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadMerges = useCallback(() => {
+    setLoadingMerges(true);
+    getMerges()
+      .then(setMerges)
+      .catch((err) => console.error('Failed to load merges:', err))
+      .finally(() => setLoadingMerges(false));
+  }, []);
+
+  useEffect(loadMerges, [loadMerges]);
+
+  const pick = (side: Side) => (devotee: Picked | null) => {
+    setPicked((prev) => ({ ...prev, [side]: devotee }));
+    if (side === 'survivor') setSuggestions(null);
+  };
+
+  const findSuggestions = async () => {
+    if (!picked.survivor) return;
+    try {
+      setSuggestions(await getDevoteeDuplicates(picked.survivor.id));
+    } catch (err) {
+      alert(t('merge.searchFailed', { message: (err as Error).message }));
+    }
+  };
+
+  const handleMerge = async () => {
+    const { survivor, retired } = picked;
+    if (!survivor || !retired) return;
+    if (!window.confirm(t('merge.confirm', { retired: retired.registration_number, survivor: survivor.registration_number }))) return;
+
+    setMerging(true);
+    try {
+      await mergeDevotees(survivor.id, retired.id, reason);
+      setPicked({ survivor: null, retired: null });
+      setSuggestions(null);
+      setReason('');
+      loadMerges();
+    } catch (err) {
+      alert(t('merge.failed', { message: (err as Error).message }));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleRevert = async (merge: DevoteeMerge) => {
+    if (!window.confirm(t('merge.revertConfirm', { retired: merge.retired.registration_number }))) return;
+    setRevertingId(merge.id);
+    try {
+      await revertMerge(merge.id);
+      loadMerges();
+    } catch (err) {
+      alert(t('merge.revertFailed', { message: (err as Error).message }));
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-gray-50 border border-gray-200 rounded-xl p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-start">
+          <DevoteePicker
+            label={t('merge.duplicate')}
+            picked={picked.retired}
+            onPick={pick('retired')}
+            onClear={() => pick('retired')(null)}
+          />
+          <ArrowRight className="hidden md:block w-6 h-6 text-gray-400 mt-16" aria-hidden="true" />
+          <DevoteePicker
+            label={t('merge.keep')}
+            picked={picked.survivor}
+            onPick={pick('survivor')}
+            onClear={() => pick('survivor')(null)}
+          />
+        </div>
+
+        {picked.survivor && !picked.retired && (
+          <div className="space-y-2">
+            <button type="button" onClick={findSuggestions} className="text-sm font-semibold text-blue-700 hover:underline">
+              {t('merge.findDuplicates', { name: picked.survivor.full_name })}
+            </button>
+            {suggestions && (
+              suggestions.length === 0 ? (
+                <p className="text-sm text-gray-600">{t('merge.noSuggestions')}</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 bg-white border border-gray-200 rounded-lg">
+                  {suggestions.map(({ devotee, confidence, reasons }) => (
+                    <li key={devotee.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <span>
+                        <span className="font-medium text-gray-900">{devotee.full_name}</span>
+                        <span className="text-gray-500"> · {devotee.registration_number} · {devotee.age} · {devotee.phone}</span>
+                        <span className="ml-2 text-xs text-gray-600">
+                          {t(`duplicates.confidence.${confidence}`)}: {reasons.map((r) => t(`duplicates.reason.${r}`)).join(', ')}
+                        </span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => pick('retired')(devotee)}
+                        className="px-2 py-1 text-xs font-semibold border border-blue-600 text-blue-700 rounded hover:bg-blue-50"
+                      >
+                        {t('merge.selectDuplicate')}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+          </div>
+        )}
+
+        {picked.survivor && picked.retired && (
+          <div className="flex flex-col md:flex-row gap-3 md:items-end">
+            <label className="flex-1 text-sm font-medium text-gray-700">
+              {t('merge.reason')}
+              <input className={`${inputClass} mt-1`} value={reason} onChange={(e) => setReason(e.target.value)} />
+            </label>
+            <button
+              type="button"
+              onClick={handleMerge}
+              disabled={merging || picked.survivor.id === picked.retired.id}
+              className="inline-flex items-center justify-center gap-2 px-5 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold disabled:bg-gray-400"
+            >
+              {merging ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+              {t('merge.submit')}
+            </button>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">{t('merge.hint')}</p>
+      </section>
+
+      <section>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('merge.history')}</h3>
+        {loadingMerges ? (
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        ) : merges.length === 0 ? (
+          <p className="text-sm text-gray-600">{t('merge.noHistory')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 bg-white border border-gray-200 rounded-lg">
+            {merges.map((merge) => (
+              <li key={merge.id} className="flex flex-wrap items-center gap-3 px-4 py-3 text-sm">
+                <span className="font-mono text-gray-700">{merge.retired.registration_number}</span>
+                <ArrowRight className="w-4 h-4 text-gray-400" aria-hidden="true" />
+                <span className="font-mono text-gray-900">{merge.survivor.registration_number}</span>
+                <span className="text-gray-700">{merge.survivor.full_name}</span>
+                <span className="text-xs text-gray-500">
+                  {t('merge.by', { name: merge.merged_by.full_name || merge.merged_by.username, date: new Date(merge.merged_at).toLocaleString() })}
+                  {merge.reason && ` · ${merge.reason}`}
+                </span>
+                <span className="ml-auto">
+                  {merge.status === 'reverted' ? (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded bg-gray-100 text-gray-600">{t('merge.reverted')}</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleRevert(merge)}
+                      disabled={revertingId === merge.id}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Undo2 className="w-3.5 h-3.5" />
+                      {t('merge.revert')}
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
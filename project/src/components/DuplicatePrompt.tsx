@@ -0,0 +1,89 @@
+import { AlertTriangle, User, X } from 'lucide-react';
+import type { DuplicateCandidate, DevoteeSummary } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type DuplicatePromptProps = {
+  candidates: DuplicateCandidate[];
+  onUseExisting: (devotee: DevoteeSummary) => void;
+  onRegisterAnyway: () => void;
+  onClose: () => void;
+};
+
+const CONFIDENCE_STYLES: Record<DuplicateCandidate['confidence'], string> = {
+  likely: 'bg-red-100 text-red-800',
+  possible: 'bg-amber-100 text-amber-800',
+};
+
+// Shown before registering someone who may already be on file, e.g. enrolled at another camp
+export default function DuplicatePrompt({ candidates, onUseExisting, onRegisterAnyway, onClose }: DuplicatePromptProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            {t('duplicates.title')}
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-gray-600">{t('duplicates.desc')}</p>
+          <ul className="space-y-2">
+            {candidates.map(({ devotee, confidence, reasons }) => (
+              <li key={devotee.id} className="flex items-center gap-3 border border-gray-200 rounded-lg p-3">
+                {devotee.photo_url ? (
+                  <img src={devotee.photo_thumb_url || devotee.photo_url} alt={devotee.full_name} className="w-12 h-12 rounded-full object-cover" />
+                ) : (
+                  <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center">
+                    <User className="w-6 h-6 text-gray-400" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900 truncate">{devotee.full_name}</p>
+                  <p className="text-xs text-gray-600">
+                    {devotee.registration_number} · {t('profile.ageYears', { years: devotee.age })} · {devotee.gender} · {devotee.phone}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    <span className={`text-[11px] font-semibold px-1.5 py-0.5 rounded ${CONFIDENCE_STYLES[confidence]}`}>
+                      {t(`duplicates.confidence.${confidence}`)}
+                    </span>
+                    {reasons.map((reason) => (
+                      <span key={reason} className="text-[11px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+                        {t(`duplicates.reason.${reason}`)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onUseExisting(devotee)}
+                  className="px-3 py-1.5 text-sm font-semibold text-white bg-green-600 hover:bg-green-700 rounded-lg"
+                >
+                  {t('duplicates.useExisting')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg">
+            {t('incident.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={onRegisterAnyway}
+            className="px-4 py-2 text-sm font-semibold text-orange-700 border border-orange-300 hover:bg-orange-50 rounded-lg"
+          >
+            {t('duplicates.registerAnyway')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { CalendarClock, Link2, Loader2, Plus, X } from 'lucide-react';
+import { cancelFollowUp, completeFollowUp, scheduleFollowUp, MedicalIncident } from '../lib/api';
+import { defaultFollowUpDue, toDateTimeInput } from '../lib/followUps';
+import { useAuth } from '../auth/useAuth';
+import { useI18n } from '../i18n/i18n';
+
+type FollowUpControlsProps = {
+  incident: MedicalIncident;
+  // Follow-up incidents of the same devotee that could be linked as the return visit
+  candidates: MedicalIncident[];
+  onRecordVisit: () => void;
+  onChanged: () => void;
+};
+
+// Follow-up state of one incident in the profile, with schedule / link / cancel actions
+export default function FollowUpControls({ incident, candidates, onRecordVisit, onChanged }: FollowUpControlsProps) {
+  const { t } = useI18n();
+  const { can } = useAuth();
+  const followUp = incident.follow_up;
+  const [scheduling, setScheduling] = useState(false);
+  const [dueAt, setDueAt] = useState(() => (followUp ? toDateTimeInput(new Date(followUp.due_at)) : defaultFollowUpDue()));
+  const [linkId, setLinkId] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setScheduling(false);
+      onChanged();
+    } catch (error) {
+      alert(t('followUp.failed', { message: (error as Error).message }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = () => {
+    const reason = window.prompt(t('followUp.cancelReason'));
+    if (reason === null) return;
+    run(() => cancelFollowUp(incident.id, reason));
+  };
+
+  if (!followUp && !incident.follow_up_required) return null;
+
+  const canUpdate = can('incidents:update');
+  const scheduled = followUp?.status === 'scheduled';
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-200 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <CalendarClock className="w-3 h-3 text-orange-600" />
+        {!followUp ? (
+          <span className="text-gray-600">{t('followUp.unscheduled')}</span>
+        ) : followUp.status === 'scheduled' ? (
+          <span className={`px-2 py-0.5 rounded font-semibold ${followUp.overdue ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}`}>
+            {t(followUp.overdue ? 'followUp.overdueSince' : 'followUp.dueOn', { date: new Date(followUp.due_at).toLocaleString() })}
+            {followUp.center && ` · ${followUp.center}`}
+          </span>
+        ) : followUp.status === 'completed' ? (
+          <span className="px-2 py-0.5 rounded font-semibold bg-green-100 text-green-800">
+            {t('followUp.completedOn', { date: new Date(followUp.completed_at || followUp.due_at).toLocaleString() })}
+          </span>
+        ) : (
+          <span className="px-2 py-0.5 rounded font-semibold bg-gray-100 text-gray-600">
+            {t('followUp.cancelled')}{followUp.cancel_reason && ` — ${followUp.cancel_reason}`}
+          </span>
+        )}
+
+        {scheduled && can('incidents:create') && (
+          <button onClick={onRecordVisit} className="inline-flex items-center gap-1 font-semibold text-green-700 hover:underline">
+            <Plus className="w-3 h-3" />
+            {t('followUp.recordVisit')}
+          </button>
+        )}
+        {canUpdate && (!followUp || scheduled) && (
+          <button onClick={() => setScheduling(!scheduling)} className="font-semibold text-blue-700 hover:underline">
+            {followUp ? t('followUp.reschedule') : t('followUp.schedule')}
+          </button>
+        )}
+        {canUpdate && scheduled && (
+          <button onClick={handleCancel} disabled={busy} className="inline-flex items-center gap-1 font-semibold text-gray-600 hover:underline">
+            <X className="w-3 h-3" />
+            {t('followUp.cancel')}
+          </button>
+        )}
+      </div>
+
+      {scheduling && (
+        <div className="flex items-center gap-2">
+          <input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+            aria-label={t('followUp.dueAt')}
+          />
+          <button
+            onClick={() => run(() => scheduleFollowUp(incident.id, { due_at: new Date(dueAt).toISOString() }))}
+            disabled={busy || !dueAt}
+            className="inline-flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded-md font-semibold disabled:bg-gray-400"
+          >
+            {busy && <Loader2 className="w-3 h-3 animate-spin" />}
+            {t('followUp.save')}
+          </button>
+        </div>
+      )}
+
+      {canUpdate && scheduled && candidates.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Link2 className="w-3 h-3 text-gray-500" />
+          <select value={linkId} onChange={(e) => setLinkId(e.target.value)} className="px-2 py-1 border border-gray-300 rounded-md" aria-label={t('followUp.linkExisting')}>
+            <option value="">{t('followUp.linkExisting')}</option>
+            {candidates.map((c) => (
+              <option key={c.id} value={c.id}>
+                {new Date(c.incident_date).toLocaleString()} · {c.medical_center}
+              </option>
+            ))}
+          </select>
+          {linkId && (
+            <button
+              onClick={() => run(() => completeFollowUp(incident.id, linkId))}
+              disabled={busy}
+              className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded-md font-semibold disabled:bg-gray-400"
+            >
+              {t('followUp.markCompleted')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CalendarClock, Loader2, Phone, RefreshCw, User } from 'lucide-react';
+import {
+  getDevotee,
+  getFollowUps,
+  getMedicalCenters,
+  DevoteeWithRecord,
+  FollowUpItem,
+  FollowUpList,
+  FollowUpWorklist,
+  MedicalCenter,
+} from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type FollowUpsDashboardProps = {
+  onSelectDevotee: (devotee: DevoteeWithRecord) => void;
+};
+
+const WORKLISTS: Exclude<FollowUpWorklist, 'overdue'>[] = ['today', 'upcoming'];
+
+export default function FollowUpsDashboard({ onSelectDevotee }: FollowUpsDashboardProps) {
+  const { t } = useI18n();
+  const [centers, setCenters] = useState<MedicalCenter[]>([]);
+  const [centerId, setCenterId] = useState('');
+  const [due, setDue] = useState<Exclude<FollowUpWorklist, 'overdue'>>('today');
+  const [worklist, setWorklist] = useState<FollowUpList | null>(null);
+  const [missed, setMissed] = useState<FollowUpList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMedicalCenters()
+      .then(setCenters)
+      .catch((err) => console.error('Failed to load medical centers:', err));
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [list, overdue] = await Promise.all([
+        getFollowUps(due, centerId || undefined),
+        getFollowUps('overdue', centerId || undefined),
+      ]);
+      setWorklist(list);
+      setMissed(overdue);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [due, centerId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openProfile = async (devoteeId: string) => {
+    try {
+      onSelectDevotee(await getDevotee(devoteeId));
+    } catch (err) {
+      console.error('Failed to fetch devotee details:', err);
+    }
+  };
+
+  const renderPatient = (item: FollowUpItem) => (
+    <div>
+      <button
+        onClick={() => item.devotee && openProfile(item.devotee.id)}
+        className="font-bold text-gray-900 hover:underline flex items-center gap-1"
+      >
+        <User className="w-4 h-4 text-gray-500" />
+        {item.devotee ? item.devotee.full_name : t('referral.unknownPatient')}
+      </button>
+      {item.devotee && (
+        <p className="text-xs text-gray-600">
+          {item.devotee.registration_number} · {item.devotee.age} · {item.devotee.gender}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={centerId}
+          onChange={(e) => setCenterId(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          aria-label={t('followUp.center')}
+        >
+          <option value="">{t('followUp.allCenters')}</option>
+          {centers.map((center) => (
+            <option key={center.id} value={center.id}>{center.name}</option>
+          ))}
+        </select>
+        <button onClick={load} className="ml-auto p-2 hover:bg-gray-100 rounded-full text-gray-600" aria-label={t('referral.refresh')}>
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <section className="bg-white border border-red-200 rounded-lg shadow-sm">
+        <h3 className="flex items-center gap-2 px-4 py-3 border-b border-red-100 font-bold text-red-800">
+          <AlertTriangle className="w-5 h-5" />
+          {t('followUp.missedTitle', { count: missed?.counts.overdue ?? 0 })}
+        </h3>
+        {loading && !missed ? (
+          <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-blue-600" /></div>
+        ) : !missed || missed.items.length === 0 ? (
+          <p className="text-center text-gray-500 py-8 text-sm">{t('followUp.noneMissed')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {missed.items.map((item) => (
+              <li key={item.incident_id} className="px-4 py-3 flex flex-wrap items-start justify-between gap-3">
+                {renderPatient(item)}
+                <div className="text-sm space-y-1">
+                  {item.devotee?.phone && (
+                    <a href={`tel:${item.devotee.phone}`} className="flex items-center gap-1 text-blue-700 hover:underline">
+                      <Phone className="w-3 h-3" />
+                      {item.devotee.phone}
+                    </a>
+                  )}
+                  {item.devotee?.emergency_contact_phone && (
+                    <a href={`tel:${item.devotee.emergency_contact_phone}`} className="flex items-center gap-1 text-gray-700 hover:underline">
+                      <Phone className="w-3 h-3" />
+                      {t('followUp.emergencyContact', {
+                        name: item.devotee.emergency_contact_name || '—',
+                        phone: item.devotee.emergency_contact_phone,
+                      })}
+                    </a>
+                  )}
+                </div>
+                <div className="text-xs text-right">
+                  <p className="font-semibold text-red-700">
+                    {t('followUp.overdueSince', { date: new Date(item.follow_up.due_at).toLocaleString() })}
+                  </p>
+                  <p className="text-gray-600">{item.follow_up.center || item.medical_center}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="bg-white border border-gray-200 rounded-lg shadow-sm">
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-100">
+          <CalendarClock className="w-5 h-5 text-orange-600" />
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+            {WORKLISTS.map((d) => (
+              <button
+                key={d}
+                onClick={() => setDue(d)}
+                className={`px-3 py-1.5 font-semibold ${due === d ? 'bg-slate-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {d === 'today'
+                  ? t('followUp.today', { count: worklist?.counts.today ?? 0 })
+                  : t('followUp.upcoming')}
+              </button>
+            ))}
+          </div>
+        </div>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-blue-600" /></div>
+        ) : !worklist || worklist.items.length === 0 ? (
+          <p className="text-center text-gray-500 py-8 text-sm">{t('followUp.empty')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {worklist.items.map((item) => (
+              <li key={item.incident_id} className="px-4 py-3 flex flex-wrap items-start justify-between gap-3">
+                {renderPatient(item)}
+                <div className="text-sm text-gray-700 flex-1 min-w-[12rem]">
+                  <p><span className="text-gray-500">{t('profile.symptoms')}</span> {item.symptoms}</p>
+                  {item.follow_up_notes && <p className="text-xs text-gray-600">{item.follow_up_notes}</p>}
+                </div>
+                <div className="text-xs text-right">
+                  <p className={`font-semibold ${item.follow_up.overdue ? 'text-red-700' : 'text-orange-700'}`}>
+                    {t(item.follow_up.overdue ? 'followUp.overdueSince' : 'followUp.dueOn', { date: new Date(item.follow_up.due_at).toLocaleString() })}
+                  </p>
+                  <p className="text-gray-600">{item.follow_up.center || item.medical_center}</p>
+                  {item.devotee?.phone && (
+                    <a href={`tel:${item.devotee.phone}`} className="inline-flex items-center gap-1 text-blue-700 hover:underline">
+                      <Phone className="w-3 h-3" />
+                      {item.devotee.phone}
+                    </a>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
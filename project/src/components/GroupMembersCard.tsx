@@ -0,0 +1,74 @@
+import { Crown, Phone, User, UsersRound } from 'lucide-react';
+import type { DevoteeGroup } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type GroupMembersCardProps = {
+  group: DevoteeGroup;
+  // the devotee being looked at, left out of the list
+  excludeId?: string;
+};
+
+// Who a devotee came with and how to reach the group leader; no medical data, so lost & found desks can see it
+export default function GroupMembersCard({ group, excludeId }: GroupMembersCardProps) {
+  const { t } = useI18n();
+  const members = group.members.filter((member) => member.id !== excludeId);
+  const leaderPhone = group.leader?.phone || group.contact_phone;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-blue-900 flex items-center gap-2">
+          <UsersRound className="w-5 h-5" />
+          {t('group.travellingWith', { name: group.name })}
+        </h3>
+        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+          {t(`group.type.${group.type}`)} · {group.group_number}
+        </span>
+      </div>
+
+      <a
+        href={`tel:${leaderPhone}`}
+        className="flex items-center gap-2 mb-3 p-2 rounded-lg bg-white border border-blue-200 text-sm text-blue-900 hover:bg-blue-100"
+      >
+        <Phone className="w-4 h-4" />
+        <span className="font-medium">
+          {group.leader ? t('group.leaderPhone', { name: group.leader.full_name }) : t('group.contactPhone')}
+        </span>
+        <span className="ml-auto font-mono font-semibold">{leaderPhone}</span>
+      </a>
+      {group.tour_operator && (
+        <p className="text-sm text-blue-900 mb-3">
+          {t('group.operator', { name: group.tour_operator.name, phone: group.tour_operator.phone || '-' })}
+        </p>
+      )}
+
+      {members.length === 0 ? (
+        <p className="text-sm text-blue-800">{t('group.noOtherMembers')}</p>
+      ) : (
+        <ul className="divide-y divide-blue-100">
+          {members.map((member) => (
+            <li key={member.id} className="flex items-center gap-3 py-2 text-sm">
+              {member.photo_url ? (
+                <img src={member.photo_thumb_url || member.photo_url} alt={member.full_name} className="w-8 h-8 rounded-full object-cover" />
+              ) : (
+                <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center">
+                  <User className="w-4 h-4 text-blue-400" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 flex items-center gap-1">
+                  {member.is_leader && <Crown className="w-3.5 h-3.5 text-amber-500" aria-label={t('group.leader')} />}
+                  {member.full_name}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {t(`group.relationship.${member.relationship}`)} · {t('profile.ageYears', { years: member.age })} · {member.registration_number}
+                </p>
+              </div>
+              <a href={`tel:${member.phone}`} className="font-mono text-blue-800 hover:underline">{member.phone}</a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
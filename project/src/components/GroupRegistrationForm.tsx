@@ -0,0 +1,459 @@
+import { useState } from 'react';
+import { AlertCircle, Camera, CheckCircle, Crown, Home, Plus, Save, Trash2, User, UsersRound } from 'lucide-react';
+import {
+    registerGroup,
+    CreateGroupMemberPayload,
+    CreateGroupPayload,
+    DevoteeGroup,
+    GroupAddress,
+    GroupRelationship,
+    GroupType,
+    MedicalRecord,
+} from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+import SelfieCapture from './SelfieCapture';
+import ContactFields, { ContactDetails } from './ContactFields';
+import { CONDITION_QUICK_PICKS, togglePick } from '../lib/terminology';
+
+const GROUP_TYPES: GroupType[] = ['family', 'village', 'tour'];
+const RELATIONSHIPS: GroupRelationship[] = ['self', 'spouse', 'parent', 'child', 'sibling', 'grandparent', 'grandchild',
+    'relative', 'neighbour', 'friend', 'other'];
+const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+const ADDRESS_FIELDS: (keyof GroupAddress)[] = ['line', 'village', 'district', 'state', 'pincode'];
+
+const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500';
+
+// key only identifies the card while editing
+type MemberDraft = CreateGroupMemberPayload & { key: number };
+
+let nextKey = 0;
+const emptyMember = (isLeader = false): MemberDraft => ({
+    key: nextKey++,
+    full_name: '',
+    age: 0,
+    gender: 'Male',
+    phone: '',
+    relationship: isLeader ? 'self' : 'spouse',
+    is_leader: isLeader,
+    blood_group: null,
+    allergies: [],
+    chronic_conditions: [],
+    photo_url: null,
+    face_descriptor: null,
+});
+
+// Registers a family, village group or tour batch in one go: contact and address are
+// entered once for everyone, then each member gets a short card of their own
+export default function GroupRegistrationForm() {
+    const { t } = useI18n();
+    const [details, setDetails] = useState({ name: '', type: 'family' as GroupType, notes: '', operatorName: '', operatorPhone: '' });
+    const [contact, setContact] = useState<ContactDetails>({ phone: '', emergency_contact_name: '', emergency_contact_phone: '' });
+    const [address, setAddress] = useState<GroupAddress>({});
+    const [members, setMembers] = useState<MemberDraft[]>(() => [emptyMember(true), emptyMember()]);
+    const [capturingKey, setCapturingKey] = useState<number | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [registered, setRegistered] = useState<DevoteeGroup | null>(null);
+
+    const updateMember = (key: number, changes: Partial<MemberDraft>) =>
+        setMembers(prev => prev.map(m => (m.key === key ? { ...m, ...changes } : m)));
+
+    const makeLeader = (key: number) =>
+        setMembers(prev => prev.map(m => ({ ...m, is_leader: m.key === key, relationship: m.key === key ? 'self' : m.relationship })));
+
+    const removeMember = (key: number) =>
+        setMembers(prev => {
+            const rest = prev.filter(m => m.key !== key);
+            // Someone always leads the group
+            if (rest.length && !rest.some(m => m.is_leader)) rest[0] = { ...rest[0], is_leader: true, relationship: 'self' };
+            return rest;
+        });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        if (members.some(m => !m.full_name || !m.age)) {
+            setError(t('group.memberIncomplete'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const payload: CreateGroupPayload = {
+                name: details.name,
+                type: details.type,
+                contact_phone: contact.phone,
+                emergency_contact_name: contact.emergency_contact_name,
+                emergency_contact_phone: contact.emergency_contact_phone,
+                address,
+                tour_operator: details.type === 'tour' ? { name: details.operatorName, phone: details.operatorPhone } : undefined,
+                notes: details.notes,
+                members: members.map(member => ({
+                    full_name: member.full_name,
+                    age: member.age,
+                    gender: member.gender,
+                    phone: member.phone || undefined,
+                    relationship: member.relationship,
+                    is_leader: member.is_leader,
+                    blood_group: member.blood_group,
+                    allergies: member.allergies,
+                    chronic_conditions: member.chronic_conditions,
+                    photo_url: member.photo_url,
+                    face_descriptor: member.face_descriptor,
+                })),
+            };
+            setRegistered(await registerGroup(payload));
+        } catch (err) {
+            console.error('Group registration failed:', err);
+            setError(t('group.failed', { message: (err as Error).message }));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const startOver = () => {
+        setDetails({ name: '', type: 'family', notes: '', operatorName: '', operatorPhone: '' });
+        setContact({ phone: '', emergency_contact_name: '', emergency_contact_phone: '' });
+        setAddress({});
+        setMembers([emptyMember(true), emptyMember()]);
+        setRegistered(null);
+    };
+
+    if (registered) {
+        return (
+            <div className="bg-white rounded-3xl shadow-2xl p-8 space-y-6 border border-green-200">
+                <div className="flex items-center gap-3">
+                    <CheckCircle className="w-8 h-8 text-green-600" />
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-900">{t('group.registered', { name: registered.name })}</h2>
+                        <p className="text-sm text-gray-600">{t('group.number', { number: registered.group_number })}</p>
+                    </div>
+                </div>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+                    {registered.members.map(member => (
+                        <li key={member.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                            <span className="font-medium text-gray-900 flex items-center gap-2">
+                                {member.is_leader && <Crown className="w-4 h-4 text-amber-500" aria-label={t('group.leader')} />}
+                                {member.full_name}
+                                <span className="text-sm text-gray-500">({t(`group.relationship.${member.relationship}`)})</span>
+                            </span>
+                            <span className="font-mono text-orange-700">{member.registration_number}</span>
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex justify-end">
+                    <button
+                        type="button"
+                        onClick={startOver}
+                        className="px-6 py-2 bg-orange-600 text-white rounded-xl font-semibold hover:bg-orange-700"
+                    >
+                        {t('group.registerAnother')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const capturing = members.find(m => m.key === capturingKey);
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-gradient-to-br from-amber-50/95 via-orange-50/90 to-kumbh-sand/95 backdrop-blur shadow-2xl rounded-3xl p-8 space-y-8 border border-orange-200/50">
+            {error && (
+                <div className="bg-red-50 text-red-700 p-4 rounded-lg flex items-center gap-3">
+                    <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {capturing && (
+                <SelfieCapture
+                    onCapture={(image, descriptor, demographics) => updateMember(capturing.key, {
+                        photo_url: image,
+                        face_descriptor: descriptor,
+                        age: capturing.age || demographics?.age || 0,
+                    })}
+                    onClose={() => setCapturingKey(null)}
+                />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                {/* Group details and shared contact */}
+                <div className="space-y-6">
+                    <div className="flex items-center gap-3 pb-4 border-b-2 border-blue-300">
+                        <div className="p-3 bg-gradient-to-br from-blue-100 to-blue-200 rounded-xl shadow-sm">
+                            <UsersRound className="w-7 h-7 text-blue-600" />
+                        </div>
+                        <h2 className="text-2xl font-bold text-gray-800">{t('group.details')}</h2>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-base font-semibold text-gray-800 mb-2">{t('group.name')} <span className="text-red-500 font-bold">*</span></label>
+                            <input
+                                type="text"
+                                required
+                                value={details.name}
+                                onChange={e => setDetails({ ...details, name: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-base font-semibold text-gray-800 mb-2">{t('group.type')}</label>
+                            <select
+                                value={details.type}
+                                onChange={e => setDetails({ ...details, type: e.target.value as GroupType })}
+                                className={inputClass}
+                            >
+                                {GROUP_TYPES.map(type => (
+                                    <option key={type} value={type}>{t(`group.type.${type}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {details.type === 'tour' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('group.operatorName')}</label>
+                                <input
+                                    type="text"
+                                    value={details.operatorName}
+                                    onChange={e => setDetails({ ...details, operatorName: e.target.value })}
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('group.operatorPhone')}</label>
+                                <input
+                                    type="tel"
+                                    value={details.operatorPhone}
+                                    onChange={e => setDetails({ ...details, operatorPhone: e.target.value })}
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    <ContactFields
+                        value={contact}
+                        onChange={(field, value) => setContact(prev => ({ ...prev, [field]: value }))}
+                        phoneLabel={t('group.contactPhone')}
+                    />
+                </div>
+
+                {/* Shared address */}
+                <div className="space-y-6">
+                    <div className="flex items-center gap-3 pb-4 border-b-2 border-orange-300">
+                        <div className="p-3 bg-gradient-to-br from-orange-100 to-orange-200 rounded-xl shadow-sm">
+                            <Home className="w-7 h-7 text-orange-600" />
+                        </div>
+                        <h2 className="text-2xl font-bold text-gray-800">{t('group.address')}</h2>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        {ADDRESS_FIELDS.map(field => (
+                            <div key={field} className={field === 'line' ? 'col-span-2' : undefined}>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t(`group.address.${field}`)}</label>
+                                <input
+                                    type="text"
+                                    inputMode={field === 'pincode' ? 'numeric' : undefined}
+                                    value={address[field] || ''}
+                                    onChange={e => setAddress(prev => ({ ...prev, [field]: e.target.value }))}
+                                    className={inputClass}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('group.notes')}</label>
+                        <textarea
+                            rows={2}
+                            value={details.notes}
+                            onChange={e => setDetails({ ...details, notes: e.target.value })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            {/* Members */}
+            <div className="space-y-4">
+                <div className="flex items-center justify-between pb-4 border-b-2 border-blue-300">
+                    <h2 className="text-2xl font-bold text-gray-800">{t('group.members', { count: members.length })}</h2>
+                    <button
+                        type="button"
+                        onClick={() => setMembers(prev => [...prev, emptyMember()])}
+                        className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700"
+                    >
+                        <Plus className="w-4 h-4" />
+                        {t('group.addMember')}
+                    </button>
+                </div>
+                <p className="text-sm text-gray-600">{t('group.membersHint')}</p>
+
+                {members.map((member, index) => (
+                    <div key={member.key} className="bg-white/80 border border-orange-200 rounded-xl p-4 flex flex-col md:flex-row gap-4">
+                        <div className="flex flex-col items-center gap-2 md:w-28">
+                            {member.photo_url ? (
+                                <img src={member.photo_url} alt={member.full_name} className="w-20 h-20 rounded-full object-cover border-2 border-white shadow" />
+                            ) : (
+                                <div className="w-20 h-20 bg-orange-100 rounded-full flex items-center justify-center text-orange-400">
+                                    <User className="w-10 h-10" />
+                                </div>
+                            )}
+                            <button
+                                type="button"
+                                onClick={() => setCapturingKey(member.key)}
+                                className="inline-flex items-center gap-1 text-xs font-semibold text-blue-700 hover:underline"
+                            >
+                                <Camera className="w-3.5 h-3.5" />
+                                {member.photo_url ? t('selfie.retake') : t('group.takePhoto')}
+                            </button>
+                        </div>
+
+                        <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('reg.fullName')}</label>
+                                <input
+                                    type="text"
+                                    required
+                                    value={member.full_name}
+                                    onChange={e => updateMember(member.key, { full_name: e.target.value })}
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('reg.age')}</label>
+                                <input
+                                    type="number"
+                                    required
+                                    min="1"
+                                    max="120"
+                                    value={member.age || ''}
+                                    onChange={e => updateMember(member.key, { age: parseInt(e.target.value) || 0 })}
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('reg.gender')}</label>
+                                <select
+                                    value={member.gender}
+                                    onChange={e => updateMember(member.key, { gender: e.target.value as MemberDraft['gender'] })}
+                                    className={inputClass}
+                                >
+                                    <option value="Male">{t('reg.gender.male')}</option>
+                                    <option value="Female">{t('reg.gender.female')}</option>
+                                    <option value="Other">{t('reg.gender.other')}</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('group.relationship')}</label>
+                                <select
+                                    value={member.relationship}
+                                    disabled={member.is_leader}
+                                    onChange={e => updateMember(member.key, { relationship: e.target.value as GroupRelationship })}
+                                    className={inputClass}
+                                >
+                                    {RELATIONSHIPS.map(relationship => (
+                                        <option key={relationship} value={relationship}>{t(`group.relationship.${relationship}`)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('group.memberPhone')}</label>
+                                <input
+                                    type="tel"
+                                    value={member.phone || ''}
+                                    placeholder={contact.phone}
+                                    onChange={e => updateMember(member.key, { phone: e.target.value })}
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{t('reg.bloodGroup')}</label>
+                                <select
+                                    value={member.blood_group || ''}
+                                    onChange={e => updateMember(member.key, { blood_group: (e.target.value || null) as MedicalRecord['blood_group'] })}
+                                    className={inputClass}
+                                >
+                                    <option value="">—</option>
+                                    {BLOOD_GROUPS.map(bg => <option key={bg} value={bg}>{bg}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex items-end gap-2">
+                                <label className="inline-flex items-center gap-2 text-sm font-medium text-gray-700 pb-2">
+                                    <input
+                                        type="radio"
+                                        name="group_leader"
+                                        checked={member.is_leader}
+                                        onChange={() => makeLeader(member.key)}
+                                        className="text-orange-600 focus:ring-orange-500"
+                                    />
+                                    {t('group.leader')}
+                                </label>
+                            </div>
+
+                            <div className="col-span-2 md:col-span-4 flex flex-wrap gap-2">
+                                {CONDITION_QUICK_PICKS.map(({ key, code }) => {
+                                    const conditionLabel = t(`condition.${key}`);
+                                    const isSelected = member.chronic_conditions.some(c => c.code === code);
+                                    return (
+                                        <label
+                                            key={key}
+                                            className={`inline-flex items-center gap-1 px-2 py-1 rounded-full border text-xs cursor-pointer ${isSelected
+                                                ? 'border-orange-500 bg-orange-50 text-orange-700 font-medium'
+                                                : 'border-gray-200 text-gray-600 hover:border-orange-200'
+                                                }`}
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={isSelected}
+                                                onChange={() => updateMember(member.key, {
+                                                    chronic_conditions: togglePick(member.chronic_conditions, code, conditionLabel),
+                                                })}
+                                                className="sr-only"
+                                            />
+                                            {conditionLabel}
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        {members.length > 1 && (
+                            <button
+                                type="button"
+                                onClick={() => removeMember(member.key)}
+                                className="self-start p-2 text-red-600 hover:bg-red-50 rounded-full"
+                                aria-label={t('group.removeMember', { number: index + 1 })}
+                                title={t('group.removeMember', { number: index + 1 })}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="pt-6 border-t border-gray-100 flex justify-end">
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-8 py-3 bg-gradient-to-r from-orange-600 to-red-600 text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-xl hover:from-orange-700 hover:to-red-700 transition-all transform hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                    {isSubmitting ? (
+                        <>
+                            <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                            {t('reg.submitting')}
+                        </>
+                    ) : (
+                        <>
+                            <Save className="w-5 h-5" />
+                            {t('group.submit', { count: members.length })}
+                        </>
+                    )}
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Loader2, Printer, User, X } from 'lucide-react';
+import { getHealthCard, HealthCard as HealthCardData } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type HealthCardProps = {
+  devoteeId: string;
+  onClose: () => void;
+};
+
+// Printable health card with a signed QR code; the browser's print dialog
+// doubles as "download" via Save as PDF.
+export default function HealthCard({ devoteeId, onClose }: HealthCardProps) {
+  const { t } = useI18n();
+  const [card, setCard] = useState<HealthCardData | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const data = await getHealthCard(devoteeId);
+        // Medium error correction survives creases and smudges on a paper card
+        const qr = await QRCode.toDataURL(data.qr_payload, { errorCorrectionLevel: 'M', margin: 1, width: 240 });
+        if (!cancelled) {
+          setCard(data);
+          setQrDataUrl(qr);
+        }
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [devoteeId]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-xl">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 no-print">
+          <h2 className="text-lg font-bold text-gray-900">{t('card.title')}</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4">
+          {error ? (
+            <p className="text-red-700 text-sm">{t('card.loadFailed', { message: error })}</p>
+          ) : !card || !qrDataUrl ? (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="print-area border-2 border-orange-500 rounded-xl overflow-hidden">
+              <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white px-4 py-2 flex items-center justify-between">
+                <span className="font-bold">{t('card.heading')}</span>
+                <span className="font-mono text-sm">{card.registration_number}</span>
+              </div>
+              <div className="p-4 flex gap-4">
+                <div className="w-24 flex-shrink-0">
+                  {card.photo_url ? (
+                    <img src={card.photo_url} alt={card.full_name} className="w-24 h-28 object-cover rounded-md border" />
+                  ) : (
+                    <div className="w-24 h-28 rounded-md border bg-gray-100 flex items-center justify-center text-gray-400">
+                      <User className="w-10 h-10" />
+                    </div>
+                  )}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1 text-sm">
+                  <p className="text-lg font-bold text-gray-900 leading-tight">{card.full_name}</p>
+                  <p className="text-gray-600">{card.age} · {card.gender}</p>
+                  <p>
+                    <span className="text-gray-500">{t('card.bloodGroup')}: </span>
+                    <span className="font-bold text-red-700 text-base">{card.blood_group || '—'}</span>
+                  </p>
+                  <p>
+                    <span className="text-gray-500">{t('card.allergies')}: </span>
+                    <span className="font-semibold">{card.allergies || t('card.none')}</span>
+                  </p>
+                  <p>
+                    <span className="text-gray-500">{t('card.emergency')}: </span>
+                    <span className="font-semibold">{card.emergency_contact_name} · {card.emergency_contact_phone}</span>
+                  </p>
+                </div>
+                <div className="flex-shrink-0 text-center">
+                  <img src={qrDataUrl} alt={t('card.qrAlt')} className="w-28 h-28" />
+                  <p className="text-[10px] text-gray-500 mt-1">
+                    {t('card.issued', { date: new Date(card.issued_at).toLocaleDateString() })}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200 no-print">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg">
+            {t('common.close')}
+          </button>
+          <button
+            onClick={() => window.print()}
+            disabled={!card || !qrDataUrl}
+            className="inline-flex items-center gap-2 bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-400"
+          >
+            <Printer className="w-4 h-4" />
+            {t('card.print')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useRef, useState } from 'react';
+import { DownloadCloud, FileJson, Fingerprint, Loader2 } from 'lucide-react';
+import { prefillFromAbdm, prefillFromFhir, AbdmConsentGiver, RegistrationPrefill } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type HealthRecordPrefillProps = {
+    abhaNumber: string;
+    onAbhaNumberChange: (value: string) => void;
+    onPrefill: (prefill: RegistrationPrefill) => void;
+    // Editing a registration only changes the number; records are pulled in at the desk
+    allowImport?: boolean;
+};
+
+const ABHA_DIGITS = /^\d{14}$/;
+
+// ABHA number, and the two ways of pre-filling the form: the ABDM gateway or a FHIR file the pilgrim carries
+export default function HealthRecordPrefill({ abhaNumber, onAbhaNumberChange, onPrefill, allowImport = true }: HealthRecordPrefillProps) {
+    const { t } = useI18n();
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [loading, setLoading] = useState<'abdm' | 'file' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<{ source: 'abdm' | 'file'; warnings: string[]; clinical: boolean } | null>(null);
+    const [consent, setConsent] = useState<AbdmConsentGiver | ''>('');
+
+    const abhaComplete = ABHA_DIGITS.test(abhaNumber.replace(/[\s-]/g, ''));
+
+    const run = async (source: 'abdm' | 'file', load: () => Promise<RegistrationPrefill>) => {
+        setLoading(source);
+        setError(null);
+        setResult(null);
+        try {
+            const prefill = await load();
+            onPrefill(prefill);
+            setResult({ source, warnings: prefill.warnings, clinical: prefill.clinical_included });
+        } catch (err) {
+            setError(t('prefill.failed', { message: (err as Error).message }));
+        } finally {
+            setLoading(null);
+        }
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        run('file', async () => {
+            let bundle: unknown;
+            try {
+                bundle = JSON.parse(await file.text());
+            } catch {
+                throw new Error(t('prefill.notJson'));
+            }
+            return prefillFromFhir(bundle);
+        });
+    };
+
+    return (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50/70 p-4 space-y-3">
+            <div className="flex flex-col md:flex-row md:items-end gap-3">
+                <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                        <Fingerprint className="w-4 h-4 text-emerald-600" />
+                        <label htmlFor="abha_number" className="text-base font-semibold text-gray-800">{t('prefill.abhaNumber')}</label>
+                    </div>
+                    <input
+                        id="abha_number"
+                        type="text"
+                        inputMode="numeric"
+                        value={abhaNumber}
+                        onChange={e => onAbhaNumberChange(e.target.value)}
+                        placeholder="91-1234-5678-9012"
+                        pattern="\d{2}-?\d{4}-?\d{4}-?\d{4}"
+                        title={t('prefill.abhaFormat')}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
+                    />
+                </div>
+                {allowImport && (
+                    <div className="flex flex-wrap gap-2">
+                        <select
+                            aria-label={t('prefill.consent')}
+                            value={consent}
+                            onChange={e => setConsent(e.target.value as AbdmConsentGiver | '')}
+                            className="rounded-md border-gray-300 shadow-sm text-sm focus:border-orange-500 focus:ring-orange-500"
+                        >
+                            <option value="">{t('prefill.consent')}</option>
+                            <option value="pilgrim">{t('prefill.consentPilgrim')}</option>
+                            <option value="guardian">{t('prefill.consentGuardian')}</option>
+                        </select>
+                        <button
+                            type="button"
+                            onClick={() => consent && run('abdm', () => prefillFromAbdm(abhaNumber, consent))}
+                            disabled={!abhaComplete || !consent || loading !== null}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 text-white font-semibold hover:bg-emerald-700 disabled:bg-gray-400"
+                        >
+                            {loading === 'abdm' ? <Loader2 className="w-4 h-4 animate-spin" /> : <DownloadCloud className="w-4 h-4" />}
+                            {t('prefill.fetchAbdm')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => fileInput.current?.click()}
+                            disabled={loading !== null}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-emerald-600 text-emerald-700 font-semibold hover:bg-emerald-100 disabled:opacity-50"
+                        >
+                            {loading === 'file' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileJson className="w-4 h-4" />}
+                            {t('prefill.uploadFhir')}
+                        </button>
+                        <input ref={fileInput} type="file" accept=".json,application/json,application/fhir+json" onChange={handleFile} className="hidden" />
+                    </div>
+                )}
+            </div>
+
+            {allowImport && !result && !error && (
+                <p className="text-xs text-gray-600">{t('prefill.hint')}</p>
+            )}
+            {error && <p className="text-sm text-red-700">{error}</p>}
+            {result && (
+                <div className="text-sm text-emerald-800 space-y-1">
+                    <p className="font-semibold">{t(result.source === 'abdm' ? 'prefill.doneAbdm' : 'prefill.doneFile')}</p>
+                    {!result.clinical && <p className="text-gray-700">{t('prefill.clinicalWithheld')}</p>}
+                    {result.warnings.length > 0 && (
+                        <ul className="list-disc list-inside text-amber-800">
+                            {result.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts';
+import { Droplets, Loader2, Stethoscope, Snowflake } from 'lucide-react';
+import { getWeatherForecast, HeatWindow, WeatherForecast } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+// WBGT at which heat stress becomes 'high' (see server/utils/heatStress.js)
+const WBGT_HIGH = 30;
+
+const LEVEL_STYLES: Record<HeatWindow['level'], string> = {
+  high: 'bg-orange-100 text-orange-800 border-orange-300',
+  extreme: 'bg-red-100 text-red-800 border-red-300',
+};
+
+const formatHour = (time: number | string) =>
+  new Date(time).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// 48-hour heat stress outlook for a sector, with the extra resources each heat window calls for
+export default function HeatPlanPanel({ sector }: { sector: string }) {
+  const { t } = useI18n();
+  const [forecast, setForecast] = useState<WeatherForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    getWeatherForecast(sector || undefined)
+      .then((data) => {
+        setForecast(data);
+        setError(null);
+      })
+      .catch((err) => setError((err as Error).message))
+      .finally(() => setLoading(false));
+  }, [sector]);
+
+  const points = useMemo(
+    () => (forecast?.hours || []).map((h) => ({ time: new Date(h.time).getTime(), temp: h.temp, heatIndex: h.heatIndex, wbgt: h.wbgt })),
+    [forecast]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !forecast) {
+    return <p className="text-sm text-red-700 py-4">{t('heatPlan.failed', { message: error || '' })}</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-4 text-gray-800">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-semibold">{t('heatPlan.title', { location: forecast.location })}</h4>
+        {forecast.snan_dates.map((snan) => (
+          <span key={snan.date} className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 text-xs font-semibold">
+            {t('heatPlan.snanDay', { name: snan.name, date: snan.date })}
+          </span>
+        ))}
+      </div>
+      {forecast.simulated && (
+        <p className="px-3 py-2 rounded-lg bg-amber-100 text-amber-900 text-sm font-semibold">{t('heatPlan.simulated')}</p>
+      )}
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatHour} tick={{ fontSize: 11 }} />
+            <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} unit="°" />
+            <Tooltip labelFormatter={(time) => formatHour(Number(time))} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {forecast.windows.map((w) => (
+              <ReferenceArea
+                key={w.start}
+                x1={new Date(w.start).getTime()}
+                x2={new Date(w.end).getTime()}
+                fill={w.level === 'extreme' ? '#fecaca' : '#fed7aa'}
+                fillOpacity={0.5}
+              />
+            ))}
+            <ReferenceLine y={WBGT_HIGH} stroke="#ea580c" strokeDasharray="4 4" />
+            <Line type="monotone" dataKey="temp" name={t('heatPlan.temp')} stroke="#2563eb" dot={false} />
+            <Line type="monotone" dataKey="heatIndex" name={t('heatPlan.heatIndex')} stroke="#dc2626" dot={false} />
+            <Line type="monotone" dataKey="wbgt" name={t('heatPlan.wbgt')} stroke="#ea580c" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {forecast.windows.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('heatPlan.noWindows')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {forecast.windows.map((w) => (
+            <li key={w.start} className={`border rounded-lg p-3 ${LEVEL_STYLES[w.level]}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-semibold">
+                  {formatHour(w.start)} – {formatHour(w.end)}
+                </span>
+                <span className="text-xs font-bold uppercase">{t(`heatPlan.level.${w.level}`)}</span>
+              </div>
+              <p className="text-sm mt-1">
+                {t('heatPlan.peak', { time: formatHour(w.peak_at), wbgt: w.peak_wbgt, heatIndex: w.peak_heat_index })}
+                {w.snan && <> · {t('heatPlan.snanWindow', { name: w.snan.name })}</>}
+              </p>
+              <div className="flex flex-wrap gap-4 mt-2 text-sm font-medium">
+                <span className="inline-flex items-center gap-1">
+                  <Droplets className="w-4 h-4" /> {t('heatPlan.waterPoints', { count: w.plan.water_points })}
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <Stethoscope className="w-4 h-4" /> {t('heatPlan.medicalStaff', { count: w.plan.medical_staff })}
+                </span>
+                {w.plan.cooling_stations > 0 && (
+                  <span className="inline-flex items-center gap-1">
+                    <Snowflake className="w-4 h-4" /> {t('heatPlan.coolingStations', { count: w.plan.cooling_stations })}
+                  </span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
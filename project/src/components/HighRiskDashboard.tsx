@@ -1,131 +1,85 @@
-import { useEffect, useState } from 'react';
-import { AlertTriangle, Users, Phone, Activity, Loader2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Users, Phone, Activity, Loader2, Search, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useI18n } from '../i18n/i18n';
+import { getDevotee, getHighRiskPatients, getHighRiskStats, DevoteeWithRecord, RiskLevel, RiskPage, RiskPatient, RiskStats } from '../lib/api';
+import { useLiveEvents } from '../lib/liveEvents';
 
-interface RiskPatient {
-    devotee: {
-        _id: string; // MongoDB ID for fetching full profile
-        devotee_id: string;
-        name: string;
-        age: number;
-        gender: string;
-        phone: string;
-        photo?: string;
-    };
-    medicalRecord: {
-        chronic_conditions: string;
-        blood_group?: string;
-        allergies?: string;
-    };
-    riskScore: number;
-    riskLevel: string;
-    riskColor: string;
-    breakdown: {
-        age: number;
-        medical: number;
-        environmental: number;
-        crowd: number;
-    };
-    recommendations: string[];
+interface HighRiskDashboardProps {
+    onSelectDevotee?: (devotee: DevoteeWithRecord) => void;
 }
 
-interface RiskStats {
-    critical: number;
-    high: number;
-    moderate: number;
-    low: number;
-}
+type RiskFilter = 'all' | 'critical' | 'high';
 
-interface HighRiskDashboardProps {
-    onSelectDevotee?: (devotee: any) => void;
-}
+const FILTER_LEVELS: Record<RiskFilter, RiskLevel[] | undefined> = {
+    all: undefined,
+    critical: ['Critical'],
+    high: ['Critical', 'High'],
+};
+
+const PAGE_SIZE = 25;
+const SEARCH_DELAY = 300;
 
 export default function HighRiskDashboard({ onSelectDevotee }: HighRiskDashboardProps) {
     const { t } = useI18n();
-    const [patients, setPatients] = useState<RiskPatient[]>([]);
+    const [result, setResult] = useState<RiskPage | null>(null);
     const [stats, setStats] = useState<RiskStats | null>(null);
     const [loading, setLoading] = useState(true);
-    const [filter, setFilter] = useState<'all' | 'critical' | 'high'>('all');
-    const [weatherData, setWeatherData] = useState<any>(null);
+    const [filter, setFilter] = useState<RiskFilter>('all');
+    const [page, setPage] = useState(1);
+    const [search, setSearch] = useState('');
+    const [query, setQuery] = useState('');
+
+    const patients = result?.patients || [];
+    const weather = stats?.context;
 
     useEffect(() => {
-        fetchData();
-        // Refresh every 60 seconds
-        const interval = setInterval(fetchData, 60000);
-        return () => clearInterval(interval);
-    }, [filter]);
+        const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DELAY);
+        return () => clearTimeout(timer);
+    }, [search]);
+
+    // A new filter or search starts from the first page
+    useEffect(() => {
+        setPage(1);
+    }, [filter, query]);
 
-    const fetchData = async () => {
+    const fetchData = useCallback(async () => {
         try {
             setLoading(true);
-
-            // Fetch risk stats
-            const statsRes = await fetch('/api/high-risk/stats');
-            const statsData = await statsRes.json();
+            const [statsData, patientsData] = await Promise.all([
+                getHighRiskStats(),
+                getHighRiskPatients({ levels: FILTER_LEVELS[filter], q: query || undefined, page, limit: PAGE_SIZE }),
+            ]);
             setStats(statsData);
-
-            // Fetch patients based on filter
-            let endpoint = '/api/high-risk/list?limit=100';
-            if (filter === 'critical') {
-                endpoint = '/api/high-risk/critical';
-            } else if (filter === 'high') {
-                endpoint = '/api/high-risk/list?minScore=50';
-            }
-
-            const patientsRes = await fetch(endpoint);
-            const patientsData = await patientsRes.json();
-
-            setPatients(patientsData.patients || []);
-            if (patientsData.weatherData) {
-                setWeatherData(patientsData.weatherData);
-            }
-
+            setResult(patientsData);
         } catch (error) {
             console.error('Failed to fetch high-risk data:', error);
         } finally {
             setLoading(false);
         }
-    };
+    }, [filter, query, page]);
+
+    useEffect(() => {
+        fetchData();
+        // Refresh every 60 seconds
+        const interval = setInterval(fetchData, 60000);
+        return () => clearInterval(interval);
+    }, [fetchData]);
+
+    // Devotees newly scored Critical appear without waiting for the next poll
+    useLiveEvents(['risk.critical'], fetchData, fetchData);
 
     const handleViewProfile = async (devoteeId: string) => {
         if (!onSelectDevotee) return;
 
         try {
             // Fetch full devotee details with medical records
-            const response = await fetch(`/api/devotees/${devoteeId}`);
-            if (!response.ok) throw new Error('Failed to fetch devotee details');
-
-            const devoteeData = await response.json();
+            const devoteeData = await getDevotee(devoteeId);
             onSelectDevotee(devoteeData);
         } catch (error) {
             console.error('Failed to fetch devotee details:', error);
         }
     };
 
-    const getRiskBadge = (riskLevel: string, score: number) => {
-        const colors = {
-            'Critical': 'bg-red-100 text-red-800 border-red-300',
-            'High': 'bg-orange-100 text-orange-800 border-orange-300',
-            'Moderate': 'bg-yellow-100 text-yellow-800 border-yellow-300',
-            'Low': 'bg-green-100 text-green-800 border-green-300'
-        };
-
-        const icons = {
-            'Critical': '🔴',
-            'High': '🟠',
-            'Moderate': '🟡',
-            'Low': '🟢'
-        };
-
-        return (
-            <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border ${colors[riskLevel as keyof typeof colors]}`}>
-                <span>{icons[riskLevel as keyof typeof icons]}</span>
-                <span className="font-bold">{score}</span>
-                <span className="text-xs font-semibold uppercase">{riskLevel}</span>
-            </div>
-        );
-    };
-
     if (loading && patients.length === 0) {
         return (
             <div className="flex items-center justify-center h-64">
@@ -144,6 +98,12 @@ export default function HighRiskDashboard({ onSelectDevotee }: HighRiskDashboard
                         {t('highRisk.title') || 'High-Risk Patients Monitor'}
                     </h2>
                     <p className="text-gray-600">{t('highRisk.desc') || 'AI-powered risk assessment for proactive medical intervention'}</p>
+                    {weather?.model_version != null && (
+                        <p className="text-xs text-gray-500 mt-1">{t('highRisk.modelVersion', { version: weather.model_version })}</p>
+                    )}
+                    {weather?.simulated && (
+                        <p className="text-xs font-semibold text-amber-700 mt-1">{t('highRisk.simulatedWeather')}</p>
+                    )}
                 </div>
                 <div className="flex items-center gap-2 bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-xs font-semibold">
                     <span className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></span>
@@ -152,12 +112,12 @@ export default function HighRiskDashboard({ onSelectDevotee }: HighRiskDashboard
             </div>
 
             {/* Weather Alert */}
-            {weatherData && weatherData.temp > 35 && (
+            {weather && weather.temp > 35 && (
                 <div className="bg-orange-50 border-l-4 border-orange-500 p-4 rounded-r-lg">
                     <div className="flex items-center gap-2">
                         <AlertTriangle className="w-5 h-5 text-orange-600" />
                         <p className="text-orange-800 font-semibold">
-                            ⚠️ High Temperature Alert: {weatherData.temp.toFixed(1)}°C - Increased heat stroke risk
+                            ⚠️ High Temperature Alert: {weather.temp.toFixed(1)}°C - Increased heat stroke risk
                         </p>
                     </div>
                 </div>
@@ -206,7 +166,7 @@ export default function HighRiskDashboard({ onSelectDevotee }: HighRiskDashboard
                         : 'text-gray-600 hover:text-blue-600'
                         }`}
                 >
-                    All Patients ({patients.length})
+                    All Patients ({stats ? stats.critical + stats.high + stats.moderate + stats.low : 0})
                 </button>
                 <button
                     onClick={() => setFilter('critical')}
@@ -228,6 +188,17 @@ export default function HighRiskDashboard({ onSelectDevotee }: HighRiskDashboard
                 </button>
             </div>
 
+            <div className="relative max-w-sm">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder={t('highRisk.searchPlaceholder')}
+                    className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+            </div>
+
             {/* Patients List */}
             {patients.length === 0 ? (
                 <div className="text-center py-12 bg-gray-50 rounded-lg">
@@ -238,18 +209,42 @@ export default function HighRiskDashboard({ onSelectDevotee }: HighRiskDashboard
                 <div className="grid grid-cols-1 gap-4">
                     {patients.map((patient) => (
                         <PatientCard
-                            key={patient.devotee._id}
+                            key={patient.devotee_id}
                             patient={patient}
                             onViewProfile={handleViewProfile}
                         />
                     ))}
                 </div>
             )}
+
+            {result && result.pages > 1 && (
+                <div className="flex items-center justify-center gap-3 text-sm">
+                    <button
+                        onClick={() => setPage((p) => p - 1)}
+                        disabled={page <= 1}
+                        className="p-2 rounded-md border border-gray-300 disabled:opacity-40"
+                        aria-label={t('highRisk.prevPage')}
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <span className="text-gray-700">{t('highRisk.page', { page: result.page, pages: result.pages, total: result.total })}</span>
+                    <button
+                        onClick={() => setPage((p) => p + 1)}
+                        disabled={page >= result.pages}
+                        className="p-2 rounded-md border border-gray-300 disabled:opacity-40"
+                        aria-label={t('highRisk.nextPage')}
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
         </div>
     );
 }
 
-function StatCard({ title, value, icon, bgColor, textColor }: any) {
+type StatCardProps = { title: string; value: number; icon: string; bgColor: string; textColor: string };
+
+function StatCard({ title, value, icon, bgColor, textColor }: StatCardProps) {
     return (
         <div className={`${bgColor} p-4 rounded-xl border border-gray-200 shadow-sm`}>
             <div className="text-2xl mb-1">{icon}</div>
@@ -260,6 +255,7 @@ function StatCard({ title, value, icon, bgColor, textColor }: any) {
 }
 
 function PatientCard({ patient, onViewProfile }: { patient: RiskPatient; onViewProfile: (id: string) => void }) {
+    const { t } = useI18n();
     const [expanded, setExpanded] = useState(false);
 
     return (
@@ -268,10 +264,10 @@ function PatientCard({ patient, onViewProfile }: { patient: RiskPatient; onViewP
                 <div className="flex items-start gap-4">
                     {/* Photo */}
                     <div className="flex-shrink-0">
-                        {patient.devotee.photo ? (
+                        {patient.devotee.photo_url ? (
                             <img
-                                src={patient.devotee.photo}
-                                alt={patient.devotee.name}
+                                src={patient.devotee.photo_thumb_url || patient.devotee.photo_url}
+                                alt={patient.devotee.full_name}
                                 className="w-16 h-16 rounded-full object-cover border-2 border-gray-200"
                             />
                         ) : (
@@ -285,29 +281,30 @@ function PatientCard({ patient, onViewProfile }: { patient: RiskPatient; onViewP
                     <div className="flex-1 min-w-0">
                         <div className="flex items-start justify-between gap-2 mb-2">
                             <div>
-                                <h3 className="text-lg font-bold text-gray-900">{patient.devotee.name}</h3>
+                                <h3 className="text-lg font-bold text-gray-900">{patient.devotee.full_name}</h3>
                                 <p className="text-sm text-gray-600">
-                                    ID: {patient.devotee.devotee_id} • {patient.devotee.age}y • {patient.devotee.gender}
+                                    ID: {patient.devotee.registration_number} • {patient.devotee.age}y • {patient.devotee.gender}
                                 </p>
                             </div>
-                            {getRiskBadge(patient.riskLevel, patient.riskScore)}
+                            {getRiskBadge(patient.risk_level, patient.risk_score)}
                         </div>
 
                         {/* Risk Breakdown */}
-                        <div className="grid grid-cols-4 gap-2 mb-3">
+                        <div className="grid grid-cols-5 gap-2 mb-3">
                             <RiskBar label="Age" value={patient.breakdown.age} max={30} color="purple" />
                             <RiskBar label="Medical" value={patient.breakdown.medical} max={40} color="red" />
                             <RiskBar label="Weather" value={patient.breakdown.environmental} max={20} color="orange" />
                             <RiskBar label="Crowd" value={patient.breakdown.crowd} max={10} color="blue" />
+                            <RiskBar label="History" value={patient.breakdown.incidents || 0} max={20} color="teal" />
                         </div>
 
                         {/* Medical Info */}
                         <div className="flex flex-wrap gap-2 mb-3">
                             <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs font-medium">
-                                🩸 {patient.medicalRecord.blood_group || 'Unknown'}
+                                🩸 {patient.medical.blood_group || 'Unknown'}
                             </span>
                             <span className="bg-red-50 text-red-700 px-2 py-1 rounded text-xs font-medium">
-                                💊 {patient.medicalRecord.chronic_conditions}
+                                💊 {patient.medical.chronic_conditions || 'None'}
                             </span>
                         </div>
 
@@ -321,7 +318,7 @@ function PatientCard({ patient, onViewProfile }: { patient: RiskPatient; onViewP
                                 Call
                             </a>
                             <button
-                                onClick={() => onViewProfile(patient.devotee._id)}
+                                onClick={() => onViewProfile(patient.devotee_id)}
                                 className="inline-flex items-center gap-1 bg-green-600 text-white px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-green-700 transition-colors"
                             >
                                 <Users className="w-4 h-4" />
@@ -341,6 +338,19 @@ function PatientCard({ patient, onViewProfile }: { patient: RiskPatient; onViewP
                 {/* Expanded Recommendations */}
                 {expanded && (
                     <div className="mt-4 pt-4 border-t border-gray-200">
+                        {patient.explanation.length > 0 && (
+                            <>
+                                <h4 className="font-semibold text-gray-900 mb-2">{t('highRisk.whyScore')}</h4>
+                                <ul className="space-y-1 mb-4">
+                                    {patient.explanation.map((line, idx) => (
+                                        <li key={idx} className="text-sm text-gray-700 flex justify-between gap-4 max-w-md">
+                                            <span>{line.label}</span>
+                                            <span className="font-semibold">{line.points > 0 ? '+' : ''}{line.points}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
                         <h4 className="font-semibold text-gray-900 mb-2">📋 Recommendations:</h4>
                         <ul className="space-y-1">
                             {patient.recommendations.map((rec, idx) => (
@@ -349,6 +359,9 @@ function PatientCard({ patient, onViewProfile }: { patient: RiskPatient; onViewP
                                 </li>
                             ))}
                         </ul>
+                        {patient.model_version != null && (
+                            <p className="text-xs text-gray-400 mt-3">{t('highRisk.scoredWith', { version: patient.model_version })}</p>
+                        )}
                     </div>
                 )}
             </div>
@@ -356,13 +369,17 @@ function PatientCard({ patient, onViewProfile }: { patient: RiskPatient; onViewP
     );
 }
 
-function RiskBar({ label, value, max, color }: any) {
-    const percentage = (value / max) * 100;
+type RiskBarProps = { label: string; value: number; max: number; color: 'purple' | 'red' | 'orange' | 'blue' | 'teal' };
+
+function RiskBar({ label, value, max, color }: RiskBarProps) {
+    // Caps are configurable per risk model, so a component can outgrow its bar
+    const percentage = Math.min((value / max) * 100, 100);
     const colors = {
         purple: 'bg-purple-500',
         red: 'bg-red-500',
         orange: 'bg-orange-500',
-        blue: 'bg-blue-500'
+        blue: 'bg-blue-500',
+        teal: 'bg-teal-500'
     };
 
     return (
@@ -373,7 +390,7 @@ function RiskBar({ label, value, max, color }: any) {
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2">
                 <div
-                    className={`${colors[color as keyof typeof colors]} h-2 rounded-full transition-all`}
+                    className={`${colors[color]} h-2 rounded-full transition-all`}
                     style={{ width: `${percentage}%` }}
                 ></div>
             </div>
@@ -381,7 +398,7 @@ function RiskBar({ label, value, max, color }: any) {
     );
 }
 
-function getRiskBadge(riskLevel: string, score: number) {
+function getRiskBadge(riskLevel: RiskLevel, score: number) {
     const colors = {
         'Critical': 'bg-red-100 text-red-800 border-red-300',
         'High': 'bg-orange-100 text-orange-800 border-orange-300',
@@ -1,15 +1,29 @@
-import { useState } from 'react';
-import { createIncident } from '../lib/api';
-import { X, AlertTriangle, Loader2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import {
+  checkPrescription, createIncident, getMedicalCenters, interactionWarningsFrom, updateIncident,
+  ApiError, InteractionWarning, MedicalCenter, MedicalIncident,
+} from '../lib/api';
+import { X, AlertTriangle, Loader2, Activity } from 'lucide-react';
 import { useI18n } from '../i18n/i18n';
+import { useAuth } from '../auth/useAuth';
+import { emptyVitalsDraft, parseVitalsDraft, VitalsDraft, VitalsErrors } from '../lib/vitals';
+import VitalsFields from './VitalsFields';
+import { defaultFollowUpDue } from '../lib/followUps';
+import InteractionWarnings from './InteractionWarnings';
 
 type IncidentFormProps = {
   devoteeId: string;
   devoteeName: string;
+  // Present when correcting an existing incident rather than recording a new one
+  incident?: MedicalIncident;
+  // Id of the incident whose scheduled follow-up this visit fulfils
+  followUpOf?: string;
   onClose: () => void;
   onSuccess: () => void;
 };
 
+const CHECK_DELAY = 600;
+
 type FormData = {
   incident_type: string;
   symptoms: string;
@@ -17,28 +31,130 @@ type FormData = {
   treatment_given: string;
   medications_prescribed: string;
   attending_doctor: string;
-  medical_center: string;
+  medical_center_id: string;
   follow_up_required: boolean;
   follow_up_notes: string;
+  follow_up_due_at: string;
+  follow_up_center_id: string;
 };
 
-export default function IncidentForm({ devoteeId, devoteeName, onClose, onSuccess }: IncidentFormProps) {
+export default function IncidentForm({ devoteeId, devoteeName, incident, followUpOf, onClose, onSuccess }: IncidentFormProps) {
   const { t } = useI18n();
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [centers, setCenters] = useState<MedicalCenter[]>([]);
+  const [vitals, setVitals] = useState<VitalsDraft>(emptyVitalsDraft);
+  const [vitalsErrors, setVitalsErrors] = useState<VitalsErrors>({});
   const [formData, setFormData] = useState<FormData>({
-    incident_type: 'Emergency',
-    symptoms: '',
-    diagnosis: '',
-    treatment_given: '',
-    medications_prescribed: '',
-    attending_doctor: '',
-    medical_center: '',
-    follow_up_required: false,
-    follow_up_notes: '',
+    incident_type: incident?.incident_type || (followUpOf ? 'Follow-up' : 'Emergency'),
+    symptoms: incident?.symptoms || '',
+    diagnosis: incident?.diagnosis || '',
+    treatment_given: incident?.treatment_given || '',
+    medications_prescribed: incident?.medications_prescribed || '',
+    attending_doctor: incident?.attending_doctor || '',
+    medical_center_id: incident?.medical_center_id || '',
+    follow_up_required: incident?.follow_up_required || false,
+    follow_up_notes: incident?.follow_up_notes || '',
+    follow_up_due_at: defaultFollowUpDue(),
+    follow_up_center_id: '',
   });
+  const [warnings, setWarnings] = useState<InteractionWarning[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  // An unchanged prescription on an edit keeps the check it was saved with
+  const medications = formData.medications_prescribed.trim();
+  const medicationsChanged = !incident || formData.medications_prescribed !== (incident.medications_prescribed || '');
+
+  useEffect(() => {
+    if (!medications || !medicationsChanged) {
+      setWarnings([]);
+      setChecking(false);
+      return;
+    }
+    let cancelled = false;
+    setChecking(true);
+    const timer = setTimeout(() => {
+      checkPrescription(devoteeId, medications)
+        .then((result) => !cancelled && setWarnings(result.warnings))
+        // Offline: the server checks the prescription again when the incident syncs
+        .catch(() => !cancelled && setWarnings([]))
+        .finally(() => !cancelled && setChecking(false));
+    }, CHECK_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [devoteeId, medications, medicationsChanged]);
+
+  const blockingKeys = warnings.filter((w) => w.severity === 'blocking').map((w) => w.key);
+  const interactionOverride = blockingKeys.length > 0 ? { reason: overrideReason.trim(), keys: blockingKeys } : undefined;
+
+  // True when the save was refused over interactions; the warnings are then shown for the doctor to act on
+  const handleBlocked = (error: unknown) => {
+    const refused = interactionWarningsFrom(error);
+    if (!refused) return false;
+    setWarnings(refused);
+    alert(t('interactions.blocked'));
+    return true;
+  };
+
+  useEffect(() => {
+    if (incident) return;
+    getMedicalCenters()
+      .then((list) => {
+        setCenters(list);
+        // Preselect the center the staff member is posted at
+        const home = list.find((c) => c.name === user?.medical_center);
+        if (home) setFormData((prev) => (prev.medical_center_id ? prev : { ...prev, medical_center_id: home.id }));
+      })
+      .catch((error) => console.error('Failed to load medical centers:', error));
+  }, [incident, user?.medical_center]);
+
+  const handleUpdate = async (existing: MedicalIncident) => {
+    setLoading(true);
+    try {
+      await updateIncident(existing.id, {
+        version: existing.version ?? 1,
+        incident_type: formData.incident_type as MedicalIncident['incident_type'],
+        symptoms: formData.symptoms,
+        diagnosis: formData.diagnosis,
+        treatment_given: formData.treatment_given,
+        medications_prescribed: formData.medications_prescribed,
+        attending_doctor: formData.attending_doctor,
+        follow_up_required: formData.follow_up_required,
+        follow_up_notes: formData.follow_up_notes,
+        interaction_override: medicationsChanged ? interactionOverride : undefined,
+      });
+      onSuccess();
+    } catch (error) {
+      if (handleBlocked(error)) return;
+      if (error instanceof ApiError && error.status === 409) {
+        alert(t('lifecycle.conflict'));
+        onSuccess();
+        return;
+      }
+      alert(t('incident.fail', { message: (error as Error).message }));
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (interactionOverride && !interactionOverride.reason) {
+      alert(t('interactions.overrideRequired'));
+      return;
+    }
+    if (incident) {
+      handleUpdate(incident);
+      return;
+    }
+
+    const parsed = parseVitalsDraft(vitals);
+    setVitalsErrors(parsed.errors);
+    if (Object.keys(parsed.errors).length > 0) return;
+
     setLoading(true);
 
     try {
@@ -50,13 +166,22 @@ export default function IncidentForm({ devoteeId, devoteeName, onClose, onSucces
         treatment_given: formData.treatment_given,
         medications_prescribed: formData.medications_prescribed,
         attending_doctor: formData.attending_doctor,
-        medical_center: formData.medical_center,
+        medical_center_id: formData.medical_center_id,
+        medical_center: centers.find((c) => c.id === formData.medical_center_id)?.name || '',
         follow_up_required: formData.follow_up_required,
         follow_up_notes: formData.follow_up_notes,
+        follow_up_due_at: formData.follow_up_required ? new Date(formData.follow_up_due_at).toISOString() : undefined,
+        // Empty means the follow-up is booked at the center recording this incident
+        follow_up_center_id: formData.follow_up_required && formData.follow_up_center_id ? formData.follow_up_center_id : undefined,
+        follow_up_of: followUpOf,
+        // Stamp the reading now, so an incident synced later from the offline queue keeps the real time
+        vitals: parsed.vitals ? { ...parsed.vitals, recorded_at: new Date().toISOString() } : undefined,
+        interaction_override: interactionOverride,
       });
 
       onSuccess();
     } catch (error) {
+      if (handleBlocked(error)) return;
       alert(t('incident.fail', { message: (error as Error).message }));
     } finally {
       setLoading(false);
@@ -75,7 +200,7 @@ export default function IncidentForm({ devoteeId, devoteeName, onClose, onSucces
           <div>
             <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
               <AlertTriangle className="w-5 h-5 text-orange-600" />
-              {t('incident.title')}
+              {incident ? t('incident.editTitle') : t('incident.title')}
             </h2>
             <p className="text-sm text-gray-600">
               {t('incident.for')} {devoteeName}
@@ -91,6 +216,9 @@ export default function IncidentForm({ devoteeId, devoteeName, onClose, onSucces
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {followUpOf && (
+            <p className="text-sm bg-blue-50 border border-blue-200 text-blue-900 rounded-md px-3 py-2">{t('followUp.recordingVisit')}</p>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">{t('incident.type')}</label>
@@ -120,20 +248,52 @@ export default function IncidentForm({ devoteeId, devoteeName, onClose, onSucces
               />
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">{t('incident.center')}</label>
-              <input
-                type="text"
-                name="medical_center"
-                required
-                value={formData.medical_center}
-                onChange={handleChange}
-                placeholder={t('incident.centerPlaceholder')}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
+            {!incident && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('incident.center')}</label>
+                <select
+                  name="medical_center_id"
+                  required
+                  value={formData.medical_center_id}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">{t('incident.centerPlaceholder')}</option>
+                  {(['hospital', 'camp', 'first_aid_post', 'ambulance_point'] as const).map((type) => {
+                    const options = centers.filter((c) => c.type === type);
+                    return options.length > 0 && (
+                      <optgroup key={type} label={t(`centers.type.${type}`)}>
+                        {options.map((center) => (
+                          <option key={center.id} value={center.id}>
+                            {center.name}{center.sector && ` (${center.sector})`}
+                          </option>
+                        ))}
+                      </optgroup>
+                    );
+                  })}
+                </select>
+              </div>
+            )}
           </div>
 
+          {!incident && (
+            <fieldset className="border border-gray-200 rounded-md p-3">
+              <legend className="px-1 text-sm font-medium text-gray-700 flex items-center gap-1">
+                <Activity className="w-4 h-4 text-red-600" />
+                {t('vitals.title')}
+              </legend>
+              <p className="text-xs text-gray-500 mb-2">{t('vitals.help')}</p>
+              <VitalsFields
+                value={vitals}
+                errors={vitalsErrors}
+                onChange={(next) => {
+                  setVitals(next);
+                  setVitalsErrors(parseVitalsDraft(next).errors);
+                }}
+              />
+            </fieldset>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">{t('incident.symptoms')}</label>
             <textarea
@@ -181,6 +341,12 @@ export default function IncidentForm({ devoteeId, devoteeName, onClose, onSucces
               placeholder={t('incident.medsPlaceholder')}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
+            <InteractionWarnings
+              warnings={warnings}
+              checking={checking}
+              overrideReason={overrideReason}
+              onOverrideReasonChange={setOverrideReason}
+            />
           </div>
 
           <div className="flex items-start gap-2 p-3 bg-orange-50 border border-orange-200 rounded-md">
@@ -199,6 +365,36 @@ export default function IncidentForm({ devoteeId, devoteeName, onClose, onSucces
             </div>
           </div>
 
+          {formData.follow_up_required && !incident && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('followUp.dueAt')}</label>
+                <input
+                  type="datetime-local"
+                  name="follow_up_due_at"
+                  required
+                  value={formData.follow_up_due_at}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('followUp.center')}</label>
+                <select
+                  name="follow_up_center_id"
+                  value={formData.follow_up_center_id}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">{t('followUp.sameCenter')}</option>
+                  {centers.filter((c) => c.active).map((center) => (
+                    <option key={center.id} value={center.id}>{center.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           {formData.follow_up_required && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">{t('incident.followUpNotes')}</label>
@@ -232,7 +428,7 @@ export default function IncidentForm({ devoteeId, devoteeName, onClose, onSucces
                   {t('incident.saving')}
                 </>
               ) : (
-                t('incident.submit')
+                incident ? t('incident.saveChanges') : t('incident.submit')
               )}
             </button>
           </div>
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Ambulance, Loader2, Pencil } from 'lucide-react';
+import { updateIncident, ApiError, IncidentStatus, MedicalIncident } from '../lib/api';
+import { canRefer, STATUS_TRANSITIONS } from '../lib/incidentStatus';
+import { useI18n } from '../i18n/i18n';
+import ReferralForm from './ReferralForm';
+
+type IncidentLifecycleProps = {
+  incident: MedicalIncident;
+  onEdit: () => void;
+  onChanged: (incident: MedicalIncident) => void;
+  // Someone else saved first: the caller reloads so the next attempt uses the latest version
+  onConflict: () => void;
+};
+
+const REFERRAL_STYLES = {
+  pending: 'text-purple-700',
+  accepted: 'text-green-700',
+  rejected: 'text-gray-500 line-through',
+};
+
+// Status change, edit and referral controls under an incident in the profile
+export default function IncidentLifecycle({ incident, onEdit, onChanged, onConflict }: IncidentLifecycleProps) {
+  const { t } = useI18n();
+  const status = incident.status || 'open';
+  const [nextStatus, setNextStatus] = useState<IncidentStatus | ''>('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [referring, setReferring] = useState(false);
+
+  const handleStatus = async () => {
+    if (!nextStatus) return;
+    setSaving(true);
+    try {
+      onChanged(await updateIncident(incident.id, { version: incident.version ?? 1, status: nextStatus, status_note: note }));
+      setNextStatus('');
+      setNote('');
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        alert(t('lifecycle.conflict'));
+        onConflict();
+        return;
+      }
+      alert(t('lifecycle.failed', { message: (error as Error).message }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-200 space-y-2">
+      {incident.referrals && incident.referrals.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {incident.referrals.map((referral) => (
+            <li key={referral.id} className="flex items-start gap-1">
+              <Ambulance className="w-3 h-3 mt-0.5 text-purple-600 flex-shrink-0" />
+              <span>
+                <span className={`font-semibold ${REFERRAL_STYLES[referral.status]}`}>
+                  {t('referral.line', { from: referral.from_center, to: referral.to_center })}
+                </span>
+                <span className="text-gray-600">
+                  {' · '}{t(`referral.transport.${referral.transport_mode}`)}
+                  {' · '}{t(`referral.status.${referral.status}`)}
+                  {' · '}{new Date(referral.referred_at).toLocaleString()}
+                </span>
+                {referral.handover_notes && <span className="block text-gray-700">{referral.handover_notes}</span>}
+                {referral.response_notes && <span className="block text-gray-500 italic">{referral.response_notes}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onEdit} className="inline-flex items-center gap-1 text-xs font-semibold text-blue-700 hover:underline">
+          <Pencil className="w-3 h-3" />
+          {t('lifecycle.edit')}
+        </button>
+        {canRefer(status) && (
+          <button onClick={() => setReferring(true)} className="inline-flex items-center gap-1 text-xs font-semibold text-purple-700 hover:underline">
+            <Ambulance className="w-3 h-3" />
+            {t('referral.title')}
+          </button>
+        )}
+        {STATUS_TRANSITIONS[status].length > 0 && (
+          <div className="flex items-center gap-1 ml-auto">
+            <select
+              value={nextStatus}
+              onChange={(e) => setNextStatus(e.target.value as IncidentStatus | '')}
+              className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+              aria-label={t('lifecycle.changeStatus')}
+            >
+              <option value="">{t('lifecycle.changeStatus')}</option>
+              {STATUS_TRANSITIONS[status].map((s) => (
+                <option key={s} value={s}>{t(`incident.status.${s}`)}</option>
+              ))}
+            </select>
+            {nextStatus && (
+              <>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={t('lifecycle.notePlaceholder')}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-xs w-36"
+                />
+                <button
+                  onClick={handleStatus}
+                  disabled={saving}
+                  className="inline-flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded-md text-xs font-semibold disabled:bg-gray-400"
+                >
+                  {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {t('lifecycle.apply')}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {referring && (
+        <ReferralForm
+          incident={incident}
+          onClose={() => setReferring(false)}
+          onSaved={(updated) => {
+            setReferring(false);
+            onChanged(updated);
+          }}
+          onConflict={() => {
+            setReferring(false);
+            onConflict();
+          }}
+        />
+      )}
+    </div>
+  );
+}
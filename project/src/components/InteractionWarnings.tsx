@@ -0,0 +1,78 @@
+import { AlertOctagon, AlertTriangle, Loader2 } from 'lucide-react';
+import { InteractionWarning } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type InteractionWarningsProps = {
+    warnings: InteractionWarning[];
+    checking: boolean;
+    overrideReason: string;
+    onOverrideReasonChange: (reason: string) => void;
+};
+
+// Findings of the prescription check, shown under the medications box while the doctor types
+export default function InteractionWarnings({ warnings, checking, overrideReason, onOverrideReasonChange }: InteractionWarningsProps) {
+    const { t } = useI18n();
+    const blocking = warnings.filter((w) => w.severity === 'blocking');
+    const soft = warnings.filter((w) => w.severity === 'warning');
+
+    if (checking && warnings.length === 0) {
+        return (
+            <p className="mt-1 text-xs text-gray-500 flex items-center gap-1">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                {t('interactions.checking')}
+            </p>
+        );
+    }
+    if (warnings.length === 0) return null;
+
+    const describe = (warning: InteractionWarning) => {
+        const drugs = warning.drugs
+            .map((drug) => (drug.source === 'current' ? t('interactions.alreadyTaking', { name: drug.display }) : drug.display))
+            .join(' + ');
+        return warning.allergen ? `${drugs} · ${t('interactions.allergyTo', { name: warning.allergen.display })}` : drugs;
+    };
+
+    return (
+        <div className="mt-2 space-y-2" role="alert">
+            {blocking.length > 0 && (
+                <div className="border border-red-300 bg-red-50 rounded-md p-3">
+                    <p className="text-sm font-semibold text-red-800 flex items-center gap-1">
+                        <AlertOctagon className="w-4 h-4" />
+                        {t('interactions.blockingTitle')}
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                        {blocking.map((warning) => (
+                            <li key={warning.key} className="text-sm text-red-900">
+                                <span className="font-medium">{describe(warning)}</span>: {warning.reason}
+                            </li>
+                        ))}
+                    </ul>
+                    <label className="block text-sm font-medium text-red-800 mt-3 mb-1">{t('interactions.overrideReason')}</label>
+                    <textarea
+                        value={overrideReason}
+                        onChange={(e) => onOverrideReasonChange(e.target.value)}
+                        rows={2}
+                        required
+                        placeholder={t('interactions.overridePlaceholder')}
+                        className="w-full px-3 py-2 border border-red-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                </div>
+            )}
+            {soft.length > 0 && (
+                <div className="border border-amber-300 bg-amber-50 rounded-md p-3">
+                    <p className="text-sm font-semibold text-amber-800 flex items-center gap-1">
+                        <AlertTriangle className="w-4 h-4" />
+                        {t('interactions.warningTitle')}
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                        {soft.map((warning) => (
+                            <li key={warning.key} className="text-sm text-amber-900">
+                                <span className="font-medium">{describe(warning)}</span>: {warning.reason}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,131 @@
+import { useCallback, useRef, useState } from 'react';
+import { AlertTriangle, Bell, BellOff, X } from 'lucide-react';
+import type { LiveEvent, LiveTopic } from '../lib/api';
+import { useLiveEvents } from '../lib/liveEvents';
+import { useI18n } from '../i18n/i18n';
+
+// The server only sends the topics the signed-in role may receive
+const ALERT_TOPICS: LiveTopic[] = [
+  'risk.critical', 'incident.created', 'incident.prescription_review', 'lost_person.reported', 'face.match', 'weather.alert',
+];
+const MAX_ALERTS = 5;
+const MUTE_STORAGE_KEY = 'kms_live_alerts_muted';
+
+type PersonSummary = { name?: string };
+type DevoteeSummary = { full_name?: string };
+
+// Two short tones; the AudioContext is created lazily since browsers block it before any user gesture
+let audio: AudioContext | null = null;
+function beep() {
+  try {
+    audio = audio || new AudioContext();
+    [0, 0.25].forEach((offset) => {
+      const oscillator = audio!.createOscillator();
+      const gain = audio!.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.2;
+      oscillator.connect(gain).connect(audio!.destination);
+      oscillator.start(audio!.currentTime + offset);
+      oscillator.stop(audio!.currentTime + offset + 0.15);
+    });
+  } catch {
+    // No audio available; the visual alert still shows
+  }
+}
+
+export default function LiveAlerts() {
+  const { t } = useI18n();
+  const [alerts, setAlerts] = useState<LiveEvent[]>([]);
+  const [muted, setMuted] = useState(() => window.localStorage.getItem(MUTE_STORAGE_KEY) === 'true');
+  const mutedRef = useRef(muted);
+  mutedRef.current = muted;
+
+  const handleEvent = useCallback((event: LiveEvent) => {
+    if (!event.critical) return;
+    setAlerts((prev) => [event, ...prev].slice(0, MAX_ALERTS));
+    if (!mutedRef.current) beep();
+  }, []);
+
+  useLiveEvents(ALERT_TOPICS, handleEvent);
+
+  const toggleMute = () => {
+    const next = !muted;
+    window.localStorage.setItem(MUTE_STORAGE_KEY, String(next));
+    setMuted(next);
+  };
+
+  const describe = (event: LiveEvent) => {
+    const data = event.data;
+    switch (event.topic) {
+      case 'risk.critical': {
+        const devotees = (data.devotees as DevoteeSummary[] | undefined) || [];
+        return t('live.riskCritical', {
+          count: Number(data.total) || devotees.length,
+          names: devotees.slice(0, 3).map((d) => d.full_name).join(', '),
+        });
+      }
+      case 'incident.created':
+        return t('live.incidentRed', { type: String(data.incident_type), center: String(data.medical_center || '-') });
+      case 'incident.prescription_review':
+        return t('live.prescriptionReview', {
+          center: String(data.medical_center || '-'),
+          reasons: ((data.reasons as string[] | undefined) || []).join('; '),
+        });
+      case 'lost_person.reported':
+        return t('live.missingChild', { name: String(data.name || '-'), age: String(data.age ?? '-') });
+      case 'face.match':
+        return t('live.faceMatch', {
+          name: String((data.report as PersonSummary | undefined)?.name || '-'),
+          count: (data.matches as unknown[] | undefined)?.length ?? 0,
+        });
+      case 'weather.alert':
+        return ((data.alerts as string[] | undefined) || [])
+          .map((alert) => t(`live.weather.${alert}`, { temp: String(data.temp), aqi: String(data.aqi) }))
+          .join(' ');
+      default:
+        return '';
+    }
+  };
+
+  if (!alerts.length) return null;
+
+  return (
+    <div className="fixed top-20 right-4 z-50 w-80 space-y-2" role="alert" aria-live="assertive">
+      <div className="flex items-center justify-end gap-2">
+        <button
+          type="button"
+          onClick={toggleMute}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-white/90 border border-gray-200 text-xs font-semibold text-gray-700 shadow-sm"
+        >
+          {muted ? <BellOff className="w-3.5 h-3.5" /> : <Bell className="w-3.5 h-3.5" />}
+          {muted ? t('live.unmute') : t('live.mute')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setAlerts([])}
+          className="px-2 py-1 rounded-lg bg-white/90 border border-gray-200 text-xs font-semibold text-gray-700 shadow-sm"
+        >
+          {t('live.dismissAll')}
+        </button>
+      </div>
+      {alerts.map((alert) => (
+        <div key={alert.id} className="flex items-start gap-2 p-3 rounded-lg border-2 border-red-400 bg-red-50 shadow-lg">
+          <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-semibold uppercase text-red-700">{t(`live.topic.${alert.topic}`)}</p>
+            <p className="text-sm text-gray-800">{describe(alert)}</p>
+            <p className="text-[11px] text-gray-500">{new Date(alert.at).toLocaleTimeString()}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setAlerts((prev) => prev.filter((a) => a.id !== alert.id))}
+            className="p-1 hover:bg-red-100 rounded-full"
+            aria-label={t('common.close')}
+          >
+            <X className="w-4 h-4 text-red-700" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
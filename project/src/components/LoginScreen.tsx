@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Heart, Loader2, LogIn, AlertCircle } from 'lucide-react';
+import { useAuth } from '../auth/useAuth';
+import { ApiError } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+export default function LoginScreen() {
+  const { t } = useI18n();
+  const { signIn } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      await signIn(username, password);
+    } catch (err) {
+      setError(err instanceof ApiError && err.status === 401 ? t('login.invalid') : t('login.fail'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-kumbh-pattern flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl border border-orange-200/70 w-full max-w-md overflow-hidden">
+        <div className="bg-kumbh-gradient px-6 py-6 text-center">
+          <div className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-md mx-auto mb-3">
+            <Heart className="w-8 h-8 text-kumbh-deep" aria-hidden="true" />
+          </div>
+          <h1 className="text-xl font-extrabold text-white drop-shadow-md">{t('app.title')}</h1>
+          <p className="text-sm text-white/90">{t('login.subtitle')}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm p-3 rounded-md" role="alert">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="login-username" className="block text-sm font-medium text-gray-700 mb-1">
+              {t('login.username')}
+            </label>
+            <input
+              id="login-username"
+              type="text"
+              required
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-1">
+              {t('login.password')}
+            </label>
+            <input
+              id="login-password"
+              type="password"
+              required
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium flex items-center justify-center gap-2 transition-colors"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+            {loading ? t('login.signingIn') : t('login.submit')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
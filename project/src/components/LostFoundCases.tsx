@@ -0,0 +1,330 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Clock, Link2, Unlink, UserCheck, X } from 'lucide-react';
+import {
+    getLostFoundCases,
+    reuniteLostFoundCase,
+    unlinkLostFoundReport,
+    HandoverDetails,
+    LostFoundCases as CasesData,
+    LostPerson,
+} from '../lib/api';
+import { useAuth } from '../auth/useAuth';
+import { useI18n } from '../i18n/i18n';
+
+const ID_PROOF_TYPES = ['aadhaar', 'voter_id', 'driving_licence', 'passport', 'other'];
+
+// Open cases older than these many hours are highlighted at the desk
+const AGEING_WARN_HOURS = 6;
+const AGEING_CRITICAL_HOURS = 24;
+
+function ageTone(hours = 0) {
+    if (hours >= AGEING_CRITICAL_HOURS) return 'bg-red-100 text-red-800';
+    if (hours >= AGEING_WARN_HOURS) return 'bg-amber-100 text-amber-800';
+    return 'bg-gray-100 text-gray-700';
+}
+
+function formatHours(hours?: number | null) {
+    if (hours === null || hours === undefined) return '—';
+    return hours >= 48 ? `${Math.floor(hours / 24)}d` : `${Math.round(hours)}h`;
+}
+
+export default function LostFoundCases({ refreshKey = 0 }: { refreshKey?: number }) {
+    const { t } = useI18n();
+    const { user, can } = useAuth();
+    const canResolve = can('lost-found:resolve');
+
+    const [cases, setCases] = useState<CasesData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [tab, setTab] = useState<'open' | 'history'>('open');
+    const [handoverFor, setHandoverFor] = useState<LostPerson | null>(null);
+    const [handover, setHandover] = useState<HandoverDetails>({ guardian_name: '', id_proof_type: 'aadhaar', id_proof_number: '' });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadCases = useCallback(async () => {
+        try {
+            setCases(await getLostFoundCases());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadCases();
+    }, [loadCases, refreshKey]);
+
+    const openHandover = (person: LostPerson) => {
+        setHandover({
+            guardian_name: person.status === 'missing' ? person.contact_info?.name || '' : person.linked_report?.contact_info?.name || '',
+            guardian_phone: person.status === 'missing' ? person.contact_info?.phone : person.linked_report?.contact_info?.phone,
+            relationship: person.status === 'missing' ? person.contact_info?.relationship : person.linked_report?.contact_info?.relationship,
+            id_proof_type: 'aadhaar',
+            id_proof_number: '',
+            desk: user?.medical_center || '',
+        });
+        setHandoverFor(person);
+    };
+
+    const submitHandover = async () => {
+        if (!handoverFor?._id) return;
+        if (!handover.guardian_name || !handover.id_proof_number) {
+            alert(t('lost.handover.required'));
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await reuniteLostFoundCase(handoverFor._id, handover);
+            setHandoverFor(null);
+            loadCases();
+        } catch (e) {
+            alert(t('lost.handover.failed', { message: (e as Error).message }));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleUnlink = async (person: LostPerson) => {
+        if (!person._id) return;
+        const note = window.prompt(t('lost.case.unlinkPrompt'));
+        if (note === null) return;
+        try {
+            await unlinkLostFoundReport(person._id, note);
+            loadCases();
+        } catch (e) {
+            alert((e as Error).message);
+        }
+    };
+
+    if (loading) {
+        return <p className="text-gray-500 italic">{t('lost.case.loading')}</p>;
+    }
+    if (!cases) return null;
+
+    const { summary } = cases;
+    const stats = [
+        { label: t('lost.case.stat.open'), value: summary.open },
+        { label: t('lost.case.stat.missing'), value: summary.missing },
+        { label: t('lost.case.stat.found'), value: summary.found },
+        { label: t('lost.case.stat.awaiting'), value: summary.awaiting_handover },
+        { label: t('lost.case.stat.reunited24h'), value: summary.reunited_24h },
+        { label: t('lost.case.stat.medianTime'), value: formatHours(summary.median_hours_to_reunite) },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                {stats.map((stat) => (
+                    <div key={stat.label} className="bg-white border rounded-lg p-3 text-center">
+                        <p className="text-xl font-bold text-gray-900">{stat.value}</p>
+                        <p className="text-xs text-gray-500">{stat.label}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex gap-2 border-b">
+                {(['open', 'history'] as const).map((key) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-4 py-2 text-sm font-semibold border-b-2 -mb-px ${tab === key ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500'}`}
+                    >
+                        {t(`lost.case.tab.${key}`)}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'open' && (
+                <div className="space-y-3">
+                    {cases.open.map((person) => (
+                        <div key={person._id} className="bg-white border rounded-lg p-3 flex gap-3 shadow-sm">
+                            <img src={person.photo_thumb_url || person.photo_url} alt={person.name} className="w-20 h-20 object-cover rounded-md flex-shrink-0" />
+                            <div className="flex-1 min-w-0 space-y-1">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <h4 className="font-bold truncate">{person.name || 'Unknown'}</h4>
+                                    <span className={`text-xs px-2 py-0.5 rounded font-bold uppercase ${person.status === 'missing' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+                                        {t(`lost.badge.${person.status}`)}
+                                    </span>
+                                    <span className={`text-xs px-2 py-0.5 rounded font-semibold inline-flex items-center gap-1 ${ageTone(person.age_hours)}`}>
+                                        <Clock className="w-3 h-3" />
+                                        {t('lost.case.openFor', { age: formatHours(person.age_hours) })}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    {person.gender}{person.age ? `, ${person.age}y` : ''} · {person.status === 'missing' ? person.last_seen_location : person.current_location || person.last_seen_location}
+                                </p>
+                                {person.linked_report ? (
+                                    <div className="text-xs text-blue-800 bg-blue-50 rounded p-2 space-y-1">
+                                        <p className="font-semibold flex items-center gap-1">
+                                            <Link2 className="w-3 h-3" />
+                                            {t('lost.case.linkedWith', { name: person.linked_report.name || 'Unknown' })}
+                                        </p>
+                                        {person.match_confirmation && (
+                                            <p>
+                                                {t('lost.case.confirmedBy', {
+                                                    name: person.match_confirmation.confirmed_by?.full_name || '',
+                                                    method: t(`lost.verify.${person.match_confirmation.verification_method}`),
+                                                })}
+                                            </p>
+                                        )}
+                                        {canResolve && (
+                                            <div className="flex gap-3 pt-1">
+                                                <button
+                                                    onClick={() => openHandover(person)}
+                                                    className="inline-flex items-center gap-1 bg-green-600 text-white px-3 py-1 rounded-md font-semibold hover:bg-green-700"
+                                                >
+                                                    <UserCheck className="w-3 h-3" />
+                                                    {t('lost.case.handover')}
+                                                </button>
+                                                <button
+                                                    onClick={() => handleUnlink(person)}
+                                                    className="inline-flex items-center gap-1 text-red-700 font-semibold hover:underline"
+                                                >
+                                                    <Unlink className="w-3 h-3" />
+                                                    {t('lost.case.unlink')}
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ) : (
+                                    person.contact_info?.phone && (
+                                        <p className="text-xs text-gray-600">{t('lost.match.reportedBy')} {person.contact_info.phone}</p>
+                                    )
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    {cases.open.length === 0 && <p className="text-gray-500 italic">{t('lost.noActive')}</p>}
+                </div>
+            )}
+
+            {tab === 'history' && (
+                <div className="overflow-x-auto bg-white border rounded-lg">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                            <tr>
+                                <th className="px-3 py-2">{t('lost.history.person')}</th>
+                                <th className="px-3 py-2">{t('lost.history.guardian')}</th>
+                                <th className="px-3 py-2">{t('lost.history.idProof')}</th>
+                                <th className="px-3 py-2">{t('lost.history.desk')}</th>
+                                <th className="px-3 py-2">{t('lost.history.handedOver')}</th>
+                                <th className="px-3 py-2">{t('lost.history.duration')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {cases.history.map((person) => (
+                                <tr key={person._id}>
+                                    <td className="px-3 py-2 font-medium">{person.name || person.linked_report?.name || 'Unknown'}</td>
+                                    <td className="px-3 py-2">
+                                        {person.handover?.guardian_name}
+                                        {person.handover?.relationship && <span className="text-gray-500"> ({person.handover.relationship})</span>}
+                                    </td>
+                                    <td className="px-3 py-2">{person.handover?.id_proof_type && t(`lost.idProof.${person.handover.id_proof_type}`)}</td>
+                                    <td className="px-3 py-2">{person.handover?.desk}</td>
+                                    <td className="px-3 py-2">
+                                        {person.handover?.handed_over_at && new Date(person.handover.handed_over_at).toLocaleString()}
+                                        <span className="block text-xs text-gray-500">{person.handover?.handed_over_by?.full_name}</span>
+                                    </td>
+                                    <td className="px-3 py-2">{formatHours(person.hours_to_reunite)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {cases.history.length === 0 && <p className="text-gray-500 italic p-3">{t('lost.history.empty')}</p>}
+                </div>
+            )}
+
+            {handoverFor && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold">{t('lost.handover.title', { name: handoverFor.name || 'Unknown' })}</h3>
+                            <button onClick={() => setHandoverFor(null)} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">{t('lost.handover.guardianName')}</label>
+                            <input
+                                type="text"
+                                className="w-full border p-2 rounded"
+                                value={handover.guardian_name}
+                                onChange={e => setHandover({ ...handover, guardian_name: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">{t('lost.handover.phone')}</label>
+                                <input
+                                    type="tel"
+                                    className="w-full border p-2 rounded"
+                                    value={handover.guardian_phone || ''}
+                                    onChange={e => setHandover({ ...handover, guardian_phone: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">{t('lost.handover.relationship')}</label>
+                                <input
+                                    type="text"
+                                    className="w-full border p-2 rounded"
+                                    value={handover.relationship || ''}
+                                    onChange={e => setHandover({ ...handover, relationship: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">{t('lost.handover.idProofType')}</label>
+                                <select
+                                    className="w-full border p-2 rounded"
+                                    value={handover.id_proof_type}
+                                    onChange={e => setHandover({ ...handover, id_proof_type: e.target.value })}
+                                >
+                                    {ID_PROOF_TYPES.map((type) => (
+                                        <option key={type} value={type}>{t(`lost.idProof.${type}`)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">{t('lost.handover.idProofNumber')}</label>
+                                <input
+                                    type="text"
+                                    className="w-full border p-2 rounded"
+                                    value={handover.id_proof_number}
+                                    onChange={e => setHandover({ ...handover, id_proof_number: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">{t('lost.handover.desk')}</label>
+                            <input
+                                type="text"
+                                className="w-full border p-2 rounded"
+                                value={handover.desk || ''}
+                                onChange={e => setHandover({ ...handover, desk: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">{t('lost.handover.notes')}</label>
+                            <textarea
+                                className="w-full border p-2 rounded"
+                                rows={2}
+                                value={handover.notes || ''}
+                                onChange={e => setHandover({ ...handover, notes: e.target.value })}
+                            />
+                        </div>
+
+                        <button
+                            onClick={submitHandover}
+                            disabled={isSubmitting}
+                            className="w-full bg-green-600 text-white py-3 rounded-lg font-bold hover:bg-green-700 disabled:bg-gray-400"
+                        >
+                            {isSubmitting ? t('lost.submitting') : t('lost.handover.submit')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,16 +1,29 @@
-import { useState, useEffect } from 'react';
-import { CheckCircle, AlertTriangle, Phone } from 'lucide-react';
+import { useCallback, useState } from 'react';
+import { CheckCircle, AlertTriangle, Phone, Link2, X } from 'lucide-react';
 import SelfieCapture from './SelfieCapture';
-import { reportLostFound, matchFace, getLostFoundList, LostPerson } from '../lib/api';
+import LostFoundCases from './LostFoundCases';
+import GroupMembersCard from './GroupMembersCard';
+import { reportLostFound, matchFace, linkLostFoundReports, answerDevoteeSuggestion, LostPerson, VerificationMethod } from '../lib/api';
+import { useLiveEvents } from '../lib/liveEvents';
+import { useAuth } from '../auth/useAuth';
 import { useI18n } from '../i18n/i18n';
 
+const VERIFICATION_METHODS: VerificationMethod[] = ['face_match', 'photo_id', 'family_photo', 'personal_details', 'other'];
+
+type Match = { person: LostPerson; distance: number; similarity: number };
+
 export default function LostFoundDashboard() {
     const { t } = useI18n();
-    const [view, setView] = useState<'home' | 'report' | 'found' | 'list'>('home');
-    const [recentMissing, setRecentMissing] = useState<LostPerson[]>([]);
+    const { user, can } = useAuth();
+    const [view, setView] = useState<'home' | 'report' | 'reported' | 'found' | 'list'>('home');
+    const [casesRefresh, setCasesRefresh] = useState(0);
     const [showCamera, setShowCamera] = useState(false);
     const [scanMode, setScanMode] = useState<'report' | 'match'>('report');
 
+    // Reports filed and matches found at other desks show up in the case list as they happen
+    const refreshCases = useCallback(() => setCasesRefresh(n => n + 1), []);
+    useLiveEvents(['lost_person.reported', 'face.match'], refreshCases, refreshCases);
+
     // Form state for reporting
     const [formData, setFormData] = useState<Partial<LostPerson>>({
         name: '',
@@ -19,22 +32,16 @@ export default function LostFoundDashboard() {
         status: 'missing'
     });
     const [isSubmitting, setIsSubmitting] = useState(false);
+    // A report that looks like a registered devotee: the desk confirms it, then can call the rest of their group
+    const [reported, setReported] = useState<LostPerson | null>(null);
+    const [answering, setAnswering] = useState(false);
 
     // Match state
-    const [matches, setMatches] = useState<any[]>([]);
-
-    useEffect(() => {
-        loadRecent();
-    }, []);
-
-    const loadRecent = async () => {
-        try {
-            const data = await getLostFoundList('missing');
-            setRecentMissing(data);
-        } catch (e) {
-            console.error(e);
-        }
-    };
+    const [matches, setMatches] = useState<Match[]>([]);
+    // The face scanned at the desk, kept so a confirmed match can file it as a "found" report
+    const [scannedFace, setScannedFace] = useState<Partial<LostPerson> | null>(null);
+    const [confirming, setConfirming] = useState<Match | null>(null);
+    const [verification, setVerification] = useState<{ method: VerificationMethod; notes: string }>({ method: 'face_match', notes: '' });
 
     const handleCapture = async (imageData: string, descriptor: number[] | null, demographics?: any) => {
         setShowCamera(false);
@@ -48,6 +55,12 @@ export default function LostFoundDashboard() {
 
         if (scanMode === 'match') {
             // Find Match
+            setScannedFace({
+                photo_url: imageData,
+                face_descriptor: descriptorArray,
+                age: demographics?.age,
+                gender: demographics?.gender || 'Unknown'
+            });
             try {
                 const results = await matchFace(descriptorArray, 'missing');
                 setMatches(results.matches);
@@ -72,14 +85,19 @@ export default function LostFoundDashboard() {
     const submitReport = async () => {
         setIsSubmitting(true);
         try {
-            await reportLostFound({
+            const result = await reportLostFound({
                 ...formData,
                 // Ensure descriptor is present
                 face_descriptor: formData.face_descriptor
             });
+            setCasesRefresh(n => n + 1);
+            if (result.group || result.suggested_devotee) {
+                setReported(result);
+                setView('reported');
+                return;
+            }
             alert('Report submitted successfully');
             setView('home');
-            loadRecent();
         } catch (e: any) {
             console.error(e);
             alert(`Failed to submit report: ${e.message} `);
@@ -88,6 +106,53 @@ export default function LostFoundDashboard() {
         }
     };
 
+    const answerSuggestion = async (confirm: boolean) => {
+        if (!reported?._id) return;
+        setAnswering(true);
+        try {
+            const updated = await answerDevoteeSuggestion(reported._id, confirm);
+            if (updated.group) {
+                setReported(updated);
+            } else {
+                setReported(null);
+                setView('home');
+            }
+        } catch (e) {
+            alert(t('lost.suggested.failed', { message: (e as Error).message }));
+        } finally {
+            setAnswering(false);
+        }
+    };
+
+    const confirmMatch = async () => {
+        if (!confirming?.person._id || !scannedFace) return;
+        setIsSubmitting(true);
+        try {
+            // File the person standing at the desk as "found", then link it to the missing report
+            const found = await reportLostFound({
+                ...scannedFace,
+                status: 'found',
+                current_location: user?.medical_center
+            });
+            if (found.pending_sync || !found._id) {
+                alert(t('lost.confirm.offline'));
+                return;
+            }
+            await linkLostFoundReports(found._id, confirming.person._id, {
+                verification_method: verification.method,
+                similarity: confirming.similarity,
+                notes: verification.notes
+            });
+            setConfirming(null);
+            setCasesRefresh(n => n + 1);
+            setView('home');
+        } catch (e: any) {
+            alert(t('lost.confirm.failed', { message: e.message }));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
     return (
         <div className="max-w-4xl mx-auto p-4 space-y-6">
             <header className="flex items-center justify-between mb-6">
@@ -137,24 +202,10 @@ export default function LostFoundDashboard() {
                         </div>
                     </div>
 
-                    {/* Recent Missing List */}
+                    {/* Open cases and reunification history */}
                     <div>
-                        <h2 className="text-lg font-semibold mb-3">{t('lost.recent')}</h2>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                            {recentMissing.map((person) => (
-                                <div key={person._id} className="bg-white border rounded-lg overflow-hidden shadow-sm">
-                                    <img src={person.photo_url} alt={person.name} className="w-full h-40 object-cover" />
-                                    <div className="p-3">
-                                        <h4 className="font-bold truncate">{person.name || 'Unknown'}</h4>
-                                        <p className="text-xs text-gray-500">{person.gender}, {person.age}y</p>
-                                        <p className="text-xs text-red-500 font-medium mt-1 uppercase">{t('lost.badge.missing')}</p>
-                                    </div>
-                                </div>
-                            ))}
-                            {recentMissing.length === 0 && (
-                                <p className="text-gray-500 italic col-span-full">{t('lost.noActive')}</p>
-                            )}
-                        </div>
+                        <h2 className="text-lg font-semibold mb-3">{t('lost.cases')}</h2>
+                        <LostFoundCases refreshKey={casesRefresh} />
                     </div>
                 </div>
             )}
@@ -224,6 +275,73 @@ export default function LostFoundDashboard() {
                 </div>
             )}
 
+            {view === 'reported' && reported && !reported.group && reported.suggested_devotee && (
+                <div className="bg-white p-6 rounded-lg shadow-sm border space-y-4 max-w-lg mx-auto">
+                    <div className="flex items-center gap-3">
+                        <CheckCircle className="w-8 h-8 text-green-600 flex-shrink-0" />
+                        <div>
+                            <h2 className="text-xl font-bold">{t('lost.reported.title')}</h2>
+                            <p className="text-sm text-gray-600">{t('lost.suggested.hint')}</p>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        {[
+                            { label: t('lost.suggested.reported'), photo: reported.photo_url, name: reported.name, age: reported.age },
+                            {
+                                label: t('lost.suggested.registered', { number: reported.suggested_devotee.registration_number }),
+                                photo: reported.suggested_devotee.photo_url,
+                                name: reported.suggested_devotee.full_name,
+                                age: reported.suggested_devotee.age,
+                            },
+                        ].map((side) => (
+                            <div key={side.label} className="text-center space-y-1">
+                                <p className="text-xs font-semibold text-gray-500">{side.label}</p>
+                                {side.photo && <img src={side.photo} alt={side.name} className="w-full aspect-square object-cover rounded-lg" />}
+                                <p className="font-medium">{side.name}{side.age != null && `, ${side.age}`}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-sm text-gray-600 text-center">
+                        {t('lost.suggested.similarity', { percent: Math.round(reported.suggested_devotee.similarity * 100) })}
+                    </p>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={() => answerSuggestion(false)}
+                            disabled={answering}
+                            className="flex-1 py-3 rounded-lg font-bold border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            {t('lost.suggested.dismiss')}
+                        </button>
+                        <button
+                            onClick={() => answerSuggestion(true)}
+                            disabled={answering}
+                            className="flex-1 bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700 disabled:bg-gray-400"
+                        >
+                            {t('lost.suggested.confirm')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {view === 'reported' && reported?.group && (
+                <div className="bg-white p-6 rounded-lg shadow-sm border space-y-4 max-w-lg mx-auto">
+                    <div className="flex items-center gap-3">
+                        <CheckCircle className="w-8 h-8 text-green-600 flex-shrink-0" />
+                        <div>
+                            <h2 className="text-xl font-bold">{t('lost.reported.title')}</h2>
+                            <p className="text-sm text-gray-600">{t('lost.reported.groupHint', { name: reported.name })}</p>
+                        </div>
+                    </div>
+                    <GroupMembersCard group={reported.group} excludeId={reported.devotee_id || undefined} />
+                    <button
+                        onClick={() => setView('home')}
+                        className="w-full bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700"
+                    >
+                        {t('lost.reported.done')}
+                    </button>
+                </div>
+            )}
+
             {view === 'found' && (
                 <div className="space-y-6">
                     <h2 className="text-xl font-bold text-center">{t('lost.match.title')}</h2>
@@ -235,7 +353,7 @@ export default function LostFoundDashboard() {
                             <p className="text-gray-600">{t('lost.match.noneDesc')}</p>
                             <button
                                 onClick={() => {
-                                    setFormData({ status: 'found' }); // Start a "Found" report
+                                    setFormData({ ...scannedFace, status: 'found' }); // Start a "Found" report
                                     setView('report');
                                 }}
                                 className="mt-4 text-blue-600 font-medium underline"
@@ -260,11 +378,26 @@ export default function LostFoundDashboard() {
                                             {t('lost.match.reportedBy')} <span className="font-medium">{m.person.contact_info?.phone || 'Unknown'}</span>
                                         </p>
                                         <p className="text-xs text-gray-400 mt-1">
-                                            {t('lost.match.missingSince')} {new Date(m.person.created_at).toLocaleDateString()}
+                                            {t('lost.match.missingSince')} {m.person.created_at && new Date(m.person.created_at).toLocaleDateString()}
                                         </p>
-                                        <button className="mt-2 bg-green-600 text-white text-sm px-4 py-2 rounded-lg flex items-center gap-2">
-                                            <Phone className="w-4 h-4" /> {t('lost.match.call')}
-                                        </button>
+                                        <div className="mt-2 flex flex-wrap gap-2">
+                                            <button className="bg-green-600 text-white text-sm px-4 py-2 rounded-lg flex items-center gap-2">
+                                                <Phone className="w-4 h-4" /> {t('lost.match.call')}
+                                            </button>
+                                            {m.person.linked_report ? (
+                                                <span className="text-xs text-blue-700 font-semibold self-center">{t('lost.match.alreadyLinked')}</span>
+                                            ) : can('lost-found:resolve') && (
+                                                <button
+                                                    onClick={() => {
+                                                        setVerification({ method: 'face_match', notes: '' });
+                                                        setConfirming(m);
+                                                    }}
+                                                    className="border border-blue-600 text-blue-700 text-sm px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-50"
+                                                >
+                                                    <Link2 className="w-4 h-4" /> {t('lost.match.confirm')}
+                                                </button>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             ))}
@@ -273,6 +406,54 @@ export default function LostFoundDashboard() {
                 </div>
             )}
 
+            {confirming && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold">{t('lost.confirm.title')}</h3>
+                            <button onClick={() => setConfirming(null)} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <div className="flex justify-center gap-4">
+                            <img src={scannedFace?.photo_url} alt="Scanned" className="w-24 h-24 object-cover rounded-md border" />
+                            <img src={confirming.person.photo_url} alt={confirming.person.name} className="w-24 h-24 object-cover rounded-md border" />
+                        </div>
+                        <p className="text-sm text-gray-600 text-center">
+                            {t('lost.confirm.desc', { name: confirming.person.name || 'Unknown' })}
+                        </p>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">{t('lost.confirm.method')}</label>
+                            <select
+                                className="w-full border p-2 rounded"
+                                value={verification.method}
+                                onChange={e => setVerification({ ...verification, method: e.target.value as VerificationMethod })}
+                            >
+                                {VERIFICATION_METHODS.map((method) => (
+                                    <option key={method} value={method}>{t(`lost.verify.${method}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">{t('lost.handover.notes')}</label>
+                            <textarea
+                                className="w-full border p-2 rounded"
+                                rows={2}
+                                value={verification.notes}
+                                onChange={e => setVerification({ ...verification, notes: e.target.value })}
+                            />
+                        </div>
+                        <button
+                            onClick={confirmMatch}
+                            disabled={isSubmitting}
+                            className="w-full bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700 disabled:bg-gray-400"
+                        >
+                            {isSubmitting ? t('lost.submitting') : t('lost.confirm.submit')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {showCamera && (
                 <SelfieCapture
                     onCapture={handleCapture}
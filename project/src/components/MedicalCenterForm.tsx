@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Loader2, Trash2, X } from 'lucide-react';
+import {
+  createMedicalCenter,
+  deleteMedicalCenter,
+  updateMedicalCenter,
+  ApiError,
+  CenterType,
+  MedicalCenter,
+  MedicalCenterPayload,
+} from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+const CENTER_TYPES: CenterType[] = ['hospital', 'camp', 'first_aid_post', 'ambulance_point'];
+
+type MedicalCenterFormProps = {
+  // An existing center to edit, or just the coordinates picked on the map for a new one
+  center: MedicalCenter | { latitude: number; longitude: number };
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function MedicalCenterForm({ center, onClose, onSaved }: MedicalCenterFormProps) {
+  const { t } = useI18n();
+  const existing = 'id' in center ? center : null;
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<MedicalCenterPayload>({
+    name: existing?.name || '',
+    type: existing?.type || 'camp',
+    latitude: center.latitude,
+    longitude: center.longitude,
+    sector: existing?.sector || '',
+    capacity: existing?.capacity || { beds: 0, ambulances: 0 },
+    contact: existing?.contact || { person: '', phone: '' },
+    operating_hours: existing?.operating_hours || { always_open: true, opens: '', closes: '' },
+    active: existing?.active ?? true,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      if (existing) {
+        await updateMedicalCenter(existing.id, form);
+      } else {
+        await createMedicalCenter(form);
+      }
+      onSaved();
+    } catch (error) {
+      alert(t('centers.saveFailed', { message: (error as Error).message }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!existing || !window.confirm(t('centers.deleteConfirm', { name: existing.name }))) return;
+    try {
+      await deleteMedicalCenter(existing.id);
+      onSaved();
+    } catch (error) {
+      // 409: the center has incidents on record and can only be deactivated
+      alert(error instanceof ApiError && error.status === 409 ? t('centers.deleteInUse') : (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[1000]">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">{existing ? t('centers.edit') : t('centers.add')}</h2>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.name')}</label>
+            <input required className={inputClass} value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.type')}</label>
+              <select className={inputClass} value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as CenterType })}>
+                {CENTER_TYPES.map((type) => (
+                  <option key={type} value={type}>{t(`centers.type.${type}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.sector')}</label>
+              <input className={inputClass} value={form.sector} onChange={(e) => setForm({ ...form, sector: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.latitude')}</label>
+              <input
+                type="number"
+                step="any"
+                required
+                className={inputClass}
+                value={form.latitude}
+                onChange={(e) => setForm({ ...form, latitude: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.longitude')}</label>
+              <input
+                type="number"
+                step="any"
+                required
+                className={inputClass}
+                value={form.longitude}
+                onChange={(e) => setForm({ ...form, longitude: parseFloat(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.beds')}</label>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={form.capacity.beds}
+                onChange={(e) => setForm({ ...form, capacity: { ...form.capacity, beds: parseInt(e.target.value, 10) || 0 } })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.ambulances')}</label>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={form.capacity.ambulances}
+                onChange={(e) => setForm({ ...form, capacity: { ...form.capacity, ambulances: parseInt(e.target.value, 10) || 0 } })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.contactPerson')}</label>
+              <input
+                className={inputClass}
+                value={form.contact.person}
+                onChange={(e) => setForm({ ...form, contact: { ...form.contact, person: e.target.value } })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('centers.contactPhone')}</label>
+              <input
+                type="tel"
+                className={inputClass}
+                value={form.contact.phone}
+                onChange={(e) => setForm({ ...form, contact: { ...form.contact, phone: e.target.value } })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.operating_hours.always_open}
+                onChange={(e) => setForm({ ...form, operating_hours: { ...form.operating_hours, always_open: e.target.checked } })}
+              />
+              {t('centers.alwaysOpen')}
+            </label>
+            {!form.operating_hours.always_open && (
+              <div className="grid grid-cols-2 gap-4">
+                <input
+                  type="time"
+                  aria-label={t('centers.opens')}
+                  className={inputClass}
+                  value={form.operating_hours.opens}
+                  onChange={(e) => setForm({ ...form, operating_hours: { ...form.operating_hours, opens: e.target.value } })}
+                />
+                <input
+                  type="time"
+                  aria-label={t('centers.closes')}
+                  className={inputClass}
+                  value={form.operating_hours.closes}
+                  onChange={(e) => setForm({ ...form, operating_hours: { ...form.operating_hours, closes: e.target.value } })}
+                />
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} />
+            {t('centers.active')}
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-6 py-4 border-t border-gray-200">
+          {existing ? (
+            <button type="button" onClick={handleDelete} className="inline-flex items-center gap-1 text-sm font-semibold text-red-700 hover:underline">
+              <Trash2 className="w-4 h-4" />
+              {t('centers.delete')}
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-400"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {t('centers.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
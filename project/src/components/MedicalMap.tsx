@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Circle, Popup, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { MapPin, Plus, X } from 'lucide-react';
+import { getIncidentsByCenter, getMedicalCenters, CenterIncidentCount, CenterType, MedicalCenter } from '../lib/api';
+import { MAP_CONFIG } from '../lib/mapConfig';
+import { useAuth } from '../auth/useAuth';
+import { useI18n } from '../i18n/i18n';
+import MedicalCenterForm from './MedicalCenterForm';
+
+const TYPE_COLORS: Record<CenterType, string> = {
+  hospital: '#dc2626',
+  camp: '#2563eb',
+  first_aid_post: '#16a34a',
+  ambulance_point: '#d97706',
+};
+
+const HEAT_WINDOWS = [6, 24, 72];
+
+// Heat circles grow with the square root of the count so one busy hospital doesn't swamp the map
+const heatRadius = (total: number) => 60 + Math.sqrt(total) * 60;
+
+function PickLocation({ onPick }: { onPick: (latitude: number, longitude: number) => void }) {
+  useMapEvents({
+    click: (e) => onPick(e.latlng.lat, e.latlng.lng),
+  });
+  return null;
+}
+
+export default function MedicalMap() {
+  const { t } = useI18n();
+  const { can } = useAuth();
+  const canManage = can('centers:manage');
+  const canSeeHeat = can('analytics:read');
+
+  const [centers, setCenters] = useState<MedicalCenter[]>([]);
+  const [heat, setHeat] = useState<CenterIncidentCount[]>([]);
+  const [hours, setHours] = useState(24);
+  const [showHeat, setShowHeat] = useState(true);
+  const [placing, setPlacing] = useState(false);
+  const [editing, setEditing] = useState<MedicalCenter | { latitude: number; longitude: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCenters = useCallback(async () => {
+    try {
+      setCenters(await getMedicalCenters(canManage));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [canManage]);
+
+  useEffect(() => {
+    loadCenters();
+  }, [loadCenters]);
+
+  useEffect(() => {
+    if (!canSeeHeat) return;
+    getIncidentsByCenter(hours)
+      .then((data) => setHeat(data.centers))
+      .catch((err) => console.error('Failed to load incident heat:', err));
+  }, [hours, canSeeHeat]);
+
+  const heatByCenter = useMemo(
+    () => new Map(heat.filter((h) => h.center_id).map((h) => [h.center_id as string, h])),
+    [heat]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {canSeeHeat && (
+          <>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={showHeat} onChange={(e) => setShowHeat(e.target.checked)} />
+              {t('map.showHeat')}
+            </label>
+            <select
+              value={hours}
+              onChange={(e) => setHours(Number(e.target.value))}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+              aria-label={t('map.window')}
+            >
+              {HEAT_WINDOWS.map((h) => (
+                <option key={h} value={h}>{t('map.lastHours', { hours: h })}</option>
+              ))}
+            </select>
+          </>
+        )}
+        {canManage && (
+          <button
+            onClick={() => setPlacing(!placing)}
+            className={`ml-auto inline-flex items-center gap-1 px-3 py-1.5 rounded-md text-sm font-semibold ${placing ? 'bg-gray-200 text-gray-800' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+          >
+            {placing ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            {placing ? t('map.cancelPlace') : t('centers.add')}
+          </button>
+        )}
+      </div>
+
+      {placing && <p className="text-sm text-blue-800 bg-blue-50 rounded-md px-3 py-2">{t('map.placeHint')}</p>}
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 h-[32rem] rounded-lg overflow-hidden border border-gray-200 shadow-sm">
+          <MapContainer center={MAP_CONFIG.center} zoom={MAP_CONFIG.zoom} className="h-full w-full">
+            <TileLayer url={MAP_CONFIG.tileUrl} attribution={MAP_CONFIG.attribution} maxZoom={MAP_CONFIG.maxZoom} />
+
+            {placing && (
+              <PickLocation
+                onPick={(latitude, longitude) => {
+                  setPlacing(false);
+                  setEditing({ latitude, longitude });
+                }}
+              />
+            )}
+
+            {showHeat && canSeeHeat && heat
+              .filter((h) => h.latitude !== null && h.longitude !== null)
+              .map((h) => (
+                <Circle
+                  key={`heat-${h.center_id}`}
+                  center={[h.latitude as number, h.longitude as number]}
+                  radius={heatRadius(h.total)}
+                  pathOptions={{ stroke: false, fillColor: '#ef4444', fillOpacity: Math.min(0.15 + h.emergencies / Math.max(h.total, 1) * 0.4, 0.55) }}
+                />
+              ))}
+
+            {centers.map((center) => {
+              const counts = heatByCenter.get(center.id);
+              return (
+                <CircleMarker
+                  key={center.id}
+                  center={[center.latitude, center.longitude]}
+                  radius={8}
+                  pathOptions={{ color: '#fff', weight: 2, fillColor: TYPE_COLORS[center.type], fillOpacity: center.active ? 1 : 0.35 }}
+                >
+                  <Popup>
+                    <div className="space-y-1 text-sm">
+                      <p className="font-bold">{center.name}</p>
+                      <p>{t(`centers.type.${center.type}`)}{center.sector && ` · ${center.sector}`}</p>
+                      {!center.active && <p className="text-red-700 font-semibold">{t('centers.inactive')}</p>}
+                      <p>{t('map.capacity', { beds: center.capacity.beds, ambulances: center.capacity.ambulances })}</p>
+                      <p>
+                        {center.operating_hours.always_open
+                          ? t('centers.alwaysOpen')
+                          : `${center.operating_hours.opens}–${center.operating_hours.closes}`}
+                      </p>
+                      {center.contact.phone && <p>{center.contact.person} · {center.contact.phone}</p>}
+                      {counts && <p className="font-semibold">{t('map.incidents', { total: counts.total, emergencies: counts.emergencies, hours })}</p>}
+                      {canManage && (
+                        <button onClick={() => setEditing(center)} className="text-blue-700 font-semibold hover:underline">
+                          {t('centers.edit')}
+                        </button>
+                      )}
+                    </div>
+                  </Popup>
+                </CircleMarker>
+              );
+            })}
+          </MapContainer>
+        </div>
+
+        <div className="space-y-4">
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <h3 className="font-semibold text-gray-900 mb-2">{t('map.legend')}</h3>
+            <ul className="space-y-1 text-sm">
+              {(Object.keys(TYPE_COLORS) as CenterType[]).map((type) => (
+                <li key={type} className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: TYPE_COLORS[type] }} />
+                  {t(`centers.type.${type}`)}
+                  <span className="ml-auto text-gray-500">{centers.filter((c) => c.type === type).length}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {canSeeHeat && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h3 className="font-semibold text-gray-900 mb-2">{t('map.byFacility', { hours })}</h3>
+              {heat.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('map.noIncidents')}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {heat.map((h) => (
+                      <tr key={h.center_id || h.name} className="border-t border-gray-100">
+                        <td className="py-1 pr-2">
+                          <span className="flex items-center gap-1">
+                            <MapPin className={`w-3 h-3 ${h.center_id ? 'text-blue-600' : 'text-gray-300'}`} />
+                            {h.name}
+                          </span>
+                        </td>
+                        <td className="py-1 text-right font-semibold">{h.total}</td>
+                        <td className="py-1 pl-2 text-right text-red-700">{h.emergencies}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <MedicalCenterForm
+          center={editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            loadCenters();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,28 +1,94 @@
 import { useState, useEffect } from 'react';
-import { MedicalIncident, getIncidents, DevoteeWithRecord } from '../lib/api';
-import { X, AlertCircle, User, Heart, Activity, FileText, Clock, Edit, ArrowLeft } from 'lucide-react';
+import { MedicalIncident, getIncidents, DevoteeWithRecord, AuditEvent, getDevoteeHistory, rememberProfile, DevoteeGroup, getGroup, downloadFhirBundle, reviewPrescription } from '../lib/api';
+import { X, AlertCircle, User, Heart, Activity, FileText, Clock, Edit, ArrowLeft, History, CreditCard, Plus, FileDown, Loader2 } from 'lucide-react';
 import RegistrationForm from './RegistrationForm';
+import HealthCard from './HealthCard';
+import ObservationForm from './ObservationForm';
+import TriageBadge from './TriageBadge';
+import VitalsTrendChart from './VitalsTrendChart';
+import IncidentLifecycle from './IncidentLifecycle';
+import IncidentForm from './IncidentForm';
+import FollowUpControls from './FollowUpControls';
+import GroupMembersCard from './GroupMembersCard';
+import { summarizeVitals, TRIAGE_STYLES, UNTRIAGED_STYLE } from '../lib/vitals';
+import { CLOSED_STATUSES, STATUS_STYLES } from '../lib/incidentStatus';
+import { describeEntries } from '../lib/terminology';
 import { useI18n } from '../i18n/i18n';
+import { useAuth } from '../auth/useAuth';
+import { saveBlob } from '../utils/saveBlob';
 
 type ProfileProps = {
   devotee: DevoteeWithRecord;
   refreshToken?: number;
   onClose: () => void;
-  onRecordIncident: (devoteeId: string, devoteeName: string) => void;
+  // followUpOf: the incident whose scheduled follow-up the new incident completes
+  onRecordIncident: (devoteeId: string, devoteeName: string, followUpOf?: string) => void;
   onDevoteeUpdate?: (updatedDevotee: DevoteeWithRecord) => void;
 };
 
 export default function MedicalProfile({ devotee, refreshToken, onClose, onRecordIncident, onDevoteeUpdate }: ProfileProps) {
   const { t } = useI18n();
+  const { can } = useAuth();
   const [incidents, setIncidents] = useState<MedicalIncident[]>([]);
   const [loading, setLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
+  const [showHealthCard, setShowHealthCard] = useState(false);
+  const [activeTab, setActiveTab] = useState<'overview' | 'history'>('overview');
+  const [history, setHistory] = useState<AuditEvent[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [observingId, setObservingId] = useState<string | null>(null);
+  const [editingIncident, setEditingIncident] = useState<MedicalIncident | null>(null);
+  const [group, setGroup] = useState<DevoteeGroup | null>(null);
+  const [exportingFhir, setExportingFhir] = useState(false);
 
   useEffect(() => {
     setLoading(true);
     loadIncidents();
   }, [devotee.id, refreshToken]);
 
+  useEffect(() => {
+    rememberProfile(devotee);
+  }, [devotee]);
+
+  const handleFhirExport = async () => {
+    setExportingFhir(true);
+    try {
+      saveBlob(await downloadFhirBundle(devotee.id), `${devotee.registration_number}-fhir.json`);
+    } catch (error) {
+      alert(t('profile.fhirExportFailed', { message: (error as Error).message }));
+    } finally {
+      setExportingFhir(false);
+    }
+  };
+
+  const handlePrescriptionReview = async (incident: MedicalIncident) => {
+    const note = window.prompt(t('interactions.reviewNote'));
+    if (!note?.trim()) return;
+    try {
+      const updated = await reviewPrescription(incident.id, note);
+      setIncidents((prev) => prev.map((i) => (i.id === updated.id ? updated : i)));
+    } catch (error) {
+      alert(t('interactions.reviewFailed', { message: (error as Error).message }));
+    }
+  };
+
+  useEffect(() => {
+    setGroup(null);
+    if (!devotee.group_id) return;
+    getGroup(devotee.group_id)
+      .then(setGroup)
+      .catch((error) => console.error('Failed to load group:', error));
+  }, [devotee.group_id]);
+
+  useEffect(() => {
+    if (activeTab !== 'history') return;
+    setHistoryLoading(true);
+    getDevoteeHistory(devotee.id)
+      .then((data) => setHistory(data || []))
+      .catch((error) => console.error('Failed to load history:', error))
+      .finally(() => setHistoryLoading(false));
+  }, [activeTab, devotee.id, refreshToken]);
+
   const loadIncidents = async () => {
     try {
       const data = await getIncidents(devotee.id);
@@ -72,11 +138,35 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
               {!isEditing && (
                 <p className="text-sm text-gray-600">
                   {t('profile.registration')} {devotee.registration_number}
+                  {devotee.abha_number && <span className="ml-3">{t('profile.abha')} {devotee.abha_number}</span>}
                 </p>
               )}
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {!isEditing && !devotee.pending_sync && (
+              <button
+                onClick={() => setShowHealthCard(true)}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors text-orange-600"
+                aria-label={t('card.title')}
+                title={t('card.title')}
+              >
+                <CreditCard className="w-5 h-5" aria-hidden="true" />
+              </button>
+            )}
+            {!isEditing && !devotee.pending_sync && can('data:export') && (
+              <button
+                onClick={handleFhirExport}
+                disabled={exportingFhir}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors text-emerald-700 disabled:opacity-50"
+                aria-label={t('profile.fhirExport')}
+                title={t('profile.fhirExport')}
+              >
+                {exportingFhir
+                  ? <Loader2 className="w-5 h-5 animate-spin" aria-hidden="true" />
+                  : <FileDown className="w-5 h-5" aria-hidden="true" />}
+              </button>
+            )}
             {!isEditing && onDevoteeUpdate && (
               <button
                 onClick={() => setIsEditing(true)}
@@ -110,6 +200,36 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
             />
           </div>
         ) : (
+          <>
+          {can('audit:read') && (
+            <div className="flex gap-2 border-b border-gray-200 px-6 pt-2">
+              <button
+                onClick={() => setActiveTab('overview')}
+                className={`px-4 py-2 text-sm font-semibold transition-colors ${activeTab === 'overview'
+                  ? 'border-b-2 border-blue-600 text-blue-600'
+                  : 'text-gray-600 hover:text-blue-600'
+                  }`}
+              >
+                {t('profile.tab.overview')}
+              </button>
+              <button
+                onClick={() => setActiveTab('history')}
+                className={`px-4 py-2 text-sm font-semibold transition-colors flex items-center gap-1 ${activeTab === 'history'
+                  ? 'border-b-2 border-blue-600 text-blue-600'
+                  : 'text-gray-600 hover:text-blue-600'
+                  }`}
+              >
+                <History className="w-4 h-4" />
+                {t('profile.tab.history')}
+              </button>
+            </div>
+          )}
+
+          {activeTab === 'history' ? (
+            <div className="p-6">
+              <ChangeLog events={history} loading={historyLoading} />
+            </div>
+          ) : (
           <div className="p-6 space-y-6">
             <div className="bg-red-50 border border-red-200 rounded-lg p-4">
               <h3 className="font-semibold text-red-900 mb-2 flex items-center gap-2">
@@ -128,6 +248,8 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
               </div>
             </div>
 
+            {group && <GroupMembersCard group={group} excludeId={devotee.id} />}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
                 <h3 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
@@ -190,19 +312,19 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                 <div>
                   <dt className="text-yellow-700 font-medium mb-1">{t('profile.allergies')}</dt>
-                  <dd className="text-yellow-900">{medicalRecord?.allergies || t('profile.noneReported')}</dd>
+                  <dd className="text-yellow-900">{describeEntries(medicalRecord?.allergies) || t('profile.noneReported')}</dd>
                 </div>
                 <div>
                   <dt className="text-yellow-700 font-medium mb-1">{t('profile.chronic')}</dt>
-                  <dd className="text-yellow-900">{medicalRecord?.chronic_conditions || t('profile.noneReported')}</dd>
+                  <dd className="text-yellow-900">{describeEntries(medicalRecord?.chronic_conditions) || t('profile.noneReported')}</dd>
                 </div>
                 <div>
                   <dt className="text-yellow-700 font-medium mb-1">{t('profile.meds')}</dt>
-                  <dd className="text-yellow-900">{medicalRecord?.current_medications || t('profile.none')}</dd>
+                  <dd className="text-yellow-900">{describeEntries(medicalRecord?.current_medications) || t('profile.none')}</dd>
                 </div>
                 <div>
                   <dt className="text-yellow-700 font-medium mb-1">{t('profile.surgeries')}</dt>
-                  <dd className="text-yellow-900">{medicalRecord?.past_surgeries || t('profile.none')}</dd>
+                  <dd className="text-yellow-900">{describeEntries(medicalRecord?.past_surgeries) || t('profile.none')}</dd>
                 </div>
                 {medicalRecord?.special_notes && (
                   <div className="md:col-span-2">
@@ -233,6 +355,7 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
                 <p className="text-gray-500 text-sm">{t('profile.noIncidents')}</p>
               ) : (
                 <div className="space-y-3">
+                  <VitalsTrendChart incidents={incidents} />
                   {incidents.map((incident) => (
                     <div key={incident.id} className="bg-gray-50 rounded-lg p-3 border border-gray-200">
                       <div className="flex items-start justify-between mb-2">
@@ -250,6 +373,12 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
                               {t('profile.followUpRequired')}
                             </span>
                           )}
+                          {incident.status && (
+                            <span className={`text-xs px-2 py-1 rounded font-medium ${STATUS_STYLES[incident.status]}`}>
+                              {t(`incident.status.${incident.status}`)}
+                            </span>
+                          )}
+                          {incident.triage && <TriageBadge triage={incident.triage} />}
                         </div>
                         <div className="flex items-center gap-1 text-xs text-gray-600">
                           <Clock className="w-3 h-3" />
@@ -279,6 +408,48 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
                             <span className="ml-2 text-gray-900">{incident.medications_prescribed}</span>
                           </div>
                         )}
+                        {incident.prescription_check?.override && (
+                          <div className="text-xs bg-red-50 border border-red-200 text-red-900 rounded px-2 py-1">
+                            <span className="font-medium">
+                              {t('interactions.overridden', { name: incident.prescription_check.override.by?.full_name || '' })}
+                            </span>{' '}
+                            {incident.prescription_check.warnings
+                              .filter((w) => w.severity === 'blocking')
+                              .map((w) => w.reason)
+                              .join('; ')}
+                            <p className="mt-1 italic">{incident.prescription_check.override.reason}</p>
+                          </div>
+                        )}
+                        {incident.prescription_check?.review && (
+                          <div
+                            className={`text-xs rounded px-2 py-1 border ${
+                              incident.prescription_check.review.status === 'pending'
+                                ? 'bg-red-50 border-red-300 text-red-900'
+                                : 'bg-gray-50 border-gray-200 text-gray-700'
+                            }`}
+                          >
+                            <span className="font-medium">
+                              {incident.prescription_check.review.status === 'pending'
+                                ? t('interactions.reviewPending')
+                                : t('interactions.reviewed', { name: incident.prescription_check.review.reviewed_by?.full_name || '' })}
+                            </span>{' '}
+                            {incident.prescription_check.warnings
+                              .filter((w) => incident.prescription_check?.review?.keys.includes(w.key))
+                              .map((w) => w.reason)
+                              .join('; ')}
+                            {incident.prescription_check.review.note && (
+                              <p className="mt-1 italic">{incident.prescription_check.review.note}</p>
+                            )}
+                            {incident.prescription_check.review.status === 'pending' && can('incidents:update') && (
+                              <button
+                                onClick={() => handlePrescriptionReview(incident)}
+                                className="block mt-1 font-semibold text-red-700 hover:underline"
+                              >
+                                {t('interactions.markReviewed')}
+                              </button>
+                            )}
+                          </div>
+                        )}
                         <div className="flex gap-4 text-xs text-gray-600 pt-1 border-t border-gray-200 mt-2">
                           <span>
                             {t('profile.doctor')} {incident.attending_doctor}
@@ -293,6 +464,65 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
                             <p className="text-xs text-gray-900 mt-1">{incident.follow_up_notes}</p>
                           </div>
                         )}
+                        {!incident.pending_sync && (
+                          <FollowUpControls
+                            incident={incident}
+                            candidates={incidents.filter((c) => c.incident_type === 'Follow-up' && !c.follow_up_of && c.id !== incident.id
+                              && !c.pending_sync && new Date(c.incident_date) >= new Date(incident.incident_date))}
+                            onRecordVisit={() => onRecordIncident(devotee.id, devotee.full_name, incident.id)}
+                            onChanged={loadIncidents}
+                          />
+                        )}
+                        {incident.follow_up_of && (
+                          <p className="mt-1 text-xs text-blue-700">{t('followUp.linkedVisit')}</p>
+                        )}
+                        {incident.observations && incident.observations.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-gray-200">
+                            <span className="font-medium text-gray-700 text-xs">{t('vitals.observations', { count: incident.observations.length })}</span>
+                            <ul className="mt-1 space-y-1">
+                              {[...incident.observations].reverse().map((o) => (
+                                <li key={o.id} className="flex items-start gap-2 text-xs">
+                                  <span className={`mt-0.5 w-2.5 h-2.5 rounded-full flex-shrink-0 ${o.triage_category ? TRIAGE_STYLES[o.triage_category] : UNTRIAGED_STYLE}`} title={t(o.triage_category ? `triage.${o.triage_category}` : 'triage.untriaged')} />
+                                  <span className="text-gray-500 flex-shrink-0">{new Date(o.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                                  <span className="text-gray-900">
+                                    {summarizeVitals(o)}
+                                    <span className="text-gray-500"> · {t('triage.news2', { score: o.news2_score })}</span>
+                                    {o.glucose_flag && <span className="ml-1 font-semibold text-red-700">{t(`vitals.flag.${o.glucose_flag}`)}</span>}
+                                    {o.notes && <span className="text-gray-600"> — {o.notes}</span>}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {!incident.pending_sync && can('incidents:create') && !CLOSED_STATUSES.includes(incident.status || 'open') && (
+                          observingId === incident.id ? (
+                            <ObservationForm
+                              incidentId={incident.id}
+                              onCancel={() => setObservingId(null)}
+                              onSaved={(updated) => {
+                                setIncidents((prev) => prev.map((i) => (i.id === updated.id ? updated : i)));
+                                setObservingId(null);
+                              }}
+                            />
+                          ) : (
+                            <button
+                              onClick={() => setObservingId(incident.id)}
+                              className="mt-2 inline-flex items-center gap-1 text-xs font-semibold text-blue-700 hover:underline"
+                            >
+                              <Plus className="w-3 h-3" />
+                              {t('vitals.addObservation')}
+                            </button>
+                          )
+                        )}
+                        {!incident.pending_sync && can('incidents:update') && (
+                          <IncidentLifecycle
+                            incident={incident}
+                            onEdit={() => setEditingIncident(incident)}
+                            onChanged={(updated) => setIncidents((prev) => prev.map((i) => (i.id === updated.id ? updated : i)))}
+                            onConflict={loadIncidents}
+                          />
+                        )}
                       </div>
                     </div>
                   ))}
@@ -300,8 +530,82 @@ export default function MedicalProfile({ devotee, refreshToken, onClose, onRecor
               )}
             </div>
           </div>
+          )}
+          </>
         )}
       </div>
+
+      {showHealthCard && <HealthCard devoteeId={devotee.id} onClose={() => setShowHealthCard(false)} />}
+      {editingIncident && (
+        <IncidentForm
+          devoteeId={devotee.id}
+          devoteeName={devotee.full_name}
+          incident={editingIncident}
+          onClose={() => setEditingIncident(null)}
+          onSuccess={() => {
+            setEditingIncident(null);
+            loadIncidents();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  return String(value);
+};
+
+function ChangeLog({ events, loading }: { events: AuditEvent[]; loading: boolean }) {
+  const { t } = useI18n();
+
+  if (loading) {
+    return <p className="text-gray-500 text-sm">{t('profile.history.loading')}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-gray-500 text-sm">{t('profile.history.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {events.map((event) => (
+        <div key={event.id} className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+          <div className="flex items-start justify-between mb-2 gap-2">
+            <div className="text-sm">
+              <span className="font-semibold text-gray-900">{t(`audit.action.${event.action}`)}</span>
+              <span className="ml-2 text-gray-600">
+                {t('profile.history.by', { user: event.actor.username, role: t(`role.${event.actor.role}`) })}
+              </span>
+            </div>
+            <div className="flex items-center gap-1 text-xs text-gray-600 flex-shrink-0">
+              <Clock className="w-3 h-3" />
+              {new Date(event.created_at).toLocaleString()}
+              {event.ip && <span className="ml-1 font-mono">({event.ip})</span>}
+            </div>
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium py-1 pr-2">{t('profile.history.field')}</th>
+                <th className="font-medium py-1 pr-2">{t('profile.history.before')}</th>
+                <th className="font-medium py-1">{t('profile.history.after')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {event.changes.map((change) => (
+                <tr key={change.field} className="border-t border-gray-200 align-top">
+                  <td className="py-1 pr-2 font-mono text-gray-700">{change.field}</td>
+                  <td className="py-1 pr-2 text-red-700 line-through decoration-red-300">{formatAuditValue(change.before)}</td>
+                  <td className="py-1 text-green-800">{formatAuditValue(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { addObservation, MedicalIncident } from '../lib/api';
+import { emptyVitalsDraft, parseVitalsDraft, VitalsDraft, VitalsErrors } from '../lib/vitals';
+import { useI18n } from '../i18n/i18n';
+import VitalsFields from './VitalsFields';
+
+type ObservationFormProps = {
+  incidentId: string;
+  onCancel: () => void;
+  onSaved: (incident: MedicalIncident) => void;
+};
+
+// Reassessment of a patient already on an incident: one more set of vitals
+export default function ObservationForm({ incidentId, onCancel, onSaved }: ObservationFormProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<VitalsDraft>(emptyVitalsDraft);
+  const [errors, setErrors] = useState<VitalsErrors>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseVitalsDraft(draft);
+    setErrors(parsed.errors);
+    if (Object.keys(parsed.errors).length > 0) return;
+    if (!parsed.vitals) {
+      setError(t('vitals.error.empty'));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await addObservation(incidentId, { ...parsed.vitals, notes }));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 pt-3 border-t border-gray-200 space-y-3">
+      <VitalsFields
+        value={draft}
+        errors={errors}
+        onChange={(next) => {
+          setDraft(next);
+          setErrors(parseVitalsDraft(next).errors);
+        }}
+      />
+      <input
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder={t('vitals.notesPlaceholder')}
+        className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md">
+          {t('incident.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-sm font-semibold disabled:bg-gray-400"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {t('vitals.save')}
+        </button>
+      </div>
+    </form>
+  );
+}
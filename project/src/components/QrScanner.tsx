@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { QrCode, X } from 'lucide-react';
+import { useI18n } from '../i18n/i18n';
+
+type QrScannerProps = {
+  onDetect: (text: string) => void;
+  onClose: () => void;
+};
+
+// Decoding every frame is wasteful on low-end phones; a few scans a second is plenty
+const SCAN_INTERVAL = 200;
+
+export default function QrScanner({ onDetect, onClose }: QrScannerProps) {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the camera when the parent re-renders
+  const onDetectRef = useRef(onDetect);
+  onDetectRef.current = onDetect;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | null = null;
+    let stopped = false;
+
+    const scan = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (code?.data) {
+            stopped = true;
+            onDetectRef.current(code.data);
+            return;
+          }
+        }
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL);
+    };
+
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+        });
+        if (stopped) return;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        scan();
+      } catch (err) {
+        console.error('Camera error:', err);
+        setError(t('scan.cameraError'));
+      }
+    })();
+
+    return () => {
+      stopped = true;
+      if (timer) window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [t]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <QrCode className="w-5 h-5" />
+            {t('scan.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error ? (
+          <p className="p-6 text-sm text-red-700">{error}</p>
+        ) : (
+          <div className="relative bg-black">
+            <video ref={videoRef} playsInline muted className="w-full aspect-video object-cover" />
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className="w-48 h-48 border-4 border-white/80 rounded-xl" />
+            </div>
+          </div>
+        )}
+        <canvas ref={canvasRef} className="hidden" />
+        <p className="px-4 py-3 text-sm text-gray-600">{t('scan.hint')}</p>
+      </div>
+    </div>
+  );
+}
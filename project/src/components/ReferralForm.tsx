@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Ambulance, Loader2, X } from 'lucide-react';
+import { getMedicalCenters, referIncident, ApiError, MedicalCenter, MedicalIncident, TransportMode } from '../lib/api';
+import { TRANSPORT_MODES } from '../lib/incidentStatus';
+import { useI18n } from '../i18n/i18n';
+
+type ReferralFormProps = {
+  incident: MedicalIncident;
+  onClose: () => void;
+  onSaved: (incident: MedicalIncident) => void;
+  onConflict: () => void;
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function ReferralForm({ incident, onClose, onSaved, onConflict }: ReferralFormProps) {
+  const { t } = useI18n();
+  const [centers, setCenters] = useState<MedicalCenter[]>([]);
+  const [toCenterId, setToCenterId] = useState('');
+  const [transportMode, setTransportMode] = useState<TransportMode>('ambulance');
+  const [handoverNotes, setHandoverNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getMedicalCenters()
+      .then((list) => setCenters(list.filter((c) => c.active && c.id !== incident.current_center_id)))
+      .catch((error) => console.error('Failed to load medical centers:', error));
+  }, [incident.current_center_id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      onSaved(await referIncident(incident.id, {
+        version: incident.version ?? 1,
+        to_center_id: toCenterId,
+        transport_mode: transportMode,
+        handover_notes: handoverNotes,
+      }));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        alert(t('lifecycle.conflict'));
+        onConflict();
+        return;
+      }
+      alert(t('referral.failed', { message: (error as Error).message }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Hospitals first: most referrals out of a camp go up to a hospital
+  const sorted = [...centers].sort((a, b) => Number(b.type === 'hospital') - Number(a.type === 'hospital') || a.name.localeCompare(b.name));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Ambulance className="w-5 h-5 text-purple-600" />
+            {t('referral.title')}
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">{t('referral.from', { center: incident.current_center || incident.medical_center })}</p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('referral.to')}</label>
+            <select required className={inputClass} value={toCenterId} onChange={(e) => setToCenterId(e.target.value)}>
+              <option value="">{t('incident.centerPlaceholder')}</option>
+              {sorted.map((center) => (
+                <option key={center.id} value={center.id}>
+                  {center.name} · {t(`centers.type.${center.type}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('referral.transport')}</label>
+            <select className={inputClass} value={transportMode} onChange={(e) => setTransportMode(e.target.value as TransportMode)}>
+              {TRANSPORT_MODES.map((mode) => (
+                <option key={mode} value={mode}>{t(`referral.transport.${mode}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('referral.handoverNotes')}</label>
+            <textarea
+              rows={3}
+              className={inputClass}
+              value={handoverNotes}
+              onChange={(e) => setHandoverNotes(e.target.value)}
+              placeholder={t('referral.handoverPlaceholder')}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg">
+            {t('incident.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-400"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {t('referral.submit')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Ambulance, Check, Clock, Loader2, RefreshCw, User, X } from 'lucide-react';
+import {
+  getDevotee,
+  getMedicalCenters,
+  getReferrals,
+  respondToReferral,
+  ApiError,
+  DevoteeWithRecord,
+  MedicalCenter,
+  ReferralQueue as ReferralQueueData,
+  ReferralQueueItem,
+} from '../lib/api';
+import { summarizeVitals } from '../lib/vitals';
+import { useAuth } from '../auth/useAuth';
+import { useI18n } from '../i18n/i18n';
+import TriageBadge from './TriageBadge';
+
+type ReferralQueueProps = {
+  onSelectDevotee: (devotee: DevoteeWithRecord) => void;
+};
+
+const STATUS_FILTERS: ReferralQueueData['status'][] = ['pending', 'accepted', 'rejected', 'all'];
+
+// Patients are on their way; keep the queue current without a manual refresh
+const POLL_INTERVAL = 30000;
+
+const minutesSince = (iso: string) => Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 60000));
+
+export default function ReferralQueue({ onSelectDevotee }: ReferralQueueProps) {
+  const { t } = useI18n();
+  const { user, can } = useAuth();
+  const [centers, setCenters] = useState<MedicalCenter[]>([]);
+  const [centerId, setCenterId] = useState('');
+  const [direction, setDirection] = useState<ReferralQueueData['direction']>('inbound');
+  const [status, setStatus] = useState<ReferralQueueData['status']>('pending');
+  const [queue, setQueue] = useState<ReferralQueueData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMedicalCenters()
+      .then((list) => {
+        setCenters(list);
+        const home = list.find((c) => c.id === user?.medical_center_id);
+        setCenterId((prev) => prev || home?.id || list[0]?.id || '');
+        if (list.length === 0) setLoading(false);
+      })
+      .catch((err) => console.error('Failed to load medical centers:', err));
+  }, [user?.medical_center_id]);
+
+  const load = useCallback(async () => {
+    if (!centerId) return;
+    try {
+      setQueue(await getReferrals({ direction, status, centerId }));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [centerId, direction, status]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+    const interval = setInterval(load, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const handleRespond = async (item: ReferralQueueItem, decision: 'accept' | 'reject') => {
+    const notes = window.prompt(decision === 'accept' ? t('referral.acceptNotes') : t('referral.rejectReason'));
+    // Cancelled prompt; a reason is required to turn a patient down
+    if (notes === null || (decision === 'reject' && !notes.trim())) return;
+
+    setRespondingId(item.referral.id);
+    try {
+      await respondToReferral(item.incident.id, item.referral.id, decision, notes);
+      await load();
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 403) {
+        // Our posting changed since the queue loaded; show the queue as it now stands
+        alert(t('referral.notYourCenter'));
+        await load();
+        return;
+      }
+      alert(t('referral.respondFailed', { message: (err as Error).message }));
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const openProfile = async (devoteeId: string) => {
+    try {
+      onSelectDevotee(await getDevotee(devoteeId));
+    } catch (err) {
+      console.error('Failed to fetch devotee details:', err);
+    }
+  };
+
+  // Staff can act only on referrals addressed to the center they are posted at
+  const canRespond = can('incidents:update') && (user?.role === 'admin' || queue?.center.id === user?.medical_center_id);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={centerId}
+          onChange={(e) => setCenterId(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          aria-label={t('referral.center')}
+        >
+          {centers.map((center) => (
+            <option key={center.id} value={center.id}>{center.name}</option>
+          ))}
+        </select>
+
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {(['inbound', 'outbound'] as const).map((d) => (
+            <button
+              key={d}
+              onClick={() => setDirection(d)}
+              className={`px-3 py-1.5 font-semibold ${direction === d ? 'bg-slate-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {t(`referral.${d}`)}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ReferralQueueData['status'])}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          aria-label={t('referral.statusFilter')}
+        >
+          {STATUS_FILTERS.map((s) => (
+            <option key={s} value={s}>{t(`referral.status.${s}`)}</option>
+          ))}
+        </select>
+
+        <button onClick={load} className="ml-auto p-2 hover:bg-gray-100 rounded-full text-gray-600" aria-label={t('referral.refresh')}>
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : !queue || queue.items.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">{t('referral.empty')}</p>
+      ) : (
+        <div className="space-y-3">
+          {queue.items.map((item) => {
+            const { referral, incident, devotee } = item;
+            const latest = incident.observations?.[incident.observations.length - 1];
+            return (
+              <div key={referral.id} className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <button
+                      onClick={() => devotee && openProfile(devotee.id)}
+                      className="font-bold text-gray-900 hover:underline flex items-center gap-1"
+                    >
+                      <User className="w-4 h-4 text-gray-500" />
+                      {devotee ? devotee.full_name : t('referral.unknownPatient')}
+                    </button>
+                    {devotee && (
+                      <p className="text-xs text-gray-600">
+                        {devotee.registration_number} · {devotee.age} · {devotee.gender} · {devotee.phone}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {incident.triage && <TriageBadge triage={incident.triage} />}
+                    <span className="inline-flex items-center gap-1 text-xs text-gray-600">
+                      <Clock className="w-3 h-3" />
+                      {t('referral.minutesAgo', { minutes: minutesSince(referral.referred_at) })}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="mt-2 text-sm space-y-1">
+                  <p className="flex items-center gap-1 text-purple-800 font-semibold">
+                    <Ambulance className="w-4 h-4" />
+                    {t('referral.line', { from: referral.from_center, to: referral.to_center })}
+                    <span className="font-normal text-gray-600">· {t(`referral.transport.${referral.transport_mode}`)}</span>
+                  </p>
+                  <p><span className="text-gray-500">{t('profile.symptoms')}</span> {incident.symptoms}</p>
+                  {incident.diagnosis && <p><span className="text-gray-500">{t('profile.diagnosis')}</span> {incident.diagnosis}</p>}
+                  {latest && <p className="text-xs text-gray-700">{summarizeVitals(latest)}</p>}
+                  {referral.handover_notes && (
+                    <p className="bg-purple-50 border border-purple-100 rounded px-2 py-1 text-gray-800">{referral.handover_notes}</p>
+                  )}
+                  {referral.referred_by && (
+                    <p className="text-xs text-gray-500">{t('referral.by', { name: referral.referred_by.full_name || referral.referred_by.username })}</p>
+                  )}
+                  {referral.status !== 'pending' && (
+                    <p className="text-xs text-gray-600">
+                      {t(`referral.status.${referral.status}`)}
+                      {referral.responded_by && ` · ${referral.responded_by.full_name || referral.responded_by.username}`}
+                      {referral.response_notes && ` — ${referral.response_notes}`}
+                    </p>
+                  )}
+                </div>
+
+                {direction === 'inbound' && referral.status === 'pending' && canRespond && (
+                  <div className="mt-3 flex justify-end gap-2">
+                    <button
+                      onClick={() => handleRespond(item, 'reject')}
+                      disabled={respondingId === referral.id}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" />
+                      {t('referral.reject')}
+                    </button>
+                    <button
+                      onClick={() => handleRespond(item, 'accept')}
+                      disabled={respondingId === referral.id}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-md text-sm font-semibold disabled:bg-gray-400"
+                    >
+                      {respondingId === referral.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      {t('referral.accept')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
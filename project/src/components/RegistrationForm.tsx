@@ -1,10 +1,15 @@
 import { useState } from 'react';
-import { Camera, Save, User, AlertCircle, Scissors, Activity, Droplet, Stethoscope, Pill, Users, Phone, UserCircle } from 'lucide-react';
-import { registerDevotee, updateDevotee, CreateDevoteePayload, DevoteeWithRecord } from '../lib/api';
+import { Camera, Save, User, AlertCircle, Scissors, Activity, Droplet, Stethoscope, Pill, Users, UserCircle, UsersRound, CheckCircle } from 'lucide-react';
+import { registerDevotee, updateDevotee, checkDuplicates, CreateDevoteePayload, DevoteeWithRecord, DevoteeSummary, DuplicateCandidate, RegistrationPrefill } from '../lib/api';
 import { useI18n } from '../i18n/i18n';
 import SelfieCapture from './SelfieCapture';
+import ContactFields from './ContactFields';
+import GroupRegistrationForm from './GroupRegistrationForm';
+import DuplicatePrompt from './DuplicatePrompt';
 import VoiceInput from './VoiceInput';
-import { parseSpokenPhoneNumber } from '../utils/textUtils';
+import CodedTermInput from './CodedTermInput';
+import HealthRecordPrefill from './HealthRecordPrefill';
+import { ALLERGY_QUICK_PICKS, asEntries, CONDITION_QUICK_PICKS, sameEntry, togglePick } from '../lib/terminology';
 
 type RegistrationFormProps = {
     onSuccess: (data: DevoteeWithRecord) => void;
@@ -18,12 +23,10 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [showSelfieCapture, setShowSelfieCapture] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [otherCondition, setOtherCondition] = useState('');
-    const [showOtherCondition, setShowOtherCondition] = useState(false);
-    const [medicationInput, setMedicationInput] = useState('');
-    const [surgeryInput, setSurgeryInput] = useState('');
-    const [otherAllergy, setOtherAllergy] = useState('');
-    const [showOtherAllergy, setShowOtherAllergy] = useState(false);
+    const [mode, setMode] = useState<'individual' | 'group'>('individual');
+    const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+    // Set when the desk confirmed the person is already registered, so nothing new was created
+    const [existing, setExisting] = useState<DevoteeSummary | null>(null);
 
     const [formData, setFormData] = useState<CreateDevoteePayload>(() => {
         if (initialData) {
@@ -35,13 +38,14 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
 
                 emergency_contact_name: initialData.emergency_contact_name || '',
                 emergency_contact_phone: initialData.emergency_contact_phone || '',
+                abha_number: initialData.abha_number || '',
                 blood_group: initialData.medical_records?.blood_group || null,
                 height_cm: initialData.medical_records?.height_cm || null,
                 weight_kg: initialData.medical_records?.weight_kg || null,
-                allergies: initialData.medical_records?.allergies || '',
-                chronic_conditions: initialData.medical_records?.chronic_conditions || '',
-                current_medications: initialData.medical_records?.current_medications || '',
-                past_surgeries: initialData.medical_records?.past_surgeries || '',
+                allergies: asEntries(initialData.medical_records?.allergies),
+                chronic_conditions: asEntries(initialData.medical_records?.chronic_conditions),
+                current_medications: asEntries(initialData.medical_records?.current_medications),
+                past_surgeries: asEntries(initialData.medical_records?.past_surgeries),
 
                 special_notes: initialData.medical_records?.special_notes || '',
                 photo_url: initialData.photo_url || null,
@@ -56,13 +60,14 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
 
             emergency_contact_name: '',
             emergency_contact_phone: '',
+            abha_number: '',
             blood_group: null,
             height_cm: null,
             weight_kg: null,
-            allergies: '',
-            chronic_conditions: '',
-            current_medications: '',
-            past_surgeries: '',
+            allergies: [],
+            chronic_conditions: [],
+            current_medications: [],
+            past_surgeries: [],
 
             special_notes: '',
             photo_url: null,
@@ -72,36 +77,16 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
 
     // Handle voice updates
     const handleVoiceInput = (field: keyof CreateDevoteePayload, text: string) => {
-        setFormData(prev => {
-            let newValue = text;
-
-            // field-specific processing
-            if (field === 'phone' || field === 'emergency_contact_phone') {
-                newValue = parseSpokenPhoneNumber(text);
-            } else if (['chronic_conditions', 'current_medications', 'past_surgeries', 'allergies'].includes(field)) {
-                // For list fields, APPEND to existing value instead of replacing
-                const currentValue = prev[field] as string;
-                if (currentValue && currentValue !== 'None') {
-                    // Check if text already exists to prevent duplicates (simple check)
-                    if (!currentValue.toLowerCase().includes(text.toLowerCase())) {
-                        newValue = `${currentValue}, ${text}`;
-                    } else {
-                        newValue = currentValue; // No change if duplicate
-                    }
-                }
-            }
-
-            return {
-                ...prev,
-                [field]: newValue
-            };
-        });
+        setFormData(prev => ({
+            ...prev,
+            [field]: text
+        }));
     };
 
     const handleCapture = (image: string, descriptor: number[] | null, demographics?: any) => {
         setFormData(prev => ({
             ...prev,
-            photo_url: image, // In a real app, upload this first and get a URL
+            photo_url: image, // uploaded to the media store when the form is saved
             face_descriptor: descriptor,
             // Auto-populate demographics if available and not already set manually? 
             // Or just overwrite? Let's overwrite for convenience but allow edit.
@@ -112,10 +97,39 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
         }));
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    // Fill what the imported record has; names and phones typed at the desk are kept, and lists are combined
+    const handlePrefill = ({ payload }: RegistrationPrefill) => {
+        const combine = (current: CreateDevoteePayload['allergies'], imported: CreateDevoteePayload['allergies']) =>
+            [...current, ...imported.filter((entry) => !current.some((existing) => sameEntry(existing, entry)))];
+        setFormData(prev => ({
+            ...prev,
+            full_name: prev.full_name || payload.full_name,
+            // A birth date beats the selfie's age estimate, and measured height and weight beat its guesses
+            age: payload.age || prev.age,
+            gender: payload.gender || prev.gender,
+            phone: prev.phone || payload.phone,
+            emergency_contact_name: prev.emergency_contact_name || payload.emergency_contact_name,
+            emergency_contact_phone: prev.emergency_contact_phone || payload.emergency_contact_phone,
+            abha_number: payload.abha_number || prev.abha_number,
+            blood_group: prev.blood_group || payload.blood_group,
+            height_cm: payload.height_cm || prev.height_cm,
+            weight_kg: payload.weight_kg || prev.weight_kg,
+            allergies: combine(prev.allergies, payload.allergies),
+            chronic_conditions: combine(prev.chronic_conditions, payload.chronic_conditions),
+            current_medications: combine(prev.current_medications, payload.current_medications),
+            past_surgeries: combine(prev.past_surgeries, payload.past_surgeries),
+        }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        submit(false);
+    };
+
+    const submit = async (skipDuplicateCheck: boolean) => {
         setIsSubmitting(true);
         setError(null);
+        setDuplicates([]);
 
         try {
             // Validate mandatory fields
@@ -127,12 +141,7 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                 throw new Error(t('reg.fail', { message: 'Please fill required fields.' }));
             }
 
-            // Merge "Other" condition if pending
             const finalData = { ...formData };
-            if (showOtherCondition && otherCondition.trim()) {
-                const current = formData.chronic_conditions.split(', ').filter(c => c && c !== 'None');
-                finalData.chronic_conditions = [...current, otherCondition.trim()].join(', ');
-            }
 
             let result;
             if (isEditing && devoteeId) {
@@ -144,6 +153,17 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                     // Start of registration must have face descriptor potentially?
                     // Actually, let's keep it safe.
                 }
+                if (!skipDuplicateCheck) {
+                    // Offline the check can't run; the admin merge tool catches those duplicates later
+                    const candidates = await checkDuplicates(finalData).catch((checkError) => {
+                        console.error('Duplicate check failed:', checkError);
+                        return [];
+                    });
+                    if (candidates.length) {
+                        setDuplicates(candidates);
+                        return;
+                    }
+                }
                 result = await registerDevotee(finalData);
             }
 
@@ -156,8 +176,58 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
         }
     };
 
+    // Families and travel groups register together; editing is always one devotee
+    const modeToggle = !isEditing && (
+        <div className="flex justify-center gap-2 mb-4" role="tablist">
+            {(['individual', 'group'] as const).map((option) => (
+                <button
+                    key={option}
+                    type="button"
+                    role="tab"
+                    aria-selected={mode === option}
+                    onClick={() => setMode(option)}
+                    className={`inline-flex items-center gap-2 px-5 py-2 rounded-full font-semibold transition-colors ${mode === option
+                        ? 'bg-orange-600 text-white shadow-md'
+                        : 'bg-white/80 text-gray-700 hover:bg-orange-50 border border-orange-200'
+                        }`}
+                >
+                    {option === 'individual' ? <User className="w-4 h-4" /> : <UsersRound className="w-4 h-4" />}
+                    {t(`group.mode.${option}`)}
+                </button>
+            ))}
+        </div>
+    );
+
+    if (existing) {
+        return (
+            <div className="max-w-2xl mx-auto bg-white rounded-3xl shadow-2xl p-8 space-y-4 border border-green-200 text-center">
+                <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+                <h2 className="text-2xl font-bold text-gray-900">{t('duplicates.alreadyRegistered', { name: existing.full_name })}</h2>
+                <p className="text-lg font-mono text-orange-700">{existing.registration_number}</p>
+                <p className="text-sm text-gray-600">{t('duplicates.alreadyRegisteredHint')}</p>
+                <button
+                    type="button"
+                    onClick={() => setExisting(null)}
+                    className="px-6 py-2 bg-orange-600 text-white rounded-xl font-semibold hover:bg-orange-700"
+                >
+                    {t('duplicates.backToForm')}
+                </button>
+            </div>
+        );
+    }
+
+    if (mode === 'group') {
+        return (
+            <div className="max-w-6xl mx-auto">
+                {modeToggle}
+                <GroupRegistrationForm />
+            </div>
+        );
+    }
+
     return (
         <div className="max-w-6xl mx-auto">
+            {modeToggle}
             <form onSubmit={handleSubmit} className="bg-gradient-to-br from-amber-50/95 via-orange-50/90 to-kumbh-sand/95 backdrop-blur shadow-2xl rounded-3xl p-8 space-y-8 border border-orange-200/50">
                 {error && (
                     <div className="bg-red-50 text-red-700 p-4 rounded-lg flex items-center gap-3">
@@ -166,6 +236,18 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                     </div>
                 )}
 
+                {duplicates.length > 0 && (
+                    <DuplicatePrompt
+                        candidates={duplicates}
+                        onUseExisting={(devotee) => {
+                            setDuplicates([]);
+                            setExisting(devotee);
+                        }}
+                        onRegisterAnyway={() => submit(true)}
+                        onClose={() => setDuplicates([])}
+                    />
+                )}
+
                 {showSelfieCapture && (
                     <SelfieCapture
                         onCapture={handleCapture}
@@ -221,6 +303,13 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                     )}
                 </div>
 
+                <HealthRecordPrefill
+                    abhaNumber={formData.abha_number || ''}
+                    onAbhaNumberChange={(value) => setFormData(prev => ({ ...prev, abha_number: value }))}
+                    onPrefill={handlePrefill}
+                    allowImport={!isEditing}
+                />
+
                 {/* Personal Details */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                     <div className="space-y-6">
@@ -283,59 +372,10 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                             </div>
                         </div>
 
-                        <div className="relative">
-                            <div className="flex items-center gap-2 mb-2">
-                                <Phone className="w-4 h-4 text-blue-500" />
-                                <label className="text-base font-semibold text-gray-800">{t('reg.phone')} <span className="text-red-500 font-bold">*</span></label>
-                            </div>
-                            <div className="flex gap-2">
-                                <input
-                                    type="tel"
-                                    required
-                                    value={formData.phone}
-                                    onChange={e => setFormData({ ...formData, phone: e.target.value })}
-                                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
-                                />
-                                <VoiceInput onTranscript={(text) => handleVoiceInput('phone', text)} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
-                            </div>
-                        </div>
-
-
-
-                        <div className="grid grid-cols-2 gap-4">
-                            <div className="relative">
-                                <div className="flex items-center gap-2 mb-2">
-                                    <UserCircle className="w-4 h-4 text-blue-500" />
-                                    <label className="text-base font-semibold text-gray-800">{t('reg.emergencyName')} <span className="text-red-500 font-bold">*</span></label>
-                                </div>
-                                <div className="flex gap-2">
-                                    <input
-                                        type="text"
-                                        required
-                                        value={formData.emergency_contact_name}
-                                        onChange={e => setFormData({ ...formData, emergency_contact_name: e.target.value })}
-                                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
-                                    />
-                                    <VoiceInput onTranscript={(text) => handleVoiceInput('emergency_contact_name', text)} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
-                                </div>
-                            </div>
-                            <div className="relative">
-                                <div className="flex items-center gap-2 mb-2">
-                                    <Phone className="w-4 h-4 text-blue-500" />
-                                    <label className="text-base font-semibold text-gray-800">{t('reg.emergencyPhone')} <span className="text-red-500 font-bold">*</span></label>
-                                </div>
-                                <div className="flex gap-2">
-                                    <input
-                                        type="tel"
-                                        required
-                                        value={formData.emergency_contact_phone}
-                                        onChange={e => setFormData({ ...formData, emergency_contact_phone: e.target.value })}
-                                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
-                                    />
-                                    <VoiceInput onTranscript={(text) => handleVoiceInput('emergency_contact_phone', text)} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
-                                </div>
-                            </div>
-                        </div>
+                        <ContactFields
+                            value={formData}
+                            onChange={(field, value) => setFormData(prev => ({ ...prev, [field]: value }))}
+                        />
                     </div>
 
                     {/* Medical Information */}
@@ -410,102 +450,45 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                             </div>
                             <div className="space-y-3">
                                 <div className="grid grid-cols-3 gap-2">
-                                    {(() => {
-                                        const conditionKeys = ['hypertension', 'diabetes', 'arthritis', 'asthma', 'heartDisease', 'thyroid', 'kidneyDisease', 'liverDisease', 'cancer', 'stroke', 'depression', 'none', 'other'];
-                                        return conditionKeys.map((key) => {
-                                            const conditionLabel = t(`condition.${key}`);
-                                            const conditionList = formData.chronic_conditions.split(', ').filter(c => c);
-                                            const isSelected = conditionList.includes(conditionLabel);
-                                            const isNone = key === 'none';
-
-                                            return (
-                                                <label
-                                                    key={key}
-                                                    className={`
-                                                        relative flex items-center gap-2 p-2 rounded-lg border-2 cursor-pointer transition-all text-sm
-                                                        ${isSelected
-                                                            ? isNone
-                                                                ? 'border-gray-400 bg-gray-50 text-gray-700 font-medium'
-                                                                : 'border-orange-500 bg-orange-50 text-orange-700 font-medium'
-                                                            : 'border-gray-200 hover:border-orange-200 hover:bg-gray-50 text-gray-600'
-                                                        }
-                                                    `}
-                                                >
-                                                    <input
-                                                        type="checkbox"
-                                                        checked={isSelected}
-                                                        onChange={() => {
-                                                            let newConditions = conditionList.filter(c => c !== t('condition.none'));
-
-                                                            if (key === 'none') {
-                                                                newConditions = isSelected ? [] : [conditionLabel];
-                                                                setShowOtherCondition(false);
-                                                            } else if (key === 'other') {
-                                                                if (isSelected) {
-                                                                    newConditions = newConditions.filter(c => c !== conditionLabel);
-                                                                    setShowOtherCondition(false);
-                                                                    setOtherCondition('');
-                                                                } else {
-                                                                    newConditions = [...newConditions, conditionLabel];
-                                                                    setShowOtherCondition(true);
-                                                                }
-                                                            } else {
-                                                                if (isSelected) {
-                                                                    newConditions = newConditions.filter(c => c !== conditionLabel);
-                                                                } else {
-                                                                    newConditions = [...newConditions, conditionLabel];
-                                                                }
-                                                            }
-
-                                                            setFormData({ ...formData, chronic_conditions: newConditions.length ? newConditions.join(', ') : '' });
-                                                        }}
-                                                        className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
-                                                    />
-                                                    <span className="text-sm">{conditionLabel}</span>
-                                                </label>
-                                            );
-                                        });
-                                    })()}
+                                    {CONDITION_QUICK_PICKS.map(({ key, code }) => {
+                                        const conditionLabel = t(`condition.${key}`);
+                                        const isSelected = formData.chronic_conditions.some(c => c.code === code);
+
+                                        return (
+                                            <label
+                                                key={key}
+                                                className={`
+                                                    relative flex items-center gap-2 p-2 rounded-lg border-2 cursor-pointer transition-all text-sm
+                                                    ${isSelected
+                                                        ? 'border-orange-500 bg-orange-50 text-orange-700 font-medium'
+                                                        : 'border-gray-200 hover:border-orange-200 hover:bg-gray-50 text-gray-600'
+                                                    }
+                                                `}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isSelected}
+                                                    onChange={() => setFormData(prev => ({
+                                                        ...prev,
+                                                        chronic_conditions: togglePick(prev.chronic_conditions, code, conditionLabel),
+                                                    }))}
+                                                    className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                                                />
+                                                <span className="text-sm">{conditionLabel}</span>
+                                            </label>
+                                        );
+                                    })}
                                 </div>
 
-                                {showOtherCondition && (
-                                    <div className="flex gap-2 animate-fade-in-down">
-                                        <input
-                                            type="text"
-                                            value={otherCondition}
-                                            onChange={e => setOtherCondition(e.target.value)}
-                                            placeholder="Specify other condition..."
-                                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
-                                            autoFocus
-                                            onKeyDown={e => {
-                                                if (e.key === 'Enter') {
-                                                    e.preventDefault();
-                                                    if (otherCondition.trim()) {
-                                                        const current = formData.chronic_conditions.split(', ').filter(c => c && c !== t('condition.other') && c !== t('condition.none'));
-                                                        setFormData({ ...formData, chronic_conditions: [...current, otherCondition.trim()].join(', ') });
-                                                        setOtherCondition('');
-                                                        setShowOtherCondition(false);
-                                                    }
-                                                }
-                                            }}
-                                        />
-                                        <button
-                                            type="button"
-                                            onClick={() => {
-                                                if (otherCondition.trim()) {
-                                                    const current = formData.chronic_conditions.split(', ').filter(c => c && c !== t('condition.other') && c !== t('condition.none'));
-                                                    setFormData({ ...formData, chronic_conditions: [...current, otherCondition.trim()].join(', ') });
-                                                    setOtherCondition('');
-                                                    setShowOtherCondition(false);
-                                                }
-                                            }}
-                                            className="px-3 py-2 bg-orange-600 text-white rounded-md text-sm whitespace-nowrap"
-                                        >
-                                            {t('common.add')}
-                                        </button>
-                                        <VoiceInput onTranscript={setOtherCondition} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
-                                    </div>
-                                )}
+                                <CodedTermInput
+                                    kind="condition"
+                                    value={formData.chronic_conditions}
+                                    onChange={entries => setFormData(prev => ({ ...prev, chronic_conditions: entries }))}
+                                    hideCodes={CONDITION_QUICK_PICKS.map(p => p.code)}
+                                    placeholder={t('reg.conditionsSearch')}
+                                    chipClassName="bg-orange-100 text-orange-800"
+                                    buttonClassName="bg-orange-600"
+                                />
                             </div>
                         </div>
                         <div>
@@ -515,102 +498,45 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                             </div>
                             <div className="space-y-3">
                                 <div className="grid grid-cols-3 gap-2">
-                                    {(() => {
-                                        const allergyKeys = ['dust', 'pollen', 'peanuts', 'dairy', 'shellfish', 'treeNuts', 'eggs', 'wheat', 'soy', 'animalDander', 'mold', 'insectStings', 'medications', 'none', 'other'];
-                                        return allergyKeys.map((key) => {
-                                            const allergyLabel = t(`allergy.${key}`);
-                                            const allergyList = formData.allergies.split(', ').filter(a => a);
-                                            const isSelected = allergyList.includes(allergyLabel);
-                                            const isNone = key === 'none';
-
-                                            return (
-                                                <label
-                                                    key={key}
-                                                    className={`
-                                                        relative flex items-center gap-2 p-2 rounded-lg border-2 cursor-pointer transition-all text-sm
-                                                        ${isSelected
-                                                            ? isNone
-                                                                ? 'border-gray-400 bg-gray-50 text-gray-700 font-medium'
-                                                                : 'border-orange-500 bg-orange-50 text-orange-700 font-medium'
-                                                            : 'border-gray-200 hover:border-orange-200 hover:bg-gray-50 text-gray-600'
-                                                        }
-                                                    `}
-                                                >
-                                                    <input
-                                                        type="checkbox"
-                                                        checked={isSelected}
-                                                        onChange={() => {
-                                                            let newAllergies = allergyList.filter(a => a !== t('allergy.none'));
-
-                                                            if (key === 'none') {
-                                                                newAllergies = isSelected ? [] : [allergyLabel];
-                                                                setShowOtherAllergy(false);
-                                                            } else if (key === 'other') {
-                                                                if (isSelected) {
-                                                                    newAllergies = newAllergies.filter(a => a !== allergyLabel);
-                                                                    setShowOtherAllergy(false);
-                                                                    setOtherAllergy('');
-                                                                } else {
-                                                                    newAllergies = [...newAllergies, allergyLabel];
-                                                                    setShowOtherAllergy(true);
-                                                                }
-                                                            } else {
-                                                                if (isSelected) {
-                                                                    newAllergies = newAllergies.filter(a => a !== allergyLabel);
-                                                                } else {
-                                                                    newAllergies = [...newAllergies, allergyLabel];
-                                                                }
-                                                            }
-
-                                                            setFormData({ ...formData, allergies: newAllergies.length ? newAllergies.join(', ') : '' });
-                                                        }}
-                                                        className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
-                                                    />
-                                                    <span className="text-sm">{allergyLabel}</span>
-                                                </label>
-                                            );
-                                        });
-                                    })()}
+                                    {ALLERGY_QUICK_PICKS.map(({ key, code }) => {
+                                        const allergyLabel = t(`allergy.${key}`);
+                                        const isSelected = formData.allergies.some(a => a.code === code);
+
+                                        return (
+                                            <label
+                                                key={key}
+                                                className={`
+                                                    relative flex items-center gap-2 p-2 rounded-lg border-2 cursor-pointer transition-all text-sm
+                                                    ${isSelected
+                                                        ? 'border-orange-500 bg-orange-50 text-orange-700 font-medium'
+                                                        : 'border-gray-200 hover:border-orange-200 hover:bg-gray-50 text-gray-600'
+                                                    }
+                                                `}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isSelected}
+                                                    onChange={() => setFormData(prev => ({
+                                                        ...prev,
+                                                        allergies: togglePick(prev.allergies, code, allergyLabel),
+                                                    }))}
+                                                    className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                                                />
+                                                <span className="text-sm">{allergyLabel}</span>
+                                            </label>
+                                        );
+                                    })}
                                 </div>
 
-                                {showOtherAllergy && (
-                                    <div className="flex gap-2 animate-fade-in-down">
-                                        <input
-                                            type="text"
-                                            value={otherAllergy}
-                                            onChange={e => setOtherAllergy(e.target.value)}
-                                            placeholder="Specify other allergy..."
-                                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
-                                            autoFocus
-                                            onKeyDown={e => {
-                                                if (e.key === 'Enter') {
-                                                    e.preventDefault();
-                                                    if (otherAllergy.trim()) {
-                                                        const current = formData.allergies.split(', ').filter(a => a && a !== 'Other');
-                                                        setFormData({ ...formData, allergies: [...current, otherAllergy.trim()].join(', ') });
-                                                        setOtherAllergy('');
-                                                        setShowOtherAllergy(false);
-                                                    }
-                                                }
-                                            }}
-                                        />
-                                        <button
-                                            type="button"
-                                            onClick={() => {
-                                                if (otherAllergy.trim()) {
-                                                    const current = formData.allergies.split(', ').filter(a => a && a !== 'Other');
-                                                    setFormData({ ...formData, allergies: [...current, otherAllergy.trim()].join(', ') });
-                                                    setOtherAllergy('');
-                                                    setShowOtherAllergy(false);
-                                                }
-                                            }}
-                                            className="px-3 py-2 bg-orange-600 text-white rounded-md text-sm whitespace-nowrap"
-                                        >
-                                            {t('common.add')}
-                                        </button>
-                                        <VoiceInput onTranscript={setOtherAllergy} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
-                                    </div>
-                                )}
+                                <CodedTermInput
+                                    kind="allergen"
+                                    value={formData.allergies}
+                                    onChange={entries => setFormData(prev => ({ ...prev, allergies: entries }))}
+                                    hideCodes={ALLERGY_QUICK_PICKS.map(p => p.code)}
+                                    placeholder={t('reg.allergiesPlaceholder')}
+                                    chipClassName="bg-yellow-100 text-yellow-800"
+                                    buttonClassName="bg-orange-600"
+                                />
                             </div>
                         </div>
 
@@ -620,59 +546,14 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                                 <Pill className="w-5 h-5 text-blue-500" />
                                 <label className="text-base font-semibold text-gray-800">{t('reg.meds')}</label>
                             </div>
-                            <div className="space-y-3">
-                                <div className="flex flex-wrap gap-2">
-                                    {formData.current_medications.split(', ').filter(c => c).map((med, idx) => (
-                                        <span key={idx} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-blue-100 text-blue-800 text-sm">
-                                            {med}
-                                            <button
-                                                type="button"
-                                                onClick={() => {
-                                                    const current = formData.current_medications.split(', ').filter(c => c);
-                                                    const newMeds = current.filter((_, i) => i !== idx);
-                                                    setFormData({ ...formData, current_medications: newMeds.join(', ') });
-                                                }}
-                                                className="hover:text-blue-900"
-                                            >
-                                                <AlertCircle className="w-4 h-4 rotate-45" />
-                                            </button>
-                                        </span>
-                                    ))}
-                                </div>
-                                <div className="flex gap-2">
-                                    <input
-                                        type="text"
-                                        value={medicationInput}
-                                        onChange={e => setMedicationInput(e.target.value)}
-                                        placeholder={t('reg.medsPlaceholder')}
-                                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
-                                        onKeyDown={e => {
-                                            if (e.key === 'Enter') {
-                                                e.preventDefault();
-                                                if (medicationInput.trim()) {
-                                                    const current = formData.current_medications.split(', ').filter(c => c);
-                                                    setFormData({ ...formData, current_medications: [...current, medicationInput.trim()].join(', ') });
-                                                    setMedicationInput('');
-                                                }
-                                            }
-                                        }}
-                                    />
-                                    <button
-                                        type="button"
-                                        onClick={() => {
-                                            if (medicationInput.trim()) {
-                                                const current = formData.current_medications.split(', ').filter(c => c);
-                                                setFormData({ ...formData, current_medications: [...current, medicationInput.trim()].join(', ') });
-                                                setMedicationInput('');
-                                            }
-                                        }}
-                                        className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm whitespace-nowrap"
-                                    >
-                                        {t('common.add')}
-                                    </button>
-                                    <VoiceInput onTranscript={setMedicationInput} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
-                                </div>
-                            </div>
+                            <CodedTermInput
+                                kind="drug"
+                                value={formData.current_medications}
+                                onChange={entries => setFormData(prev => ({ ...prev, current_medications: entries }))}
+                                placeholder={t('reg.medsPlaceholder')}
+                                chipClassName="bg-blue-100 text-blue-800"
+                                buttonClassName="bg-blue-600"
+                            />
                         </div>
 
                         {/* Surgeries */}
@@ -681,59 +562,14 @@ export default function RegistrationForm({ onSuccess, initialData, isEditing = f
                                 <Scissors className="w-5 h-5 text-purple-500" />
                                 <label className="text-base font-semibold text-gray-800">{t('reg.surgeries')}</label>
                             </div>
-                            <div className="space-y-3">
-                                <div className="flex flex-wrap gap-2">
-                                    {formData.past_surgeries.split(', ').filter(c => c).map((surg, idx) => (
-                                        <span key={idx} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-red-100 text-red-800 text-sm">
-                                            {surg}
-                                            <button
-                                                type="button"
-                                                onClick={() => {
-                                                    const current = formData.past_surgeries.split(', ').filter(c => c);
-                                                    const newSurgs = current.filter((_, i) => i !== idx);
-                                                    setFormData({ ...formData, past_surgeries: newSurgs.join(', ') });
-                                                }}
-                                                className="hover:text-red-900"
-                                            >
-                                                <AlertCircle className="w-4 h-4 rotate-45" />
-                                            </button>
-                                        </span>
-                                    ))}
-                                </div>
-                                <div className="flex gap-2">
-                                    <input
-                                        type="text"
-                                        value={surgeryInput}
-                                        onChange={e => setSurgeryInput(e.target.value)}
-                                        placeholder={t('reg.surgeriesPlaceholder')}
-                                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500"
-                                        onKeyDown={e => {
-                                            if (e.key === 'Enter') {
-                                                e.preventDefault();
-                                                if (surgeryInput.trim()) {
-                                                    const current = formData.past_surgeries.split(', ').filter(c => c);
-                                                    setFormData({ ...formData, past_surgeries: [...current, surgeryInput.trim()].join(', ') });
-                                                    setSurgeryInput('');
-                                                }
-                                            }
-                                        }}
-                                    />
-                                    <button
-                                        type="button"
-                                        onClick={() => {
-                                            if (surgeryInput.trim()) {
-                                                const current = formData.past_surgeries.split(', ').filter(c => c);
-                                                setFormData({ ...formData, past_surgeries: [...current, surgeryInput.trim()].join(', ') });
-                                                setSurgeryInput('');
-                                            }
-                                        }}
-                                        className="px-3 py-2 bg-red-600 text-white rounded-md text-sm whitespace-nowrap"
-                                    >
-                                        {t('common.add')}
-                                    </button>
-                                    <VoiceInput onTranscript={setSurgeryInput} language={lang === 'en' ? 'en-US' : lang === 'hi' ? 'hi-IN' : 'mr-IN'} />
-                                </div>
-                            </div>
+                            <CodedTermInput
+                                kind="procedure"
+                                value={formData.past_surgeries}
+                                onChange={entries => setFormData(prev => ({ ...prev, past_surgeries: entries }))}
+                                placeholder={t('reg.surgeriesPlaceholder')}
+                                chipClassName="bg-red-100 text-red-800"
+                                buttonClassName="bg-red-600"
+                            />
                         </div>
                     </div>
                 </div>
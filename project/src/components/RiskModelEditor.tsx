@@ -0,0 +1,613 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2, Copy, FlaskConical, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import {
+  activateRiskModel,
+  createRiskModel,
+  deleteRiskModel,
+  getRiskModels,
+  previewRiskModel,
+  updateRiskModel,
+  RiskBand,
+  RiskLevel,
+  RiskModel,
+  RiskModelConfig,
+  RiskModelPreview,
+  RiskModelStatus,
+} from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+const RISK_LEVELS: RiskLevel[] = ['Critical', 'High', 'Moderate', 'Low'];
+const RULE_COMPONENTS = ['total', 'age', 'medical', 'environmental', 'crowd', 'incidents'] as const;
+const DEFAULT_SAMPLE_SIZE = 1000;
+
+const STATUS_STYLES: Record<RiskModelStatus, string> = {
+  draft: 'bg-amber-100 text-amber-900',
+  active: 'bg-green-100 text-green-900',
+  retired: 'bg-gray-100 text-gray-600',
+};
+
+const LEVEL_STYLES: Record<RiskLevel, string> = {
+  Critical: 'text-red-700',
+  High: 'text-orange-700',
+  Moderate: 'text-yellow-700',
+  Low: 'text-green-700',
+};
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-50 disabled:text-gray-500';
+
+// Blank min/max fields leave that end of a band open
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+function NumberField({ label, value, onChange, disabled, step }: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+  step?: number;
+}) {
+  return (
+    <label className="block text-xs font-medium text-gray-600">
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        disabled={disabled}
+        className={`${inputClass} mt-1`}
+      />
+    </label>
+  );
+}
+
+function BandTable({ title, unit, bands, onChange, disabled }: {
+  title: string;
+  unit: string;
+  bands: RiskBand[];
+  onChange: (bands: RiskBand[]) => void;
+  disabled: boolean;
+}) {
+  const { t } = useI18n();
+  const update = (idx: number, patch: Partial<RiskBand>) =>
+    onChange(bands.map((band, i) => (i === idx ? { ...band, ...patch } : band)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-semibold text-gray-800">{title}</h4>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={() => onChange([...bands, { points: 0 }])}
+            className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline"
+          >
+            <Plus className="w-3 h-3" aria-hidden="true" /> {t('riskModels.addBand')}
+          </button>
+        )}
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="font-medium pb-1">{t('riskModels.bandMin', { unit })}</th>
+            <th className="font-medium pb-1">{t('riskModels.bandMax', { unit })}</th>
+            <th className="font-medium pb-1">{t('riskModels.points')}</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {bands.map((band, idx) => (
+            <tr key={idx}>
+              <td className="pr-2 py-0.5">
+                <input type="number" value={band.min ?? ''} onChange={(e) => update(idx, { min: optionalNumber(e.target.value) })} disabled={disabled} className={inputClass} />
+              </td>
+              <td className="pr-2 py-0.5">
+                <input type="number" value={band.max ?? ''} onChange={(e) => update(idx, { max: optionalNumber(e.target.value) })} disabled={disabled} className={inputClass} />
+              </td>
+              <td className="pr-2 py-0.5">
+                <input type="number" value={band.points} onChange={(e) => update(idx, { points: Number(e.target.value) })} disabled={disabled} className={inputClass} />
+              </td>
+              <td className="w-6">
+                {!disabled && (
+                  <button type="button" onClick={() => onChange(bands.filter((_, i) => i !== idx))} className="text-gray-400 hover:text-red-600" aria-label={t('riskModels.remove')}>
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PreviewResult({ preview }: { preview: RiskModelPreview }) {
+  const { t } = useI18n();
+  const moves = preview.transitions.filter((move) => move.from !== move.to).sort((a, b) => b.count - a.count);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm font-semibold text-gray-900">
+        {t('riskModels.previewSummary', { changed: preview.changed, sample: preview.sample_size })}
+      </p>
+
+      <table className="text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="font-medium pr-6 pb-1">{t('riskModels.level')}</th>
+            <th className="font-medium pr-6 pb-1">{t('riskModels.currentModel', { version: preview.current_version ?? '–' })}</th>
+            <th className="font-medium pb-1">{t('riskModels.draftModel')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {RISK_LEVELS.map((level) => (
+            <tr key={level}>
+              <td className={`pr-6 font-semibold ${LEVEL_STYLES[level]}`}>{t(`riskModels.levels.${level}`)}</td>
+              <td className="pr-6">{preview.levels.current[level] || 0}</td>
+              <td>{preview.levels.draft[level] || 0}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {moves.length > 0 && (
+        <ul className="text-sm text-gray-700 space-y-0.5">
+          {moves.map((move) => (
+            <li key={`${move.from}-${move.to}`}>
+              <span className={LEVEL_STYLES[move.from]}>{t(`riskModels.levels.${move.from}`)}</span>
+              {' → '}
+              <span className={LEVEL_STYLES[move.to]}>{t(`riskModels.levels.${move.to}`)}</span>
+              {': '}{move.count}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {preview.examples.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-800 mb-1">{t('riskModels.examples')}</h4>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {preview.examples.map((example) => (
+              <li key={example.devotee_id} className="py-2">
+                <div className="flex flex-wrap items-center gap-x-3">
+                  <span className="font-medium text-gray-900">{example.full_name}</span>
+                  <span className="text-xs text-gray-500">{example.registration_number} • {example.age}y</span>
+                  <span>
+                    <span className={LEVEL_STYLES[example.current.level]}>{example.current.score}</span>
+                    {' → '}
+                    <span className={`font-semibold ${LEVEL_STYLES[example.draft.level]}`}>
+                      {example.draft.score} ({t(`riskModels.levels.${example.draft.level}`)})
+                    </span>
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {example.draft.explanation.map((line) => `${line.label} ${line.points > 0 ? '+' : ''}${line.points}`).join(' · ')}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RiskModelEditor() {
+  const { t } = useI18n();
+  const [models, setModels] = useState<RiskModel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [config, setConfig] = useState<RiskModelConfig | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [sampleSize, setSampleSize] = useState(DEFAULT_SAMPLE_SIZE);
+  const [preview, setPreview] = useState<RiskModelPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const selected = models.find((model) => model.version === selectedVersion) || null;
+  const editable = selected?.status === 'draft';
+
+  const load = useCallback(async (select?: number) => {
+    setLoading(true);
+    try {
+      const list = await getRiskModels();
+      setModels(list);
+      setError(null);
+      setSelectedVersion((current) => select ?? current ?? list.find((model) => model.status === 'active')?.version ?? list[0]?.version ?? null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setName(selected.name);
+    setNotes(selected.notes);
+    setConfig(selected.config);
+    setDirty(false);
+    setPreview(null);
+  }, [selected]);
+
+  const change = (next: RiskModelConfig) => {
+    setConfig(next);
+    setDirty(true);
+    setPreview(null);
+  };
+
+  const patch = <K extends keyof RiskModelConfig>(key: K, value: Partial<NonNullable<RiskModelConfig[K]>>) => {
+    if (!config) return;
+    change({ ...config, [key]: { ...config[key], ...value } });
+  };
+
+  const newDraft = async (basedOn: number) => {
+    try {
+      const model = await createRiskModel({ name: t('riskModels.draftName', { version: basedOn }), based_on: basedOn });
+      await load(model.version);
+    } catch (err) {
+      window.alert(t('riskModels.saveFailed', { message: (err as Error).message }));
+    }
+  };
+
+  const save = async () => {
+    if (!selected || !config) return;
+    setSaving(true);
+    try {
+      await updateRiskModel(selected.version, { name, notes, config });
+      await load(selected.version);
+    } catch (err) {
+      window.alert(t('riskModels.saveFailed', { message: (err as Error).message }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const discard = async () => {
+    if (!selected || !window.confirm(t('riskModels.discardConfirm', { version: selected.version }))) return;
+    try {
+      await deleteRiskModel(selected.version);
+      setSelectedVersion(null);
+      await load();
+    } catch (err) {
+      window.alert((err as Error).message);
+    }
+  };
+
+  const activate = async () => {
+    if (!selected || !window.confirm(t('riskModels.activateConfirm', { version: selected.version }))) return;
+    try {
+      await activateRiskModel(selected.version);
+      await load(selected.version);
+    } catch (err) {
+      window.alert(t('riskModels.activateFailed', { message: (err as Error).message }));
+    }
+  };
+
+  const runPreview = async () => {
+    if (!config) return;
+    setPreviewing(true);
+    try {
+      setPreview(await previewRiskModel(config, sampleSize));
+    } catch (err) {
+      window.alert(t('riskModels.previewFailed', { message: (err as Error).message }));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  if (loading && models.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="p-4 rounded-md bg-red-50 text-red-800 text-sm">{error}</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white rounded-lg shadow p-4 space-y-2 self-start">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase">{t('riskModels.versions')}</h3>
+        {models.map((model) => (
+          <button
+            key={model.version}
+            type="button"
+            onClick={() => setSelectedVersion(model.version)}
+            className={`w-full text-left px-3 py-2 rounded-md border transition-colors ${model.version === selectedVersion ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-gray-900">v{model.version} · {model.name}</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[model.status]}`}>
+                {t(`riskModels.status.${model.status}`)}
+              </span>
+            </div>
+            {model.activated_at && (
+              <p className="text-xs text-gray-500 mt-0.5">
+                {t('riskModels.activatedAt', { date: new Date(model.activated_at).toLocaleString() })}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {selected && config && (
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6 space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="flex-1 min-w-[16rem] space-y-2">
+                <input
+                  value={name}
+                  onChange={(e) => { setName(e.target.value); setDirty(true); }}
+                  disabled={!editable}
+                  className={`${inputClass} text-lg font-semibold`}
+                  aria-label={t('riskModels.name')}
+                />
+                <textarea
+                  value={notes}
+                  onChange={(e) => { setNotes(e.target.value); setDirty(true); }}
+                  disabled={!editable}
+                  rows={2}
+                  placeholder={t('riskModels.notesPlaceholder')}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {editable ? (
+                  <>
+                    <button type="button" onClick={save} disabled={!dirty || saving} className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-blue-600 text-white text-sm font-semibold disabled:opacity-50">
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} {t('riskModels.save')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={activate}
+                      disabled={dirty}
+                      title={dirty ? t('riskModels.saveBeforeActivate') : undefined}
+                      className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-green-600 text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                      <CheckCircle2 className="w-4 h-4" /> {t('riskModels.activate')}
+                    </button>
+                    <button type="button" onClick={discard} className="inline-flex items-center gap-1 px-3 py-2 rounded-md border border-gray-300 text-sm text-red-700 hover:bg-red-50">
+                      <Trash2 className="w-4 h-4" /> {t('riskModels.discard')}
+                    </button>
+                  </>
+                ) : (
+                  <button type="button" onClick={() => newDraft(selected.version)} className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-blue-600 text-white text-sm font-semibold">
+                    <Copy className="w-4 h-4" /> {t('riskModels.newDraft')}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <section>
+              <h3 className="text-base font-bold text-gray-900 mb-2">{t('riskModels.thresholds')}</h3>
+              <div className="grid grid-cols-3 gap-3">
+                {(['moderate', 'high', 'critical'] as const).map((key) => (
+                  <NumberField
+                    key={key}
+                    label={t(`riskModels.threshold.${key}`)}
+                    value={config.thresholds[key]}
+                    onChange={(value) => patch('thresholds', { [key]: value })}
+                    disabled={!editable}
+                  />
+                ))}
+              </div>
+            </section>
+
+            <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <BandTable
+                title={t('riskModels.ageBands')}
+                unit={t('riskModels.unit.years')}
+                bands={config.age.bands}
+                onChange={(bands) => patch('age', { bands })}
+                disabled={!editable}
+              />
+              <div className="space-y-3">
+                <BandTable
+                  title={t('riskModels.crowdBands')}
+                  unit={t('riskModels.unit.devotees')}
+                  bands={config.crowd.bands}
+                  onChange={(bands) => patch('crowd', { bands })}
+                  disabled={!editable}
+                />
+                <NumberField label={t('riskModels.cap')} value={config.crowd.cap} onChange={(cap) => patch('crowd', { cap })} disabled={!editable} />
+              </div>
+            </section>
+
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-base font-bold text-gray-900">{t('riskModels.conditionWeights')}</h3>
+                {editable && (
+                  <button
+                    type="button"
+                    onClick={() => patch('medical', { weights: [...config.medical.weights, { code: '', label: '', points: 0 }] })}
+                    className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline"
+                  >
+                    <Plus className="w-3 h-3" aria-hidden="true" /> {t('riskModels.addCondition')}
+                  </button>
+                )}
+              </div>
+              <table className="w-full text-sm mb-3">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="font-medium pb-1">{t('riskModels.code')}</th>
+                    <th className="font-medium pb-1">{t('riskModels.label')}</th>
+                    <th className="font-medium pb-1">{t('riskModels.points')}</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {config.medical.weights.map((weight, idx) => {
+                    const update = (value: Partial<typeof weight>) =>
+                      patch('medical', { weights: config.medical.weights.map((w, i) => (i === idx ? { ...w, ...value } : w)) });
+                    return (
+                      <tr key={idx}>
+                        <td className="pr-2 py-0.5 w-28">
+                          <input value={weight.code} onChange={(e) => update({ code: e.target.value })} disabled={!editable} className={inputClass} />
+                        </td>
+                        <td className="pr-2 py-0.5">
+                          <input value={weight.label} onChange={(e) => update({ label: e.target.value })} disabled={!editable} className={inputClass} />
+                        </td>
+                        <td className="pr-2 py-0.5 w-24">
+                          <input type="number" value={weight.points} onChange={(e) => update({ points: Number(e.target.value) })} disabled={!editable} className={inputClass} />
+                        </td>
+                        <td className="w-6">
+                          {editable && (
+                            <button
+                              type="button"
+                              onClick={() => patch('medical', { weights: config.medical.weights.filter((_, i) => i !== idx) })}
+                              className="text-gray-400 hover:text-red-600"
+                              aria-label={t('riskModels.remove')}
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="grid grid-cols-3 gap-3">
+                <NumberField label={t('riskModels.defaultPoints')} value={config.medical.default_points} onChange={(value) => patch('medical', { default_points: value })} disabled={!editable} />
+                <NumberField label={t('riskModels.multiplier')} value={config.medical.multi_condition_multiplier} step={0.1} onChange={(value) => patch('medical', { multi_condition_multiplier: value })} disabled={!editable} />
+                <NumberField label={t('riskModels.cap')} value={config.medical.cap} onChange={(cap) => patch('medical', { cap })} disabled={!editable} />
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-base font-bold text-gray-900 mb-2">{t('riskModels.environmental')}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <BandTable title={t('riskModels.temperature')} unit="°C" bands={config.environmental.temperature} onChange={(temperature) => patch('environmental', { temperature })} disabled={!editable} />
+                <BandTable title={t('riskModels.humidity')} unit="%" bands={config.environmental.humidity} onChange={(humidity) => patch('environmental', { humidity })} disabled={!editable} />
+                <BandTable title={t('riskModels.aqi')} unit="AQI" bands={config.environmental.aqi} onChange={(aqi) => patch('environmental', { aqi })} disabled={!editable} />
+              </div>
+              <div className="w-40 mt-3">
+                <NumberField label={t('riskModels.cap')} value={config.environmental.cap} onChange={(cap) => patch('environmental', { cap })} disabled={!editable} />
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-base font-bold text-gray-900 mb-1">{t('riskModels.incidents')}</h3>
+              <p className="text-sm text-gray-600 mb-2">{t('riskModels.incidentsDesc')}</p>
+              {selected?.incidents_default && <p className="text-sm text-amber-700 mb-2">{t('riskModels.incidentsDefault')}</p>}
+              <div className="grid grid-cols-3 gap-3 mb-3">
+                {config.incidents.weights.map((weight, idx) => (
+                  <NumberField
+                    key={weight.incident_type}
+                    label={t('riskModels.incidentPoints', { type: weight.incident_type })}
+                    value={weight.points}
+                    onChange={(points) => patch('incidents', {
+                      weights: config.incidents.weights.map((w, i) => (i === idx ? { ...w, points } : w)),
+                    })}
+                    disabled={!editable}
+                  />
+                ))}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <NumberField label={t('riskModels.windowHours')} value={config.incidents.window_hours} onChange={(value) => patch('incidents', { window_hours: value })} disabled={!editable} />
+                <NumberField label={t('riskModels.halfLifeHours')} value={config.incidents.half_life_hours} onChange={(value) => patch('incidents', { half_life_hours: value })} disabled={!editable} />
+                <NumberField label={t('riskModels.pendingFollowUpPoints')} value={config.incidents.pending_follow_up_points} onChange={(value) => patch('incidents', { pending_follow_up_points: value })} disabled={!editable} />
+                <NumberField label={t('riskModels.cap')} value={config.incidents.cap} onChange={(cap) => patch('incidents', { cap })} disabled={!editable} />
+              </div>
+            </section>
+
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-base font-bold text-gray-900">{t('riskModels.recommendations')}</h3>
+                {editable && (
+                  <button
+                    type="button"
+                    onClick={() => change({ ...config, recommendations: [...config.recommendations, { component: 'total', min: 0, messages: [] }] })}
+                    className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline"
+                  >
+                    <Plus className="w-3 h-3" aria-hidden="true" /> {t('riskModels.addRule')}
+                  </button>
+                )}
+              </div>
+              <div className="space-y-3">
+                {config.recommendations.map((rule, idx) => {
+                  const update = (value: Partial<typeof rule>) =>
+                    change({ ...config, recommendations: config.recommendations.map((r, i) => (i === idx ? { ...r, ...value } : r)) });
+                  return (
+                    <div key={idx} className="flex flex-wrap items-start gap-2 border border-gray-200 rounded-md p-2">
+                      <span className="text-xs text-gray-500 pt-1.5">{t('riskModels.when')}</span>
+                      <select
+                        value={rule.component}
+                        onChange={(e) => update({ component: e.target.value as typeof rule.component })}
+                        disabled={!editable}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        {RULE_COMPONENTS.map((component) => (
+                          <option key={component} value={component}>{t(`riskModels.component.${component}`)}</option>
+                        ))}
+                      </select>
+                      <span className="text-xs text-gray-500 pt-1.5">≥</span>
+                      <input type="number" value={rule.min} onChange={(e) => update({ min: Number(e.target.value) })} disabled={!editable} className={`${inputClass} w-20`} />
+                      <textarea
+                        value={rule.messages.join('\n')}
+                        onChange={(e) => update({ messages: e.target.value.split('\n') })}
+                        disabled={!editable}
+                        rows={2}
+                        placeholder={t('riskModels.messagesPlaceholder')}
+                        className={`${inputClass} flex-1 min-w-[14rem]`}
+                      />
+                      {editable && (
+                        <button
+                          type="button"
+                          onClick={() => change({ ...config, recommendations: config.recommendations.filter((_, i) => i !== idx) })}
+                          className="text-gray-400 hover:text-red-600 pt-1.5"
+                          aria-label={t('riskModels.remove')}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+                <label className="block text-xs font-medium text-gray-600">
+                  {t('riskModels.defaultRecommendations')}
+                  <textarea
+                    value={config.default_recommendations.join('\n')}
+                    onChange={(e) => change({ ...config, default_recommendations: e.target.value.split('\n') })}
+                    disabled={!editable}
+                    rows={2}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              </div>
+            </section>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+              <div>
+                <h3 className="text-base font-bold text-gray-900">{t('riskModels.previewTitle')}</h3>
+                <p className="text-sm text-gray-600">{t('riskModels.previewDesc')}</p>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="w-28">
+                  <NumberField label={t('riskModels.sampleSize')} value={sampleSize} onChange={setSampleSize} disabled={false} />
+                </div>
+                <button type="button" onClick={runPreview} disabled={previewing} className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-slate-900 text-white text-sm font-semibold disabled:opacity-50">
+                  {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />} {t('riskModels.runPreview')}
+                </button>
+              </div>
+            </div>
+            {preview && <PreviewResult preview={preview} />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useMemo } from 'react';
-import { searchDevotees, searchDevoteesByFace, Devotee, MedicalRecord } from '../lib/api';
-import { Search, Loader2, User, Camera } from 'lucide-react';
+import { searchDevotees, searchDevoteesByFace, verifyHealthCard, ApiError, Devotee, MedicalRecord } from '../lib/api';
+import { Search, Loader2, User, Camera, QrCode } from 'lucide-react';
 import SelfieCapture from './SelfieCapture';
+import QrScanner from './QrScanner';
 import { useI18n } from '../i18n/i18n';
 
 type SearchResult = Devotee & { medical_records: MedicalRecord | null };
@@ -14,6 +15,7 @@ export default function SearchInterface({ onSelectDevotee }: { onSelectDevotee:
   const [loading, setLoading] = useState(false);
   const [searched, setSearched] = useState(false);
   const [showFaceSearch, setShowFaceSearch] = useState(false);
+  const [showCardScanner, setShowCardScanner] = useState(false);
 
   // Filter states
   const [genderFilter, setGenderFilter] = useState<'' | 'Male' | 'Female' | 'Other'>('');
@@ -67,6 +69,28 @@ export default function SearchInterface({ onSelectDevotee }: { onSelectDevotee:
     }
   };
 
+  const handleCardScan = async (payload: string) => {
+    setShowCardScanner(false);
+    setLoading(true);
+    setSearched(true);
+
+    try {
+      const devotee = await verifyHealthCard(payload);
+      setResults([devotee]);
+      // Opens the profile straight away for staff allowed to read it
+      onSelectDevotee(devotee);
+    } catch (error) {
+      alert(
+        error instanceof ApiError && error.status === 400
+          ? t('scan.invalidCard')
+          : t('search.fail', { message: (error as Error).message })
+      );
+      setResults([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="space-y-4">
       <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-3">
@@ -80,6 +104,15 @@ export default function SearchInterface({ onSelectDevotee }: { onSelectDevotee:
           {t('search.byFace')}
         </button>
 
+        <button
+          type="button"
+          onClick={() => setShowCardScanner(true)}
+          className="w-full border-2 border-indigo-200 text-indigo-700 hover:bg-indigo-50 font-semibold px-6 py-3 rounded-xl transition-colors flex items-center justify-center gap-3"
+        >
+          <QrCode className="w-5 h-5" />
+          {t('search.byCard')}
+        </button>
+
         <div className="relative">
           <div className="absolute inset-0 flex items-center" aria-hidden="true">
             <div className="w-full border-t border-gray-200"></div>
@@ -212,7 +245,7 @@ export default function SearchInterface({ onSelectDevotee }: { onSelectDevotee:
                   <div className="flex items-start gap-3">
                     {result.photo_url ? (
                       <img
-                        src={result.photo_url}
+                        src={result.photo_thumb_url || result.photo_url}
                         alt={result.full_name}
                         className="w-12 h-12 rounded-full object-cover border border-gray-200 flex-shrink-0"
                       />
@@ -287,6 +320,8 @@ export default function SearchInterface({ onSelectDevotee }: { onSelectDevotee:
           onClose={() => setShowFaceSearch(false)}
         />
       )}
+
+      {showCardScanner && <QrScanner onDetect={handleCardScan} onClose={() => setShowCardScanner(false)} />}
     </div>
   );
 }
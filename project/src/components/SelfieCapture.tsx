@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { Camera, X, CheckCircle, AlertCircle, Loader2, Info, SwitchCamera } from 'lucide-react';
 import * as faceapi from 'face-api.js';
 import { useI18n } from '../i18n/i18n';
+import { analyzeFace } from '../lib/api';
 
 type SelfieCaptureProps = {
   // faceDescriptor is used for face-based search / identification
@@ -289,24 +290,16 @@ export default function SelfieCapture({ onCapture, onClose }: SelfieCaptureProps
 
     // Call Backend Gemini API
     try {
-      const response = await fetch('/api/face/analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ image: imageData }),
-      });
-
-      if (response.ok) {
-        const apiData = await response.json();
-        console.log('Gemini Analysis:', apiData);
-
-        if (apiData) {
-          setEditableDemographics({
-            age: apiData.age?.toString() || initialDemographics.age,
-            gender: (apiData.gender?.toLowerCase() === 'female' ? 'female' : 'male'),
-            estimatedHeight: apiData.estimatedHeight?.toString() || initialDemographics.estimatedHeight,
-            estimatedWeight: apiData.estimatedWeight?.toString() || initialDemographics.estimatedWeight
-          });
-        }
+      const apiData = await analyzeFace(imageData);
+      console.log('Gemini Analysis:', apiData);
+
+      if (apiData) {
+        setEditableDemographics({
+          age: apiData.age?.toString() || initialDemographics.age,
+          gender: (apiData.gender?.toLowerCase() === 'female' ? 'female' : 'male'),
+          estimatedHeight: apiData.estimatedHeight?.toString() || initialDemographics.estimatedHeight,
+          estimatedWeight: apiData.estimatedWeight?.toString() || initialDemographics.estimatedWeight
+        });
       }
     } catch (apiErr) {
       console.warn('Face API failed:', apiErr);
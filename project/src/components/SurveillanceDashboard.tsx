@@ -0,0 +1,362 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Check, Loader2, RefreshCw, Siren, User, X } from 'lucide-react';
+import {
+  getDevotee,
+  getSurveillanceAlerts,
+  getSurveillanceIncidents,
+  getSurveillanceSignals,
+  reviewSurveillanceAlert,
+  DevoteeWithRecord,
+  Syndrome,
+  SurveillanceAlert,
+  SurveillanceIncident,
+  SurveillanceScope,
+  SurveillanceSignals,
+} from '../lib/api';
+import { TRIAGE_STYLES } from '../lib/vitals';
+import { useI18n } from '../i18n/i18n';
+
+type SurveillanceDashboardProps = {
+  onSelectDevotee: (devotee: DevoteeWithRecord) => void;
+};
+
+type DrillDown = {
+  syndrome: Syndrome;
+  scope: SurveillanceScope;
+  key: string;
+  label: string;
+  from: string;
+  to: string;
+};
+
+const BIN_HOURS = [1, 3, 6, 12, 24];
+
+const SYNDROME_STYLES: Record<Syndrome, string> = {
+  gi: 'bg-amber-100 text-amber-900',
+  heat: 'bg-orange-100 text-orange-900',
+  respiratory: 'bg-sky-100 text-sky-900',
+  injury: 'bg-slate-200 text-slate-900',
+  cardiac: 'bg-rose-100 text-rose-900',
+  fever: 'bg-red-100 text-red-900',
+};
+
+// Bars for the windows behind a signal; the current window is the last and darkest
+function Sparkline({ counts, alert }: { counts: number[]; alert: boolean }) {
+  const max = Math.max(...counts, 1);
+  return (
+    <span className="inline-flex items-end gap-px h-6" aria-hidden="true">
+      {counts.map((count, idx) => (
+        <span
+          key={idx}
+          className={`w-1.5 rounded-sm ${idx === counts.length - 1 ? (alert ? 'bg-red-600' : 'bg-slate-700') : 'bg-slate-300'}`}
+          style={{ height: `${Math.max((count / max) * 100, 4)}%` }}
+        />
+      ))}
+    </span>
+  );
+}
+
+export default function SurveillanceDashboard({ onSelectDevotee }: SurveillanceDashboardProps) {
+  const { t } = useI18n();
+  const [scope, setScope] = useState<SurveillanceScope>('center');
+  const [binHours, setBinHours] = useState(6);
+  const [signals, setSignals] = useState<SurveillanceSignals | null>(null);
+  const [alerts, setAlerts] = useState<SurveillanceAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const [cases, setCases] = useState<SurveillanceIncident[] | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [nextSignals, nextAlerts] = await Promise.all([
+        getSurveillanceSignals(scope, binHours),
+        getSurveillanceAlerts(),
+      ]);
+      setSignals(nextSignals);
+      setAlerts(nextAlerts);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, binHours]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!drillDown) return;
+    setCases(null);
+    const { syndrome, scope: placeScope, key, from, to } = drillDown;
+    getSurveillanceIncidents({ syndrome, scope: placeScope, key, from, to })
+      .then(setCases)
+      .catch((err) => {
+        console.error('Failed to load surveillance incidents:', err);
+        setCases([]);
+      });
+  }, [drillDown]);
+
+  const placeName = (placeScope: SurveillanceScope, label: string) =>
+    placeScope === 'sector' && !label ? t('surveillance.noSector') : label;
+
+  const review = async (target: SurveillanceAlert, status: 'acknowledged' | 'dismissed') => {
+    const note = status === 'dismissed' ? window.prompt(t('surveillance.dismissPrompt')) : '';
+    if (note === null) return;
+    try {
+      const updated = await reviewSurveillanceAlert(target.id, status, note);
+      setAlerts((prev) => (status === 'dismissed'
+        ? prev.filter((a) => a.id !== target.id)
+        : prev.map((a) => (a.id === target.id ? updated : a))));
+    } catch (err) {
+      window.alert(t('surveillance.reviewFailed', { message: (err as Error).message }));
+    }
+  };
+
+  const openProfile = async (devoteeId: string) => {
+    try {
+      onSelectDevotee(await getDevotee(devoteeId));
+    } catch (err) {
+      console.error('Failed to fetch devotee details:', err);
+    }
+  };
+
+  const formatRange = (from: string, to: string) =>
+    `${new Date(from).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} – ${new Date(to).toLocaleTimeString([], { timeStyle: 'short' })}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {(['center', 'sector'] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              className={`px-3 py-1.5 font-semibold ${scope === s ? 'bg-slate-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {t(`surveillance.scope.${s}`)}
+            </button>
+          ))}
+        </div>
+        <label className="text-sm text-gray-700 flex items-center gap-2">
+          {t('surveillance.window')}
+          <select
+            value={binHours}
+            onChange={(e) => setBinHours(Number(e.target.value))}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {BIN_HOURS.map((hours) => (
+              <option key={hours} value={hours}>{t('surveillance.hours', { count: hours })}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={load} className="ml-auto p-2 hover:bg-gray-100 rounded-full text-gray-600" aria-label={t('referral.refresh')}>
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <section className="bg-white border border-red-200 rounded-lg shadow-sm">
+        <h3 className="flex items-center gap-2 px-4 py-3 border-b border-red-100 font-bold text-red-800">
+          <Siren className="w-5 h-5" />
+          {t('surveillance.alertsTitle', { count: alerts.length })}
+        </h3>
+        {loading && alerts.length === 0 ? (
+          <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-blue-600" /></div>
+        ) : alerts.length === 0 ? (
+          <p className="text-center text-gray-500 py-8 text-sm">{t('surveillance.noAlerts')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {alerts.map((alert) => (
+              <li key={alert.id} className={`px-4 py-3 flex flex-wrap items-start justify-between gap-3 ${alert.status === 'open' ? 'bg-red-50/50' : ''}`}>
+                <div>
+                  <p className="font-bold text-gray-900 flex items-center gap-2">
+                    <span className={`text-xs px-2 py-0.5 rounded font-semibold ${SYNDROME_STYLES[alert.syndrome]}`}>
+                      {t(`surveillance.syndrome.${alert.syndrome}`)}
+                    </span>
+                    {placeName(alert.scope, alert.label)}
+                  </p>
+                  <p className="text-xs text-gray-600 mt-1">
+                    {t('surveillance.alertSince', { date: new Date(alert.first_window_start).toLocaleString() })}
+                    {' · '}
+                    {t('surveillance.observedExpected', { observed: alert.observed, expected: alert.expected })}
+                    {alert.peak_observed > alert.observed && ` · ${t('surveillance.peak', { count: alert.peak_observed })}`}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1 font-mono">
+                    {alert.methods.join(' ')} · C1 {alert.c1} · C2 {alert.c2} · C3 {alert.c3}
+                  </p>
+                  {alert.status === 'acknowledged' && (
+                    <p className="text-xs text-green-700 mt-1">
+                      {t('surveillance.acknowledgedBy', { name: alert.reviewed_by?.full_name || '' })}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <button
+                    onClick={() => setDrillDown({
+                      syndrome: alert.syndrome,
+                      scope: alert.scope,
+                      key: alert.scope_key,
+                      label: placeName(alert.scope, alert.label),
+                      from: alert.first_window_start,
+                      to: alert.window_end,
+                    })}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    {t('surveillance.viewCases')}
+                  </button>
+                  {alert.status === 'open' && (
+                    <button
+                      onClick={() => review(alert, 'acknowledged')}
+                      className="px-3 py-1.5 bg-slate-900 text-white rounded-md hover:bg-slate-700 inline-flex items-center gap-1"
+                    >
+                      <Check className="w-4 h-4" />
+                      {t('surveillance.acknowledge')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => review(alert, 'dismissed')}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md hover:bg-gray-50 text-gray-600"
+                  >
+                    {t('surveillance.dismiss')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="bg-white border border-gray-200 rounded-lg shadow-sm">
+        <div className="px-4 py-3 border-b border-gray-100">
+          <h3 className="font-bold text-gray-900">{t('surveillance.signalsTitle')}</h3>
+          {signals && (
+            <p className="text-xs text-gray-500">
+              {t('surveillance.currentWindow', { range: formatRange(signals.window.start, signals.window.end) })}
+            </p>
+          )}
+        </div>
+        {loading && !signals ? (
+          <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-blue-600" /></div>
+        ) : !signals || signals.signals.length === 0 ? (
+          <p className="text-center text-gray-500 py-8 text-sm">{t('surveillance.noSignals')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                <tr>
+                  <th className="px-4 py-2 text-left">{t(`surveillance.scope.${signals.scope}`)}</th>
+                  <th className="px-4 py-2 text-left">{t('surveillance.syndromeColumn')}</th>
+                  <th className="px-4 py-2 text-left">{t('surveillance.trend')}</th>
+                  <th className="px-4 py-2 text-right">{t('surveillance.cases')}</th>
+                  <th className="px-4 py-2 text-right">{t('surveillance.expected')}</th>
+                  <th className="px-4 py-2 text-right">C1</th>
+                  <th className="px-4 py-2 text-right">C2</th>
+                  <th className="px-4 py-2 text-right">C3</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {signals.signals.map((signal) => (
+                  <tr
+                    key={`${signal.syndrome}|${signal.scope_key}`}
+                    onClick={() => setDrillDown({
+                      syndrome: signal.syndrome,
+                      scope: signals.scope,
+                      key: signal.scope_key,
+                      label: placeName(signals.scope, signal.label),
+                      from: signals.window.start,
+                      to: signals.window.end,
+                    })}
+                    className={`cursor-pointer ${signal.alert ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-4 py-2 font-medium text-gray-900">
+                      {signal.alert && <AlertTriangle className="w-4 h-4 text-red-600 inline mr-1" aria-label={t('surveillance.alert')} />}
+                      {placeName(signals.scope, signal.label)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`text-xs px-2 py-0.5 rounded font-semibold ${SYNDROME_STYLES[signal.syndrome]}`}>
+                        {t(`surveillance.syndrome.${signal.syndrome}`)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2"><Sparkline counts={signal.counts} alert={signal.alert} /></td>
+                    <td className="px-4 py-2 text-right font-bold">{signal.observed}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{signal.expected}</td>
+                    <td className={`px-4 py-2 text-right font-mono ${signal.methods.includes('C1') ? 'text-red-700 font-bold' : 'text-gray-600'}`}>{signal.c1}</td>
+                    <td className={`px-4 py-2 text-right font-mono ${signal.methods.includes('C2') ? 'text-red-700 font-bold' : 'text-gray-600'}`}>{signal.c2}</td>
+                    <td className={`px-4 py-2 text-right font-mono ${signal.methods.includes('C3') ? 'text-red-700 font-bold' : 'text-gray-600'}`}>{signal.c3}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-100">{t('surveillance.methodHelp')}</p>
+      </section>
+
+      {drillDown && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-bold text-gray-900">
+                  {t(`surveillance.syndrome.${drillDown.syndrome}`)} · {drillDown.label}
+                </h2>
+                <p className="text-sm text-gray-600">{formatRange(drillDown.from, drillDown.to)}</p>
+              </div>
+              <button
+                onClick={() => setDrillDown(null)}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                aria-label={t('common.close')}
+              >
+                <X className="w-6 h-6 text-gray-600" aria-hidden="true" />
+              </button>
+            </div>
+            {!cases ? (
+              <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-blue-600" /></div>
+            ) : cases.length === 0 ? (
+              <p className="text-center text-gray-500 py-8 text-sm">{t('surveillance.noCases')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {cases.map((incident) => (
+                  <li key={incident.id} className="px-6 py-3 flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <button
+                        onClick={() => incident.devotee && openProfile(incident.devotee.id)}
+                        className="font-bold text-gray-900 hover:underline flex items-center gap-1"
+                      >
+                        <User className="w-4 h-4 text-gray-500" />
+                        {incident.devotee ? incident.devotee.full_name : t('referral.unknownPatient')}
+                      </button>
+                      {incident.devotee && (
+                        <p className="text-xs text-gray-600">
+                          {incident.devotee.registration_number} · {incident.devotee.age} · {incident.devotee.gender}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-700 flex-1 min-w-[12rem]">
+                      <p><span className="text-gray-500">{t('profile.symptoms')}</span> {incident.symptoms}</p>
+                      {incident.diagnosis && <p><span className="text-gray-500">{t('profile.diagnosis')}</span> {incident.diagnosis}</p>}
+                    </div>
+                    <div className="text-xs text-right space-y-1">
+                      <p className="text-gray-700">{new Date(incident.incident_date).toLocaleString()}</p>
+                      <p className="text-gray-600">{incident.medical_center}</p>
+                      {incident.triage_category && (
+                        <span className={`px-2 py-0.5 rounded font-bold uppercase ${TRIAGE_STYLES[incident.triage_category]}`}>
+                          {t(`triage.${incident.triage_category}`)}
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Trash2, X } from 'lucide-react';
+import {
+  discardFailedMutation,
+  retryFailedMutation,
+  subscribeSyncState,
+  syncPendingMutations,
+  SyncState,
+} from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+// How often to retry the queue while online, in case a replay was interrupted
+const SYNC_INTERVAL = 60 * 1000;
+
+export default function SyncStatusIndicator() {
+  const { t } = useI18n();
+  const [state, setState] = useState<SyncState | null>(null);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeSyncState(setState);
+    const handleConnectivity = () => {
+      syncPendingMutations();
+    };
+
+    window.addEventListener('online', handleConnectivity);
+    window.addEventListener('offline', handleConnectivity);
+    syncPendingMutations();
+    const interval = setInterval(syncPendingMutations, SYNC_INTERVAL);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleConnectivity);
+      window.removeEventListener('offline', handleConnectivity);
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!state) return null;
+
+  const failedCount = state.failed.length;
+  const tone = failedCount > 0
+    ? 'bg-red-100 text-red-800 border-red-300'
+    : !state.online || state.pending > 0
+      ? 'bg-amber-100 text-amber-800 border-amber-300'
+      : 'bg-white/90 text-green-700 border-green-200';
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border text-xs font-semibold shadow-sm ${tone}`}
+        aria-label={t('sync.status')}
+        aria-expanded={open}
+      >
+        {state.syncing ? (
+          <RefreshCw className="w-4 h-4 animate-spin" aria-hidden="true" />
+        ) : state.online ? (
+          <Cloud className="w-4 h-4" aria-hidden="true" />
+        ) : (
+          <CloudOff className="w-4 h-4" aria-hidden="true" />
+        )}
+        <span className="hidden sm:inline">
+          {!state.online ? t('sync.offline') : state.syncing ? t('sync.syncing') : t('sync.online')}
+        </span>
+        {state.pending > 0 && (
+          <span className="bg-amber-500 text-white rounded-full px-1.5">{state.pending}</span>
+        )}
+        {failedCount > 0 && (
+          <span className="bg-red-600 text-white rounded-full px-1.5">{failedCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50 text-sm text-gray-800">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+            <span className="font-semibold">{t('sync.title')}</span>
+            <button onClick={() => setOpen(false)} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="p-4 space-y-3">
+            <p>{t('sync.pendingCount', { count: state.pending })}</p>
+            {state.others > 0 && (
+              <p className="text-xs text-gray-600">{t('sync.othersPending', { count: state.others })}</p>
+            )}
+            {state.pending > 0 && state.online && (
+              <button
+                onClick={() => syncPendingMutations()}
+                disabled={state.syncing}
+                className="inline-flex items-center gap-1 bg-blue-600 text-white px-3 py-1.5 rounded-md text-xs font-semibold hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                <RefreshCw className="w-3 h-3" />
+                {t('sync.syncNow')}
+              </button>
+            )}
+
+            {failedCount > 0 && (
+              <div className="space-y-2">
+                <p className="font-semibold text-red-700 flex items-center gap-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  {t('sync.failedTitle')}
+                </p>
+                {state.failed.map((mutation) => (
+                  <div key={mutation.id} className="border border-red-200 bg-red-50 rounded-md p-2 space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span className="font-semibold">{t(`sync.kind.${mutation.kind}`)}</span>
+                      <span className="text-gray-500">{new Date(mutation.created_at).toLocaleString()}</span>
+                    </div>
+                    {mutation.user_id == null && <p className="text-xs text-gray-700">{t('sync.unowned')}</p>}
+                    {mutation.error && <p className="text-xs text-red-700 break-words">{mutation.error}</p>}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => retryFailedMutation(mutation.id!)}
+                        className="inline-flex items-center gap-1 text-xs font-semibold text-blue-700 hover:underline"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        {t('sync.retry')}
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(t('sync.discardConfirm'))) discardFailedMutation(mutation.id!);
+                        }}
+                        className="inline-flex items-center gap-1 text-xs font-semibold text-red-700 hover:underline"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        {t('sync.discard')}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
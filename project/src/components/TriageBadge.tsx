@@ -0,0 +1,35 @@
+import { IncidentTriage } from '../lib/api';
+import { NEWS2_STYLES, TRIAGE_STYLES, UNTRIAGED_STYLE } from '../lib/vitals';
+import { useI18n } from '../i18n/i18n';
+
+// START colour plus the NEWS2 score; an incomplete score is marked since missing vitals count as 0,
+// and an observation without every START input is shown untriaged with what to add
+export default function TriageBadge({ triage }: { triage: IncidentTriage }) {
+  const { t } = useI18n();
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      {triage.category ? (
+        <span className={`text-xs px-2 py-1 rounded font-bold uppercase ${TRIAGE_STYLES[triage.category]}`}>
+          {t(`triage.${triage.category}`)}
+        </span>
+      ) : (
+        <span
+          className={`text-xs px-2 py-1 rounded font-bold uppercase ${UNTRIAGED_STYLE}`}
+          title={triage.start_missing?.length
+            ? t('triage.needs', { inputs: triage.start_missing.map((step) => t(`triage.input.${step}`)).join(', ') })
+            : undefined}
+        >
+          {t('triage.untriaged')}
+        </span>
+      )}
+      <span
+        className={`text-xs px-2 py-1 rounded font-medium ${NEWS2_STYLES[triage.news2_risk]}`}
+        title={triage.news2_complete ? undefined : t('triage.news2Partial')}
+      >
+        {t('triage.news2', { score: triage.news2_score })}
+        {!triage.news2_complete && '*'}
+      </span>
+    </span>
+  );
+}
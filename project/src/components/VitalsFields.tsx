@@ -0,0 +1,90 @@
+import { useI18n } from '../i18n/i18n';
+import { AVPU_LEVELS, parseVitalsDraft, startInputsNeeded, VITAL_FIELDS, VitalsDraft, VitalsErrors, YesNo } from '../lib/vitals';
+import { Avpu } from '../lib/api';
+
+type VitalsFieldsProps = {
+  value: VitalsDraft;
+  errors: VitalsErrors;
+  onChange: (value: VitalsDraft) => void;
+};
+
+// Shared vitals inputs for the incident form and for adding a later observation
+export default function VitalsFields({ value, errors, onChange }: VitalsFieldsProps) {
+  const { t } = useI18n();
+  const { vitals } = parseVitalsDraft(value);
+  const needed = vitals ? startInputsNeeded(vitals) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {VITAL_FIELDS.map(({ field, min, max, step, unit }) => (
+          <div key={field}>
+            <label htmlFor={`vital-${field}`} className="block text-xs font-medium text-gray-700 mb-1">
+              {t(`vitals.${field}`)}
+              {unit && <span className="text-gray-400"> ({unit})</span>}
+            </label>
+            <input
+              id={`vital-${field}`}
+              type="number"
+              inputMode="decimal"
+              min={min}
+              max={max}
+              step={step}
+              value={value[field]}
+              onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+              aria-invalid={Boolean(errors[field])}
+              className={`w-full px-2 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${errors[field] ? 'border-red-500 bg-red-50' : 'border-gray-300'}`}
+            />
+            {errors[field] && (
+              <p className="text-xs text-red-700 mt-0.5">{t(errors[field] as string, { min, max })}</p>
+            )}
+          </div>
+        ))}
+
+        <div>
+          <label htmlFor="vital-avpu" className="block text-xs font-medium text-gray-700 mb-1">{t('vitals.avpu')}</label>
+          <select
+            id="vital-avpu"
+            value={value.avpu}
+            onChange={(e) => onChange({ ...value, avpu: e.target.value as Avpu | '' })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">—</option>
+            {AVPU_LEVELS.map((level) => (
+              <option key={level} value={level}>{t(`vitals.avpu.${level}`)}</option>
+            ))}
+          </select>
+        </div>
+
+        {(['ambulatory', 'obeys_commands'] as const).map((field) => (
+          <div key={field}>
+            <label htmlFor={`vital-${field}`} className="block text-xs font-medium text-gray-700 mb-1">{t(`vitals.${field}`)}</label>
+            <select
+              id={`vital-${field}`}
+              value={value[field]}
+              onChange={(e) => onChange({ ...value, [field]: e.target.value as YesNo })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">—</option>
+              <option value="yes">{t('vitals.yes')}</option>
+              <option value="no">{t('vitals.no')}</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={value.on_oxygen} onChange={(e) => onChange({ ...value, on_oxygen: e.target.checked })} />
+          {t('vitals.on_oxygen')}
+        </label>
+      </div>
+
+      {needed.length > 0 && (
+        <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded px-2 py-1.5">
+          {t('triage.needs', { inputs: needed.map((step) => t(`triage.input.${step}`)).join(', ') })}
+        </p>
+      )}
+    </div>
+  );
+}
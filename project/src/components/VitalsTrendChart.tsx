@@ -0,0 +1,82 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { MedicalIncident } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type Series = { key: 'pulse' | 'bp_systolic' | 'bp_diastolic' | 'spo2' | 'respiratory_rate' | 'temperature_c' | 'blood_glucose_mg_dl' | 'news2_score'; color: string };
+
+// Readings that are plotted together share a sensible y-axis
+const GROUPS: { id: string; series: Series[] }[] = [
+  { id: 'circulation', series: [{ key: 'pulse', color: '#dc2626' }, { key: 'bp_systolic', color: '#2563eb' }, { key: 'bp_diastolic', color: '#60a5fa' }] },
+  { id: 'breathing', series: [{ key: 'spo2', color: '#0891b2' }, { key: 'respiratory_rate', color: '#7c3aed' }] },
+  { id: 'temperature', series: [{ key: 'temperature_c', color: '#ea580c' }] },
+  { id: 'glucose', series: [{ key: 'blood_glucose_mg_dl', color: '#16a34a' }] },
+  { id: 'news2', series: [{ key: 'news2_score', color: '#111827' }] },
+];
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Every observation from every incident on one time axis, so trends across visits are visible
+export default function VitalsTrendChart({ incidents }: { incidents: MedicalIncident[] }) {
+  const { t } = useI18n();
+  const [groupId, setGroupId] = useState(GROUPS[0].id);
+
+  const points = useMemo(
+    () =>
+      incidents
+        .flatMap((incident) => (incident.observations || []).map((o) => ({ ...o, time: new Date(o.recorded_at).getTime() })))
+        .sort((a, b) => a.time - b.time),
+    [incidents]
+  );
+
+  const incidentStarts = useMemo(
+    () => incidents.filter((i) => i.observations?.length).map((i) => new Date(i.incident_date).getTime()),
+    [incidents]
+  );
+
+  if (points.length === 0) return null;
+
+  const group = GROUPS.find((g) => g.id === groupId) || GROUPS[0];
+  const hasData = points.some((p) => group.series.some((s) => p[s.key] !== undefined));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-4">
+      <div className="flex flex-wrap gap-1 mb-2" role="tablist">
+        {GROUPS.map((g) => (
+          <button
+            key={g.id}
+            role="tab"
+            aria-selected={g.id === groupId}
+            onClick={() => setGroupId(g.id)}
+            className={`px-2.5 py-1 rounded-full text-xs font-semibold ${g.id === groupId ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            {t(`vitals.group.${g.id}`)}
+          </button>
+        ))}
+      </div>
+
+      {hasData ? (
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} />
+              <Tooltip labelFormatter={(time) => formatTime(Number(time))} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {incidentStarts.map((time) => (
+                <ReferenceLine key={time} x={time} stroke="#9ca3af" strokeDasharray="2 4" />
+              ))}
+              {group.series.map((s) => (
+                <Line key={s.key} type="monotone" dataKey={s.key} name={t(`vitals.${s.key}`)} stroke={s.color} dot={{ r: 3 }} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 py-8 text-center">{t('vitals.noReadings')}</p>
+      )}
+    </div>
+  );
+}
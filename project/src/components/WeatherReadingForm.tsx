@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Loader2, Thermometer, X } from 'lucide-react';
+import { recordWeatherReading, Weather, WeatherLocation, WeatherReadingInput } from '../lib/api';
+import { useI18n } from '../i18n/i18n';
+
+type WeatherReadingFormProps = {
+  locations: WeatherLocation[];
+  sector: string;
+  onClose: () => void;
+  onRecorded: (weather: Weather) => void;
+};
+
+type OptionalField = 'feelsLike' | 'aqi' | 'uv';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function WeatherReadingForm({ locations, sector, onClose, onRecorded }: WeatherReadingFormProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState({ sector, temp: '', humidity: '', feelsLike: '', aqi: '', uv: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+
+  const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const payload: WeatherReadingInput = {
+        sector: form.sector,
+        temp: Number(form.temp),
+        humidity: Number(form.humidity),
+        notes: form.notes,
+      };
+      // Meters a team doesn't carry are left blank and filled in from the other providers
+      (['feelsLike', 'aqi', 'uv'] as OptionalField[]).forEach((field) => {
+        if (form[field] !== '') payload[field] = Number(form[field]);
+      });
+      onRecorded(await recordWeatherReading(payload));
+    } catch (error) {
+      alert(t('weatherReading.failed', { message: (error as Error).message }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberField = (field: 'temp' | 'humidity' | OptionalField, label: string, required = false) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        step="0.1"
+        required={required}
+        className={inputClass}
+        value={form[field]}
+        onChange={update(field)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Thermometer className="w-5 h-5 text-orange-600" />
+            {t('weatherReading.title')}
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full" aria-label={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('weatherReading.sector')}</label>
+            <select required className={inputClass} value={form.sector} onChange={update('sector')}>
+              {locations.map((location) => (
+                <option key={location.sector} value={location.sector}>{location.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {numberField('temp', t('weatherReading.temp'), true)}
+            {numberField('humidity', t('weatherReading.humidity'), true)}
+            {numberField('feelsLike', t('weatherReading.feelsLike'))}
+            {numberField('aqi', t('weatherReading.aqi'))}
+            {numberField('uv', t('weatherReading.uv'))}
+          </div>
+          <p className="text-xs text-gray-500">{t('weatherReading.optionalHint')}</p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('weatherReading.notes')}</label>
+            <input type="text" className={inputClass} value={form.notes} onChange={update('notes')} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg">
+            {t('incident.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center gap-2 bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-400"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {t('weatherReading.submit')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,31 +1,27 @@
-import { useState, useEffect } from 'react';
-import { Cloud, Droplets, Wind, AlertTriangle, Thermometer, Loader2 } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Cloud, Droplets, Wind, AlertTriangle, Thermometer, Loader2, PenLine, CalendarRange } from 'lucide-react';
 import { useI18n } from '../i18n/i18n';
+import { useAuth } from '../auth/useAuth';
+import { getCurrentWeather, getWeatherLocations, Weather, WeatherLocation } from '../lib/api';
+import WeatherReadingForm from './WeatherReadingForm';
+import HeatPlanPanel from './HeatPlanPanel';
 
-type WeatherData = {
-    temperature: number;
-    feelsLike: number;
-    humidity: number;
-    pressure: number;
-    description: string;
-    icon: string;
-    windSpeed: number;
-    windDeg: number;
-    visibility: number;
-    clouds: number;
-    uvIndex: number;
-    aqi: number;
-    location: string;
-    cached?: boolean;
-};
+// CPCB AQI categories, upper bound inclusive
+const AQI_BANDS = [50, 100, 200, 300, 400, Infinity];
 
 const AQI_LABELS = {
-    en: ['Good', 'Fair', 'Moderate', 'Poor', 'Very Poor'],
-    hi: ['अच्छा', 'साधारण', 'मध्यम', 'खराब', 'बहुत खराब'],
-    mr: ['चांगला', 'साधारण', 'मध्यम', 'वाईट', 'अतिशय वाईट']
+    en: ['Good', 'Satisfactory', 'Moderate', 'Poor', 'Very Poor', 'Severe'],
+    hi: ['अच्छा', 'संतोषजनक', 'मध्यम', 'खराब', 'बहुत खराब', 'गंभीर'],
+    mr: ['चांगला', 'समाधानकारक', 'मध्यम', 'वाईट', 'अतिशय वाईट', 'गंभीर']
 };
 
-const AQI_COLORS = ['bg-green-500', 'bg-yellow-500', 'bg-orange-500', 'bg-red-500', 'bg-purple-500'];
+const AQI_COLORS = ['bg-green-500', 'bg-lime-500', 'bg-yellow-500', 'bg-orange-500', 'bg-red-500', 'bg-purple-500'];
+
+const PROVIDER_LABELS = {
+    en: { manual: 'Field reading', openweathermap: 'OpenWeatherMap', fixture: 'Simulated data' },
+    hi: { manual: 'फील्ड रीडिंग', openweathermap: 'OpenWeatherMap', fixture: 'नकली डेटा' },
+    mr: { manual: 'फील्ड रीडिंग', openweathermap: 'OpenWeatherMap', fixture: 'बनावट डेटा' }
+};
 
 const UV_LABELS = {
     en: ['Low', 'Low', 'Moderate', 'Moderate', 'High', 'High', 'Very High', 'Very High', 'Extreme', 'Extreme', 'Extreme'],
@@ -38,16 +34,22 @@ const UV_COLORS = ['bg-green-500', 'bg-green-500', 'bg-yellow-500', 'bg-yellow-5
 
 export default function WeatherWidget() {
     const { lang } = useI18n();
-    const [weather, setWeather] = useState<WeatherData | null>(null);
+    const { can } = useAuth();
+    const [weather, setWeather] = useState<Weather | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [locations, setLocations] = useState<WeatherLocation[]>([]);
+    const [sector, setSector] = useState('');
+    const [recording, setRecording] = useState(false);
+    const [planning, setPlanning] = useState(false);
 
-    const fetchWeather = async () => {
+    useEffect(() => {
+        getWeatherLocations().then(setLocations).catch(err => console.error('Weather locations error:', err));
+    }, []);
+
+    const fetchWeather = useCallback(async () => {
         try {
-            const API_BASE = import.meta.env.PROD ? '/api' : 'http://localhost:4000/api';
-            const response = await fetch(`${API_BASE}/weather/current`);
-            if (!response.ok) throw new Error('Failed to fetch weather');
-            const data = await response.json();
+            const data = await getCurrentWeather(sector || undefined);
             setWeather(data);
             setError(null);
         } catch (err) {
@@ -56,14 +58,14 @@ export default function WeatherWidget() {
         } finally {
             setLoading(false);
         }
-    };
+    }, [sector]);
 
     useEffect(() => {
         fetchWeather();
         // Refresh every 5 minutes
         const interval = setInterval(fetchWeather, 5 * 60 * 1000);
         return () => clearInterval(interval);
-    }, []);
+    }, [fetchWeather]);
 
     if (loading) {
         return (
@@ -84,17 +86,41 @@ export default function WeatherWidget() {
                 <div className="flex items-center gap-2 text-gray-500 text-sm">
                     <Cloud className="w-5 h-5" />
                     <span>{lang === 'hi' ? 'मौसम डेटा उपलब्ध नहीं' : lang === 'mr' ? 'हवामान डेटा उपलब्ध नाही' : 'Weather data unavailable'}</span>
+                    {/* With no weather service configured, a field reading is the only source */}
+                    {can('weather:record') && locations.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={() => setRecording(true)}
+                            className="ml-auto inline-flex items-center gap-1 text-blue-700 font-semibold hover:underline"
+                        >
+                            <PenLine className="w-4 h-4" />
+                            {lang === 'hi' ? 'रीडिंग दर्ज करें' : lang === 'mr' ? 'रीडिंग नोंदवा' : 'Record reading'}
+                        </button>
+                    )}
                 </div>
+                {recording && (
+                    <WeatherReadingForm
+                        locations={locations}
+                        sector={sector || locations[0].sector}
+                        onClose={() => setRecording(false)}
+                        onRecorded={(reading) => {
+                            setRecording(false);
+                            setSector(reading.sector);
+                            setWeather(reading);
+                            setError(null);
+                        }}
+                    />
+                )}
             </div>
         );
     }
 
-    const aqiIndex = weather.aqi - 1; // Convert 1-5 to 0-4 for array indexing
+    const aqiIndex = weather.aqi !== null ? AQI_BANDS.findIndex(max => weather.aqi! <= max) : -1;
     const aqiLabel = AQI_LABELS[lang][aqiIndex] || AQI_LABELS.en[aqiIndex];
     const aqiColor = AQI_COLORS[aqiIndex];
 
     // Calculate UV Index label and color
-    const uvIndex = weather.uvIndex !== undefined ? Math.min(weather.uvIndex, 10) : 5;
+    const uvIndex = weather.uv !== null ? Math.min(weather.uv, 10) : 5;
     const uvLabel = UV_LABELS[lang][uvIndex] || UV_LABELS.en[uvIndex];
     const uvColor = UV_COLORS[uvIndex];
 
@@ -118,11 +144,47 @@ export default function WeatherWidget() {
                             {lang === 'hi' ? 'वर्तमान मौसम' : lang === 'mr' ? 'सध्याचे हवामान' : 'Current Weather'}
                         </h3>
                     </div>
-                    <div className="bg-white/20 backdrop-blur-sm px-3 py-1 rounded-full">
-                        <span className="text-white text-sm font-semibold">{weather.location}</span>
+                    <div className="flex items-center gap-2">
+                        {locations.length > 1 ? (
+                            <select
+                                value={sector || weather.sector}
+                                onChange={(e) => setSector(e.target.value)}
+                                className="bg-white/20 backdrop-blur-sm px-3 py-1 rounded-full text-white text-sm font-semibold border-none focus:ring-2 focus:ring-white/60"
+                                aria-label={lang === 'hi' ? 'क्षेत्र' : lang === 'mr' ? 'विभाग' : 'Sector'}
+                            >
+                                {locations.map(l => (
+                                    <option key={l.sector} value={l.sector} className="text-gray-900">{l.name}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <div className="bg-white/20 backdrop-blur-sm px-3 py-1 rounded-full">
+                                <span className="text-white text-sm font-semibold">{weather.location}</span>
+                            </div>
+                        )}
+                        {can('weather:record') && (
+                            <button
+                                type="button"
+                                onClick={() => setRecording(true)}
+                                className="bg-white/20 backdrop-blur-sm p-1.5 rounded-full text-white hover:bg-white/30"
+                                title={lang === 'hi' ? 'रीडिंग दर्ज करें' : lang === 'mr' ? 'रीडिंग नोंदवा' : 'Record reading'}
+                            >
+                                <PenLine className="w-4 h-4" />
+                            </button>
+                        )}
                     </div>
                 </div>
 
+                {weather.simulated && (
+                    <div className="mb-4 flex items-center gap-2 bg-amber-100 text-amber-900 rounded-xl px-3 py-2 text-sm font-semibold">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        {lang === 'hi'
+                            ? 'नकली (डेमो) मौसम डेटा — यह वास्तविक माप नहीं है'
+                            : lang === 'mr'
+                                ? 'बनावट (डेमो) हवामान डेटा — हे प्रत्यक्ष मोजमाप नाही'
+                                : 'Simulated (demo) weather data — not a real measurement'}
+                    </div>
+                )}
+
                 {/* Temperature Hero Section */}
                 <div className="flex items-center justify-between mb-6">
                     <div className="flex items-center gap-4">
@@ -131,24 +193,34 @@ export default function WeatherWidget() {
                         </div>
                         <div>
                             <div className="text-6xl font-bold text-white drop-shadow-lg">
-                                {weather.temperature}°C
+                                {weather.temp}°C
                             </div>
                             <div className="text-white/80 text-sm mt-1">
                                 {lang === 'hi' ? 'महसूस: ' : lang === 'mr' ? 'वाटतं: ' : 'Feels like: '}
                                 <span className="font-semibold">{weather.feelsLike}°C</span>
                             </div>
+                            {weather.wbgt !== null && (
+                                <div className="text-white/80 text-sm">
+                                    {lang === 'hi' ? 'हीट इंडेक्स ' : lang === 'mr' ? 'हीट इंडेक्स ' : 'Heat index '}
+                                    <span className="font-semibold">{weather.heatIndex}°C</span>
+                                    {' • WBGT '}
+                                    <span className="font-semibold">{weather.wbgt}°C</span>
+                                </div>
+                            )}
                         </div>
                     </div>
-                    <div className="text-center">
-                        <img
-                            src={`https://openweathermap.org/img/wn/${weather.icon}@4x.png`}
-                            alt={weather.description}
-                            className="w-32 h-32 drop-shadow-2xl"
-                        />
-                        <div className="text-white text-sm font-medium capitalize -mt-2">
-                            {weather.description}
+                    {weather.icon && (
+                        <div className="text-center">
+                            <img
+                                src={`https://openweathermap.org/img/wn/${weather.icon}@4x.png`}
+                                alt={weather.description || ''}
+                                className="w-32 h-32 drop-shadow-2xl"
+                            />
+                            <div className="text-white text-sm font-medium capitalize -mt-2">
+                                {weather.description}
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </div>
 
                 {/* Weather Metrics Grid */}
@@ -172,9 +244,13 @@ export default function WeatherWidget() {
                                 {lang === 'hi' ? 'वायु' : lang === 'mr' ? 'हवा' : 'Air Quality'}
                             </span>
                         </div>
-                        <div className={`inline-block px-3 py-1 rounded-lg text-xs font-bold ${aqiColor} text-white shadow-lg`}>
-                            {aqiLabel}
-                        </div>
+                        {weather.aqi !== null ? (
+                            <div className={`inline-block px-3 py-1 rounded-lg text-xs font-bold ${aqiColor} text-white shadow-lg`}>
+                                {weather.aqi} - {aqiLabel}
+                            </div>
+                        ) : (
+                            <div className="text-2xl font-bold text-white">--</div>
+                        )}
                     </div>
 
                     {/* UV Index */}
@@ -185,9 +261,9 @@ export default function WeatherWidget() {
                                 {lang === 'hi' ? 'UV' : lang === 'mr' ? 'UV' : 'UV Index'}
                             </span>
                         </div>
-                        {weather.uvIndex !== undefined ? (
+                        {weather.uv !== null ? (
                             <div className={`inline-block px-3 py-1 rounded-lg text-xs font-bold ${uvColor} text-white shadow-lg`}>
-                                {weather.uvIndex} - {uvLabel}
+                                {weather.uv} - {uvLabel}
                             </div>
                         ) : (
                             <div className="text-2xl font-bold text-white">--</div>
@@ -203,7 +279,7 @@ export default function WeatherWidget() {
                             </span>
                         </div>
                         <div className="text-xl font-bold text-white">
-                            {weather.windSpeed !== undefined ? `${weather.windSpeed} km/h` : '--'}
+                            {weather.windSpeed !== null ? `${weather.windSpeed} km/h` : '--'}
                         </div>
                     </div>
 
@@ -216,7 +292,7 @@ export default function WeatherWidget() {
                             </span>
                         </div>
                         <div className="text-xl font-bold text-white">
-                            {weather.visibility !== undefined ? `${weather.visibility} km` : '--'}
+                            {weather.visibility !== null ? `${weather.visibility} km` : '--'}
                         </div>
                     </div>
 
@@ -229,14 +305,14 @@ export default function WeatherWidget() {
                             </span>
                         </div>
                         <div className="text-xl font-bold text-white">
-                            {weather.pressure !== undefined ? `${weather.pressure} hPa` : '--'}
+                            {weather.pressure !== null ? `${weather.pressure} hPa` : '--'}
                         </div>
                     </div>
                 </div>
 
                 {/* UV Warning */}
-                {weather.uvIndex !== undefined && weather.uvIndex >= 6 && (
-                    <div className={`${weather.uvIndex >= 8 ? 'bg-red-500/90' : 'bg-orange-500/90'} backdrop-blur-sm border border-white/30 rounded-xl p-3 flex items-start gap-3 mb-3 animate-pulse`}>
+                {weather.uv !== null && weather.uv >= 6 && (
+                    <div className={`${weather.uv >= 8 ? 'bg-red-500/90' : 'bg-orange-500/90'} backdrop-blur-sm border border-white/30 rounded-xl p-3 flex items-start gap-3 mb-3 animate-pulse`}>
                         <AlertTriangle className="w-5 h-5 text-white flex-shrink-0 mt-0.5" />
                         <div className="text-sm text-white">
                             <strong>
@@ -253,7 +329,7 @@ export default function WeatherWidget() {
                 )}
 
                 {/* Heat Warning */}
-                {(weather.temperature >= 35 || weather.feelsLike >= 35) && (
+                {(weather.heat_level === 'high' || weather.heat_level === 'extreme' || weather.temp >= 35 || weather.feelsLike >= 35) && (
                     <div className="bg-orange-500/90 backdrop-blur-sm border border-white/30 rounded-xl p-3 flex items-start gap-3 mb-3 animate-pulse">
                         <AlertTriangle className="w-5 h-5 text-white flex-shrink-0 mt-0.5" />
                         <div className="text-sm text-white">
@@ -271,8 +347,8 @@ export default function WeatherWidget() {
                 )}
 
                 {/* Pollution Warning */}
-                {weather.aqi >= 3 && (
-                    <div className={`${weather.aqi >= 4 ? 'bg-red-500/90' : 'bg-yellow-500/90'} backdrop-blur-sm border border-white/30 rounded-xl p-3 flex items-start gap-3 mb-3`}>
+                {weather.aqi !== null && weather.aqi > 100 && (
+                    <div className={`${weather.aqi > 200 ? 'bg-red-500/90' : 'bg-yellow-500/90'} backdrop-blur-sm border border-white/30 rounded-xl p-3 flex items-start gap-3 mb-3`}>
                         <AlertTriangle className="w-5 h-5 text-white flex-shrink-0 mt-0.5" />
                         <div className="text-sm text-white">
                             <strong>
@@ -288,13 +364,43 @@ export default function WeatherWidget() {
                     </div>
                 )}
 
+                {/* Heat plan */}
+                <button
+                    type="button"
+                    onClick={() => setPlanning(!planning)}
+                    aria-expanded={planning}
+                    className="w-full flex items-center justify-center gap-2 bg-white/20 hover:bg-white/30 backdrop-blur-sm border border-white/30 rounded-xl py-2 text-white text-sm font-semibold"
+                >
+                    <CalendarRange className="w-4 h-4" />
+                    {lang === 'hi' ? '48 घंटे की गर्मी योजना' : lang === 'mr' ? '48 तासांचे उष्णता नियोजन' : '48-hour heat plan'}
+                </button>
+                {planning && (
+                    <div className="mt-3">
+                        <HeatPlanPanel sector={weather.sector} />
+                    </div>
+                )}
+
                 {/* Footer */}
                 <div className="text-center text-white/70 text-xs mt-4 flex items-center justify-center gap-2">
                     <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-                    {weather.cached && (lang === 'hi' ? 'कैश से लोड' : lang === 'mr' ? 'कॅशमधून' : 'Cached')} •
+                    {PROVIDER_LABELS[lang][weather.provider]} •
+                    {weather.cached && (lang === 'hi' ? ' कैश से लोड •' : lang === 'mr' ? ' कॅशमधून •' : ' Cached •')}
                     {lang === 'hi' ? ' हर 5 मिनट में अपडेट' : lang === 'mr' ? ' दर 5 मिनिटांनी' : ' Updates every 5 min'}
                 </div>
             </div>
+
+            {recording && (
+                <WeatherReadingForm
+                    locations={locations}
+                    sector={weather.sector}
+                    onClose={() => setRecording(false)}
+                    onRecorded={(reading) => {
+                        setRecording(false);
+                        setSector(reading.sector);
+                        setWeather(reading);
+                    }}
+                />
+            )}
         </div>
     );
 }
@@ -231,7 +231,7 @@ const DICT: Record<Language, Dictionary> = {
     'incident.doctor': 'Attending Doctor *',
     'incident.doctorPlaceholder': 'Dr. Name',
     'incident.center': 'Medical Center *',
-    'incident.centerPlaceholder': 'Center/Hospital Name',
+    'incident.centerPlaceholder': 'Select medical center',
     'incident.symptoms': 'Symptoms *',
     'incident.symptomsPlaceholder': 'Describe the symptoms presented...',
     'incident.diagnosis': 'Diagnosis',
@@ -336,6 +336,713 @@ const DICT: Record<Language, Dictionary> = {
     'selfie.bodyDetected': 'Body detected! Ready to capture',
     'selfie.bodyNotVisible': 'Please show more of your body',
     'selfie.mouthOpen': 'Please keep your mouth closed (not talking).',
+
+    // Login / staff roles
+    'login.subtitle': 'Staff sign-in',
+    'login.username': 'Username',
+    'login.password': 'Password',
+    'login.submit': 'Sign in',
+    'login.signingIn': 'Signing in...',
+    'login.invalid': 'Invalid username or password',
+    'login.fail': 'Could not sign in. Please check your connection and try again.',
+    'login.signOut': 'Sign out',
+    'role.doctor': 'Doctor',
+    'role.nurse': 'Nurse',
+    'role.registration_volunteer': 'Registration Volunteer',
+    'role.lost_found_desk': 'Lost & Found Desk',
+    'role.admin': 'Control Room Admin',
+
+    // Medical record audit history
+    'profile.tab.overview': 'Overview',
+    'profile.tab.history': 'History',
+    'profile.history.loading': 'Loading change history...',
+    'profile.history.empty': 'No changes have been recorded for this yatri yet.',
+    'profile.history.by': 'by {user} ({role})',
+    'profile.history.field': 'Field',
+    'profile.history.before': 'Before',
+    'profile.history.after': 'After',
+    'audit.action.devotee.view': 'Viewed record',
+    'audit.action.devotee.update': 'Updated record',
+    'audit.action.incident.create': 'Recorded incident',
+
+    // Offline sync
+    'sync.status': 'Sync status',
+    'sync.title': 'Offline sync',
+    'sync.online': 'Online',
+    'sync.offline': 'Offline',
+    'sync.syncing': 'Syncing...',
+    'sync.pendingCount': '{count} change(s) waiting to sync',
+    'sync.syncNow': 'Sync now',
+    'sync.failedTitle': 'Could not be saved',
+    'sync.retry': 'Retry',
+    'sync.discard': 'Discard',
+    'sync.discardConfirm': 'Discard this unsynced entry? The typed data will be lost.',
+    'sync.kind.registerDevotee': 'Yatri registration',
+    'sync.kind.createIncident': 'Medical incident',
+    'sync.kind.reportLostFound': 'Lost & found report',
+    'sync.othersPending': '{count} change(s) queued by other staff on this device will sync when they sign in',
+    'sync.unowned': 'Queued before offline changes recorded who made them. Retry to submit it under your name, or discard it.',
+    'register.savedOffline': 'Saved on this device. The Kumbh ID will be issued automatically once the connection returns.',
+
+    // Lost & found case management
+    'lost.cases': 'Cases',
+    'lost.badge.found': 'FOUND',
+    'lost.case.loading': 'Loading cases...',
+    'lost.case.stat.open': 'Open',
+    'lost.case.stat.missing': 'Missing',
+    'lost.case.stat.found': 'Found',
+    'lost.case.stat.awaiting': 'Awaiting handover',
+    'lost.case.stat.reunited24h': 'Reunited (24h)',
+    'lost.case.stat.medianTime': 'Median time to reunite',
+    'lost.case.tab.open': 'Open cases',
+    'lost.case.tab.history': 'Reunification history',
+    'lost.case.openFor': 'Open {age}',
+    'lost.case.linkedWith': 'Matched with {name}',
+    'lost.case.confirmedBy': 'Confirmed by {name} via {method}',
+    'lost.case.handover': 'Hand over',
+    'lost.case.unlink': 'Unlink',
+    'lost.case.unlinkPrompt': 'Why is this match being undone?',
+    'lost.history.person': 'Person',
+    'lost.history.guardian': 'Handed to',
+    'lost.history.idProof': 'ID proof',
+    'lost.history.desk': 'Desk',
+    'lost.history.handedOver': 'Handed over',
+    'lost.history.duration': 'Time to reunite',
+    'lost.history.empty': 'No reunifications yet.',
+    'lost.idProof.aadhaar': 'Aadhaar',
+    'lost.idProof.voter_id': 'Voter ID',
+    'lost.idProof.driving_licence': 'Driving licence',
+    'lost.idProof.passport': 'Passport',
+    'lost.idProof.other': 'Other',
+    'lost.verify.face_match': 'Face match reviewed by staff',
+    'lost.verify.photo_id': 'Photo ID',
+    'lost.verify.family_photo': 'Family photo',
+    'lost.verify.personal_details': 'Personal details confirmed',
+    'lost.verify.other': 'Other',
+    'lost.handover.title': 'Hand over {name}',
+    'lost.handover.guardianName': 'Guardian name',
+    'lost.handover.phone': 'Guardian phone',
+    'lost.handover.relationship': 'Relationship',
+    'lost.handover.idProofType': 'ID proof',
+    'lost.handover.idProofNumber': 'ID number',
+    'lost.handover.desk': 'Desk',
+    'lost.handover.notes': 'Notes',
+    'lost.handover.submit': 'Confirm handover',
+    'lost.handover.required': 'Guardian name and ID number are required.',
+    'lost.handover.failed': 'Handover failed: {message}',
+    'lost.match.alreadyLinked': 'Already matched',
+    'lost.match.confirm': 'Confirm match',
+    'lost.confirm.title': 'Confirm match',
+    'lost.confirm.desc': 'Is the person at the desk {name}? Record how identity was verified.',
+    'lost.confirm.method': 'Verified by',
+    'lost.confirm.submit': 'Confirm and link reports',
+    'lost.confirm.offline': 'Report saved offline. Confirm the match once the connection is back.',
+    'lost.confirm.failed': 'Could not confirm match: {message}',
+
+    // Health card
+    'card.title': 'Health card',
+    'card.heading': 'Kumbh Mela Health Card',
+    'card.bloodGroup': 'Blood group',
+    'card.allergies': 'Allergies',
+    'card.none': 'None known',
+    'card.emergency': 'Emergency contact',
+    'card.qrAlt': 'Signed health card QR code',
+    'card.issued': 'Issued {date}',
+    'card.print': 'Print / Save as PDF',
+    'card.printCta': 'Print health card',
+    'card.loadFailed': 'Could not load health card: {message}',
+    'search.byCard': 'Scan Health Card QR',
+    'scan.title': 'Scan health card',
+    'scan.hint': 'Hold the QR code on the card inside the frame.',
+    'scan.cameraError': 'Could not open the camera. Allow camera access and try again.',
+    'scan.invalidCard': 'This health card could not be verified. It may be forged or damaged.',
+
+    // Medical facility registry & map
+    'nav.map': 'Map',
+    'map.pageTitle': 'Medical Facilities Map',
+    'map.pageDesc': 'Camps, hospitals, first-aid posts and ambulance points with live incident load',
+    'map.showHeat': 'Show incident heat',
+    'map.window': 'Time window',
+    'map.lastHours': 'Last {hours} hours',
+    'map.cancelPlace': 'Cancel',
+    'map.placeHint': 'Click on the map where the new center is located.',
+    'map.capacity': '{beds} beds · {ambulances} ambulances',
+    'map.incidents': '{total} incidents ({emergencies} emergencies) in {hours}h',
+    'map.legend': 'Facilities',
+    'map.byFacility': 'Incidents by facility ({hours}h)',
+    'map.noIncidents': 'No incidents in this window.',
+    'centers.add': 'Add center',
+    'centers.edit': 'Edit center',
+    'centers.name': 'Name',
+    'centers.type': 'Type',
+    'centers.sector': 'Ghat / Sector',
+    'centers.latitude': 'Latitude',
+    'centers.longitude': 'Longitude',
+    'centers.beds': 'Beds',
+    'centers.ambulances': 'Ambulances',
+    'centers.contactPerson': 'Contact person',
+    'centers.contactPhone': 'Contact phone',
+    'centers.alwaysOpen': 'Open 24 hours',
+    'centers.opens': 'Opens at',
+    'centers.closes': 'Closes at',
+    'centers.active': 'Active',
+    'centers.inactive': 'Inactive',
+    'centers.delete': 'Delete',
+    'centers.deleteConfirm': 'Delete {name}?',
+    'centers.deleteInUse': 'This center has recorded incidents. Mark it inactive instead.',
+    'centers.save': 'Save',
+    'centers.saveFailed': 'Could not save center: {message}',
+    'centers.type.hospital': 'Hospital',
+    'centers.type.camp': 'Medical camp',
+    'centers.type.first_aid_post': 'First-aid post',
+    'centers.type.ambulance_point': 'Ambulance point',
+
+    // Vitals & triage
+    'vitals.title': 'Vitals',
+    'vitals.help': 'Optional. Triage colour and NEWS2 score are calculated from what you enter.',
+    'vitals.pulse': 'Pulse',
+    'vitals.bp_systolic': 'BP systolic',
+    'vitals.bp_diastolic': 'BP diastolic',
+    'vitals.spo2': 'SpO₂',
+    'vitals.temperature_c': 'Temperature',
+    'vitals.respiratory_rate': 'Respiratory rate',
+    'vitals.gcs': 'GCS',
+    'vitals.blood_glucose_mg_dl': 'Blood glucose',
+    'vitals.capillary_refill_s': 'Capillary refill',
+    'vitals.news2_score': 'NEWS2 score',
+    'vitals.avpu': 'AVPU',
+    'vitals.avpu.A': 'A – Alert',
+    'vitals.avpu.V': 'V – Responds to voice',
+    'vitals.avpu.P': 'P – Responds to pain',
+    'vitals.avpu.U': 'U – Unresponsive',
+    'vitals.on_oxygen': 'On supplemental oxygen',
+    'vitals.ambulatory': 'Able to walk',
+    'vitals.obeys_commands': 'Obeys commands',
+    'vitals.yes': 'Yes',
+    'vitals.no': 'No',
+    'vitals.error.range': 'Must be {min}–{max}',
+    'vitals.error.diastolic': 'Must be lower than systolic',
+    'vitals.error.empty': 'Enter at least one reading',
+    'vitals.observations': 'Observations ({count})',
+    'vitals.addObservation': 'Add observation',
+    'vitals.save': 'Save observation',
+    'vitals.notesPlaceholder': 'Notes (optional)',
+    'vitals.noReadings': 'No readings of this kind yet',
+    'vitals.group.circulation': 'Pulse & BP',
+    'vitals.group.breathing': 'SpO₂ & RR',
+    'vitals.group.temperature': 'Temperature',
+    'vitals.group.glucose': 'Glucose',
+    'vitals.group.news2': 'NEWS2',
+    'vitals.flag.hypoglycaemia': 'Low glucose',
+    'vitals.flag.hyperglycaemia': 'High glucose',
+    'triage.red': 'Immediate',
+    'triage.yellow': 'Delayed',
+    'triage.green': 'Minor',
+    'triage.black': 'Expectant',
+    'triage.news2': 'NEWS2 {score}',
+    'triage.news2Partial': 'Not all NEWS2 parameters were recorded',
+    'triage.untriaged': 'Untriaged',
+    'triage.needs': 'For a START colour, add: {inputs}',
+    'triage.input.ambulatory': 'whether they can walk',
+    'triage.input.respiratory_rate': 'respiratory rate',
+    'triage.input.perfusion': 'capillary refill or systolic BP',
+    'triage.input.mental_status': 'obeys commands, AVPU or GCS',
+    'audit.action.incident.observation': 'Recorded vitals',
+
+    // Incident lifecycle & referrals
+    'nav.referrals': 'Referrals',
+    'incident.editTitle': 'Edit Incident',
+    'incident.saveChanges': 'Save Changes',
+    'incident.status.open': 'Open',
+    'incident.status.under_treatment': 'Under treatment',
+    'incident.status.referred': 'Referred',
+    'incident.status.discharged': 'Discharged',
+    'incident.status.deceased': 'Deceased',
+    'incident.status.left_against_advice': 'Left against advice',
+    'lifecycle.edit': 'Edit',
+    'lifecycle.changeStatus': 'Change status…',
+    'lifecycle.notePlaceholder': 'Note (optional)',
+    'lifecycle.apply': 'Apply',
+    'lifecycle.conflict': 'Someone else updated this incident. It has been reloaded; please check and try again.',
+    'lifecycle.failed': 'Failed to update incident: {message}',
+    'referral.title': 'Refer',
+    'referral.from': 'From {center}',
+    'referral.to': 'Receiving center',
+    'referral.transport': 'Transport',
+    'referral.transport.ambulance': 'Ambulance',
+    'referral.transport.private_vehicle': 'Private vehicle',
+    'referral.transport.on_foot': 'On foot',
+    'referral.transport.other': 'Other',
+    'referral.handoverNotes': 'Handover notes',
+    'referral.handoverPlaceholder': 'Condition, treatment given, reason for referral',
+    'referral.submit': 'Send referral',
+    'referral.failed': 'Failed to refer: {message}',
+    'referral.line': '{from} → {to}',
+    'referral.status.pending': 'Pending',
+    'referral.status.accepted': 'Accepted',
+    'referral.status.rejected': 'Declined',
+    'referral.status.all': 'All',
+    'referral.pageTitle': 'Referral Queue',
+    'referral.pageDesc': 'Patients referred to and from your medical center',
+    'referral.center': 'Medical center',
+    'referral.inbound': 'Inbound',
+    'referral.outbound': 'Outbound',
+    'referral.statusFilter': 'Referral status',
+    'referral.refresh': 'Refresh',
+    'referral.empty': 'No referrals',
+    'referral.unknownPatient': 'Unknown patient',
+    'referral.minutesAgo': '{minutes} min ago',
+    'referral.by': 'Referred by {name}',
+    'referral.accept': 'Accept',
+    'referral.reject': 'Decline',
+    'referral.acceptNotes': 'Notes on arrival (optional)',
+    'referral.rejectReason': 'Reason for declining',
+    'referral.respondFailed': 'Failed to respond: {message}',
+    'referral.notYourCenter': 'This referral is addressed to another center. Only staff posted there can respond.',
+    'audit.action.incident.update': 'Updated incident',
+    'audit.action.incident.referral': 'Referral',
+
+    // Follow-ups
+    'nav.followUps': 'Follow-ups',
+    'audit.action.incident.follow_up': 'Follow-up',
+    'followUp.pageTitle': 'Follow-ups',
+    'followUp.pageDesc': 'Patients asked to come back today and those who missed their follow-up',
+    'followUp.recordingVisit': 'Recording the follow-up visit. Saving will mark the scheduled follow-up as completed.',
+    'followUp.dueAt': 'Follow-up due',
+    'followUp.center': 'Follow-up center',
+    'followUp.sameCenter': 'Same center',
+    'followUp.allCenters': 'All centers',
+    'followUp.unscheduled': 'Follow-up needed — no date set',
+    'followUp.dueOn': 'Follow-up due {date}',
+    'followUp.overdueSince': 'Overdue since {date}',
+    'followUp.completedOn': 'Follow-up completed {date}',
+    'followUp.cancelled': 'Follow-up cancelled',
+    'followUp.recordVisit': 'Record follow-up visit',
+    'followUp.schedule': 'Schedule',
+    'followUp.reschedule': 'Reschedule',
+    'followUp.cancel': 'Cancel follow-up',
+    'followUp.cancelReason': 'Reason for cancelling the follow-up',
+    'followUp.save': 'Save',
+    'followUp.linkExisting': 'Link an existing follow-up visit…',
+    'followUp.markCompleted': 'Mark completed',
+    'followUp.linkedVisit': 'Follow-up visit for an earlier incident',
+    'followUp.failed': 'Could not update follow-up: {message}',
+    'followUp.missedTitle': 'Missed follow-ups ({count})',
+    'followUp.noneMissed': 'No missed follow-ups',
+    'followUp.emergencyContact': 'Emergency: {name} {phone}',
+    'followUp.today': 'Due today ({count})',
+    'followUp.upcoming': 'Next 7 days',
+    'followUp.empty': 'No follow-ups due',
+
+    // Coded medical lists
+    'reg.conditionsSearch': 'Search other conditions…',
+    'terms.uncoded': 'Not in the vocabulary; saved as written',
+    'terms.remove': 'Remove {name}',
+
+    // Prescription interaction checks
+    'interactions.checking': 'Checking against allergies and current medicines…',
+    'interactions.blockingTitle': 'Do not prescribe without a reason',
+    'interactions.warningTitle': 'Check before prescribing',
+    'interactions.alreadyTaking': '{name} (already taking)',
+    'interactions.allergyTo': 'allergic to {name}',
+    'interactions.overrideReason': 'Reason for prescribing anyway',
+    'interactions.overridePlaceholder': 'e.g. allergy was a mild rash; benefit outweighs risk, patient observed',
+    'interactions.overrideRequired': 'Give a reason for overriding the interaction warnings, or change the prescription.',
+    'interactions.blocked': "The prescription conflicts with the devotee's allergies or medicines. Review the warnings and give a reason to override.",
+    'interactions.overridden': 'Interaction warning overridden by {name}:',
+    'audit.action.incident.prescription_override': 'Overrode an interaction warning',
+    'audit.action.incident.prescription_flagged': 'Prescription flagged for review after offline sync',
+    'audit.action.incident.prescription_review': 'Reviewed a flagged prescription',
+    'interactions.reviewPending': "Recorded offline over these warnings; needs a clinician's review:",
+    'interactions.reviewed': 'Flagged prescription reviewed by {name}:',
+    'interactions.markReviewed': 'Mark as reviewed',
+    'interactions.reviewNote': 'What was done about this prescription?',
+    'interactions.reviewFailed': 'Failed to record the review: {message}',
+
+    // Syndromic surveillance
+    'nav.surveillance': 'Surveillance',
+    'surveillance.pageTitle': 'Outbreak Surveillance',
+    'surveillance.pageDesc': 'Incidents grouped by syndrome, compared with the recent baseline at each facility and sector',
+    'surveillance.scope.center': 'Facility',
+    'surveillance.scope.sector': 'Sector',
+    'surveillance.window': 'Window',
+    'surveillance.hours': '{count} h',
+    'surveillance.alertsTitle': 'Outbreak alerts ({count})',
+    'surveillance.noAlerts': 'No outbreak alerts',
+    'surveillance.alertSince': 'Since {date}',
+    'surveillance.observedExpected': '{observed} cases, {expected} expected',
+    'surveillance.peak': 'peak {count}',
+    'surveillance.acknowledgedBy': 'Acknowledged by {name}',
+    'surveillance.viewCases': 'View cases',
+    'surveillance.acknowledge': 'Acknowledge',
+    'surveillance.dismiss': 'Dismiss',
+    'surveillance.dismissPrompt': 'Why is this alert being dismissed?',
+    'surveillance.reviewFailed': 'Could not update the alert: {message}',
+    'surveillance.signalsTitle': 'Current window',
+    'surveillance.currentWindow': 'Cases between {range}',
+    'surveillance.noSignals': 'No syndromic cases in this period',
+    'surveillance.syndromeColumn': 'Syndrome',
+    'surveillance.trend': 'Trend',
+    'surveillance.cases': 'Cases',
+    'surveillance.expected': 'Expected',
+    'surveillance.alert': 'Alert',
+    'surveillance.noSector': 'No sector',
+    'surveillance.noCases': 'No incidents found',
+    'surveillance.methodHelp': 'EARS C1 and C2 flag a window more than 3 standard deviations above the 7 windows before it (C2 skips the 2 most recent); C3 flags excess sustained over 3 windows. At least 3 cases are needed for an alert.',
+    'surveillance.syndrome.gi': 'Gastrointestinal',
+    'surveillance.syndrome.heat': 'Heat illness',
+    'surveillance.syndrome.respiratory': 'Respiratory',
+    'surveillance.syndrome.injury': 'Injury',
+    'surveillance.syndrome.cardiac': 'Cardiac',
+    'surveillance.syndrome.fever': 'Fever',
+
+    // high risk pagination
+    'highRisk.searchPlaceholder': 'Search by name or registration number',
+    'highRisk.page': 'Page {page} of {pages} ({total} devotees)',
+    'highRisk.prevPage': 'Previous page',
+    'highRisk.nextPage': 'Next page',
+
+    // risk models
+    'nav.riskModels': 'Risk models',
+    'highRisk.modelVersion': 'Scored with risk model v{version}',
+    'highRisk.simulatedWeather': 'Environmental risk is computed from simulated (demo) weather',
+    'highRisk.whyScore': 'Why this score',
+    'highRisk.scoredWith': 'Risk model v{version}',
+    'riskModels.pageTitle': 'Risk Models',
+    'riskModels.pageDesc': 'Tune risk weights, bands and thresholds, preview the effect, then activate a new version',
+    'riskModels.versions': 'Versions',
+    'riskModels.status.draft': 'Draft',
+    'riskModels.status.active': 'Active',
+    'riskModels.status.retired': 'Retired',
+    'riskModels.activatedAt': 'Activated {date}',
+    'riskModels.name': 'Model name',
+    'riskModels.notesPlaceholder': 'What changed and why',
+    'riskModels.save': 'Save draft',
+    'riskModels.activate': 'Activate',
+    'riskModels.discard': 'Discard',
+    'riskModels.newDraft': 'New draft from this version',
+    'riskModels.draftName': 'Draft based on v{version}',
+    'riskModels.saveBeforeActivate': 'Save the draft before activating it',
+    'riskModels.saveFailed': 'Could not save the risk model: {message}',
+    'riskModels.activateFailed': 'Could not activate the risk model: {message}',
+    'riskModels.previewFailed': 'Could not run the preview: {message}',
+    'riskModels.discardConfirm': 'Discard draft v{version}?',
+    'riskModels.activateConfirm': 'Activate v{version}? Every devotee will be rescored with it.',
+    'riskModels.thresholds': 'Risk level thresholds',
+    'riskModels.threshold.moderate': 'Moderate from',
+    'riskModels.threshold.high': 'High from',
+    'riskModels.threshold.critical': 'Critical from',
+    'riskModels.ageBands': 'Age bands',
+    'riskModels.crowdBands': 'Crowd bands',
+    'riskModels.unit.years': 'years',
+    'riskModels.unit.devotees': 'devotees',
+    'riskModels.addBand': 'Add band',
+    'riskModels.bandMin': 'From ({unit})',
+    'riskModels.bandMax': 'Below ({unit})',
+    'riskModels.points': 'Points',
+    'riskModels.remove': 'Remove',
+    'riskModels.cap': 'Maximum points',
+    'riskModels.conditionWeights': 'Chronic condition weights',
+    'riskModels.addCondition': 'Add condition',
+    'riskModels.code': 'ICD-10 code',
+    'riskModels.label': 'Label',
+    'riskModels.defaultPoints': 'Points for other conditions',
+    'riskModels.multiplier': 'Multiplier for 2+ conditions',
+    'riskModels.environmental': 'Weather',
+    'riskModels.temperature': 'Temperature',
+    'riskModels.humidity': 'Humidity',
+    'riskModels.aqi': 'Air quality',
+    'riskModels.recommendations': 'Recommendation rules',
+    'riskModels.addRule': 'Add rule',
+    'riskModels.when': 'When',
+    'riskModels.component.total': 'Total score',
+    'riskModels.component.age': 'Age points',
+    'riskModels.component.medical': 'Medical points',
+    'riskModels.component.environmental': 'Weather points',
+    'riskModels.component.crowd': 'Crowd points',
+    'riskModels.messagesPlaceholder': 'One recommendation per line',
+    'riskModels.defaultRecommendations': 'When no rule applies',
+    'riskModels.previewTitle': 'What-if preview',
+    'riskModels.previewDesc': 'Rescore a random sample with this config and compare it with the active model',
+    'riskModels.sampleSize': 'Sample size',
+    'riskModels.runPreview': 'Preview',
+    'riskModels.previewSummary': '{changed} of {sample} devotees would change risk level',
+    'riskModels.level': 'Level',
+    'riskModels.currentModel': 'Active (v{version})',
+    'riskModels.draftModel': 'This config',
+    'riskModels.levels.Critical': 'Critical',
+    'riskModels.levels.High': 'High',
+    'riskModels.levels.Moderate': 'Moderate',
+    'riskModels.levels.Low': 'Low',
+    'riskModels.examples': 'Largest changes',
+
+    // risk incidents
+    'riskModels.component.incidents': 'Incident history points',
+    'riskModels.incidents': 'Recent incident history',
+    'riskModels.incidentsDesc': 'Each visit in the window adds points that halve every half-life; follow-ups still pending add points however old.',
+    'riskModels.incidentPoints': '{type} visit',
+    'riskModels.windowHours': 'Window (hours)',
+    'riskModels.halfLifeHours': 'Half-life (hours)',
+    'riskModels.pendingFollowUpPoints': 'Per pending follow-up',
+    'riskModels.incidentsDefault': 'This version was saved before incident history was scored, so it scores history with these default settings.',
+
+    // Live alerts
+    'live.topic.risk.critical': 'Critical risk',
+    'live.topic.incident.created': 'Red triage',
+    'live.topic.incident.prescription_review': 'Prescription review',
+    'live.topic.lost_person.reported': 'Missing child',
+    'live.topic.face.match': 'Face match',
+    'live.topic.weather.alert': 'Weather alert',
+    'live.riskCritical': '{count} devotee(s) became critical risk: {names}',
+    'live.incidentRed': 'Red triage {type} case at {center}',
+    'live.prescriptionReview': 'Offline incident at {center} synced with a blocking prescription warning: {reasons}',
+    'live.missingChild': '{name}, age {age}, reported missing',
+    'live.faceMatch': '{count} possible match(es) for {name}',
+    'live.weather.heat': 'Heat alert: {temp}°C.',
+    'live.weather.air_quality': 'Poor air quality: AQI {aqi}.',
+    'live.mute': 'Mute',
+    'live.unmute': 'Unmute',
+    'live.dismissAll': 'Dismiss all',
+    'live.incidentFeed': 'Incidents as they are logged',
+    'live.noIncidents': 'No new incidents since this page opened',
+
+    // Manual weather readings
+    'weatherReading.title': 'Record weather reading',
+    'weatherReading.sector': 'Sector',
+    'weatherReading.temp': 'Temperature (°C)',
+    'weatherReading.humidity': 'Humidity (%)',
+    'weatherReading.feelsLike': 'Feels like (°C)',
+    'weatherReading.aqi': 'AQI',
+    'weatherReading.uv': 'UV index',
+    'weatherReading.optionalHint': 'Leave blank what you could not measure; it is filled in from the weather service.',
+    'weatherReading.notes': 'Notes',
+    'weatherReading.submit': 'Save reading',
+    'weatherReading.failed': 'Could not save the reading: {message}',
+
+    // Heat plan
+    'heatPlan.title': 'Heat stress outlook, {location}',
+    'heatPlan.simulated': 'Simulated (demo) forecast — do not plan deployments from it.',
+    'heatPlan.snanDay': '{name} ({date})',
+    'heatPlan.temp': 'Temperature',
+    'heatPlan.heatIndex': 'Heat index',
+    'heatPlan.wbgt': 'WBGT',
+    'heatPlan.noWindows': 'No high heat stress expected in the next 48 hours.',
+    'heatPlan.level.high': 'High heat stress',
+    'heatPlan.level.extreme': 'Extreme heat stress',
+    'heatPlan.peak': 'Peak at {time}: WBGT {wbgt}°C, heat index {heatIndex}°C',
+    'heatPlan.snanWindow': '{name}: expect much larger crowds',
+    'heatPlan.waterPoints': '+{count} water points',
+    'heatPlan.medicalStaff': '+{count} medical staff',
+    'heatPlan.coolingStations': '+{count} cooling stations',
+    'heatPlan.failed': 'Could not load the forecast: {message}',
+
+    // Family and travel groups
+    'group.mode.individual': 'Individual',
+    'group.mode.group': 'Family / group',
+    'group.details': 'Group Details',
+    'group.name': 'Group name',
+    'group.type': 'Group type',
+    'group.type.family': 'Family',
+    'group.type.village': 'Village group',
+    'group.type.tour': 'Tour batch',
+    'group.operatorName': 'Tour operator',
+    'group.operatorPhone': 'Operator phone',
+    'group.contactPhone': 'Group contact phone',
+    'group.address': 'Home Address',
+    'group.address.line': 'House / street',
+    'group.address.village': 'Village / town',
+    'group.address.district': 'District',
+    'group.address.state': 'State',
+    'group.address.pincode': 'PIN code',
+    'group.notes': 'Notes',
+    'group.members': 'Members ({count})',
+    'group.membersHint': "Contact and address above are shared by every member. Leave a member's phone blank to use the group phone; the full medical history can be added later from their profile.",
+    'group.addMember': 'Add member',
+    'group.removeMember': 'Remove member {number}',
+    'group.takePhoto': 'Take photo',
+    'group.relationship': 'Relation to leader',
+    'group.relationship.self': 'Leader',
+    'group.relationship.spouse': 'Spouse',
+    'group.relationship.parent': 'Parent',
+    'group.relationship.child': 'Child',
+    'group.relationship.sibling': 'Sibling',
+    'group.relationship.grandparent': 'Grandparent',
+    'group.relationship.grandchild': 'Grandchild',
+    'group.relationship.relative': 'Relative',
+    'group.relationship.neighbour': 'Neighbour',
+    'group.relationship.friend': 'Friend',
+    'group.relationship.other': 'Other',
+    'group.memberPhone': 'Own phone',
+    'group.leader': 'Group leader',
+    'group.memberIncomplete': 'Every member needs a name and age.',
+    'group.submit': 'Register {count} members',
+    'group.failed': 'Group registration failed: {message}',
+    'group.registered': '{name} registered',
+    'group.number': 'Group number: {number}',
+    'group.registerAnother': 'Register another group',
+    'group.travellingWith': 'Travelling with {name}',
+    'group.leaderPhone': 'Leader {name}',
+    'group.operator': 'Tour operator: {name} ({phone})',
+    'group.noOtherMembers': 'No other members in this group.',
+    'lost.reported.title': 'Report submitted',
+    'lost.reported.groupHint': '{name} is registered with a group. Call the leader or another member now.',
+    'lost.reported.done': 'Done',
+    'lost.suggested.hint': "This face looks like a registered devotee. Compare the photos and details before confirming: their group's phone numbers are shown only once you confirm.",
+    'lost.suggested.reported': 'Reported now',
+    'lost.suggested.registered': 'Registered ({number})',
+    'lost.suggested.similarity': 'Face similarity {percent}%',
+    'lost.suggested.confirm': 'Same person',
+    'lost.suggested.dismiss': 'Not this person',
+    'lost.suggested.failed': 'Could not save your answer: {message}',
+
+    // duplicate detection and merges
+    'duplicates.title': 'Possibly already registered',
+    'duplicates.desc': 'These registrations look like the same person. Use the existing record if it is them, or register anyway if it is someone else.',
+    'duplicates.confidence.likely': 'Likely match',
+    'duplicates.confidence.possible': 'Possible match',
+    'duplicates.reason.face': 'Same face',
+    'duplicates.reason.phone': 'Same phone',
+    'duplicates.reason.name_age_gender': 'Similar name, age and gender',
+    'duplicates.useExisting': 'Use this record',
+    'duplicates.registerAnyway': 'Different person, register anyway',
+    'duplicates.alreadyRegistered': '{name} is already registered',
+    'duplicates.alreadyRegisteredHint': 'No new registration was created. Look up this registration number to view or update the record.',
+    'duplicates.backToForm': 'Back to the form',
+    'nav.merges': 'Merges',
+    'merge.pageTitle': 'Duplicate Records',
+    'merge.pageDesc': 'Fold a duplicate registration into the record you keep. Every merge can be undone.',
+    'merge.duplicate': 'Duplicate (will be retired)',
+    'merge.keep': 'Record to keep',
+    'merge.search': 'Search',
+    'merge.searchPlaceholder': 'Name or registration number',
+    'merge.searchFailed': 'Search failed: {message}',
+    'merge.registeredOn': 'Registered',
+    'merge.findDuplicates': 'Find possible duplicates of {name}',
+    'merge.noSuggestions': 'No likely duplicates found.',
+    'merge.selectDuplicate': 'Select as duplicate',
+    'merge.reason': 'Reason (optional)',
+    'merge.submit': 'Merge records',
+    'merge.hint': "The duplicate's incidents, medical history and group membership move to the record you keep. Its registration number keeps working as an alias.",
+    'merge.confirm': 'Merge {retired} into {survivor}? The duplicate will be retired.',
+    'merge.failed': 'Merge failed: {message}',
+    'merge.history': 'Recent merges',
+    'merge.noHistory': 'No records have been merged yet.',
+    'merge.by': 'by {name}, {date}',
+    'merge.reverted': 'Undone',
+    'merge.revert': 'Undo',
+    'merge.revertConfirm': 'Undo this merge and restore {retired} as its own record?',
+    'merge.revertFailed': 'Could not undo merge: {message}',
+    'audit.action.devotee.merge': 'Merged duplicate record',
+    'audit.action.devotee.unmerge': 'Undid record merge',
+
+    // bulk import
+    'nav.import': 'Import',
+    'import.pageTitle': 'Bulk Import',
+    'import.pageDesc': "Register pilgrims in bulk from a tour operator's or state transport's spreadsheet.",
+    'import.uploadHint': 'CSV or Excel (.xlsx) with one pilgrim per row and a header row. Only the first sheet is read.',
+    'import.upload': 'Upload',
+    'import.uploadFailed': 'Upload failed: {message}',
+    'import.status.uploading': 'Reading file',
+    'import.status.uploaded': 'Needs mapping',
+    'import.status.validating': 'Checking rows',
+    'import.status.validated': 'Ready to import',
+    'import.status.importing': 'Importing',
+    'import.status.completed': 'Completed',
+    'import.status.failed': 'Failed',
+    'import.status.cancelled': 'Cancelled',
+    'import.rows': '{count} rows',
+    'import.importedCount': '{count} registered',
+    'import.resume': 'Resume',
+    'import.cancel': 'Cancel import',
+    'import.cancelConfirm': 'Cancel this import? Rows already registered stay registered.',
+    'import.failedWith': 'Stopped with an error: {message}. Resume to carry on from where it stopped.',
+    'import.mapping': 'Column mapping',
+    'import.field': 'Field',
+    'import.column': 'Column in file',
+    'import.example': 'First row',
+    'import.default': 'Default value',
+    'import.defaultPlaceholder': 'Used when blank',
+    'import.notMapped': 'Not in file',
+    'import.field.full_name': 'Full name',
+    'import.field.age': 'Age',
+    'import.field.gender': 'Gender',
+    'import.field.phone': 'Phone',
+    'import.field.emergency_contact_name': 'Emergency contact name',
+    'import.field.emergency_contact_phone': 'Emergency contact phone',
+    'import.field.blood_group': 'Blood group',
+    'import.field.height_cm': 'Height (cm)',
+    'import.field.weight_kg': 'Weight (kg)',
+    'import.field.allergies': 'Allergies',
+    'import.field.chronic_conditions': 'Chronic conditions',
+    'import.field.current_medications': 'Current medications',
+    'import.field.past_surgeries': 'Past surgeries',
+    'import.field.special_notes': 'Notes',
+    'import.dryRun': 'Check rows (dry run)',
+    'import.rowStatus.invalid': 'With errors',
+    'import.rowStatus.duplicate': 'Suspected duplicates',
+    'import.rowStatus.valid': 'Ready',
+    'import.rowStatus.imported': 'Registered',
+    'import.noRows': 'No rows in this list.',
+    'import.row': 'Row',
+    'import.details': 'Details',
+    'import.repeatOf': 'Same person as row {row}',
+    'import.previous': 'Previous',
+    'import.next': 'Next',
+    'import.page': 'Page {page} of {pages}',
+    'import.includeDuplicates': 'Also register the {count} suspected duplicates',
+    'import.start': 'Register {count} pilgrims',
+    'import.startConfirm': 'Register {count} pilgrims from this file?',
+    'import.download': 'Download registration numbers',
+    'import.recent': 'Recent imports',
+    'import.noJobs': 'No files have been imported yet.',
+
+    // Data exports
+    'nav.exports': 'Export',
+    'audit.action.devotee.export': 'Exported as FHIR',
+    'profile.fhirExport': 'Download FHIR record',
+    'profile.fhirExportFailed': 'Could not export the FHIR record: {message}',
+    'export.pageTitle': 'Data export',
+    'export.pageDesc': 'Download devotees, medical records or incidents for reporting. Every export is logged.',
+    'export.dataset': 'Data',
+    'export.datasets.devotees': 'Devotees',
+    'export.datasets.medical_records': 'Medical records',
+    'export.datasets.incidents': 'Incidents',
+    'export.datasets.fhir': 'FHIR record',
+    'export.format': 'Format',
+    'export.formats.csv': 'CSV',
+    'export.formats.xlsx': 'Excel (XLSX)',
+    'export.formats.fhir+json': 'FHIR JSON',
+    'export.from': 'From',
+    'export.to': 'To',
+    'export.center': 'Medical center',
+    'export.allCenters': 'All centers',
+    'export.riskLevel': 'Risk level',
+    'export.hint.devotees': 'Dates filter on registration date. A center limits the list to devotees seen there.',
+    'export.hint.medical_records': 'Dates filter on registration date. A center limits the list to devotees seen there.',
+    'export.hint.incidents': 'Dates filter on incident date. A center includes incidents referred to and accepted there.',
+    'export.download': 'Download',
+    'export.log': 'Export log',
+    'export.noLogs': 'Nothing has been exported yet.',
+    'export.noFilters': 'No filters',
+    'export.rows': '{count} rows',
+    'export.incomplete': 'Interrupted',
+
+    // ABHA number and FHIR pre-fill
+    'prefill.abhaNumber': 'ABHA number (if any)',
+    'prefill.abhaFormat': '14 digits, e.g. 91-1234-5678-9012',
+    'prefill.fetchAbdm': 'Fetch health records',
+    'prefill.uploadFhir': 'Upload FHIR file',
+    'prefill.hint': 'Fetch records linked to the ABHA number, or upload a FHIR discharge summary, to fill the form. Check every field with the pilgrim before registering.',
+    'prefill.doneAbdm': 'Filled from ABDM health records. Check every field with the pilgrim.',
+    'prefill.doneFile': 'Filled from the FHIR file. Check every field with the pilgrim.',
+    'prefill.failed': 'Could not read health records: {message}',
+    'prefill.notJson': 'The file is not JSON',
+    'prefill.consent': 'Consent to fetch given by…',
+    'prefill.consentPilgrim': 'The pilgrim',
+    'prefill.consentGuardian': 'A relative, for the pilgrim',
+    'prefill.clinicalWithheld': 'Health details were left out because your role cannot read medical records. A doctor or nurse can add them.',
+    'duplicates.reason.abha': 'Same ABHA number',
+    'profile.abha': 'ABHA:',
   },
   hi: {
     'app.title': 'नाशिक कुंभ मेला – मेडिकल सेवा',
@@ -531,7 +1238,7 @@ const DICT: Record<Language, Dictionary> = {
     'incident.doctor': 'ड्यूटी डॉक्टर *',
     'incident.doctorPlaceholder': 'डॉ. का नाम',
     'incident.center': 'मेडिकल सेंटर *',
-    'incident.centerPlaceholder': 'केंद्र/अस्पताल नाम',
+    'incident.centerPlaceholder': 'चिकित्सा केंद्र चुनें',
     'incident.symptoms': 'लक्षण *',
     'incident.symptomsPlaceholder': 'लक्षण लिखें...',
     'incident.diagnosis': 'निदान',
@@ -633,6 +1340,713 @@ const DICT: Record<Language, Dictionary> = {
     'selfie.bodyDetected': 'शरीर पहचान लिया गया! फोटो लेने के लिए तैयार',
     'selfie.bodyNotVisible': 'कृपया अपने शरीर का अधिक भाग दिखाएं',
     'selfie.mouthOpen': 'कृपया मुंह बंद रखें।',
+
+    // Login / staff roles
+    'login.subtitle': 'स्टाफ साइन-इन',
+    'login.username': 'यूज़रनेम',
+    'login.password': 'पासवर्ड',
+    'login.submit': 'साइन इन करें',
+    'login.signingIn': 'साइन इन हो रहा है...',
+    'login.invalid': 'गलत यूज़रनेम या पासवर्ड',
+    'login.fail': 'साइन इन नहीं हो सका। कृपया कनेक्शन जांचें और पुनः प्रयास करें।',
+    'login.signOut': 'साइन आउट',
+    'role.doctor': 'डॉक्टर',
+    'role.nurse': 'नर्स',
+    'role.registration_volunteer': 'पंजीकरण स्वयंसेवक',
+    'role.lost_found_desk': 'खोया-पाया डेस्क',
+    'role.admin': 'कंट्रोल रूम एडमिन',
+
+    // Medical record audit history
+    'profile.tab.overview': 'सारांश',
+    'profile.tab.history': 'इतिहास',
+    'profile.history.loading': 'बदलाव इतिहास लोड हो रहा है...',
+    'profile.history.empty': 'इस यात्री के लिए अभी तक कोई बदलाव दर्ज नहीं है।',
+    'profile.history.by': '{user} ({role}) द्वारा',
+    'profile.history.field': 'फ़ील्ड',
+    'profile.history.before': 'पहले',
+    'profile.history.after': 'बाद में',
+    'audit.action.devotee.view': 'रिकॉर्ड देखा',
+    'audit.action.devotee.update': 'रिकॉर्ड अपडेट किया',
+    'audit.action.incident.create': 'घटना दर्ज की',
+
+    // Offline sync
+    'sync.status': 'सिंक स्थिति',
+    'sync.title': 'ऑफ़लाइन सिंक',
+    'sync.online': 'ऑनलाइन',
+    'sync.offline': 'ऑफ़लाइन',
+    'sync.syncing': 'सिंक हो रहा है...',
+    'sync.pendingCount': '{count} बदलाव सिंक होने की प्रतीक्षा में',
+    'sync.syncNow': 'अभी सिंक करें',
+    'sync.failedTitle': 'सहेजा नहीं जा सका',
+    'sync.retry': 'पुनः प्रयास',
+    'sync.discard': 'हटाएं',
+    'sync.discardConfirm': 'यह असिंक प्रविष्टि हटाएं? भरा गया डेटा खो जाएगा।',
+    'sync.kind.registerDevotee': 'यात्री पंजीकरण',
+    'sync.kind.createIncident': 'चिकित्सा घटना',
+    'sync.kind.reportLostFound': 'खोया-पाया रिपोर्ट',
+    'sync.othersPending': 'इस डिवाइस पर अन्य कर्मचारियों के {count} बदलाव उनके साइन इन करने पर सिंक होंगे',
+    'sync.unowned': 'यह प्रविष्टि उपयोगकर्ता दर्ज होने से पहले कतार में लगी थी। इसे अपने नाम से भेजने के लिए पुनः प्रयास करें, या हटाएं।',
+    'register.savedOffline': 'इस डिवाइस पर सहेजा गया। कनेक्शन लौटने पर कुंभ आईडी अपने आप जारी होगी।',
+
+    // Lost & found case management
+    'lost.cases': 'मामले',
+    'lost.badge.found': 'मिला',
+    'lost.case.loading': 'मामले लोड हो रहे हैं...',
+    'lost.case.stat.open': 'खुले',
+    'lost.case.stat.missing': 'लापता',
+    'lost.case.stat.found': 'मिले',
+    'lost.case.stat.awaiting': 'सौंपना बाकी',
+    'lost.case.stat.reunited24h': 'मिलाए गए (24 घंटे)',
+    'lost.case.stat.medianTime': 'मिलाने का औसत समय',
+    'lost.case.tab.open': 'खुले मामले',
+    'lost.case.tab.history': 'पुनर्मिलन इतिहास',
+    'lost.case.openFor': '{age} से खुला',
+    'lost.case.linkedWith': '{name} से मिलान',
+    'lost.case.confirmedBy': '{name} द्वारा पुष्टि ({method})',
+    'lost.case.handover': 'सौंपें',
+    'lost.case.unlink': 'मिलान हटाएं',
+    'lost.case.unlinkPrompt': 'यह मिलान क्यों हटाया जा रहा है?',
+    'lost.history.person': 'व्यक्ति',
+    'lost.history.guardian': 'किसे सौंपा',
+    'lost.history.idProof': 'पहचान पत्र',
+    'lost.history.desk': 'डेस्क',
+    'lost.history.handedOver': 'सौंपा गया',
+    'lost.history.duration': 'मिलाने में समय',
+    'lost.history.empty': 'अभी तक कोई पुनर्मिलन नहीं।',
+    'lost.idProof.aadhaar': 'आधार',
+    'lost.idProof.voter_id': 'वोटर आईडी',
+    'lost.idProof.driving_licence': 'ड्राइविंग लाइसेंस',
+    'lost.idProof.passport': 'पासपोर्ट',
+    'lost.idProof.other': 'अन्य',
+    'lost.verify.face_match': 'स्टाफ द्वारा चेहरा मिलान जांचा गया',
+    'lost.verify.photo_id': 'फोटो पहचान पत्र',
+    'lost.verify.family_photo': 'पारिवारिक फोटो',
+    'lost.verify.personal_details': 'व्यक्तिगत जानकारी की पुष्टि',
+    'lost.verify.other': 'अन्य',
+    'lost.handover.title': '{name} को सौंपें',
+    'lost.handover.guardianName': 'अभिभावक का नाम',
+    'lost.handover.phone': 'अभिभावक का फोन',
+    'lost.handover.relationship': 'संबंध',
+    'lost.handover.idProofType': 'पहचान पत्र',
+    'lost.handover.idProofNumber': 'पहचान संख्या',
+    'lost.handover.desk': 'डेस्क',
+    'lost.handover.notes': 'टिप्पणी',
+    'lost.handover.submit': 'सौंपने की पुष्टि करें',
+    'lost.handover.required': 'अभिभावक का नाम और पहचान संख्या आवश्यक है।',
+    'lost.handover.failed': 'सौंपना विफल: {message}',
+    'lost.match.alreadyLinked': 'पहले से मिलान हुआ',
+    'lost.match.confirm': 'मिलान की पुष्टि करें',
+    'lost.confirm.title': 'मिलान की पुष्टि',
+    'lost.confirm.desc': 'क्या डेस्क पर मौजूद व्यक्ति {name} है? पहचान कैसे सत्यापित की गई, दर्ज करें।',
+    'lost.confirm.method': 'सत्यापन का तरीका',
+    'lost.confirm.submit': 'पुष्टि करें और रिपोर्ट जोड़ें',
+    'lost.confirm.offline': 'रिपोर्ट ऑफलाइन सहेजी गई। कनेक्शन लौटने पर मिलान की पुष्टि करें।',
+    'lost.confirm.failed': 'मिलान की पुष्टि नहीं हो सकी: {message}',
+
+    // Health card
+    'card.title': 'स्वास्थ्य कार्ड',
+    'card.heading': 'कुंभ मेला स्वास्थ्य कार्ड',
+    'card.bloodGroup': 'रक्त समूह',
+    'card.allergies': 'एलर्जी',
+    'card.none': 'कोई ज्ञात नहीं',
+    'card.emergency': 'आपातकालीन संपर्क',
+    'card.qrAlt': 'हस्ताक्षरित स्वास्थ्य कार्ड QR कोड',
+    'card.issued': 'जारी {date}',
+    'card.print': 'प्रिंट / PDF सहेजें',
+    'card.printCta': 'स्वास्थ्य कार्ड प्रिंट करें',
+    'card.loadFailed': 'स्वास्थ्य कार्ड लोड नहीं हो सका: {message}',
+    'search.byCard': 'स्वास्थ्य कार्ड QR स्कैन करें',
+    'scan.title': 'स्वास्थ्य कार्ड स्कैन करें',
+    'scan.hint': 'कार्ड का QR कोड फ्रेम के अंदर रखें।',
+    'scan.cameraError': 'कैमरा नहीं खुल सका। कैमरा की अनुमति दें और फिर से प्रयास करें।',
+    'scan.invalidCard': 'इस स्वास्थ्य कार्ड का सत्यापन नहीं हो सका। यह नकली या क्षतिग्रस्त हो सकता है।',
+
+    // Medical facility registry & map
+    'nav.map': 'नक्शा',
+    'map.pageTitle': 'चिकित्सा सुविधा नक्शा',
+    'map.pageDesc': 'शिविर, अस्पताल, प्राथमिक चिकित्सा केंद्र और एम्बुलेंस पॉइंट, घटनाओं के भार के साथ',
+    'map.showHeat': 'घटना हीट दिखाएं',
+    'map.window': 'समय अवधि',
+    'map.lastHours': 'पिछले {hours} घंटे',
+    'map.cancelPlace': 'रद्द करें',
+    'map.placeHint': 'नक्शे पर वहां क्लिक करें जहां नया केंद्र है।',
+    'map.capacity': '{beds} बिस्तर · {ambulances} एम्बुलेंस',
+    'map.incidents': '{hours} घंटे में {total} घटनाएं ({emergencies} आपातकालीन)',
+    'map.legend': 'सुविधाएं',
+    'map.byFacility': 'सुविधा अनुसार घटनाएं ({hours} घंटे)',
+    'map.noIncidents': 'इस अवधि में कोई घटना नहीं।',
+    'centers.add': 'केंद्र जोड़ें',
+    'centers.edit': 'केंद्र संपादित करें',
+    'centers.name': 'नाम',
+    'centers.type': 'प्रकार',
+    'centers.sector': 'घाट / सेक्टर',
+    'centers.latitude': 'अक्षांश',
+    'centers.longitude': 'देशांतर',
+    'centers.beds': 'बिस्तर',
+    'centers.ambulances': 'एम्बुलेंस',
+    'centers.contactPerson': 'संपर्क व्यक्ति',
+    'centers.contactPhone': 'संपर्क फोन',
+    'centers.alwaysOpen': '24 घंटे खुला',
+    'centers.opens': 'खुलने का समय',
+    'centers.closes': 'बंद होने का समय',
+    'centers.active': 'सक्रिय',
+    'centers.inactive': 'निष्क्रिय',
+    'centers.delete': 'हटाएं',
+    'centers.deleteConfirm': '{name} हटाएं?',
+    'centers.deleteInUse': 'इस केंद्र पर घटनाएं दर्ज हैं। इसे हटाने के बजाय निष्क्रिय करें।',
+    'centers.save': 'सहेजें',
+    'centers.saveFailed': 'केंद्र सहेजा नहीं जा सका: {message}',
+    'centers.type.hospital': 'अस्पताल',
+    'centers.type.camp': 'चिकित्सा शिविर',
+    'centers.type.first_aid_post': 'प्राथमिक चिकित्सा केंद्र',
+    'centers.type.ambulance_point': 'एम्बुलेंस पॉइंट',
+
+    // Vitals & triage
+    'vitals.title': 'वाइटल्स',
+    'vitals.help': 'वैकल्पिक। ट्राइएज रंग और NEWS2 स्कोर दर्ज मानों से गणना किए जाते हैं।',
+    'vitals.pulse': 'नाड़ी',
+    'vitals.bp_systolic': 'बीपी सिस्टोलिक',
+    'vitals.bp_diastolic': 'बीपी डायस्टोलिक',
+    'vitals.spo2': 'SpO₂',
+    'vitals.temperature_c': 'तापमान',
+    'vitals.respiratory_rate': 'श्वसन दर',
+    'vitals.gcs': 'GCS',
+    'vitals.blood_glucose_mg_dl': 'रक्त शर्करा',
+    'vitals.capillary_refill_s': 'कैपिलरी रिफिल',
+    'vitals.news2_score': 'NEWS2 स्कोर',
+    'vitals.avpu': 'AVPU',
+    'vitals.avpu.A': 'A – सचेत',
+    'vitals.avpu.V': 'V – आवाज़ पर प्रतिक्रिया',
+    'vitals.avpu.P': 'P – दर्द पर प्रतिक्रिया',
+    'vitals.avpu.U': 'U – अचेत',
+    'vitals.on_oxygen': 'ऑक्सीजन पर',
+    'vitals.ambulatory': 'चल सकते हैं',
+    'vitals.obeys_commands': 'आदेश मानते हैं',
+    'vitals.yes': 'हाँ',
+    'vitals.no': 'नहीं',
+    'vitals.error.range': '{min}–{max} के बीच होना चाहिए',
+    'vitals.error.diastolic': 'सिस्टोलिक से कम होना चाहिए',
+    'vitals.error.empty': 'कम से कम एक माप दर्ज करें',
+    'vitals.observations': 'अवलोकन ({count})',
+    'vitals.addObservation': 'अवलोकन जोड़ें',
+    'vitals.save': 'अवलोकन सहेजें',
+    'vitals.notesPlaceholder': 'टिप्पणी (वैकल्पिक)',
+    'vitals.noReadings': 'इस प्रकार का कोई माप अभी नहीं',
+    'vitals.group.circulation': 'नाड़ी और बीपी',
+    'vitals.group.breathing': 'SpO₂ और श्वसन',
+    'vitals.group.temperature': 'तापमान',
+    'vitals.group.glucose': 'शर्करा',
+    'vitals.group.news2': 'NEWS2',
+    'vitals.flag.hypoglycaemia': 'कम शर्करा',
+    'vitals.flag.hyperglycaemia': 'अधिक शर्करा',
+    'triage.red': 'तत्काल',
+    'triage.yellow': 'विलंबित',
+    'triage.green': 'मामूली',
+    'triage.black': 'अपेक्षित',
+    'triage.news2': 'NEWS2 {score}',
+    'triage.news2Partial': 'सभी NEWS2 मापदंड दर्ज नहीं हुए',
+    'triage.untriaged': 'ट्राइएज नहीं',
+    'triage.needs': 'START रंग के लिए जोड़ें: {inputs}',
+    'triage.input.ambulatory': 'क्या वे चल सकते हैं',
+    'triage.input.respiratory_rate': 'श्वसन दर',
+    'triage.input.perfusion': 'कैपिलरी रिफिल या सिस्टोलिक बीपी',
+    'triage.input.mental_status': 'आदेश मानना, AVPU या GCS',
+    'audit.action.incident.observation': 'वाइटल्स दर्ज किए',
+
+    // Incident lifecycle & referrals
+    'nav.referrals': 'रेफ़रल',
+    'incident.editTitle': 'घटना संपादित करें',
+    'incident.saveChanges': 'बदलाव सहेजें',
+    'incident.status.open': 'खुला',
+    'incident.status.under_treatment': 'उपचाराधीन',
+    'incident.status.referred': 'रेफ़र किया',
+    'incident.status.discharged': 'छुट्टी दी गई',
+    'incident.status.deceased': 'मृत',
+    'incident.status.left_against_advice': 'सलाह के विरुद्ध गए',
+    'lifecycle.edit': 'संपादित करें',
+    'lifecycle.changeStatus': 'स्थिति बदलें…',
+    'lifecycle.notePlaceholder': 'टिप्पणी (वैकल्पिक)',
+    'lifecycle.apply': 'लागू करें',
+    'lifecycle.conflict': 'किसी और ने यह घटना अपडेट की है। इसे फिर से लोड किया गया है; कृपया जाँचें और दोबारा प्रयास करें।',
+    'lifecycle.failed': 'घटना अपडेट नहीं हो सकी: {message}',
+    'referral.title': 'रेफ़र करें',
+    'referral.from': '{center} से',
+    'referral.to': 'प्राप्तकर्ता केंद्र',
+    'referral.transport': 'परिवहन',
+    'referral.transport.ambulance': 'एम्बुलेंस',
+    'referral.transport.private_vehicle': 'निजी वाहन',
+    'referral.transport.on_foot': 'पैदल',
+    'referral.transport.other': 'अन्य',
+    'referral.handoverNotes': 'हस्तांतरण टिप्पणी',
+    'referral.handoverPlaceholder': 'स्थिति, दिया गया उपचार, रेफ़र करने का कारण',
+    'referral.submit': 'रेफ़रल भेजें',
+    'referral.failed': 'रेफ़र नहीं हो सका: {message}',
+    'referral.line': '{from} → {to}',
+    'referral.status.pending': 'लंबित',
+    'referral.status.accepted': 'स्वीकृत',
+    'referral.status.rejected': 'अस्वीकृत',
+    'referral.status.all': 'सभी',
+    'referral.pageTitle': 'रेफ़रल कतार',
+    'referral.pageDesc': 'आपके चिकित्सा केंद्र से और को रेफ़र किए गए मरीज़',
+    'referral.center': 'चिकित्सा केंद्र',
+    'referral.inbound': 'आने वाले',
+    'referral.outbound': 'जाने वाले',
+    'referral.statusFilter': 'रेफ़रल स्थिति',
+    'referral.refresh': 'रीफ़्रेश',
+    'referral.empty': 'कोई रेफ़रल नहीं',
+    'referral.unknownPatient': 'अज्ञात मरीज़',
+    'referral.minutesAgo': '{minutes} मिनट पहले',
+    'referral.by': '{name} द्वारा रेफ़र',
+    'referral.accept': 'स्वीकार करें',
+    'referral.reject': 'अस्वीकार करें',
+    'referral.acceptNotes': 'आगमन पर टिप्पणी (वैकल्पिक)',
+    'referral.rejectReason': 'अस्वीकार करने का कारण',
+    'referral.respondFailed': 'जवाब नहीं दिया जा सका: {message}',
+    'referral.notYourCenter': 'यह रेफ़रल किसी दूसरे केंद्र के लिए है। केवल वहाँ तैनात स्टाफ़ ही जवाब दे सकता है।',
+    'audit.action.incident.update': 'घटना अपडेट की',
+    'audit.action.incident.referral': 'रेफ़रल',
+
+    // Follow-ups
+    'nav.followUps': 'फ़ॉलो-अप',
+    'audit.action.incident.follow_up': 'फ़ॉलो-अप',
+    'followUp.pageTitle': 'फ़ॉलो-अप',
+    'followUp.pageDesc': 'आज वापस बुलाए गए मरीज़ और जिनका फ़ॉलो-अप छूट गया',
+    'followUp.recordingVisit': 'फ़ॉलो-अप विज़िट दर्ज हो रही है। सहेजने पर निर्धारित फ़ॉलो-अप पूरा माना जाएगा।',
+    'followUp.dueAt': 'फ़ॉलो-अप की तारीख',
+    'followUp.center': 'फ़ॉलो-अप केंद्र',
+    'followUp.sameCenter': 'यही केंद्र',
+    'followUp.allCenters': 'सभी केंद्र',
+    'followUp.unscheduled': 'फ़ॉलो-अप आवश्यक — तारीख तय नहीं',
+    'followUp.dueOn': 'फ़ॉलो-अप {date} को',
+    'followUp.overdueSince': '{date} से बकाया',
+    'followUp.completedOn': 'फ़ॉलो-अप {date} को पूरा',
+    'followUp.cancelled': 'फ़ॉलो-अप रद्द',
+    'followUp.recordVisit': 'फ़ॉलो-अप विज़िट दर्ज करें',
+    'followUp.schedule': 'तय करें',
+    'followUp.reschedule': 'फिर से तय करें',
+    'followUp.cancel': 'फ़ॉलो-अप रद्द करें',
+    'followUp.cancelReason': 'फ़ॉलो-अप रद्द करने का कारण',
+    'followUp.save': 'सहेजें',
+    'followUp.linkExisting': 'मौजूदा फ़ॉलो-अप विज़िट जोड़ें…',
+    'followUp.markCompleted': 'पूरा चिह्नित करें',
+    'followUp.linkedVisit': 'पिछली घटना की फ़ॉलो-अप विज़िट',
+    'followUp.failed': 'फ़ॉलो-अप अपडेट नहीं हो सका: {message}',
+    'followUp.missedTitle': 'छूटे फ़ॉलो-अप ({count})',
+    'followUp.noneMissed': 'कोई फ़ॉलो-अप नहीं छूटा',
+    'followUp.emergencyContact': 'आपातकालीन: {name} {phone}',
+    'followUp.today': 'आज देय ({count})',
+    'followUp.upcoming': 'अगले 7 दिन',
+    'followUp.empty': 'कोई फ़ॉलो-अप देय नहीं',
+
+    // Coded medical lists
+    'reg.conditionsSearch': 'अन्य बीमारी खोजें…',
+    'terms.uncoded': 'शब्दावली में नहीं; जैसा लिखा वैसा सहेजा गया',
+    'terms.remove': '{name} हटाएँ',
+
+    // Prescription interaction checks
+    'interactions.checking': 'एलर्जी और चल रही दवाओं से जाँच हो रही है…',
+    'interactions.blockingTitle': 'बिना कारण के यह दवा न लिखें',
+    'interactions.warningTitle': 'दवा लिखने से पहले जाँचें',
+    'interactions.alreadyTaking': '{name} (पहले से ले रहे हैं)',
+    'interactions.allergyTo': '{name} से एलर्जी',
+    'interactions.overrideReason': 'फिर भी दवा लिखने का कारण',
+    'interactions.overridePlaceholder': 'जैसे: एलर्जी हल्के चकत्ते की थी; लाभ जोखिम से अधिक, मरीज़ निगरानी में',
+    'interactions.overrideRequired': 'चेतावनी को अनदेखा करने का कारण लिखें, या दवा बदलें।',
+    'interactions.blocked': 'यह दवा भक्त की एलर्जी या दवाओं से टकराती है। चेतावनियाँ देखें और अनदेखा करने का कारण लिखें।',
+    'interactions.overridden': '{name} ने चेतावनी अनदेखी की:',
+    'audit.action.incident.prescription_override': 'दवा चेतावनी अनदेखी की',
+    'audit.action.incident.prescription_flagged': 'ऑफ़लाइन सिंक के बाद दवा समीक्षा के लिए चिह्नित',
+    'audit.action.incident.prescription_review': 'चिह्नित दवा की समीक्षा की',
+    'interactions.reviewPending': 'इन चेतावनियों के बावजूद ऑफ़लाइन दर्ज; चिकित्सक की समीक्षा आवश्यक:',
+    'interactions.reviewed': '{name} ने चिह्नित दवा की समीक्षा की:',
+    'interactions.markReviewed': 'समीक्षा पूरी करें',
+    'interactions.reviewNote': 'इस दवा के बारे में क्या किया गया?',
+    'interactions.reviewFailed': 'समीक्षा दर्ज नहीं हो सकी: {message}',
+
+    // Syndromic surveillance
+    'nav.surveillance': 'निगरानी',
+    'surveillance.pageTitle': 'प्रकोप निगरानी',
+    'surveillance.pageDesc': 'लक्षण-समूह के अनुसार घटनाएँ, हर केंद्र और सेक्टर के हाल के औसत से तुलना',
+    'surveillance.scope.center': 'केंद्र',
+    'surveillance.scope.sector': 'सेक्टर',
+    'surveillance.window': 'अवधि',
+    'surveillance.hours': '{count} घंटे',
+    'surveillance.alertsTitle': 'प्रकोप अलर्ट ({count})',
+    'surveillance.noAlerts': 'कोई प्रकोप अलर्ट नहीं',
+    'surveillance.alertSince': '{date} से',
+    'surveillance.observedExpected': '{observed} मामले, अपेक्षित {expected}',
+    'surveillance.peak': 'अधिकतम {count}',
+    'surveillance.acknowledgedBy': '{name} ने स्वीकार किया',
+    'surveillance.viewCases': 'मामले देखें',
+    'surveillance.acknowledge': 'स्वीकार करें',
+    'surveillance.dismiss': 'ख़ारिज करें',
+    'surveillance.dismissPrompt': 'यह अलर्ट क्यों ख़ारिज किया जा रहा है?',
+    'surveillance.reviewFailed': 'अलर्ट अपडेट नहीं हो सका: {message}',
+    'surveillance.signalsTitle': 'वर्तमान अवधि',
+    'surveillance.currentWindow': '{range} के बीच के मामले',
+    'surveillance.noSignals': 'इस अवधि में कोई मामला नहीं',
+    'surveillance.syndromeColumn': 'लक्षण-समूह',
+    'surveillance.trend': 'रुझान',
+    'surveillance.cases': 'मामले',
+    'surveillance.expected': 'अपेक्षित',
+    'surveillance.alert': 'अलर्ट',
+    'surveillance.noSector': 'कोई सेक्टर नहीं',
+    'surveillance.noCases': 'कोई घटना नहीं मिली',
+    'surveillance.methodHelp': 'EARS C1 और C2 उस अवधि को चिह्नित करते हैं जो पिछली 7 अवधियों से 3 मानक विचलन से अधिक हो (C2 सबसे हाल की 2 को छोड़ता है); C3 लगातार 3 अवधियों की बढ़त पकड़ता है। अलर्ट के लिए कम से कम 3 मामले चाहिए।',
+    'surveillance.syndrome.gi': 'पेट व आँत',
+    'surveillance.syndrome.heat': 'गर्मी से बीमारी',
+    'surveillance.syndrome.respiratory': 'श्वसन',
+    'surveillance.syndrome.injury': 'चोट',
+    'surveillance.syndrome.cardiac': 'हृदय',
+    'surveillance.syndrome.fever': 'बुखार',
+
+    // high risk pagination
+    'highRisk.searchPlaceholder': 'नाम या पंजीकरण संख्या से खोजें',
+    'highRisk.page': 'पृष्ठ {page} / {pages} ({total} श्रद्धालु)',
+    'highRisk.prevPage': 'पिछला पृष्ठ',
+    'highRisk.nextPage': 'अगला पृष्ठ',
+
+    // risk models
+    'nav.riskModels': 'जोखिम मॉडल',
+    'highRisk.modelVersion': 'जोखिम मॉडल v{version} से आकलित',
+    'highRisk.simulatedWeather': 'पर्यावरणीय जोखिम नकली (डेमो) मौसम से आँका गया है',
+    'highRisk.whyScore': 'यह स्कोर क्यों',
+    'highRisk.scoredWith': 'जोखिम मॉडल v{version}',
+    'riskModels.pageTitle': 'जोखिम मॉडल',
+    'riskModels.pageDesc': 'जोखिम भार, श्रेणियाँ और सीमाएँ समायोजित करें, प्रभाव देखें, फिर नया संस्करण सक्रिय करें',
+    'riskModels.versions': 'संस्करण',
+    'riskModels.status.draft': 'ड्राफ़्ट',
+    'riskModels.status.active': 'सक्रिय',
+    'riskModels.status.retired': 'निवृत्त',
+    'riskModels.activatedAt': '{date} को सक्रिय',
+    'riskModels.name': 'मॉडल का नाम',
+    'riskModels.notesPlaceholder': 'क्या बदला और क्यों',
+    'riskModels.save': 'ड्राफ़्ट सहेजें',
+    'riskModels.activate': 'सक्रिय करें',
+    'riskModels.discard': 'हटाएँ',
+    'riskModels.newDraft': 'इस संस्करण से नया ड्राफ़्ट',
+    'riskModels.draftName': 'v{version} पर आधारित ड्राफ़्ट',
+    'riskModels.saveBeforeActivate': 'सक्रिय करने से पहले ड्राफ़्ट सहेजें',
+    'riskModels.saveFailed': 'जोखिम मॉडल सहेजा नहीं जा सका: {message}',
+    'riskModels.activateFailed': 'जोखिम मॉडल सक्रिय नहीं हो सका: {message}',
+    'riskModels.previewFailed': 'पूर्वावलोकन नहीं चल सका: {message}',
+    'riskModels.discardConfirm': 'ड्राफ़्ट v{version} हटाएँ?',
+    'riskModels.activateConfirm': 'v{version} सक्रिय करें? सभी श्रद्धालुओं का जोखिम इससे दोबारा आँका जाएगा।',
+    'riskModels.thresholds': 'जोखिम स्तर सीमाएँ',
+    'riskModels.threshold.moderate': 'मध्यम, इससे',
+    'riskModels.threshold.high': 'उच्च, इससे',
+    'riskModels.threshold.critical': 'गंभीर, इससे',
+    'riskModels.ageBands': 'आयु श्रेणियाँ',
+    'riskModels.crowdBands': 'भीड़ श्रेणियाँ',
+    'riskModels.unit.years': 'वर्ष',
+    'riskModels.unit.devotees': 'श्रद्धालु',
+    'riskModels.addBand': 'श्रेणी जोड़ें',
+    'riskModels.bandMin': 'से ({unit})',
+    'riskModels.bandMax': 'से कम ({unit})',
+    'riskModels.points': 'अंक',
+    'riskModels.remove': 'हटाएँ',
+    'riskModels.cap': 'अधिकतम अंक',
+    'riskModels.conditionWeights': 'दीर्घकालिक रोग भार',
+    'riskModels.addCondition': 'रोग जोड़ें',
+    'riskModels.code': 'ICD-10 कोड',
+    'riskModels.label': 'नाम',
+    'riskModels.defaultPoints': 'अन्य रोगों के अंक',
+    'riskModels.multiplier': '2+ रोगों पर गुणक',
+    'riskModels.environmental': 'मौसम',
+    'riskModels.temperature': 'तापमान',
+    'riskModels.humidity': 'आर्द्रता',
+    'riskModels.aqi': 'वायु गुणवत्ता',
+    'riskModels.recommendations': 'सुझाव नियम',
+    'riskModels.addRule': 'नियम जोड़ें',
+    'riskModels.when': 'जब',
+    'riskModels.component.total': 'कुल स्कोर',
+    'riskModels.component.age': 'आयु अंक',
+    'riskModels.component.medical': 'चिकित्सा अंक',
+    'riskModels.component.environmental': 'मौसम अंक',
+    'riskModels.component.crowd': 'भीड़ अंक',
+    'riskModels.messagesPlaceholder': 'हर पंक्ति में एक सुझाव',
+    'riskModels.defaultRecommendations': 'जब कोई नियम लागू न हो',
+    'riskModels.previewTitle': 'क्या-अगर पूर्वावलोकन',
+    'riskModels.previewDesc': 'इस कॉन्फ़िग से एक यादृच्छिक नमूने का दोबारा आकलन करें और सक्रिय मॉडल से तुलना करें',
+    'riskModels.sampleSize': 'नमूना आकार',
+    'riskModels.runPreview': 'पूर्वावलोकन',
+    'riskModels.previewSummary': '{sample} में से {changed} श्रद्धालुओं का जोखिम स्तर बदलेगा',
+    'riskModels.level': 'स्तर',
+    'riskModels.currentModel': 'सक्रिय (v{version})',
+    'riskModels.draftModel': 'यह कॉन्फ़िग',
+    'riskModels.levels.Critical': 'गंभीर',
+    'riskModels.levels.High': 'उच्च',
+    'riskModels.levels.Moderate': 'मध्यम',
+    'riskModels.levels.Low': 'कम',
+    'riskModels.examples': 'सबसे बड़े बदलाव',
+
+    // risk incidents
+    'riskModels.component.incidents': 'घटना इतिहास अंक',
+    'riskModels.incidents': 'हाल की घटनाओं का इतिहास',
+    'riskModels.incidentsDesc': 'अवधि के भीतर हर विज़िट अंक जोड़ती है जो हर अर्ध-आयु पर आधे हो जाते हैं; लंबित फ़ॉलो-अप कितने भी पुराने हों, अंक जोड़ते हैं।',
+    'riskModels.incidentPoints': '{type} विज़िट',
+    'riskModels.windowHours': 'अवधि (घंटे)',
+    'riskModels.halfLifeHours': 'अर्ध-आयु (घंटे)',
+    'riskModels.pendingFollowUpPoints': 'प्रति लंबित फ़ॉलो-अप',
+    'riskModels.incidentsDefault': 'यह संस्करण घटना इतिहास आँकने से पहले सहेजा गया था, इसलिए यह इन डिफ़ॉल्ट सेटिंग्स से इतिहास आँकता है।',
+
+    // Live alerts
+    'live.topic.risk.critical': 'गंभीर जोखिम',
+    'live.topic.incident.created': 'रेड ट्राइएज',
+    'live.topic.incident.prescription_review': 'दवा समीक्षा',
+    'live.topic.lost_person.reported': 'लापता बच्चा',
+    'live.topic.face.match': 'चेहरा मिलान',
+    'live.topic.weather.alert': 'मौसम चेतावनी',
+    'live.riskCritical': '{count} श्रद्धालु गंभीर जोखिम में: {names}',
+    'live.incidentRed': '{center} पर रेड ट्राइएज {type} मामला',
+    'live.prescriptionReview': '{center} की ऑफ़लाइन घटना गंभीर दवा चेतावनी के साथ सिंक हुई: {reasons}',
+    'live.missingChild': '{name}, आयु {age}, लापता दर्ज',
+    'live.faceMatch': '{name} के लिए {count} संभावित मिलान',
+    'live.weather.heat': 'गर्मी चेतावनी: {temp}°C.',
+    'live.weather.air_quality': 'खराब वायु गुणवत्ता: AQI {aqi}.',
+    'live.mute': 'आवाज़ बंद',
+    'live.unmute': 'आवाज़ चालू',
+    'live.dismissAll': 'सभी हटाएँ',
+    'live.incidentFeed': 'दर्ज होते ही घटनाएँ',
+    'live.noIncidents': 'यह पेज खुलने के बाद कोई नई घटना नहीं',
+
+    // Manual weather readings
+    'weatherReading.title': 'मौसम रीडिंग दर्ज करें',
+    'weatherReading.sector': 'क्षेत्र',
+    'weatherReading.temp': 'तापमान (°C)',
+    'weatherReading.humidity': 'नमी (%)',
+    'weatherReading.feelsLike': 'महसूस (°C)',
+    'weatherReading.aqi': 'AQI',
+    'weatherReading.uv': 'UV सूचकांक',
+    'weatherReading.optionalHint': 'जो माप नहीं सके उसे खाली छोड़ें; वह मौसम सेवा से भरा जाएगा।',
+    'weatherReading.notes': 'टिप्पणी',
+    'weatherReading.submit': 'रीडिंग सहेजें',
+    'weatherReading.failed': 'रीडिंग सहेजी नहीं जा सकी: {message}',
+
+    // Heat plan
+    'heatPlan.title': 'गर्मी तनाव पूर्वानुमान, {location}',
+    'heatPlan.simulated': 'नकली (डेमो) पूर्वानुमान — इसके आधार पर तैनाती की योजना न बनाएँ।',
+    'heatPlan.snanDay': '{name} ({date})',
+    'heatPlan.temp': 'तापमान',
+    'heatPlan.heatIndex': 'हीट इंडेक्स',
+    'heatPlan.wbgt': 'WBGT',
+    'heatPlan.noWindows': 'अगले 48 घंटों में अधिक गर्मी तनाव की संभावना नहीं।',
+    'heatPlan.level.high': 'अधिक गर्मी तनाव',
+    'heatPlan.level.extreme': 'अत्यधिक गर्मी तनाव',
+    'heatPlan.peak': '{time} पर चरम: WBGT {wbgt}°C, हीट इंडेक्स {heatIndex}°C',
+    'heatPlan.snanWindow': '{name}: बहुत अधिक भीड़ की संभावना',
+    'heatPlan.waterPoints': '+{count} जल केंद्र',
+    'heatPlan.medicalStaff': '+{count} चिकित्सा कर्मी',
+    'heatPlan.coolingStations': '+{count} कूलिंग स्टेशन',
+    'heatPlan.failed': 'पूर्वानुमान लोड नहीं हो सका: {message}',
+
+    // Family and travel groups
+    'group.mode.individual': 'व्यक्तिगत',
+    'group.mode.group': 'परिवार / समूह',
+    'group.details': 'समूह विवरण',
+    'group.name': 'समूह का नाम',
+    'group.type': 'समूह का प्रकार',
+    'group.type.family': 'परिवार',
+    'group.type.village': 'गाँव का समूह',
+    'group.type.tour': 'टूर बैच',
+    'group.operatorName': 'टूर ऑपरेटर',
+    'group.operatorPhone': 'ऑपरेटर का फोन',
+    'group.contactPhone': 'समूह संपर्क फोन',
+    'group.address': 'घर का पता',
+    'group.address.line': 'मकान / गली',
+    'group.address.village': 'गाँव / शहर',
+    'group.address.district': 'ज़िला',
+    'group.address.state': 'राज्य',
+    'group.address.pincode': 'पिन कोड',
+    'group.notes': 'टिप्पणी',
+    'group.members': 'सदस्य ({count})',
+    'group.membersHint': 'ऊपर दिया संपर्क और पता सभी सदस्यों के लिए है। सदस्य का फोन खाली छोड़ें तो समूह का फोन लगेगा; पूरा चिकित्सा इतिहास बाद में प्रोफ़ाइल से जोड़ा जा सकता है।',
+    'group.addMember': 'सदस्य जोड़ें',
+    'group.removeMember': 'सदस्य {number} हटाएँ',
+    'group.takePhoto': 'फोटो लें',
+    'group.relationship': 'मुखिया से संबंध',
+    'group.relationship.self': 'मुखिया',
+    'group.relationship.spouse': 'पति / पत्नी',
+    'group.relationship.parent': 'माता / पिता',
+    'group.relationship.child': 'संतान',
+    'group.relationship.sibling': 'भाई / बहन',
+    'group.relationship.grandparent': 'दादा-दादी / नाना-नानी',
+    'group.relationship.grandchild': 'पोता-पोती / नाती-नातिन',
+    'group.relationship.relative': 'रिश्तेदार',
+    'group.relationship.neighbour': 'पड़ोसी',
+    'group.relationship.friend': 'मित्र',
+    'group.relationship.other': 'अन्य',
+    'group.memberPhone': 'अपना फोन',
+    'group.leader': 'समूह मुखिया',
+    'group.memberIncomplete': 'हर सदस्य का नाम और उम्र ज़रूरी है।',
+    'group.submit': '{count} सदस्य पंजीकृत करें',
+    'group.failed': 'समूह पंजीकरण विफल: {message}',
+    'group.registered': '{name} पंजीकृत',
+    'group.number': 'समूह संख्या: {number}',
+    'group.registerAnother': 'दूसरा समूह पंजीकृत करें',
+    'group.travellingWith': '{name} के साथ यात्रा',
+    'group.leaderPhone': 'मुखिया {name}',
+    'group.operator': 'टूर ऑपरेटर: {name} ({phone})',
+    'group.noOtherMembers': 'इस समूह में और कोई सदस्य नहीं।',
+    'lost.reported.title': 'रिपोर्ट दर्ज हुई',
+    'lost.reported.groupHint': '{name} एक समूह के साथ पंजीकृत हैं। अभी मुखिया या किसी अन्य सदस्य को फोन करें।',
+    'lost.reported.done': 'ठीक है',
+    'lost.suggested.hint': 'यह चेहरा एक पंजीकृत श्रद्धालु जैसा दिखता है। पुष्टि करने से पहले फ़ोटो और विवरण मिलाएँ: उनके समूह के फ़ोन नंबर पुष्टि के बाद ही दिखेंगे।',
+    'lost.suggested.reported': 'अभी दर्ज',
+    'lost.suggested.registered': 'पंजीकृत ({number})',
+    'lost.suggested.similarity': 'चेहरा समानता {percent}%',
+    'lost.suggested.confirm': 'यही व्यक्ति है',
+    'lost.suggested.dismiss': 'यह व्यक्ति नहीं है',
+    'lost.suggested.failed': 'आपका उत्तर सहेजा नहीं जा सका: {message}',
+
+    // duplicate detection and merges
+    'duplicates.title': 'संभवतः पहले से पंजीकृत',
+    'duplicates.desc': 'ये पंजीकरण उसी व्यक्ति के लगते हैं। यदि वही व्यक्ति है तो मौजूदा रिकॉर्ड उपयोग करें, अन्यथा फिर भी पंजीकरण करें।',
+    'duplicates.confidence.likely': 'संभावित मिलान',
+    'duplicates.confidence.possible': 'संभव मिलान',
+    'duplicates.reason.face': 'एक जैसा चेहरा',
+    'duplicates.reason.phone': 'एक ही फ़ोन',
+    'duplicates.reason.name_age_gender': 'मिलता-जुलता नाम, उम्र और लिंग',
+    'duplicates.useExisting': 'यह रिकॉर्ड उपयोग करें',
+    'duplicates.registerAnyway': 'अलग व्यक्ति है, फिर भी पंजीकरण करें',
+    'duplicates.alreadyRegistered': '{name} पहले से पंजीकृत हैं',
+    'duplicates.alreadyRegisteredHint': 'कोई नया पंजीकरण नहीं बनाया गया। रिकॉर्ड देखने या अपडेट करने के लिए यह पंजीकरण संख्या खोजें।',
+    'duplicates.backToForm': 'फ़ॉर्म पर वापस',
+    'nav.merges': 'विलय',
+    'merge.pageTitle': 'डुप्लिकेट रिकॉर्ड',
+    'merge.pageDesc': 'डुप्लिकेट पंजीकरण को रखे जाने वाले रिकॉर्ड में मिलाएँ। हर विलय पूर्ववत किया जा सकता है।',
+    'merge.duplicate': 'डुप्लिकेट (हटाया जाएगा)',
+    'merge.keep': 'रखा जाने वाला रिकॉर्ड',
+    'merge.search': 'खोजें',
+    'merge.searchPlaceholder': 'नाम या पंजीकरण संख्या',
+    'merge.searchFailed': 'खोज विफल: {message}',
+    'merge.registeredOn': 'पंजीकृत',
+    'merge.findDuplicates': '{name} के संभावित डुप्लिकेट खोजें',
+    'merge.noSuggestions': 'कोई संभावित डुप्लिकेट नहीं मिला।',
+    'merge.selectDuplicate': 'डुप्लिकेट चुनें',
+    'merge.reason': 'कारण (वैकल्पिक)',
+    'merge.submit': 'रिकॉर्ड मिलाएँ',
+    'merge.hint': 'डुप्लिकेट की घटनाएँ, चिकित्सा इतिहास और समूह सदस्यता रखे गए रिकॉर्ड में चली जाती हैं। उसकी पंजीकरण संख्या उपनाम के रूप में काम करती रहती है।',
+    'merge.confirm': '{retired} को {survivor} में मिलाएँ? डुप्लिकेट हटा दिया जाएगा।',
+    'merge.failed': 'विलय विफल: {message}',
+    'merge.history': 'हाल के विलय',
+    'merge.noHistory': 'अभी तक कोई रिकॉर्ड नहीं मिलाया गया।',
+    'merge.by': '{name} द्वारा, {date}',
+    'merge.reverted': 'पूर्ववत',
+    'merge.revert': 'पूर्ववत करें',
+    'merge.revertConfirm': 'यह विलय पूर्ववत करके {retired} को अलग रिकॉर्ड के रूप में बहाल करें?',
+    'merge.revertFailed': 'विलय पूर्ववत नहीं हो सका: {message}',
+    'audit.action.devotee.merge': 'डुप्लिकेट रिकॉर्ड मिलाया',
+    'audit.action.devotee.unmerge': 'रिकॉर्ड विलय पूर्ववत किया',
+
+    // bulk import
+    'nav.import': 'आयात',
+    'import.pageTitle': 'थोक आयात',
+    'import.pageDesc': 'टूर ऑपरेटर या राज्य परिवहन की स्प्रेडशीट से यात्रियों का एक साथ पंजीकरण करें।',
+    'import.uploadHint': 'हेडर पंक्ति और हर पंक्ति में एक यात्री वाली CSV या Excel (.xlsx) फ़ाइल। केवल पहली शीट पढ़ी जाती है।',
+    'import.upload': 'अपलोड करें',
+    'import.uploadFailed': 'अपलोड विफल: {message}',
+    'import.status.uploading': 'फ़ाइल पढ़ी जा रही है',
+    'import.status.uploaded': 'मैपिंग बाकी',
+    'import.status.validating': 'पंक्तियाँ जाँची जा रही हैं',
+    'import.status.validated': 'आयात के लिए तैयार',
+    'import.status.importing': 'आयात हो रहा है',
+    'import.status.completed': 'पूर्ण',
+    'import.status.failed': 'विफल',
+    'import.status.cancelled': 'रद्द',
+    'import.rows': '{count} पंक्तियाँ',
+    'import.importedCount': '{count} पंजीकृत',
+    'import.resume': 'फिर शुरू करें',
+    'import.cancel': 'आयात रद्द करें',
+    'import.cancelConfirm': 'यह आयात रद्द करें? जो पंक्तियाँ पंजीकृत हो चुकी हैं वे पंजीकृत रहेंगी।',
+    'import.failedWith': 'त्रुटि के कारण रुका: {message}। जहाँ रुका था वहीं से जारी रखने के लिए फिर शुरू करें।',
+    'import.mapping': 'कॉलम मैपिंग',
+    'import.field': 'फ़ील्ड',
+    'import.column': 'फ़ाइल का कॉलम',
+    'import.example': 'पहली पंक्ति',
+    'import.default': 'डिफ़ॉल्ट मान',
+    'import.defaultPlaceholder': 'खाली होने पर उपयोग',
+    'import.notMapped': 'फ़ाइल में नहीं',
+    'import.field.full_name': 'पूरा नाम',
+    'import.field.age': 'उम्र',
+    'import.field.gender': 'लिंग',
+    'import.field.phone': 'फ़ोन',
+    'import.field.emergency_contact_name': 'आपातकालीन संपर्क का नाम',
+    'import.field.emergency_contact_phone': 'आपातकालीन संपर्क फ़ोन',
+    'import.field.blood_group': 'रक्त समूह',
+    'import.field.height_cm': 'ऊँचाई (सेमी)',
+    'import.field.weight_kg': 'वज़न (किग्रा)',
+    'import.field.allergies': 'एलर्जी',
+    'import.field.chronic_conditions': 'दीर्घकालिक रोग',
+    'import.field.current_medications': 'वर्तमान दवाएँ',
+    'import.field.past_surgeries': 'पिछली सर्जरी',
+    'import.field.special_notes': 'टिप्पणी',
+    'import.dryRun': 'पंक्तियाँ जाँचें (ड्राई रन)',
+    'import.rowStatus.invalid': 'त्रुटि वाली',
+    'import.rowStatus.duplicate': 'संदिग्ध डुप्लिकेट',
+    'import.rowStatus.valid': 'तैयार',
+    'import.rowStatus.imported': 'पंजीकृत',
+    'import.noRows': 'इस सूची में कोई पंक्ति नहीं।',
+    'import.row': 'पंक्ति',
+    'import.details': 'विवरण',
+    'import.repeatOf': 'पंक्ति {row} वाला ही व्यक्ति',
+    'import.previous': 'पिछला',
+    'import.next': 'अगला',
+    'import.page': 'पृष्ठ {page} / {pages}',
+    'import.includeDuplicates': '{count} संदिग्ध डुप्लिकेट भी पंजीकृत करें',
+    'import.start': '{count} यात्रियों का पंजीकरण करें',
+    'import.startConfirm': 'इस फ़ाइल से {count} यात्रियों का पंजीकरण करें?',
+    'import.download': 'पंजीकरण संख्याएँ डाउनलोड करें',
+    'import.recent': 'हाल के आयात',
+    'import.noJobs': 'अभी तक कोई फ़ाइल आयात नहीं हुई।',
+
+    // Data exports
+    'nav.exports': 'निर्यात',
+    'audit.action.devotee.export': 'FHIR के रूप में निर्यात किया',
+    'profile.fhirExport': 'FHIR रिकॉर्ड डाउनलोड करें',
+    'profile.fhirExportFailed': 'FHIR रिकॉर्ड निर्यात नहीं हो सका: {message}',
+    'export.pageTitle': 'डेटा निर्यात',
+    'export.pageDesc': 'रिपोर्टिंग के लिए श्रद्धालु, चिकित्सा रिकॉर्ड या घटनाएँ डाउनलोड करें। हर निर्यात दर्ज होता है।',
+    'export.dataset': 'डेटा',
+    'export.datasets.devotees': 'श्रद्धालु',
+    'export.datasets.medical_records': 'चिकित्सा रिकॉर्ड',
+    'export.datasets.incidents': 'घटनाएँ',
+    'export.datasets.fhir': 'FHIR रिकॉर्ड',
+    'export.format': 'फ़ॉर्मेट',
+    'export.formats.csv': 'CSV',
+    'export.formats.xlsx': 'Excel (XLSX)',
+    'export.formats.fhir+json': 'FHIR JSON',
+    'export.from': 'से',
+    'export.to': 'तक',
+    'export.center': 'चिकित्सा केंद्र',
+    'export.allCenters': 'सभी केंद्र',
+    'export.riskLevel': 'जोखिम स्तर',
+    'export.hint.devotees': 'तिथियाँ पंजीकरण तिथि पर लागू होती हैं। केंद्र चुनने पर केवल वहाँ देखे गए श्रद्धालु आते हैं।',
+    'export.hint.medical_records': 'तिथियाँ पंजीकरण तिथि पर लागू होती हैं। केंद्र चुनने पर केवल वहाँ देखे गए श्रद्धालु आते हैं।',
+    'export.hint.incidents': 'तिथियाँ घटना की तिथि पर लागू होती हैं। केंद्र में वहाँ स्वीकार किए गए रेफ़रल भी शामिल हैं।',
+    'export.download': 'डाउनलोड',
+    'export.log': 'निर्यात लॉग',
+    'export.noLogs': 'अभी तक कुछ निर्यात नहीं हुआ।',
+    'export.noFilters': 'कोई फ़िल्टर नहीं',
+    'export.rows': '{count} पंक्तियाँ',
+    'export.incomplete': 'अधूरा',
+
+    // ABHA number and FHIR pre-fill
+    'prefill.abhaNumber': 'ABHA नंबर (यदि हो)',
+    'prefill.abhaFormat': '14 अंक, जैसे 91-1234-5678-9012',
+    'prefill.fetchAbdm': 'स्वास्थ्य रिकॉर्ड लाएँ',
+    'prefill.uploadFhir': 'FHIR फ़ाइल अपलोड करें',
+    'prefill.hint': 'फ़ॉर्म भरने के लिए ABHA नंबर से जुड़े रिकॉर्ड लाएँ या FHIR डिस्चार्ज सारांश अपलोड करें। पंजीकरण से पहले हर जानकारी यात्री से जाँच लें।',
+    'prefill.doneAbdm': 'ABDM स्वास्थ्य रिकॉर्ड से भरा गया। हर जानकारी यात्री से जाँच लें।',
+    'prefill.doneFile': 'FHIR फ़ाइल से भरा गया। हर जानकारी यात्री से जाँच लें।',
+    'prefill.failed': 'स्वास्थ्य रिकॉर्ड नहीं पढ़े जा सके: {message}',
+    'prefill.notJson': 'फ़ाइल JSON नहीं है',
+    'prefill.consent': 'रिकॉर्ड लाने की सहमति किसने दी…',
+    'prefill.consentPilgrim': 'यात्री ने',
+    'prefill.consentGuardian': 'यात्री की ओर से परिजन ने',
+    'prefill.clinicalWithheld': 'स्वास्थ्य जानकारी नहीं भरी गई क्योंकि आपकी भूमिका चिकित्सा रिकॉर्ड नहीं पढ़ सकती। डॉक्टर या नर्स इसे जोड़ सकते हैं।',
+    'duplicates.reason.abha': 'एक ही ABHA नंबर',
+    'profile.abha': 'ABHA:',
   },
   mr: {
     'app.title': 'नाशिक कुंभ मेळा – मेडिकल सेवा',
@@ -823,7 +2237,7 @@ const DICT: Record<Language, Dictionary> = {
     'incident.doctor': 'ड्युटी डॉक्टर *',
     'incident.doctorPlaceholder': 'डॉ. नाव',
     'incident.center': 'मेडिकल सेंटर *',
-    'incident.centerPlaceholder': 'केंद्र/रुग्णालय नाव',
+    'incident.centerPlaceholder': 'वैद्यकीय केंद्र निवडा',
     'incident.symptoms': 'लक्षणे *',
     'incident.symptomsPlaceholder': 'लक्षणे लिहा...',
     'incident.diagnosis': 'निदान',
@@ -912,6 +2326,713 @@ const DICT: Record<Language, Dictionary> = {
     'selfie.bodyDetected': 'शरीर ओळखले! फोटो घेण्यासाठी तयार',
     'selfie.bodyNotVisible': 'कृपया आपल्या शरीराचा अधिक भाग दाखवा',
     'selfie.mouthOpen': 'कृपया तोंड बंद ठेवा.',
+
+    // Login / staff roles
+    'login.subtitle': 'कर्मचारी साइन-इन',
+    'login.username': 'यूजरनेम',
+    'login.password': 'पासवर्ड',
+    'login.submit': 'साइन इन करा',
+    'login.signingIn': 'साइन इन होत आहे...',
+    'login.invalid': 'चुकीचे यूजरनेम किंवा पासवर्ड',
+    'login.fail': 'साइन इन करता आले नाही. कृपया कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+    'login.signOut': 'साइन आउट',
+    'role.doctor': 'डॉक्टर',
+    'role.nurse': 'परिचारिका',
+    'role.registration_volunteer': 'नोंदणी स्वयंसेवक',
+    'role.lost_found_desk': 'हरवले-सापडले डेस्क',
+    'role.admin': 'कंट्रोल रूम ॲडमिन',
+
+    // Medical record audit history
+    'profile.tab.overview': 'सारांश',
+    'profile.tab.history': 'इतिहास',
+    'profile.history.loading': 'बदल इतिहास लोड होत आहे...',
+    'profile.history.empty': 'या यात्रेकरूसाठी अद्याप कोणताही बदल नोंदवलेला नाही.',
+    'profile.history.by': '{user} ({role}) द्वारे',
+    'profile.history.field': 'फील्ड',
+    'profile.history.before': 'आधी',
+    'profile.history.after': 'नंतर',
+    'audit.action.devotee.view': 'रेकॉर्ड पाहिले',
+    'audit.action.devotee.update': 'रेकॉर्ड अपडेट केले',
+    'audit.action.incident.create': 'घटना नोंदवली',
+
+    // Offline sync
+    'sync.status': 'सिंक स्थिती',
+    'sync.title': 'ऑफलाइन सिंक',
+    'sync.online': 'ऑनलाइन',
+    'sync.offline': 'ऑफलाइन',
+    'sync.syncing': 'सिंक होत आहे...',
+    'sync.pendingCount': '{count} बदल सिंकच्या प्रतीक्षेत',
+    'sync.syncNow': 'आता सिंक करा',
+    'sync.failedTitle': 'जतन करता आले नाही',
+    'sync.retry': 'पुन्हा प्रयत्न',
+    'sync.discard': 'काढून टाका',
+    'sync.discardConfirm': 'ही असिंक नोंद काढून टाकायची? भरलेली माहिती नष्ट होईल.',
+    'sync.kind.registerDevotee': 'यात्री नोंदणी',
+    'sync.kind.createIncident': 'वैद्यकीय घटना',
+    'sync.kind.reportLostFound': 'हरवले-सापडले अहवाल',
+    'sync.othersPending': 'या डिव्हाइसवरील इतर कर्मचाऱ्यांचे {count} बदल ते साइन इन केल्यावर सिंक होतील',
+    'sync.unowned': 'ही नोंद वापरकर्ता नोंदवला जाण्यापूर्वी रांगेत होती. तुमच्या नावाने पाठवण्यासाठी पुन्हा प्रयत्न करा, किंवा हटवा.',
+    'register.savedOffline': 'या डिव्हाइसवर जतन केले. कनेक्शन परत आल्यावर कुंभ आयडी आपोआप दिला जाईल.',
+
+    // Lost & found case management
+    'lost.cases': 'प्रकरणे',
+    'lost.badge.found': 'सापडले',
+    'lost.case.loading': 'प्रकरणे लोड होत आहेत...',
+    'lost.case.stat.open': 'खुली',
+    'lost.case.stat.missing': 'हरवलेले',
+    'lost.case.stat.found': 'सापडलेले',
+    'lost.case.stat.awaiting': 'सुपूर्द बाकी',
+    'lost.case.stat.reunited24h': 'भेट घडवली (24 तास)',
+    'lost.case.stat.medianTime': 'भेटीचा सरासरी वेळ',
+    'lost.case.tab.open': 'खुली प्रकरणे',
+    'lost.case.tab.history': 'पुनर्भेट इतिहास',
+    'lost.case.openFor': '{age} पासून खुले',
+    'lost.case.linkedWith': '{name} शी जुळले',
+    'lost.case.confirmedBy': '{name} यांनी पुष्टी केली ({method})',
+    'lost.case.handover': 'सुपूर्द करा',
+    'lost.case.unlink': 'जुळणी काढा',
+    'lost.case.unlinkPrompt': 'ही जुळणी का काढली जात आहे?',
+    'lost.history.person': 'व्यक्ती',
+    'lost.history.guardian': 'कोणाकडे सुपूर्द',
+    'lost.history.idProof': 'ओळखपत्र',
+    'lost.history.desk': 'डेस्क',
+    'lost.history.handedOver': 'सुपूर्द केले',
+    'lost.history.duration': 'भेटीस लागलेला वेळ',
+    'lost.history.empty': 'अद्याप कोणतीही पुनर्भेट नाही.',
+    'lost.idProof.aadhaar': 'आधार',
+    'lost.idProof.voter_id': 'मतदार ओळखपत्र',
+    'lost.idProof.driving_licence': 'वाहन परवाना',
+    'lost.idProof.passport': 'पासपोर्ट',
+    'lost.idProof.other': 'इतर',
+    'lost.verify.face_match': 'कर्मचाऱ्यांनी चेहरा जुळणी तपासली',
+    'lost.verify.photo_id': 'फोटो ओळखपत्र',
+    'lost.verify.family_photo': 'कौटुंबिक फोटो',
+    'lost.verify.personal_details': 'वैयक्तिक माहितीची पुष्टी',
+    'lost.verify.other': 'इतर',
+    'lost.handover.title': '{name} सुपूर्द करा',
+    'lost.handover.guardianName': 'पालकाचे नाव',
+    'lost.handover.phone': 'पालकाचा फोन',
+    'lost.handover.relationship': 'नाते',
+    'lost.handover.idProofType': 'ओळखपत्र',
+    'lost.handover.idProofNumber': 'ओळख क्रमांक',
+    'lost.handover.desk': 'डेस्क',
+    'lost.handover.notes': 'टीप',
+    'lost.handover.submit': 'सुपूर्दची पुष्टी करा',
+    'lost.handover.required': 'पालकाचे नाव आणि ओळख क्रमांक आवश्यक आहे.',
+    'lost.handover.failed': 'सुपूर्द अयशस्वी: {message}',
+    'lost.match.alreadyLinked': 'आधीच जुळले',
+    'lost.match.confirm': 'जुळणीची पुष्टी करा',
+    'lost.confirm.title': 'जुळणीची पुष्टी',
+    'lost.confirm.desc': 'डेस्कवरील व्यक्ती {name} आहे का? ओळख कशी पडताळली ते नोंदवा.',
+    'lost.confirm.method': 'पडताळणीची पद्धत',
+    'lost.confirm.submit': 'पुष्टी करा आणि अहवाल जोडा',
+    'lost.confirm.offline': 'अहवाल ऑफलाइन जतन केला. कनेक्शन परत आल्यावर जुळणीची पुष्टी करा.',
+    'lost.confirm.failed': 'जुळणीची पुष्टी होऊ शकली नाही: {message}',
+
+    // Health card
+    'card.title': 'आरोग्य कार्ड',
+    'card.heading': 'कुंभमेळा आरोग्य कार्ड',
+    'card.bloodGroup': 'रक्तगट',
+    'card.allergies': 'ऍलर्जी',
+    'card.none': 'ज्ञात नाही',
+    'card.emergency': 'आपत्कालीन संपर्क',
+    'card.qrAlt': 'स्वाक्षरीत आरोग्य कार्ड QR कोड',
+    'card.issued': 'जारी {date}',
+    'card.print': 'प्रिंट / PDF जतन करा',
+    'card.printCta': 'आरोग्य कार्ड प्रिंट करा',
+    'card.loadFailed': 'आरोग्य कार्ड लोड होऊ शकले नाही: {message}',
+    'search.byCard': 'आरोग्य कार्ड QR स्कॅन करा',
+    'scan.title': 'आरोग्य कार्ड स्कॅन करा',
+    'scan.hint': 'कार्डवरील QR कोड चौकटीत धरा.',
+    'scan.cameraError': 'कॅमेरा उघडता आला नाही. कॅमेरा परवानगी द्या आणि पुन्हा प्रयत्न करा.',
+    'scan.invalidCard': 'या आरोग्य कार्डची पडताळणी होऊ शकली नाही. ते बनावट किंवा खराब असू शकते.',
+
+    // Medical facility registry & map
+    'nav.map': 'नकाशा',
+    'map.pageTitle': 'वैद्यकीय सुविधा नकाशा',
+    'map.pageDesc': 'शिबिरे, रुग्णालये, प्रथमोपचार केंद्रे आणि रुग्णवाहिका ठिकाणे, घटनांच्या भारासह',
+    'map.showHeat': 'घटना हीट दाखवा',
+    'map.window': 'कालावधी',
+    'map.lastHours': 'मागील {hours} तास',
+    'map.cancelPlace': 'रद्द करा',
+    'map.placeHint': 'नवीन केंद्र जिथे आहे तिथे नकाशावर क्लिक करा.',
+    'map.capacity': '{beds} खाटा · {ambulances} रुग्णवाहिका',
+    'map.incidents': '{hours} तासांत {total} घटना ({emergencies} आपत्कालीन)',
+    'map.legend': 'सुविधा',
+    'map.byFacility': 'सुविधानिहाय घटना ({hours} तास)',
+    'map.noIncidents': 'या कालावधीत कोणतीही घटना नाही.',
+    'centers.add': 'केंद्र जोडा',
+    'centers.edit': 'केंद्र संपादित करा',
+    'centers.name': 'नाव',
+    'centers.type': 'प्रकार',
+    'centers.sector': 'घाट / सेक्टर',
+    'centers.latitude': 'अक्षांश',
+    'centers.longitude': 'रेखांश',
+    'centers.beds': 'खाटा',
+    'centers.ambulances': 'रुग्णवाहिका',
+    'centers.contactPerson': 'संपर्क व्यक्ती',
+    'centers.contactPhone': 'संपर्क फोन',
+    'centers.alwaysOpen': '24 तास सुरू',
+    'centers.opens': 'उघडण्याची वेळ',
+    'centers.closes': 'बंद होण्याची वेळ',
+    'centers.active': 'सक्रिय',
+    'centers.inactive': 'निष्क्रिय',
+    'centers.delete': 'हटवा',
+    'centers.deleteConfirm': '{name} हटवायचे?',
+    'centers.deleteInUse': 'या केंद्रावर घटना नोंदलेल्या आहेत. हटवण्याऐवजी निष्क्रिय करा.',
+    'centers.save': 'जतन करा',
+    'centers.saveFailed': 'केंद्र जतन होऊ शकले नाही: {message}',
+    'centers.type.hospital': 'रुग्णालय',
+    'centers.type.camp': 'वैद्यकीय शिबिर',
+    'centers.type.first_aid_post': 'प्रथमोपचार केंद्र',
+    'centers.type.ambulance_point': 'रुग्णवाहिका ठिकाण',
+
+    // Vitals & triage
+    'vitals.title': 'व्हायटल्स',
+    'vitals.help': 'ऐच्छिक. ट्रायेज रंग आणि NEWS2 स्कोअर नोंदवलेल्या मूल्यांवरून मोजले जातात.',
+    'vitals.pulse': 'नाडी',
+    'vitals.bp_systolic': 'बीपी सिस्टोलिक',
+    'vitals.bp_diastolic': 'बीपी डायस्टोलिक',
+    'vitals.spo2': 'SpO₂',
+    'vitals.temperature_c': 'तापमान',
+    'vitals.respiratory_rate': 'श्वसन दर',
+    'vitals.gcs': 'GCS',
+    'vitals.blood_glucose_mg_dl': 'रक्तशर्करा',
+    'vitals.capillary_refill_s': 'कॅपिलरी रिफिल',
+    'vitals.news2_score': 'NEWS2 स्कोअर',
+    'vitals.avpu': 'AVPU',
+    'vitals.avpu.A': 'A – सावध',
+    'vitals.avpu.V': 'V – आवाजाला प्रतिसाद',
+    'vitals.avpu.P': 'P – वेदनेला प्रतिसाद',
+    'vitals.avpu.U': 'U – बेशुद्ध',
+    'vitals.on_oxygen': 'ऑक्सिजनवर',
+    'vitals.ambulatory': 'चालू शकतात',
+    'vitals.obeys_commands': 'सूचना पाळतात',
+    'vitals.yes': 'हो',
+    'vitals.no': 'नाही',
+    'vitals.error.range': '{min}–{max} दरम्यान असावे',
+    'vitals.error.diastolic': 'सिस्टोलिकपेक्षा कमी असावे',
+    'vitals.error.empty': 'किमान एक मोजमाप नोंदवा',
+    'vitals.observations': 'निरीक्षणे ({count})',
+    'vitals.addObservation': 'निरीक्षण जोडा',
+    'vitals.save': 'निरीक्षण जतन करा',
+    'vitals.notesPlaceholder': 'टीप (ऐच्छिक)',
+    'vitals.noReadings': 'या प्रकारचे मोजमाप अद्याप नाही',
+    'vitals.group.circulation': 'नाडी आणि बीपी',
+    'vitals.group.breathing': 'SpO₂ आणि श्वसन',
+    'vitals.group.temperature': 'तापमान',
+    'vitals.group.glucose': 'शर्करा',
+    'vitals.group.news2': 'NEWS2',
+    'vitals.flag.hypoglycaemia': 'कमी शर्करा',
+    'vitals.flag.hyperglycaemia': 'जास्त शर्करा',
+    'triage.red': 'तात्काळ',
+    'triage.yellow': 'विलंबित',
+    'triage.green': 'किरकोळ',
+    'triage.black': 'अपेक्षित',
+    'triage.news2': 'NEWS2 {score}',
+    'triage.news2Partial': 'सर्व NEWS2 घटक नोंदवले नाहीत',
+    'triage.untriaged': 'ट्रायज नाही',
+    'triage.needs': 'START रंगासाठी जोडा: {inputs}',
+    'triage.input.ambulatory': 'ते चालू शकतात का',
+    'triage.input.respiratory_rate': 'श्वसन दर',
+    'triage.input.perfusion': 'कॅपिलरी रिफिल किंवा सिस्टोलिक बीपी',
+    'triage.input.mental_status': 'सूचना पाळणे, AVPU किंवा GCS',
+    'audit.action.incident.observation': 'व्हायटल्स नोंदवले',
+
+    // Incident lifecycle & referrals
+    'nav.referrals': 'रेफरल',
+    'incident.editTitle': 'घटना संपादित करा',
+    'incident.saveChanges': 'बदल जतन करा',
+    'incident.status.open': 'उघडी',
+    'incident.status.under_treatment': 'उपचार सुरू',
+    'incident.status.referred': 'रेफर केले',
+    'incident.status.discharged': 'डिस्चार्ज',
+    'incident.status.deceased': 'मृत',
+    'incident.status.left_against_advice': 'सल्ल्याविरुद्ध गेले',
+    'lifecycle.edit': 'संपादित करा',
+    'lifecycle.changeStatus': 'स्थिती बदला…',
+    'lifecycle.notePlaceholder': 'टीप (ऐच्छिक)',
+    'lifecycle.apply': 'लागू करा',
+    'lifecycle.conflict': 'दुसऱ्या कोणीतरी ही घटना अपडेट केली आहे. ती पुन्हा लोड केली आहे; कृपया तपासा आणि पुन्हा प्रयत्न करा.',
+    'lifecycle.failed': 'घटना अपडेट झाली नाही: {message}',
+    'referral.title': 'रेफर करा',
+    'referral.from': '{center} कडून',
+    'referral.to': 'स्वीकारणारे केंद्र',
+    'referral.transport': 'वाहतूक',
+    'referral.transport.ambulance': 'रुग्णवाहिका',
+    'referral.transport.private_vehicle': 'खाजगी वाहन',
+    'referral.transport.on_foot': 'पायी',
+    'referral.transport.other': 'इतर',
+    'referral.handoverNotes': 'हस्तांतरण टीप',
+    'referral.handoverPlaceholder': 'स्थिती, दिलेले उपचार, रेफर करण्याचे कारण',
+    'referral.submit': 'रेफरल पाठवा',
+    'referral.failed': 'रेफर झाले नाही: {message}',
+    'referral.line': '{from} → {to}',
+    'referral.status.pending': 'प्रलंबित',
+    'referral.status.accepted': 'स्वीकारले',
+    'referral.status.rejected': 'नाकारले',
+    'referral.status.all': 'सर्व',
+    'referral.pageTitle': 'रेफरल रांग',
+    'referral.pageDesc': 'तुमच्या वैद्यकीय केंद्राकडे व तेथून रेफर केलेले रुग्ण',
+    'referral.center': 'वैद्यकीय केंद्र',
+    'referral.inbound': 'येणारे',
+    'referral.outbound': 'जाणारे',
+    'referral.statusFilter': 'रेफरल स्थिती',
+    'referral.refresh': 'रिफ्रेश',
+    'referral.empty': 'रेफरल नाहीत',
+    'referral.unknownPatient': 'अज्ञात रुग्ण',
+    'referral.minutesAgo': '{minutes} मिनिटांपूर्वी',
+    'referral.by': '{name} यांनी रेफर केले',
+    'referral.accept': 'स्वीकारा',
+    'referral.reject': 'नाकारा',
+    'referral.acceptNotes': 'आगमनाची टीप (ऐच्छिक)',
+    'referral.rejectReason': 'नाकारण्याचे कारण',
+    'referral.respondFailed': 'प्रतिसाद देता आला नाही: {message}',
+    'referral.notYourCenter': 'हा रेफरल दुसऱ्या केंद्रासाठी आहे. फक्त तिथे नेमलेले कर्मचारीच प्रतिसाद देऊ शकतात.',
+    'audit.action.incident.update': 'घटना अपडेट केली',
+    'audit.action.incident.referral': 'रेफरल',
+
+    // Follow-ups
+    'nav.followUps': 'फॉलो-अप',
+    'audit.action.incident.follow_up': 'फॉलो-अप',
+    'followUp.pageTitle': 'फॉलो-अप',
+    'followUp.pageDesc': 'आज परत बोलावलेले रुग्ण आणि ज्यांचा फॉलो-अप चुकला',
+    'followUp.recordingVisit': 'फॉलो-अप भेट नोंदवली जात आहे. जतन केल्यावर नियोजित फॉलो-अप पूर्ण मानला जाईल.',
+    'followUp.dueAt': 'फॉलो-अपची तारीख',
+    'followUp.center': 'फॉलो-अप केंद्र',
+    'followUp.sameCenter': 'हेच केंद्र',
+    'followUp.allCenters': 'सर्व केंद्रे',
+    'followUp.unscheduled': 'फॉलो-अप आवश्यक — तारीख ठरलेली नाही',
+    'followUp.dueOn': 'फॉलो-अप {date} रोजी',
+    'followUp.overdueSince': '{date} पासून थकीत',
+    'followUp.completedOn': 'फॉलो-अप {date} रोजी पूर्ण',
+    'followUp.cancelled': 'फॉलो-अप रद्द',
+    'followUp.recordVisit': 'फॉलो-अप भेट नोंदवा',
+    'followUp.schedule': 'ठरवा',
+    'followUp.reschedule': 'पुन्हा ठरवा',
+    'followUp.cancel': 'फॉलो-अप रद्द करा',
+    'followUp.cancelReason': 'फॉलो-अप रद्द करण्याचे कारण',
+    'followUp.save': 'जतन करा',
+    'followUp.linkExisting': 'विद्यमान फॉलो-अप भेट जोडा…',
+    'followUp.markCompleted': 'पूर्ण म्हणून चिन्हांकित करा',
+    'followUp.linkedVisit': 'आधीच्या घटनेची फॉलो-अप भेट',
+    'followUp.failed': 'फॉलो-अप अद्ययावत करता आला नाही: {message}',
+    'followUp.missedTitle': 'चुकलेले फॉलो-अप ({count})',
+    'followUp.noneMissed': 'कोणताही फॉलो-अप चुकलेला नाही',
+    'followUp.emergencyContact': 'आपत्कालीन: {name} {phone}',
+    'followUp.today': 'आज देय ({count})',
+    'followUp.upcoming': 'पुढील 7 दिवस',
+    'followUp.empty': 'कोणताही फॉलो-अप देय नाही',
+
+    // Coded medical lists
+    'reg.conditionsSearch': 'इतर आजार शोधा…',
+    'terms.uncoded': 'शब्दसंग्रहात नाही; लिहिल्याप्रमाणे जतन',
+    'terms.remove': '{name} काढा',
+
+    // Prescription interaction checks
+    'interactions.checking': 'ॲलर्जी आणि चालू औषधांशी तपासणी सुरू आहे…',
+    'interactions.blockingTitle': 'कारणाशिवाय हे औषध लिहू नका',
+    'interactions.warningTitle': 'औषध लिहिण्यापूर्वी तपासा',
+    'interactions.alreadyTaking': '{name} (आधीच घेत आहेत)',
+    'interactions.allergyTo': '{name} ची ॲलर्जी',
+    'interactions.overrideReason': 'तरीही औषध लिहिण्याचे कारण',
+    'interactions.overridePlaceholder': 'उदा.: ॲलर्जी सौम्य पुरळ होती; फायदा जोखमीपेक्षा जास्त, रुग्ण निरीक्षणाखाली',
+    'interactions.overrideRequired': 'चेतावणी डावलण्याचे कारण लिहा, किंवा औषध बदला.',
+    'interactions.blocked': 'हे औषध भक्ताच्या ॲलर्जी किंवा औषधांशी जुळत नाही. चेतावण्या पहा आणि डावलण्याचे कारण लिहा.',
+    'interactions.overridden': '{name} यांनी चेतावणी डावलली:',
+    'audit.action.incident.prescription_override': 'औषध चेतावणी डावलली',
+    'audit.action.incident.prescription_flagged': 'ऑफलाइन सिंकनंतर औषध पुनरावलोकनासाठी चिन्हांकित',
+    'audit.action.incident.prescription_review': 'चिन्हांकित औषधाचे पुनरावलोकन केले',
+    'interactions.reviewPending': 'या चेतावण्या असूनही ऑफलाइन नोंदवले; डॉक्टरांचे पुनरावलोकन आवश्यक:',
+    'interactions.reviewed': '{name} यांनी चिन्हांकित औषधाचे पुनरावलोकन केले:',
+    'interactions.markReviewed': 'पुनरावलोकन झाले',
+    'interactions.reviewNote': 'या औषधाबाबत काय केले?',
+    'interactions.reviewFailed': 'पुनरावलोकन नोंदवता आले नाही: {message}',
+
+    // Syndromic surveillance
+    'nav.surveillance': 'देखरेख',
+    'surveillance.pageTitle': 'साथरोग देखरेख',
+    'surveillance.pageDesc': 'लक्षण-गटानुसार घटना, प्रत्येक केंद्र व सेक्टरच्या अलीकडच्या सरासरीशी तुलना',
+    'surveillance.scope.center': 'केंद्र',
+    'surveillance.scope.sector': 'सेक्टर',
+    'surveillance.window': 'कालावधी',
+    'surveillance.hours': '{count} तास',
+    'surveillance.alertsTitle': 'साथ अलर्ट ({count})',
+    'surveillance.noAlerts': 'कोणताही साथ अलर्ट नाही',
+    'surveillance.alertSince': '{date} पासून',
+    'surveillance.observedExpected': '{observed} रुग्ण, अपेक्षित {expected}',
+    'surveillance.peak': 'कमाल {count}',
+    'surveillance.acknowledgedBy': '{name} यांनी स्वीकारले',
+    'surveillance.viewCases': 'रुग्ण पहा',
+    'surveillance.acknowledge': 'स्वीकारा',
+    'surveillance.dismiss': 'फेटाळा',
+    'surveillance.dismissPrompt': 'हा अलर्ट का फेटाळला जात आहे?',
+    'surveillance.reviewFailed': 'अलर्ट अद्ययावत झाला नाही: {message}',
+    'surveillance.signalsTitle': 'सध्याचा कालावधी',
+    'surveillance.currentWindow': '{range} दरम्यानचे रुग्ण',
+    'surveillance.noSignals': 'या कालावधीत कोणतेही रुग्ण नाहीत',
+    'surveillance.syndromeColumn': 'लक्षण-गट',
+    'surveillance.trend': 'कल',
+    'surveillance.cases': 'रुग्ण',
+    'surveillance.expected': 'अपेक्षित',
+    'surveillance.alert': 'अलर्ट',
+    'surveillance.noSector': 'सेक्टर नाही',
+    'surveillance.noCases': 'कोणतीही घटना सापडली नाही',
+    'surveillance.methodHelp': 'EARS C1 आणि C2 मागील 7 कालावधींपेक्षा 3 मानक विचलनांनी जास्त असलेला कालावधी दर्शवतात (C2 सर्वात अलीकडचे 2 वगळतो); C3 सलग 3 कालावधींची वाढ पकडतो. अलर्टसाठी किमान 3 रुग्ण लागतात.',
+    'surveillance.syndrome.gi': 'पोट व आतडे',
+    'surveillance.syndrome.heat': 'उष्णतेचा आजार',
+    'surveillance.syndrome.respiratory': 'श्वसन',
+    'surveillance.syndrome.injury': 'दुखापत',
+    'surveillance.syndrome.cardiac': 'हृदय',
+    'surveillance.syndrome.fever': 'ताप',
+
+    // high risk pagination
+    'highRisk.searchPlaceholder': 'नाव किंवा नोंदणी क्रमांकाने शोधा',
+    'highRisk.page': 'पृष्ठ {page} / {pages} ({total} भाविक)',
+    'highRisk.prevPage': 'मागील पृष्ठ',
+    'highRisk.nextPage': 'पुढील पृष्ठ',
+
+    // risk models
+    'nav.riskModels': 'जोखीम मॉडेल',
+    'highRisk.modelVersion': 'जोखीम मॉडेल v{version} ने मोजले',
+    'highRisk.simulatedWeather': 'पर्यावरणीय जोखीम बनावट (डेमो) हवामानावरून मोजली आहे',
+    'highRisk.whyScore': 'हा स्कोअर का',
+    'highRisk.scoredWith': 'जोखीम मॉडेल v{version}',
+    'riskModels.pageTitle': 'जोखीम मॉडेल',
+    'riskModels.pageDesc': 'जोखीम भार, श्रेणी आणि मर्यादा समायोजित करा, परिणाम पाहा, मग नवी आवृत्ती सक्रिय करा',
+    'riskModels.versions': 'आवृत्त्या',
+    'riskModels.status.draft': 'मसुदा',
+    'riskModels.status.active': 'सक्रिय',
+    'riskModels.status.retired': 'निवृत्त',
+    'riskModels.activatedAt': '{date} रोजी सक्रिय',
+    'riskModels.name': 'मॉडेलचे नाव',
+    'riskModels.notesPlaceholder': 'काय बदलले आणि का',
+    'riskModels.save': 'मसुदा जतन करा',
+    'riskModels.activate': 'सक्रिय करा',
+    'riskModels.discard': 'काढून टाका',
+    'riskModels.newDraft': 'या आवृत्तीवरून नवा मसुदा',
+    'riskModels.draftName': 'v{version} वर आधारित मसुदा',
+    'riskModels.saveBeforeActivate': 'सक्रिय करण्यापूर्वी मसुदा जतन करा',
+    'riskModels.saveFailed': 'जोखीम मॉडेल जतन झाले नाही: {message}',
+    'riskModels.activateFailed': 'जोखीम मॉडेल सक्रिय झाले नाही: {message}',
+    'riskModels.previewFailed': 'पूर्वावलोकन चालले नाही: {message}',
+    'riskModels.discardConfirm': 'मसुदा v{version} काढून टाकायचा?',
+    'riskModels.activateConfirm': 'v{version} सक्रिय करायचे? सर्व भाविकांचा जोखीम यानुसार पुन्हा मोजला जाईल.',
+    'riskModels.thresholds': 'जोखीम स्तर मर्यादा',
+    'riskModels.threshold.moderate': 'मध्यम, यापासून',
+    'riskModels.threshold.high': 'उच्च, यापासून',
+    'riskModels.threshold.critical': 'गंभीर, यापासून',
+    'riskModels.ageBands': 'वय श्रेणी',
+    'riskModels.crowdBands': 'गर्दी श्रेणी',
+    'riskModels.unit.years': 'वर्षे',
+    'riskModels.unit.devotees': 'भाविक',
+    'riskModels.addBand': 'श्रेणी जोडा',
+    'riskModels.bandMin': 'पासून ({unit})',
+    'riskModels.bandMax': 'पेक्षा कमी ({unit})',
+    'riskModels.points': 'गुण',
+    'riskModels.remove': 'काढा',
+    'riskModels.cap': 'कमाल गुण',
+    'riskModels.conditionWeights': 'दीर्घकालीन आजार भार',
+    'riskModels.addCondition': 'आजार जोडा',
+    'riskModels.code': 'ICD-10 कोड',
+    'riskModels.label': 'नाव',
+    'riskModels.defaultPoints': 'इतर आजारांचे गुण',
+    'riskModels.multiplier': '2+ आजारांसाठी गुणक',
+    'riskModels.environmental': 'हवामान',
+    'riskModels.temperature': 'तापमान',
+    'riskModels.humidity': 'आर्द्रता',
+    'riskModels.aqi': 'हवेची गुणवत्ता',
+    'riskModels.recommendations': 'शिफारस नियम',
+    'riskModels.addRule': 'नियम जोडा',
+    'riskModels.when': 'जेव्हा',
+    'riskModels.component.total': 'एकूण स्कोअर',
+    'riskModels.component.age': 'वय गुण',
+    'riskModels.component.medical': 'वैद्यकीय गुण',
+    'riskModels.component.environmental': 'हवामान गुण',
+    'riskModels.component.crowd': 'गर्दी गुण',
+    'riskModels.messagesPlaceholder': 'प्रत्येक ओळीत एक शिफारस',
+    'riskModels.defaultRecommendations': 'कोणताही नियम लागू नसल्यास',
+    'riskModels.previewTitle': 'काय-जर पूर्वावलोकन',
+    'riskModels.previewDesc': 'या कॉन्फिगने यादृच्छिक नमुन्याचे पुन्हा मूल्यांकन करा आणि सक्रिय मॉडेलशी तुलना करा',
+    'riskModels.sampleSize': 'नमुना आकार',
+    'riskModels.runPreview': 'पूर्वावलोकन',
+    'riskModels.previewSummary': '{sample} पैकी {changed} भाविकांचा जोखीम स्तर बदलेल',
+    'riskModels.level': 'स्तर',
+    'riskModels.currentModel': 'सक्रिय (v{version})',
+    'riskModels.draftModel': 'हे कॉन्फिग',
+    'riskModels.levels.Critical': 'गंभीर',
+    'riskModels.levels.High': 'उच्च',
+    'riskModels.levels.Moderate': 'मध्यम',
+    'riskModels.levels.Low': 'कमी',
+    'riskModels.examples': 'सर्वात मोठे बदल',
+
+    // risk incidents
+    'riskModels.component.incidents': 'घटना इतिहास गुण',
+    'riskModels.incidents': 'अलीकडील घटनांचा इतिहास',
+    'riskModels.incidentsDesc': 'कालावधीतील प्रत्येक भेट गुण जोडते जे प्रत्येक अर्ध-आयुष्याला निम्मे होतात; प्रलंबित फॉलो-अप कितीही जुने असले तरी गुण जोडतात.',
+    'riskModels.incidentPoints': '{type} भेट',
+    'riskModels.windowHours': 'कालावधी (तास)',
+    'riskModels.halfLifeHours': 'अर्ध-आयुष्य (तास)',
+    'riskModels.pendingFollowUpPoints': 'प्रत्येक प्रलंबित फॉलो-अप',
+    'riskModels.incidentsDefault': 'ही आवृत्ती घटना इतिहास मोजण्यापूर्वी जतन केली होती, म्हणून ती या डीफॉल्ट सेटिंग्जने इतिहास मोजते.',
+
+    // Live alerts
+    'live.topic.risk.critical': 'गंभीर धोका',
+    'live.topic.incident.created': 'रेड ट्रायज',
+    'live.topic.incident.prescription_review': 'औषध पुनरावलोकन',
+    'live.topic.lost_person.reported': 'हरवलेले मूल',
+    'live.topic.face.match': 'चेहरा जुळणी',
+    'live.topic.weather.alert': 'हवामान इशारा',
+    'live.riskCritical': '{count} भाविक गंभीर धोक्यात: {names}',
+    'live.incidentRed': '{center} येथे रेड ट्रायज {type} प्रकरण',
+    'live.prescriptionReview': '{center} येथील ऑफलाइन प्रकरण गंभीर औषध चेतावणीसह सिंक झाले: {reasons}',
+    'live.missingChild': '{name}, वय {age}, हरवल्याची नोंद',
+    'live.faceMatch': '{name} साठी {count} संभाव्य जुळण्या',
+    'live.weather.heat': 'उष्णतेचा इशारा: {temp}°C.',
+    'live.weather.air_quality': 'खराब हवा गुणवत्ता: AQI {aqi}.',
+    'live.mute': 'आवाज बंद',
+    'live.unmute': 'आवाज सुरू',
+    'live.dismissAll': 'सर्व काढा',
+    'live.incidentFeed': 'नोंद होताच घटना',
+    'live.noIncidents': 'हे पान उघडल्यापासून नवीन घटना नाहीत',
+
+    // Manual weather readings
+    'weatherReading.title': 'हवामान रीडिंग नोंदवा',
+    'weatherReading.sector': 'विभाग',
+    'weatherReading.temp': 'तापमान (°C)',
+    'weatherReading.humidity': 'आर्द्रता (%)',
+    'weatherReading.feelsLike': 'जाणवणारे (°C)',
+    'weatherReading.aqi': 'AQI',
+    'weatherReading.uv': 'UV निर्देशांक',
+    'weatherReading.optionalHint': 'जे मोजता आले नाही ते रिकामे ठेवा; ते हवामान सेवेकडून भरले जाईल.',
+    'weatherReading.notes': 'टीप',
+    'weatherReading.submit': 'रीडिंग जतन करा',
+    'weatherReading.failed': 'रीडिंग जतन करता आले नाही: {message}',
+
+    // Heat plan
+    'heatPlan.title': 'उष्णता ताण अंदाज, {location}',
+    'heatPlan.simulated': 'बनावट (डेमो) अंदाज — यावरून तैनातीचे नियोजन करू नका.',
+    'heatPlan.snanDay': '{name} ({date})',
+    'heatPlan.temp': 'तापमान',
+    'heatPlan.heatIndex': 'हीट इंडेक्स',
+    'heatPlan.wbgt': 'WBGT',
+    'heatPlan.noWindows': 'पुढील 48 तासांत जास्त उष्णता ताण अपेक्षित नाही.',
+    'heatPlan.level.high': 'जास्त उष्णता ताण',
+    'heatPlan.level.extreme': 'अत्यंत उष्णता ताण',
+    'heatPlan.peak': '{time} ला शिखर: WBGT {wbgt}°C, हीट इंडेक्स {heatIndex}°C',
+    'heatPlan.snanWindow': '{name}: खूप मोठी गर्दी अपेक्षित',
+    'heatPlan.waterPoints': '+{count} पाणी केंद्रे',
+    'heatPlan.medicalStaff': '+{count} वैद्यकीय कर्मचारी',
+    'heatPlan.coolingStations': '+{count} कूलिंग स्टेशन',
+    'heatPlan.failed': 'अंदाज लोड करता आला नाही: {message}',
+
+    // Family and travel groups
+    'group.mode.individual': 'वैयक्तिक',
+    'group.mode.group': 'कुटुंब / गट',
+    'group.details': 'गटाचा तपशील',
+    'group.name': 'गटाचे नाव',
+    'group.type': 'गटाचा प्रकार',
+    'group.type.family': 'कुटुंब',
+    'group.type.village': 'गावाचा गट',
+    'group.type.tour': 'टूर बॅच',
+    'group.operatorName': 'टूर ऑपरेटर',
+    'group.operatorPhone': 'ऑपरेटरचा फोन',
+    'group.contactPhone': 'गट संपर्क फोन',
+    'group.address': 'घरचा पत्ता',
+    'group.address.line': 'घर / गल्ली',
+    'group.address.village': 'गाव / शहर',
+    'group.address.district': 'जिल्हा',
+    'group.address.state': 'राज्य',
+    'group.address.pincode': 'पिन कोड',
+    'group.notes': 'नोंद',
+    'group.members': 'सदस्य ({count})',
+    'group.membersHint': 'वरील संपर्क आणि पत्ता सर्व सदस्यांसाठी आहे. सदस्याचा फोन रिकामा ठेवल्यास गटाचा फोन वापरला जाईल; संपूर्ण वैद्यकीय इतिहास नंतर प्रोफाइलमधून जोडता येईल.',
+    'group.addMember': 'सदस्य जोडा',
+    'group.removeMember': 'सदस्य {number} काढा',
+    'group.takePhoto': 'फोटो घ्या',
+    'group.relationship': 'प्रमुखाशी नाते',
+    'group.relationship.self': 'प्रमुख',
+    'group.relationship.spouse': 'पती / पत्नी',
+    'group.relationship.parent': 'आई / वडील',
+    'group.relationship.child': 'मूल',
+    'group.relationship.sibling': 'भाऊ / बहीण',
+    'group.relationship.grandparent': 'आजी / आजोबा',
+    'group.relationship.grandchild': 'नातू / नात',
+    'group.relationship.relative': 'नातेवाईक',
+    'group.relationship.neighbour': 'शेजारी',
+    'group.relationship.friend': 'मित्र',
+    'group.relationship.other': 'इतर',
+    'group.memberPhone': 'स्वतःचा फोन',
+    'group.leader': 'गट प्रमुख',
+    'group.memberIncomplete': 'प्रत्येक सदस्याचे नाव आणि वय आवश्यक आहे.',
+    'group.submit': '{count} सदस्यांची नोंदणी करा',
+    'group.failed': 'गट नोंदणी अयशस्वी: {message}',
+    'group.registered': '{name} नोंदणीकृत',
+    'group.number': 'गट क्रमांक: {number}',
+    'group.registerAnother': 'दुसऱ्या गटाची नोंदणी करा',
+    'group.travellingWith': '{name} सोबत प्रवास',
+    'group.leaderPhone': 'प्रमुख {name}',
+    'group.operator': 'टूर ऑपरेटर: {name} ({phone})',
+    'group.noOtherMembers': 'या गटात इतर कोणी सदस्य नाहीत.',
+    'lost.reported.title': 'तक्रार नोंदवली',
+    'lost.reported.groupHint': '{name} एका गटासोबत नोंदणीकृत आहेत. आत्ताच प्रमुखाला किंवा दुसऱ्या सदस्याला फोन करा.',
+    'lost.reported.done': 'ठीक आहे',
+    'lost.suggested.hint': 'हा चेहरा एका नोंदणीकृत भाविकासारखा दिसतो. खात्री करण्यापूर्वी फोटो आणि तपशील जुळवा: त्यांच्या गटाचे फोन नंबर खात्रीनंतरच दिसतील.',
+    'lost.suggested.reported': 'आत्ता नोंदवलेले',
+    'lost.suggested.registered': 'नोंदणीकृत ({number})',
+    'lost.suggested.similarity': 'चेहरा साम्य {percent}%',
+    'lost.suggested.confirm': 'हीच व्यक्ती',
+    'lost.suggested.dismiss': 'ही व्यक्ती नाही',
+    'lost.suggested.failed': 'तुमचे उत्तर जतन करता आले नाही: {message}',
+
+    // duplicate detection and merges
+    'duplicates.title': 'कदाचित आधीच नोंदणीकृत',
+    'duplicates.desc': 'या नोंदी त्याच व्यक्तीच्या वाटतात. तीच व्यक्ती असल्यास विद्यमान नोंद वापरा, अन्यथा तरीही नोंदणी करा.',
+    'duplicates.confidence.likely': 'संभाव्य जुळणी',
+    'duplicates.confidence.possible': 'शक्य जुळणी',
+    'duplicates.reason.face': 'सारखा चेहरा',
+    'duplicates.reason.phone': 'एकच फोन',
+    'duplicates.reason.name_age_gender': 'मिळते-जुळते नाव, वय आणि लिंग',
+    'duplicates.useExisting': 'ही नोंद वापरा',
+    'duplicates.registerAnyway': 'वेगळी व्यक्ती, तरीही नोंदणी करा',
+    'duplicates.alreadyRegistered': '{name} आधीच नोंदणीकृत आहेत',
+    'duplicates.alreadyRegisteredHint': 'नवीन नोंदणी तयार केली नाही. नोंद पाहण्यासाठी किंवा अद्ययावत करण्यासाठी हा नोंदणी क्रमांक शोधा.',
+    'duplicates.backToForm': 'फॉर्मवर परत',
+    'nav.merges': 'विलीनीकरण',
+    'merge.pageTitle': 'दुहेरी नोंदी',
+    'merge.pageDesc': 'दुहेरी नोंदणी ठेवायच्या नोंदीत विलीन करा. प्रत्येक विलीनीकरण पूर्ववत करता येते.',
+    'merge.duplicate': 'दुहेरी (निवृत्त केली जाईल)',
+    'merge.keep': 'ठेवायची नोंद',
+    'merge.search': 'शोधा',
+    'merge.searchPlaceholder': 'नाव किंवा नोंदणी क्रमांक',
+    'merge.searchFailed': 'शोध अयशस्वी: {message}',
+    'merge.registeredOn': 'नोंदणी',
+    'merge.findDuplicates': '{name} च्या संभाव्य दुहेरी नोंदी शोधा',
+    'merge.noSuggestions': 'संभाव्य दुहेरी नोंद आढळली नाही.',
+    'merge.selectDuplicate': 'दुहेरी म्हणून निवडा',
+    'merge.reason': 'कारण (ऐच्छिक)',
+    'merge.submit': 'नोंदी विलीन करा',
+    'merge.hint': 'दुहेरी नोंदीच्या घटना, वैद्यकीय इतिहास आणि गट सदस्यत्व ठेवलेल्या नोंदीकडे जाते. तिचा नोंदणी क्रमांक पर्यायी नाव म्हणून चालू राहतो.',
+    'merge.confirm': '{retired} ला {survivor} मध्ये विलीन करायचे? दुहेरी नोंद निवृत्त केली जाईल.',
+    'merge.failed': 'विलीनीकरण अयशस्वी: {message}',
+    'merge.history': 'अलीकडील विलीनीकरणे',
+    'merge.noHistory': 'अद्याप कोणतीही नोंद विलीन केलेली नाही.',
+    'merge.by': '{name}, {date}',
+    'merge.reverted': 'पूर्ववत',
+    'merge.revert': 'पूर्ववत करा',
+    'merge.revertConfirm': 'हे विलीनीकरण पूर्ववत करून {retired} स्वतंत्र नोंद म्हणून परत आणायची?',
+    'merge.revertFailed': 'विलीनीकरण पूर्ववत झाले नाही: {message}',
+    'audit.action.devotee.merge': 'दुहेरी नोंद विलीन केली',
+    'audit.action.devotee.unmerge': 'नोंद विलीनीकरण पूर्ववत केले',
+
+    // bulk import
+    'nav.import': 'आयात',
+    'import.pageTitle': 'एकत्रित आयात',
+    'import.pageDesc': 'टूर ऑपरेटर किंवा राज्य परिवहनाच्या स्प्रेडशीटमधून यात्रेकरूंची एकत्र नोंदणी करा.',
+    'import.uploadHint': 'शीर्ष ओळ आणि प्रत्येक ओळीत एक यात्रेकरू असलेली CSV किंवा Excel (.xlsx) फाइल. फक्त पहिली शीट वाचली जाते.',
+    'import.upload': 'अपलोड करा',
+    'import.uploadFailed': 'अपलोड अयशस्वी: {message}',
+    'import.status.uploading': 'फाइल वाचली जात आहे',
+    'import.status.uploaded': 'मॅपिंग बाकी',
+    'import.status.validating': 'ओळी तपासल्या जात आहेत',
+    'import.status.validated': 'आयातासाठी तयार',
+    'import.status.importing': 'आयात होत आहे',
+    'import.status.completed': 'पूर्ण',
+    'import.status.failed': 'अयशस्वी',
+    'import.status.cancelled': 'रद्द',
+    'import.rows': '{count} ओळी',
+    'import.importedCount': '{count} नोंदणीकृत',
+    'import.resume': 'पुन्हा सुरू करा',
+    'import.cancel': 'आयात रद्द करा',
+    'import.cancelConfirm': 'हा आयात रद्द करायचा? आधीच नोंदणी झालेल्या ओळी नोंदणीकृत राहतील.',
+    'import.failedWith': 'त्रुटीमुळे थांबले: {message}. जिथे थांबले तिथून पुढे जाण्यासाठी पुन्हा सुरू करा.',
+    'import.mapping': 'स्तंभ मॅपिंग',
+    'import.field': 'क्षेत्र',
+    'import.column': 'फाइलमधील स्तंभ',
+    'import.example': 'पहिली ओळ',
+    'import.default': 'डीफॉल्ट मूल्य',
+    'import.defaultPlaceholder': 'रिकामे असल्यास वापरले जाते',
+    'import.notMapped': 'फाइलमध्ये नाही',
+    'import.field.full_name': 'पूर्ण नाव',
+    'import.field.age': 'वय',
+    'import.field.gender': 'लिंग',
+    'import.field.phone': 'फोन',
+    'import.field.emergency_contact_name': 'आपत्कालीन संपर्काचे नाव',
+    'import.field.emergency_contact_phone': 'आपत्कालीन संपर्क फोन',
+    'import.field.blood_group': 'रक्तगट',
+    'import.field.height_cm': 'उंची (सेमी)',
+    'import.field.weight_kg': 'वजन (किलो)',
+    'import.field.allergies': 'ॲलर्जी',
+    'import.field.chronic_conditions': 'दीर्घकालीन आजार',
+    'import.field.current_medications': 'सध्याची औषधे',
+    'import.field.past_surgeries': 'पूर्वीच्या शस्त्रक्रिया',
+    'import.field.special_notes': 'टीप',
+    'import.dryRun': 'ओळी तपासा (ड्राय रन)',
+    'import.rowStatus.invalid': 'त्रुटी असलेल्या',
+    'import.rowStatus.duplicate': 'संशयित दुहेरी',
+    'import.rowStatus.valid': 'तयार',
+    'import.rowStatus.imported': 'नोंदणीकृत',
+    'import.noRows': 'या यादीत एकही ओळ नाही.',
+    'import.row': 'ओळ',
+    'import.details': 'तपशील',
+    'import.repeatOf': 'ओळ {row} मधीलच व्यक्ती',
+    'import.previous': 'मागील',
+    'import.next': 'पुढील',
+    'import.page': 'पान {page} / {pages}',
+    'import.includeDuplicates': '{count} संशयित दुहेरी नोंदीही नोंदवा',
+    'import.start': '{count} यात्रेकरूंची नोंदणी करा',
+    'import.startConfirm': 'या फाइलमधून {count} यात्रेकरूंची नोंदणी करायची?',
+    'import.download': 'नोंदणी क्रमांक डाउनलोड करा',
+    'import.recent': 'अलीकडील आयात',
+    'import.noJobs': 'अद्याप कोणतीही फाइल आयात केलेली नाही.',
+
+    // Data exports
+    'nav.exports': 'निर्यात',
+    'audit.action.devotee.export': 'FHIR म्हणून निर्यात केले',
+    'profile.fhirExport': 'FHIR नोंद डाउनलोड करा',
+    'profile.fhirExportFailed': 'FHIR नोंद निर्यात करता आली नाही: {message}',
+    'export.pageTitle': 'डेटा निर्यात',
+    'export.pageDesc': 'अहवालासाठी भाविक, वैद्यकीय नोंदी किंवा घटना डाउनलोड करा. प्रत्येक निर्यात नोंदवली जाते.',
+    'export.dataset': 'डेटा',
+    'export.datasets.devotees': 'भाविक',
+    'export.datasets.medical_records': 'वैद्यकीय नोंदी',
+    'export.datasets.incidents': 'घटना',
+    'export.datasets.fhir': 'FHIR नोंद',
+    'export.format': 'फॉरमॅट',
+    'export.formats.csv': 'CSV',
+    'export.formats.xlsx': 'Excel (XLSX)',
+    'export.formats.fhir+json': 'FHIR JSON',
+    'export.from': 'पासून',
+    'export.to': 'पर्यंत',
+    'export.center': 'वैद्यकीय केंद्र',
+    'export.allCenters': 'सर्व केंद्रे',
+    'export.riskLevel': 'धोका पातळी',
+    'export.hint.devotees': 'तारखा नोंदणी तारखेला लागू होतात. केंद्र निवडल्यास फक्त तिथे पाहिलेले भाविक येतात.',
+    'export.hint.medical_records': 'तारखा नोंदणी तारखेला लागू होतात. केंद्र निवडल्यास फक्त तिथे पाहिलेले भाविक येतात.',
+    'export.hint.incidents': 'तारखा घटनेच्या तारखेला लागू होतात. केंद्रात तिथे स्वीकारलेले रेफरलही येतात.',
+    'export.download': 'डाउनलोड',
+    'export.log': 'निर्यात लॉग',
+    'export.noLogs': 'अजून काहीही निर्यात झालेले नाही.',
+    'export.noFilters': 'फिल्टर नाहीत',
+    'export.rows': '{count} ओळी',
+    'export.incomplete': 'अपूर्ण',
+
+    // ABHA number and FHIR pre-fill
+    'prefill.abhaNumber': 'ABHA क्रमांक (असल्यास)',
+    'prefill.abhaFormat': '14 अंक, उदा. 91-1234-5678-9012',
+    'prefill.fetchAbdm': 'आरोग्य नोंदी आणा',
+    'prefill.uploadFhir': 'FHIR फाइल अपलोड करा',
+    'prefill.hint': 'फॉर्म भरण्यासाठी ABHA क्रमांकाशी जोडलेल्या नोंदी आणा किंवा FHIR डिस्चार्ज सारांश अपलोड करा. नोंदणीपूर्वी प्रत्येक माहिती यात्रेकरूकडून तपासा.',
+    'prefill.doneAbdm': 'ABDM आरोग्य नोंदींमधून भरले. प्रत्येक माहिती यात्रेकरूकडून तपासा.',
+    'prefill.doneFile': 'FHIR फाइलमधून भरले. प्रत्येक माहिती यात्रेकरूकडून तपासा.',
+    'prefill.failed': 'आरोग्य नोंदी वाचता आल्या नाहीत: {message}',
+    'prefill.notJson': 'फाइल JSON नाही',
+    'prefill.consent': 'नोंदी आणण्याची संमती कोणी दिली…',
+    'prefill.consentPilgrim': 'यात्रेकरूने',
+    'prefill.consentGuardian': 'यात्रेकरूच्या वतीने नातेवाइकाने',
+    'prefill.clinicalWithheld': 'आरोग्य माहिती भरली नाही कारण तुमची भूमिका वैद्यकीय नोंदी वाचू शकत नाही. डॉक्टर किंवा परिचारिका ती जोडू शकतात.',
+    'duplicates.reason.abha': 'एकच ABHA क्रमांक',
+    'profile.abha': 'ABHA:',
   },
 };
 
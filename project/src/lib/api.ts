@@ -1,9 +1,78 @@
+import {
+  cacheProfile,
+  clearCachedProfiles,
+  createIdempotencyKey,
+  createTempId,
+  deleteMutation,
+  enqueueMutation,
+  getCachedProfile,
+  isTempId,
+  listCachedProfiles,
+  listMutations,
+  MutationKind,
+  putMutation,
+  QueuedMutation,
+  resolveTempId,
+  saveIdMapping,
+} from './offlineStore';
+
 const API_BASE = import.meta.env.VITE_API_URL || (import.meta.env.PROD ? '/api' : 'http://localhost:4000/api');
 
+const TOKEN_STORAGE_KEY = 'kms_auth_token';
+const USER_STORAGE_KEY = 'kms_auth_user';
+
 // Simple in-memory cache for GET requests
 const cache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+// Called whenever the server rejects our session (401). A 403 only refuses that one action, so callers handle it
+let unauthorizedHandler: (() => void) | null = null;
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export function getAuthToken(): string | null {
+  return window.localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+function setAuthToken(token: string | null) {
+  if (token) {
+    window.localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+    window.localStorage.removeItem(USER_STORAGE_KEY);
+  }
+}
+
+// Last known staff profile, so a signed-in volunteer can keep working offline
+export function getCachedUser(): StaffUser | null {
+  const raw = window.localStorage.getItem(USER_STORAGE_KEY);
+  return raw ? (JSON.parse(raw) as StaffUser) : null;
+}
+
+function setCachedUser(user: StaffUser) {
+  window.localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+}
+
+// Offline reads go by the last known profile's permissions, as the server would
+const userCan = (user: StaffUser, permission: Permission) => user.permissions.includes(permission);
+
+// fetch() rejects with a TypeError when the network is unreachable
+export function isNetworkError(error: unknown) {
+  return error instanceof TypeError || !navigator.onLine;
+}
+
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
 function getCacheKey(path: string, options?: RequestInit): string | null {
   // Only cache GET requests
   if (options?.method && options.method !== 'GET') {
@@ -23,14 +92,31 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
     }
   }
 
+  const token = getAuthToken();
   const response = await fetch(`${API_BASE}${path}`, {
-    headers: { 'Content-Type': 'application/json' },
     ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...options?.headers,
+    },
   });
 
   if (!response.ok) {
     const message = await response.text();
-    throw new Error(message || 'Request failed');
+
+    if (response.status === 401) {
+      setAuthToken(null);
+      cache.clear();
+      clearCachedProfiles().catch((error) => console.error('Failed to clear offline profiles:', error));
+      unauthorizedHandler?.();
+    }
+
+    throw new ApiError(message || 'Request failed', response.status);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
   }
 
   const data = await response.json() as T;
@@ -56,6 +142,74 @@ export function clearApiCache(pathPattern?: string) {
   }
 }
 
+// Staff & auth
+export type StaffRole = 'doctor' | 'nurse' | 'registration_volunteer' | 'lost_found_desk' | 'admin';
+
+export type Permission =
+  | 'devotees:create'
+  | 'devotees:search'
+  | 'devotees:read'
+  | 'devotees:update'
+  | 'devotees:merge'
+  | 'devotees:import'
+  | 'incidents:create'
+  | 'incidents:read'
+  | 'incidents:update'
+  | 'high-risk:read'
+  | 'analytics:read'
+  | 'lost-found:report'
+  | 'lost-found:read'
+  | 'lost-found:resolve'
+  | 'face:analyze'
+  | 'audit:read'
+  | 'centers:read'
+  | 'centers:manage'
+  | 'staff:manage'
+  | 'risk-models:manage'
+  | 'weather:record'
+  | 'data:export';
+
+export type StaffUser = {
+  id: string;
+  username: string;
+  full_name: string;
+  role: StaffRole;
+  medical_center: string;
+  medical_center_id: string | null;
+  active: boolean;
+  permissions: Permission[];
+  last_login_at: string | null;
+  created_at: string;
+};
+
+export async function login(username: string, password: string) {
+  const previous = getCachedUser();
+  const result = await request<{ token: string; user: StaffUser }>('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+  cache.clear();
+  if (previous?.id !== result.user.id) {
+    await clearCachedProfiles().catch((error) => console.error('Failed to clear offline profiles:', error));
+  }
+  setAuthToken(result.token);
+  setCachedUser(result.user);
+  return result.user;
+}
+
+export function logout() {
+  setAuthToken(null);
+  cache.clear();
+  // Medical data must not outlive the session on a shared device
+  clearCachedProfiles().catch((error) => console.error('Failed to clear offline profiles:', error));
+}
+
+export async function getCurrentUser() {
+  const user = await request<StaffUser>('/auth/me', { method: 'GET' });
+  setCachedUser(user);
+  return user;
+}
+
 export type Devotee = {
   id: string;
   registration_number: string;
@@ -66,25 +220,88 @@ export type Devotee = {
 
   emergency_contact_name: string;
   emergency_contact_phone: string;
+  // Ayushman Bharat Health Account number, 91-1234-5678-9012
+  abha_number?: string | null;
+  // Signed, expiring links: the profile-sized photo and a small square thumbnail.
+  // Registrations not yet migrated out of MongoDB only have photo_url, as a data URL
   photo_url: string | null;
+  photo_thumb_url?: string | null;
   // optional, only present when using face-based search
   match_distance?: number;
   // optional, stored for future searches
   face_descriptor?: number[] | null;
+  // set on records created offline that are still waiting in the sync queue
+  pending_sync?: boolean;
+  // the family or travel group registered together, if any
+  group_id?: string | null;
+  // registration numbers of duplicate records merged into this one
+  aliases?: string[];
   created_at: string;
   updated_at: string;
 };
 
+export type GroupType = 'family' | 'village' | 'tour';
+export type GroupRelationship = 'self' | 'spouse' | 'parent' | 'child' | 'sibling' | 'grandparent' | 'grandchild'
+  | 'relative' | 'neighbour' | 'friend' | 'other';
+
+export type GroupAddress = {
+  line?: string;
+  village?: string;
+  district?: string;
+  state?: string;
+  pincode?: string;
+};
+
+export type GroupMember = {
+  id: string;
+  registration_number: string;
+  full_name: string;
+  age: number;
+  gender: Devotee['gender'];
+  phone: string;
+  photo_url: string | null;
+  photo_thumb_url?: string | null;
+  // relative to the group leader
+  relationship: GroupRelationship;
+  is_leader: boolean;
+};
+
+// Never carries medical data, so lost & found desks see it too
+export type DevoteeGroup = {
+  id: string;
+  group_number: string;
+  name: string;
+  type: GroupType;
+  contact_phone: string;
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+  address: GroupAddress | null;
+  tour_operator: { name: string; phone?: string } | null;
+  notes: string;
+  leader: { id: string; full_name: string; phone: string } | null;
+  // when looked up for one devotee, everyone except that devotee
+  members: GroupMember[];
+  created_at: string;
+};
+
+// An item of a coded medical list; code is null for free text that matched nothing in the vocabulary
+export type CodedEntry = {
+  code: string | null;
+  system: string | null;
+  display: string;
+  text: string;
+};
+
 export type MedicalRecord = {
   id: string;
   devotee_id: string;
   blood_group: 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-' | null;
   height_cm: number | null;
   weight_kg: number | null;
-  allergies: string;
-  chronic_conditions: string;
-  current_medications: string;
-  past_surgeries: string;
+  allergies: CodedEntry[];
+  chronic_conditions: CodedEntry[];
+  current_medications: CodedEntry[];
+  past_surgeries: CodedEntry[];
 
   special_notes: string;
   created_at: string;
@@ -97,6 +314,7 @@ export type LostPerson = {
   age?: number;
   gender: string;
   photo_url: string;
+  photo_thumb_url?: string;
   status: 'missing' | 'found' | 'reunited';
   contact_info?: {
     name: string;
@@ -108,6 +326,165 @@ export type LostPerson = {
   created_at?: string;
   match_similarity?: number; // Added when matching
   face_descriptor?: number[] | null;
+  pending_sync?: boolean;
+  // the registered devotee this report is about, and their group when they came with one
+  devotee_id?: string | null;
+  group?: DevoteeGroup | null;
+  // Closest registration photo, shown without contacts until the desk confirms it is the same person
+  suggested_devotee?: SuggestedDevotee | null;
+  linked_report?: LostPerson | null;
+  match_confirmation?: {
+    confirmed_by?: StaffRef;
+    confirmed_at?: string;
+    verification_method?: VerificationMethod;
+    similarity?: number;
+    notes?: string;
+  };
+  handover?: HandoverDetails & {
+    handed_over_at?: string;
+    handed_over_by?: StaffRef;
+  };
+  case_events?: {
+    event: 'reported' | 'devotee_confirmed' | 'devotee_dismissed' | 'linked' | 'unlinked' | 'reunited';
+    at: string;
+    by?: StaffRef;
+    note?: string;
+  }[];
+  age_hours?: number; // open cases only
+  hours_to_reunite?: number | null; // reunification history only
+};
+
+type StaffRef = { id: string; username: string; full_name: string };
+
+export type SuggestedDevotee = {
+  id: string;
+  registration_number: string;
+  full_name: string;
+  age?: number;
+  gender?: string;
+  photo_url?: string | null;
+  photo_thumb_url?: string;
+  similarity: number;
+};
+
+export type VerificationMethod = 'face_match' | 'photo_id' | 'family_photo' | 'personal_details' | 'other';
+
+export type HandoverDetails = {
+  guardian_name: string;
+  guardian_phone?: string;
+  relationship?: string;
+  id_proof_type: string;
+  id_proof_number: string;
+  desk?: string;
+  notes?: string;
+};
+
+export type LostFoundCases = {
+  open: LostPerson[];
+  history: LostPerson[];
+  summary: {
+    open: number;
+    missing: number;
+    found: number;
+    awaiting_handover: number;
+    reunited_24h: number;
+    median_hours_to_reunite: number | null;
+  };
+};
+
+export type TriageCategory = 'red' | 'yellow' | 'green' | 'black';
+export type StartInput = 'ambulatory' | 'respiratory_rate' | 'perfusion' | 'mental_status';
+export type News2Risk = 'low' | 'low_medium' | 'medium' | 'high';
+export type Avpu = 'A' | 'V' | 'P' | 'U';
+
+export type Vitals = {
+  pulse?: number;
+  bp_systolic?: number;
+  bp_diastolic?: number;
+  spo2?: number;
+  on_oxygen?: boolean;
+  temperature_c?: number;
+  respiratory_rate?: number;
+  gcs?: number;
+  avpu?: Avpu;
+  blood_glucose_mg_dl?: number;
+  capillary_refill_s?: number;
+  ambulatory?: boolean;
+  obeys_commands?: boolean;
+};
+
+export type VitalsObservation = Vitals & {
+  id: string;
+  recorded_at: string;
+  recorded_by: StaffRef | null;
+  // Null when START was missing an input
+  triage_category: TriageCategory | null;
+  news2_score: number;
+  news2_risk: News2Risk;
+  glucose_flag: 'hypoglycaemia' | 'hyperglycaemia' | null;
+  notes: string;
+};
+
+export type IncidentTriage = {
+  category: TriageCategory | null;
+  // What the last observation lacked for a START colour
+  start_missing?: StartInput[];
+  news2_score: number;
+  news2_risk: News2Risk;
+  news2_complete: boolean;
+  glucose_flag: VitalsObservation['glucose_flag'];
+  computed_at: string;
+};
+
+export type IncidentStatus = 'open' | 'under_treatment' | 'referred' | 'discharged' | 'deceased' | 'left_against_advice';
+export type TransportMode = 'ambulance' | 'private_vehicle' | 'on_foot' | 'other';
+
+export type Referral = {
+  id: string;
+  from_center_id: string | null;
+  from_center: string;
+  to_center_id: string;
+  to_center: string;
+  transport_mode: TransportMode;
+  handover_notes: string;
+  referred_at: string;
+  referred_by?: StaffRef;
+  status: 'pending' | 'accepted' | 'rejected';
+  responded_at?: string;
+  responded_by?: StaffRef;
+  response_notes: string;
+};
+
+export type FollowUp = {
+  due_at: string;
+  center_id: string | null;
+  center: string;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  scheduled_by?: StaffRef;
+  completed_at?: string;
+  completed_by?: StaffRef;
+  completion_incident_id: string | null;
+  cancel_reason: string;
+  overdue: boolean;
+};
+
+export type InteractionWarning = {
+  key: string;
+  type: 'allergy' | 'interaction' | 'duplicate';
+  // Blocking warnings need a written override reason before the incident can be saved
+  severity: 'blocking' | 'warning';
+  reason: string;
+  drugs: { code: string | null; display: string; source: 'prescribed' | 'current' }[];
+  allergen?: { code: string; display: string };
+};
+
+export type PrescriptionCheck = {
+  checked_at: string;
+  medications: CodedEntry[];
+  warnings: InteractionWarning[];
+  override?: { reason: string; keys: string[]; by?: StaffRef; at: string };
+  // Blocking warnings on an incident recorded offline, waiting for a clinician
+  review?: { status: 'pending' | 'reviewed'; keys: string[]; flagged_at: string; reviewed_by?: StaffRef; reviewed_at?: string; note: string };
 };
 
 export type MedicalIncident = {
@@ -117,17 +494,38 @@ export type MedicalIncident = {
   incident_type: 'Emergency' | 'Consultation' | 'Follow-up';
   symptoms: string;
   diagnosis: string;
+  // Set by the server; absent on incidents still waiting in the offline queue
+  syndromes?: Syndrome[];
   treatment_given: string;
   medications_prescribed: string;
+  prescription_check?: PrescriptionCheck;
   attending_doctor: string;
   medical_center: string;
+  medical_center_id?: string | null;
   follow_up_required: boolean;
   follow_up_notes: string;
+  follow_up?: FollowUp | null;
+  follow_up_of?: string | null;
+  // Absent on incidents still waiting in the offline queue
+  observations?: VitalsObservation[];
+  triage?: IncidentTriage | null;
+  // Lifecycle fields are also absent on queued incidents, which are implicitly open
+  status?: IncidentStatus;
+  status_history?: { status: IncidentStatus; at: string; by?: StaffRef; note: string }[];
+  referrals?: Referral[];
+  current_center_id?: string | null;
+  current_center?: string;
+  closed_at?: string;
+  version?: number;
+  pending_sync?: boolean;
   created_at: string;
+  updated_at?: string;
 };
 
 export type DevoteeWithRecord = Devotee & { medical_records: MedicalRecord | null };
 
+export type CodedEntryInput = Pick<CodedEntry, 'text'> & Partial<CodedEntry>;
+
 export type CreateDevoteePayload = {
   full_name: string;
   age: number;
@@ -136,19 +534,44 @@ export type CreateDevoteePayload = {
 
   emergency_contact_name: string;
   emergency_contact_phone: string;
+  // empty clears it on update
+  abha_number?: string;
   blood_group: MedicalRecord['blood_group'];
   height_cm: number | null;
   weight_kg: number | null;
-  allergies: string;
-  chronic_conditions: string;
-  current_medications: string;
-  past_surgeries: string;
+  // The server codes free-text items itself, so entries typed offline only need `text`
+  allergies: CodedEntryInput[];
+  chronic_conditions: CodedEntryInput[];
+  current_medications: CodedEntryInput[];
+  past_surgeries: CodedEntryInput[];
 
   special_notes: string;
   photo_url: string | null;
   face_descriptor: number[] | null;
 };
 
+export type CreateGroupMemberPayload = Pick<
+  CreateDevoteePayload,
+  'full_name' | 'age' | 'gender' | 'blood_group' | 'allergies' | 'chronic_conditions' | 'photo_url' | 'face_descriptor'
+> & {
+  // falls back to the group contact phone
+  phone?: string;
+  relationship: GroupRelationship;
+  is_leader: boolean;
+};
+
+export type CreateGroupPayload = {
+  name: string;
+  type: GroupType;
+  contact_phone: string;
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+  address: GroupAddress;
+  tour_operator?: { name: string; phone?: string };
+  notes: string;
+  members: CreateGroupMemberPayload[];
+};
+
 export type CreateIncidentPayload = {
   devotee_id: string;
   incident_type: MedicalIncident['incident_type'];
@@ -158,21 +581,130 @@ export type CreateIncidentPayload = {
   medications_prescribed: string;
   attending_doctor: string;
   medical_center: string;
+  medical_center_id?: string;
   follow_up_required: boolean;
   follow_up_notes: string;
+  follow_up_due_at?: string;
+  follow_up_center_id?: string;
+  // The incident whose scheduled follow-up this visit fulfils
+  follow_up_of?: string;
+  vitals?: Vitals & { recorded_at?: string };
+  // Acknowledges the blocking interaction warnings listed by key
+  interaction_override?: { reason: string; keys: string[] };
+};
+
+export type ObservationPayload = Vitals & { recorded_at?: string; notes?: string };
+
+export type UpdateIncidentPayload = Partial<Omit<CreateIncidentPayload,
+  'devotee_id' | 'medical_center' | 'medical_center_id' | 'vitals' | 'follow_up_due_at' | 'follow_up_center_id' | 'follow_up_of'>> & {
+  version: number;
+  status?: IncidentStatus;
+  status_note?: string;
+};
+
+export type ReferralPayload = {
+  version: number;
+  to_center_id: string;
+  transport_mode: TransportMode;
+  handover_notes: string;
+};
+
+export type ReferralQueueItem = {
+  referral: Referral;
+  incident: MedicalIncident;
+  devotee: Pick<Devotee, 'id' | 'full_name' | 'age' | 'gender' | 'registration_number' | 'phone'> | null;
+};
+
+export type ReferralQueue = {
+  center: { id: string; name: string };
+  direction: 'inbound' | 'outbound';
+  status: Referral['status'] | 'all';
+  items: ReferralQueueItem[];
+};
+
+// Photos
+export type UploadedPhoto = {
+  id: string;
+  // what to save as photo_url
+  ref: string;
+  photo_url: string;
+  photo_thumb_url: string;
 };
 
-export function registerDevotee(payload: CreateDevoteePayload) {
-  return request<DevoteeWithRecord>('/devotees', {
+// The image goes up as the raw request body; the server makes the thumbnail and WebP copies
+export async function uploadPhoto(dataUrl: string) {
+  const blob = await (await fetch(dataUrl)).blob();
+  return request<UploadedPhoto>('/media', {
     method: 'POST',
-    body: JSON.stringify(payload),
+    headers: { 'Content-Type': blob.type },
+    body: blob,
   });
 }
 
-export function updateDevotee(id: string, payload: CreateDevoteePayload) {
+/**
+ * Swap a freshly captured photo for its stored ref before saving. Offline, or
+ * if the upload fails, the data URL is sent as it is and the server stores it.
+ */
+async function withUploadedPhoto<T extends { photo_url?: string | null }>(payload: T): Promise<T> {
+  if (!payload.photo_url?.startsWith('data:') || !navigator.onLine) return payload;
+  try {
+    const { ref } = await uploadPhoto(payload.photo_url);
+    return { ...payload, photo_url: ref };
+  } catch (error) {
+    console.error('Failed to upload photo, sending it inline:', error);
+    return payload;
+  }
+}
+
+export async function registerDevotee(payload: CreateDevoteePayload) {
+  const body = await withUploadedPhoto(payload);
+  // The optimistic record keeps the captured image so it still shows before syncing
+  return sendOrQueue<DevoteeWithRecord>('registerDevotee', '/devotees', body, (tempId, now) => ({
+    ...payload,
+    id: tempId,
+    registration_number: tempId,
+    pending_sync: true,
+    created_at: now,
+    updated_at: now,
+    medical_records: null,
+  }));
+}
+
+export async function updateDevotee(id: string, payload: CreateDevoteePayload) {
   return request<DevoteeWithRecord>(`/devotees/${id}`, {
     method: 'PUT',
-    body: JSON.stringify(payload),
+    body: JSON.stringify(await withUploadedPhoto(payload)),
+  });
+}
+
+// Groups are registered online only: every member is created in one transaction
+export async function registerGroup(payload: CreateGroupPayload) {
+  const members = await Promise.all(payload.members.map(withUploadedPhoto));
+  return request<DevoteeGroup>('/groups', {
+    method: 'POST',
+    body: JSON.stringify({ ...payload, members }),
+  });
+}
+
+export function getGroup(id: string) {
+  return request<DevoteeGroup>(`/groups/${id}`, { method: 'GET' });
+}
+
+export function addGroupMember(groupId: string, devoteeId: string, relationship: GroupRelationship) {
+  return request<DevoteeGroup>(`/groups/${groupId}/members`, {
+    method: 'POST',
+    body: JSON.stringify({ devotee_id: devoteeId, relationship }),
+  });
+}
+
+export function removeGroupMember(groupId: string, devoteeId: string) {
+  return request<DevoteeGroup>(`/groups/${groupId}/members/${devoteeId}`, { method: 'DELETE' });
+}
+
+export function setGroupLeader(groupId: string, devoteeId: string) {
+  return request<DevoteeGroup>(`/groups/${groupId}/leader`, {
+    method: 'PUT',
+    body: JSON.stringify({ devotee_id: devoteeId }),
   });
 }
 
@@ -183,42 +715,439 @@ export function searchDevoteesByFace(faceDescriptor: number[], maxDistance = 0.6
   });
 }
 
-export function searchDevotees(searchTerm: string, searchType: 'name' | 'phone' | 'registration') {
+// Duplicate registrations
+export type DevoteeSummary = Pick<Devotee, 'id' | 'registration_number' | 'full_name' | 'age' | 'gender' | 'phone' | 'photo_url' | 'photo_thumb_url'> & {
+  group_id?: string | null;
+  created_at?: string;
+};
+
+export type DuplicateReason = 'abha' | 'face' | 'phone' | 'name_age_gender';
+
+export type DuplicateCandidate = {
+  devotee: DevoteeSummary;
+  // a phone match alone is only 'possible': families often share one phone
+  confidence: 'likely' | 'possible';
+  reasons: DuplicateReason[];
+  name_similarity: number;
+  face_distance: number | null;
+};
+
+export type DevoteeMerge = {
+  id: string;
+  status: 'merged' | 'reverted';
+  reason: string;
+  survivor: DevoteeSummary;
+  retired: DevoteeSummary;
+  incidents_moved: number;
+  record_repointed: boolean;
+  merged_by: StaffRef;
+  merged_at: string;
+  reverted_by: StaffRef | null;
+  reverted_at: string | null;
+};
+
+// Always fresh: the point is to catch a registration made a minute ago at another camp
+export function checkDuplicates(payload: Pick<CreateDevoteePayload, 'full_name' | 'age' | 'gender' | 'phone' | 'abha_number' | 'face_descriptor'>) {
+  return request<DuplicateCandidate[]>('/devotees/check-duplicates', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+// Registration details read from a FHIR Bundle, for the desk to check before registering
+export type RegistrationPrefill = {
+  payload: Omit<CreateDevoteePayload, 'gender' | 'special_notes' | 'photo_url' | 'face_descriptor' | 'allergies' | 'chronic_conditions' | 'current_medications' | 'past_surgeries'> & {
+    gender: Devotee['gender'] | null;
+    abha_number: string | null;
+    allergies: CodedEntry[];
+    chronic_conditions: CodedEntry[];
+    current_medications: CodedEntry[];
+    past_surgeries: CodedEntry[];
+  };
+  warnings: string[];
+  // False when the caller can't read medical records: only identity and contact details were filled
+  clinical_included: boolean;
+  // The consent an ABDM fetch was recorded under
+  consent_id?: string;
+};
+
+// Who agreed at the desk to the pilgrim's records being fetched from ABDM
+export type AbdmConsentGiver = 'pilgrim' | 'guardian';
+
+export function prefillFromFhir(bundle: unknown) {
+  return request<RegistrationPrefill>('/devotees/prefill/fhir', {
+    method: 'POST',
+    body: JSON.stringify(bundle),
+  });
+}
+
+// Records linked to an ABHA number, through the ABDM gateway; the server records the consent first
+export function prefillFromAbdm(abhaNumber: string, consent: AbdmConsentGiver) {
+  return request<RegistrationPrefill>('/devotees/prefill/abdm', {
+    method: 'POST',
+    body: JSON.stringify({ abha_number: abhaNumber, consent }),
+  });
+}
+
+export function getDevoteeDuplicates(id: string) {
+  return request<DuplicateCandidate[]>(`/devotees/${id}/duplicates`, { method: 'GET' });
+}
+
+export function getMerges(status?: DevoteeMerge['status']) {
+  return request<DevoteeMerge[]>(status ? `/merges?status=${status}` : '/merges', { method: 'GET' });
+}
+
+export function mergeDevotees(survivorId: string, retiredId: string, reason: string) {
+  return request<DevoteeMerge>('/merges', {
+    method: 'POST',
+    body: JSON.stringify({ survivor_id: survivorId, retired_id: retiredId, reason }),
+  });
+}
+
+export function revertMerge(id: string) {
+  return request<DevoteeMerge>(`/merges/${id}/revert`, { method: 'POST' });
+}
+
+// Bulk import of pre-registered pilgrims
+export type ImportStatus = 'uploading' | 'uploaded' | 'validating' | 'validated' | 'importing' | 'completed' | 'failed' | 'cancelled';
+export type ImportField =
+  | 'full_name' | 'age' | 'gender' | 'phone' | 'emergency_contact_name' | 'emergency_contact_phone'
+  | 'blood_group' | 'height_cm' | 'weight_kg' | 'allergies' | 'chronic_conditions' | 'current_medications'
+  | 'past_surgeries' | 'special_notes';
+
+export type ImportJob = {
+  id: string;
+  filename: string;
+  format: 'csv' | 'xlsx';
+  headers: string[];
+  sample: string[][];
+  // import field -> column index
+  mapping: Partial<Record<ImportField, number>>;
+  // import field -> value used when the cell is blank
+  defaults: Partial<Record<ImportField, string>>;
+  import_duplicates: boolean;
+  status: ImportStatus;
+  phase: 'upload' | 'validate' | 'import';
+  running: boolean;
+  total_rows: number;
+  counts: { validated: number; valid: number; invalid: number; duplicate: number; imported: number };
+  error: string | null;
+  created_by: { id: string; username: string; full_name?: string };
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+export type ImportRowStatus = 'pending' | 'valid' | 'invalid' | 'duplicate' | 'imported';
+
+export type ImportRow = {
+  id: string;
+  row_number: number;
+  status: ImportRowStatus;
+  issues: string[];
+  duplicate_of_row: number | null;
+  duplicates: {
+    devotee_id: string | null;
+    registration_number: string;
+    full_name: string;
+    confidence: DuplicateCandidate['confidence'];
+    reasons: DuplicateReason[];
+  }[];
+  registration_number: string | null;
+  devotee: Partial<Record<'full_name' | 'age' | 'gender' | 'phone', string>>;
+};
+
+export function getImports() {
+  return request<ImportJob[]>('/imports', { method: 'GET' });
+}
+
+export function getImport(id: string) {
+  return request<ImportJob>(`/imports/${id}`, { method: 'GET' });
+}
+
+// The file is sent as-is; the server reads it in the background and suggests a column mapping
+export function uploadImport(file: File) {
+  return request<ImportJob>(`/imports?filename=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+  });
+}
+
+export function getImportRows(id: string, status?: ImportRowStatus, page = 1) {
+  const params = new URLSearchParams({ page: String(page) });
+  if (status) params.set('status', status);
+  return request<{ rows: ImportRow[]; total: number; page: number; limit: number }>(
+    `/imports/${id}/rows?${params.toString()}`,
+    { method: 'GET' }
+  );
+}
+
+// Starts the dry run
+export function setImportMapping(id: string, mapping: ImportJob['mapping'], defaults: ImportJob['defaults']) {
+  return request<ImportJob>(`/imports/${id}/mapping`, {
+    method: 'PUT',
+    body: JSON.stringify({ mapping, defaults }),
+  });
+}
+
+export function startImport(id: string, importDuplicates: boolean) {
+  return request<ImportJob>(`/imports/${id}/start`, {
+    method: 'POST',
+    body: JSON.stringify({ import_duplicates: importDuplicates }),
+  });
+}
+
+export function resumeImport(id: string) {
+  return request<ImportJob>(`/imports/${id}/resume`, { method: 'POST' });
+}
+
+export function cancelImport(id: string) {
+  return request<ImportJob>(`/imports/${id}/cancel`, { method: 'POST' });
+}
+
+// File downloads skip request(): the body is not JSON and must never be cached
+async function fetchBlob(path: string) {
+  const token = getAuthToken();
+  const response = await fetch(`${API_BASE}${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    throw new ApiError((await response.text()) || 'Request failed', response.status);
+  }
+  return response.blob();
+}
+
+// Every row with its outcome and registration number, as CSV
+export function downloadImportResults(id: string) {
+  return fetchBlob(`/imports/${id}/results`);
+}
+
+// Exports
+export type ExportDataset = 'devotees' | 'medical_records' | 'incidents';
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportFilters = {
+  from?: string;
+  to?: string;
+  center_id?: string;
+  risk_level?: RiskLevel[];
+};
+
+export type ExportLog = {
+  id: string;
+  dataset: ExportDataset | 'fhir';
+  format: ExportFormat | 'fhir+json';
+  filters: ExportFilters & { registration_number?: string };
+  devotee_id: string | null;
+  row_count: number;
+  completed: boolean;
+  exported_by: { id: string; username: string; full_name: string; role: StaffRole };
+  created_at: string;
+};
+
+export function downloadExport(dataset: ExportDataset, format: ExportFormat, filters: ExportFilters) {
+  const params = new URLSearchParams({ format });
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.center_id) params.set('center_id', filters.center_id);
+  if (filters.risk_level?.length) params.set('risk_level', filters.risk_level.join(','));
+  return fetchBlob(`/exports/${dataset}?${params.toString()}`);
+}
+
+// FHIR R4 Bundle of one devotee's record and incidents
+export function downloadFhirBundle(devoteeId: string) {
+  return fetchBlob(`/exports/fhir/${devoteeId}`);
+}
+
+export function getExportLogs() {
+  return request<ExportLog[]>('/exports/logs', { method: 'GET' });
+}
+
+export async function searchDevotees(searchTerm: string, searchType: 'name' | 'phone' | 'registration') {
   const params = new URLSearchParams({ q: searchTerm, type: searchType });
-  return request<DevoteeWithRecord[]>(`/devotees?${params.toString()}`);
+  try {
+    return await request<DevoteeWithRecord[]>(`/devotees?${params.toString()}`);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+
+    // Offline: search the profiles this user viewed recently on this device
+    const user = getCachedUser();
+    if (!user) throw error;
+    const term = searchTerm.toLowerCase();
+    const field = searchType === 'phone' ? 'phone' : searchType === 'registration' ? 'registration_number' : 'full_name';
+    const profiles = await listCachedProfiles<DevoteeWithRecord>(user.id);
+    const readsRecords = userCan(user, 'devotees:read');
+    return profiles
+      .map((p) => p.data)
+      .filter((d): d is DevoteeWithRecord => Boolean(d) && String(d[field]).toLowerCase().includes(term))
+      .map((d) => (readsRecords ? d : { ...d, medical_records: null }));
+  }
 }
 
 export function createIncident(payload: CreateIncidentPayload) {
   // Clear incidents cache after creating new incident
   clearApiCache('incidents');
-  return request<MedicalIncident>('/incidents', {
+  return sendOrQueue<MedicalIncident>('createIncident', '/incidents', payload, (tempId, now) => ({
+    ...payload,
+    id: tempId,
+    incident_date: now,
+    pending_sync: true,
+    created_at: now,
+  }));
+}
+
+export function addObservation(incidentId: string, payload: ObservationPayload) {
+  clearApiCache('incidents');
+  return request<MedicalIncident>(`/incidents/${incidentId}/observations`, {
     method: 'POST',
     body: JSON.stringify(payload),
   });
 }
 
-export function getIncidents(devoteeId: string) {
-  const params = new URLSearchParams({ devoteeId });
-  return request<MedicalIncident[]>(`/incidents?${params.toString()}`);
+// 409 means someone else saved first; the caller should reload and retry
+export function updateIncident(incidentId: string, payload: UpdateIncidentPayload) {
+  clearApiCache('incidents');
+  return request<MedicalIncident>(`/incidents/${incidentId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
 }
 
-// Lost & Found
-export const reportLostFound = async (data: any) => {
-  return request<LostPerson>('/lost-found/report', {
+export function referIncident(incidentId: string, payload: ReferralPayload) {
+  clearApiCache('incidents');
+  return request<MedicalIncident>(`/incidents/${incidentId}/referrals`, {
     method: 'POST',
-    body: JSON.stringify(data),
+    body: JSON.stringify(payload),
   });
-};
+}
 
-export const matchFace = async (descriptor: number[], statusFilter?: string) => {
-  return request<{ matches: { person: LostPerson; distance: number; similarity: number }[] }>('/lost-found/match', {
+export function respondToReferral(incidentId: string, referralId: string, decision: 'accept' | 'reject', notes: string) {
+  clearApiCache('incidents');
+  return request<MedicalIncident>(`/incidents/${incidentId}/referrals/${referralId}/respond`, {
     method: 'POST',
-    body: JSON.stringify({
-      face_descriptor: descriptor,
-      status_filter: statusFilter
-    }),
+    body: JSON.stringify({ decision, notes }),
   });
-};
+}
+
+export function reviewPrescription(incidentId: string, note: string) {
+  clearApiCache('incidents');
+  return request<MedicalIncident>(`/incidents/${incidentId}/prescription-review`, {
+    method: 'POST',
+    body: JSON.stringify({ note }),
+  });
+}
+
+export function getReferrals(params: { direction: ReferralQueue['direction']; status: ReferralQueue['status']; centerId?: string }) {
+  const query = new URLSearchParams({ direction: params.direction, status: params.status });
+  if (params.centerId) query.set('center_id', params.centerId);
+  // Always fresh: the queue is watched while patients are on their way
+  return request<ReferralQueue>(`/incidents/referrals?${query.toString()}`, { method: 'GET' });
+}
+
+// Follow-ups
+export type FollowUpWorklist = 'today' | 'overdue' | 'upcoming';
+
+export type FollowUpItem = {
+  incident_id: string;
+  incident_date: string;
+  incident_type: MedicalIncident['incident_type'];
+  symptoms: string;
+  diagnosis: string;
+  medical_center: string;
+  follow_up_notes: string;
+  follow_up: FollowUp;
+  devotee: Pick<Devotee, 'id' | 'full_name' | 'age' | 'gender' | 'phone' | 'registration_number' | 'emergency_contact_name' | 'emergency_contact_phone'> | null;
+};
+
+export type FollowUpList = {
+  due: FollowUpWorklist;
+  range: { from: string; to: string } | null;
+  counts: { today: number; overdue: number };
+  items: FollowUpItem[];
+};
+
+export function getFollowUps(due: FollowUpWorklist, centerId?: string) {
+  // The server works out "today" in the browser's timezone
+  const params = new URLSearchParams({ due, tz_offset: String(new Date().getTimezoneOffset()) });
+  if (centerId) params.set('center_id', centerId);
+  return request<FollowUpList>(`/follow-ups?${params.toString()}`, { method: 'GET' });
+}
+
+export function scheduleFollowUp(incidentId: string, payload: { due_at: string; center_id?: string }) {
+  clearApiCache('incidents');
+  return request<{ incident_id: string; follow_up: FollowUp }>(`/follow-ups/${incidentId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function cancelFollowUp(incidentId: string, reason: string) {
+  clearApiCache('incidents');
+  return request<{ incident_id: string; follow_up: FollowUp }>(`/follow-ups/${incidentId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ status: 'cancelled', cancel_reason: reason }),
+  });
+}
+
+export function completeFollowUp(incidentId: string, completionIncidentId: string) {
+  clearApiCache('incidents');
+  return request<{ incident_id: string; follow_up: FollowUp }>(`/follow-ups/${incidentId}/complete`, {
+    method: 'POST',
+    body: JSON.stringify({ completion_incident_id: completionIncidentId }),
+  });
+}
+
+export async function getIncidents(devoteeId: string) {
+  if (isTempId(devoteeId)) {
+    return queuedIncidentsFor(devoteeId);
+  }
+
+  const params = new URLSearchParams({ devoteeId });
+  try {
+    const incidents = await request<MedicalIncident[]>(`/incidents?${params.toString()}`);
+    const queued = await queuedIncidentsFor(devoteeId);
+    const user = getCachedUser();
+    if (user) cacheProfile(devoteeId, user.id, { incidents }).catch(() => undefined);
+    return [...queued, ...incidents];
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const user = getCachedUser();
+    if (!user || !userCan(user, 'incidents:read')) throw error;
+    const cached = await getCachedProfile(devoteeId, user.id);
+    if (!cached) throw error;
+    const queued = await queuedIncidentsFor(devoteeId);
+    return [...queued, ...(cached.incidents as MedicalIncident[])];
+  }
+}
+
+// Remember a profile the user has opened so it can be read again offline
+export function rememberProfile(devotee: DevoteeWithRecord) {
+  const user = getCachedUser();
+  if (devotee.pending_sync || !user) return;
+  cacheProfile(devotee.id, user.id, { data: devotee }).catch((error) => console.error('Failed to cache profile:', error));
+}
+
+// Lost & Found
+export const reportLostFound = async (data: any) => {
+  const body = await withUploadedPhoto(data);
+  return sendOrQueue<LostPerson>('reportLostFound', '/lost-found/report', body, (tempId, now) => ({
+    ...data,
+    _id: tempId,
+    pending_sync: true,
+    created_at: now,
+  }));
+};
+
+export const matchFace = async (descriptor: number[], statusFilter?: string) => {
+  return request<{ matches: { person: LostPerson; distance: number; similarity: number }[] }>('/lost-found/match', {
+    method: 'POST',
+    body: JSON.stringify({
+      face_descriptor: descriptor,
+      status_filter: statusFilter
+    }),
+  });
+};
 
 export const getLostFoundList = async (status?: string) => {
   const url = status
@@ -227,3 +1156,803 @@ export const getLostFoundList = async (status?: string) => {
   return request<LostPerson[]>(url);
 };
 
+// Case management always reads fresh: several desks work the same cases
+export function getLostFoundCases() {
+  return request<LostFoundCases>('/lost-found/cases', { method: 'GET' });
+}
+
+// The desk's answer to the registration suggested for a report; confirming it returns the report with its group
+export function answerDevoteeSuggestion(id: string, confirm: boolean) {
+  return request<LostPerson>(`/lost-found/${id}/devotee`, {
+    method: 'POST',
+    body: JSON.stringify({ confirm }),
+  });
+}
+
+export function linkLostFoundReports(
+  id: string,
+  linkedReportId: string,
+  confirmation: { verification_method: VerificationMethod; similarity?: number; notes?: string }
+) {
+  return request<LostPerson>(`/lost-found/${id}/link`, {
+    method: 'POST',
+    body: JSON.stringify({ linked_report_id: linkedReportId, ...confirmation }),
+  });
+}
+
+export function unlinkLostFoundReport(id: string, note?: string) {
+  return request<LostPerson>(`/lost-found/${id}/unlink`, {
+    method: 'POST',
+    body: JSON.stringify({ note }),
+  });
+}
+
+export function reuniteLostFoundCase(id: string, handover: HandoverDetails) {
+  return request<LostPerson>(`/lost-found/${id}/reunite`, {
+    method: 'POST',
+    body: JSON.stringify(handover),
+  });
+}
+
+
+export function getDevotee(id: string) {
+  return request<DevoteeWithRecord>(`/devotees/${id}`, { method: 'GET' });
+}
+
+// Medical facility registry
+export type CenterType = 'hospital' | 'camp' | 'first_aid_post' | 'ambulance_point';
+
+export type MedicalCenter = {
+  id: string;
+  name: string;
+  type: CenterType;
+  latitude: number;
+  longitude: number;
+  sector: string;
+  capacity: { beds: number; ambulances: number };
+  contact: { person: string; phone: string };
+  operating_hours: { always_open: boolean; opens: string; closes: string };
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type MedicalCenterPayload = Omit<MedicalCenter, 'id' | 'created_at' | 'updated_at'>;
+
+export type CenterIncidentCount = {
+  center_id: string | null;
+  name: string;
+  type: CenterType | null;
+  sector: string;
+  latitude: number | null;
+  longitude: number | null;
+  total: number;
+  emergencies: number;
+};
+
+const CENTERS_STORAGE_KEY = 'kms_medical_centers';
+
+// The incident form needs the facility list even when recording offline
+export async function getMedicalCenters(includeInactive = false) {
+  const path = includeInactive ? '/medical-centers?includeInactive=true' : '/medical-centers';
+  try {
+    const centers = await request<MedicalCenter[]>(path, { method: 'GET' });
+    if (!includeInactive) window.localStorage.setItem(CENTERS_STORAGE_KEY, JSON.stringify(centers));
+    return centers;
+  } catch (error) {
+    const cached = window.localStorage.getItem(CENTERS_STORAGE_KEY);
+    if (!isNetworkError(error) || !cached) throw error;
+    return JSON.parse(cached) as MedicalCenter[];
+  }
+}
+
+export function createMedicalCenter(payload: MedicalCenterPayload) {
+  return request<MedicalCenter>('/medical-centers', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function updateMedicalCenter(id: string, payload: Partial<MedicalCenterPayload>) {
+  return request<MedicalCenter>(`/medical-centers/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function deleteMedicalCenter(id: string) {
+  return request<void>(`/medical-centers/${id}`, { method: 'DELETE' });
+}
+
+export function getIncidentsByCenter(hours = 24) {
+  return request<{ hours: number; centers: CenterIncidentCount[] }>(`/analytics/incidents-by-center?hours=${hours}`, { method: 'GET' });
+}
+
+// Terminology
+export type TermKind = 'condition' | 'allergen' | 'drug' | 'procedure';
+
+export type TermMatch = {
+  code: string;
+  system: string;
+  display: string;
+  // Name in the language asked for
+  label: string;
+  score: number;
+};
+
+export function lookupTerms(kind: TermKind, query: string, lang: string) {
+  const params = new URLSearchParams({ kind, q: query, lang });
+  return request<TermMatch[]>(`/terminology/lookup?${params.toString()}`);
+}
+
+// Clinical checks
+export type PrescriptionCheckResult = {
+  medications: CodedEntry[];
+  warnings: InteractionWarning[];
+  blocking: boolean;
+};
+
+export function checkPrescription(devoteeId: string, medications: string) {
+  return request<PrescriptionCheckResult>('/clinical/check', {
+    method: 'POST',
+    body: JSON.stringify({ devotee_id: devoteeId, medications }),
+  });
+}
+
+// Saving an incident is refused with 409 and the warnings when blocking ones were not overridden
+export function interactionWarningsFrom(error: unknown): InteractionWarning[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  try {
+    const body = JSON.parse(error.message);
+    return Array.isArray(body.warnings) ? body.warnings : null;
+  } catch {
+    return null;
+  }
+}
+
+// Health cards
+export type HealthCard = Pick<
+  Devotee,
+  'id' | 'registration_number' | 'full_name' | 'age' | 'gender' | 'photo_url' | 'emergency_contact_name' | 'emergency_contact_phone'
+> & {
+  blood_group: MedicalRecord['blood_group'];
+  allergies: string;
+  issued_at: string;
+  // Signed text encoded in the card's QR code
+  qr_payload: string;
+};
+
+export function getHealthCard(devoteeId: string) {
+  return request<HealthCard>(`/devotees/${devoteeId}/health-card`, { method: 'GET' });
+}
+
+// Rejects with an ApiError (status 400) when the card's signature does not check out
+export function verifyHealthCard(payload: string) {
+  return request<DevoteeWithRecord>('/devotees/verify-card', {
+    method: 'POST',
+    body: JSON.stringify({ payload }),
+  });
+}
+
+export function analyzeFace(image: string) {
+  return request<{ age?: number; gender?: string; estimatedHeight?: number; estimatedWeight?: number; mock?: boolean }>(
+    '/face/analyze',
+    {
+      method: 'POST',
+      body: JSON.stringify({ image }),
+    }
+  );
+}
+
+export function sendChatMessage(message: string, language: string, history: { role: string; content: string }[]) {
+  return request<{ response: string; timestamp: string }>('/chatbot/message', {
+    method: 'POST',
+    body: JSON.stringify({ message, language, history }),
+  });
+}
+
+// Weather
+export type WeatherProvider = 'openweathermap' | 'fixture' | 'manual';
+
+export type HeatLevel = 'low' | 'moderate' | 'high' | 'extreme';
+
+export type Weather = {
+  sector: string;
+  location: string;
+  temp: number;
+  feelsLike: number;
+  humidity: number;
+  aqi: number | null; // Indian (CPCB) 0-500 scale
+  uv: number | null;
+  description: string | null;
+  icon: string | null;
+  windSpeed: number | null;
+  pressure: number | null;
+  visibility: number | null;
+  heatIndex: number | null;
+  wbgt: number | null;
+  heat_level: HeatLevel | null;
+  provider: WeatherProvider;
+  // Some of it comes from the development fixture, not from a real measurement
+  simulated: boolean;
+  observed_at: string;
+  cached: boolean;
+};
+
+export type ForecastHour = Pick<Weather, 'temp' | 'feelsLike' | 'humidity' | 'uv' | 'windSpeed' | 'description' | 'icon' | 'heatIndex' | 'wbgt' | 'heat_level'> & {
+  time: string;
+};
+
+export type SnanDate = { date: string; name: string };
+
+// Consecutive hours at 'high' heat stress or worse, and the extra resources a sector should deploy
+export type HeatWindow = {
+  start: string;
+  end: string;
+  level: Extract<HeatLevel, 'high' | 'extreme'>;
+  peak_at: string;
+  peak_wbgt: number;
+  peak_heat_index: number;
+  snan: SnanDate | null;
+  plan: { water_points: number; medical_staff: number; cooling_stations: number };
+};
+
+export type WeatherForecast = {
+  sector: string;
+  location: string;
+  provider: WeatherProvider;
+  simulated: boolean;
+  hours: ForecastHour[];
+  windows: HeatWindow[];
+  snan_dates: SnanDate[];
+  cached: boolean;
+};
+
+export type WeatherLocation = { sector: string; name: string; default: boolean };
+
+export type WeatherReadingInput = {
+  sector: string;
+  temp: number;
+  humidity: number;
+  feelsLike?: number;
+  aqi?: number;
+  uv?: number;
+  notes?: string;
+};
+
+// Polled endpoints pass method: 'GET' explicitly so the 5-minute cache is bypassed
+export function getCurrentWeather(sector?: string) {
+  const params = sector ? `?${new URLSearchParams({ sector }).toString()}` : '';
+  return request<Weather>(`/weather/current${params}`, { method: 'GET' });
+}
+
+export function getWeatherForecast(sector?: string) {
+  const params = sector ? `?${new URLSearchParams({ sector }).toString()}` : '';
+  return request<WeatherForecast>(`/weather/forecast${params}`, { method: 'GET' });
+}
+
+export function getWeatherLocations() {
+  return request<WeatherLocation[]>('/weather/locations');
+}
+
+export function recordWeatherReading(payload: WeatherReadingInput) {
+  return request<Weather>('/weather/readings', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function getAnalyticsStats<T>() {
+  return request<T>('/analytics/stats', { method: 'GET' });
+}
+
+// High-risk monitor
+export type RiskLevel = 'Critical' | 'High' | 'Moderate' | 'Low';
+
+// Weather, head count and model version the stored scores were computed against
+export type RiskContext = {
+  temp: number;
+  feelsLike?: number;
+  humidity: number;
+  aqi: number;
+  uv?: number | null;
+  provider?: WeatherProvider | 'default';
+  simulated?: boolean;
+  total_devotees: number;
+  refreshed_at: string;
+  model_version: number | null;
+};
+
+export type RiskComponent = 'age' | 'medical' | 'environmental' | 'crowd' | 'incidents';
+
+// One line of why a devotee scored what they did; a component's lines sum to its points
+export type RiskExplanation = {
+  component: RiskComponent;
+  label: string;
+  points: number;
+};
+
+export type RiskPatient = {
+  devotee_id: string;
+  devotee: Pick<Devotee, 'registration_number' | 'full_name' | 'age' | 'gender' | 'phone' | 'photo_thumb_url'> & { photo_url: string | null };
+  medical: {
+    blood_group?: MedicalRecord['blood_group'];
+    chronic_conditions: string;
+    allergies: string;
+    condition_codes: string[];
+  };
+  risk_score: number;
+  risk_level: RiskLevel;
+  risk_color: 'red' | 'orange' | 'yellow' | 'green';
+  breakdown: Record<RiskComponent, number>;
+  recommendations: string[];
+  explanation: RiskExplanation[];
+  model_version: number | null;
+  computed_at: string;
+};
+
+export type RiskStats = {
+  critical: number;
+  high: number;
+  moderate: number;
+  low: number;
+  context: RiskContext;
+};
+
+export type RiskPage = {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+  context: RiskContext;
+  patients: RiskPatient[];
+};
+
+export type RiskListQuery = {
+  levels?: RiskLevel[];
+  q?: string;
+  page?: number;
+  limit?: number;
+};
+
+export function getHighRiskStats() {
+  return request<RiskStats>('/high-risk/stats', { method: 'GET' });
+}
+
+export function getHighRiskPatients({ levels, q, page = 1, limit = 25 }: RiskListQuery = {}) {
+  const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+  if (levels?.length) params.set('level', levels.join(','));
+  if (q) params.set('q', q);
+  return request<RiskPage>(`/high-risk/list?${params.toString()}`, { method: 'GET' });
+}
+
+// Risk models
+// Bands match when min <= value < max; either end may be left open
+export type RiskBand = { min?: number; max?: number; points: number };
+
+export type RiskModelConfig = {
+  age: { bands: RiskBand[] };
+  medical: {
+    weights: { code: string; label: string; points: number }[];
+    default_points: number;
+    multi_condition_multiplier: number;
+    cap: number;
+  };
+  environmental: { temperature: RiskBand[]; humidity: RiskBand[]; aqi: RiskBand[]; cap: number };
+  crowd: { bands: RiskBand[]; cap: number };
+  // Models saved before incident history was scored come back with the defaults (see RiskModel.incidents_default)
+  incidents: {
+    weights: { incident_type: MedicalIncident['incident_type']; points: number }[];
+    window_hours: number;
+    half_life_hours: number;
+    pending_follow_up_points: number;
+    cap: number;
+  };
+  thresholds: { moderate: number; high: number; critical: number };
+  recommendations: { component: RiskComponent | 'total'; min: number; messages: string[] }[];
+  default_recommendations: string[];
+};
+
+export type RiskModelStatus = 'draft' | 'active' | 'retired';
+
+export type RiskModel = {
+  id: string;
+  version: number;
+  name: string;
+  notes: string;
+  status: RiskModelStatus;
+  config: RiskModelConfig;
+  // Saved before incident history was scored; config.incidents shows the defaults it is scored with
+  incidents_default?: boolean;
+  based_on?: number;
+  created_by?: StaffRef;
+  activated_by?: StaffRef;
+  activated_at?: string;
+  retired_at?: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type RiskModelPreview = {
+  sample_size: number;
+  current_version: number | null;
+  changed: number;
+  levels: { current: Partial<Record<RiskLevel, number>>; draft: Partial<Record<RiskLevel, number>> };
+  transitions: { from: RiskLevel; to: RiskLevel; count: number }[];
+  examples: {
+    devotee_id: string;
+    registration_number: string;
+    full_name: string;
+    age: number;
+    current: { score: number; level: RiskLevel };
+    draft: { score: number; level: RiskLevel; explanation: RiskExplanation[] };
+  }[];
+};
+
+export function getRiskModels() {
+  return request<RiskModel[]>('/risk-models', { method: 'GET' });
+}
+
+export function createRiskModel(payload: { name: string; notes?: string; config?: RiskModelConfig; based_on?: number }) {
+  return request<RiskModel>('/risk-models', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function updateRiskModel(version: number, payload: { name?: string; notes?: string; config?: RiskModelConfig }) {
+  return request<RiskModel>(`/risk-models/${version}`, {
+    method: 'PUT',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function deleteRiskModel(version: number) {
+  return request<void>(`/risk-models/${version}`, { method: 'DELETE' });
+}
+
+export function previewRiskModel(config: RiskModelConfig, sampleSize?: number) {
+  return request<RiskModelPreview>('/risk-models/preview', {
+    method: 'POST',
+    body: JSON.stringify({ config, sample_size: sampleSize }),
+  });
+}
+
+export function activateRiskModel(version: number) {
+  return request<RiskModel>(`/risk-models/${version}/activate`, { method: 'POST' });
+}
+
+// Syndromic surveillance
+export type Syndrome = 'gi' | 'heat' | 'respiratory' | 'injury' | 'cardiac' | 'fever';
+export type SurveillanceScope = 'center' | 'sector';
+export type EarsMethod = 'C1' | 'C2' | 'C3';
+
+export type SurveillanceSignal = {
+  syndrome: Syndrome;
+  // Center id (or `name:<facility>`) or sector name, depending on the scope
+  scope_key: string;
+  label: string;
+  sector: string;
+  // Cases per window, oldest first; the last is the current window
+  counts: number[];
+  observed: number;
+  expected: number;
+  c1: number;
+  c2: number;
+  c3: number;
+  methods: EarsMethod[];
+  alert: boolean;
+};
+
+export type SurveillanceSignals = {
+  scope: SurveillanceScope;
+  bin_hours: number;
+  window: { start: string; end: string };
+  signals: SurveillanceSignal[];
+};
+
+export type SurveillanceAlertStatus = 'open' | 'acknowledged' | 'dismissed';
+
+export type SurveillanceAlert = {
+  id: string;
+  syndrome: Syndrome;
+  scope: SurveillanceScope;
+  scope_key: string;
+  label: string;
+  bin_hours: number;
+  first_window_start: string;
+  window_start: string;
+  window_end: string;
+  observed: number;
+  expected: number;
+  peak_observed: number;
+  c1: number;
+  c2: number;
+  c3: number;
+  methods: EarsMethod[];
+  status: SurveillanceAlertStatus;
+  reviewed_by?: StaffRef;
+  reviewed_at?: string;
+  note: string;
+  created_at: string;
+};
+
+export type SurveillanceIncident = Pick<
+  MedicalIncident,
+  'id' | 'incident_date' | 'incident_type' | 'symptoms' | 'diagnosis' | 'medical_center'
+> & {
+  syndromes: Syndrome[];
+  triage_category: TriageCategory | null;
+  status: IncidentStatus;
+  devotee: Pick<Devotee, 'id' | 'full_name' | 'age' | 'gender' | 'registration_number'> | null;
+};
+
+export function getSurveillanceSignals(scope: SurveillanceScope, binHours: number) {
+  const params = new URLSearchParams({ scope, bin_hours: String(binHours) });
+  return request<SurveillanceSignals>(`/surveillance/signals?${params.toString()}`, { method: 'GET' });
+}
+
+export function getSurveillanceAlerts() {
+  return request<SurveillanceAlert[]>('/surveillance/alerts', { method: 'GET' });
+}
+
+export function reviewSurveillanceAlert(alertId: string, status: Exclude<SurveillanceAlertStatus, 'open'>, note = '') {
+  return request<SurveillanceAlert>(`/surveillance/alerts/${alertId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ status, note }),
+  });
+}
+
+export function getSurveillanceIncidents(query: { syndrome: Syndrome; scope: SurveillanceScope; key: string; from: string; to: string }) {
+  const params = new URLSearchParams(query);
+  return request<SurveillanceIncident[]>(`/surveillance/incidents?${params.toString()}`, { method: 'GET' });
+}
+
+// Audit trail
+export type AuditAction = 'devotee.view' | 'devotee.update' | 'incident.create' | 'incident.observation'
+  | 'incident.update' | 'incident.referral' | 'incident.follow_up' | 'incident.prescription_override'
+  | 'incident.prescription_flagged' | 'incident.prescription_review'
+  | 'devotee.merge' | 'devotee.unmerge' | 'devotee.export';
+
+export type AuditEvent = {
+  id: string;
+  actor: { id: string; username: string; role: StaffRole };
+  action: AuditAction;
+  devotee_id: string;
+  target_id: string | null;
+  changes: { field: string; before: unknown; after: unknown }[];
+  ip: string;
+  created_at: string;
+};
+
+export function getDevoteeHistory(devoteeId: string) {
+  const params = new URLSearchParams({ devoteeId, changesOnly: 'true' });
+  return request<AuditEvent[]>(`/audit?${params.toString()}`, { method: 'GET' });
+}
+
+// Live events
+export type LiveTopic = 'risk.critical' | 'incident.created' | 'incident.prescription_review' | 'lost_person.reported' | 'face.match'
+  | 'weather.alert';
+
+export type LiveEvent = {
+  id: string;
+  topic: LiveTopic;
+  critical: boolean;
+  at: string;
+  data: Record<string, unknown>;
+};
+
+// Streaming fetch rather than EventSource, which cannot send the Authorization header
+export async function openEventStream(topics: LiveTopic[], lastEventId: string | null, signal: AbortSignal) {
+  const token = getAuthToken();
+  const params = new URLSearchParams({ topics: topics.join(',') });
+  const response = await fetch(`${API_BASE}/events/stream?${params.toString()}`, {
+    headers: {
+      Accept: 'text/event-stream',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+    },
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new ApiError((await response.text()) || 'Event stream failed', response.status);
+  }
+  return response.body;
+}
+
+// Offline mutation queue
+export type SyncState = {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  failed: QueuedMutation[];
+  // Queued by other staff on this device; they sync when that person signs in again
+  others: number;
+};
+
+let syncState: SyncState = { online: navigator.onLine, syncing: false, pending: 0, failed: [], others: 0 };
+const syncListeners = new Set<(state: SyncState) => void>();
+
+function setSyncState(patch: Partial<SyncState>) {
+  syncState = { ...syncState, ...patch };
+  syncListeners.forEach((listener) => listener(syncState));
+}
+
+export function subscribeSyncState(listener: (state: SyncState) => void) {
+  syncListeners.add(listener);
+  listener(syncState);
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
+
+// Entries queued before the queue recorded its owner are listed as failed, for whoever is signed in to claim or discard
+const isOwnMutation = (mutation: QueuedMutation, userId: string | undefined) =>
+  mutation.user_id === userId || mutation.user_id == null;
+
+export async function refreshSyncState() {
+  const queue = await listMutations();
+  const userId = getCachedUser()?.id;
+  const own = queue.filter((m) => isOwnMutation(m, userId));
+  setSyncState({
+    online: navigator.onLine,
+    pending: own.filter((m) => m.status === 'pending' && m.user_id != null).length,
+    failed: own.filter((m) => m.status === 'failed' || m.user_id == null),
+    others: queue.length - own.length,
+  });
+}
+
+// The server is still working on the first attempt of this replay; try again on the next pass
+function isStillProcessing(error: unknown) {
+  if (!(error instanceof ApiError) || error.status !== 409) return false;
+  try {
+    return JSON.parse(error.message).code === 'idempotency_in_progress';
+  } catch {
+    return false;
+  }
+}
+
+async function queuedIncidentsFor(devoteeId: string) {
+  const queue = await listMutations();
+  return queue
+    .filter((m) => m.kind === 'createIncident' && m.body.devotee_id === devoteeId)
+    .map((m) => ({
+      ...(m.body as CreateIncidentPayload),
+      id: m.temp_id,
+      incident_date: m.created_at,
+      created_at: m.created_at,
+      pending_sync: true,
+    }) as MedicalIncident)
+    .reverse();
+}
+
+// Replace temp ids of records created offline with their server ids
+async function resolveBody(body: Record<string, unknown>) {
+  if (!isTempId(body.devotee_id)) return body;
+  const serverId = await resolveTempId(body.devotee_id);
+  return serverId ? { ...body, devotee_id: serverId } : null;
+}
+
+/**
+ * POST a mutation, or park it in the IndexedDB queue when the network is
+ * down. The optimistic result carries a temp id and pending_sync: true.
+ */
+async function sendOrQueue<T>(
+  kind: MutationKind,
+  path: string,
+  payload: object,
+  optimistic: (tempId: string, now: string) => T
+): Promise<T> {
+  const body = payload as Record<string, unknown>;
+  const resolved = navigator.onLine ? await resolveBody(body) : null;
+  // Shared with the queued entry: the server may have saved this attempt even though the response never arrived
+  const idempotencyKey = createIdempotencyKey();
+
+  if (resolved) {
+    try {
+      return await request<T>(path, {
+        method: 'POST',
+        headers: { 'Idempotency-Key': idempotencyKey },
+        body: JSON.stringify(resolved),
+      });
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const tempId = createTempId();
+  await enqueueMutation({
+    kind,
+    path,
+    method: 'POST',
+    body,
+    temp_id: tempId,
+    idempotency_key: idempotencyKey,
+    user_id: getCachedUser()?.id ?? null,
+  });
+  await refreshSyncState();
+  return optimistic(tempId, new Date().toISOString());
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replay the signed-in user's queued mutations in the order they were made.
+ * Stops at the first network error; server rejections are marked failed for
+ * the user to review. Other staff members' entries wait for their own session.
+ */
+export function syncPendingMutations() {
+  if (!flushing) {
+    flushing = flushQueue().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function flushQueue() {
+  const userId = getCachedUser()?.id;
+  if (!navigator.onLine || !getAuthToken() || !userId) {
+    await refreshSyncState();
+    return;
+  }
+
+  setSyncState({ syncing: true });
+  try {
+    const queue = (await listMutations()).filter((m) => m.status === 'pending' && m.user_id === userId);
+
+    for (const mutation of queue) {
+      const body = await resolveBody(mutation.body);
+      if (!body) {
+        await putMutation({ ...mutation, status: 'failed', error: 'Linked registration has not synced yet' });
+        continue;
+      }
+
+      try {
+        const result = await request<{ id?: string; _id?: string }>(mutation.path, {
+          method: mutation.method,
+          // Lets the server accept an incident the bedside never saw interaction warnings for
+          headers: { 'Idempotency-Key': mutation.idempotency_key, 'X-Offline-Replay': '1', 'X-Recorded-At': mutation.created_at },
+          body: JSON.stringify(body),
+        });
+        const serverId = result.id ?? result._id;
+        if (serverId) await saveIdMapping(mutation.temp_id, serverId);
+        await deleteMutation(mutation.id!);
+      } catch (error) {
+        if (isNetworkError(error) || isStillProcessing(error)) break;
+        if (error instanceof ApiError && error.status === 401) break;
+        await putMutation({
+          ...mutation,
+          status: 'failed',
+          attempts: mutation.attempts + 1,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    clearApiCache();
+  } finally {
+    setSyncState({ syncing: false });
+    await refreshSyncState();
+  }
+}
+
+// Retrying an entry queued before owners were recorded submits it as the signed-in user
+export async function retryFailedMutation(id: number) {
+  const mutation = (await listMutations()).find((m) => m.id === id);
+  const userId = getCachedUser()?.id;
+  if (!mutation || !userId || !isOwnMutation(mutation, userId)) return;
+  await putMutation({
+    ...mutation,
+    status: 'pending',
+    error: null,
+    user_id: userId,
+    idempotency_key: mutation.idempotency_key ?? createIdempotencyKey(),
+  });
+  await syncPendingMutations();
+}
+
+export async function discardFailedMutation(id: number) {
+  await deleteMutation(id);
+  await refreshSyncState();
+}
@@ -0,0 +1,12 @@
+// <input type="datetime-local"> wants local time as YYYY-MM-DDTHH:mm, not an ISO string
+export function toDateTimeInput(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Most follow-ups at the mela are a next-day check, at the same hour
+export function defaultFollowUpDue() {
+  const due = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  due.setMinutes(0, 0, 0);
+  return toDateTimeInput(due);
+}
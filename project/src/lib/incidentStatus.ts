@@ -0,0 +1,27 @@
+import { IncidentStatus, TransportMode } from './api';
+
+// Mirrors STATUS_TRANSITIONS in server/routes/incidents.js. 'referred' is entered through a referral,
+// never picked directly.
+export const STATUS_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  open: ['under_treatment', 'discharged', 'deceased', 'left_against_advice'],
+  under_treatment: ['discharged', 'deceased', 'left_against_advice'],
+  referred: ['deceased', 'left_against_advice'],
+  discharged: [],
+  deceased: [],
+  left_against_advice: [],
+};
+
+export const CLOSED_STATUSES: IncidentStatus[] = ['discharged', 'deceased', 'left_against_advice'];
+
+export const STATUS_STYLES: Record<IncidentStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  under_treatment: 'bg-amber-100 text-amber-800',
+  referred: 'bg-purple-100 text-purple-800',
+  discharged: 'bg-green-100 text-green-800',
+  deceased: 'bg-gray-800 text-white',
+  left_against_advice: 'bg-rose-100 text-rose-800',
+};
+
+export const TRANSPORT_MODES: TransportMode[] = ['ambulance', 'private_vehicle', 'on_foot', 'other'];
+
+export const canRefer = (status: IncidentStatus) => status === 'open' || status === 'under_treatment';
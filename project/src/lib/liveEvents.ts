@@ -0,0 +1,130 @@
+import { useEffect, useRef } from 'react';
+import { ApiError, openEventStream, type LiveEvent, type LiveTopic } from './api';
+
+type Listener = {
+  topics: LiveTopic[];
+  onEvent: (event: LiveEvent) => void;
+  // The server could not replay what was missed while disconnected; reload instead
+  onReset?: () => void;
+};
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+const listeners = new Set<Listener>();
+let controller: AbortController | null = null;
+let connectedTopics = '';
+let lastEventId: string | null = null;
+let backoff = MIN_BACKOFF_MS;
+let retryTimer: number | undefined;
+
+const wantedTopics = () =>
+  [...new Set([...listeners].flatMap((listener) => listener.topics))].sort();
+
+function dispatch(eventName: string, data: string, id: string | null) {
+  if (id) lastEventId = id;
+  if (eventName === 'reset') {
+    listeners.forEach((listener) => listener.onReset?.());
+    return;
+  }
+  const event = JSON.parse(data) as LiveEvent;
+  listeners.forEach((listener) => {
+    if (listener.topics.includes(event.topic)) listener.onEvent(event);
+  });
+}
+
+// Minimal text/event-stream parser: blank line ends an event, lines starting with ':' are comments
+async function consume(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let eventName = 'message';
+  let data: string[] = [];
+  let id: string | null = null;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffered += value;
+    const lines = buffered.split(/\r?\n/);
+    buffered = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length) dispatch(eventName, data.join('\n'), id);
+        eventName = 'message';
+        data = [];
+        id = null;
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const content = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') eventName = content;
+      else if (field === 'data') data.push(content);
+      else if (field === 'id') id = content;
+    }
+  }
+}
+
+function connect() {
+  window.clearTimeout(retryTimer);
+  controller?.abort();
+  const topics = wantedTopics();
+  connectedTopics = topics.join(',');
+  if (!topics.length) {
+    controller = null;
+    return;
+  }
+
+  const current = new AbortController();
+  controller = current;
+  openEventStream(topics, lastEventId, current.signal)
+    .then((body) => {
+      backoff = MIN_BACKOFF_MS;
+      return consume(body);
+    })
+    .catch((error: unknown) => {
+      // Signed out or not allowed: wait for the next subscriber rather than retrying
+      if (error instanceof ApiError && (error.status === 401 || error.status === 403)) return 'stop';
+      return undefined;
+    })
+    .then((outcome) => {
+      if (current.signal.aborted) return;
+      if (outcome === 'stop') {
+        controller = null;
+        return;
+      }
+      retryTimer = window.setTimeout(connect, backoff);
+      backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+    });
+}
+
+/**
+ * Receive live events on the given topics. All subscribers share one stream,
+ * which is reopened (resuming from the last event seen) when the set of topics changes.
+ * @returns an unsubscribe function
+ */
+export function subscribeLiveEvents(topics: LiveTopic[], handlers: Omit<Listener, 'topics'>) {
+  const listener: Listener = { topics, ...handlers };
+  listeners.add(listener);
+  if (wantedTopics().join(',') !== connectedTopics || !controller) connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (wantedTopics().join(',') !== connectedTopics) connect();
+  };
+}
+
+export function useLiveEvents(topics: LiveTopic[], onEvent: (event: LiveEvent) => void, onReset?: () => void) {
+  const handlers = useRef({ onEvent, onReset });
+  handlers.current = { onEvent, onReset };
+  const key = topics.join(',');
+
+  useEffect(() => {
+    return subscribeLiveEvents(key.split(',') as LiveTopic[], {
+      onEvent: (event) => handlers.current.onEvent(event),
+      onReset: () => handlers.current.onReset?.(),
+    });
+  }, [key]);
+}
@@ -0,0 +1,18 @@
+// Map settings, overridable per deployment so the mela network can use a
+// locally hosted tile server when the internet uplink is congested.
+const env = import.meta.env;
+
+function parseCenter(value: string | undefined): [number, number] {
+  const [lat, lng] = (value || '').split(',').map(Number);
+  // Default: Ramkund, Nashik
+  return Number.isFinite(lat) && Number.isFinite(lng) ? [lat, lng] : [19.9975, 73.7898];
+}
+
+export const MAP_CONFIG = {
+  tileUrl: env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution:
+    env.VITE_MAP_TILE_ATTRIBUTION || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: Number(env.VITE_MAP_MAX_ZOOM) || 19,
+  center: parseCenter(env.VITE_MAP_CENTER),
+  zoom: Number(env.VITE_MAP_ZOOM) || 14,
+};
@@ -0,0 +1,158 @@
+// IndexedDB persistence for offline mode: the outbound mutation queue,
+// temp-id → server-id mappings, and recently viewed profiles.
+
+const DB_NAME = 'kms_offline';
+const DB_VERSION = 1;
+
+const MUTATIONS = 'mutations';
+const ID_MAP = 'id_map';
+const PROFILES = 'profiles';
+
+// How many recently viewed profiles are kept for offline reading
+const MAX_CACHED_PROFILES = 50;
+
+export type MutationKind = 'registerDevotee' | 'createIncident' | 'reportLostFound';
+
+export type QueuedMutation = {
+  id?: number;
+  kind: MutationKind;
+  path: string;
+  method: 'POST';
+  body: Record<string, unknown>;
+  temp_id: string;
+  // Sent as the Idempotency-Key header on every attempt, so a replay after a dropped response isn't saved twice
+  idempotency_key: string;
+  // The staff member who made the change; only their session replays it. Null on entries queued before this was recorded
+  user_id: string | null;
+  status: 'pending' | 'failed';
+  error: string | null;
+  attempts: number;
+  created_at: string;
+};
+
+export type CachedProfile<T = unknown> = {
+  id: string;
+  // The staff member who viewed it; only their session reads it back. Missing on entries cached before this was recorded
+  user_id: string;
+  data: T;
+  incidents: unknown[];
+  viewed_at: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(MUTATIONS)) {
+          db.createObjectStore(MUTATIONS, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(ID_MAP)) {
+          db.createObjectStore(ID_MAP, { keyPath: 'temp_id' });
+        }
+        if (!db.objectStoreNames.contains(PROFILES)) {
+          db.createObjectStore(PROFILES, { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function createTempId() {
+  return `tmp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createIdempotencyKey() {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function isTempId(id: unknown): id is string {
+  return typeof id === 'string' && id.startsWith('tmp-');
+}
+
+// Mutation queue (replayed in insertion order, i.e. by auto-increment id)
+export async function enqueueMutation(mutation: Omit<QueuedMutation, 'id' | 'status' | 'error' | 'attempts' | 'created_at'>) {
+  const entry: QueuedMutation = {
+    ...mutation,
+    status: 'pending',
+    error: null,
+    attempts: 0,
+    created_at: new Date().toISOString(),
+  };
+  const id = await run<IDBValidKey>(MUTATIONS, 'readwrite', (s) => s.add(entry));
+  return { ...entry, id: id as number };
+}
+
+export function listMutations() {
+  return run<QueuedMutation[]>(MUTATIONS, 'readonly', (s) => s.getAll());
+}
+
+export function putMutation(mutation: QueuedMutation) {
+  return run(MUTATIONS, 'readwrite', (s) => s.put(mutation));
+}
+
+export function deleteMutation(id: number) {
+  return run(MUTATIONS, 'readwrite', (s) => s.delete(id));
+}
+
+// Temp id → server id
+export function saveIdMapping(tempId: string, serverId: string) {
+  return run(ID_MAP, 'readwrite', (s) => s.put({ temp_id: tempId, server_id: serverId }));
+}
+
+export async function resolveTempId(tempId: string): Promise<string | null> {
+  const entry = await run<{ temp_id: string; server_id: string } | undefined>(ID_MAP, 'readonly', (s) => s.get(tempId));
+  return entry?.server_id ?? null;
+}
+
+// Recently viewed profiles
+export async function cacheProfile<T>(id: string, userId: string, patch: Partial<Omit<CachedProfile<T>, 'id' | 'user_id'>>) {
+  // Another user's copy is replaced, not merged into
+  const existing = await getCachedProfile<T>(id, userId);
+  await run(PROFILES, 'readwrite', (s) =>
+    s.put({ incidents: [], ...existing, ...patch, id, user_id: userId, viewed_at: Date.now() })
+  );
+
+  const all = await run<CachedProfile[]>(PROFILES, 'readonly', (s) => s.getAll());
+  if (all.length > MAX_CACHED_PROFILES) {
+    const stale = all.sort((a, b) => b.viewed_at - a.viewed_at).slice(MAX_CACHED_PROFILES);
+    await Promise.all(stale.map((p) => run(PROFILES, 'readwrite', (s) => s.delete(p.id))));
+  }
+}
+
+export async function getCachedProfile<T>(id: string, userId: string) {
+  const profile = await run<CachedProfile<T> | undefined>(PROFILES, 'readonly', (s) => s.get(id));
+  return profile?.user_id === userId ? profile : undefined;
+}
+
+export async function listCachedProfiles<T>(userId: string) {
+  const all = await run<CachedProfile<T>[]>(PROFILES, 'readonly', (s) => s.getAll());
+  return all.filter((p) => p.user_id === userId).sort((a, b) => b.viewed_at - a.viewed_at);
+}
+
+// Queued mutations are kept on sign-out so unsynced registrations are never lost; profiles go on sign-out,
+// an expired session and a different user signing in
+export function clearCachedProfiles() {
+  return run(PROFILES, 'readwrite', (s) => s.clear());
+}
@@ -0,0 +1,56 @@
+import type { CodedEntry, CodedEntryInput } from './api';
+
+// Checkbox shortcuts on the registration form, keyed by their i18n label and vocabulary code
+export const CONDITION_QUICK_PICKS = [
+  { key: 'hypertension', code: 'I10' },
+  { key: 'diabetes', code: 'E14' },
+  { key: 'arthritis', code: 'M19.9' },
+  { key: 'asthma', code: 'J45' },
+  { key: 'heartDisease', code: 'I51.9' },
+  { key: 'thyroid', code: 'E07.9' },
+  { key: 'kidneyDisease', code: 'N18' },
+  { key: 'liverDisease', code: 'K76.9' },
+  { key: 'cancer', code: 'C80.1' },
+  { key: 'stroke', code: 'I64' },
+  { key: 'depression', code: 'F32.9' },
+];
+
+export const ALLERGY_QUICK_PICKS = [
+  { key: 'dust', code: 'ALG-DUST' },
+  { key: 'pollen', code: 'ALG-POLLEN' },
+  { key: 'peanuts', code: 'ALG-PEANUT' },
+  { key: 'dairy', code: 'ALG-MILK' },
+  { key: 'shellfish', code: 'ALG-SHELLFISH' },
+  { key: 'treeNuts', code: 'ALG-TREENUT' },
+  { key: 'eggs', code: 'ALG-EGG' },
+  { key: 'wheat', code: 'ALG-WHEAT' },
+  { key: 'soy', code: 'ALG-SOY' },
+  { key: 'animalDander', code: 'ALG-DANDER' },
+  { key: 'mold', code: 'ALG-MOLD' },
+  { key: 'insectStings', code: 'ALG-INSECT' },
+  { key: 'medications', code: 'ALG-DRUG' },
+];
+
+export const entryLabel = (entry: CodedEntryInput) => entry.display || entry.text;
+
+// Profiles cached for offline use before the lists were coded still hold plain strings
+export function describeEntries(entries: CodedEntry[] | string | null | undefined) {
+  if (!entries) return '';
+  return typeof entries === 'string' ? entries : entries.map(entryLabel).join(', ');
+}
+
+export const sameEntry = (a: CodedEntryInput, b: CodedEntryInput) =>
+  a.code && b.code ? a.code === b.code : entryLabel(a).toLowerCase() === entryLabel(b).toLowerCase();
+
+// Form state from a stored record, or from a profile cached while lists were still comma strings
+export function asEntries(value: CodedEntryInput[] | string | null | undefined): CodedEntryInput[] {
+  if (!value) return [];
+  if (typeof value !== 'string') return value;
+  return value.split(',').map((text) => ({ text: text.trim() })).filter((entry) => entry.text);
+}
+
+export function togglePick(entries: CodedEntryInput[], code: string, label: string) {
+  return entries.some((entry) => entry.code === code)
+    ? entries.filter((entry) => entry.code !== code)
+    : [...entries, { code, text: label }];
+}
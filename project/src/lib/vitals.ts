@@ -0,0 +1,132 @@
+import { Avpu, News2Risk, StartInput, TriageCategory, Vitals } from './api';
+
+// Same plausibility ranges as server/utils/triage.js, checked here so typos are caught before saving
+export const VITAL_FIELDS = [
+  { field: 'pulse', min: 0, max: 300, step: 1, unit: 'bpm' },
+  { field: 'bp_systolic', min: 0, max: 300, step: 1, unit: 'mmHg' },
+  { field: 'bp_diastolic', min: 0, max: 200, step: 1, unit: 'mmHg' },
+  { field: 'spo2', min: 0, max: 100, step: 1, unit: '%' },
+  { field: 'temperature_c', min: 25, max: 45, step: 0.1, unit: '°C' },
+  { field: 'respiratory_rate', min: 0, max: 80, step: 1, unit: '/min' },
+  { field: 'gcs', min: 3, max: 15, step: 1, unit: '' },
+  { field: 'blood_glucose_mg_dl', min: 10, max: 1000, step: 1, unit: 'mg/dL' },
+  { field: 'capillary_refill_s', min: 0, max: 20, step: 0.5, unit: 's' },
+] as const;
+
+export type NumericVital = (typeof VITAL_FIELDS)[number]['field'];
+
+export const AVPU_LEVELS: Avpu[] = ['A', 'V', 'P', 'U'];
+
+// Unanswered is not the same as 'no' for the START questions
+export type YesNo = '' | 'yes' | 'no';
+
+// Form state keeps the raw input strings so a half-typed value isn't coerced away
+export type VitalsDraft = Record<NumericVital, string> & {
+  avpu: Avpu | '';
+  on_oxygen: boolean;
+  ambulatory: YesNo;
+  obeys_commands: YesNo;
+};
+
+export const emptyVitalsDraft = (): VitalsDraft => ({
+  pulse: '',
+  bp_systolic: '',
+  bp_diastolic: '',
+  spo2: '',
+  temperature_c: '',
+  respiratory_rate: '',
+  gcs: '',
+  blood_glucose_mg_dl: '',
+  capillary_refill_s: '',
+  avpu: '',
+  on_oxygen: false,
+  ambulatory: '',
+  obeys_commands: '',
+});
+
+export type VitalsErrors = Partial<Record<NumericVital, string>>;
+
+/**
+ * Validate a draft. Returns the parsed vitals (null when nothing was entered)
+ * and per-field i18n keys for anything out of range.
+ */
+export function parseVitalsDraft(draft: VitalsDraft): { vitals: Vitals | null; errors: VitalsErrors } {
+  const vitals: Vitals = {};
+  const errors: VitalsErrors = {};
+
+  VITAL_FIELDS.forEach(({ field, min, max }) => {
+    const raw = draft[field].trim();
+    if (!raw) return;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors[field] = 'vitals.error.range';
+      return;
+    }
+    vitals[field] = value;
+  });
+
+  if (vitals.bp_systolic !== undefined && vitals.bp_diastolic !== undefined && vitals.bp_diastolic >= vitals.bp_systolic) {
+    errors.bp_diastolic = 'vitals.error.diastolic';
+  }
+
+  if (draft.avpu) vitals.avpu = draft.avpu;
+
+  const measured = Object.keys(vitals).length > 0;
+  if (measured || draft.on_oxygen) vitals.on_oxygen = draft.on_oxygen;
+  if (draft.ambulatory) vitals.ambulatory = draft.ambulatory === 'yes';
+  if (draft.obeys_commands) vitals.obeys_commands = draft.obeys_commands === 'yes';
+
+  return { vitals: Object.keys(vitals).length > 0 ? vitals : null, errors };
+}
+
+export const TRIAGE_STYLES: Record<TriageCategory, string> = {
+  red: 'bg-red-600 text-white',
+  yellow: 'bg-yellow-400 text-gray-900',
+  green: 'bg-green-600 text-white',
+  black: 'bg-gray-900 text-white',
+};
+
+export const UNTRIAGED_STYLE = 'bg-gray-200 text-gray-700';
+
+// Same START steps as server/utils/triage.js, so the form can ask for what is missing before saving
+const START_STEPS: Record<StartInput, (keyof Vitals)[]> = {
+  ambulatory: ['ambulatory'],
+  respiratory_rate: ['respiratory_rate'],
+  perfusion: ['capillary_refill_s', 'bp_systolic'],
+  mental_status: ['obeys_commands', 'avpu', 'gcs'],
+};
+
+/** START steps still needed before a colour can be given; empty once the readings decide it. */
+export function startInputsNeeded(v: Vitals): StartInput[] {
+  const decided = v.ambulatory
+    || v.respiratory_rate === 0
+    || (v.respiratory_rate ?? 0) > 30
+    || (v.capillary_refill_s ?? 0) > 2
+    || (v.bp_systolic !== undefined && v.bp_systolic < 80)
+    || v.obeys_commands === false
+    || (v.avpu ? v.avpu !== 'A' : v.gcs !== undefined && v.gcs < 15);
+  if (decided) return [];
+  return (Object.keys(START_STEPS) as StartInput[]).filter((step) => START_STEPS[step].every((field) => v[field] === undefined));
+}
+
+export const NEWS2_STYLES: Record<News2Risk, string> = {
+  low: 'bg-green-100 text-green-800',
+  low_medium: 'bg-yellow-100 text-yellow-800',
+  medium: 'bg-orange-100 text-orange-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+// One-line summary using the standard clinical abbreviations, which staff read in any language
+export function summarizeVitals(v: Vitals) {
+  const parts: string[] = [];
+  if (v.pulse !== undefined) parts.push(`HR ${v.pulse}`);
+  if (v.bp_systolic !== undefined || v.bp_diastolic !== undefined) parts.push(`BP ${v.bp_systolic ?? '–'}/${v.bp_diastolic ?? '–'}`);
+  if (v.spo2 !== undefined) parts.push(`SpO₂ ${v.spo2}%${v.on_oxygen ? ' (O₂)' : ''}`);
+  if (v.respiratory_rate !== undefined) parts.push(`RR ${v.respiratory_rate}`);
+  if (v.temperature_c !== undefined) parts.push(`T ${v.temperature_c}°C`);
+  if (v.gcs !== undefined) parts.push(`GCS ${v.gcs}`);
+  if (v.avpu) parts.push(`AVPU ${v.avpu}`);
+  if (v.blood_glucose_mg_dl !== undefined) parts.push(`Glu ${v.blood_glucose_mg_dl}`);
+  if (v.capillary_refill_s !== undefined) parts.push(`CRT ${v.capillary_refill_s}s`);
+  return parts.join(' · ');
+}
@@ -4,6 +4,7 @@ import App from './App.tsx';
 import './index.css';
 import { I18nProvider } from './i18n/i18n';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { AuthProvider } from './auth/auth';
 
 // Register service worker for PWA
 if ('serviceWorker' in navigator && import.meta.env.PROD) {
@@ -23,7 +24,9 @@ createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ErrorBoundary>
       <I18nProvider>
-        <App />
+        <AuthProvider>
+          <App />
+        </AuthProvider>
       </I18nProvider>
     </ErrorBoundary>
   </StrictMode>
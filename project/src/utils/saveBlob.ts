@@ -0,0 +1,11 @@
+/**
+ * Hand a downloaded file to the browser as if the user had clicked a link to it
+ */
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  // Map tiles, e.g. http://tiles.mela.local/{z}/{x}/{y}.png for a local tile server
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  readonly VITE_MAP_MAX_ZOOM?: string;
+  // "lat,lng" the map opens on
+  readonly VITE_MAP_CENTER?: string;
+  readonly VITE_MAP_ZOOM?: string;
+}